@@ -218,6 +218,8 @@ DROP POLICY IF EXISTS "pilot_checks_update_admin_or_manager" ON pilot_checks;
 DROP POLICY IF EXISTS "pilot_checks_delete_admin_or_manager" ON pilot_checks;
 
 -- SELECT: All authenticated users can view pilot checks
+-- (limited to staff by migrations/20261019_pilot_self_service.sql; re-run that
+-- migration after this script)
 CREATE POLICY "pilot_checks_select_all_authenticated"
   ON pilot_checks
   FOR SELECT
@@ -7,7 +7,12 @@
 import { tool } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
 import { getSupabaseAdmin } from '../../src/lib/supabase-admin';
-import { getCurrentRosterPeriod, getRosterPeriodByCode } from '../../src/lib/roster-utils';
+import {
+  getCurrentRosterPeriod,
+  getNextRosterPeriod,
+  getRosterPeriodByCode,
+} from '../../src/lib/roster-utils';
+import { loadRosterCalendar } from '../../src/lib/roster-calendar-service';
 import { differenceInDays } from 'date-fns';
 
 /**
@@ -83,10 +88,13 @@ export const getLeaveRequestsTool = tool({
  */
 export const getCurrentRosterPeriodTool = tool({
   name: 'get_current_roster_period',
-  description: 'Get information about the current 28-day roster period',
+  description:
+    'Get information about the current roster period from the configured roster calendar',
   parameters: z.object({}),
   execute: async () => {
+    const calendar = await loadRosterCalendar();
     const currentPeriod = getCurrentRosterPeriod();
+    const nextPeriod = getNextRosterPeriod(currentPeriod);
     const today = new Date();
     const daysRemaining = differenceInDays(currentPeriod.endDate, today);
 
@@ -95,7 +103,14 @@ export const getCurrentRosterPeriodTool = tool({
       current_roster: {
         ...currentPeriod,
         days_remaining: daysRemaining,
-        is_final_review_period: daysRemaining <= 22,
+        is_final_review_period: daysRemaining <= calendar.lockLeadDays,
+      },
+      next_roster: {
+        code: nextPeriod.code,
+        startDate: nextPeriod.startDate,
+        endDate: nextPeriod.endDate,
+        publicationDate: nextPeriod.publicationDate,
+        lockDate: nextPeriod.lockDate,
       },
     };
   },
@@ -293,23 +308,14 @@ export const getPendingFinalReviewTool = tool({
   execute: async ({ roster_period_code }) => {
     const supabase = getSupabaseAdmin();
 
-    // Determine roster period
-    let targetPeriod;
-    if (roster_period_code) {
-      targetPeriod = getRosterPeriodByCode(roster_period_code);
-    } else {
-      const current = getCurrentRosterPeriod();
-      // Calculate next period (28 days after current end date)
-      const nextStart = new Date(current.endDate);
-      nextStart.setDate(nextStart.getDate() + 1);
-      const nextEnd = new Date(nextStart);
-      nextEnd.setDate(nextEnd.getDate() + 27);
-
-      targetPeriod = {
-        code: `RP${current.number + 1}/${current.year}`,
-        startDate: nextStart,
-        endDate: nextEnd,
-      };
+    // Determine roster period from the configured roster calendar
+    await loadRosterCalendar();
+    const targetPeriod = roster_period_code
+      ? getRosterPeriodByCode(roster_period_code)
+      : getNextRosterPeriod(getCurrentRosterPeriod());
+
+    if (!targetPeriod) {
+      throw new Error(`Unknown roster period: ${roster_period_code}`);
     }
 
     // Get pending requests for this period
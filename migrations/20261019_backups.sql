@@ -0,0 +1,124 @@
+-- ==========================================
+-- Backups Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds backups (one row per archive written to the private
+--              "backups" storage bucket, with format version, SHA-256
+--              checksum, per-table record counts and verification
+--              result), backup_restores (dry runs and restores performed
+--              from an archive) and seeds the backup_policy setting
+--              (schedule and daily/weekly/monthly retention).
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE BACKUPS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS backups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('manual', 'scheduled')),
+    status VARCHAR(20) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'failed')),
+    format_version SMALLINT NOT NULL,
+    storage_path TEXT,
+    checksum VARCHAR(64),
+    size_bytes BIGINT,
+    tables TEXT[] NOT NULL,
+    record_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+    description TEXT,
+    error TEXT,
+    duration_ms INTEGER,
+    verified_at TIMESTAMPTZ,
+    verification_issues TEXT[],
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_backups_created_at ON backups(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_backups_kind_status ON backups(kind, status);
+
+COMMENT ON TABLE backups IS 'Backup archives (gzipped JSON) stored in the private backups storage bucket';
+COMMENT ON COLUMN backups.checksum IS 'SHA-256 of the archive bytes, re-checked by verification and before restores';
+COMMENT ON COLUMN backups.verification_issues IS 'Problems found by the last verification; empty when the archive is intact';
+
+-- ==========================================
+-- STEP 2: CREATE BACKUP_RESTORES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS backup_restores (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    backup_id UUID NOT NULL REFERENCES backups(id) ON DELETE CASCADE,
+    dry_run BOOLEAN NOT NULL,
+    tables TEXT[] NOT NULL,
+    pilot_id UUID REFERENCES pilots(id) ON DELETE SET NULL,
+    summary JSONB NOT NULL,
+    success BOOLEAN NOT NULL,
+    performed_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_backup_restores_backup ON backup_restores(backup_id, created_at DESC);
+
+COMMENT ON TABLE backup_restores IS 'Dry runs and restores from a backup, with per-table insert/update counts';
+
+-- ==========================================
+-- STEP 3: SEED DEFAULT BACKUP POLICY
+-- ==========================================
+
+INSERT INTO settings (key, value, description)
+VALUES (
+    'backup_policy',
+    '{
+        "enabled": true,
+        "frequency": "daily",
+        "hourUtc": 14,
+        "weekday": 0,
+        "retention": { "daily": 7, "weekly": 4, "monthly": 12 }
+    }'::jsonb,
+    'Scheduled backups: frequency, hour (UTC) and daily/weekly/monthly retention'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- ==========================================
+-- STEP 4: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE backups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE backup_restores ENABLE ROW LEVEL SECURITY;
+
+-- Archives contain every table: administrators only. Rows are written by the
+-- service role.
+CREATE POLICY backups_select_policy ON backups
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY backup_restores_select_policy ON backup_restores
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- The backups storage bucket is created on first use. Scheduled backups are
+-- taken by POST /api/cron/backup (run it hourly); it only backs up when the
+-- policy's slot has passed since the last scheduled backup, then prunes
+-- scheduled backups outside the retention windows. Manual backups are kept
+-- until deleted.
@@ -0,0 +1,63 @@
+-- ==========================================
+-- Calendar Feeds Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds calendar_feeds, the secret tokens behind the iCalendar
+--              (ICS) subscription URLs. A feed covers one pilot (pilot_id
+--              set) or the whole fleet (pilot_id NULL, staff only) and is
+--              owned by either a staff user or a pilot portal user.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE CALENDAR_FEEDS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    token VARCHAR(64) NOT NULL UNIQUE,
+    pilot_id UUID REFERENCES pilots(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES an_users(id) ON DELETE CASCADE,
+    pilot_user_id UUID REFERENCES pilot_users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_accessed_at TIMESTAMPTZ,
+    CONSTRAINT calendar_feeds_single_owner CHECK (
+        (user_id IS NOT NULL AND pilot_user_id IS NULL)
+        OR (user_id IS NULL AND pilot_user_id IS NOT NULL AND pilot_id IS NOT NULL)
+    )
+);
+
+-- One feed per owner and scope; rotating a token replaces the row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_user_scope
+    ON calendar_feeds(user_id, COALESCE(pilot_id, '00000000-0000-0000-0000-000000000000'::uuid))
+    WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_pilot_user
+    ON calendar_feeds(pilot_user_id)
+    WHERE pilot_user_id IS NOT NULL;
+
+COMMENT ON TABLE calendar_feeds IS 'Tokenised ICS subscription feeds of leave, check expiries, roster periods and flight requests';
+COMMENT ON COLUMN calendar_feeds.token IS 'Secret in the feed URL; anyone holding it can read the feed';
+COMMENT ON COLUMN calendar_feeds.pilot_id IS 'Pilot the feed covers; NULL for fleet-wide staff feeds';
+
+-- ==========================================
+-- STEP 2: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Owners see their own feeds. Feeds are read by token and written by the
+-- service role.
+CREATE POLICY calendar_feeds_select_policy ON calendar_feeds
+    FOR SELECT
+    USING (user_id = auth.uid() OR pilot_user_id = auth.uid());
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Feed URLs are /api/calendar/feed/<token>.ics. Staff manage theirs through
+-- /api/calendar/feeds, pilots through /api/pilot/calendar-feed. Deleting a
+-- feed (or rotating its token) breaks existing subscriptions.
@@ -0,0 +1,165 @@
+-- ==========================================
+-- Certification Completion History Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds check_events, an append-only history of check
+--              completions (examiner, result, location/simulator, evidence
+--              document). pilot_checks becomes a derived table holding the
+--              expiry of the latest valid (passed) event per pilot and check.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE CHECK_EVENTS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS check_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    check_type_id UUID NOT NULL REFERENCES check_types(id) ON DELETE CASCADE,
+
+    -- Completion details (completed_date is NULL for imported / manual expiry updates)
+    completed_date DATE,
+    expiry_date DATE,
+    result VARCHAR(20) NOT NULL DEFAULT 'pass' CHECK (result IN ('pass', 'fail', 'partial')),
+    examiner VARCHAR(200),
+    location VARCHAR(200),
+    simulator VARCHAR(200),
+    document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+    notes TEXT,
+
+    -- How the event was captured
+    source VARCHAR(20) NOT NULL DEFAULT 'recorded'
+        CHECK (source IN ('recorded', 'manual_update', 'import')),
+    recorded_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT check_events_recorded_has_completion
+        CHECK (source <> 'recorded' OR completed_date IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_check_events_pilot_check
+    ON check_events(pilot_id, check_type_id, completed_date DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_check_events_check_type
+    ON check_events(check_type_id, completed_date DESC);
+
+COMMENT ON TABLE check_events IS 'Append-only certification completion history; pilot_checks is derived from the latest passed event';
+COMMENT ON COLUMN check_events.result IS 'pass | fail | partial - only passed events update pilot_checks';
+COMMENT ON COLUMN check_events.source IS 'recorded (completion entered) | manual_update (expiry edited directly) | import (pre-history pilot_checks row)';
+
+ALTER TABLE pilot_checks
+    ADD COLUMN IF NOT EXISTS last_check_event_id UUID REFERENCES check_events(id) ON DELETE SET NULL;
+
+-- ==========================================
+-- STEP 2: BACKFILL HISTORY FROM EXISTING PILOT_CHECKS
+-- ==========================================
+
+INSERT INTO check_events (pilot_id, check_type_id, expiry_date, result, source, notes, created_at)
+SELECT
+    pc.pilot_id,
+    pc.check_type_id,
+    pc.expiry_date,
+    'pass',
+    'import',
+    'Imported from pilot_checks when completion history was introduced',
+    COALESCE(pc.updated_at, pc.created_at, NOW())
+FROM pilot_checks pc
+WHERE NOT EXISTS (
+    SELECT 1 FROM check_events ce
+    WHERE ce.pilot_id = pc.pilot_id AND ce.check_type_id = pc.check_type_id
+);
+
+UPDATE pilot_checks pc
+SET last_check_event_id = ce.id
+FROM check_events ce
+WHERE ce.pilot_id = pc.pilot_id
+  AND ce.check_type_id = pc.check_type_id
+  AND ce.source = 'import'
+  AND pc.last_check_event_id IS NULL;
+
+-- ==========================================
+-- STEP 3: DERIVE PILOT_CHECKS FROM THE LATEST VALID EVENT
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION sync_pilot_check_from_events()
+RETURNS TRIGGER AS $$
+DECLARE
+    latest RECORD;
+BEGIN
+    SELECT id, expiry_date INTO latest
+    FROM check_events
+    WHERE pilot_id = NEW.pilot_id
+      AND check_type_id = NEW.check_type_id
+      AND result = 'pass'
+    ORDER BY COALESCE(completed_date, created_at::DATE) DESC, created_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+        INSERT INTO pilot_checks (pilot_id, check_type_id, expiry_date, last_check_event_id, updated_at)
+        VALUES (NEW.pilot_id, NEW.check_type_id, latest.expiry_date, latest.id, NOW())
+        ON CONFLICT (pilot_id, check_type_id) DO UPDATE
+        SET expiry_date = EXCLUDED.expiry_date,
+            last_check_event_id = EXCLUDED.last_check_event_id,
+            updated_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_sync_pilot_check_from_events ON check_events;
+CREATE TRIGGER trigger_sync_pilot_check_from_events
+    AFTER INSERT ON check_events
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_pilot_check_from_events();
+
+-- History is append-only: corrections are recorded as new events
+CREATE OR REPLACE FUNCTION prevent_check_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'check_events is append-only; record a new event instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_check_event_changes ON check_events;
+CREATE TRIGGER trigger_prevent_check_event_changes
+    BEFORE UPDATE ON check_events
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_check_event_changes();
+
+-- ==========================================
+-- STEP 4: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE check_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY check_events_select_policy ON check_events
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY check_events_insert_policy ON check_events
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- pilot_checks.expiry_date must no longer be written directly. Record a
+-- check_events row instead (POST /api/check-events, or a manual_update
+-- event for direct expiry edits) and the trigger keeps pilot_checks current.
@@ -0,0 +1,47 @@
+-- ==========================================
+-- Check Type Validity Rules Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds per-check-type validity period, renewal window,
+--              grace period, warning threshold and expiry rounding used
+--              by certification-rules.ts to propose the next expiry date
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: ADD RULE COLUMNS TO CHECK_TYPES
+-- ==========================================
+
+ALTER TABLE check_types
+    ADD COLUMN IF NOT EXISTS validity_months INTEGER CHECK (validity_months IS NULL OR validity_months > 0),
+    ADD COLUMN IF NOT EXISTS renewal_window_months INTEGER NOT NULL DEFAULT 3 CHECK (renewal_window_months >= 0),
+    ADD COLUMN IF NOT EXISTS grace_period_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_period_days >= 0),
+    ADD COLUMN IF NOT EXISTS warning_days INTEGER NOT NULL DEFAULT 30 CHECK (warning_days >= 0),
+    ADD COLUMN IF NOT EXISTS expiry_rounding VARCHAR(20) NOT NULL DEFAULT 'none'
+        CHECK (expiry_rounding IN ('none', 'end_of_month')),
+    ADD COLUMN IF NOT EXISTS preserve_anniversary BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN check_types.validity_months IS 'Months a completed check remains valid (NULL = non-renewal check)';
+COMMENT ON COLUMN check_types.renewal_window_months IS 'Months before expiry a renewal keeps the anniversary date';
+COMMENT ON COLUMN check_types.grace_period_days IS 'Days after expiry a renewal still keeps the anniversary date';
+COMMENT ON COLUMN check_types.warning_days IS 'Days before expiry the check is reported as Expiring Soon';
+COMMENT ON COLUMN check_types.expiry_rounding IS 'none | end_of_month - rounding applied to computed expiry dates';
+
+-- ==========================================
+-- STEP 2: NON-RENEWAL CHECKS NEVER PROPOSE AN EXPIRY
+-- ==========================================
+
+UPDATE check_types
+SET validity_months = NULL
+WHERE category = 'Non-renewal';
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Validity periods are configured per check type by the fleet office via
+-- PUT /api/check-types. Until validity_months is set, expiry dates for that
+-- check type are still entered manually.
@@ -0,0 +1,193 @@
+-- ==========================================
+-- Flight and Duty Time Log Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds duty_periods (duty start/end per pilot) and
+--              flight_sectors (block off/on per sector within a duty),
+--              planned duty times on flight_requests for the flight time
+--              limitations check on approval, and the ftl_limits setting.
+--              All times are stored as TIMESTAMPTZ and entered in UTC.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE DUTY_PERIODS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS duty_periods (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    duty_start TIMESTAMPTZ NOT NULL,
+    duty_end TIMESTAMPTZ NOT NULL,
+    duty_type VARCHAR(20) NOT NULL DEFAULT 'FLIGHT'
+        CHECK (duty_type IN ('FLIGHT', 'STANDBY', 'TRAINING', 'POSITIONING', 'OFFICE')),
+    notes TEXT,
+    source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT duty_periods_valid_times CHECK (duty_end > duty_start),
+    CONSTRAINT duty_periods_unique_duty UNIQUE (pilot_id, duty_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duty_periods_pilot_start
+    ON duty_periods(pilot_id, duty_start DESC);
+CREATE INDEX IF NOT EXISTS idx_duty_periods_start
+    ON duty_periods(duty_start);
+
+COMMENT ON TABLE duty_periods IS 'Duty periods per pilot; flight time comes from the flight_sectors within each duty';
+
+-- ==========================================
+-- STEP 2: CREATE FLIGHT_SECTORS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS flight_sectors (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    duty_period_id UUID NOT NULL REFERENCES duty_periods(id) ON DELETE CASCADE,
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    flight_number VARCHAR(20),
+    departure_airport VARCHAR(10),
+    arrival_airport VARCHAR(10),
+    block_off TIMESTAMPTZ NOT NULL,
+    block_on TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT flight_sectors_valid_times CHECK (block_on > block_off)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flight_sectors_duty ON flight_sectors(duty_period_id);
+CREATE INDEX IF NOT EXISTS idx_flight_sectors_pilot_block
+    ON flight_sectors(pilot_id, block_off DESC);
+
+COMMENT ON TABLE flight_sectors IS 'Sectors flown within a duty period; block time = block_on - block_off';
+
+-- ==========================================
+-- STEP 3: PLANNED DUTY ON FLIGHT REQUESTS
+-- ==========================================
+
+ALTER TABLE flight_requests
+    ADD COLUMN IF NOT EXISTS planned_duty_start TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS planned_duty_end TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS planned_block_minutes INTEGER
+        CHECK (planned_block_minutes IS NULL OR planned_block_minutes >= 0);
+
+COMMENT ON COLUMN flight_requests.planned_duty_start IS 'Planned duty start (UTC), checked against flight time limitations on approval';
+COMMENT ON COLUMN flight_requests.planned_block_minutes IS 'Planned block time of the assignment in minutes';
+
+-- ==========================================
+-- STEP 4: SEED FLIGHT TIME LIMITATIONS
+-- ==========================================
+
+INSERT INTO settings (key, value, description)
+VALUES (
+    'ftl_limits',
+    '{
+        "maxFlightHours7Days": 30,
+        "maxFlightHours28Days": 100,
+        "maxFlightHours365Days": 1000,
+        "maxDutyHours7Days": 60,
+        "maxDutyHours28Days": 190,
+        "minRestHours": 10,
+        "warningPercent": 90
+    }'::jsonb,
+    'Flight time limitations: rolling 7/28/365-day flight and duty hour limits, minimum rest and warning threshold'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- ==========================================
+-- STEP 5: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE duty_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flight_sectors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY duty_periods_select_policy ON duty_periods
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY duty_periods_insert_policy ON duty_periods
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY duty_periods_update_policy ON duty_periods
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY duty_periods_delete_policy ON duty_periods
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY flight_sectors_select_policy ON flight_sectors
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY flight_sectors_insert_policy ON flight_sectors
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY flight_sectors_update_policy ON flight_sectors
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY flight_sectors_delete_policy ON flight_sectors
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Log duties with POST /api/flight-duty or import a CSV with
+-- POST /api/flight-duty/import. Approving a flight request checks the
+-- pilot's planned duty against ftl_limits and is refused on a breach.
@@ -0,0 +1,40 @@
+-- ==========================================
+-- Digital Form Builder and Approval Chains Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Tracks which approval step a form submission is waiting
+--              for and the decision made at every step, so forms built
+--              with several approval steps (e.g. Chief Pilot, then Head
+--              of Flight Operations) move through them in order.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: APPROVAL PROGRESS ON FORM_SUBMISSIONS
+-- ==========================================
+
+ALTER TABLE form_submissions
+    ADD COLUMN IF NOT EXISTS approval_step INTEGER NOT NULL DEFAULT 0 CHECK (approval_step >= 0),
+    ADD COLUMN IF NOT EXISTS approval_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_status_step ON form_submissions(status, approval_step);
+
+COMMENT ON COLUMN form_submissions.approval_step IS 'Index into digital_forms.form_schema->approval_steps of the step awaiting a decision';
+COMMENT ON COLUMN form_submissions.approval_history IS 'Decisions made so far: [{ step, name, decision, by, at, comment }]';
+
+-- ==========================================
+-- STEP 2: DOCUMENT THE FORM SCHEMA FORMAT
+-- ==========================================
+
+COMMENT ON COLUMN digital_forms.form_schema IS 'See src/lib/form-schema.ts: { fields: [{ name, type, label, required, options?, validation?, visible_when?, autofill? }], approval_steps: [{ name, roles }] }';
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Existing schemas in the original { fields } format remain valid; forms that
+-- require approval but define no approval_steps get a single step decided by
+-- an admin or manager.
@@ -0,0 +1,256 @@
+-- ==========================================
+-- Global Search Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Full-text and trigram search across pilots, check types,
+--              documents (title, description and text extracted from the
+--              uploaded file), tasks, disciplinary matters and feedback
+--              posts through one ranked, highlighted search_records()
+--              function used by /api/search and the command palette.
+-- ==========================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ==========================================
+-- STEP 1: EXTRACTED DOCUMENT TEXT
+-- ==========================================
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS extracted_text TEXT;
+
+COMMENT ON COLUMN documents.extracted_text IS 'Text extracted from the uploaded file at upload time (PDF and text files); capped at 100,000 characters';
+
+-- ==========================================
+-- STEP 2: SEARCH VECTORS
+-- ==========================================
+
+ALTER TABLE pilots
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        to_tsvector('simple',
+            coalesce(first_name, '') || ' ' || coalesce(middle_name, '') || ' ' ||
+            coalesce(last_name, '') || ' ' || coalesce(employee_id, ''))
+    ) STORED;
+
+ALTER TABLE check_types
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(check_code, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(check_description, '') || ' ' || coalesce(category, '')), 'B')
+    ) STORED;
+
+ALTER TABLE documents
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(extracted_text, '')), 'C')
+    ) STORED;
+
+ALTER TABLE tasks
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B')
+    ) STORED;
+
+ALTER TABLE disciplinary_matters
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B')
+    ) STORED;
+
+ALTER TABLE feedback_posts
+    ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(content, '')), 'B')
+    ) STORED;
+
+-- ==========================================
+-- STEP 3: INDEXES
+-- ==========================================
+
+CREATE INDEX IF NOT EXISTS idx_pilots_search ON pilots USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_check_types_search ON check_types USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_documents_search ON documents USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_disciplinary_matters_search ON disciplinary_matters USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_feedback_posts_search_vector ON feedback_posts USING gin(search_vector);
+
+-- Trigram indexes catch partial words and typos in names, codes and titles
+CREATE INDEX IF NOT EXISTS idx_pilots_name_trgm
+    ON pilots USING gin(lower(first_name || ' ' || last_name) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_pilots_employee_id_trgm
+    ON pilots USING gin(lower(employee_id) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_check_types_trgm
+    ON check_types USING gin(lower(check_code || ' ' || check_description) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_documents_title_trgm
+    ON documents USING gin(lower(title) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tasks_title_trgm
+    ON tasks USING gin(lower(title) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_disciplinary_matters_title_trgm
+    ON disciplinary_matters USING gin(lower(title) gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_feedback_posts_title_trgm
+    ON feedback_posts USING gin(lower(title) gin_trgm_ops);
+
+-- ==========================================
+-- STEP 4: SEARCH FUNCTION
+-- ==========================================
+
+-- Returns up to result_limit matches per entity type, best first, with the
+-- number of matches of that type (type_total) for facets. Highlighted terms in
+-- headline are wrapped in chr(1) ... chr(2). pilot_ids limits pilots and
+-- pilot-linked records to a staff user's data scope (NULL: every pilot);
+-- documents and tasks without a pilot are always included.
+DROP FUNCTION IF EXISTS search_records(TEXT, TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION search_records(
+    search_query TEXT,
+    entity_types TEXT[] DEFAULT NULL,
+    result_limit INTEGER DEFAULT 10,
+    pilot_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    entity_type TEXT,
+    entity_id UUID,
+    title TEXT,
+    subtitle TEXT,
+    headline TEXT,
+    rank REAL,
+    type_total BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH terms AS (
+        SELECT
+            websearch_to_tsquery('english', search_query) AS english,
+            websearch_to_tsquery('simple', search_query) AS simple,
+            lower(trim(search_query)) AS needle
+    ),
+    matches AS (
+        SELECT
+            'pilot'::TEXT AS entity_type,
+            p.id AS entity_id,
+            p.first_name || ' ' || p.last_name AS title,
+            p.employee_id || ' • ' || p.role::TEXT AS subtitle,
+            p.first_name || ' ' || coalesce(p.middle_name || ' ', '') || p.last_name || ' ' || p.employee_id AS body,
+            ts_rank(p.search_vector, t.simple)
+                + word_similarity(t.needle, lower(p.first_name || ' ' || p.last_name))
+                + CASE WHEN lower(p.employee_id) = t.needle THEN 1 ELSE 0 END AS rank
+        FROM pilots p, terms t
+        WHERE (entity_types IS NULL OR 'pilot' = ANY(entity_types))
+          AND (pilot_ids IS NULL OR p.id = ANY(pilot_ids))
+          AND (p.search_vector @@ t.simple
+               OR t.needle <% lower(p.first_name || ' ' || p.last_name)
+               OR lower(p.employee_id) LIKE t.needle || '%')
+
+        UNION ALL
+
+        SELECT
+            'check_type',
+            c.id,
+            c.check_code,
+            c.check_description,
+            c.check_code || ' ' || c.check_description || ' ' || coalesce(c.category, ''),
+            ts_rank(c.search_vector, t.english)
+                + word_similarity(t.needle, lower(c.check_code || ' ' || c.check_description))
+                + CASE WHEN lower(c.check_code) = t.needle THEN 1 ELSE 0 END
+        FROM check_types c, terms t
+        WHERE (entity_types IS NULL OR 'check_type' = ANY(entity_types))
+          AND (c.search_vector @@ t.english
+               OR t.needle <% lower(c.check_code || ' ' || c.check_description))
+
+        UNION ALL
+
+        SELECT
+            'document',
+            d.id,
+            d.title,
+            d.file_name,
+            coalesce(d.description, '') || ' ' || coalesce(d.extracted_text, ''),
+            ts_rank(d.search_vector, t.english) + word_similarity(t.needle, lower(d.title))
+        FROM documents d, terms t
+        WHERE (entity_types IS NULL OR 'document' = ANY(entity_types))
+          AND coalesce(d.status, 'active') = 'active'
+          AND (pilot_ids IS NULL OR d.pilot_id IS NULL OR d.pilot_id = ANY(pilot_ids))
+          AND (d.search_vector @@ t.english OR t.needle <% lower(d.title))
+
+        UNION ALL
+
+        SELECT
+            'task',
+            k.id,
+            k.title,
+            k.status || ' • ' || k.priority,
+            coalesce(k.description, ''),
+            ts_rank(k.search_vector, t.english) + word_similarity(t.needle, lower(k.title))
+        FROM tasks k, terms t
+        WHERE (entity_types IS NULL OR 'task' = ANY(entity_types))
+          AND (pilot_ids IS NULL OR k.related_pilot_id IS NULL OR k.related_pilot_id = ANY(pilot_ids))
+          AND (k.search_vector @@ t.english OR t.needle <% lower(k.title))
+
+        UNION ALL
+
+        SELECT
+            'disciplinary_matter',
+            m.id,
+            m.title,
+            m.status || ' • ' || m.severity,
+            coalesce(m.description, ''),
+            ts_rank(m.search_vector, t.english) + word_similarity(t.needle, lower(m.title))
+        FROM disciplinary_matters m, terms t
+        WHERE (entity_types IS NULL OR 'disciplinary_matter' = ANY(entity_types))
+          AND (pilot_ids IS NULL OR m.pilot_id = ANY(pilot_ids))
+          AND (m.search_vector @@ t.english OR t.needle <% lower(m.title))
+
+        UNION ALL
+
+        SELECT
+            'feedback_post',
+            f.id,
+            f.title,
+            f.author_display_name,
+            f.content,
+            ts_rank(f.search_vector, t.english) + word_similarity(t.needle, lower(f.title))
+        FROM feedback_posts f, terms t
+        WHERE (entity_types IS NULL OR 'feedback_post' = ANY(entity_types))
+          AND f.status = 'active'
+          AND (f.search_vector @@ t.english OR t.needle <% lower(f.title))
+    ),
+    ranked AS (
+        SELECT
+            m.*,
+            row_number() OVER (PARTITION BY m.entity_type ORDER BY m.rank DESC) AS position,
+            count(*) OVER (PARTITION BY m.entity_type) AS type_total
+        FROM matches m
+    )
+    SELECT
+        r.entity_type,
+        r.entity_id,
+        r.title,
+        r.subtitle,
+        ts_headline('english', r.body, t.english,
+            'StartSel=' || chr(1) || ', StopSel=' || chr(2) ||
+            ', MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "') AS headline,
+        r.rank::REAL,
+        r.type_total
+    FROM ranked r, terms t
+    WHERE r.position <= result_limit
+    ORDER BY r.rank DESC;
+$$;
+
+COMMENT ON FUNCTION search_records(TEXT, TEXT[], INTEGER, UUID[]) IS 'Ranked full-text and trigram search; permission filtering of entity_types and the data scope (pilot_ids) are supplied by the caller';
+
+-- Only the server (service role) may search: it filters entity types by permission
+-- and passes the user's data scope
+REVOKE ALL ON FUNCTION search_records(TEXT, TEXT[], INTEGER, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_records(TEXT, TEXT[], INTEGER, UUID[]) TO service_role;
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Documents uploaded before this migration have no extracted_text and are
+-- found by title and description only until they are uploaded again.
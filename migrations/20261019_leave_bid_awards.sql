@@ -0,0 +1,127 @@
+-- ==========================================
+-- Leave Bid Allocation Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds leave_bid_awards, the outcome of the seniority-based
+--              leave bid allocation for each bid: awarded choice and dates,
+--              the leave request created for it, a per-choice explanation
+--              and a lock that keeps the award fixed on re-runs.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE LEAVE_BID_AWARDS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS leave_bid_awards (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bid_id UUID NOT NULL UNIQUE REFERENCES leave_bids(id) ON DELETE CASCADE,
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    roster_period_code VARCHAR(20) NOT NULL,
+
+    -- Allocation outcome (awarded_choice 1 = preferred dates, 2+ = alternatives)
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('AWARDED', 'UNAWARDED')),
+    awarded_choice SMALLINT,
+    start_date DATE,
+    end_date DATE,
+    leave_request_id UUID REFERENCES leave_requests(id) ON DELETE SET NULL,
+
+    -- Explainability and re-run control
+    explanation TEXT NOT NULL,
+    attempts JSONB NOT NULL DEFAULT '[]'::jsonb,
+    locked BOOLEAN NOT NULL DEFAULT FALSE,
+
+    allocated_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    allocated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT leave_bid_awards_awarded_has_dates
+        CHECK (outcome <> 'AWARDED' OR (awarded_choice IS NOT NULL AND start_date IS NOT NULL AND end_date IS NOT NULL)),
+    CONSTRAINT leave_bid_awards_valid_dates
+        CHECK (start_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_bid_awards_roster_period
+    ON leave_bid_awards(roster_period_code);
+CREATE INDEX IF NOT EXISTS idx_leave_bid_awards_pilot
+    ON leave_bid_awards(pilot_id);
+
+COMMENT ON TABLE leave_bid_awards IS 'Outcome of the seniority-based leave bid allocation, one row per bid';
+COMMENT ON COLUMN leave_bid_awards.attempts IS 'Per-choice feasibility (blocking date and available crew) behind the outcome';
+COMMENT ON COLUMN leave_bid_awards.locked IS 'Locked awards are kept unchanged when the allocation is re-run';
+
+-- ==========================================
+-- STEP 2: UPDATED_AT TRIGGER
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION update_leave_bid_awards_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_leave_bid_awards_updated_at ON leave_bid_awards;
+CREATE TRIGGER trigger_update_leave_bid_awards_updated_at
+    BEFORE UPDATE ON leave_bid_awards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_leave_bid_awards_updated_at();
+
+-- ==========================================
+-- STEP 3: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE leave_bid_awards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY leave_bid_awards_select_policy ON leave_bid_awards
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY leave_bid_awards_insert_policy ON leave_bid_awards
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY leave_bid_awards_update_policy ON leave_bid_awards
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY leave_bid_awards_delete_policy ON leave_bid_awards
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Run the allocation with POST /api/leave-bids/allocate. Committed awards
+-- create APPROVED leave_requests (request_method LEAVE_BIDS); lock an award
+-- with PATCH /api/leave-bids/allocate to keep it on later runs.
@@ -0,0 +1,79 @@
+-- ==========================================
+-- Pilot Leave Bids and Flight Requests Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Lets pilots submit leave bids and flight requests from the
+--              pilot portal. Submissions record the portal user; the pilot
+--              is always the one linked to that user. Decisions on bids and
+--              requests are announced in the portal notifications table.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: PORTAL SUBMISSIONS
+-- ==========================================
+
+-- Portal submissions record the pilot user; flight requests entered by staff keep created_by
+ALTER TABLE leave_bids
+    ADD COLUMN IF NOT EXISTS submitted_by_pilot_user_id UUID REFERENCES pilot_users(id) ON DELETE SET NULL;
+
+ALTER TABLE flight_requests
+    ADD COLUMN IF NOT EXISTS submitted_by_pilot_user_id UUID REFERENCES pilot_users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN leave_bids.submitted_by_pilot_user_id IS 'Pilot portal user who submitted the bid';
+COMMENT ON COLUMN flight_requests.submitted_by_pilot_user_id IS 'Pilot portal user who submitted the request';
+
+-- Pilots may hold one bid per roster period that is not withdrawn; checked on submission
+CREATE INDEX IF NOT EXISTS idx_leave_bids_pilot_period
+    ON leave_bids(pilot_id, roster_period_code)
+    WHERE status <> 'WITHDRAWN';
+
+-- ==========================================
+-- STEP 2: BID DEADLINES
+-- ==========================================
+
+-- Bids for a period close bidLeadDays before it starts unless a period sets its own bidDeadline
+UPDATE settings
+SET value = value || '{"bidLeadDays": 42}'::jsonb
+WHERE key = 'roster_calendar'
+    AND NOT value ? 'bidLeadDays';
+
+-- ==========================================
+-- STEP 3: NOTIFICATION TYPES
+-- ==========================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'leave_request_submitted',
+    'leave_request_approved',
+    'leave_request_rejected',
+    'leave_request_withdrawn',
+    'leave_request_cancelled',
+    'leave_bid_approved',
+    'leave_bid_rejected',
+    'flight_request_under_review',
+    'flight_request_approved',
+    'flight_request_rejected',
+    'flight_request_completed',
+    'flight_request_cancelled',
+    'post_reply',
+    'post_liked',
+    'comment_reply',
+    'post_flagged',
+    'comment_flagged',
+    'pilot_registration_pending',
+    'pilot_registration_approved',
+    'pilot_registration_rejected',
+    'certification_expiring',
+    'system_announcement'
+));
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Per-period deadlines are set through /api/roster-calendar:
+--   PUT { "config": { ..., "periodOverrides": { "RP3/2027": { "bidDeadline": "2026-12-31" } } } }
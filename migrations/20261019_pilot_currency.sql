@@ -0,0 +1,168 @@
+-- ==========================================
+-- Pilot Recency and Qualifications Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds currency_rules (recency requirements such as
+--              3 takeoffs and landings in 90 days, evaluated against
+--              logged flight_sectors), takeoff/landing counts on
+--              flight_sectors, and pilot_qualifications (route and
+--              aerodrome qualifications with their own expiry) that
+--              flight request required_qualifications are checked against.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: TAKEOFFS AND LANDINGS ON SECTORS
+-- ==========================================
+
+ALTER TABLE flight_sectors
+    ADD COLUMN IF NOT EXISTS takeoffs SMALLINT NOT NULL DEFAULT 1 CHECK (takeoffs >= 0),
+    ADD COLUMN IF NOT EXISTS landings SMALLINT NOT NULL DEFAULT 1 CHECK (landings >= 0);
+
+COMMENT ON COLUMN flight_sectors.takeoffs IS 'Takeoffs performed by the pilot on the sector (0 when pilot monitoring)';
+COMMENT ON COLUMN flight_sectors.landings IS 'Landings performed by the pilot on the sector (0 when pilot monitoring)';
+
+-- ==========================================
+-- STEP 2: CREATE CURRENCY_RULES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS currency_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(20) NOT NULL UNIQUE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    event VARCHAR(20) NOT NULL CHECK (event IN ('TAKEOFF', 'LANDING', 'SECTOR')),
+    required_count INTEGER NOT NULL CHECK (required_count > 0),
+    period_days INTEGER NOT NULL CHECK (period_days > 0),
+    applies_to_role VARCHAR(20) CHECK (applies_to_role IN ('Captain', 'First Officer')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE currency_rules IS 'Recency requirements: required_count events within period_days, counted from flight_sectors';
+COMMENT ON COLUMN currency_rules.applies_to_role IS 'NULL applies the rule to all pilots';
+
+INSERT INTO currency_rules (code, name, description, event, required_count, period_days)
+VALUES
+    ('TO90', 'Takeoff recency', '3 takeoffs in the preceding 90 days', 'TAKEOFF', 3, 90),
+    ('LDG90', 'Landing recency', '3 landings in the preceding 90 days', 'LANDING', 3, 90)
+ON CONFLICT (code) DO NOTHING;
+
+-- ==========================================
+-- STEP 3: CREATE PILOT_QUALIFICATIONS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS pilot_qualifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    qualification_type VARCHAR(20) NOT NULL CHECK (qualification_type IN ('ROUTE', 'AERODROME')),
+    code VARCHAR(20) NOT NULL,
+    description TEXT,
+    qualified_date DATE NOT NULL,
+    expiry_date DATE,
+    notes TEXT,
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT pilot_qualifications_valid_dates
+        CHECK (expiry_date IS NULL OR expiry_date >= qualified_date),
+    CONSTRAINT pilot_qualifications_unique UNIQUE (pilot_id, qualification_type, code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pilot_qualifications_pilot ON pilot_qualifications(pilot_id);
+CREATE INDEX IF NOT EXISTS idx_pilot_qualifications_expiry ON pilot_qualifications(expiry_date);
+
+COMMENT ON TABLE pilot_qualifications IS 'Route (e.g. POM-LAE) and aerodrome (e.g. AYMH) qualifications per pilot';
+COMMENT ON COLUMN pilot_qualifications.expiry_date IS 'NULL when the qualification does not expire';
+
+-- ==========================================
+-- STEP 4: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE currency_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pilot_qualifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY currency_rules_select_policy ON currency_rules
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY currency_rules_insert_policy ON currency_rules
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY currency_rules_update_policy ON currency_rules
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY pilot_qualifications_select_policy ON pilot_qualifications
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY pilot_qualifications_insert_policy ON pilot_qualifications
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY pilot_qualifications_update_policy ON pilot_qualifications
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY pilot_qualifications_delete_policy ON pilot_qualifications
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Currency is derived from logged sectors and never stored: it lapses on its
+-- own once fewer than required_count events remain in the period. Flight
+-- requests list requirements in required_qualifications, e.g.
+-- [{"type": "ROUTE", "code": "POM-LAE"}, {"type": "CURRENCY", "code": "LDG90"}],
+-- and approval is refused unless the pilot holds each one on the departure date.
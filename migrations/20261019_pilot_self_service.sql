@@ -0,0 +1,157 @@
+-- ==========================================
+-- Pilot Self-Service Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Lets signed-in pilots read their own certifications and
+--              documents in the pilot portal and upload documents for the
+--              fleet office to verify. Portal routes query with the pilot's
+--              session, so the policies below decide what they return.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: SIGNED-IN PILOT
+-- ==========================================
+
+-- pilot_users are linked to pilots by employee id
+CREATE OR REPLACE FUNCTION current_pilot_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.id
+    FROM pilot_users pu
+    JOIN pilots p ON p.employee_id = pu.employee_id
+    WHERE pu.id = auth.uid()
+    AND pu.registration_approved = true
+    LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION current_pilot_id() IS 'Pilot record of the signed-in, approved pilot portal user; NULL for anyone else';
+
+-- Any pilot portal account, approved or not; read past pilot_users RLS
+CREATE OR REPLACE FUNCTION is_pilot_portal_user()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM pilot_users WHERE id = auth.uid());
+$$;
+
+COMMENT ON FUNCTION is_pilot_portal_user() IS 'Whether the signed-in user is a pilot portal account rather than staff';
+
+-- ==========================================
+-- STEP 2: PILOT UPLOADS
+-- ==========================================
+
+-- Staff uploads keep uploaded_by (an_users); portal uploads record the pilot user
+ALTER TABLE pilot_documents
+    ALTER COLUMN uploaded_by DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS uploaded_by_pilot_user_id UUID REFERENCES pilot_users(id) ON DELETE SET NULL;
+
+ALTER TABLE pilot_documents DROP CONSTRAINT IF EXISTS pilot_documents_uploader_check;
+ALTER TABLE pilot_documents ADD CONSTRAINT pilot_documents_uploader_check
+    CHECK (uploaded_by IS NOT NULL OR uploaded_by_pilot_user_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_pilot_documents_uploaded_by_pilot_user
+    ON pilot_documents(uploaded_by_pilot_user_id, created_at DESC)
+    WHERE uploaded_by_pilot_user_id IS NOT NULL;
+
+COMMENT ON COLUMN pilot_documents.uploaded_by_pilot_user_id IS 'Pilot portal user who uploaded the document; such uploads start pending verification and become the current version when verified';
+
+-- A portal upload is stored as a non-current version and replaces the current
+-- one when verified; runs before trigger_document_versioning (alphabetical),
+-- which then retires the previous version
+CREATE OR REPLACE FUNCTION promote_verified_pilot_upload()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.is_current_version := true;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_document_promote_verified_upload ON pilot_documents;
+CREATE TRIGGER trigger_document_promote_verified_upload
+    BEFORE UPDATE OF verification_status ON pilot_documents
+    FOR EACH ROW
+    WHEN (
+        NEW.verification_status = 'verified'
+        AND OLD.verification_status IS DISTINCT FROM 'verified'
+        AND NEW.uploaded_by_pilot_user_id IS NOT NULL
+        AND NEW.status = 'active'
+    )
+    EXECUTE FUNCTION promote_verified_pilot_upload();
+
+-- Portal uploads have no staff uploader; name the pilot instead
+CREATE OR REPLACE VIEW document_verification_queue AS
+SELECT
+    pd.id,
+    pd.pilot_id,
+    p.first_name,
+    p.last_name,
+    p.employee_id,
+    pd.document_type,
+    pd.document_name,
+    pd.verification_status,
+    pd.created_at AS uploaded_at,
+    COALESCE(u.name, pu.first_name || ' ' || pu.last_name || ' (pilot)') AS uploaded_by_name,
+    CURRENT_DATE - pd.created_at::DATE AS days_pending
+FROM pilot_documents pd
+INNER JOIN pilots p ON pd.pilot_id = p.id
+LEFT JOIN an_users u ON pd.uploaded_by = u.id
+LEFT JOIN pilot_users pu ON pd.uploaded_by_pilot_user_id = pu.id
+WHERE pd.verification_status = 'pending'
+    AND pd.status = 'active'
+ORDER BY pd.created_at ASC;
+
+-- ==========================================
+-- STEP 3: ROW LEVEL SECURITY
+-- ==========================================
+
+-- Permissive policies are ORed: the read-all policy for authenticated users
+-- (enable_production_rls_policies.sql) is limited to staff, or pilots would
+-- see every pilot's checks
+DROP POLICY IF EXISTS "pilot_checks_select_all_authenticated" ON pilot_checks;
+CREATE POLICY "pilot_checks_select_all_authenticated"
+    ON pilot_checks FOR SELECT
+    USING (auth.role() = 'authenticated' AND NOT is_pilot_portal_user());
+
+COMMENT ON POLICY "pilot_checks_select_all_authenticated" ON pilot_checks IS
+    'All authenticated staff users can view pilot certifications; pilots see only their own';
+
+CREATE POLICY "Pilots can view own checks"
+    ON pilot_checks FOR SELECT
+    USING (pilot_id = current_pilot_id());
+
+CREATE POLICY "Pilots can view check types"
+    ON check_types FOR SELECT
+    USING (current_pilot_id() IS NOT NULL);
+
+CREATE POLICY "Pilots can view own documents"
+    ON pilot_documents FOR SELECT
+    USING (pilot_id = current_pilot_id() AND status = 'active');
+
+-- Uploads from the portal always await verification by the fleet office and
+-- become the current version only once verified
+CREATE POLICY "Pilots can upload own documents"
+    ON pilot_documents FOR INSERT
+    WITH CHECK (
+        pilot_id = current_pilot_id()
+        AND uploaded_by_pilot_user_id = auth.uid()
+        AND verification_status = 'pending'
+        AND is_current_version = false
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Pilot uploads appear in document_verification_queue with the other
+-- pending documents.
@@ -0,0 +1,70 @@
+-- ==========================================
+-- Record Versions Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Keeps updated_at current on the records the offline queue
+--              replays changes against (pilots, pilot_checks and
+--              leave_requests, which gains the column). The API compares it
+--              with the If-Match header of a replayed change and answers 409
+--              when the record changed since (src/lib/record-version.ts).
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: ADD LEAVE_REQUESTS.UPDATED_AT
+-- ==========================================
+
+ALTER TABLE leave_requests
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+UPDATE leave_requests
+SET updated_at = COALESCE(reviewed_at, created_at, NOW())
+WHERE updated_at IS NULL;
+
+ALTER TABLE leave_requests
+    ALTER COLUMN updated_at SET DEFAULT NOW(),
+    ALTER COLUMN updated_at SET NOT NULL;
+
+COMMENT ON COLUMN leave_requests.updated_at IS 'Last modification timestamp; version checked by offline sync';
+
+-- ==========================================
+-- STEP 2: UPDATED_AT TRIGGERS
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION touch_record_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_pilots_updated_at ON pilots;
+CREATE TRIGGER trigger_pilots_updated_at
+    BEFORE UPDATE ON pilots
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_record_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_pilot_checks_updated_at ON pilot_checks;
+CREATE TRIGGER trigger_pilot_checks_updated_at
+    BEFORE UPDATE ON pilot_checks
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_record_updated_at();
+
+DROP TRIGGER IF EXISTS trigger_leave_requests_updated_at ON leave_requests;
+CREATE TRIGGER trigger_leave_requests_updated_at
+    BEFORE UPDATE ON leave_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION touch_record_updated_at();
+
+COMMENT ON FUNCTION touch_record_updated_at() IS 'Sets updated_at on every update so it can serve as the record version';
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Changes queued offline carry the updated_at they were made against; a
+-- mismatch is shown as a conflict in the sync panel instead of overwriting.
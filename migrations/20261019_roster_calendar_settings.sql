@@ -0,0 +1,41 @@
+-- ==========================================
+-- Roster Calendar Settings Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Seeds the roster_calendar setting used by roster-utils
+--              (anchor period, period length, periods per year, stub
+--              periods and publication/lock dates per period)
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: SEED DEFAULT ROSTER CALENDAR
+-- ==========================================
+
+-- RP12/2025 starts 2025-10-11; 13 periods × 28 days per roster year
+INSERT INTO settings (key, value, description)
+VALUES (
+    'roster_calendar',
+    '{
+        "periodLengthDays": 28,
+        "periodsPerYear": 13,
+        "publicationLeadDays": 10,
+        "lockLeadDays": 22,
+        "anchors": [{ "number": 12, "year": 2025, "startDate": "2025-10-11" }],
+        "stubPeriods": [],
+        "periodOverrides": {}
+    }'::jsonb,
+    'Roster calendar: anchor period, period length, periods per year, stub periods and publication/lock dates'
+)
+ON CONFLICT (key) DO NOTHING;
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Re-anchoring and stub periods are managed through /api/roster-calendar:
+--   PUT { "anchor": { "number": 1, "year": 2027, "startDate": "2027-01-02" } }
+--   PUT { "config": { ...full calendar including stubPeriods/periodOverrides } }
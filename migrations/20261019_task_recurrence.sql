@@ -0,0 +1,117 @@
+-- ==========================================
+-- Recurring Tasks and Expiry Task Generation Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Tracks each occurrence of a recurring task series
+--              (scheduled date and position) so the next occurrence is
+--              generated when one is completed or skipped instead of
+--              pre-creating instances, and adds task_generation_rules
+--              that create a task (e.g. "Book SIM for Capt X") ahead
+--              of every pilot check expiry of a check type.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE TASK_GENERATION_RULES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS task_generation_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    check_type_id UUID NOT NULL REFERENCES check_types(id) ON DELETE CASCADE,
+    days_before INTEGER NOT NULL CHECK (days_before > 0),
+    due_days_before INTEGER NOT NULL DEFAULT 0 CHECK (due_days_before >= 0),
+    title_template VARCHAR(200) NOT NULL,
+    description_template TEXT,
+    category_id UUID REFERENCES task_categories(id) ON DELETE SET NULL,
+    priority VARCHAR(20) NOT NULL DEFAULT 'HIGH' CHECK (priority IN ('LOW', 'MEDIUM', 'HIGH', 'URGENT')),
+    assigned_to UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    last_run_at TIMESTAMPTZ,
+    created_by UUID NOT NULL REFERENCES an_users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT task_generation_rules_due_before_creation
+        CHECK (due_days_before < days_before)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_generation_rules_check_type ON task_generation_rules(check_type_id);
+
+COMMENT ON TABLE task_generation_rules IS 'Creates a task days_before each pilot check expiry of check_type_id';
+COMMENT ON COLUMN task_generation_rules.title_template IS 'Placeholders: {rank}, {pilot_name}, {employee_id}, {check_code}, {check_description}, {expiry_date}';
+COMMENT ON COLUMN task_generation_rules.due_days_before IS 'The generated task is due this many days before the expiry';
+
+-- ==========================================
+-- STEP 2: OCCURRENCE TRACKING ON TASKS
+-- ==========================================
+
+ALTER TABLE tasks
+    ADD COLUMN IF NOT EXISTS occurrence_date DATE,
+    ADD COLUMN IF NOT EXISTS occurrence_index INTEGER CHECK (occurrence_index > 0),
+    ADD COLUMN IF NOT EXISTS generation_rule_id UUID REFERENCES task_generation_rules(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS generation_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_generation_key ON tasks(generation_key);
+
+COMMENT ON COLUMN tasks.occurrence_date IS 'Scheduled date of a recurring occurrence; unchanged when the occurrence is rescheduled';
+COMMENT ON COLUMN tasks.occurrence_index IS 'Position of the occurrence in its series, starting at 1';
+COMMENT ON COLUMN tasks.generation_key IS 'Series occurrence (<root id>:<index>) or rule and expiry (<rule id>:<pilot check id>:<expiry>); prevents duplicates';
+
+-- ==========================================
+-- STEP 3: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE task_generation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_generation_rules_select_policy ON task_generation_rules
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY task_generation_rules_insert_policy ON task_generation_rules
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY task_generation_rules_update_policy ON task_generation_rules
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY task_generation_rules_delete_policy ON task_generation_rules
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Recurring tasks no longer pre-create instances. The first task of a series
+-- holds the recurrence_pattern; each later occurrence points at it through
+-- parent_task_id and copies the pattern. Existing pre-created instances have no
+-- occurrence_date and are left as ordinary tasks.
@@ -0,0 +1,192 @@
+-- ==========================================
+-- First Officer to Captain Upgrade Pipeline Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds upgrade_candidates (one active pipeline entry per
+--              pilot with its current training stage) and
+--              upgrade_pipeline_events, an append-only audit trail of
+--              nominations, stage changes, withdrawals and promotions.
+--              Seeds the upgrade_criteria setting used for eligibility.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE UPGRADE_CANDIDATES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS upgrade_candidates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    from_role pilot_role NOT NULL,
+    to_role pilot_role NOT NULL,
+
+    stage VARCHAR(30) NOT NULL DEFAULT 'NOMINATED'
+        CHECK (stage IN ('NOMINATED', 'GROUND_SCHOOL', 'SIMULATOR', 'LINE_TRAINING', 'CHECK_TO_LINE')),
+    status VARCHAR(20) NOT NULL DEFAULT 'ACTIVE'
+        CHECK (status IN ('ACTIVE', 'PROMOTED', 'WITHDRAWN')),
+
+    -- Total flight hours from the pilot's logbook, as last recorded
+    flight_hours NUMERIC(8, 1) CHECK (flight_hours IS NULL OR flight_hours >= 0),
+    notes TEXT,
+
+    nominated_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    nominated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT upgrade_candidates_closed_has_date
+        CHECK (status = 'ACTIVE' OR closed_at IS NOT NULL)
+);
+
+-- A pilot can only be in one active pipeline at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_upgrade_candidates_active_pilot
+    ON upgrade_candidates(pilot_id) WHERE status = 'ACTIVE';
+CREATE INDEX IF NOT EXISTS idx_upgrade_candidates_status
+    ON upgrade_candidates(status, stage);
+
+COMMENT ON TABLE upgrade_candidates IS 'Pilots nominated for upgrade (e.g. First Officer to Captain) and their current training stage';
+COMMENT ON COLUMN upgrade_candidates.stage IS 'NOMINATED | GROUND_SCHOOL | SIMULATOR | LINE_TRAINING | CHECK_TO_LINE';
+COMMENT ON COLUMN upgrade_candidates.status IS 'ACTIVE while in the pipeline, PROMOTED once the role has changed, WITHDRAWN otherwise';
+
+-- ==========================================
+-- STEP 2: CREATE UPGRADE_PIPELINE_EVENTS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS upgrade_pipeline_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    candidate_id UUID NOT NULL REFERENCES upgrade_candidates(id) ON DELETE CASCADE,
+    pilot_id UUID NOT NULL REFERENCES pilots(id) ON DELETE CASCADE,
+    event_type VARCHAR(30) NOT NULL
+        CHECK (event_type IN ('NOMINATED', 'STAGE_ADVANCED', 'HOURS_UPDATED', 'WITHDRAWN', 'PROMOTED')),
+    from_stage VARCHAR(30),
+    to_stage VARCHAR(30),
+    -- Event specifics, e.g. eligibility at nomination or role/seniority before and after promotion
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    notes TEXT,
+    performed_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_upgrade_pipeline_events_candidate
+    ON upgrade_pipeline_events(candidate_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_upgrade_pipeline_events_pilot
+    ON upgrade_pipeline_events(pilot_id, created_at);
+
+COMMENT ON TABLE upgrade_pipeline_events IS 'Append-only audit trail of the upgrade pipeline';
+
+-- ==========================================
+-- STEP 3: TRIGGERS
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION update_upgrade_candidates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_upgrade_candidates_updated_at ON upgrade_candidates;
+CREATE TRIGGER trigger_update_upgrade_candidates_updated_at
+    BEFORE UPDATE ON upgrade_candidates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_upgrade_candidates_updated_at();
+
+CREATE OR REPLACE FUNCTION prevent_upgrade_pipeline_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'upgrade_pipeline_events is append-only; record a new event instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_upgrade_pipeline_event_changes ON upgrade_pipeline_events;
+CREATE TRIGGER trigger_prevent_upgrade_pipeline_event_changes
+    BEFORE UPDATE ON upgrade_pipeline_events
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_upgrade_pipeline_event_changes();
+
+-- ==========================================
+-- STEP 4: SEED UPGRADE CRITERIA
+-- ==========================================
+
+-- An empty requiredCheckCodes list means every recorded check must be current
+INSERT INTO settings (key, value, description)
+VALUES (
+    'upgrade_criteria',
+    '{
+        "minYearsInService": 5,
+        "minFlightHours": 3000,
+        "requiredCheckCodes": []
+    }'::jsonb,
+    'Upgrade eligibility: minimum years in service, total flight hours and checks that must be current'
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- ==========================================
+-- STEP 5: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE upgrade_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upgrade_pipeline_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY upgrade_candidates_select_policy ON upgrade_candidates
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY upgrade_candidates_insert_policy ON upgrade_candidates
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY upgrade_candidates_update_policy ON upgrade_candidates
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY upgrade_pipeline_events_select_policy ON upgrade_pipeline_events
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+CREATE POLICY upgrade_pipeline_events_insert_policy ON upgrade_pipeline_events
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role IN ('admin', 'manager')
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Manage the pipeline through /api/upgrade-pipeline. Promotion
+-- (POST /api/upgrade-pipeline/promote) changes pilots.role, recomputes the
+-- seniority number and records a PROMOTED event with the before/after values.
@@ -0,0 +1,37 @@
+-- ==========================================
+-- Per-User Permissions Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Extra permissions granted to individual staff users on top
+--              of their role (see ROLE_DEFINITIONS in src/lib/rbac.ts).
+--              API routes resolve role plus custom permissions on every
+--              request through withPermission().
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CUSTOM PERMISSIONS ON AN_USERS
+-- ==========================================
+
+ALTER TABLE an_users
+    ADD COLUMN IF NOT EXISTS custom_permissions TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN an_users.custom_permissions IS 'Permissions granted in addition to the role, e.g. {reports:create}; unknown values are ignored';
+
+-- ==========================================
+-- STEP 2: PERMISSION DENIALS IN THE SECURITY AUDIT LOG
+-- ==========================================
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_log_unauthorized
+    ON security_audit_log(timestamp DESC)
+    WHERE event_type = 'unauthorized_access';
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Denied requests are logged with details { permission, role } so repeated
+-- attempts against one route show up in the security dashboard.
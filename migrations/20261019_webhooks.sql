@@ -0,0 +1,169 @@
+-- ==========================================
+-- Webhooks Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Persists webhook subscriptions (webhooks), one delivery per
+--              subscribed webhook for each emitted domain event
+--              (webhook_deliveries) and every HTTP attempt made for a
+--              delivery (webhook_delivery_attempts), so retries survive
+--              restarts and failed deliveries can be inspected and replayed.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE WEBHOOKS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    url TEXT NOT NULL CHECK (url ~ '^https?://'),
+    events TEXT[] NOT NULL CHECK (cardinality(events) > 0),
+    secret TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    description TEXT,
+    headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    max_attempts SMALLINT NOT NULL DEFAULT 5 CHECK (max_attempts BETWEEN 1 AND 10),
+    last_triggered_at TIMESTAMPTZ,
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_events ON webhooks USING GIN (events);
+
+COMMENT ON TABLE webhooks IS 'Webhook subscriptions: domain events POSTed to url, signed with secret';
+COMMENT ON COLUMN webhooks.secret IS 'HMAC-SHA256 signing secret; shown to the administrator once on creation or rotation';
+COMMENT ON COLUMN webhooks.max_attempts IS 'Attempts per delivery before it is marked failed';
+
+-- ==========================================
+-- STEP 2: CREATE WEBHOOK_DELIVERIES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'retrying', 'success', 'failed')),
+    attempts SMALLINT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ,
+    last_attempt_at TIMESTAMPTZ,
+    response_code INTEGER,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at)
+    WHERE status IN ('pending', 'retrying');
+
+COMMENT ON TABLE webhook_deliveries IS 'One row per webhook per emitted event; retried with exponential backoff';
+COMMENT ON COLUMN webhook_deliveries.event_id IS 'Shared by every delivery of the same event; lets receivers de-duplicate';
+COMMENT ON COLUMN webhook_deliveries.attempts IS 'Attempts since the delivery was queued or last replayed';
+
+-- ==========================================
+-- STEP 3: CREATE WEBHOOK_DELIVERY_ATTEMPTS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery_id UUID NOT NULL REFERENCES webhook_deliveries(id) ON DELETE CASCADE,
+    webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    success BOOLEAN NOT NULL,
+    response_code INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER NOT NULL,
+    attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery ON webhook_delivery_attempts(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_webhook ON webhook_delivery_attempts(webhook_id, attempted_at DESC);
+
+COMMENT ON TABLE webhook_delivery_attempts IS 'Every HTTP attempt made for a webhook delivery (response body truncated)';
+
+-- ==========================================
+-- STEP 4: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Webhooks carry signing secrets: administrators only. Deliveries are written
+-- by the service role when events are emitted.
+CREATE POLICY webhooks_select_policy ON webhooks
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY webhooks_insert_policy ON webhooks
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY webhooks_update_policy ON webhooks
+    FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY webhooks_delete_policy ON webhooks
+    FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY webhook_deliveries_select_policy ON webhook_deliveries
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY webhook_delivery_attempts_select_policy ON webhook_delivery_attempts
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Deliveries are attempted as soon as the event is emitted; failures are
+-- retried by the process-queue cron job with exponential backoff until
+-- max_attempts is reached, after which an administrator can replay them from
+-- POST /api/webhooks/deliveries. Receivers verify the X-Webhook-Signature
+-- header as documented in src/lib/webhook-signature.ts.
@@ -0,0 +1,185 @@
+-- ==========================================
+-- Custom Roles and Permission Overrides Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds role_definitions (custom roles such as "Training
+--              Manager" with their own permission set, built on one of the
+--              built-in roles), user_permission_overrides (per-user grants
+--              and denials with optional expiry) and permission_audit_log,
+--              an append-only record of every permission change.
+--              Replaces an_users.custom_permissions with grant overrides.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: CREATE ROLE_DEFINITIONS TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS role_definitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    key VARCHAR(50) NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    -- Built-in role the custom role is based on; an_users.role is set to it so
+    -- screens that still check roles keep working
+    base_role VARCHAR(20) NOT NULL CHECK (base_role IN ('admin', 'manager', 'user', 'readonly')),
+    permissions TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE role_definitions IS 'Custom staff roles; built-in roles live in ROLE_DEFINITIONS (src/lib/rbac.ts)';
+COMMENT ON COLUMN role_definitions.permissions IS 'Full permission set of the role, e.g. {pilot:read,certification:update}; unknown values are ignored';
+
+-- ==========================================
+-- STEP 2: ASSIGN CUSTOM ROLES TO USERS
+-- ==========================================
+
+ALTER TABLE an_users
+    ADD COLUMN IF NOT EXISTS custom_role_id UUID REFERENCES role_definitions(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_an_users_custom_role ON an_users(custom_role_id)
+    WHERE custom_role_id IS NOT NULL;
+
+COMMENT ON COLUMN an_users.custom_role_id IS 'Custom role replacing the permissions of an_users.role; NULL uses the built-in role';
+
+-- ==========================================
+-- STEP 3: CREATE USER_PERMISSION_OVERRIDES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS user_permission_overrides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES an_users(id) ON DELETE CASCADE,
+    permission VARCHAR(50) NOT NULL,
+    effect VARCHAR(10) NOT NULL CHECK (effect IN ('grant', 'deny')),
+    expires_at TIMESTAMPTZ,
+    reason TEXT,
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT user_permission_overrides_unique UNIQUE (user_id, permission)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_permission_overrides_user
+    ON user_permission_overrides(user_id);
+
+COMMENT ON TABLE user_permission_overrides IS 'Per-user permission grants and denials on top of the role; a denial wins over the role and any grant';
+COMMENT ON COLUMN user_permission_overrides.expires_at IS 'Override stops applying after this time; NULL never expires';
+
+-- Existing custom permissions (from 20261019_user_permissions.sql, which runs
+-- first) become permanent grants
+INSERT INTO user_permission_overrides (user_id, permission, effect, reason)
+SELECT an_users.id, permission, 'grant', 'Migrated from an_users.custom_permissions'
+FROM an_users, unnest(an_users.custom_permissions) AS permission
+ON CONFLICT (user_id, permission) DO NOTHING;
+
+ALTER TABLE an_users DROP COLUMN IF EXISTS custom_permissions;
+
+-- ==========================================
+-- STEP 4: CREATE PERMISSION_AUDIT_LOG TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS permission_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    action VARCHAR(20) NOT NULL
+        CHECK (action IN ('granted', 'denied', 'revoked', 'role_changed', 'role_created', 'role_updated', 'role_deleted')),
+    -- User whose access changed; NULL for changes to a role definition
+    user_id UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    role_definition_id UUID REFERENCES role_definitions(id) ON DELETE SET NULL,
+    permission VARCHAR(50),
+    from_role VARCHAR(100),
+    to_role VARCHAR(100),
+    -- Change specifics, e.g. expiry of a grant or permissions added to a role
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    reason TEXT,
+    performed_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_permission_audit_log_created
+    ON permission_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_permission_audit_log_user
+    ON permission_audit_log(user_id, created_at DESC);
+
+COMMENT ON TABLE permission_audit_log IS 'Append-only record of role assignments, permission grants/denials and role definition changes';
+
+-- ==========================================
+-- STEP 5: TRIGGERS
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION update_role_definitions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_role_definitions_updated_at ON role_definitions;
+CREATE TRIGGER trigger_update_role_definitions_updated_at
+    BEFORE UPDATE ON role_definitions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_role_definitions_updated_at();
+
+CREATE OR REPLACE FUNCTION prevent_permission_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'permission_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the recorded change is protected; references to users and roles are
+-- still cleared (ON DELETE SET NULL) when those are removed
+DROP TRIGGER IF EXISTS trigger_prevent_permission_audit_log_changes ON permission_audit_log;
+CREATE TRIGGER trigger_prevent_permission_audit_log_changes
+    BEFORE UPDATE OF action, permission, from_role, to_role, details, reason, created_at
+    OR DELETE ON permission_audit_log
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_permission_audit_log_changes();
+
+-- ==========================================
+-- STEP 6: ROW LEVEL SECURITY
+-- ==========================================
+
+-- Access is managed through /api/admin/access with the service role;
+-- admins may read the tables directly
+ALTER TABLE role_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_permission_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE permission_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY role_definitions_select_policy ON role_definitions
+    FOR SELECT
+    USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY user_permission_overrides_select_policy ON user_permission_overrides
+    FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+CREATE POLICY permission_audit_log_select_policy ON permission_audit_log
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Effective permissions: the custom role's permissions (or the built-in
+-- role's), plus active grants, minus active denials. A custom role that is
+-- still assigned to users cannot be deleted.
@@ -0,0 +1,248 @@
+-- ==========================================
+-- Data Scopes Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Adds pilot groups (base and fleet alongside the existing
+--              contract type and rank) and user_data_scopes, which limits a
+--              staff user to the pilots in their groups. The API filters by
+--              the same rules (src/lib/data-scope.ts); the restrictive RLS
+--              policies below apply them to client-side reads and writes.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: PILOT GROUPS
+-- ==========================================
+
+ALTER TABLE pilots
+    ADD COLUMN IF NOT EXISTS base VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS fleet VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_pilots_base ON pilots(base) WHERE base IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pilots_fleet ON pilots(fleet) WHERE fleet IS NOT NULL;
+
+COMMENT ON COLUMN pilots.base IS 'Home base (e.g. POM, LAE); used to scope staff access';
+COMMENT ON COLUMN pilots.fleet IS 'Aircraft fleet (e.g. B767); used to scope staff access';
+
+-- ==========================================
+-- STEP 2: CREATE USER_DATA_SCOPES TABLE
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS user_data_scopes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES an_users(id) ON DELETE CASCADE,
+    -- Pilot column matched: base, fleet, contract_type, or role for rank
+    scope_type VARCHAR(20) NOT NULL CHECK (scope_type IN ('base', 'fleet', 'contract_type', 'rank')),
+    scope_value VARCHAR(100) NOT NULL,
+    created_by UUID REFERENCES an_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT user_data_scopes_unique UNIQUE (user_id, scope_type, scope_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_data_scopes_user ON user_data_scopes(user_id);
+
+COMMENT ON TABLE user_data_scopes IS 'Pilot groups a staff user may see. No rows: all pilots. Values of one type are alternatives (base POM or LAE); different types must all match (base POM and rank Captain). Admins are never scoped.';
+
+-- Scope changes are recorded alongside permission changes (permission_audit_log
+-- comes from 20261020_custom_roles.sql, which runs first)
+ALTER TABLE permission_audit_log DROP CONSTRAINT IF EXISTS permission_audit_log_action_check;
+ALTER TABLE permission_audit_log ADD CONSTRAINT permission_audit_log_action_check
+    CHECK (action IN ('granted', 'denied', 'revoked', 'role_changed', 'role_created', 'role_updated', 'role_deleted', 'scope_changed'));
+
+-- ==========================================
+-- STEP 3: SCOPE CHECK FUNCTION
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION user_scope_includes(
+    p_base TEXT,
+    p_fleet TEXT,
+    p_contract_type TEXT,
+    p_rank TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+        -- No scope type of the user that the values fail to match
+        OR NOT EXISTS (
+            SELECT 1
+            FROM (SELECT DISTINCT scope_type FROM user_data_scopes WHERE user_id = auth.uid()) t
+            WHERE NOT EXISTS (
+                SELECT 1 FROM user_data_scopes s
+                WHERE s.user_id = auth.uid()
+                AND s.scope_type = t.scope_type
+                AND s.scope_value = CASE s.scope_type
+                    WHEN 'base' THEN p_base
+                    WHEN 'fleet' THEN p_fleet
+                    WHEN 'contract_type' THEN p_contract_type
+                    WHEN 'rank' THEN p_rank
+                END
+            )
+        );
+$$;
+
+COMMENT ON FUNCTION user_scope_includes(TEXT, TEXT, TEXT, TEXT) IS 'Whether the signed-in staff user''s data scopes include a pilot with these base, fleet, contract type and rank';
+
+-- Pilots are checked on their stored values; new pilot rows use user_scope_includes
+CREATE OR REPLACE FUNCTION user_can_access_pilot(p_pilot_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        NOT EXISTS (
+            SELECT 1 FROM user_data_scopes WHERE user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM pilots p
+            WHERE p.id = p_pilot_id
+            AND user_scope_includes(p.base, p.fleet, p.contract_type, p.role::text)
+        );
+$$;
+
+COMMENT ON FUNCTION user_can_access_pilot(UUID) IS 'Whether the signed-in staff user''s data scopes include the pilot';
+
+-- ==========================================
+-- STEP 4: ROW LEVEL SECURITY
+-- ==========================================
+
+-- Scopes are managed through /api/admin/access with the service role
+ALTER TABLE user_data_scopes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_data_scopes_select_policy ON user_data_scopes
+    FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM an_users
+            WHERE an_users.id = auth.uid()
+            AND an_users.role = 'admin'
+        )
+    );
+
+-- Restrictive: combined with AND on top of the existing read policies
+CREATE POLICY pilots_data_scope_policy ON pilots
+    AS RESTRICTIVE FOR SELECT
+    USING (user_can_access_pilot(id));
+
+CREATE POLICY pilot_checks_data_scope_policy ON pilot_checks
+    AS RESTRICTIVE FOR SELECT
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY leave_requests_data_scope_policy ON leave_requests
+    AS RESTRICTIVE FOR SELECT
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY disciplinary_matters_data_scope_policy ON disciplinary_matters
+    AS RESTRICTIVE FOR SELECT
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY pilot_documents_data_scope_policy ON pilot_documents
+    AS RESTRICTIVE FOR SELECT
+    USING (user_can_access_pilot(pilot_id));
+
+-- Company documents without a pilot stay visible to everyone
+CREATE POLICY documents_data_scope_policy ON documents
+    AS RESTRICTIVE FOR SELECT
+    USING (pilot_id IS NULL OR user_can_access_pilot(pilot_id));
+
+-- Writes are limited the same way: rows outside the scope cannot be changed or
+-- removed, and new or updated rows must stay inside it
+CREATE POLICY pilots_data_scope_insert_policy ON pilots
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (user_scope_includes(base, fleet, contract_type, role::text));
+
+CREATE POLICY pilots_data_scope_update_policy ON pilots
+    AS RESTRICTIVE FOR UPDATE
+    USING (user_can_access_pilot(id))
+    WITH CHECK (user_scope_includes(base, fleet, contract_type, role::text));
+
+CREATE POLICY pilots_data_scope_delete_policy ON pilots
+    AS RESTRICTIVE FOR DELETE
+    USING (user_can_access_pilot(id));
+
+CREATE POLICY pilot_checks_data_scope_insert_policy ON pilot_checks
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY pilot_checks_data_scope_update_policy ON pilot_checks
+    AS RESTRICTIVE FOR UPDATE
+    USING (user_can_access_pilot(pilot_id))
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY pilot_checks_data_scope_delete_policy ON pilot_checks
+    AS RESTRICTIVE FOR DELETE
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY leave_requests_data_scope_insert_policy ON leave_requests
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY leave_requests_data_scope_update_policy ON leave_requests
+    AS RESTRICTIVE FOR UPDATE
+    USING (user_can_access_pilot(pilot_id))
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY leave_requests_data_scope_delete_policy ON leave_requests
+    AS RESTRICTIVE FOR DELETE
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY disciplinary_matters_data_scope_insert_policy ON disciplinary_matters
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY disciplinary_matters_data_scope_update_policy ON disciplinary_matters
+    AS RESTRICTIVE FOR UPDATE
+    USING (user_can_access_pilot(pilot_id))
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY disciplinary_matters_data_scope_delete_policy ON disciplinary_matters
+    AS RESTRICTIVE FOR DELETE
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY pilot_documents_data_scope_insert_policy ON pilot_documents
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY pilot_documents_data_scope_update_policy ON pilot_documents
+    AS RESTRICTIVE FOR UPDATE
+    USING (user_can_access_pilot(pilot_id))
+    WITH CHECK (user_can_access_pilot(pilot_id));
+
+CREATE POLICY pilot_documents_data_scope_delete_policy ON pilot_documents
+    AS RESTRICTIVE FOR DELETE
+    USING (user_can_access_pilot(pilot_id));
+
+CREATE POLICY documents_data_scope_insert_policy ON documents
+    AS RESTRICTIVE FOR INSERT
+    WITH CHECK (pilot_id IS NULL OR user_can_access_pilot(pilot_id));
+
+CREATE POLICY documents_data_scope_update_policy ON documents
+    AS RESTRICTIVE FOR UPDATE
+    USING (pilot_id IS NULL OR user_can_access_pilot(pilot_id))
+    WITH CHECK (pilot_id IS NULL OR user_can_access_pilot(pilot_id));
+
+CREATE POLICY documents_data_scope_delete_policy ON documents
+    AS RESTRICTIVE FOR DELETE
+    USING (pilot_id IS NULL OR user_can_access_pilot(pilot_id));
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Assign scopes on the Roles & Permissions admin page. Pilots without a base
+-- or fleet only match scopes that do not use that type.
@@ -0,0 +1,332 @@
+-- ==========================================
+-- Notification Pipeline Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: One pipeline for every notification, staff and pilot alike.
+--              notifications is the single inbox (in_app marks rows shown
+--              in it); notification_deliveries records each email, SMS and
+--              push delivery with its status and retries. Preferences gain
+--              channels, quiet hours and pilot portal owners. The old
+--              in_app_notifications, notification_queue and notification_log
+--              tables are moved across and dropped.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: UNIFIED INBOX
+-- ==========================================
+
+-- Rows without in_app were delivered on other channels only
+ALTER TABLE notifications
+    ADD COLUMN IF NOT EXISTS in_app BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN notifications.in_app IS 'Shown in the recipient''s inbox; false when dismissed or not delivered in-app';
+
+-- Staff recipients are an_users ids, pilots pilot_users ids
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_recipient_type_check;
+UPDATE notifications SET recipient_type = 'staff' WHERE recipient_type IN ('admin', 'manager');
+ALTER TABLE notifications ADD CONSTRAINT notifications_recipient_type_check
+    CHECK (recipient_type IN ('staff', 'pilot'));
+
+-- Replaces the list from 20261019_pilot_bids_and_flight_requests.sql, which must run first
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'certification_expiring',
+    'leave_request_submitted',
+    'leave_request_approved',
+    'leave_request_rejected',
+    'leave_request_withdrawn',
+    'leave_request_cancelled',
+    'leave_bid_approved',
+    'leave_bid_rejected',
+    'flight_request_under_review',
+    'flight_request_approved',
+    'flight_request_rejected',
+    'flight_request_completed',
+    'flight_request_cancelled',
+    'post_reply',
+    'post_liked',
+    'comment_reply',
+    'post_flagged',
+    'comment_flagged',
+    'pilot_registration_pending',
+    'pilot_registration_approved',
+    'pilot_registration_rejected',
+    'disciplinary_deadline',
+    'system_announcement',
+    'system_alert'
+));
+
+DROP INDEX IF EXISTS idx_notifications_recipient;
+CREATE INDEX IF NOT EXISTS idx_notifications_inbox
+    ON notifications(recipient_id, is_read, created_at DESC)
+    WHERE in_app;
+
+-- Certification alerts are sent once per check, threshold and day
+CREATE INDEX IF NOT EXISTS idx_notifications_metadata
+    ON notifications USING GIN (metadata);
+
+CREATE OR REPLACE FUNCTION get_unread_notification_count(user_uuid uuid)
+RETURNS integer AS $$
+BEGIN
+  RETURN (
+    SELECT COUNT(*)::integer
+    FROM notifications
+    WHERE recipient_id = user_uuid
+    AND in_app
+    AND is_read = false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ==========================================
+-- STEP 2: DELIVERIES
+-- ==========================================
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+    recipient_id UUID NOT NULL,
+    recipient_type TEXT NOT NULL,
+    recipient_name TEXT,
+    channel TEXT NOT NULL,
+    address TEXT,
+
+    -- 'digest' deliveries wait for the recipient's daily digest
+    status TEXT NOT NULL DEFAULT 'pending',
+    status_reason TEXT,
+    priority INTEGER NOT NULL DEFAULT 5,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ,
+    provider TEXT,
+    provider_message_id TEXT,
+    error_message TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT notification_deliveries_recipient_type_check CHECK (recipient_type IN ('staff', 'pilot')),
+    CONSTRAINT notification_deliveries_channel_check CHECK (channel IN ('in_app', 'email', 'sms', 'push')),
+    CONSTRAINT notification_deliveries_status_check
+        CHECK (status IN ('pending', 'digest', 'sent', 'failed', 'skipped')),
+    CONSTRAINT notification_deliveries_priority_check CHECK (priority BETWEEN 1 AND 10)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_notification
+    ON notification_deliveries(notification_id);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+    ON notification_deliveries(priority, scheduled_for)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_digest
+    ON notification_deliveries(recipient_id, scheduled_for)
+    WHERE status = 'digest';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_recipient
+    ON notification_deliveries(recipient_id, created_at DESC);
+
+COMMENT ON TABLE notification_deliveries IS 'One row per channel a notification is delivered on, with retries and provider ids';
+
+-- ==========================================
+-- STEP 3: PREFERENCES
+-- ==========================================
+
+-- Pilot portal users keep preferences too; each row belongs to one staff user or one pilot
+ALTER TABLE notification_preferences
+    ALTER COLUMN user_id DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS pilot_user_id UUID REFERENCES pilot_users(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS in_app_enabled BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS sms_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS phone_number TEXT,
+    ADD COLUMN IF NOT EXISTS push_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS quiet_hours_start TIME,
+    ADD COLUMN IF NOT EXISTS quiet_hours_end TIME,
+    ADD COLUMN IF NOT EXISTS channel_overrides JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_owner_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_owner_check
+    CHECK ((user_id IS NULL) <> (pilot_user_id IS NULL));
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_quiet_hours_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_quiet_hours_check
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_preferences_pilot_user_id
+    ON notification_preferences(pilot_user_id);
+
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS 'Port Moresby time; non-urgent deliveries wait until quiet_hours_end';
+COMMENT ON COLUMN notification_preferences.channel_overrides IS 'Notification type -> channels to use instead of its defaults';
+
+-- ==========================================
+-- STEP 4: MOVE OLD NOTIFICATIONS ACROSS
+-- ==========================================
+
+-- In-app notifications become staff inbox rows
+INSERT INTO notifications (recipient_id, recipient_type, type, title, message, link, metadata, is_read, read_at, created_at)
+SELECT
+    n.user_id,
+    'staff',
+    CASE n.notification_type
+        WHEN 'certification_expiry' THEN 'certification_expiring'
+        WHEN 'leave_request' THEN 'leave_request_submitted'
+        WHEN 'leave_approval' THEN 'leave_request_approved'
+        ELSE 'system_alert'
+    END,
+    n.title,
+    n.message,
+    n.action_url,
+    jsonb_strip_nulls(jsonb_build_object(
+        'severity', CASE WHEN n.notification_type IN ('info', 'warning', 'error') THEN n.notification_type END,
+        'related_entity_type', n.related_entity_type,
+        'related_entity_id', n.related_entity_id
+    )),
+    n.is_read,
+    n.read_at,
+    n.created_at
+FROM in_app_notifications n
+WHERE n.expires_at IS NULL OR n.expires_at > NOW();
+
+-- Queued and logged emails become email-only notifications with one delivery each
+CREATE TEMP TABLE old_email_notifications ON COMMIT DROP AS
+SELECT
+    gen_random_uuid() AS notification_id,
+    COALESCE(q.user_id, u.id) AS recipient_id,
+    u.name AS recipient_name,
+    q.email_address,
+    q.notification_type,
+    q.subject,
+    q.template_data,
+    CASE q.status WHEN 'cancelled' THEN 'skipped' ELSE q.status END AS status,
+    q.priority,
+    q.attempts,
+    q.scheduled_for,
+    q.sent_at,
+    NULL::TEXT AS provider,
+    NULL::TEXT AS provider_message_id,
+    q.error_message,
+    q.created_at
+FROM notification_queue q
+LEFT JOIN an_users u ON u.id = q.user_id OR (q.user_id IS NULL AND lower(u.email) = lower(q.email_address))
+WHERE q.id NOT IN (SELECT queue_id FROM notification_log WHERE queue_id IS NOT NULL)
+UNION ALL
+SELECT
+    gen_random_uuid(),
+    COALESCE(l.user_id, u.id),
+    u.name,
+    l.email_address,
+    l.notification_type,
+    l.subject,
+    '{}'::jsonb,
+    CASE WHEN l.status IN ('delivered', 'complained') THEN 'sent' ELSE 'failed' END,
+    5,
+    1,
+    l.sent_at,
+    l.sent_at,
+    l.delivery_provider,
+    l.provider_message_id,
+    NULL,
+    l.created_at
+FROM notification_log l
+LEFT JOIN an_users u ON u.id = l.user_id OR (l.user_id IS NULL AND lower(u.email) = lower(l.email_address));
+
+-- Emails to addresses without a staff account have no inbox to move to
+DELETE FROM old_email_notifications WHERE recipient_id IS NULL;
+
+INSERT INTO notifications (id, recipient_id, recipient_type, type, title, message, metadata, is_read, in_app, created_at)
+SELECT
+    notification_id,
+    recipient_id,
+    'staff',
+    CASE notification_type
+        WHEN 'certification_expiry' THEN 'certification_expiring'
+        WHEN 'leave_request' THEN 'leave_request_submitted'
+        WHEN 'leave_approval' THEN 'leave_request_approved'
+        ELSE 'system_alert'
+    END,
+    subject,
+    subject,
+    template_data,
+    true,
+    false,
+    created_at
+FROM old_email_notifications;
+
+INSERT INTO notification_deliveries (
+    notification_id, recipient_id, recipient_type, recipient_name, channel, address, status,
+    priority, attempts, scheduled_for, sent_at, provider, provider_message_id, error_message, created_at
+)
+SELECT
+    notification_id, recipient_id, 'staff', recipient_name, 'email', email_address, status,
+    priority, attempts, scheduled_for, sent_at, provider, provider_message_id, error_message, created_at
+FROM old_email_notifications;
+
+DROP TABLE IF EXISTS notification_log;
+DROP TABLE IF EXISTS notification_queue;
+DROP TABLE IF EXISTS in_app_notifications;
+DROP FUNCTION IF EXISTS update_notification_queue_timestamp();
+
+-- ==========================================
+-- STEP 5: ROW LEVEL SECURITY
+-- ==========================================
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Recipients see how their notifications were delivered; the pipeline writes with the service role
+DROP POLICY IF EXISTS "Users can view own notification deliveries" ON notification_deliveries;
+CREATE POLICY "Users can view own notification deliveries"
+    ON notification_deliveries FOR SELECT
+    USING (recipient_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view all notification deliveries" ON notification_deliveries;
+CREATE POLICY "Admins can view all notification deliveries"
+    ON notification_deliveries FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM an_users
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+DROP POLICY IF EXISTS "Pilots can view own notification preferences" ON notification_preferences;
+CREATE POLICY "Pilots can view own notification preferences"
+    ON notification_preferences FOR SELECT
+    USING (auth.uid() = pilot_user_id);
+
+DROP POLICY IF EXISTS "Pilots can update own notification preferences" ON notification_preferences;
+CREATE POLICY "Pilots can update own notification preferences"
+    ON notification_preferences FOR UPDATE
+    USING (auth.uid() = pilot_user_id)
+    WITH CHECK (auth.uid() = pilot_user_id);
+
+-- ==========================================
+-- STEP 6: CLEANUP
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION cleanup_old_notifications()
+RETURNS void AS $$
+BEGIN
+    -- Read inbox notifications older than 90 days, and notifications never shown in-app
+    -- once their deliveries are done, go after 90 days; deliveries cascade
+    DELETE FROM notifications n
+    WHERE n.created_at < NOW() - INTERVAL '90 days'
+        AND (n.is_read OR NOT n.in_app)
+        AND NOT EXISTS (
+            SELECT 1 FROM notification_deliveries d
+            WHERE d.notification_id = n.id AND d.status IN ('pending', 'digest')
+        );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Deliveries are sent by the process-queue cron job (every 5 minutes):
+--   POST /api/cron/process-queue
+-- SMS and push deliveries are skipped until a gateway is configured:
+--   NOTIFICATION_SMS_WEBHOOK_URL, NOTIFICATION_PUSH_WEBHOOK_URL
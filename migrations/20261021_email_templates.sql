@@ -0,0 +1,65 @@
+-- ==========================================
+-- Email Templates Migration
+-- Author: Air Niugini Development Team
+-- Date: 2026-10-19
+-- Description: Admin-edited email templates. The built-in templates live in
+--              code (src/lib/email-templates.ts); a notification_templates
+--              row overrides one of them by template_name, with a plain-text
+--              body and Tok Pisin translations alongside the subject and HTML.
+--              Recipients choose the language of their emails, and each
+--              delivery records the language it is sent in.
+-- ==========================================
+
+BEGIN;
+
+-- ==========================================
+-- STEP 1: TEMPLATE OVERRIDES
+-- ==========================================
+
+ALTER TABLE notification_templates
+    ADD COLUMN IF NOT EXISTS text_template TEXT,
+    ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES an_users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN notification_templates.translations IS
+    'Per-language overrides, e.g. {"tpi": {"subject": "...", "html": "...", "text": "..."}}';
+
+-- The seeded rows were never used by the email service and predate the built-in
+-- templates; removing them lets the built-ins apply until an admin edits one
+DELETE FROM notification_templates
+WHERE template_name IN (
+    'certification_expiry_alert',
+    'leave_request_notification',
+    'leave_approval_notification'
+)
+AND updated_at = created_at;
+
+-- ==========================================
+-- STEP 2: EMAIL LANGUAGE
+-- ==========================================
+
+ALTER TABLE notification_preferences
+    ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_language_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_language_check
+    CHECK (language IN ('en', 'tpi'));
+
+-- Deliveries keep the language chosen when the notification was raised
+ALTER TABLE notification_deliveries
+    ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_locale_check;
+ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_locale_check
+    CHECK (locale IN ('en', 'tpi'));
+
+COMMIT;
+
+-- ==========================================
+-- MIGRATION COMPLETE
+-- ==========================================
+
+-- Templates are edited, previewed and test-sent at /dashboard/admin/email-templates.
+-- Test sends never use Resend; they go to a local SMTP server or .eml files:
+--   SMTP_URL=smtp://localhost:1025   (e.g. Mailpit)
+--   EMAIL_OUTBOX_DIR=.email-outbox   (used when SMTP_URL is not set)
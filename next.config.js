@@ -9,6 +9,8 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: '2mb',
     },
+    // Loaded from node_modules at runtime for document text extraction
+    serverComponentsExternalPackages: ['pdfjs-dist'],
   },
   // Disable error overlay in development to fix Safari originalFactory.call error
   onDemandEntries: {
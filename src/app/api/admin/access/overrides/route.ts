@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Permission Overrides API Routes
+ * Grants or denies individual permissions to a staff user, optionally until an
+ * expiry date, and removes them again.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import { getAllPermissions, type Permission } from '@/lib/rbac';
+import { PERMISSION_OVERRIDE_EFFECTS } from '@/lib/access-control';
+import { removePermissionOverride, setPermissionOverride } from '@/lib/access-control-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const overrideSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  permission: z.enum(getAllPermissions() as [Permission, ...Permission[]], 'Unknown permission'),
+  effect: z.enum(PERMISSION_OVERRIDE_EFFECTS),
+  expiresAt: z.string().datetime({ offset: true, message: 'Invalid expiry' }).nullable().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * POST /api/admin/access/overrides
+ * Grants or denies a permission to a user, replacing any existing override for it
+ * @auth Required - system:users permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(overrideSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { userId, reason, ...input } = validation.data;
+      const override = await setPermissionOverride(userId, input, {
+        performedBy: user.id,
+        reason,
+      });
+
+      return NextResponse.json({ success: true, data: override }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/admin/access/overrides:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save permission override',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
+
+/**
+ * DELETE /api/admin/access/overrides?id=
+ * Removes a grant or denial
+ * @auth Required - system:users permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json(
+          { success: false, error: 'Valid override ID is required' },
+          { status: 400 }
+        );
+      }
+
+      await removePermissionOverride(id, { performedBy: user.id });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      logger.error('Error in DELETE /api/admin/access/overrides:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to remove permission override',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
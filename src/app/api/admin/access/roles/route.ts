@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Custom Roles API Routes
+ * Creates, updates and deletes custom roles (role_definitions). Built-in roles
+ * are defined in code and cannot be changed here.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import { getAllPermissions, type Permission } from '@/lib/rbac';
+import { createCustomRole, deleteCustomRole, updateCustomRole } from '@/lib/access-control-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const roleFields = {
+  name: z.string().trim().min(2, 'Role name is required').max(100),
+  description: z.string().max(500).nullable().optional(),
+  base_role: z.enum(['admin', 'manager', 'user', 'readonly']),
+  permissions: z.array(z.enum(getAllPermissions() as [Permission, ...Permission[]])),
+};
+
+const createSchema = z.object(roleFields);
+
+const updateSchema = z
+  .object({ id: z.string().uuid('Invalid role ID'), ...roleFields })
+  .partial({ name: true, base_role: true, permissions: true });
+
+/**
+ * POST /api/admin/access/roles
+ * Creates a custom role
+ * @auth Required - system:users permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(createSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const role = await createCustomRole(validation.data, { performedBy: user.id });
+      return NextResponse.json({ success: true, data: role }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/admin/access/roles:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create role',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
+
+/**
+ * PUT /api/admin/access/roles
+ * Updates a custom role's name, description, base role or permissions
+ * @auth Required - system:users permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...updates } = validation.data;
+      const role = await updateCustomRole(id, updates, { performedBy: user.id });
+      return NextResponse.json({ success: true, data: role });
+    } catch (error) {
+      logger.error('Error in PUT /api/admin/access/roles:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update role',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
+
+/**
+ * DELETE /api/admin/access/roles?id=
+ * Deletes a custom role that is not assigned to any user
+ * @auth Required - system:users permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json(
+          { success: false, error: 'Valid role ID is required' },
+          { status: 400 }
+        );
+      }
+
+      await deleteCustomRole(id, { performedBy: user.id });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      logger.error('Error in DELETE /api/admin/access/roles:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete role',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Access Management API Routes
+ * Staff users with their roles, permission overrides and data scopes, custom
+ * roles and the permission change audit log; assigns built-in or custom roles
+ * to users.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import {
+  assignUserRole,
+  getPermissionAuditLog,
+  listCustomRoles,
+  listUserAccess,
+} from '@/lib/access-control-service';
+import { getDataScopeOptions } from '@/lib/data-scope-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const assignSchema = z.union([
+  z.object({
+    userId: z.string().uuid('Invalid user ID'),
+    role: z.enum(['admin', 'manager', 'user', 'readonly']),
+    reason: z.string().max(500).optional(),
+  }),
+  z.object({
+    userId: z.string().uuid('Invalid user ID'),
+    customRoleId: z.string().uuid('Invalid role ID'),
+    reason: z.string().max(500).optional(),
+  }),
+]);
+
+/**
+ * GET /api/admin/access
+ * Users with their access, custom roles, the latest permission changes and the
+ * values data scopes can take
+ * @auth Required - system:users permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      const [users, roles, audit, scopeOptions] = await Promise.all([
+        listUserAccess(),
+        listCustomRoles(),
+        getPermissionAuditLog({ limit: 100 }),
+        getDataScopeOptions(),
+      ]);
+
+      return NextResponse.json({ success: true, data: { users, roles, audit, scopeOptions } });
+    } catch (error) {
+      logger.error('Error in GET /api/admin/access:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch access settings' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
+
+/**
+ * PATCH /api/admin/access
+ * Assigns a built-in role ({ role }) or a custom role ({ customRoleId }) to a user
+ * @auth Required - system:users permission
+ */
+export const PATCH = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(assignSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { userId, reason, ...assignment } = validation.data;
+      const updated = await assignUserRole(userId, assignment, {
+        performedBy: user.id,
+        reason,
+      });
+
+      return NextResponse.json({ success: true, data: updated });
+    } catch (error) {
+      logger.error('Error in PATCH /api/admin/access:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to assign role',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Data Scopes API Route
+ * Limits a staff user to pilot groups (base, fleet, contract type, rank);
+ * pilot, leave, document, disciplinary and analytics data outside them is
+ * hidden from the user.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { DATA_SCOPE_TYPES } from '@/lib/data-scope';
+import { setUserDataScopes } from '@/lib/access-control-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const scopesSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  scopes: z
+    .array(
+      z.object({
+        scope_type: z.enum(DATA_SCOPE_TYPES),
+        scope_value: z.string().trim().min(1).max(100),
+      })
+    )
+    .max(100),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * PUT /api/admin/access/scopes
+ * Replaces the user's data scopes; an empty list gives them every pilot
+ * @auth Required - system:users permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(scopesSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { userId, scopes, reason } = validation.data;
+      const saved = await setUserDataScopes(userId, scopes, { performedBy: user.id, reason });
+
+      return NextResponse.json({ success: true, data: saved });
+    } catch (error) {
+      logger.error('Error in PUT /api/admin/access/scopes:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save data scopes',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Email Template Preview API Route
+ * Renders a template with sample data, including unsaved changes, so admins
+ * can see an edit before saving it.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
+import { emailTemplatePreviewSchema, validateRequest } from '@/lib/validation-schemas';
+import { previewEmailTemplate } from '@/lib/email-template-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/email-templates/preview
+ * Returns the rendered subject, HTML and text, or why the draft cannot render
+ * @auth Required - system:settings permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(emailTemplatePreviewSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { key, locale, draft, variables } = validation.data;
+      const preview = await previewEmailTemplate(key, locale, { draft, variables });
+      return NextResponse.json({ success: true, data: preview });
+    } catch (error) {
+      logger.error('Error in POST /api/admin/email-templates/preview:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to preview email template',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
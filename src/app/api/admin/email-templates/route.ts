@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Email Template API Routes
+ * Lists the email templates and saves or discards admin edits to them. The
+ * built-in templates are defined in code; edits are stored per template.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
+import { emailTemplateEditSchema, validateRequest } from '@/lib/validation-schemas';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  isEmailTemplateKey,
+  validateTemplateEdit,
+} from '@/lib/email-templates';
+import {
+  listEmailTemplates,
+  resetEmailTemplate,
+  updateEmailTemplate,
+} from '@/lib/email-template-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/email-templates
+ * Lists every email template with its variables and translations
+ * @auth Required - system:settings permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      const templates = await listEmailTemplates();
+      return NextResponse.json({ success: true, data: templates });
+    } catch (error) {
+      logger.error('Error in GET /api/admin/email-templates:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch email templates',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
+
+/**
+ * PUT /api/admin/email-templates
+ * Saves the subject, HTML, plain text and translations of a template
+ * @auth Required - system:settings permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(emailTemplateEditSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { key, ...edit } = validation.data;
+      const errors = validateTemplateEdit(DEFAULT_EMAIL_TEMPLATES[key], edit);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: errors.join('; '), details: errors },
+          { status: 400 }
+        );
+      }
+
+      const template = await updateEmailTemplate(key, edit, user.id);
+      return NextResponse.json({ success: true, data: template });
+    } catch (error) {
+      logger.error('Error in PUT /api/admin/email-templates:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update email template',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
+
+/**
+ * DELETE /api/admin/email-templates?key=
+ * Discards the edits to a template, restoring the built-in content
+ * @auth Required - system:settings permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const key = new URL(request.url).searchParams.get('key');
+      if (!key || !isEmailTemplateKey(key)) {
+        return NextResponse.json(
+          { success: false, error: 'Valid template key is required' },
+          { status: 400 }
+        );
+      }
+
+      const template = await resetEmailTemplate(key);
+      return NextResponse.json({ success: true, data: template });
+    } catch (error) {
+      logger.error('Error in DELETE /api/admin/email-templates:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to reset email template',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Email Template Test Send API Route
+ * Sends a template filled with sample data to an address through the test
+ * transport: a local SMTP server (SMTP_URL) or .eml files (EMAIL_OUTBOX_DIR),
+ * never Resend.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
+import { emailTemplateTestSendSchema, validateRequest } from '@/lib/validation-schemas';
+import { sendTemplateTestEmail } from '@/lib/email-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/email-templates/test-send
+ * Sends a test email of a template, including unsaved changes
+ * @auth Required - system:settings permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(emailTemplateTestSendSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { key, locale, to, draft } = validation.data;
+      const result = await sendTemplateTestEmail(key, to, locale, draft);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error || 'Failed to send test email' },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { transport: result.transport, messageId: result.messageId },
+        message: `Test email sent to ${to}`,
+      });
+    } catch (error) {
+      logger.error('Error in POST /api/admin/email-templates/test-send:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to send test email',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
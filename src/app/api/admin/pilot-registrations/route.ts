@@ -8,35 +8,39 @@
  */
 
 import { NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
 import { getPendingRegistrations } from '@/lib/pilot-registration-service';
 import { logger } from '@/lib/logger';
 
 /**
  * GET - Get all pending pilot registrations
  */
-export async function GET() {
-  try {
-    logger.debug('📋 API /admin/pilot-registrations: Fetching pending registrations...');
+export const GET = withPermission(
+  async () => {
+    try {
+      logger.debug('📋 API /admin/pilot-registrations: Fetching pending registrations...');
 
-    // Get pending registrations using admin client (bypasses RLS)
-    const registrations = await getPendingRegistrations();
+      // Get pending registrations using admin client (bypasses RLS)
+      const registrations = await getPendingRegistrations();
 
-    logger.debug('✅ API /admin/pilot-registrations: Found', registrations.length, 'pending registrations');
+      logger.debug('✅ API /admin/pilot-registrations: Found', registrations.length, 'pending registrations');
 
-    return NextResponse.json({
-      success: true,
-      data: registrations,
-    });
-  } catch (error) {
-    logger.error('❌ API /admin/pilot-registrations error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to fetch registrations',
-      },
-      { status: 500 }
-    );
-  }
-}
+      return NextResponse.json({
+        success: true,
+        data: registrations,
+      });
+    } catch (error) {
+      logger.error('❌ API /admin/pilot-registrations error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to fetch registrations',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:users' }
+);
 
 export const dynamic = 'force-dynamic';
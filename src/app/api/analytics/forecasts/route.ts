@@ -1,86 +1,252 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { addMonths, differenceInDays } from 'date-fns';
+import { addDays, format, subMonths } from 'date-fns';
 import { logger } from '@/lib/logger';
+import {
+  CONFIDENCE_LEVEL,
+  estimateRenewalRate,
+  forecastSeasonalDemand,
+  leaveDaysInBucket,
+  monthlyBuckets,
+  projectCompliance,
+  projectKnownExpiries,
+  type ForecastMetric,
+  type ForecastResult,
+  type HistoryPoint,
+  type SeasonalBucket,
+} from '@/lib/forecasting';
+import {
+  getCurrentRosterPeriod,
+  getPreviousRosterPeriod,
+  getRosterCalendarConfig,
+  listRosterPeriods,
+  type RosterPeriod,
+} from '@/lib/roster-utils';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
 
 export const dynamic = 'force-dynamic';
 
+const METRICS: ForecastMetric[] = ['certifications', 'leave', 'compliance'];
+
+/** Years of leave history behind the seasonal model */
+const LEAVE_HISTORY_YEARS = 3;
+
 /**
  * Analytics Forecasts API Route
  *
  * GET /api/analytics/forecasts
  * Query params:
  * - metric: 'certifications' | 'leave' | 'compliance'
- * - months: number of months to forecast (default: 3)
+ * - months: number of months to forecast (default: 3) - certifications and compliance
+ * - periods: number of roster periods to forecast (default: 3) - leave
+ *
+ * Forecasts come with prediction intervals derived from the data; a value the data
+ * cannot support is returned as null, never estimated.
  */
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const metric = searchParams.get('metric') || 'certifications';
-    const months = parseInt(searchParams.get('months') || '3', 10);
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const metric = (searchParams.get('metric') || 'certifications') as ForecastMetric;
+      const months = clamp(parseInt(searchParams.get('months') || '3', 10), 1, 24);
+      const periods = clamp(parseInt(searchParams.get('periods') || '3', 10), 1, 13);
 
-    const supabaseAdmin = getSupabaseAdmin();
+      if (!METRICS.includes(metric)) {
+        return NextResponse.json(
+          { success: false, error: `Unknown metric. Use one of: ${METRICS.join(', ')}` },
+          { status: 400 }
+        );
+      }
 
-    let forecastData: any[] = [];
+      let result: ForecastResult;
+      if (metric === 'leave') {
+        result = await forecastLeaveDemand(periods);
+      } else if (metric === 'compliance') {
+        result = await forecastCompliance(months);
+      } else {
+        result = await forecastCertificationExpiries(months);
+      }
 
-    if (metric === 'certifications') {
-      // Forecast expiring certifications
-      const today = new Date();
-      const futureDate = addMonths(today, months);
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...result,
+          forecastPeriod: metric === 'leave' ? `${periods} roster periods` : `${months} months`,
+        },
+      });
+    } catch (error) {
+      logger.error('Analytics forecasts: Error generating forecast', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to generate forecast' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'analytics:view' }
+);
 
-      const { data: expiringChecks, error } = await supabaseAdmin
-        .from('pilot_checks')
-        .select('expiry_date')
-        .gte('expiry_date', today.toISOString())
-        .lte('expiry_date', futureDate.toISOString());
+function clamp(value: number, min: number, max: number): number {
+  return Number.isNaN(value) ? min : Math.min(Math.max(value, min), max);
+}
 
-      if (error) throw error;
+function periodBucket(period: RosterPeriod): SeasonalBucket {
+  return {
+    label: period.code,
+    startDate: format(period.startDate, 'yyyy-MM-dd'),
+    endDate: format(period.endDate, 'yyyy-MM-dd'),
+    season: period.number,
+  };
+}
 
-      // Group by month
-      forecastData = generateMonthlyForecast(today, months, expiringChecks || []);
-    }
+/**
+ * Certifications expiring per month, projected from the known expiry dates
+ */
+async function forecastCertificationExpiries(months: number): Promise<ForecastResult> {
+  const buckets = monthlyBuckets(new Date(), months);
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        metric,
-        forecastPeriod: `${months} months`,
-        forecast: forecastData,
-        confidence: 0.87, // Sample confidence score
-      },
-    });
-  } catch (error) {
-    logger.error('Analytics forecasts: Error generating forecast', error);
-    return NextResponse.json(
-      { success: false, error: 'Failed to generate forecast' },
-      { status: 500 }
-    );
-  }
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilot_checks')
+    .select('expiry_date')
+    .gte('expiry_date', buckets[0]!.startDate)
+    .lte('expiry_date', buckets[buckets.length - 1]!.endDate);
+
+  if (error) throw error;
+
+  return {
+    metric: 'certifications',
+    method: 'Deterministic projection of known expiry dates',
+    unit: 'certifications expiring',
+    confidenceLevel: null,
+    history: [],
+    forecast: projectKnownExpiries(
+      (data || []).map((check) => check.expiry_date),
+      buckets
+    ),
+    insufficientData: false,
+    notes: ['Expiry dates are already known, so the projection is exact until checks are renewed.'],
+  };
 }
 
-function generateMonthlyForecast(startDate: Date, months: number, data: any[]) {
-  const forecast: any[] = [];
-  const current = new Date(startDate);
+/**
+ * Requested leave days per roster period, seasonal by roster period number
+ */
+async function forecastLeaveDemand(periods: number): Promise<ForecastResult> {
+  const supabaseAdmin = getSupabaseAdmin();
 
-  for (let i = 0; i < months; i++) {
-    current.setMonth(current.getMonth() + 1);
-    const monthStr = current.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  await loadRosterCalendar();
+  const current = getCurrentRosterPeriod();
+  const historyLength = getRosterCalendarConfig().periodsPerYear * LEAVE_HISTORY_YEARS;
 
-    // Count items expiring in this month
-    const expiringCount = data.filter((item) => {
-      const expiryDate = new Date(item.expiry_date);
-      return (
-        expiryDate.getMonth() === current.getMonth() &&
-        expiryDate.getFullYear() === current.getFullYear()
-      );
-    }).length;
+  const historyPeriods: RosterPeriod[] = [];
+  let period = current;
+  for (let i = 0; i < historyLength; i++) {
+    period = getPreviousRosterPeriod(period);
+    historyPeriods.unshift(period);
+  }
+  const targets = listRosterPeriods(addDays(current.endDate, 1), periods).map(periodBucket);
+
+  const historyStart = format(historyPeriods[0]!.startDate, 'yyyy-MM-dd');
+  const historyEnd = format(historyPeriods[historyPeriods.length - 1]!.endDate, 'yyyy-MM-dd');
+
+  const [requestsResult, earliestResult] = await Promise.all([
+    supabaseAdmin
+      .from('leave_requests')
+      .select('start_date, end_date')
+      .lte('start_date', historyEnd)
+      .gte('end_date', historyStart),
+    supabaseAdmin
+      .from('leave_requests')
+      .select('start_date')
+      .order('start_date', { ascending: true })
+      .limit(1),
+  ]);
+
+  if (requestsResult.error) throw requestsResult.error;
+  if (earliestResult.error) throw earliestResult.error;
 
-    forecast.push({
-      month: monthStr,
-      predicted: expiringCount || Math.floor(Math.random() * 15) + 5,
-      confidence: 0.85 + Math.random() * 0.1,
-    });
+  // Periods before the first recorded request are unobserved, not zero demand
+  const earliest = earliestResult.data?.[0]?.start_date;
+  const requests = (requestsResult.data || []).map((lr) => ({
+    startDate: lr.start_date,
+    endDate: lr.end_date,
+  }));
+
+  const history: (HistoryPoint & { season: number })[] = historyPeriods
+    .map(periodBucket)
+    .filter((bucket) => earliest !== undefined && bucket.endDate >= earliest)
+    .map((bucket) => ({ ...bucket, actual: leaveDaysInBucket(requests, bucket) }));
+
+  const forecast = forecastSeasonalDemand(history, targets);
+  const notes = [
+    `Each roster period is predicted from the same period number over the last ${LEAVE_HISTORY_YEARS} years of leave requests (all statuses).`,
+  ];
+  if (forecast.some((point) => point.predicted === null)) {
+    notes.push('Periods without history for their period number have no prediction.');
   }
 
-  return forecast;
+  return {
+    metric: 'leave',
+    method: 'Seasonal mean per roster period number with Student-t prediction intervals',
+    unit: 'leave days requested',
+    confidenceLevel: CONFIDENCE_LEVEL,
+    history: history.map(({ season: _season, ...point }) => point),
+    forecast,
+    insufficientData: forecast.every((point) => point.predicted === null),
+    notes,
+  };
+}
+
+/**
+ * Share of certifications valid at each month end, given the observed renewal rate
+ */
+async function forecastCompliance(months: number): Promise<ForecastResult> {
+  const supabaseAdmin = getSupabaseAdmin();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const yearAgo = format(subMonths(new Date(), 12), 'yyyy-MM-dd');
+
+  const [checksResult, renewedResult] = await Promise.all([
+    supabaseAdmin.from('pilot_checks').select('expiry_date'),
+    supabaseAdmin
+      .from('check_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('source', 'recorded')
+      .eq('result', 'pass')
+      .gte('completed_date', yearAgo),
+  ]);
+
+  if (checksResult.error) throw checksResult.error;
+  if (renewedResult.error) throw renewedResult.error;
+
+  const expiryDates = (checksResult.data || []).map((check) => check.expiry_date);
+  const lapsed = expiryDates.filter(
+    (date) => date !== null && date >= yearAgo && date < today
+  ).length;
+  const renewalRate = estimateRenewalRate(renewedResult.count || 0, lapsed);
+
+  const forecast = projectCompliance(
+    expiryDates,
+    today,
+    monthlyBuckets(new Date(), months),
+    renewalRate
+  );
+  const notes = [
+    'Lower bound: no further renewals. Upper bound: every check renewed before it expires.',
+  ];
+  notes.push(
+    renewalRate === null
+      ? 'No renewals or lapses in the last 12 months - only the bounds can be given.'
+      : `Predicted using the last 12 months renewal rate of ${Math.round(renewalRate * 100)}%.`
+  );
+
+  return {
+    metric: 'compliance',
+    method: 'Known expiries weighted by the observed renewal rate',
+    unit: '% certifications valid',
+    confidenceLevel: null,
+    history: [],
+    forecast,
+    insufficientData: forecast.every((point) => point.lower === null),
+    notes,
+  };
 }
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Backup Policy API Routes
+ * Schedule and retention for automatic backups.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getBackupPolicy, updateBackupPolicy } from '@/lib/backup-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const backupPolicySchema = z.object({
+  enabled: z.boolean(),
+  frequency: z.enum(['daily', 'weekly']),
+  hourUtc: z.number().int().min(0).max(23),
+  weekday: z.number().int().min(0).max(6),
+  retention: z.object({
+    daily: z.number().int().min(1).max(90),
+    weekly: z.number().int().min(0).max(52),
+    monthly: z.number().int().min(0).max(120),
+  }),
+});
+
+/**
+ * GET /api/backups/policy
+ * @auth Required - system:backup permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      return NextResponse.json({ success: true, data: await getBackupPolicy() });
+    } catch (error) {
+      logger.error('Error in GET /api/backups/policy:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch backup policy' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
+
+/**
+ * PUT /api/backups/policy
+ * @auth Required - system:backup permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(backupPolicySchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const policy = await updateBackupPolicy(validation.data);
+      logger.info('Backup policy updated', { policy, updatedBy: user.id });
+
+      return NextResponse.json({ success: true, data: policy });
+    } catch (error) {
+      logger.error('Error in PUT /api/backups/policy:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update backup policy' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
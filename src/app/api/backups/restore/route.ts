@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Backup Restore API Route
+ * Dry-run diffs and selective restores (per table, per pilot) from a backup.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { restoreBackup } from '@/lib/backup-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const restoreSchema = z.object({
+  id: z.string().uuid('Invalid backup ID'),
+  tables: z.array(z.string()).optional(),
+  pilotId: z.string().uuid('Invalid pilot ID').optional(),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * POST /api/backups/restore
+ * Defaults to a dry run; pass dryRun: false to write the restore
+ * @auth Required - system:backup permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(restoreSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...options } = validation.data;
+      const summary = await restoreBackup(id, options, user.id);
+
+      return NextResponse.json({ success: true, data: summary });
+    } catch (error) {
+      logger.error('Error in POST /api/backups/restore:', error);
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Restore failed' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
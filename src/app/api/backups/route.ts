@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Backups API Routes
+ * Lists backups, takes manual backups and deletes backups with their archives.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import { BACKUP_TABLE_NAMES } from '@/lib/backup-archive';
+import {
+  createBackup,
+  deleteBackup,
+  getBackup,
+  getBackupRestores,
+  listBackups,
+} from '@/lib/backup-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const createBackupSchema = z.object({
+  tables: z
+    .array(z.string().refine((table) => BACKUP_TABLE_NAMES.includes(table), 'Unknown table'))
+    .optional(),
+  description: z.string().trim().max(500).optional().nullable(),
+});
+
+/**
+ * GET /api/backups
+ * Recent backups, newest first, with the tables that can be backed up;
+ * ?id= returns one backup with its restore history
+ * @auth Required - system:backup permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+
+      if (id) {
+        if (!isValidUUID(id)) {
+          return NextResponse.json({ success: false, error: 'Invalid backup ID' }, { status: 400 });
+        }
+        const backup = await getBackup(id);
+        if (!backup) {
+          return NextResponse.json({ success: false, error: 'Backup not found' }, { status: 404 });
+        }
+        return NextResponse.json({
+          success: true,
+          data: { ...backup, restores: await getBackupRestores(id) },
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { backups: await listBackups(), tables: BACKUP_TABLE_NAMES },
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/backups:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch backups' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
+
+/**
+ * POST /api/backups
+ * Takes a manual backup of the given tables (default all)
+ * @auth Required - system:backup permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const validation = validateRequest(createBackupSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const backup = await createBackup({
+        kind: 'manual',
+        tables: validation.data.tables,
+        description: validation.data.description,
+        createdBy: user.id,
+      });
+
+      return NextResponse.json({ success: true, data: backup }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/backups:', error);
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Backup failed' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
+
+/**
+ * DELETE /api/backups?id=
+ * Deletes a backup and its archive
+ * @auth Required - system:backup permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid backup ID' }, { status: 400 });
+      }
+
+      await deleteBackup(id);
+      logger.info('Backup deleted', { backupId: id, deletedBy: user.id });
+
+      return NextResponse.json({ success: true, data: { id } });
+    } catch (error) {
+      logger.error('Error in DELETE /api/backups:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete backup',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Backup Verification API Route
+ * Re-reads a backup archive and checks its checksum and contents.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { verifyBackup } from '@/lib/backup-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const verifySchema = z.object({
+  id: z.string().uuid('Invalid backup ID'),
+});
+
+/**
+ * POST /api/backups/verify
+ * @auth Required - system:backup permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(verifySchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: await verifyBackup(validation.data.id) });
+    } catch (error) {
+      logger.error('Error in POST /api/backups/verify:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to verify backup',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:backup' }
+);
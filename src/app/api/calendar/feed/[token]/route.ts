@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Calendar Feed Route
+ * Serves a tokenised iCalendar subscription feed. Calendar clients cannot sign in,
+ * so the secret token in the URL is the only credential.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { buildFeedCalendar, getFeedDataScope, resolveFeedToken } from '@/lib/calendar-feed-service';
+import { ICS_CONTENT_TYPE } from '@/lib/ical';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/calendar/feed/<token>.ics
+ * @auth Feed token, while the feed owner still has access
+ */
+export const GET = withExternalAccess(
+  async (_request: NextRequest, { params }: { params: { token: string } }) => {
+    try {
+      const token = params.token.replace(/\.ics$/i, '');
+      if (!/^[0-9a-f]{48}$/.test(token)) {
+        return NextResponse.json(
+          { success: false, error: 'Calendar feed not found' },
+          { status: 404 }
+        );
+      }
+
+      const feed = await resolveFeedToken(token);
+      if (!feed) {
+        return NextResponse.json(
+          { success: false, error: 'Calendar feed not found' },
+          { status: 404 }
+        );
+      }
+
+      const calendar = await buildFeedCalendar(feed, await getFeedDataScope(feed));
+
+      return new NextResponse(calendar, {
+        headers: {
+          'Content-Type': ICS_CONTENT_TYPE,
+          'Content-Disposition': 'inline; filename="air-niugini-pms.ics"',
+          'Cache-Control': 'private, max-age=900',
+        },
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/calendar/feed:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to build calendar feed' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'feed-token' }
+);
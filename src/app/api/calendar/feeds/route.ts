@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Staff Calendar Feeds API Routes
+ * Subscription URLs for the fleet calendar or a single pilot's calendar.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  createUserFeed,
+  deleteUserFeed,
+  feedUrl,
+  listUserFeeds,
+} from '@/lib/calendar-feed-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const createFeedSchema = z.object({
+  pilotId: z.string().uuid('Invalid pilot ID').nullable().optional(),
+});
+
+/**
+ * GET /api/calendar/feeds
+ * The signed-in user's feeds with their subscription URLs
+ * @auth Required - leave:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const feeds = await listUserFeeds(user.id);
+
+      return NextResponse.json({
+        success: true,
+        data: feeds.map((feed) => ({ ...feed, url: feedUrl(feed.token, request.url) })),
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/calendar/feeds:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch calendar feeds' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:read' }
+);
+
+/**
+ * POST /api/calendar/feeds
+ * Creates the fleet feed ({}) or a pilot feed ({ pilotId }); an existing feed of
+ * the same scope gets a new token and its old URL stops working
+ * @auth Required - leave:read permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const validation = validateRequest(createFeedSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const feed = await createUserFeed(user.id, validation.data.pilotId || null);
+
+      return NextResponse.json(
+        { success: true, data: { ...feed, url: feedUrl(feed.token, request.url) } },
+        { status: 201 }
+      );
+    } catch (error) {
+      logger.error('Error in POST /api/calendar/feeds:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create calendar feed' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:read' }
+);
+
+/**
+ * DELETE /api/calendar/feeds?id=
+ * @auth Required - leave:read permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid feed ID' }, { status: 400 });
+      }
+
+      await deleteUserFeed(user.id, id);
+
+      return NextResponse.json({ success: true, data: { id } });
+    } catch (error) {
+      logger.error('Error in DELETE /api/calendar/feeds:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete calendar feed' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:read' }
+);
@@ -1,108 +1,204 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
 import { logger } from '@/lib/logger';
+import { pilotInScope } from '@/lib/data-scope';
+import {
+  calculateNextExpiryDate,
+  getCheckTypeRules,
+  type NextExpiryProposal,
+} from '@/lib/certification-rules';
+import { recordCheckEvents } from '@/lib/check-event-service';
 
 interface BulkUpdateRequest {
   checkTypeId: string;
-  newExpiryDate: string;
+  /** Manual expiry date applied to every selected pilot */
+  newExpiryDate?: string;
+  /** Completion date - expiry is computed per pilot from the check type rules */
+  completedDate?: string;
   selectedPilots: string[];
+  /** Return the proposed expiry dates without saving */
+  preview?: boolean;
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body: BulkUpdateRequest = await request.json();
-    const { checkTypeId, newExpiryDate, selectedPilots } = body;
-
-    if (!checkTypeId || !newExpiryDate || !selectedPilots || selectedPilots.length === 0) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required fields' },
-        { status: 400 }
-      );
-    }
-
-    logger.debug(' API /certifications/bulk-update: Starting bulk update');
-    logger.debug(' Check Type ID:', checkTypeId);
-    logger.debug(' New Expiry Date:', newExpiryDate);
-    logger.debug(' Selected Pilots:', selectedPilots.length);
-
-    const supabaseAdmin = getSupabaseAdmin();
-
-    // Validate check type exists
-    const { data: checkType, error: checkTypeError } = await supabaseAdmin
-      .from('check_types')
-      .select('check_code, check_description')
-      .eq('id', checkTypeId)
-      .single();
-
-    if (checkTypeError || !checkType) {
-      logger.error(' Invalid check type ID:', checkTypeId);
-      return NextResponse.json(
-        { success: false, error: 'Invalid check type selected' },
-        { status: 400 }
-      );
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body: BulkUpdateRequest = await request.json();
+      const { checkTypeId, newExpiryDate, completedDate, selectedPilots, preview } = body;
+
+      if (
+        !checkTypeId ||
+        (!newExpiryDate && !completedDate) ||
+        !selectedPilots ||
+        selectedPilots.length === 0
+      ) {
+        return NextResponse.json(
+          { success: false, error: 'Missing required fields' },
+          { status: 400 }
+        );
+      }
+
+      logger.debug(' API /certifications/bulk-update: Starting bulk update');
+      logger.debug(' Check Type ID:', checkTypeId);
+      logger.debug(' New Expiry Date:', newExpiryDate);
+      logger.debug(' Completed Date:', completedDate);
+      logger.debug(' Selected Pilots:', selectedPilots.length);
+
+      const supabaseAdmin = getSupabaseAdmin();
+
+      // Validate check type exists
+      const { data: checkType, error: checkTypeError } = await supabaseAdmin
+        .from('check_types')
+        .select('*')
+        .eq('id', checkTypeId)
+        .single();
+
+      if (checkTypeError || !checkType) {
+        logger.error(' Invalid check type ID:', checkTypeId);
+        return NextResponse.json(
+          { success: false, error: 'Invalid check type selected' },
+          { status: 400 }
+        );
+      }
+
+      // Validate pilots exist
+      const { data: pilots, error: pilotsError } = await supabaseAdmin
+        .from('pilots')
+        .select('id, first_name, last_name, employee_id, base, fleet, contract_type, role')
+        .in('id', selectedPilots)
+        .eq('is_active', true);
+
+      if (pilotsError) {
+        logger.error(' Error validating pilots:', pilotsError);
+        return NextResponse.json(
+          { success: false, error: 'Error validating selected pilots' },
+          { status: 500 }
+        );
+      }
+
+      if (!pilots || pilots.length !== selectedPilots.length) {
+        logger.error(' Some selected pilots not found or inactive');
+        return NextResponse.json(
+          { success: false, error: 'Some selected pilots are invalid or inactive' },
+          { status: 400 }
+        );
+      }
+
+      const scope = createUserDataScope(user);
+      if (!pilots.every((pilot) => pilotInScope(pilot, scope))) {
+        return NextResponse.json(
+          { success: false, error: 'Some selected pilots are outside your data scope' },
+          { status: 403 }
+        );
+      }
+
+      // Work out each pilot's new expiry: manual date, or computed from the completion date
+      const proposals = new Map<string, NextExpiryProposal | null>();
+
+      if (!newExpiryDate && completedDate) {
+        const rules = getCheckTypeRules(checkType);
+        if (!rules.validity_months) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `${checkType.check_code} has no validity period - enter the expiry date manually`,
+            },
+            { status: 400 }
+          );
+        }
+
+        const { data: currentChecks, error: currentError } = await supabaseAdmin
+          .from('pilot_checks')
+          .select('pilot_id, expiry_date')
+          .eq('check_type_id', checkTypeId)
+          .in('pilot_id', selectedPilots);
+
+        if (currentError) {
+          logger.error(' Error fetching current expiry dates:', currentError);
+          return NextResponse.json(
+            { success: false, error: 'Error fetching current certifications' },
+            { status: 500 }
+          );
+        }
+
+        for (const pilotId of selectedPilots) {
+          const current = currentChecks?.find((check) => check.pilot_id === pilotId);
+          proposals.set(
+            pilotId,
+            calculateNextExpiryDate(completedDate, current?.expiry_date, rules)
+          );
+        }
+      }
+
+      const expiryFor = (pilotId: string) =>
+        newExpiryDate || proposals.get(pilotId)?.expiryDate || null;
+
+      if (preview) {
+        return NextResponse.json({
+          success: true,
+          checkType: checkType.check_code,
+          proposals: selectedPilots.map((pilotId) => ({
+            pilotId,
+            expiryDate: expiryFor(pilotId),
+            basis: proposals.get(pilotId)?.basis || 'manual',
+            withinRenewalWindow: proposals.get(pilotId)?.withinRenewalWindow || false,
+            inGracePeriod: proposals.get(pilotId)?.inGracePeriod || false,
+          })),
+        });
+      }
+
+      // Append one event per pilot; pilot_checks is derived from the latest passed event
+      let events;
+      try {
+        events = await recordCheckEvents(
+          selectedPilots.map((pilotId) => ({
+            pilot_id: pilotId,
+            check_type_id: checkTypeId,
+            completed_date: completedDate || null,
+            expiry_date: expiryFor(pilotId),
+            result: 'pass',
+            source: completedDate ? 'recorded' : 'manual_update',
+            notes: completedDate
+              ? 'Bulk certification update'
+              : 'Expiry date updated manually (bulk)',
+          }))
+        );
+      } catch (recordError) {
+        logger.error(' Bulk check event error:', recordError);
+        return NextResponse.json(
+          { success: false, error: 'Failed to update certifications' },
+          { status: 500 }
+        );
+      }
+
+      logger.info(' Bulk update successful:', events.length, 'check events recorded');
+
+      for (const event of events) {
+        await triggerWebhookEvent('certification.updated', {
+          pilot_id: event.pilot_id,
+          check_type_id: event.check_type_id,
+          check_code: checkType.check_code,
+          completed_date: event.completed_date,
+          expiry_date: event.expiry_date,
+          check_event_id: event.id,
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        updated: events.length,
+        pilots: selectedPilots.length,
+        checkType: checkType.check_code,
+        expiryDate: newExpiryDate || null,
+        completedDate: completedDate || null,
+        message: `Successfully updated ${checkType.check_code} certification for ${selectedPilots.length} pilots`,
+      });
+    } catch (error) {
+      logger.error(' API /certifications/bulk-update: Fatal error:', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
     }
-
-    // Validate pilots exist
-    const { data: pilots, error: pilotsError } = await supabaseAdmin
-      .from('pilots')
-      .select('id, first_name, last_name, employee_id')
-      .in('id', selectedPilots)
-      .eq('is_active', true);
-
-    if (pilotsError) {
-      logger.error(' Error validating pilots:', pilotsError);
-      return NextResponse.json(
-        { success: false, error: 'Error validating selected pilots' },
-        { status: 500 }
-      );
-    }
-
-    if (!pilots || pilots.length !== selectedPilots.length) {
-      logger.error(' Some selected pilots not found or inactive');
-      return NextResponse.json(
-        { success: false, error: 'Some selected pilots are invalid or inactive' },
-        { status: 400 }
-      );
-    }
-
-    // Prepare bulk upsert data
-    const updates = selectedPilots.map((pilotId) => ({
-      pilot_id: pilotId,
-      check_type_id: checkTypeId,
-      expiry_date: newExpiryDate,
-      updated_at: new Date().toISOString(),
-    }));
-
-    logger.debug(' Performing bulk upsert for', updates.length, 'records');
-
-    // Perform bulk upsert
-    const { data, error: upsertError } = await supabaseAdmin
-      .from('pilot_checks')
-      .upsert(updates, {
-        onConflict: 'pilot_id,check_type_id',
-      })
-      .select();
-
-    if (upsertError) {
-      logger.error(' Bulk upsert error:', upsertError);
-      return NextResponse.json(
-        { success: false, error: 'Failed to update certifications' },
-        { status: 500 }
-      );
-    }
-
-    logger.info(' Bulk update successful:', data?.length || 0, 'records updated');
-
-    return NextResponse.json({
-      success: true,
-      updated: data?.length || 0,
-      pilots: selectedPilots.length,
-      checkType: checkType.check_code,
-      expiryDate: newExpiryDate,
-      message: `Successfully updated ${checkType.check_code} certification for ${selectedPilots.length} pilots`,
-    });
-  } catch (error) {
-    logger.error(' API /certifications/bulk-update: Fatal error:', error);
-    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+  },
+  { permission: 'certification:bulk_update' }
+);
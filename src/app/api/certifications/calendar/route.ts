@@ -1,65 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getCertificationStatus } from '@/lib/certification-utils';
+import { getCheckTypeRules } from '@/lib/certification-rules';
 import { logger } from '@/lib/logger';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
 
-export async function GET(request: NextRequest) {
-  try {
-    logger.debug(' API /certifications/calendar: Fetching certification calendar data');
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      logger.debug(' API /certifications/calendar: Fetching certification calendar data');
 
-    // Get all pilot certifications with expiry dates for calendar display
-    const { data: certifications, error } = await getSupabaseAdmin()
-      .from('pilot_checks')
-      .select(
+      const pilotIds = await getScopedPilotIds(createUserDataScope(user));
+
+      // Get the certifications with expiry dates of the pilots in scope for calendar display
+      const calendarQuery = getSupabaseAdmin()
+        .from('pilot_checks')
+        .select(
+          `
+          *,
+          pilots!inner (
+            employee_id,
+            first_name,
+            last_name
+          ),
+          check_types!inner (
+            check_code,
+            check_description,
+            warning_days,
+            grace_period_days
+          )
         `
-        *,
-        pilots!inner (
-          employee_id,
-          first_name,
-          last_name
-        ),
-        check_types!inner (
-          check_code,
-          check_description
         )
-      `
-      )
-      .not('expiry_date', 'is', null)
-      .order('expiry_date', { ascending: true });
+        .not('expiry_date', 'is', null)
+        .order('expiry_date', { ascending: true });
+      const { data: certifications, error } = await restrictToPilots(calendarQuery, pilotIds);
 
-    if (error) {
-      logger.error(' API /certifications/calendar: Database error:', error);
-      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
-    }
+      if (error) {
+        logger.error(' API /certifications/calendar: Database error:', error);
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+      }
 
-    logger.debug(
-      '🔍 API /certifications/calendar: Found',
-      certifications?.length || 0,
-      'certifications with expiry dates'
-    );
+      logger.debug(
+        '🔍 API /certifications/calendar: Found',
+        certifications?.length || 0,
+        'certifications with expiry dates'
+      );
 
-    // Transform data for calendar display
-    const result = (certifications || []).map((cert: any) => ({
-      pilot_name: `${cert.pilots.first_name} ${cert.pilots.last_name}`,
-      employee_id: cert.pilots.employee_id,
-      check_code: cert.check_types.check_code,
-      check_description: cert.check_types.check_description,
-      expiry_date: cert.expiry_date,
-      status: getCertificationStatus(cert.expiry_date ? new Date(cert.expiry_date) : null),
-    }));
+      // Transform data for calendar display
+      const result = (certifications || []).map((cert: any) => ({
+        pilot_name: `${cert.pilots.first_name} ${cert.pilots.last_name}`,
+        employee_id: cert.pilots.employee_id,
+        check_code: cert.check_types.check_code,
+        check_description: cert.check_types.check_description,
+        expiry_date: cert.expiry_date,
+        status: getCertificationStatus(
+          cert.expiry_date ? new Date(cert.expiry_date) : null,
+          getCheckTypeRules(cert.check_types)
+        ),
+      }));
 
-    logger.debug(
-      '🔍 API /certifications/calendar: Returning',
-      result.length,
-      'certification calendar items'
-    );
+      logger.debug(
+        '🔍 API /certifications/calendar: Returning',
+        result.length,
+        'certification calendar items'
+      );
 
-    return NextResponse.json({
-      success: true,
-      data: result,
-    });
-  } catch (error) {
-    logger.error(' API /certifications/calendar: Fatal error:', error);
-    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+      return NextResponse.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error(' API /certifications/calendar: Fatal error:', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+    }
+  },
+  { permission: 'certification:read' }
+);
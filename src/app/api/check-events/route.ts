@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Check Events API Routes
+ * Records certification completions and lists the completion history per pilot
+ * and per check type. pilot_checks is derived from the latest passed event.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import { z } from 'zod';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
+import { isPilotInScope } from '@/lib/data-scope-service';
+import {
+  getCheckEvents,
+  recordCheckEvent,
+  type CheckEventFilters,
+  type CheckEventResult,
+} from '@/lib/check-event-service';
+import { invalidateCache, CACHE_INVALIDATION_PATTERNS } from '@/lib/cache-service';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
+import { logger } from '@/lib/logger';
+
+// Mark this route as dynamic
+export const dynamic = 'force-dynamic';
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const recordCheckEventSchema = z.object({
+  pilot_id: z.string().uuid('Invalid pilot ID'),
+  check_type_id: z.string().uuid('Invalid check type ID'),
+  completed_date: dateString,
+  result: z.enum(['pass', 'fail', 'partial']),
+  expiry_date: dateString.nullable().optional(),
+  examiner: z.string().max(200).optional(),
+  location: z.string().max(200).optional(),
+  simulator: z.string().max(200).optional(),
+  document_id: z.string().uuid('Invalid document ID').optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * GET /api/check-events?pilotId=&checkTypeId=
+ * Lists completion history for a pilot, a check type, or one pilot's check
+ * Optional filters: result, from, to (completed date), limit
+ * @auth Required - certification:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const pilotId = searchParams.get('pilotId') || undefined;
+      const checkTypeId = searchParams.get('checkTypeId') || undefined;
+
+      if (!pilotId && !checkTypeId) {
+        return NextResponse.json(
+          { success: false, error: 'pilotId or checkTypeId is required' },
+          { status: 400 }
+        );
+      }
+
+      if ((pilotId && !isValidUUID(pilotId)) || (checkTypeId && !isValidUUID(checkTypeId))) {
+        return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+      }
+
+      const limit = searchParams.get('limit');
+      const filters: CheckEventFilters = {
+        pilotId,
+        checkTypeId,
+        result: (searchParams.get('result') as CheckEventResult) || undefined,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+        scope: createUserDataScope(user),
+      };
+
+      const events = await getCheckEvents(filters);
+
+      return NextResponse.json({
+        success: true,
+        data: events,
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/check-events:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch check events' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:read' }
+);
+
+/**
+ * POST /api/check-events
+ * Records a check completion; a pass without an expiry date gets the rule-based expiry
+ * @auth Required - certification:create permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+
+      const validation = validateRequest(recordCheckEventSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      if (!(await isPilotInScope(validation.data.pilot_id, createUserDataScope(user)))) {
+        return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
+      }
+
+      const { event, proposal } = await recordCheckEvent({
+        ...validation.data,
+        recorded_by: user.id,
+      });
+
+      invalidateCache([...CACHE_INVALIDATION_PATTERNS.PILOT_DATA_UPDATED]);
+      revalidatePath(`/dashboard/pilots/${event.pilot_id}`);
+      revalidatePath(`/dashboard/pilots/${event.pilot_id}/certifications`);
+      revalidatePath('/dashboard/certifications');
+
+      logger.info('Check event recorded via API', {
+        eventId: event.id,
+        recordedBy: user.id,
+      });
+
+      await triggerWebhookEvent('certification.created', {
+        pilot_id: event.pilot_id,
+        check_type_id: event.check_type_id,
+        completed_date: event.completed_date,
+        result: event.result,
+        expiry_date: event.expiry_date,
+        check_event_id: event.id,
+      });
+
+      return NextResponse.json({ success: true, data: event, proposal }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/check-events:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to record check event',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:create' }
+);
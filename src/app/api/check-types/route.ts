@@ -1,32 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
 
-export async function GET(request: NextRequest) {
-  const supabaseAdmin = getSupabaseAdmin();
-  try {
-    logger.debug(' API /check-types: Fetching all check types');
-
-    // Get all check types using service role (bypasses RLS)
-    const { data: checkTypes, error } = await supabaseAdmin
-      .from('check_types')
-      .select('*')
-      .order('category', { ascending: true })
-      .order('check_code', { ascending: true });
-
-    if (error) {
-      logger.error(' API /check-types: Database error:', error);
-      return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    const supabaseAdmin = getSupabaseAdmin();
+    try {
+      logger.debug(' API /check-types: Fetching all check types');
+
+      // Get all check types using service role (bypasses RLS)
+      const { data: checkTypes, error } = await supabaseAdmin
+        .from('check_types')
+        .select('*')
+        .order('category', { ascending: true })
+        .order('check_code', { ascending: true });
+
+      if (error) {
+        logger.error(' API /check-types: Database error:', error);
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+      }
+
+      logger.debug(' API /check-types: Found', checkTypes?.length || 0, 'check types');
+
+      return NextResponse.json({
+        success: true,
+        data: checkTypes || [],
+      });
+    } catch (error) {
+      logger.error(' API /check-types: Fatal error:', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
     }
+  },
+  { permission: 'certification:read' }
+);
+
+const checkTypeRulesSchema = z.object({
+  id: z.string().uuid('Invalid check type ID'),
+  validity_months: z.number().int().min(1).max(120).nullable(),
+  renewal_window_months: z.number().int().min(0).max(24),
+  grace_period_days: z.number().int().min(0).max(365),
+  warning_days: z.number().int().min(0).max(365),
+  expiry_rounding: z.enum(['none', 'end_of_month']),
+  preserve_anniversary: z.boolean(),
+});
 
-    logger.debug(' API /check-types: Found', checkTypes?.length || 0, 'check types');
-
-    return NextResponse.json({
-      success: true,
-      data: checkTypes || [],
-    });
-  } catch (error) {
-    logger.error(' API /check-types: Fatal error:', error);
-    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+/**
+ * PUT /api/check-types
+ * Updates the validity rules of a check type
+ * @auth Required - check_types:update permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(checkTypeRulesSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...rules } = validation.data;
+      const { data, error } = await getSupabaseAdmin()
+        .from('check_types')
+        .update({ ...rules, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error(' API /check-types: Error updating rules:', error);
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+      }
+
+      logger.info(' API /check-types: Updated validity rules', { checkType: data.check_code });
+
+      return NextResponse.json({ success: true, data });
+    } catch (error) {
+      logger.error(' API /check-types: Fatal error:', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+    }
+  },
+  { permission: 'check_types:update' }
+);
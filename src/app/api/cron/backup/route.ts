@@ -0,0 +1,58 @@
+/**
+ * Air Niugini B767 Pilot Management System
+ * Cron Job: Scheduled Backups
+ *
+ * POST /api/cron/backup
+ * Schedule: Hourly
+ * Purpose: Take the scheduled backup when the backup policy's slot has passed and
+ * prune scheduled backups outside the retention windows
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { runScheduledBackups } from '@/lib/scheduled-jobs';
+import { logger } from '@/lib/logger';
+
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Optional: Verify cron secret for security
+      const cronSecret = request.headers.get('x-cron-secret');
+      if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
+
+      logger.debug('[Cron] Running scheduled backup...');
+
+      const result = await runScheduledBackups();
+
+      return NextResponse.json({
+        success: result.success,
+        jobName: result.jobName,
+        duration: result.duration,
+        details: result.details,
+        error: result.error,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('[Cron] Scheduled backup failed:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'cron-secret' }
+);
+
+// Allow GET for manual testing
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    return POST(request);
+  },
+  { access: 'cron-secret' }
+);
@@ -8,43 +8,50 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { runDailyCertificationCheck } from '@/lib/scheduled-jobs';
 import { logger } from '@/lib/logger';
 
-export async function POST(request: NextRequest) {
-  try {
-    // Optional: Verify cron secret for security
-    const cronSecret = request.headers.get('x-cron-secret');
-    if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
-      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
-    }
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Optional: Verify cron secret for security
+      const cronSecret = request.headers.get('x-cron-secret');
+      if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
 
-    logger.debug('[Cron] Running daily certification check...');
+      logger.debug('[Cron] Running daily certification check...');
 
-    const result = await runDailyCertificationCheck();
+      const result = await runDailyCertificationCheck();
 
-    return NextResponse.json({
-      success: result.success,
-      jobName: result.jobName,
-      duration: result.duration,
-      details: result.details,
-      error: result.error,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    logger.error('[Cron] Daily certification check failed:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal server error',
+      return NextResponse.json({
+        success: result.success,
+        jobName: result.jobName,
+        duration: result.duration,
+        details: result.details,
+        error: result.error,
         timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
-}
+      });
+    } catch (error) {
+      logger.error('[Cron] Daily certification check failed:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'cron-secret' }
+);
 
 // Allow GET for manual testing
-export async function GET(request: NextRequest) {
-  return POST(request);
-}
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    return POST(request);
+  },
+  { access: 'cron-secret' }
+);
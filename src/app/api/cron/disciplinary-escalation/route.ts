@@ -0,0 +1,58 @@
+/**
+ * Air Niugini B767 Pilot Management System
+ * Cron Job: Disciplinary Deadline Escalation
+ *
+ * POST /api/cron/disciplinary-escalation
+ * Schedule: Daily at 7:00 AM
+ * Purpose: Create escalation tasks for passed disciplinary due dates, appeal deadlines
+ * and regulatory notification deadlines, and queue reminders ahead of them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { runDisciplinaryDeadlineEscalation } from '@/lib/scheduled-jobs';
+import { logger } from '@/lib/logger';
+
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Optional: Verify cron secret for security
+      const cronSecret = request.headers.get('x-cron-secret');
+      if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
+
+      logger.debug('[Cron] Escalating disciplinary deadlines...');
+
+      const result = await runDisciplinaryDeadlineEscalation();
+
+      return NextResponse.json({
+        success: result.success,
+        jobName: result.jobName,
+        duration: result.duration,
+        details: result.details,
+        error: result.error,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('[Cron] Disciplinary escalation failed:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'cron-secret' }
+);
+
+// Allow GET for manual testing
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    return POST(request);
+  },
+  { access: 'cron-secret' }
+);
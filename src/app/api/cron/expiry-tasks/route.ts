@@ -0,0 +1,58 @@
+/**
+ * Air Niugini B767 Pilot Management System
+ * Cron Job: Expiry Task Generation
+ *
+ * POST /api/cron/expiry-tasks
+ * Schedule: Daily at 6:00 AM
+ * Purpose: Create tasks (e.g. "Book SIM for Capt X") from task generation rules for
+ * pilot checks expiring within each rule's window
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { runGenerateExpiryTasks } from '@/lib/scheduled-jobs';
+import { logger } from '@/lib/logger';
+
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Optional: Verify cron secret for security
+      const cronSecret = request.headers.get('x-cron-secret');
+      if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
+
+      logger.debug('[Cron] Generating expiry tasks...');
+
+      const result = await runGenerateExpiryTasks();
+
+      return NextResponse.json({
+        success: result.success,
+        jobName: result.jobName,
+        duration: result.duration,
+        details: result.details,
+        error: result.error,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('[Cron] Expiry task generation failed:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'cron-secret' }
+);
+
+// Allow GET for manual testing
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    return POST(request);
+  },
+  { access: 'cron-secret' }
+);
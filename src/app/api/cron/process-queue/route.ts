@@ -4,47 +4,55 @@
  *
  * POST /api/cron/process-queue
  * Schedule: Every 5 minutes
- * Purpose: Process pending notifications from queue
+ * Purpose: Send due notification deliveries and digests, and queued or retried webhook deliveries
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { runProcessNotificationQueue } from '@/lib/scheduled-jobs';
+import { withExternalAccess } from '@/middleware/auth';
+import { runProcessNotificationQueue, runProcessWebhookDeliveries } from '@/lib/scheduled-jobs';
 import { logger } from '@/lib/logger';
 
-export async function POST(request: NextRequest) {
-  try {
-    // Optional: Verify cron secret for security
-    const cronSecret = request.headers.get('x-cron-secret');
-    if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
-      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
-    }
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Optional: Verify cron secret for security
+      const cronSecret = request.headers.get('x-cron-secret');
+      if (process.env.CRON_SECRET && cronSecret !== process.env.CRON_SECRET) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
 
-    logger.debug('[Cron] Processing notification queue...');
+      logger.debug('[Cron] Processing notification queue...');
 
-    const result = await runProcessNotificationQueue();
+      const result = await runProcessNotificationQueue();
+      const webhookResult = await runProcessWebhookDeliveries();
 
-    return NextResponse.json({
-      success: result.success,
-      jobName: result.jobName,
-      duration: result.duration,
-      details: result.details,
-      error: result.error,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    logger.error('[Cron] Process queue failed:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal server error',
+      return NextResponse.json({
+        success: result.success && webhookResult.success,
+        jobName: result.jobName,
+        duration: result.duration + webhookResult.duration,
+        details: { ...result.details, webhooks: webhookResult.details },
+        error: result.error || webhookResult.error,
         timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
-}
+      });
+    } catch (error) {
+      logger.error('[Cron] Process queue failed:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'cron-secret' }
+);
 
 // Allow GET for manual testing
-export async function GET(request: NextRequest) {
-  return POST(request);
-}
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    return POST(request);
+  },
+  { access: 'cron-secret' }
+);
@@ -7,6 +7,7 @@
  * @since 2025-10-06
  */
 
+import { withExternalAccess } from '@/middleware/auth';
 import { GET as generateCSRFToken } from '@/middleware/csrf';
 
 /**
@@ -15,4 +16,4 @@ import { GET as generateCSRFToken } from '@/middleware/csrf';
  *
  * @returns JSON response with CSRF token
  */
-export { generateCSRFToken as GET };
+export const GET = withExternalAccess(generateCSRFToken, { access: 'public' });
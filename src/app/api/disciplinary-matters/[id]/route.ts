@@ -8,10 +8,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth } from '@/middleware/auth';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { isPilotInScope } from '@/lib/data-scope-service';
 import {
   getDisciplinaryMatterById,
   updateDisciplinaryMatter,
@@ -46,7 +47,7 @@ const updateDisciplinaryMatterSchema = z.object({
  * GET /api/disciplinary-matters/[id]
  * Retrieves a single disciplinary matter with related data
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (request: NextRequest, { user, params }: any) => {
     try {
       const { id } = params;
@@ -60,6 +61,13 @@ export const GET = withAuth(
 
       const matter = await getDisciplinaryMatterById(id);
 
+      if (!(await isPilotInScope(matter.pilot_id, createUserDataScope(user)))) {
+        return NextResponse.json(
+          { success: false, error: 'Disciplinary matter not found' },
+          { status: 404 }
+        );
+      }
+
       const response: any = { matter };
 
       // Include related data based on query params
@@ -85,14 +93,14 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'disciplinary:read' }
 );
 
 /**
  * PATCH /api/disciplinary-matters/[id]
  * Updates a disciplinary matter
  */
-export const PATCH = withAuth(
+export const PATCH = withPermission(
   async (request: NextRequest, { user, params }: any) => {
     try {
       const { id } = params;
@@ -115,7 +123,15 @@ export const PATCH = withAuth(
         );
       }
 
-      const matter = await updateDisciplinaryMatter(id, validation.data, user.id);
+      const existing = await getDisciplinaryMatterById(id);
+      if (!(await isPilotInScope(existing.pilot_id, createUserDataScope(user)))) {
+        return NextResponse.json(
+          { success: false, error: 'Disciplinary matter not found' },
+          { status: 404 }
+        );
+      }
+
+      const matter = await updateDisciplinaryMatter(id, validation.data, user.id, user.role);
 
       return NextResponse.json({
         success: true,
@@ -124,19 +140,22 @@ export const PATCH = withAuth(
     } catch (error) {
       logger.error('Error in PATCH /api/disciplinary-matters/[id]:', error);
       return NextResponse.json(
-        { success: false, error: 'Failed to update disciplinary matter' },
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update disciplinary matter',
+        },
         { status: 500 }
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'disciplinary:manage' }
 );
 
 /**
  * DELETE /api/disciplinary-matters/[id]
  * Deletes a disciplinary matter (admin only)
  */
-export const DELETE = withAuth(
+export const DELETE = withPermission(
   async (request: NextRequest, { user, params }: any) => {
     try {
       const { id } = params;
@@ -145,6 +164,14 @@ export const DELETE = withAuth(
         return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
       }
 
+      const existing = await getDisciplinaryMatterById(id);
+      if (!(await isPilotInScope(existing.pilot_id, createUserDataScope(user)))) {
+        return NextResponse.json(
+          { success: false, error: 'Disciplinary matter not found' },
+          { status: 404 }
+        );
+      }
+
       await deleteDisciplinaryMatter(id, user.id);
 
       return NextResponse.json({
@@ -159,5 +186,5 @@ export const DELETE = withAuth(
       );
     }
   },
-  { roles: ['admin'] }
+  { permission: 'disciplinary:delete' }
 );
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Regulatory Notification Register API Routes
+ * Matters that must be reported to a regulator and whether they were reported
+ * on time, and recording a notification made.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getRegulatoryRegister, updateDisciplinaryMatter } from '@/lib/disciplinary-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const notificationSchema = z.object({
+  id: z.string().uuid('Invalid matter ID'),
+  regulatory_body: z.string().min(1, 'Regulatory body is required').max(100),
+  notification_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Notification date must be in YYYY-MM-DD format'),
+});
+
+/**
+ * GET /api/disciplinary-matters/regulatory-register
+ * @auth Required - disciplinary:read permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      return NextResponse.json({ success: true, data: await getRegulatoryRegister() });
+    } catch (error) {
+      logger.error('Error in GET /api/disciplinary-matters/regulatory-register:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch regulatory register' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'disciplinary:read' }
+);
+
+/**
+ * POST /api/disciplinary-matters/regulatory-register
+ * Records the regulator notification of a matter
+ * Body: { id, regulatory_body, notification_date }
+ * @auth Required - disciplinary:manage permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(notificationSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...notification } = validation.data;
+      const matter = await updateDisciplinaryMatter(id, notification, user.id, user.role);
+
+      return NextResponse.json({ success: true, data: matter });
+    } catch (error) {
+      logger.error('Error in POST /api/disciplinary-matters/regulatory-register:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to record regulatory notification' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'disciplinary:manage' }
+);
@@ -8,10 +8,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth } from '@/middleware/auth';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { validateRequest } from '@/lib/validation-schemas';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { isPilotInScope } from '@/lib/data-scope-service';
 import {
   getDisciplinaryMatters,
   createDisciplinaryMatter,
@@ -64,7 +65,7 @@ const createDisciplinaryMatterSchema = z.object({
  * GET /api/disciplinary-matters
  * Retrieves disciplinary matters with optional filters
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (request: NextRequest, { user }: any) => {
     try {
       const { searchParams } = new URL(request.url);
@@ -80,6 +81,7 @@ export const GET = withAuth(
           start_date,
           end_date,
           pilot_id,
+          scope: createUserDataScope(user),
         });
 
         return NextResponse.json({
@@ -94,6 +96,7 @@ export const GET = withAuth(
         status: searchParams.get('status') || undefined,
         severity: searchParams.get('severity') || undefined,
         assigned_to: searchParams.get('assigned_to') || undefined,
+        scope: createUserDataScope(user),
       };
 
       const matters = await getDisciplinaryMatters(filters);
@@ -113,14 +116,14 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'disciplinary:read' }
 );
 
 /**
  * POST /api/disciplinary-matters
  * Creates a new disciplinary matter
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (request: NextRequest, { user }: any) => {
     try {
       const body = await request.json();
@@ -138,6 +141,10 @@ export const POST = withAuth(
         );
       }
 
+      if (!(await isPilotInScope(validation.data.pilot_id, createUserDataScope(user)))) {
+        return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
+      }
+
       // Create disciplinary matter with user context for audit trail
       const matter = await createDisciplinaryMatter(validation.data, user.id);
 
@@ -159,5 +166,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'disciplinary:manage' }
 );
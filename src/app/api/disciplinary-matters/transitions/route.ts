@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Disciplinary Transitions API Route
+ * Moves a disciplinary matter or action to another status as allowed by the
+ * workflow for the user's role.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import {
+  updateDisciplinaryActionStatus,
+  updateDisciplinaryMatter,
+} from '@/lib/disciplinary-service';
+import { ACTION_STATUSES, MATTER_STATUSES } from '@/lib/disciplinary-workflow';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+const transitionSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('matter'),
+    id: z.string().uuid('Invalid matter ID'),
+    status: z.enum(MATTER_STATUSES),
+    fields: z
+      .object({
+        assigned_to: z.string().uuid().optional(),
+        due_date: date.optional(),
+        corrective_actions: z.string().optional(),
+        resolution_notes: z.string().optional(),
+        impact_on_operations: z.string().optional(),
+        regulatory_body: z.string().max(100).optional(),
+        notification_date: date.optional(),
+      })
+      .optional(),
+  }),
+  z.object({
+    kind: z.literal('action'),
+    id: z.string().uuid('Invalid action ID'),
+    status: z.enum(ACTION_STATUSES),
+    fields: z
+      .object({
+        effective_date: date.optional(),
+        expiry_date: date.optional(),
+        acknowledgment_date: date.optional(),
+        appeal_deadline: date.optional(),
+      })
+      .optional(),
+  }),
+]);
+
+/**
+ * POST /api/disciplinary-matters/transitions
+ * Body: { kind: 'matter' | 'action', id, status, fields? }
+ * @auth Required - disciplinary:manage permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(transitionSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const input = validation.data;
+      const data =
+        input.kind === 'matter'
+          ? await updateDisciplinaryMatter(
+              input.id,
+              { ...input.fields, status: input.status },
+              user.id,
+              user.role
+            )
+          : await updateDisciplinaryActionStatus(
+              input.id,
+              input.status,
+              input.fields || {},
+              user.id,
+              user.role
+            );
+
+      return NextResponse.json({ success: true, data });
+    } catch (error) {
+      logger.error('Error in POST /api/disciplinary-matters/transitions:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to change status',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'disciplinary:manage' }
+);
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Disciplinary Workflow API Routes
+ * Status transitions per role, required fields per transition, the regulatory
+ * reporting window and deadline reminder days.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getDisciplinaryWorkflow, updateDisciplinaryWorkflow } from '@/lib/disciplinary-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const transitionRuleSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  roles: z.array(z.enum(['admin', 'manager'])),
+  required_fields: z.array(z.string()),
+  regulatory_fields: z.array(z.string()).optional(),
+  within_appeal_deadline: z.boolean().optional(),
+});
+
+const workflowSchema = z.object({
+  matter_transitions: z.array(transitionRuleSchema).max(50),
+  action_transitions: z.array(transitionRuleSchema).max(50),
+  regulatory_reporting_days: z.number().int().min(0).max(365),
+  reminder_days: z.array(z.number().int().min(1).max(90)).max(10),
+});
+
+/**
+ * GET /api/disciplinary-matters/workflow
+ * @auth Required - disciplinary:read permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      return NextResponse.json({ success: true, data: await getDisciplinaryWorkflow() });
+    } catch (error) {
+      logger.error('Error in GET /api/disciplinary-matters/workflow:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch disciplinary workflow' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'disciplinary:read' }
+);
+
+/**
+ * PUT /api/disciplinary-matters/workflow
+ * Replaces the workflow settings; unknown statuses and fields are dropped
+ * @auth Required - system:settings permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(workflowSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: await updateDisciplinaryWorkflow(validation.data),
+      });
+    } catch (error) {
+      logger.error('Error in PUT /api/disciplinary-matters/workflow:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update disciplinary workflow' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import {
   getDocuments,
   getDocumentCategories,
@@ -13,108 +14,149 @@ import {
   getDocumentStatistics,
   logDocumentAccess,
 } from '@/lib/document-service';
+import { isPilotInScope, isRecordInScope } from '@/lib/data-scope-service';
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const action = searchParams.get('action');
+const documentNotFound = () =>
+  NextResponse.json({ success: false, error: 'Document not found' }, { status: 404 });
 
-    // Get document categories
-    if (action === 'categories') {
-      const categories = await getDocumentCategories();
-      return NextResponse.json({ success: true, data: categories });
-    }
+const pilotNotFound = () =>
+  NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
 
-    // Get statistics
-    if (action === 'statistics') {
-      const stats = await getDocumentStatistics();
-      return NextResponse.json({ success: true, data: stats });
-    }
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const action = searchParams.get('action');
+
+      // Get document categories
+      if (action === 'categories') {
+        const categories = await getDocumentCategories();
+        return NextResponse.json({ success: true, data: categories });
+      }
+
+      // Get statistics
+      if (action === 'statistics') {
+        const stats = await getDocumentStatistics();
+        return NextResponse.json({ success: true, data: stats });
+      }
+
+      // Get documents with filters
+      const filters = {
+        category_id: searchParams.get('category_id') || undefined,
+        pilot_id: searchParams.get('pilot_id') || undefined,
+        status: searchParams.get('status') || undefined,
+        uploaded_by: searchParams.get('uploaded_by') || undefined,
+        scope: createUserDataScope(user),
+      };
 
-    // Get documents with filters
-    const filters = {
-      category_id: searchParams.get('category_id') || undefined,
-      pilot_id: searchParams.get('pilot_id') || undefined,
-      status: searchParams.get('status') || undefined,
-      uploaded_by: searchParams.get('uploaded_by') || undefined,
-    };
-
-    const documents = await getDocuments(filters);
-    return NextResponse.json({ success: true, data: documents });
-  } catch (error: any) {
-    console.error('[API] Error in GET /api/documents:', error);
-    return NextResponse.json(
-      { success: false, error: error.message || 'Failed to fetch documents' },
-      { status: 500 }
-    );
-  }
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { action, ...data } = body;
-
-    // Log document access
-    if (action === 'log_access') {
-      await logDocumentAccess(data);
-      return NextResponse.json({ success: true });
+      const documents = await getDocuments(filters);
+      return NextResponse.json({ success: true, data: documents });
+    } catch (error: any) {
+      console.error('[API] Error in GET /api/documents:', error);
+      return NextResponse.json(
+        { success: false, error: error.message || 'Failed to fetch documents' },
+        { status: 500 }
+      );
     }
+  },
+  { permission: 'documents:read' }
+);
+
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const { action, ...data } = body;
+
+      // Log document access
+      if (action === 'log_access') {
+        await logDocumentAccess(data);
+        return NextResponse.json({ success: true });
+      }
+
+      // Company documents without a pilot are outside any data scope
+      if (data.pilot_id && !(await isPilotInScope(data.pilot_id, createUserDataScope(user)))) {
+        return pilotNotFound();
+      }
 
-    // Create new document
-    const document = await createDocument(data);
-    return NextResponse.json({ success: true, data: document }, { status: 201 });
-  } catch (error: any) {
-    console.error('[API] Error in POST /api/documents:', error);
-    return NextResponse.json(
-      { success: false, error: error.message || 'Failed to create document' },
-      { status: 500 }
-    );
-  }
-}
-
-export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { id, ...updates } = body;
-
-    if (!id) {
+      // Create new document
+      const document = await createDocument(data);
+      return NextResponse.json({ success: true, data: document }, { status: 201 });
+    } catch (error: any) {
+      console.error('[API] Error in POST /api/documents:', error);
       return NextResponse.json(
-        { success: false, error: 'Document ID is required' },
-        { status: 400 }
+        { success: false, error: error.message || 'Failed to create document' },
+        { status: 500 }
       );
     }
+  },
+  { permission: 'documents:manage' }
+);
 
-    const document = await updateDocument(id, updates);
-    return NextResponse.json({ success: true, data: document });
-  } catch (error: any) {
-    console.error('[API] Error in PUT /api/documents:', error);
-    return NextResponse.json(
-      { success: false, error: error.message || 'Failed to update document' },
-      { status: 500 }
-    );
-  }
-}
-
-export async function DELETE(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const id = searchParams.get('id');
-
-    if (!id) {
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const { id, ...updates } = body;
+
+      if (!id) {
+        return NextResponse.json(
+          { success: false, error: 'Document ID is required' },
+          { status: 400 }
+        );
+      }
+
+      const scope = createUserDataScope(user);
+      if (!(await isRecordInScope('documents', id, scope, { includeUnassigned: true }))) {
+        return documentNotFound();
+      }
+      if (updates.pilot_id && !(await isPilotInScope(updates.pilot_id, scope))) {
+        return pilotNotFound();
+      }
+
+      const document = await updateDocument(id, updates);
+      return NextResponse.json({ success: true, data: document });
+    } catch (error: any) {
+      console.error('[API] Error in PUT /api/documents:', error);
       return NextResponse.json(
-        { success: false, error: 'Document ID is required' },
-        { status: 400 }
+        { success: false, error: error.message || 'Failed to update document' },
+        { status: 500 }
       );
     }
+  },
+  { permission: 'documents:manage' }
+);
+
+export const DELETE = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const id = searchParams.get('id');
+
+      if (!id) {
+        return NextResponse.json(
+          { success: false, error: 'Document ID is required' },
+          { status: 400 }
+        );
+      }
 
-    const document = await deleteDocument(id);
-    return NextResponse.json({ success: true, data: document });
-  } catch (error: any) {
-    console.error('[API] Error in DELETE /api/documents:', error);
-    return NextResponse.json(
-      { success: false, error: error.message || 'Failed to delete document' },
-      { status: 500 }
-    );
-  }
-}
+      if (
+        !(await isRecordInScope('documents', id, createUserDataScope(user), {
+          includeUnassigned: true,
+        }))
+      ) {
+        return documentNotFound();
+      }
+
+      const document = await deleteDocument(id);
+      return NextResponse.json({ success: true, data: document });
+    } catch (error: any) {
+      console.error('[API] Error in DELETE /api/documents:', error);
+      return NextResponse.json(
+        { success: false, error: error.message || 'Failed to delete document' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'documents:delete' }
+);
@@ -1,32 +1,40 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { getExpiringCertifications } from '@/lib/expiring-certifications-service';
 import { logger } from '@/lib/logger';
 
 // Mark this route as dynamic
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const daysAhead = parseInt(searchParams.get('daysAhead') || '60');
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const daysAhead = parseInt(searchParams.get('daysAhead') || '60');
 
-    logger.debug(
-      '🔍 API /expiring-certifications: Fetching certifications expiring in next',
-      daysAhead,
-      'days'
-    );
+      logger.debug(
+        '🔍 API /expiring-certifications: Fetching certifications expiring in next',
+        daysAhead,
+        'days'
+      );
 
-    // Use the service function to get expiring certifications
-    const result = await getExpiringCertifications(daysAhead);
+      // Use the service function to get expiring certifications
+      const result = await getExpiringCertifications(daysAhead, createUserDataScope(user));
 
-    logger.debug(' API /expiring-certifications: Found', result.length, 'expiring certifications');
+      logger.debug(
+        ' API /expiring-certifications: Found',
+        result.length,
+        'expiring certifications'
+      );
 
-    return NextResponse.json({
-      success: true,
-      data: result,
-    });
-  } catch (error) {
-    logger.error(' API /expiring-certifications: Fatal error:', error);
-    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+      return NextResponse.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      logger.error(' API /expiring-certifications: Fatal error:', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+    }
+  },
+  { permission: 'certification:read' }
+);
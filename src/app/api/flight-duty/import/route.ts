@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Flight Duty Import API Route
+ * Imports a flight/duty log CSV (one row per sector). Run with dryRun first to see
+ * what would be imported and any per-line errors.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { importDutyLog } from '@/lib/flight-duty-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const importSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required').max(5_000_000),
+  dryRun: z.boolean().default(true),
+});
+
+/**
+ * POST /api/flight-duty/import
+ * @auth Required - pilot:update permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(importSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const result = await importDutyLog(validation.data.csv, {
+        dryRun: validation.data.dryRun,
+        createdBy: user.id,
+      });
+
+      return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('Error in POST /api/flight-duty/import:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to import duty log',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:update' }
+);
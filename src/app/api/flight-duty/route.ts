@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Flight Duty API Routes
+ * Flight and duty time log, per-pilot flight time limitation totals, the watchlist of
+ * pilots approaching limits and the limitations check for a flight request.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  checkFlightRequestFtl,
+  createDutyPeriod,
+  deleteDutyPeriod,
+  getDutyLog,
+  getFtlWatchlist,
+  getPilotFtlStatus,
+} from '@/lib/flight-duty-service';
+import { getFlightRequestById } from '@/lib/flight-request-service';
+import { DUTY_TYPES } from '@/lib/flight-duty-import';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const dateTime = z.string().datetime({ offset: true });
+
+const dutySchema = z.object({
+  pilot_id: z.string().uuid('Invalid pilot ID'),
+  duty_start: dateTime,
+  duty_end: dateTime,
+  duty_type: z.enum(DUTY_TYPES).default('FLIGHT'),
+  notes: z.string().max(2000).optional(),
+  sectors: z
+    .array(
+      z.object({
+        flight_number: z.string().max(20).optional(),
+        departure_airport: z.string().max(10).optional(),
+        arrival_airport: z.string().max(10).optional(),
+        block_off: dateTime,
+        block_on: dateTime,
+        takeoffs: z.number().int().min(0).max(10).optional(),
+        landings: z.number().int().min(0).max(10).optional(),
+      })
+    )
+    .default([]),
+});
+
+/**
+ * GET /api/flight-duty
+ * - ?view=watchlist: pilots at or above the warning threshold of any limit
+ * - ?flightRequestId=: limitations check for approving a flight request
+ * - ?pilotId=&view=status: a pilot's rolling totals
+ * - otherwise the duty log, filtered by pilotId, from, to, limit (default 100)
+ * @auth Required - pilot:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const view = searchParams.get('view');
+      const pilotId = searchParams.get('pilotId') || undefined;
+      const flightRequestId = searchParams.get('flightRequestId');
+
+      if (
+        (pilotId && !isValidUUID(pilotId)) ||
+        (flightRequestId && !isValidUUID(flightRequestId))
+      ) {
+        return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+      }
+
+      if (view === 'watchlist') {
+        return NextResponse.json({ success: true, data: await getFtlWatchlist() });
+      }
+
+      if (flightRequestId) {
+        const flightRequest = await getFlightRequestById(flightRequestId);
+        if (!flightRequest) {
+          return NextResponse.json(
+            { success: false, error: 'Flight request not found' },
+            { status: 404 }
+          );
+        }
+        return NextResponse.json({
+          success: true,
+          data: await checkFlightRequestFtl(flightRequest),
+        });
+      }
+
+      if (view === 'status') {
+        if (!pilotId) {
+          return NextResponse.json(
+            { success: false, error: 'pilotId is required' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await getPilotFtlStatus(pilotId) });
+      }
+
+      const limit = parseInt(searchParams.get('limit') || '100', 10);
+      const duties = await getDutyLog({
+        pilotId,
+        from: searchParams.get('from') || undefined,
+        to: searchParams.get('to') || undefined,
+        limit: Number.isNaN(limit) ? 100 : Math.min(Math.max(limit, 1), 1000),
+      });
+
+      return NextResponse.json({ success: true, data: duties });
+    } catch (error) {
+      logger.error('Error in GET /api/flight-duty:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch flight duty data' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:read' }
+);
+
+/**
+ * POST /api/flight-duty
+ * Logs a duty period with its sectors; the response includes the limitations assessment
+ * @auth Required - pilot:update permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(dutySchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { duty, assessment } = await createDutyPeriod(validation.data, user.id);
+
+      return NextResponse.json({ success: true, data: duty, assessment }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/flight-duty:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to log duty period',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:update' }
+);
+
+/**
+ * DELETE /api/flight-duty?id=
+ * @auth Required - pilot:update permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const id = request.nextUrl.searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json(
+          { success: false, error: 'A valid duty period id is required' },
+          { status: 400 }
+        );
+      }
+
+      await deleteDutyPeriod(id);
+
+      return NextResponse.json({ success: true, message: 'Duty period deleted' });
+    } catch (error) {
+      logger.error('Error in DELETE /api/flight-duty:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete duty period' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:update' }
+);
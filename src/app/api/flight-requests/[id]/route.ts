@@ -10,7 +10,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateRequest } from '@/lib/validation-schemas';
 import { z } from 'zod';
-import { withAuth } from '@/middleware/auth';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
+import { isPilotInScope, isRecordInScope } from '@/lib/data-scope-service';
 import {
   getFlightRequestById,
   updateFlightRequest,
@@ -18,6 +19,7 @@ import {
   approveFlightRequest,
   rejectFlightRequest,
   cancelFlightRequest,
+  FlightRequestApprovalError,
   type UpdateFlightRequestData,
 } from '@/lib/flight-request-service';
 import { logger } from '@/lib/logger';
@@ -45,10 +47,17 @@ const updateFlightRequestSchema = z.object({
   arrival_airport: z.string().max(10).optional(),
   departure_date: z.string().optional(),
   return_date: z.string().optional(),
-  priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT']).optional(),
-  status: z
-    .enum(['PENDING', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'COMPLETED', 'CANCELLED'])
+  planned_duty_start: z.string().datetime({ offset: true }).optional(),
+  planned_duty_end: z.string().datetime({ offset: true }).optional(),
+  planned_block_minutes: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 60)
     .optional(),
+  priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT']).optional(),
+  // Approval is only through action 'approve', which checks qualifications and FTL
+  status: z.enum(['PENDING', 'UNDER_REVIEW', 'REJECTED', 'COMPLETED', 'CANCELLED']).optional(),
   reason: z.string().optional(),
   notes: z.string().optional(),
   attachments: z.array(z.any()).optional(),
@@ -62,16 +71,19 @@ const updateFlightRequestSchema = z.object({
 /**
  * GET /api/flight-requests/[id]
  * Get a single flight request by ID
- * @auth Required - Admin, Manager, or request creator
+ * @auth Required - flight_requests:read permission
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (request: NextRequest, { user, params }: any) => {
     try {
       const { id } = params;
 
       const flightRequest = await getFlightRequestById(id);
 
-      if (!flightRequest) {
+      if (
+        !flightRequest ||
+        !(await isPilotInScope(flightRequest.pilot_id, createUserDataScope(user)))
+      ) {
         return NextResponse.json(
           {
             success: false,
@@ -113,15 +125,15 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'flight_requests:read' }
 );
 
 /**
  * PATCH /api/flight-requests/[id]
  * Update a flight request or perform status actions
- * @auth Required - Admin, Manager roles
+ * @auth Required - flight_requests:review permission
  */
-export const PATCH = withAuth(
+export const PATCH = withPermission(
   async (request: NextRequest, { user, params }: any) => {
     try {
       const { id } = params;
@@ -140,6 +152,16 @@ export const PATCH = withAuth(
         );
       }
 
+      if (!(await isRecordInScope('flight_requests', id, createUserDataScope(user)))) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Flight request not found',
+          },
+          { status: 404 }
+        );
+      }
+
       const { action, review_notes, cancellation_reason, ...updateData } = validation.data;
 
       let updatedRequest;
@@ -189,23 +211,33 @@ export const PATCH = withAuth(
           success: false,
           error: error.message || 'Failed to update flight request',
         },
-        { status: 500 }
+        { status: error instanceof FlightRequestApprovalError ? 422 : 500 }
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'flight_requests:review' }
 );
 
 /**
  * DELETE /api/flight-requests/[id]
  * Delete a flight request (admin only)
- * @auth Required - Admin role only
+ * @auth Required - flight_requests:delete permission
  */
-export const DELETE = withAuth(
+export const DELETE = withPermission(
   async (request: NextRequest, { user, params }: any) => {
     try {
       const { id } = params;
 
+      if (!(await isRecordInScope('flight_requests', id, createUserDataScope(user)))) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Flight request not found',
+          },
+          { status: 404 }
+        );
+      }
+
       await deleteFlightRequest(id);
 
       return NextResponse.json({
@@ -223,5 +255,5 @@ export const DELETE = withAuth(
       );
     }
   },
-  { roles: ['admin'] }
+  { permission: 'flight_requests:delete' }
 );
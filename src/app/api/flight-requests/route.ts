@@ -10,7 +10,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateRequest } from '@/lib/validation-schemas';
 import { z } from 'zod';
-import { withAuth } from '@/middleware/auth';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
+import { isPilotInScope } from '@/lib/data-scope-service';
 import {
   getFlightRequests,
   createFlightRequest,
@@ -42,6 +43,14 @@ const createFlightRequestSchema = z.object({
   arrival_airport: z.string().max(10).optional(),
   departure_date: z.string().optional(),
   return_date: z.string().optional(),
+  planned_duty_start: z.string().datetime({ offset: true }).optional(),
+  planned_duty_end: z.string().datetime({ offset: true }).optional(),
+  planned_block_minutes: z
+    .number()
+    .int()
+    .min(0)
+    .max(24 * 60)
+    .optional(),
   priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT']).optional(),
   reason: z.string().optional(),
   notes: z.string().optional(),
@@ -52,9 +61,9 @@ const createFlightRequestSchema = z.object({
 /**
  * GET /api/flight-requests
  * Retrieves flight requests with optional filters
- * @auth Required - Admin and Manager roles only
+ * @auth Required - flight_requests:read permission
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (request: NextRequest, { user }) => {
     try {
       const { searchParams } = new URL(request.url);
@@ -70,6 +79,7 @@ export const GET = withAuth(
           pilot_id,
           date_from,
           date_to,
+          scope: createUserDataScope(user),
         });
 
         return NextResponse.json({
@@ -87,6 +97,7 @@ export const GET = withAuth(
         created_by: searchParams.get('created_by') || undefined,
         departure_date_from: searchParams.get('departure_date_from') || undefined,
         departure_date_to: searchParams.get('departure_date_to') || undefined,
+        scope: createUserDataScope(user),
       };
 
       const requests = await getFlightRequests(filters);
@@ -106,15 +117,15 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'flight_requests:read' }
 );
 
 /**
  * POST /api/flight-requests
  * Creates a new flight request
- * @auth Required - Admin and Manager roles only
+ * @auth Required - flight_requests:review permission
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (request: NextRequest, { user }) => {
     try {
       const body = await request.json();
@@ -132,6 +143,10 @@ export const POST = withAuth(
         );
       }
 
+      if (!(await isPilotInScope(validation.data.pilot_id, createUserDataScope(user)))) {
+        return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
+      }
+
       // Create flight request with authenticated user context
       const flightRequest = await createFlightRequest(
         validation.data as CreateFlightRequestData,
@@ -156,5 +171,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'flight_requests:review' }
 );
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Form Submission Approvals API Route
+ * Approves or rejects the approval step a form submission is waiting for.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { decideFormSubmission } from '@/lib/document-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const decisionSchema = z.object({
+  id: z.string().uuid('Invalid submission ID'),
+  decision: z.enum(['approved', 'rejected']),
+  comment: z.string().max(1000).nullable().optional(),
+});
+
+/**
+ * POST /api/forms/approvals
+ * Body: { id, decision: 'approved' | 'rejected', comment? }
+ * @auth Required - forms:approve permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(decisionSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, decision, comment } = validation.data;
+      const submission = await decideFormSubmission(id, decision, user.id, user.role, comment);
+
+      return NextResponse.json({ success: true, data: submission });
+    } catch (error) {
+      logger.error('Error in POST /api/forms/approvals:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to record decision',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'forms:approve' }
+);
@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Digital Form Definitions API Route
+ * Form builder: lists every form including inactive ones, creates forms and
+ * updates their fields, approval chain, submitting roles and active state.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { createDigitalForm, getDigitalForms, updateDigitalForm } from '@/lib/document-service';
+import {
+  APPROVER_ROLES,
+  CONDITION_OPERATORS,
+  FORM_FIELD_TYPES,
+  PILOT_AUTOFILL_SOURCES,
+  normalizeFormSchema,
+  validateFormDefinition,
+  type FormSchema,
+} from '@/lib/form-schema';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const fieldSchema = z.object({
+  name: z.string().min(1).max(50),
+  type: z.enum(FORM_FIELD_TYPES),
+  label: z.string().max(200),
+  required: z.boolean(),
+  options: z.array(z.string().min(1).max(200)).max(50).optional(),
+  placeholder: z.string().max(200).optional(),
+  help_text: z.string().max(500).optional(),
+  validation: z
+    .object({
+      min: z.number().optional(),
+      max: z.number().optional(),
+      min_length: z.number().int().min(0).optional(),
+      max_length: z.number().int().min(1).optional(),
+      pattern: z.string().max(200).optional(),
+      pattern_message: z.string().max(200).optional(),
+    })
+    .optional(),
+  visible_when: z
+    .array(
+      z.object({
+        field: z.string().min(1),
+        operator: z.enum(CONDITION_OPERATORS),
+        value: z.union([z.string(), z.array(z.string())]).optional(),
+      })
+    )
+    .max(10)
+    .optional(),
+  autofill: z
+    .enum(Object.keys(PILOT_AUTOFILL_SOURCES) as [keyof typeof PILOT_AUTOFILL_SOURCES])
+    .optional(),
+});
+
+const formDefinitionSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200),
+  description: z.string().max(1000).nullable().optional(),
+  form_schema: z.object({
+    fields: z.array(fieldSchema).max(100),
+    approval_steps: z
+      .array(z.object({ name: z.string().max(100), roles: z.array(z.enum(APPROVER_ROLES)) }))
+      .max(10),
+  }),
+  requires_approval: z.boolean(),
+  allowed_roles: z.array(z.string().min(1)).max(10),
+  is_active: z.boolean().optional(),
+});
+
+const createFormSchema = formDefinitionSchema.extend({
+  form_type: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]*$/, 'Form type must use lowercase letters, numbers and underscores')
+    .max(50),
+});
+
+const updateFormSchema = formDefinitionSchema.partial().extend({
+  id: z.string().uuid('Invalid form ID'),
+});
+
+/**
+ * Reject definitions the builder should not save
+ */
+function invalidDefinition(form_schema: FormSchema) {
+  const errors = validateFormDefinition(form_schema);
+  return errors.length > 0
+    ? NextResponse.json(
+        { success: false, error: 'Invalid form definition', details: errors },
+        { status: 400 }
+      )
+    : null;
+}
+
+/**
+ * GET /api/forms/definitions
+ * @auth Required - forms:read permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      return NextResponse.json({ success: true, data: await getDigitalForms(true) });
+    } catch (error) {
+      logger.error('Error in GET /api/forms/definitions:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch form definitions' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'forms:read' }
+);
+
+/**
+ * POST /api/forms/definitions
+ * @auth Required - forms:manage permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(createFormSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const invalid = invalidDefinition(validation.data.form_schema);
+      if (invalid) return invalid;
+
+      const form = await createDigitalForm(
+        {
+          ...validation.data,
+          form_schema: normalizeFormSchema(validation.data.form_schema),
+        },
+        user.id
+      );
+      return NextResponse.json({ success: true, data: form }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/forms/definitions:', error);
+      return NextResponse.json({ success: false, error: 'Failed to create form' }, { status: 500 });
+    }
+  },
+  { permission: 'forms:manage' }
+);
+
+/**
+ * PUT /api/forms/definitions
+ * Body: { id, ...changes }
+ * @auth Required - forms:manage permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateFormSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, form_schema, ...changes } = validation.data;
+      if (form_schema) {
+        const invalid = invalidDefinition(form_schema);
+        if (invalid) return invalid;
+      }
+
+      const form = await updateDigitalForm(id, {
+        ...changes,
+        ...(form_schema ? { form_schema: normalizeFormSchema(form_schema) } : {}),
+      });
+      return NextResponse.json({ success: true, data: form });
+    } catch (error) {
+      logger.error('Error in PUT /api/forms/definitions:', error);
+      return NextResponse.json({ success: false, error: 'Failed to update form' }, { status: 500 });
+    }
+  },
+  { permission: 'forms:manage' }
+);
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Form Submission PDF API Route
+ * Downloads a submitted digital form as PDF.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { renderToBuffer } from '@react-pdf/renderer';
+import { withPermission } from '@/middleware/auth';
+import { isValidUUID } from '@/lib/validation-schemas';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { getFormSubmissionById } from '@/lib/document-service';
+import type { ApprovalRecord } from '@/lib/form-schema';
+import {
+  createFormSubmissionDocument,
+  generateFormSubmissionFilename,
+} from '@/lib/pdf-form-submission';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/forms/pdf?id=<submission id>
+ * @auth Required - forms:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const id = request.nextUrl.searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json(
+          { success: false, error: 'A valid submission ID is required' },
+          { status: 400 }
+        );
+      }
+
+      const submission = await getFormSubmissionById(id);
+      if (!submission.form) {
+        return NextResponse.json(
+          { success: false, error: 'The form for this submission no longer exists' },
+          { status: 404 }
+        );
+      }
+
+      const history: ApprovalRecord[] = submission.approval_history || [];
+      const approverIds = [...new Set(history.map((record) => record.by))];
+      const approvers: Record<string, string> = {};
+
+      if (approverIds.length > 0) {
+        const { data: users } = await getSupabaseAdmin()
+          .from('an_users')
+          .select('id, name')
+          .in('id', approverIds);
+        for (const approver of users || []) approvers[approver.id] = approver.name;
+      }
+
+      const pdfBuffer = await renderToBuffer(
+        createFormSubmissionDocument({
+          form: submission.form,
+          submission: { ...submission, approval_history: history },
+          pilot: submission.pilot,
+          submittedBy: submission.submitter?.name || null,
+          approvers,
+          generatedBy: user.name || user.email,
+          generatedAt: new Date(),
+        })
+      );
+      const filename = generateFormSubmissionFilename(submission.form, submission.id);
+
+      return new NextResponse(new Uint8Array(pdfBuffer), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Content-Length': pdfBuffer.length.toString(),
+        },
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/forms/pdf:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to generate form PDF' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'forms:read' }
+);
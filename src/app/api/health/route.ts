@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { systemMonitoring } from '@/lib/system-monitoring';
 
@@ -15,34 +16,37 @@ export const runtime = 'nodejs';
 /**
  * GET /api/health - Basic health check
  */
-export async function GET(request: NextRequest) {
-  try {
-    const url = new URL(request.url);
-    const check = url.searchParams.get('check') || 'basic';
-
-    switch (check) {
-      case 'basic':
-        return await basicHealthCheck();
-      case 'readiness':
-        return await readinessCheck();
-      case 'liveness':
-        return await livenessCheck();
-      case 'detailed':
-        return await detailedHealthCheck();
-      default:
-        return await basicHealthCheck();
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const check = url.searchParams.get('check') || 'basic';
+
+      switch (check) {
+        case 'basic':
+          return await basicHealthCheck();
+        case 'readiness':
+          return await readinessCheck();
+        case 'liveness':
+          return await livenessCheck();
+        case 'detailed':
+          return await detailedHealthCheck();
+        default:
+          return await basicHealthCheck();
+      }
+    } catch (error: any) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        },
+        { status: 500 }
+      );
     }
-  } catch (error: any) {
-    return NextResponse.json(
-      {
-        status: 'error',
-        error: error.message,
-        timestamp: new Date().toISOString(),
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'public' }
+);
 
 /**
  * Basic health check - returns 200 if service is running
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Leave Bid Allocation API Routes
+ * Runs the seniority-based leave bid allocation for a roster period (preview or commit),
+ * returns the stored award report and locks individual awards for later re-runs.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import {
+  getLeaveBidAwards,
+  runLeaveBidAllocation,
+  setLeaveBidAwardLock,
+} from '@/lib/leave-bid-allocation-service';
+import { isRecordInScope } from '@/lib/data-scope-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const allocationSchema = z.object({
+  rosterPeriod: z.string().min(1, 'Roster period is required'),
+  commit: z.boolean().default(false),
+});
+
+const lockSchema = z.object({
+  bidId: z.string().uuid('Invalid bid ID'),
+  locked: z.boolean(),
+});
+
+/**
+ * GET /api/leave-bids/allocate?rosterPeriod=RP12/2026
+ * Stored awards of a roster period
+ * @auth Required - leave:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const rosterPeriod = new URL(request.url).searchParams.get('rosterPeriod');
+      if (!rosterPeriod) {
+        return NextResponse.json(
+          { success: false, error: 'rosterPeriod is required' },
+          { status: 400 }
+        );
+      }
+
+      const awards = await getLeaveBidAwards(rosterPeriod, createUserDataScope(user));
+
+      return NextResponse.json({ success: true, data: awards });
+    } catch (error) {
+      logger.error('Error in GET /api/leave-bids/allocate:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch leave bid awards' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:read' }
+);
+
+/**
+ * POST /api/leave-bids/allocate
+ * Allocates the bids of a roster period; with commit=true the awards are saved,
+ * leave requests created and bids approved/rejected. Locked awards are kept.
+ * Allocation ranks every bid of the period, so it needs an unrestricted data scope.
+ * @auth Required - leave:approve permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(allocationSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      if (!createUserDataScope(user).unrestricted) {
+        return NextResponse.json(
+          { success: false, error: 'Allocating leave bids requires access to all pilots' },
+          { status: 403 }
+        );
+      }
+
+      const { rosterPeriod, commit } = validation.data;
+      const result = await runLeaveBidAllocation(rosterPeriod, {
+        commit,
+        allocatedBy: user.id,
+      });
+
+      if (result.committed) {
+        revalidatePath('/dashboard/leave');
+        revalidatePath('/dashboard/leave/roster-planning');
+      }
+
+      return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('Error in POST /api/leave-bids/allocate:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to allocate leave bids',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:approve' }
+);
+
+/**
+ * PATCH /api/leave-bids/allocate
+ * Locks or unlocks the stored award of a bid
+ * @auth Required - leave:approve permission
+ */
+export const PATCH = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(lockSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      if (
+        !(await isRecordInScope('leave_bids', validation.data.bidId, createUserDataScope(user)))
+      ) {
+        return NextResponse.json({ success: false, error: 'Leave bid not found' }, { status: 404 });
+      }
+
+      const award = await setLeaveBidAwardLock(validation.data.bidId, validation.data.locked);
+
+      return NextResponse.json({ success: true, data: award });
+    } catch (error) {
+      logger.error('Error in PATCH /api/leave-bids/allocate:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update leave bid award',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:approve' }
+);
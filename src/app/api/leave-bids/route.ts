@@ -1,285 +1,332 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { bidDeadlineError } from '@/lib/pilot-requests';
+import { notifyLeaveBidStatus } from '@/lib/pilot-request-service';
+import {
+  getScopedPilotIds,
+  isPilotInScope,
+  isRecordInScope,
+  restrictToPilots,
+} from '@/lib/data-scope-service';
 
 /**
  * POST /api/leave-bids
- * Create a new leave bid submission
+ * Create a new leave bid submission; refused after the roster period's bid deadline
  */
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const {
-      pilot_id,
-      roster_period_code,
-      preferred_dates,
-      alternative_dates,
-      priority,
-      reason,
-      notes,
-    } = body;
-
-    // Validate required fields
-    if (!pilot_id || !roster_period_code || !preferred_dates || !priority || !reason) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Missing required fields: pilot_id, roster_period_code, preferred_dates, priority, reason',
-        },
-        { status: 400 }
-      );
-    }
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const {
+        pilot_id,
+        roster_period_code,
+        preferred_dates,
+        alternative_dates,
+        priority,
+        reason,
+        notes,
+      } = body;
 
-    // Validate priority value
-    if (!['HIGH', 'MEDIUM', 'LOW'].includes(priority)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Invalid priority value. Must be HIGH, MEDIUM, or LOW',
-        },
-        { status: 400 }
-      );
-    }
+      // Validate required fields
+      if (!pilot_id || !roster_period_code || !preferred_dates || !priority || !reason) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Missing required fields: pilot_id, roster_period_code, preferred_dates, priority, reason',
+          },
+          { status: 400 }
+        );
+      }
 
-    const supabaseAdmin = getSupabaseAdmin();
+      // Validate priority value
+      if (!['HIGH', 'MEDIUM', 'LOW'].includes(priority)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid priority value. Must be HIGH, MEDIUM, or LOW',
+          },
+          { status: 400 }
+        );
+      }
 
-    // Verify pilot exists
-    const { data: pilot, error: pilotError } = await supabaseAdmin
-      .from('pilots')
-      .select('id, first_name, last_name')
-      .eq('id', pilot_id)
-      .single();
+      // Bids for a roster period close at its bid deadline
+      await loadRosterCalendar();
+      const deadlineError = bidDeadlineError(roster_period_code);
+      if (deadlineError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: deadlineError,
+          },
+          { status: 400 }
+        );
+      }
 
-    if (pilotError || !pilot) {
-      console.error('[ERROR] Pilot not found:', pilotError);
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Pilot not found',
-        },
-        { status: 404 }
-      );
-    }
+      const supabaseAdmin = getSupabaseAdmin();
 
-    // Insert leave bid
-    const { data: leaveBid, error: insertError } = await supabaseAdmin
-      .from('leave_bids')
-      .insert({
-        pilot_id,
-        roster_period_code,
-        preferred_dates,
-        alternative_dates: alternative_dates || null,
+      // Verify pilot exists
+      const { data: pilot, error: pilotError } = await supabaseAdmin
+        .from('pilots')
+        .select('id, first_name, last_name')
+        .eq('id', pilot_id)
+        .single();
+
+      if (pilotError || !pilot || !(await isPilotInScope(pilot.id, createUserDataScope(user)))) {
+        console.error('[ERROR] Pilot not found:', pilotError);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Pilot not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      // Insert leave bid
+      const { data: leaveBid, error: insertError } = await supabaseAdmin
+        .from('leave_bids')
+        .insert({
+          pilot_id,
+          roster_period_code,
+          preferred_dates,
+          alternative_dates: alternative_dates || null,
+          priority,
+          reason,
+          notes: notes || null,
+          status: 'PENDING',
+          submitted_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (insertError) {
+        console.error('[ERROR] Failed to insert leave bid:', insertError);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Failed to create leave bid',
+            details: insertError.message,
+          },
+          { status: 500 }
+        );
+      }
+
+      console.log('[SUCCESS] Leave bid created:', {
+        id: leaveBid.id,
+        pilot: `${pilot.first_name} ${pilot.last_name}`,
+        roster_period: roster_period_code,
         priority,
-        reason,
-        notes: notes || null,
-        status: 'PENDING',
-        submitted_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (insertError) {
-      console.error('[ERROR] Failed to insert leave bid:', insertError);
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: leaveBid,
+        message: 'Leave bid submitted successfully',
+      });
+    } catch (error) {
+      console.error('[ERROR] Leave bid API error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Failed to create leave bid',
-          details: insertError.message,
+          error: 'Internal server error',
+          details: error instanceof Error ? error.message : 'Unknown error',
         },
         { status: 500 }
       );
     }
-
-    console.log('[SUCCESS] Leave bid created:', {
-      id: leaveBid.id,
-      pilot: `${pilot.first_name} ${pilot.last_name}`,
-      roster_period: roster_period_code,
-      priority,
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: leaveBid,
-      message: 'Leave bid submitted successfully',
-    });
-  } catch (error) {
-    console.error('[ERROR] Leave bid API error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { permission: 'leave:create' }
+);
 
 /**
  * GET /api/leave-bids
  * Fetch leave bids with optional filters
  */
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const pilotId = searchParams.get('pilotId');
-    const rosterPeriod = searchParams.get('rosterPeriod');
-    const status = searchParams.get('status');
-
-    const supabaseAdmin = getSupabaseAdmin();
-
-    let query = supabaseAdmin
-      .from('leave_bids')
-      .select(`
-        *,
-        pilots!inner (
-          id,
-          first_name,
-          last_name,
-          employee_id,
-          role,
-          seniority_number
-        ),
-        an_users!leave_bids_reviewed_by_fkey (
-          id,
-          name,
-          email
-        )
-      `)
-      .order('submitted_at', { ascending: false });
-
-    // Apply filters
-    if (pilotId) {
-      query = query.eq('pilot_id', pilotId);
-    }
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const pilotId = searchParams.get('pilotId');
+      const rosterPeriod = searchParams.get('rosterPeriod');
+      const status = searchParams.get('status');
 
-    if (rosterPeriod) {
-      query = query.eq('roster_period_code', rosterPeriod);
-    }
+      const supabaseAdmin = getSupabaseAdmin();
+      const pilotIds = await getScopedPilotIds(createUserDataScope(user));
 
-    if (status) {
-      query = query.eq('status', status);
-    }
+      let query = supabaseAdmin
+        .from('leave_bids')
+        .select(`
+          *,
+          pilots!inner (
+            id,
+            first_name,
+            last_name,
+            employee_id,
+            role,
+            seniority_number
+          ),
+          an_users!leave_bids_reviewed_by_fkey (
+            id,
+            name,
+            email
+          )
+        `)
+        .order('submitted_at', { ascending: false });
+
+      query = restrictToPilots(query, pilotIds);
+
+      // Apply filters
+      if (pilotId) {
+        query = query.eq('pilot_id', pilotId);
+      }
+
+      if (rosterPeriod) {
+        query = query.eq('roster_period_code', rosterPeriod);
+      }
 
-    const { data: leaveBids, error } = await query;
+      if (status) {
+        query = query.eq('status', status);
+      }
 
-    if (error) {
-      console.error('[ERROR] Failed to fetch leave bids:', error);
+      const { data: leaveBids, error } = await query;
+
+      if (error) {
+        console.error('[ERROR] Failed to fetch leave bids:', error);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Failed to fetch leave bids',
+            details: error.message,
+          },
+          { status: 500 }
+        );
+      }
+
+      console.log('[INFO] Leave bids fetched:', {
+        count: leaveBids?.length || 0,
+        filters: { pilotId, rosterPeriod, status },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: leaveBids || [],
+        count: leaveBids?.length || 0,
+      });
+    } catch (error) {
+      console.error('[ERROR] Leave bids GET API error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Failed to fetch leave bids',
-          details: error.message,
+          error: 'Internal server error',
+          details: error instanceof Error ? error.message : 'Unknown error',
         },
         { status: 500 }
       );
     }
-
-    console.log('[INFO] Leave bids fetched:', {
-      count: leaveBids?.length || 0,
-      filters: { pilotId, rosterPeriod, status },
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: leaveBids || [],
-      count: leaveBids?.length || 0,
-    });
-  } catch (error) {
-    console.error('[ERROR] Leave bids GET API error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { permission: 'leave:read' }
+);
 
 /**
  * PATCH /api/leave-bids
- * Update leave bid status (approve/reject)
+ * Update leave bid status (approve/reject) and notify the pilot in the portal
  * Requires admin or manager role
  */
-export async function PATCH(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { id, status, review_comments, reviewed_by } = body;
+export const PATCH = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const { id, status, review_comments, reviewed_by } = body;
 
-    // Validate required fields
-    if (!id || !status || !reviewed_by) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Missing required fields: id, status, reviewed_by',
-        },
-        { status: 400 }
-      );
-    }
+      // Validate required fields
+      if (!id || !status || !reviewed_by) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Missing required fields: id, status, reviewed_by',
+          },
+          { status: 400 }
+        );
+      }
 
-    // Validate status value
-    if (!['PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN'].includes(status)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Invalid status value. Must be PENDING, APPROVED, REJECTED, or WITHDRAWN',
-        },
-        { status: 400 }
-      );
-    }
+      // Validate status value
+      if (!['PENDING', 'APPROVED', 'REJECTED', 'WITHDRAWN'].includes(status)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Invalid status value. Must be PENDING, APPROVED, REJECTED, or WITHDRAWN',
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!(await isRecordInScope('leave_bids', id, createUserDataScope(user)))) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Leave bid not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      const supabaseAdmin = getSupabaseAdmin();
+
+      // Update leave bid
+      const { data: updatedBid, error: updateError } = await supabaseAdmin
+        .from('leave_bids')
+        .update({
+          status,
+          reviewed_by,
+          reviewed_at: new Date().toISOString(),
+          review_comments: review_comments || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .select(`
+          *,
+          pilots!inner (first_name, last_name)
+        `)
+        .single();
 
-    const supabaseAdmin = getSupabaseAdmin();
+      if (updateError) {
+        console.error('[ERROR] Failed to update leave bid:', updateError);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Failed to update leave bid',
+            details: updateError.message,
+          },
+          { status: 500 }
+        );
+      }
 
-    // Update leave bid
-    const { data: updatedBid, error: updateError } = await supabaseAdmin
-      .from('leave_bids')
-      .update({
+      await notifyLeaveBidStatus(updatedBid);
+
+      console.log('[SUCCESS] Leave bid updated:', {
+        id,
         status,
-        reviewed_by,
-        reviewed_at: new Date().toISOString(),
-        review_comments: review_comments || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .select(`
-        *,
-        pilots!inner (first_name, last_name)
-      `)
-      .single();
-
-    if (updateError) {
-      console.error('[ERROR] Failed to update leave bid:', updateError);
+        pilot: `${updatedBid.pilots.first_name} ${updatedBid.pilots.last_name}`,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: updatedBid,
+        message: `Leave bid ${status.toLowerCase()} successfully`,
+      });
+    } catch (error) {
+      console.error('[ERROR] Leave bid PATCH API error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Failed to update leave bid',
-          details: updateError.message,
+          error: 'Internal server error',
+          details: error instanceof Error ? error.message : 'Unknown error',
         },
         { status: 500 }
       );
     }
-
-    console.log('[SUCCESS] Leave bid updated:', {
-      id,
-      status,
-      pilot: `${updatedBid.pilots.first_name} ${updatedBid.pilots.last_name}`,
-    });
-
-    return NextResponse.json({
-      success: true,
-      data: updatedBid,
-      message: `Leave bid ${status.toLowerCase()} successfully`,
-    });
-  } catch (error) {
-    console.error('[ERROR] Leave bid PATCH API error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { permission: 'leave:approve' }
+);
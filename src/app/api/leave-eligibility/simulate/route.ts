@@ -0,0 +1,111 @@
+/**
+ * LEAVE ELIGIBILITY SIMULATION API ROUTE
+ *
+ * POST /api/leave-eligibility/simulate
+ * "What-if" crew availability for a roster period (or date range) under hypothetical
+ * approvals/denials, new hires, retirements and aircraft count. Nothing is saved.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { simulateLeaveScenario } from '@/lib/leave-eligibility-service';
+import { getRosterPeriodByCode } from '@/lib/roster-utils';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+const rank = z.enum(['Captain', 'First Officer']);
+
+const simulationSchema = z
+  .object({
+    rosterPeriod: z.string().optional(),
+    startDate: dateString.optional(),
+    endDate: dateString.optional(),
+    scenario: z
+      .object({
+        decisions: z.record(z.string(), z.enum(['APPROVED', 'DENIED'])).optional(),
+        pendingCountsAsLeave: z.boolean().optional(),
+        newHires: z
+          .array(z.object({ role: rank, startDate: dateString, count: z.number().int().min(1) }))
+          .optional(),
+        retirements: z
+          .array(z.object({ pilotId: z.string().uuid('Invalid pilot ID'), date: dateString }))
+          .optional(),
+        applyScheduledRetirements: z.boolean().optional(),
+        numberOfAircraft: z.number().int().min(0).max(20).optional(),
+      })
+      .default({}),
+  })
+  .refine((data) => data.rosterPeriod || (data.startDate && data.endDate), {
+    message: 'Provide rosterPeriod or startDate and endDate',
+  });
+
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(simulationSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { rosterPeriod, scenario } = validation.data;
+      let { startDate, endDate } = validation.data;
+
+      if (rosterPeriod) {
+        await loadRosterCalendar();
+        const period = getRosterPeriodByCode(rosterPeriod);
+        if (!period) {
+          return NextResponse.json(
+            { success: false, error: `Unknown roster period: ${rosterPeriod}` },
+            { status: 400 }
+          );
+        }
+        startDate = format(period.startDate, 'yyyy-MM-dd');
+        endDate = format(period.endDate, 'yyyy-MM-dd');
+      }
+
+      if (!startDate || !endDate || startDate > endDate) {
+        return NextResponse.json(
+          { success: false, error: 'startDate must be on or before endDate' },
+          { status: 400 }
+        );
+      }
+
+      logger.debug('API /leave-eligibility/simulate: Running scenario', {
+        rosterPeriod,
+        startDate,
+        endDate,
+        decisions: Object.keys(scenario.decisions || {}).length,
+        newHires: scenario.newHires?.length || 0,
+        retirements: scenario.retirements?.length || 0,
+        numberOfAircraft: scenario.numberOfAircraft,
+      });
+
+      const result = await simulateLeaveScenario(startDate, endDate, scenario);
+
+      return NextResponse.json({
+        success: true,
+        data: { rosterPeriod: rosterPeriod || null, ...result },
+      });
+    } catch (error) {
+      logger.error('Error simulating leave scenario:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to simulate leave scenario',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:approve' }
+);
@@ -1,43 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
 import { getLeaveRequestsByRosterPeriodAdmin } from '@/lib/leave-service';
+import { getRosterPeriodByCode } from '@/lib/roster-utils';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
 import { logger } from '@/lib/logger';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const rosterPeriod = searchParams.get('period');
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const rosterPeriod = searchParams.get('period');
 
-    if (!rosterPeriod) {
+      if (!rosterPeriod) {
+        return NextResponse.json(
+          { success: false, error: 'Roster period parameter is required' },
+          { status: 400 }
+        );
+      }
+
+      // Period dates come from the configured roster calendar (null for unknown codes)
+      await loadRosterCalendar();
+      const period = getRosterPeriodByCode(rosterPeriod);
+
+      logger.debug(`🔍 API: Fetching leave requests for roster period: ${rosterPeriod}`);
+
+      const requests = await getLeaveRequestsByRosterPeriodAdmin(rosterPeriod);
+
+      logger.debug(`✅ API: Found ${requests.length} leave requests for ${rosterPeriod}`);
+
+      return NextResponse.json({
+        success: true,
+        data: requests,
+        meta: {
+          rosterPeriod,
+          period,
+          count: requests.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Error in roster period API:', error);
       return NextResponse.json(
-        { success: false, error: 'Roster period parameter is required' },
-        { status: 400 }
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch leave requests',
+        },
+        { status: 500 }
       );
     }
-
-    logger.debug(`🔍 API: Fetching leave requests for roster period: ${rosterPeriod}`);
-
-    const requests = await getLeaveRequestsByRosterPeriodAdmin(rosterPeriod);
-
-    logger.debug(`✅ API: Found ${requests.length} leave requests for ${rosterPeriod}`);
-
-    return NextResponse.json({
-      success: true,
-      data: requests,
-      meta: {
-        rosterPeriod,
-        count: requests.length,
-      },
-    });
-  } catch (error) {
-    logger.error('Error in roster period API:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch leave requests',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { permission: 'leave:read' }
+);
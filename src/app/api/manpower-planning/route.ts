@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Manpower Planning API Route
+ * Projects Captains, First Officers, training captains and examiners available against
+ * required month by month for 5-10 years, given planned hires, upgrades and fleet changes.
+ * Nothing is saved.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { format } from 'date-fns';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getManpowerProjection } from '@/lib/manpower-planning-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const monthString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM');
+const rank = z.enum(['Captain', 'First Officer']);
+
+const planSchema = z.object({
+  startMonth: monthString.optional(),
+  years: z.number().int().min(5).max(10).default(5),
+  hires: z
+    .array(
+      z.object({
+        month: monthString,
+        role: rank,
+        count: z.number().int().min(1).max(50),
+        qualifications: z.array(z.enum(['training_captain', 'examiner'])).optional(),
+      })
+    )
+    .default([]),
+  upgrades: z
+    .array(
+      z.object({
+        month: monthString,
+        count: z.number().int().min(1).max(50),
+        pilotIds: z.array(z.string().uuid('Invalid pilot ID')).optional(),
+      })
+    )
+    .default([]),
+  fleetChanges: z
+    .array(z.object({ month: monthString, numberOfAircraft: z.number().int().min(0).max(20) }))
+    .default([]),
+});
+
+/**
+ * POST /api/manpower-planning
+ * @auth Required - analytics:view permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(planSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { startMonth, years, hires, upgrades, fleetChanges } = validation.data;
+
+      const projection = await getManpowerProjection({
+        startMonth: startMonth || format(new Date(), 'yyyy-MM'),
+        months: years * 12,
+        hires,
+        upgrades,
+        fleetChanges,
+      });
+
+      return NextResponse.json({ success: true, data: projection });
+    } catch (error) {
+      logger.error('Error in POST /api/manpower-planning:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to project manpower',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'analytics:view' }
+);
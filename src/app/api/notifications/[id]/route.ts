@@ -0,0 +1,44 @@
+/**
+ * Air Niugini B767 Pilot Management System
+ * API Route: Notification
+ *
+ * DELETE /api/notifications/[id] - Dismiss a notification from the inbox
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withPermission } from '@/middleware/auth';
+import { dismissNotification } from '@/lib/notification-service';
+import { isValidUUID } from '@/lib/validation-schemas';
+import { logger } from '@/lib/logger';
+
+export const DELETE = withPermission(
+  async (_request: NextRequest, { user, params }: any) => {
+    try {
+      const { id } = params;
+
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+      }
+
+      const dismissed = await dismissNotification(user.id, id);
+      if (!dismissed) {
+        return NextResponse.json(
+          { success: false, error: 'Notification not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      logger.error('API Error [DELETE /api/notifications/[id]]:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'profile:manage' }
+);
@@ -0,0 +1,88 @@
+/**
+ * Air Niugini B767 Pilot Management System
+ * API Route: Notification Inbox
+ *
+ * GET /api/notifications - The signed-in user's in-app notifications
+ * PATCH /api/notifications - Mark notifications (or all of them) as read
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import {
+  getInboxNotifications,
+  getUnreadNotificationCount,
+  markNotificationsRead,
+} from '@/lib/notification-service';
+import { validateRequest } from '@/lib/validation-schemas';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const markReadSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).optional(),
+});
+
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const limit = Number(searchParams.get('limit')) || 20;
+
+      const [notifications, unreadCount] = await Promise.all([
+        getInboxNotifications(user.id, {
+          unreadOnly: searchParams.get('unreadOnly') === 'true',
+          type: searchParams.get('type') || undefined,
+          limit: Math.min(Math.max(limit, 1), 100),
+        }),
+        getUnreadNotificationCount(user.id),
+      ]);
+
+      return NextResponse.json({
+        success: true,
+        data: { notifications, unreadCount },
+      });
+    } catch (error) {
+      logger.error('API Error [GET /api/notifications]:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'profile:manage' }
+);
+
+export const PATCH = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const validation = validateRequest(markReadSchema, await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const updated = await markNotificationsRead(user.id, validation.data.ids);
+
+      return NextResponse.json({
+        success: true,
+        data: { updated },
+      });
+    } catch (error) {
+      logger.error('API Error [PATCH /api/notifications]:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Internal server error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'profile:manage' }
+);
@@ -2,82 +2,93 @@
  * Air Niugini B767 Pilot Management System
  * API Route: Send Notification
  *
- * POST /api/notifications/send
+ * POST /api/notifications/send - Send a notification to staff and/or pilot
+ * portal users through the notification pipeline
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { queueNotification, type QueuedNotification } from '@/lib/notification-queue';
-import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { notify } from '@/lib/notification-service';
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_NAMES,
+  type NotificationRecipientType,
+  type NotificationType,
+} from '@/lib/notification-catalogue';
 import { logger } from '@/lib/logger';
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
+const sendNotificationSchema = z
+  .object({
+    type: z.enum(NOTIFICATION_TYPE_NAMES as [NotificationType, ...NotificationType[]]),
+    user_ids: z.array(z.string().uuid()).default([]),
+    pilot_user_ids: z.array(z.string().uuid()).default([]),
+    title: z.string().trim().min(1).max(200),
+    message: z.string().trim().min(1).max(2000),
+    link: z
+      .string()
+      .regex(/^\/[^/]/, 'Link must be an app path')
+      .optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+    urgent: z.boolean().optional(),
+  })
+  .refine((body) => body.user_ids.length + body.pilot_user_ids.length > 0, {
+    message: 'At least one recipient is required',
+    path: ['user_ids'],
+  });
 
-    // Validate required fields
-    if (!body.email_address || !body.notification_type || !body.subject || !body.template_data) {
-      return NextResponse.json(
-        {
-          success: false,
-          error:
-            'Missing required fields: email_address, notification_type, subject, template_data',
-        },
-        { status: 400 }
-      );
-    }
-
-    // Verify user authentication (optional but recommended)
-    const authHeader = request.headers.get('authorization');
-    if (authHeader) {
-      const supabaseAdmin = getSupabaseAdmin();
-      const token = authHeader.replace('Bearer ', '');
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const validation = validateRequest(sendNotificationSchema, await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
 
-      const {
-        data: { user },
-        error: authError,
-      } = await supabaseAdmin.auth.getUser(token);
+      const { user_ids, pilot_user_ids, ...body } = validation.data;
+      const audience: NotificationRecipientType[] = NOTIFICATION_TYPES[body.type].audience;
 
-      if (authError || !user) {
-        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      if (
+        (user_ids.length > 0 && !audience.includes('staff')) ||
+        (pilot_user_ids.length > 0 && !audience.includes('pilot'))
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `${body.type} notifications cannot be sent to these recipients`,
+          },
+          { status: 400 }
+        );
       }
-    }
 
-    const notification: QueuedNotification = {
-      user_id: body.user_id,
-      email_address: body.email_address,
-      notification_type: body.notification_type,
-      subject: body.subject,
-      template_name: body.template_name || body.notification_type,
-      template_data: body.template_data,
-      priority: body.priority || 5,
-      scheduled_for: body.scheduled_for ? new Date(body.scheduled_for) : undefined,
-    };
+      const result = await notify({
+        ...body,
+        senderId: user.id,
+        recipients: [
+          ...user_ids.map((id) => ({ id, type: 'staff' as const })),
+          ...pilot_user_ids.map((id) => ({ id, type: 'pilot' as const })),
+        ],
+      });
 
-    const result = await queueNotification(notification);
-
-    if (!result.success) {
+      return NextResponse.json({
+        success: result.failed === 0,
+        data: result,
+        message: `Notification sent to ${result.notificationIds.length} recipient(s)`,
+      });
+    } catch (error) {
+      logger.error('API Error [/api/notifications/send]:', error);
       return NextResponse.json(
         {
           success: false,
-          error: result.error,
+          error: error instanceof Error ? error.message : 'Internal server error',
         },
         { status: 500 }
       );
     }
-
-    return NextResponse.json({
-      success: true,
-      queueId: result.queueId,
-      message: 'Notification queued successfully',
-    });
-  } catch (error) {
-    logger.error('API Error [/api/notifications/send]:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Internal server error',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { permission: 'system:settings' }
+);
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Pilot Currency API Routes
+ * A pilot's recency items and route/aerodrome qualifications, the fleet-wide list of
+ * lapsed and expiring items, and maintenance of qualification records.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  createPilotQualification,
+  deletePilotQualification,
+  getCurrencyExceptions,
+  getPilotCurrencyProfile,
+  updatePilotQualification,
+} from '@/lib/pilot-currency-service';
+import { QUALIFICATION_TYPES } from '@/lib/pilot-currency';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const qualificationFields = {
+  qualification_type: z.enum(QUALIFICATION_TYPES),
+  code: z.string().trim().min(2).max(20),
+  description: z.string().max(200).nullable().optional(),
+  qualified_date: date,
+  expiry_date: date.nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+};
+
+const createSchema = z.object({
+  pilot_id: z.string().uuid('Invalid pilot ID'),
+  ...qualificationFields,
+});
+
+const updateSchema = z
+  .object({ id: z.string().uuid('Invalid qualification ID'), ...qualificationFields })
+  .partial({ qualification_type: true, code: true, qualified_date: true });
+
+/**
+ * GET /api/pilot-currency
+ * - ?pilotId=: the pilot's recency items and qualifications
+ * - ?view=exceptions: lapsed or expiring items across active pilots
+ * @auth Required - certification:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const pilotId = searchParams.get('pilotId');
+
+      if (searchParams.get('view') === 'exceptions') {
+        return NextResponse.json({ success: true, data: await getCurrencyExceptions() });
+      }
+
+      if (!pilotId || !isValidUUID(pilotId)) {
+        return NextResponse.json(
+          { success: false, error: 'A valid pilotId is required' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: await getPilotCurrencyProfile(pilotId) });
+    } catch (error) {
+      logger.error('Error in GET /api/pilot-currency:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fetch currency data',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:read' }
+);
+
+/**
+ * POST /api/pilot-currency
+ * Records a route or aerodrome qualification for a pilot
+ * @auth Required - certification:create permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(createSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const qualification = await createPilotQualification(validation.data, user.id);
+
+      return NextResponse.json({ success: true, data: qualification }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/pilot-currency:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create qualification',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:create' }
+);
+
+/**
+ * PATCH /api/pilot-currency
+ * Updates a qualification, e.g. its expiry after requalification
+ * @auth Required - certification:update permission
+ */
+export const PATCH = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...changes } = validation.data;
+      const qualification = await updatePilotQualification(id, changes);
+
+      return NextResponse.json({ success: true, data: qualification });
+    } catch (error) {
+      logger.error('Error in PATCH /api/pilot-currency:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update qualification',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:update' }
+);
+
+/**
+ * DELETE /api/pilot-currency?id=
+ * @auth Required - certification:delete permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const id = request.nextUrl.searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json(
+          { success: false, error: 'A valid qualification id is required' },
+          { status: 400 }
+        );
+      }
+
+      await deletePilotQualification(id);
+
+      return NextResponse.json({ success: true, message: 'Qualification deleted' });
+    } catch (error) {
+      logger.error('Error in DELETE /api/pilot-currency:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete qualification' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:delete' }
+);
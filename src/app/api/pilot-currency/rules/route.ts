@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Currency Rules API Routes
+ * Recency requirements (e.g. 3 landings in 90 days) evaluated against logged sectors.
+ * Rules are deactivated rather than deleted.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import {
+  createCurrencyRule,
+  getCurrencyRules,
+  updateCurrencyRule,
+} from '@/lib/pilot-currency-service';
+import { CURRENCY_EVENTS } from '@/lib/pilot-currency';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const ruleFields = {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  event: z.enum(CURRENCY_EVENTS),
+  required_count: z.number().int().min(1).max(100),
+  period_days: z.number().int().min(1).max(3650),
+  applies_to_role: z.enum(['Captain', 'First Officer']).nullable().optional(),
+  is_active: z.boolean().optional(),
+};
+
+const createSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9_-]{2,20}$/, 'Code must be 2-20 letters, digits, - or _'),
+  ...ruleFields,
+});
+
+const updateSchema = z
+  .object({ id: z.string().uuid('Invalid rule ID'), ...ruleFields })
+  .partial({ name: true, event: true, required_count: true, period_days: true });
+
+/**
+ * GET /api/pilot-currency/rules
+ * All rules, including inactive ones
+ * @auth Required - certification:read permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      return NextResponse.json({ success: true, data: await getCurrencyRules(true) });
+    } catch (error) {
+      logger.error('Error in GET /api/pilot-currency/rules:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch currency rules' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'certification:read' }
+);
+
+/**
+ * POST /api/pilot-currency/rules
+ * @auth Required - check_types:update permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(createSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const rule = await createCurrencyRule(validation.data);
+
+      return NextResponse.json({ success: true, data: rule }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/pilot-currency/rules:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create currency rule',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'check_types:update' }
+);
+
+/**
+ * PATCH /api/pilot-currency/rules
+ * Updates a rule or (de)activates it with is_active
+ * @auth Required - check_types:update permission
+ */
+export const PATCH = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...changes } = validation.data;
+      const rule = await updateCurrencyRule(id, changes);
+
+      return NextResponse.json({ success: true, data: rule });
+    } catch (error) {
+      logger.error('Error in PATCH /api/pilot-currency/rules:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update currency rule' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'check_types:update' }
+);
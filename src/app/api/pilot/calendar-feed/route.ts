@@ -0,0 +1,107 @@
+/**
+ * Pilot Calendar Feed API
+ * GET /api/pilot/calendar-feed - Get the pilot's calendar subscription URL (if any)
+ * POST /api/pilot/calendar-feed - Create the feed, or replace its URL with a new one
+ * DELETE /api/pilot/calendar-feed - Turn the feed off
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { createClient } from '@/lib/supabase-server';
+import {
+  deletePilotFeed,
+  feedUrl,
+  getPilotFeed,
+  rotatePilotFeed,
+} from '@/lib/calendar-feed-service';
+
+async function getPilotUserId(): Promise<string | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  return error || !user ? null : user.id;
+}
+
+const unauthorized = () =>
+  NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+
+/**
+ * GET - Get the authenticated pilot's calendar feed
+ */
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const pilotUserId = await getPilotUserId();
+      if (!pilotUserId) return unauthorized();
+
+      const feed = await getPilotFeed(pilotUserId);
+
+      return NextResponse.json({
+        success: true,
+        data: feed ? { ...feed, url: feedUrl(feed.token, request.url) } : null,
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/calendar-feed error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch calendar feed' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * POST - Create or rotate the authenticated pilot's calendar feed
+ */
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const pilotUserId = await getPilotUserId();
+      if (!pilotUserId) return unauthorized();
+
+      const feed = await rotatePilotFeed(pilotUserId);
+
+      return NextResponse.json(
+        { success: true, data: { ...feed, url: feedUrl(feed.token, request.url) } },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('POST /api/pilot/calendar-feed error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to create calendar feed',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * DELETE - Remove the authenticated pilot's calendar feed
+ */
+export const DELETE = withExternalAccess(
+  async () => {
+    try {
+      const pilotUserId = await getPilotUserId();
+      if (!pilotUserId) return unauthorized();
+
+      await deletePilotFeed(pilotUserId);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      console.error('DELETE /api/pilot/calendar-feed error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete calendar feed' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
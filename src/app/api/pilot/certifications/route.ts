@@ -0,0 +1,42 @@
+/**
+ * Pilot Certifications API
+ * GET /api/pilot/certifications - Get the authenticated pilot's checks with expiry status
+ */
+
+import { NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { getOwnCertifications } from '@/lib/pilot-portal-service';
+import { getPortalPilot, noPilotRecord, unauthorized } from '@/lib/pilot-portal-auth';
+import { summarizePilotCertifications } from '@/lib/pilot-portal-records';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Get the authenticated pilot's certifications, most urgent first
+ */
+export const GET = withExternalAccess(
+  async () => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const certifications = await getOwnCertifications(portal.supabase, portal.pilotId);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          certifications,
+          summary: summarizePilotCertifications(certifications),
+        },
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/certifications error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch certifications' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
@@ -0,0 +1,62 @@
+/**
+ * Pilot Document Download API
+ * GET /api/pilot/documents/[id] - Get a short-lived download link for one of
+ * the authenticated pilot's documents
+ */
+
+import { NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { createClient } from '@/lib/supabase-server';
+import { getDocumentDownloadUrl } from '@/lib/document-storage';
+import { isOwnDocument } from '@/lib/pilot-portal-service';
+
+export const dynamic = 'force-dynamic';
+
+/** Seconds the download link stays valid */
+const LINK_LIFETIME = 300;
+
+/**
+ * GET - Get a download link; documents of other pilots are not found
+ */
+export const GET = withExternalAccess(
+  async (_request: Request, { params }: { params: { id: string } }) => {
+    try {
+      const supabase = await createClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
+
+      if (!(await isOwnDocument(supabase, params.id))) {
+        return NextResponse.json({ success: false, error: 'Document not found' }, { status: 404 });
+      }
+
+      const link = await getDocumentDownloadUrl({
+        documentId: params.id,
+        expiresIn: LINK_LIFETIME,
+      });
+      if (!link.success || !link.data) {
+        return NextResponse.json(
+          { success: false, error: link.error || 'Failed to create download link' },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { url: link.data.url, expiresAt: link.data.expiresAt },
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/documents/[id] error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create download link' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
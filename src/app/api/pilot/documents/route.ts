@@ -0,0 +1,113 @@
+/**
+ * Pilot Documents API
+ * GET /api/pilot/documents - Get the authenticated pilot's documents
+ * POST /api/pilot/documents - Upload a document for verification by the fleet office
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withExternalAccess } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { validateFile } from '@/lib/document-storage';
+import { PILOT_UPLOAD_DOCUMENT_TYPES } from '@/lib/pilot-portal-records';
+import { getOwnDocuments, uploadOwnDocument } from '@/lib/pilot-portal-service';
+import { getPortalPilot, noPilotRecord, unauthorized } from '@/lib/pilot-portal-auth';
+
+export const dynamic = 'force-dynamic';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (use YYYY-MM-DD)');
+
+const uploadSchema = z
+  .object({
+    documentType: z.enum(PILOT_UPLOAD_DOCUMENT_TYPES),
+    document_number: z.string().trim().max(100).optional(),
+    issue_date: isoDate.optional(),
+    expiry_date: isoDate.optional(),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => !data.issue_date || !data.expiry_date || data.expiry_date > data.issue_date, {
+    message: 'Expiry date must be after the issue date',
+    path: ['expiry_date'],
+  });
+
+/**
+ * GET - Get the authenticated pilot's current documents
+ */
+export const GET = withExternalAccess(
+  async () => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const documents = await getOwnDocuments(portal.supabase, portal.pilotId);
+
+      return NextResponse.json({ success: true, data: documents });
+    } catch (error) {
+      console.error('GET /api/pilot/documents error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch documents' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * POST - Upload a document (multipart: file, documentType and optional
+ * details); it stays pending until the fleet office verifies it
+ */
+export const POST = withExternalAccess(
+  async (request: Request) => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ success: false, error: 'A file is required' }, { status: 400 });
+      }
+
+      const fileCheck = validateFile(file);
+      if (!fileCheck.valid) {
+        return NextResponse.json({ success: false, error: fileCheck.error }, { status: 400 });
+      }
+
+      // Empty form fields count as not given
+      const field = (name: string) => (formData.get(name) as string | null) || undefined;
+      const validation = validateRequest(uploadSchema, {
+        documentType: field('documentType'),
+        document_number: field('document_number'),
+        issue_date: field('issue_date'),
+        expiry_date: field('expiry_date'),
+        notes: field('notes'),
+      });
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const document = await uploadOwnDocument(portal.pilotId, portal.pilotUserId, {
+        ...validation.data,
+        file,
+      });
+
+      return NextResponse.json({ success: true, data: document }, { status: 201 });
+    } catch (error) {
+      console.error('POST /api/pilot/documents error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to upload document',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
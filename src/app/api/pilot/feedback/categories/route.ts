@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { z } from 'zod';
 import { getAllCategories, createCategory } from '@/lib/feedback-service';
 import { supabase } from '@/lib/supabase';
@@ -19,98 +20,104 @@ const categorySchema = z.object({
 /**
  * GET - Get all feedback categories
  */
-export async function GET(request: NextRequest) {
-  try {
-    const categories = await getAllCategories();
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const categories = await getAllCategories();
 
-    return NextResponse.json({
-      success: true,
-      data: categories,
-    });
-  } catch (error) {
-    console.error('GET /api/pilot/feedback/categories error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to fetch categories',
-      },
-      { status: 500 }
-    );
-  }
-}
-
-/**
- * POST - Create new feedback category
- */
-export async function POST(request: NextRequest) {
-  try {
-    // Get authenticated pilot user
-    const {
-      data: { session },
-      error: authError,
-    } = await supabase.auth.getSession();
-
-    if (authError || !session) {
+      return NextResponse.json({
+        success: true,
+        data: categories,
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/feedback/categories error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Unauthorized',
+          error: 'Failed to fetch categories',
         },
-        { status: 401 }
+        { status: 500 }
       );
     }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * POST - Create new feedback category
+ */
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Get authenticated pilot user
+      const {
+        data: { session },
+        error: authError,
+      } = await supabase.auth.getSession();
+
+      if (authError || !session) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+          },
+          { status: 401 }
+        );
+      }
 
-    const pilotUserId = session.user.id;
+      const pilotUserId = session.user.id;
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validationResult = categorySchema.safeParse(body);
+      // Parse and validate request body
+      const body = await request.json();
+      const validationResult = categorySchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors.map((err) => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+          { status: 400 }
+        );
+      }
+
+      const { name, description, icon } = validationResult.data;
+
+      // Create category
+      const result = await createCategory(pilotUserId, name, description, icon);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || 'Failed to create category',
+          },
+          { status: 400 }
+        );
+      }
 
-    if (!validationResult.success) {
       return NextResponse.json(
         {
-          success: false,
-          error: 'Validation failed',
-          details: validationResult.error.errors.map((err) => ({
-            field: err.path.join('.'),
-            message: err.message,
-          })),
+          success: true,
+          message: 'Category created successfully',
+          categoryId: result.categoryId,
         },
-        { status: 400 }
+        { status: 201 }
       );
-    }
-
-    const { name, description, icon } = validationResult.data;
-
-    // Create category
-    const result = await createCategory(pilotUserId, name, description, icon);
-
-    if (!result.success) {
+    } catch (error) {
+      console.error('POST /api/pilot/feedback/categories error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: result.error || 'Failed to create category',
+          error: 'An unexpected error occurred',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      {
-        success: true,
-        message: 'Category created successfully',
-        categoryId: result.categoryId,
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('POST /api/pilot/feedback/categories error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'pilot-session' }
+);
@@ -4,61 +4,65 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { deleteComment } from '@/lib/feedback-service';
 import { supabase } from '@/lib/supabase';
 
 /**
  * DELETE - Delete a comment (soft delete)
  */
-export async function DELETE(
+export const DELETE = withExternalAccess(
+  async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
-  try {
-    // Get authenticated pilot user
-    const {
-      data: { session },
-      error: authError,
-    } = await supabase.auth.getSession();
+) => {
+    try {
+      // Get authenticated pilot user
+      const {
+        data: { session },
+        error: authError,
+      } = await supabase.auth.getSession();
 
-    if (authError || !session) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Unauthorized',
-        },
-        { status: 401 }
-      );
-    }
+      if (authError || !session) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+          },
+          { status: 401 }
+        );
+      }
 
-    const pilotUserId = session.user.id;
-    const commentId = params.id;
+      const pilotUserId = session.user.id;
+      const commentId = params.id;
 
-    // Delete comment
-    const result = await deleteComment(pilotUserId, commentId);
+      // Delete comment
+      const result = await deleteComment(pilotUserId, commentId);
 
-    if (!result.success) {
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || 'Failed to delete comment',
+          },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Comment deleted successfully',
+      });
+    } catch (error) {
+      console.error('DELETE /api/pilot/feedback/comments/[id] error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: result.error || 'Failed to delete comment',
+          error: 'An unexpected error occurred',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    return NextResponse.json({
-      success: true,
-      message: 'Comment deleted successfully',
-    });
-  } catch (error) {
-    console.error('DELETE /api/pilot/feedback/comments/[id] error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'pilot-session' }
+);
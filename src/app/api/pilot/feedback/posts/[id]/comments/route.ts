@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { z } from 'zod';
 import { getPostComments, createComment } from '@/lib/feedback-service';
 import { supabase } from '@/lib/supabase';
@@ -18,107 +19,113 @@ const commentSchema = z.object({
 /**
  * GET - Get all comments for a post
  */
-export async function GET(
+export const GET = withExternalAccess(
+  async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
-  try {
-    const postId = params.id;
+) => {
+    try {
+      const postId = params.id;
 
-    const comments = await getPostComments(postId);
+      const comments = await getPostComments(postId);
 
-    return NextResponse.json({
-      success: true,
-      data: comments,
-    });
-  } catch (error) {
-    console.error('GET /api/pilot/feedback/posts/[id]/comments error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to fetch comments',
-      },
-      { status: 500 }
-    );
-  }
-}
+      return NextResponse.json({
+        success: true,
+        data: comments,
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/feedback/posts/[id]/comments error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to fetch comments',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
 
 /**
  * POST - Create new comment
  */
-export async function POST(
+export const POST = withExternalAccess(
+  async (
   request: NextRequest,
   { params }: { params: { id: string } }
-) {
-  try {
-    // Get authenticated pilot user
-    const {
-      data: { session },
-      error: authError,
-    } = await supabase.auth.getSession();
+) => {
+    try {
+      // Get authenticated pilot user
+      const {
+        data: { session },
+        error: authError,
+      } = await supabase.auth.getSession();
 
-    if (authError || !session) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Unauthorized',
-        },
-        { status: 401 }
-      );
-    }
+      if (authError || !session) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+          },
+          { status: 401 }
+        );
+      }
+
+      const pilotUserId = session.user.id;
+      const postId = params.id;
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validationResult = commentSchema.safeParse(body);
 
-    const pilotUserId = session.user.id;
-    const postId = params.id;
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors.map((err) => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+          { status: 400 }
+        );
+      }
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validationResult = commentSchema.safeParse(body);
+      const { content, parent_comment_id } = validationResult.data;
+
+      // Create comment
+      const result = await createComment(pilotUserId, postId, content, parent_comment_id);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || 'Failed to create comment',
+          },
+          { status: 400 }
+        );
+      }
 
-    if (!validationResult.success) {
       return NextResponse.json(
         {
-          success: false,
-          error: 'Validation failed',
-          details: validationResult.error.errors.map((err) => ({
-            field: err.path.join('.'),
-            message: err.message,
-          })),
+          success: true,
+          message: 'Comment created successfully',
+          commentId: result.commentId,
         },
-        { status: 400 }
+        { status: 201 }
       );
-    }
-
-    const { content, parent_comment_id } = validationResult.data;
-
-    // Create comment
-    const result = await createComment(pilotUserId, postId, content, parent_comment_id);
-
-    if (!result.success) {
+    } catch (error) {
+      console.error('POST /api/pilot/feedback/posts/[id]/comments error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: result.error || 'Failed to create comment',
+          error: 'An unexpected error occurred',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      {
-        success: true,
-        message: 'Comment created successfully',
-        commentId: result.commentId,
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('POST /api/pilot/feedback/posts/[id]/comments error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'pilot-session' }
+);
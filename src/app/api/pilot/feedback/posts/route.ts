@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { z } from 'zod';
 import { getFeedbackPosts, createFeedbackPost } from '@/lib/feedback-service';
 import { supabase } from '@/lib/supabase';
@@ -22,102 +23,108 @@ const postSchema = z.object({
  * GET - Get feedback posts
  * Query params: category_id (optional), limit (optional)
  */
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const categoryId = searchParams.get('category_id') || undefined;
-    const limit = parseInt(searchParams.get('limit') || '50', 10);
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const searchParams = request.nextUrl.searchParams;
+      const categoryId = searchParams.get('category_id') || undefined;
+      const limit = parseInt(searchParams.get('limit') || '50', 10);
 
-    const posts = await getFeedbackPosts(categoryId, limit);
+      const posts = await getFeedbackPosts(categoryId, limit);
 
-    return NextResponse.json({
-      success: true,
-      data: posts,
-    });
-  } catch (error) {
-    console.error('GET /api/pilot/feedback/posts error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to fetch posts',
-      },
-      { status: 500 }
-    );
-  }
-}
-
-/**
- * POST - Create new feedback post
- */
-export async function POST(request: NextRequest) {
-  try {
-    // Get authenticated pilot user
-    const {
-      data: { session },
-      error: authError,
-    } = await supabase.auth.getSession();
-
-    if (authError || !session) {
+      return NextResponse.json({
+        success: true,
+        data: posts,
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/feedback/posts error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Unauthorized',
+          error: 'Failed to fetch posts',
         },
-        { status: 401 }
+        { status: 500 }
       );
     }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * POST - Create new feedback post
+ */
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Get authenticated pilot user
+      const {
+        data: { session },
+        error: authError,
+      } = await supabase.auth.getSession();
+
+      if (authError || !session) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+          },
+          { status: 401 }
+        );
+      }
 
-    const pilotUserId = session.user.id;
+      const pilotUserId = session.user.id;
 
-    // Parse and validate request body
-    const body = await request.json();
-    const validationResult = postSchema.safeParse(body);
+      // Parse and validate request body
+      const body = await request.json();
+      const validationResult = postSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors.map((err) => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+          { status: 400 }
+        );
+      }
+
+      const postData = validationResult.data;
+
+      // Create feedback post
+      const result = await createFeedbackPost(pilotUserId, postData);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || 'Failed to create post',
+          },
+          { status: 400 }
+        );
+      }
 
-    if (!validationResult.success) {
       return NextResponse.json(
         {
-          success: false,
-          error: 'Validation failed',
-          details: validationResult.error.errors.map((err) => ({
-            field: err.path.join('.'),
-            message: err.message,
-          })),
+          success: true,
+          message: 'Post created successfully',
+          postId: result.postId,
         },
-        { status: 400 }
+        { status: 201 }
       );
-    }
-
-    const postData = validationResult.data;
-
-    // Create feedback post
-    const result = await createFeedbackPost(pilotUserId, postData);
-
-    if (!result.success) {
+    } catch (error) {
+      console.error('POST /api/pilot/feedback/posts error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: result.error || 'Failed to create post',
+          error: 'An unexpected error occurred',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      {
-        success: true,
-        message: 'Post created successfully',
-        postId: result.postId,
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('POST /api/pilot/feedback/posts error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'pilot-session' }
+);
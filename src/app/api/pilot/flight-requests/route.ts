@@ -0,0 +1,105 @@
+/**
+ * Pilot Flight Requests API
+ * GET /api/pilot/flight-requests - Get the authenticated pilot's flight requests
+ * POST /api/pilot/flight-requests - Submit a flight request (route
+ * qualification, base change, etc.) for review by the fleet office
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withExternalAccess } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getPortalPilot, noPilotRecord, unauthorized } from '@/lib/pilot-portal-auth';
+import { getOwnFlightRequests, submitOwnFlightRequest } from '@/lib/pilot-request-service';
+
+export const dynamic = 'force-dynamic';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (use YYYY-MM-DD)');
+
+const flightRequestSchema = z
+  .object({
+    request_type: z.enum([
+      'FLIGHT_ASSIGNMENT',
+      'ROUTE_QUALIFICATION',
+      'TYPE_RATING',
+      'LINE_CHECK',
+      'SIM_TRAINING',
+      'STANDBY',
+      'POSITION_CHANGE',
+      'BASE_CHANGE',
+      'OTHER',
+    ]),
+    flight_number: z.string().trim().max(20).optional(),
+    route: z.string().trim().max(100).optional(),
+    departure_airport: z.string().trim().toUpperCase().max(10).optional(),
+    arrival_airport: z.string().trim().toUpperCase().max(10).optional(),
+    departure_date: isoDate.optional(),
+    return_date: isoDate.optional(),
+    priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT']).optional(),
+    reason: z.string().trim().min(10, 'Please provide a reason (minimum 10 characters)').max(1000),
+    notes: z.string().trim().max(1000).optional(),
+  })
+  .refine(
+    (data) => !data.departure_date || !data.return_date || data.return_date >= data.departure_date,
+    { message: 'Return date must be on or after the departure date', path: ['return_date'] }
+  );
+
+/**
+ * GET - Get the authenticated pilot's flight requests, newest first
+ */
+export const GET = withExternalAccess(
+  async () => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const requests = await getOwnFlightRequests(portal.pilotId);
+
+      return NextResponse.json({ success: true, data: requests });
+    } catch (error) {
+      console.error('GET /api/pilot/flight-requests error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch flight requests' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * POST - Submit a flight request; it stays pending until reviewed
+ */
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const validation = validateRequest(flightRequestSchema, await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const flightRequest = await submitOwnFlightRequest(
+        portal.pilotId,
+        portal.pilotUserId,
+        validation.data
+      );
+
+      return NextResponse.json({ success: true, data: flightRequest }, { status: 201 });
+    } catch (error) {
+      console.error('POST /api/pilot/flight-requests error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to submit flight request' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
@@ -0,0 +1,40 @@
+/**
+ * Pilot Leave Bid API
+ * DELETE /api/pilot/leave-bids/[id] - Withdraw one of the authenticated
+ * pilot's pending bids before its period's bid deadline
+ */
+
+import { NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { getPortalPilot, noPilotRecord, unauthorized } from '@/lib/pilot-portal-auth';
+import { withdrawOwnLeaveBid } from '@/lib/pilot-request-service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE - Withdraw a bid; bids of other pilots are not found
+ */
+export const DELETE = withExternalAccess(
+  async (_request: Request, { params }: { params: { id: string } }) => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const result = await withdrawOwnLeaveBid(portal.pilotId, params.id);
+      if (!result.success) {
+        const status = result.error === 'Leave bid not found' ? 404 : 400;
+        return NextResponse.json({ success: false, error: result.error }, { status });
+      }
+
+      return NextResponse.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('DELETE /api/pilot/leave-bids/[id] error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to withdraw leave bid' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
@@ -0,0 +1,107 @@
+/**
+ * Pilot Leave Bids API
+ * GET /api/pilot/leave-bids - Get the authenticated pilot's bids and the roster
+ * periods open for bidding
+ * POST /api/pilot/leave-bids - Submit a leave bid for an open roster period
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withExternalAccess } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getPortalPilot, noPilotRecord, unauthorized } from '@/lib/pilot-portal-auth';
+import { getOpenBidWindows, getOwnLeaveBids, submitOwnLeaveBid } from '@/lib/pilot-request-service';
+
+export const dynamic = 'force-dynamic';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (use YYYY-MM-DD)');
+
+const dateRangeSchema = z
+  .object({ startDate: isoDate, endDate: isoDate })
+  .refine((range) => range.endDate >= range.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+const leaveBidSchema = z
+  .object({
+    roster_period_code: z.string().regex(/^RP\d{1,2}\/\d{4}$/, 'Invalid roster period'),
+    preferred: dateRangeSchema,
+    alternatives: z.array(dateRangeSchema).max(2).default([]),
+    priority: z.enum(['HIGH', 'MEDIUM', 'LOW']).default('MEDIUM'),
+    reason: z.string().trim().min(10, 'Please provide a reason (minimum 10 characters)').max(500),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (bid) =>
+      bid.alternatives.every(
+        (range, index) =>
+          range.startDate > (index === 0 ? bid.preferred : bid.alternatives[index - 1]!).endDate
+      ),
+    {
+      message: 'Each alternative must start after the previous choice ends',
+      path: ['alternatives'],
+    }
+  );
+
+/**
+ * GET - Get the authenticated pilot's bids, newest first, and the open periods
+ */
+export const GET = withExternalAccess(
+  async () => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const [bids, openPeriods] = await Promise.all([
+        getOwnLeaveBids(portal.pilotId),
+        getOpenBidWindows(),
+      ]);
+
+      return NextResponse.json({ success: true, data: { bids, openPeriods } });
+    } catch (error) {
+      console.error('GET /api/pilot/leave-bids error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch leave bids' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * POST - Submit a leave bid; refused after the period's bid deadline
+ */
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const portal = await getPortalPilot();
+      if (!portal) return unauthorized();
+      if (!portal.pilotId) return noPilotRecord();
+
+      const validation = validateRequest(leaveBidSchema, await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const result = await submitOwnLeaveBid(portal.pilotId, portal.pilotUserId, validation.data);
+      if (!result.success) {
+        return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+      }
+
+      return NextResponse.json({ success: true, data: result.data }, { status: 201 });
+    } catch (error) {
+      console.error('POST /api/pilot/leave-bids error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to submit leave bid' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
@@ -0,0 +1,88 @@
+/**
+ * Pilot Leave Calendar Import API
+ * POST /api/pilot/leave/import - Create pending leave requests from an .ics file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { importLeaveFromCalendar, LEAVE_REQUEST_TYPES } from '@/lib/calendar-feed-service';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
+
+const importSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'Calendar file is empty')
+    .max(1024 * 1024, 'Calendar file is too large'),
+  default_type: z.enum(LEAVE_REQUEST_TYPES).default('ANNUAL'),
+  dry_run: z.boolean().default(true),
+});
+
+/**
+ * POST - Import leave from the authenticated pilot's calendar file. Defaults to a
+ * dry run that returns what would be created; pass dry_run: false to submit.
+ */
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const supabase = await createClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const body = await request.json();
+      const validationResult = importSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.issues.map((err) => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+          { status: 400 }
+        );
+      }
+
+      const { content, default_type, dry_run } = validationResult.data;
+      const result = await importLeaveFromCalendar(user.id, content, {
+        defaultType: default_type,
+        dryRun: dry_run,
+      });
+
+      for (const item of result.items) {
+        if (!item.requestId) continue;
+        await triggerWebhookEvent('leave.created', {
+          leave_request: {
+            id: item.requestId,
+            pilot_user_id: user.id,
+            request_type: item.request_type,
+            start_date: item.start_date,
+            end_date: item.end_date,
+          },
+        });
+      }
+
+      return NextResponse.json({ success: true, data: result }, { status: dry_run ? 200 : 201 });
+    } catch (error) {
+      console.error('POST /api/pilot/leave/import error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to import calendar',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
@@ -5,6 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase-server';
 import {
@@ -12,6 +13,7 @@ import {
   getPilotLeaveRequests,
   type PilotLeaveRequestData,
 } from '@/lib/pilot-leave-service';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
 
 // Validation schema
 const leaveRequestSchema = z.object({
@@ -24,160 +26,170 @@ const leaveRequestSchema = z.object({
 /**
  * GET - Get all leave requests for authenticated pilot
  */
-export async function GET(request: NextRequest) {
-  try {
-    // Create server-side Supabase client
-    const supabase = await createClient();
-
-    // Get authenticated pilot user
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    if (authError || !user) {
-      console.error('[Pilot Leave] Auth error:', authError);
-      console.error('[Pilot Leave] User:', user);
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Create server-side Supabase client
+      const supabase = await createClient();
+
+      // Get authenticated pilot user
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        console.error('[Pilot Leave] Auth error:', authError);
+        console.error('[Pilot Leave] User:', user);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Unauthorized',
+          },
+          { status: 401 }
+        );
+      }
+
+      const pilotUserId = user.id;
+
+      // Get leave requests
+      const requests = await getPilotLeaveRequests(pilotUserId);
+
+      return NextResponse.json({
+        success: true,
+        data: requests,
+      });
+    } catch (error) {
+      console.error('GET /api/pilot/leave error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Unauthorized',
+          error: 'Failed to fetch leave requests',
         },
-        { status: 401 }
+        { status: 500 }
       );
     }
-
-    const pilotUserId = user.id;
-
-    // Get leave requests
-    const requests = await getPilotLeaveRequests(pilotUserId);
-
-    return NextResponse.json({
-      success: true,
-      data: requests,
-    });
-  } catch (error) {
-    console.error('GET /api/pilot/leave error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to fetch leave requests',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'pilot-session' }
+);
 
 /**
  * POST - Submit new leave request
  */
-export async function POST(request: NextRequest) {
-  try {
-    // Create server-side Supabase client
-    const supabase = await createClient();
-
-    // Get authenticated pilot user
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-
-    console.log('[Pilot Leave POST] Auth result:', { user: user?.id, error: authError?.message });
-
-    if (authError || !user) {
-      console.error('[Pilot Leave POST] Auth failed - Error:', authError);
-      console.error('[Pilot Leave POST] Auth failed - User:', user);
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Unauthorized - ${authError?.message || 'No user found'}`,
-        },
-        { status: 401 }
-      );
-    }
-
-    const pilotUserId = user.id;
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      // Create server-side Supabase client
+      const supabase = await createClient();
+
+      // Get authenticated pilot user
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      console.log('[Pilot Leave POST] Auth result:', { user: user?.id, error: authError?.message });
+
+      if (authError || !user) {
+        console.error('[Pilot Leave POST] Auth failed - Error:', authError);
+        console.error('[Pilot Leave POST] Auth failed - User:', user);
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Unauthorized - ${authError?.message || 'No user found'}`,
+          },
+          { status: 401 }
+        );
+      }
+
+      const pilotUserId = user.id;
+
+      // Check if pilot user exists and is approved
+      const { data: pilotUser, error: pilotError } = await supabase
+        .from('pilot_users')
+        .select('*')
+        .eq('id', pilotUserId)
+        .single();
+
+      console.log('[Pilot Leave POST] Pilot user check:', { pilotUser, pilotError });
+
+      if (pilotError || !pilotUser) {
+        console.error('[Pilot Leave POST] Pilot user not found:', pilotError);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Pilot account not found. Please contact administrator.',
+          },
+          { status: 403 }
+        );
+      }
+
+      if (!pilotUser.registration_approved) {
+        console.error('[Pilot Leave POST] Pilot not approved:', pilotUserId);
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Your registration is pending approval. Please contact administrator.',
+          },
+          { status: 403 }
+        );
+      }
+
+      // Parse and validate request body
+      const body = await request.json();
+      const validationResult = leaveRequestSchema.safeParse(body);
+
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors.map((err) => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+          { status: 400 }
+        );
+      }
+
+      const requestData: PilotLeaveRequestData = validationResult.data;
+
+      // Submit leave request
+      const result = await submitPilotLeaveRequest(pilotUserId, requestData);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || 'Failed to submit leave request',
+          },
+          { status: 400 }
+        );
+      }
+
+      await triggerWebhookEvent('leave.created', {
+        leave_request: { id: result.requestId, pilot_user_id: pilotUserId, ...requestData },
+      });
 
-    // Check if pilot user exists and is approved
-    const { data: pilotUser, error: pilotError } = await supabase
-      .from('pilot_users')
-      .select('*')
-      .eq('id', pilotUserId)
-      .single();
-
-    console.log('[Pilot Leave POST] Pilot user check:', { pilotUser, pilotError });
-
-    if (pilotError || !pilotUser) {
-      console.error('[Pilot Leave POST] Pilot user not found:', pilotError);
       return NextResponse.json(
         {
-          success: false,
-          error: 'Pilot account not found. Please contact administrator.',
+          success: true,
+          message: 'Leave request submitted successfully',
+          requestId: result.requestId,
         },
-        { status: 403 }
+        { status: 201 }
       );
-    }
-
-    if (!pilotUser.registration_approved) {
-      console.error('[Pilot Leave POST] Pilot not approved:', pilotUserId);
+    } catch (error) {
+      console.error('POST /api/pilot/leave error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: 'Your registration is pending approval. Please contact administrator.',
+          error: 'An unexpected error occurred',
         },
-        { status: 403 }
+        { status: 500 }
       );
     }
-
-    // Parse and validate request body
-    const body = await request.json();
-    const validationResult = leaveRequestSchema.safeParse(body);
-
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Validation failed',
-          details: validationResult.error.errors.map((err) => ({
-            field: err.path.join('.'),
-            message: err.message,
-          })),
-        },
-        { status: 400 }
-      );
-    }
-
-    const requestData: PilotLeaveRequestData = validationResult.data;
-
-    // Submit leave request
-    const result = await submitPilotLeaveRequest(pilotUserId, requestData);
-
-    if (!result.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: result.error || 'Failed to submit leave request',
-        },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        success: true,
-        message: 'Leave request submitted successfully',
-        requestId: result.requestId,
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('POST /api/pilot/leave error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'An unexpected error occurred',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'pilot-session' }
+);
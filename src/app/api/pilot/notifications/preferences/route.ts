@@ -0,0 +1,89 @@
+/**
+ * Pilot Notification Preferences API
+ * GET /api/pilot/notifications/preferences - Get the authenticated pilot's preferences
+ * PUT /api/pilot/notifications/preferences - Update them
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
+import { createClient } from '@/lib/supabase-server';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notification-service';
+import { notificationPreferencesSchema, validateRequest } from '@/lib/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+async function getPortalUserId(): Promise<string | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  return error || !user ? null : user.id;
+}
+
+const unauthorized = () =>
+  NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+
+/**
+ * GET - Get the pilot's notification preferences, with defaults filled in
+ */
+export const GET = withExternalAccess(
+  async () => {
+    try {
+      const userId = await getPortalUserId();
+      if (!userId) return unauthorized();
+
+      const data = await getNotificationPreferences({ id: userId, type: 'pilot' });
+
+      return NextResponse.json({ success: true, data });
+    } catch (error) {
+      console.error('GET /api/pilot/notifications/preferences error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch notification preferences' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * PUT - Update the pilot's notification preferences
+ */
+export const PUT = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const userId = await getPortalUserId();
+      if (!userId) return unauthorized();
+
+      const validation = validateRequest(notificationPreferencesSchema, await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const data = await updateNotificationPreferences(
+        { id: userId, type: 'pilot' },
+        validation.data
+      );
+
+      return NextResponse.json({
+        success: true,
+        data,
+        message: 'Notification preferences updated successfully',
+      });
+    } catch (error) {
+      console.error('PUT /api/pilot/notifications/preferences error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update notification preferences' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
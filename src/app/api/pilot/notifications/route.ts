@@ -0,0 +1,93 @@
+/**
+ * Pilot Notifications API
+ * GET /api/pilot/notifications - The authenticated pilot's notifications and unread count
+ * PATCH /api/pilot/notifications - Mark notifications (or all of them) as read
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withExternalAccess } from '@/middleware/auth';
+import { createClient } from '@/lib/supabase-server';
+import {
+  getInboxNotifications,
+  getUnreadNotificationCount,
+  markNotificationsRead,
+} from '@/lib/notification-service';
+import { validateRequest } from '@/lib/validation-schemas';
+
+export const dynamic = 'force-dynamic';
+
+const markReadSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).optional(),
+});
+
+/** The signed-in pilot portal user; notifications are addressed to this id */
+async function getPortalUserId(): Promise<string | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  return error || !user ? null : user.id;
+}
+
+const unauthorized = () =>
+  NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+
+/**
+ * GET - Get the pilot's notifications, newest first
+ */
+export const GET = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const userId = await getPortalUserId();
+      if (!userId) return unauthorized();
+
+      const { searchParams } = new URL(request.url);
+      const [notifications, unreadCount] = await Promise.all([
+        getInboxNotifications(userId, { unreadOnly: searchParams.get('unreadOnly') === 'true' }),
+        getUnreadNotificationCount(userId),
+      ]);
+
+      return NextResponse.json({ success: true, data: { notifications, unreadCount } });
+    } catch (error) {
+      console.error('GET /api/pilot/notifications error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch notifications' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
+
+/**
+ * PATCH - Mark the given notifications, or all of them, as read
+ */
+export const PATCH = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const userId = await getPortalUserId();
+      if (!userId) return unauthorized();
+
+      const validation = validateRequest(markReadSchema, await request.json());
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const updated = await markNotificationsRead(userId, validation.data.ids);
+
+      return NextResponse.json({ success: true, data: { updated } });
+    } catch (error) {
+      console.error('PATCH /api/pilot/notifications error:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update notifications' },
+        { status: 500 }
+      );
+    }
+  },
+  { access: 'pilot-session' }
+);
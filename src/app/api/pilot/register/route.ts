@@ -4,6 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withExternalAccess } from '@/middleware/auth';
 import { registerPilot, type PilotRegistrationData } from '@/lib/pilot-registration-service';
 import { z } from 'zod';
 
@@ -29,80 +30,83 @@ const registrationSchema = z.object({
   }),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
+export const POST = withExternalAccess(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
 
-    // Validate input
-    const validationResult = registrationSchema.safeParse(body);
+      // Validate input
+      const validationResult = registrationSchema.safeParse(body);
 
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Validation failed',
-          details: validationResult.error.errors.map((err) => ({
-            field: err.path.join('.'),
-            message: err.message,
-          })),
-        },
-        { status: 400 }
-      );
-    }
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Validation failed',
+            details: validationResult.error.errors.map((err) => ({
+              field: err.path.join('.'),
+              message: err.message,
+            })),
+          },
+          { status: 400 }
+        );
+      }
+
+      const data = validationResult.data;
+
+      // Check password confirmation
+      if (data.password !== data.confirmPassword) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Passwords do not match',
+          },
+          { status: 400 }
+        );
+      }
 
-    const data = validationResult.data;
+      // Prepare registration data
+      const registrationData: PilotRegistrationData = {
+        employee_id: data.employee_id,
+        email: data.email,
+        password: data.password,
+        first_name: data.first_name,
+        last_name: data.last_name,
+        rank: data.rank,
+      };
+
+      // Register pilot (service layer handles all business logic)
+      const result = await registerPilot(registrationData);
+
+      if (!result.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.error || 'Registration failed',
+          },
+          { status: 400 }
+        );
+      }
 
-    // Check password confirmation
-    if (data.password !== data.confirmPassword) {
       return NextResponse.json(
         {
-          success: false,
-          error: 'Passwords do not match',
+          success: true,
+          message:
+            'Registration submitted successfully! Please check your email to verify your account. Your registration will be reviewed by an administrator.',
+          userId: result.userId,
         },
-        { status: 400 }
+        { status: 201 }
       );
-    }
-
-    // Prepare registration data
-    const registrationData: PilotRegistrationData = {
-      employee_id: data.employee_id,
-      email: data.email,
-      password: data.password,
-      first_name: data.first_name,
-      last_name: data.last_name,
-      rank: data.rank,
-    };
-
-    // Register pilot (service layer handles all business logic)
-    const result = await registerPilot(registrationData);
-
-    if (!result.success) {
+    } catch (error) {
+      console.error('Registration API error:', error);
       return NextResponse.json(
         {
           success: false,
-          error: result.error || 'Registration failed',
+          error: 'An unexpected error occurred during registration',
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      {
-        success: true,
-        message:
-          'Registration submitted successfully! Please check your email to verify your account. Your registration will be reviewed by an administrator.',
-        userId: result.userId,
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('Registration API error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'An unexpected error occurred during registration',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { access: 'public' }
+);
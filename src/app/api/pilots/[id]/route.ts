@@ -1,37 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission, type PermissionContext } from '@/middleware/auth';
+import { isPilotInScope } from '@/lib/data-scope-service';
 import { deletePilot, getPilotById } from '@/lib/pilot-service';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
+import { isStaleVersion, requestVersion, VERSION_CONFLICT_MESSAGE } from '@/lib/record-version';
 import { logger } from '@/lib/logger';
 
-export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const pilotId = params.id;
+export const DELETE = withPermission(
+  async (request: NextRequest, { user, params }: PermissionContext<{ id: string }>) => {
+    try {
+      const pilotId = params.id;
 
-    logger.debug(' DELETE /api/pilots/[id]: Starting deletion for pilot:', pilotId);
+      logger.debug(' DELETE /api/pilots/[id]: Starting deletion for pilot:', pilotId);
 
-    // Check if pilot exists first
-    const pilot = await getPilotById(pilotId);
-    if (!pilot) {
-      return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
-    }
+      // Check if pilot exists first
+      const pilot = await getPilotById(pilotId);
+      if (!pilot || !(await isPilotInScope(pilot.id, createUserDataScope(user)))) {
+        return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
+      }
+
+      // A delete queued offline is not applied to a pilot edited since
+      const expectedVersion = requestVersion(request);
+      if (expectedVersion && isStaleVersion(expectedVersion, pilot.updated_at)) {
+        return NextResponse.json(
+          { success: false, error: VERSION_CONFLICT_MESSAGE, data: pilot },
+          { status: 409 }
+        );
+      }
+
+      // Perform cascading deletion
+      await deletePilot(pilotId);
 
-    // Perform cascading deletion
-    await deletePilot(pilotId);
-
-    logger.info(' DELETE /api/pilots/[id]: Successfully deleted pilot:', pilotId);
-
-    return NextResponse.json({
-      success: true,
-      message: 'Pilot and all related data deleted successfully',
-    });
-  } catch (error) {
-    logger.error(' DELETE /api/pilots/[id]: Error:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to delete pilot',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      },
-      { status: 500 }
-    );
-  }
-}
+      logger.info(' DELETE /api/pilots/[id]: Successfully deleted pilot:', pilotId);
+
+      await triggerWebhookEvent('pilot.deleted', {
+        pilot: {
+          id: pilot.id,
+          employee_id: pilot.employee_id,
+          first_name: pilot.first_name,
+          last_name: pilot.last_name,
+          role: pilot.role,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Pilot and all related data deleted successfully',
+      });
+    } catch (error) {
+      logger.error(' DELETE /api/pilots/[id]: Error:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to delete pilot',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:delete' }
+);
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { invalidateCache, CACHE_INVALIDATION_PATTERNS } from '@/lib/cache-service';
+import { validateRequest } from '@/lib/validation-schemas';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
+import { pilotInScope, type DataScope } from '@/lib/data-scope';
+import { scopePilotsQuery } from '@/lib/data-scope-service';
+import { isStaleVersion, requestVersion, VERSION_CONFLICT_MESSAGE } from '@/lib/record-version';
 import { logger } from '@/lib/logger';
 
 // Mark this route as dynamic
 export const dynamic = 'force-dynamic';
 
-async function getSinglePilot(pilotId: string) {
+async function getSinglePilot(pilotId: string, scope: DataScope) {
   const supabaseAdmin = getSupabaseAdmin();
   try {
     logger.debug('API /pilots: Fetching pilot', { pilotId });
@@ -23,7 +30,8 @@ async function getSinglePilot(pilotId: string) {
       return NextResponse.json({ success: false, error: pilotError.message }, { status: 500 });
     }
 
-    if (!pilot) {
+    // Pilots outside the user's data scope are reported as not found
+    if (!pilot || !pilotInScope(pilot, scope)) {
       return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
     }
 
@@ -113,268 +121,417 @@ async function getSinglePilot(pilotId: string) {
   }
 }
 
-export async function PUT(request: NextRequest) {
-  const supabaseAdmin = getSupabaseAdmin();
-  try {
-    logger.debug('API /pilots PUT: Starting PUT request', {
-      adminClientType: typeof supabaseAdmin,
-      hasFromMethod: !!supabaseAdmin.from,
-    });
+const blankToNull = (value: unknown) => (value === '' ? null : value);
+const optionalText = z.preprocess(blankToNull, z.string().trim().max(100).nullable().optional());
+const optionalDate = z.preprocess(
+  blankToNull,
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+    .nullable()
+    .optional()
+);
+
+const createPilotSchema = z.object({
+  employee_id: z.string().trim().min(1, 'Employee ID is required').max(20),
+  first_name: z.string().trim().min(1, 'First name is required').max(100),
+  middle_name: optionalText,
+  last_name: z.string().trim().min(1, 'Last name is required').max(100),
+  role: z.enum(['Captain', 'First Officer']),
+  contract_type: optionalText,
+  base: optionalText,
+  fleet: optionalText,
+  nationality: optionalText,
+  passport_number: optionalText,
+  passport_expiry: optionalDate,
+  date_of_birth: optionalDate,
+  commencement_date: optionalDate,
+  is_active: z.boolean().default(true),
+});
+
+/**
+ * POST /api/pilots
+ * Creates a pilot; the seniority number follows from the commencement date
+ * @auth Required - pilot:create permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    const supabaseAdmin = getSupabaseAdmin();
+    try {
+      const body = await request.json();
+      const validation = validateRequest(createPilotSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
 
-    const { searchParams } = new URL(request.url);
-    const pilotId = searchParams.get('id');
+      if (!pilotInScope(validation.data, createUserDataScope(user))) {
+        return NextResponse.json(
+          { success: false, error: 'The pilot is outside your data scope' },
+          { status: 403 }
+        );
+      }
 
-    logger.debug('API /pilots PUT: Request details', { url: request.url, pilotId });
+      let seniorityNumber: number | null = null;
+      if (validation.data.commencement_date) {
+        const { count, error: countError } = await supabaseAdmin
+          .from('pilots')
+          .select('id', { count: 'exact', head: true })
+          .lt('commencement_date', validation.data.commencement_date);
+
+        if (countError) {
+          logger.error('API /pilots POST: Error calculating seniority', countError);
+          return NextResponse.json(
+            { success: false, error: 'Failed to calculate seniority number' },
+            { status: 500 }
+          );
+        }
+        seniorityNumber = (count || 0) + 1;
+      }
 
-    if (!pilotId) {
-      logger.warn('API /pilots PUT: No pilot ID provided');
-      return NextResponse.json({ success: false, error: 'Pilot ID is required' }, { status: 400 });
-    }
+      const { data, error } = await supabaseAdmin
+        .from('pilots')
+        .insert({ ...validation.data, seniority_number: seniorityNumber })
+        .select()
+        .single();
 
-    const body = await request.json();
-    logger.debug('API /pilots PUT: Updating pilot', {
-      pilotId,
-      bodyKeys: Object.keys(body),
-    });
+      if (error) {
+        logger.error('API /pilots POST: Supabase error', error);
+        return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+      }
 
-    // First check if pilot exists
-    const { data: existingPilot, error: checkError } = await supabaseAdmin
-      .from('pilots')
-      .select('id, employee_id, first_name, last_name')
-      .eq('id', pilotId)
-      .single();
+      logger.info('API /pilots POST: Created pilot', { pilotId: data.id });
 
-    if (checkError) {
-      logger.error('API /pilots PUT: Error checking existing pilot', checkError);
-      return NextResponse.json(
-        { success: false, error: `Pilot not found: ${checkError.message}` },
-        { status: 404 }
-      );
+      invalidateCache([...CACHE_INVALIDATION_PATTERNS.PILOT_DATA_UPDATED]);
+
+      await triggerWebhookEvent('pilot.created', { pilot: data });
+
+      return NextResponse.json({ success: true, data }, { status: 201 });
+    } catch (error) {
+      logger.error('API /pilots POST: Fatal error', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
     }
+  },
+  { permission: 'pilot:create' }
+);
 
-    logger.debug('API /pilots PUT: Found existing pilot', { existingPilot });
-
-    // Clean and validate the body data
-    const cleanedBody = { ...body };
-
-    // Handle contract_type: validate against existing contract types or set to null
-    if (cleanedBody.contract_type === '' || cleanedBody.contract_type === undefined) {
-      cleanedBody.contract_type = null;
-    } else if (cleanedBody.contract_type) {
-      // Validate contract type exists in database
-      const { data: contractTypeExists } = await supabaseAdmin
-        .from('contract_types')
-        .select('name')
-        .eq('name', cleanedBody.contract_type)
-        .eq('is_active', true)
-        .single();
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    const supabaseAdmin = getSupabaseAdmin();
+    try {
+      logger.debug('API /pilots PUT: Starting PUT request', {
+        adminClientType: typeof supabaseAdmin,
+        hasFromMethod: !!supabaseAdmin.from,
+      });
+
+      const { searchParams } = new URL(request.url);
+      const pilotId = searchParams.get('id');
+
+      logger.debug('API /pilots PUT: Request details', { url: request.url, pilotId });
 
-      if (!contractTypeExists) {
-        logger.warn('API /pilots PUT: Invalid contract type', { contractType: cleanedBody.contract_type });
+      if (!pilotId) {
+        logger.warn('API /pilots PUT: No pilot ID provided');
         return NextResponse.json(
-          {
-            success: false,
-            error: `Invalid contract type: ${cleanedBody.contract_type}. Valid types are: Fulltime, Commuting, Tours`,
-          },
+          { success: false, error: 'Pilot ID is required' },
           { status: 400 }
         );
       }
-    }
 
-    // Handle middle_name: convert empty string to null
-    if (cleanedBody.middle_name === '') {
-      cleanedBody.middle_name = null;
-    }
+      const body = await request.json();
+      logger.debug('API /pilots PUT: Updating pilot', {
+        pilotId,
+        bodyKeys: Object.keys(body),
+      });
 
-    logger.debug('API /pilots PUT: Cleaned body for update', { bodyKeys: Object.keys(cleanedBody) });
+      // First check if pilot exists
+      const { data: existingPilot, error: checkError } = await supabaseAdmin
+        .from('pilots')
+        .select()
+        .eq('id', pilotId)
+        .single();
 
-    // Use service role client to bypass RLS
-    logger.debug('API /pilots PUT: Performing update');
+      if (checkError) {
+        logger.error('API /pilots PUT: Error checking existing pilot', checkError);
+        return NextResponse.json(
+          { success: false, error: `Pilot not found: ${checkError.message}` },
+          { status: 404 }
+        );
+      }
 
-    try {
-      // Test if we can do a simple select first
-      logger.debug('Testing service role with simple select');
-      const testResult = await supabaseAdmin.from('pilots').select('id').eq('id', pilotId).single();
-
-      logger.debug('Test select result', {
-        success: !testResult.error,
-        error: testResult.error?.message,
-        hasData: !!testResult.data,
-      });
-    } catch (testError) {
-      logger.error('Test select failed', testError);
-    }
+      const scope = createUserDataScope(user);
+      if (!pilotInScope(existingPilot, scope)) {
+        return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
+      }
+
+      logger.debug('API /pilots PUT: Found existing pilot', { pilotId });
 
-    logger.debug('Now attempting actual update');
-    const { error } = await supabaseAdmin.from('pilots').update(cleanedBody).eq('id', pilotId);
+      // Changes replayed from the offline queue must not overwrite newer edits
+      const expectedVersion = requestVersion(request);
+      if (expectedVersion && isStaleVersion(expectedVersion, existingPilot.updated_at)) {
+        logger.warn('API /pilots PUT: Version conflict', {
+          pilotId,
+          expectedVersion,
+          currentVersion: existingPilot.updated_at,
+        });
+        return NextResponse.json(
+          { success: false, error: VERSION_CONFLICT_MESSAGE, data: existingPilot },
+          { status: 409 }
+        );
+      }
 
-    if (error) {
-      logger.error('API /pilots PUT: Supabase error', error, {
-        code: error.code,
-        details: error.details,
+      // Clean and validate the body data
+      const cleanedBody = { ...body };
+
+      // Handle contract_type: validate against existing contract types or set to null
+      if (cleanedBody.contract_type === '' || cleanedBody.contract_type === undefined) {
+        cleanedBody.contract_type = null;
+      } else if (cleanedBody.contract_type) {
+        // Validate contract type exists in database
+        const { data: contractTypeExists } = await supabaseAdmin
+          .from('contract_types')
+          .select('name')
+          .eq('name', cleanedBody.contract_type)
+          .eq('is_active', true)
+          .single();
+
+        if (!contractTypeExists) {
+          logger.warn('API /pilots PUT: Invalid contract type', {
+            contractType: cleanedBody.contract_type,
+          });
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Invalid contract type: ${cleanedBody.contract_type}. Valid types are: Fulltime, Commuting, Tours`,
+            },
+            { status: 400 }
+          );
+        }
+      }
+
+      // Handle middle_name: convert empty string to null
+      if (cleanedBody.middle_name === '') {
+        cleanedBody.middle_name = null;
+      }
+
+      // A pilot cannot be moved outside the scope
+      if (!pilotInScope({ ...existingPilot, ...cleanedBody }, scope)) {
+        return NextResponse.json(
+          { success: false, error: 'The pilot would be outside your data scope' },
+          { status: 403 }
+        );
+      }
+
+      logger.debug('API /pilots PUT: Cleaned body for update', {
+        bodyKeys: Object.keys(cleanedBody),
       });
-      return NextResponse.json(
-        {
-          success: false,
-          error: error.message,
-          details: error.details,
-          code: error.code,
-          hint: error.hint,
-        },
-        { status: 500 }
-      );
-    }
 
-    // Fetch fresh data after update to avoid cache issues
-    logger.debug('Fetching fresh data after update');
-    const { data: freshData, error: fetchError } = await supabaseAdmin
-      .from('pilots')
-      .select()
-      .eq('id', pilotId)
-      .single();
+      // Use service role client to bypass RLS
+      logger.debug('API /pilots PUT: Performing update');
 
-    if (fetchError || !freshData) {
-      logger.error('API /pilots PUT: Error fetching updated data', fetchError);
-      return NextResponse.json(
-        { success: false, error: 'Update succeeded but failed to fetch updated data' },
-        { status: 500 }
-      );
-    }
+      try {
+        // Test if we can do a simple select first
+        logger.debug('Testing service role with simple select');
+        const testResult = await supabaseAdmin
+          .from('pilots')
+          .select('id')
+          .eq('id', pilotId)
+          .single();
+
+        logger.debug('Test select result', {
+          success: !testResult.error,
+          error: testResult.error?.message,
+          hasData: !!testResult.data,
+        });
+      } catch (testError) {
+        logger.error('Test select failed', testError);
+      }
 
-    logger.info('API /pilots PUT: Successfully updated pilot', { pilotId });
+      logger.debug('Now attempting actual update');
+      const { error } = await supabaseAdmin.from('pilots').update(cleanedBody).eq('id', pilotId);
 
-    // Invalidate cache since pilot data was updated
-    invalidateCache([...CACHE_INVALIDATION_PATTERNS.PILOT_DATA_UPDATED]);
-    logger.debug('Cache invalidated for pilot data update');
+      if (error) {
+        logger.error('API /pilots PUT: Supabase error', error, {
+          code: error.code,
+          details: error.details,
+        });
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            details: error.details,
+            code: error.code,
+            hint: error.hint,
+          },
+          { status: 500 }
+        );
+      }
 
-    return NextResponse.json({
-      success: true,
-      data: freshData,
-    });
-  } catch (error) {
-    logger.error('API /pilots PUT: Fatal error', error);
-    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+      // Fetch fresh data after update to avoid cache issues
+      logger.debug('Fetching fresh data after update');
+      const { data: freshData, error: fetchError } = await supabaseAdmin
+        .from('pilots')
+        .select()
+        .eq('id', pilotId)
+        .single();
 
-export async function GET(request: NextRequest) {
-  const supabaseAdmin = getSupabaseAdmin();
-  try {
-    const { searchParams } = new URL(request.url);
-    const pilotId = searchParams.get('id');
+      if (fetchError || !freshData) {
+        logger.error('API /pilots PUT: Error fetching updated data', fetchError);
+        return NextResponse.json(
+          { success: false, error: 'Update succeeded but failed to fetch updated data' },
+          { status: 500 }
+        );
+      }
 
-    if (pilotId) {
-      logger.debug('API /pilots: Fetching single pilot', { pilotId });
-      return await getSinglePilot(pilotId);
-    }
+      logger.info('API /pilots PUT: Successfully updated pilot', { pilotId });
 
-    logger.debug('API /pilots: Fetching all pilots with service role');
+      // Invalidate cache since pilot data was updated
+      invalidateCache([...CACHE_INVALIDATION_PATTERNS.PILOT_DATA_UPDATED]);
+      logger.debug('Cache invalidated for pilot data update');
 
-    // Get all pilots using service role (bypasses RLS) ordered by seniority
-    const { data: pilots, error: pilotsError } = await supabaseAdmin
-      .from('pilots')
-      .select('*')
-      .order('seniority_number', { ascending: true, nullsFirst: false });
+      await triggerWebhookEvent('pilot.updated', {
+        pilot: freshData,
+        changed_fields: Object.keys(cleanedBody),
+      });
 
-    if (pilotsError) {
-      logger.error('API /pilots: Error fetching pilots', pilotsError);
-      return NextResponse.json({ success: false, error: pilotsError.message }, { status: 500 });
+      return NextResponse.json({
+        success: true,
+        data: freshData,
+      });
+    } catch (error) {
+      logger.error('API /pilots PUT: Fatal error', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
     }
+  },
+  { permission: 'pilot:update' }
+);
 
-    logger.debug('API /pilots: Found pilots', { count: pilots?.length || 0 });
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    const supabaseAdmin = getSupabaseAdmin();
+    try {
+      const { searchParams } = new URL(request.url);
+      const pilotId = searchParams.get('id');
+      const scope = createUserDataScope(user);
 
-    // ✅ PERFORMANCE OPTIMIZATION: Single query instead of N+1 queries
-    // Fetch all pilot checks in one query with JOIN to avoid N+1 problem
-    const { data: allPilotChecks, error: checksError } = await supabaseAdmin
-      .from('pilot_checks')
-      .select(
-        `
-        pilot_id,
-        expiry_date,
-        check_types (check_code, check_description, category)
-      `
-      )
-      .in(
-        'pilot_id',
-        (pilots || []).map((p: any) => p.id)
-      )
-      .order('pilot_id');
-
-    if (checksError) {
-      logger.error('API /pilots: Error fetching pilot checks', checksError);
-      // Continue with pilots data even if checks fail
-    }
+      if (pilotId) {
+        logger.debug('API /pilots: Fetching single pilot', { pilotId });
+        return await getSinglePilot(pilotId, scope);
+      }
 
-    logger.debug('API /pilots: Fetched certification records', {
-      count: allPilotChecks?.length || 0,
-    });
+      logger.debug('API /pilots: Fetching all pilots with service role');
+
+      // Get the pilots in the user's data scope using service role (bypasses RLS) ordered by seniority
+      const { data: pilots, error: pilotsError } = await scopePilotsQuery(
+        supabaseAdmin.from('pilots').select('*'),
+        scope
+      ).order('seniority_number', { ascending: true, nullsFirst: false });
 
-    // Group checks by pilot_id for efficient lookup
-    const checksByPilot = (allPilotChecks || []).reduce((acc: any, check: any) => {
-      if (!acc[check.pilot_id]) {
-        acc[check.pilot_id] = [];
+      if (pilotsError) {
+        logger.error('API /pilots: Error fetching pilots', pilotsError);
+        return NextResponse.json({ success: false, error: pilotsError.message }, { status: 500 });
       }
-      acc[check.pilot_id].push(check);
-      return acc;
-    }, {});
 
-    // Calculate certification status for each pilot
-    const today = new Date();
-    const pilotsWithCerts = (pilots || []).map((pilot: any) => {
-      const certifications = checksByPilot[pilot.id] || [];
-
-      const certificationCounts = certifications.reduce(
-        (acc: any, check: any) => {
-          if (!check.expiry_date) {
-            return acc; // Skip checks without expiry dates
-          }
-
-          const expiryDate = new Date(check.expiry_date);
-          const daysUntilExpiry = Math.ceil(
-            (expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-          );
+      logger.debug('API /pilots: Found pilots', { count: pilots?.length || 0 });
 
-          if (daysUntilExpiry < 0) {
-            acc.expired++;
-          } else if (daysUntilExpiry <= 30) {
-            acc.expiring++;
-          } else {
-            acc.current++;
-          }
-
-          return acc;
-        },
-        { current: 0, expiring: 0, expired: 0 }
-      );
+      // ✅ PERFORMANCE OPTIMIZATION: Single query instead of N+1 queries
+      // Fetch all pilot checks in one query with JOIN to avoid N+1 problem
+      const { data: allPilotChecks, error: checksError } = await supabaseAdmin
+        .from('pilot_checks')
+        .select(
+          `
+          pilot_id,
+          expiry_date,
+          check_types (check_code, check_description, category)
+        `
+        )
+        .in(
+          'pilot_id',
+          (pilots || []).map((p: any) => p.id)
+        )
+        .order('pilot_id');
+
+      if (checksError) {
+        logger.error('API /pilots: Error fetching pilot checks', checksError);
+        // Continue with pilots data even if checks fail
+      }
 
-      return {
-        ...pilot,
-        certificationStatus: certificationCounts,
-        // Add total count for completeness
-        total_checks: certifications.length,
-        current_checks: certificationCounts.current,
-        expiring_checks: certificationCounts.expiring,
-        expired_checks: certificationCounts.expired,
-      };
-    });
+      logger.debug('API /pilots: Fetched certification records', {
+        count: allPilotChecks?.length || 0,
+      });
 
-    logger.debug('API /pilots: Returning pilots with certification data', {
-      count: pilotsWithCerts.length,
-    });
+      // Group checks by pilot_id for efficient lookup
+      const checksByPilot = (allPilotChecks || []).reduce((acc: any, check: any) => {
+        if (!acc[check.pilot_id]) {
+          acc[check.pilot_id] = [];
+        }
+        acc[check.pilot_id].push(check);
+        return acc;
+      }, {});
+
+      // Calculate certification status for each pilot
+      const today = new Date();
+      const pilotsWithCerts = (pilots || []).map((pilot: any) => {
+        const certifications = checksByPilot[pilot.id] || [];
+
+        const certificationCounts = certifications.reduce(
+          (acc: any, check: any) => {
+            if (!check.expiry_date) {
+              return acc; // Skip checks without expiry dates
+            }
+
+            const expiryDate = new Date(check.expiry_date);
+            const daysUntilExpiry = Math.ceil(
+              (expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
+            );
+
+            if (daysUntilExpiry < 0) {
+              acc.expired++;
+            } else if (daysUntilExpiry <= 30) {
+              acc.expiring++;
+            } else {
+              acc.current++;
+            }
+
+            return acc;
+          },
+          { current: 0, expiring: 0, expired: 0 }
+        );
 
-    const response = NextResponse.json({
-      success: true,
-      data: pilotsWithCerts,
-    });
+        return {
+          ...pilot,
+          certificationStatus: certificationCounts,
+          // Add total count for completeness
+          total_checks: certifications.length,
+          current_checks: certificationCounts.current,
+          expiring_checks: certificationCounts.expiring,
+          expired_checks: certificationCounts.expired,
+        };
+      });
 
-    // Add cache control headers to prevent caching
-    response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
-    response.headers.set('Pragma', 'no-cache');
-    response.headers.set('Expires', '0');
+      logger.debug('API /pilots: Returning pilots with certification data', {
+        count: pilotsWithCerts.length,
+      });
 
-    return response;
-  } catch (error) {
-    logger.error('API /pilots: Fatal error', error);
-    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
-  }
-}
+      const response = NextResponse.json({
+        success: true,
+        data: pilotsWithCerts,
+      });
+
+      // Add cache control headers to prevent caching
+      response.headers.set(
+        'Cache-Control',
+        'no-store, no-cache, must-revalidate, proxy-revalidate'
+      );
+      response.headers.set('Pragma', 'no-cache');
+      response.headers.set('Expires', '0');
+
+      return response;
+    } catch (error) {
+      logger.error('API /pilots: Fatal error', error);
+      return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+    }
+  },
+  { permission: 'pilot:read' }
+);
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import React from 'react';
 import { renderToBuffer } from '@react-pdf/renderer';
@@ -11,214 +12,231 @@ import {
 } from '@/lib/pdf-fleet-management';
 import { validatePDFRequest, validateReportType, validateUUID } from '@/lib/pdf-validation';
 import { logger } from '@/lib/logger';
+import { isPilotInScope } from '@/lib/data-scope-service';
 
 /**
  * PDF Report Generation API Endpoint
  * Generates professional PDF reports for Air Niugini B767 fleet operations
  */
-export async function POST(request: NextRequest) {
-  try {
-    const requestData = await request.json();
-
-    // Validate request structure
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
     try {
-      validatePDFRequest(requestData);
-    } catch (validationError) {
-      logger.error(' API /reports/pdf: Validation error:', validationError);
-      return NextResponse.json(
-        {
-          success: false,
-          error:
-            validationError instanceof Error ? validationError.message : 'Invalid request format',
-        },
-        { status: 400 }
-      );
-    }
-
-    const { reportType, pilotId, generatedBy = 'System' } = requestData;
-
-    logger.debug(`🔍 API /reports/pdf: Generating ${reportType} PDF report`);
+      const requestData = await request.json();
 
-    // Validate report type
-    try {
-      validateReportType(reportType);
-    } catch (error) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: error instanceof Error ? error.message : 'Invalid report type',
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate pilot ID if provided
-    if (pilotId) {
+      // Validate request structure
       try {
-        validateUUID(pilotId);
-      } catch (error) {
+        validatePDFRequest(requestData);
+      } catch (validationError) {
+        logger.error(' API /reports/pdf: Validation error:', validationError);
         return NextResponse.json(
           {
             success: false,
-            error: 'Invalid pilot ID format',
+            error:
+              validationError instanceof Error ? validationError.message : 'Invalid request format',
           },
           { status: 400 }
         );
       }
-    }
 
-    let pdfBuffer: Buffer;
-    let filename: string;
+      const { reportType, pilotId, generatedBy = 'System' } = requestData;
 
-    // Generate PDF based on report type
-    switch (reportType) {
-      case 'fleet-compliance': {
-        const reportData = await pdfReportDataService.generateComplianceReportData(
-          reportType,
-          generatedBy
-        );
-        pdfBuffer = await renderToBuffer(
-          CompliancePDFDocument({ reportData }) as React.ReactElement
-        );
-        filename = `fleet-compliance-report-${new Date().toISOString().split('T')[0]}.pdf`;
-        break;
-      }
+      logger.debug(`🔍 API /reports/pdf: Generating ${reportType} PDF report`);
 
-      case 'risk-assessment': {
-        const reportData = await pdfReportDataService.generateComplianceReportData(
-          reportType,
-          generatedBy
-        );
-        pdfBuffer = await renderToBuffer(
-          RiskAssessmentPDFDocument({ reportData }) as React.ReactElement
-        );
-        filename = `risk-assessment-report-${new Date().toISOString().split('T')[0]}.pdf`;
-        break;
-      }
-
-      case 'pilot-summary': {
-        const reportData = await pdfReportDataService.generatePilotReportData(
-          reportType,
-          generatedBy
-        );
-        pdfBuffer = await renderToBuffer(
-          PilotSummaryPDFDocument({ reportData }) as React.ReactElement
+      // Validate report type
+      try {
+        validateReportType(reportType);
+      } catch (error) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error instanceof Error ? error.message : 'Invalid report type',
+          },
+          { status: 400 }
         );
-        filename = `pilot-summary-report-${new Date().toISOString().split('T')[0]}.pdf`;
-        break;
       }
 
-      case 'pilot-individual': {
-        if (!pilotId) {
+      // Validate pilot ID if provided
+      if (pilotId) {
+        try {
+          validateUUID(pilotId);
+        } catch (error) {
           return NextResponse.json(
             {
               success: false,
-              error: 'Pilot ID is required for individual pilot reports',
+              error: 'Invalid pilot ID format',
             },
             { status: 400 }
           );
         }
+      }
 
-        const reportData = await pdfReportDataService.generatePilotReportData(
-          reportType,
-          generatedBy,
-          pilotId
+      // Fleet-wide reports cover every pilot, so a limited data scope only gets
+      // the reports of individual pilots within it
+      const scope = createUserDataScope(user);
+      if (reportType !== 'pilot-individual' && !scope.unrestricted) {
+        return NextResponse.json(
+          { success: false, error: 'Fleet-wide reports require access to all pilots' },
+          { status: 403 }
         );
+      }
+      if (pilotId && !(await isPilotInScope(pilotId, scope))) {
+        return NextResponse.json({ success: false, error: 'Pilot not found' }, { status: 404 });
+      }
 
-        if (reportData.pilots.length === 0) {
-          return NextResponse.json(
-            {
-              success: false,
-              error: 'Pilot not found',
-            },
-            { status: 404 }
+      let pdfBuffer: Buffer;
+      let filename: string;
+
+      // Generate PDF based on report type
+      switch (reportType) {
+        case 'fleet-compliance': {
+          const reportData = await pdfReportDataService.generateComplianceReportData(
+            reportType,
+            generatedBy
+          );
+          pdfBuffer = await renderToBuffer(
+            CompliancePDFDocument({ reportData }) as React.ReactElement
           );
+          filename = `fleet-compliance-report-${new Date().toISOString().split('T')[0]}.pdf`;
+          break;
         }
 
-        const pilotRecord = reportData.pilots[0];
+        case 'risk-assessment': {
+          const reportData = await pdfReportDataService.generateComplianceReportData(
+            reportType,
+            generatedBy
+          );
+          pdfBuffer = await renderToBuffer(
+            RiskAssessmentPDFDocument({ reportData }) as React.ReactElement
+          );
+          filename = `risk-assessment-report-${new Date().toISOString().split('T')[0]}.pdf`;
+          break;
+        }
 
-        if (!pilotRecord) {
-          return NextResponse.json(
-            { success: false, error: 'No pilot data found for report' },
-            { status: 404 }
+        case 'pilot-summary': {
+          const reportData = await pdfReportDataService.generatePilotReportData(
+            reportType,
+            generatedBy
+          );
+          pdfBuffer = await renderToBuffer(
+            PilotSummaryPDFDocument({ reportData }) as React.ReactElement
           );
+          filename = `pilot-summary-report-${new Date().toISOString().split('T')[0]}.pdf`;
+          break;
         }
 
-        pdfBuffer = await renderToBuffer(
-          IndividualPilotPDFDocument({
-            pilotRecord,
-            metadata: reportData.metadata,
-          }) as React.ReactElement
-        );
-        filename = `pilot-${pilotRecord.pilot.employee_id}-report-${new Date().toISOString().split('T')[0]}.pdf`;
-        break;
-      }
+        case 'pilot-individual': {
+          if (!pilotId) {
+            return NextResponse.json(
+              {
+                success: false,
+                error: 'Pilot ID is required for individual pilot reports',
+              },
+              { status: 400 }
+            );
+          }
+
+          const reportData = await pdfReportDataService.generatePilotReportData(
+            reportType,
+            generatedBy,
+            pilotId
+          );
 
-      case 'fleet-management': {
-        const reportData = await pdfReportDataService.generateFleetManagementReportData(
-          reportType,
-          generatedBy
-        );
-        pdfBuffer = await renderToBuffer(
-          FleetManagementPDFDocument({ reportData }) as React.ReactElement
-        );
-        filename = `fleet-management-report-${new Date().toISOString().split('T')[0]}.pdf`;
-        break;
-      }
+          if (reportData.pilots.length === 0) {
+            return NextResponse.json(
+              {
+                success: false,
+                error: 'Pilot not found',
+              },
+              { status: 404 }
+            );
+          }
+
+          const pilotRecord = reportData.pilots[0];
+
+          if (!pilotRecord) {
+            return NextResponse.json(
+              { success: false, error: 'No pilot data found for report' },
+              { status: 404 }
+            );
+          }
+
+          pdfBuffer = await renderToBuffer(
+            IndividualPilotPDFDocument({
+              pilotRecord,
+              metadata: reportData.metadata,
+            }) as React.ReactElement
+          );
+          filename = `pilot-${pilotRecord.pilot.employee_id}-report-${new Date().toISOString().split('T')[0]}.pdf`;
+          break;
+        }
 
-      case 'operational-readiness': {
-        const reportData = await pdfReportDataService.generateFleetManagementReportData(
-          reportType,
-          generatedBy
-        );
-        pdfBuffer = await renderToBuffer(
-          OperationalReadinessPDFDocument({
-            operationalReadiness: reportData.operationalReadiness,
-            metadata: reportData.metadata,
-          }) as React.ReactElement
-        );
-        filename = `operational-readiness-report-${new Date().toISOString().split('T')[0]}.pdf`;
-        break;
+        case 'fleet-management': {
+          const reportData = await pdfReportDataService.generateFleetManagementReportData(
+            reportType,
+            generatedBy
+          );
+          pdfBuffer = await renderToBuffer(
+            FleetManagementPDFDocument({ reportData }) as React.ReactElement
+          );
+          filename = `fleet-management-report-${new Date().toISOString().split('T')[0]}.pdf`;
+          break;
+        }
+
+        case 'operational-readiness': {
+          const reportData = await pdfReportDataService.generateFleetManagementReportData(
+            reportType,
+            generatedBy
+          );
+          pdfBuffer = await renderToBuffer(
+            OperationalReadinessPDFDocument({
+              operationalReadiness: reportData.operationalReadiness,
+              metadata: reportData.metadata,
+            }) as React.ReactElement
+          );
+          filename = `operational-readiness-report-${new Date().toISOString().split('T')[0]}.pdf`;
+          break;
+        }
+
+        default:
+          return NextResponse.json(
+            {
+              success: false,
+              error: 'Report type not implemented',
+            },
+            { status: 501 }
+          );
       }
 
-      default:
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'Report type not implemented',
-          },
-          { status: 501 }
-        );
-    }
+      logger.debug(
+        `✅ API /reports/pdf: Successfully generated ${reportType} PDF (${pdfBuffer.length} bytes)`
+      );
+
+      // Return PDF as response
+      return new NextResponse(new Uint8Array(pdfBuffer), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Length': pdfBuffer.length.toString(),
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-cache, no-store, must-revalidate',
+          Pragma: 'no-cache',
+          Expires: '0',
+        },
+      });
+    } catch (error) {
+      logger.error(' API /reports/pdf: Error generating PDF:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : String(error),
+      });
 
-    logger.debug(
-      `✅ API /reports/pdf: Successfully generated ${reportType} PDF (${pdfBuffer.length} bytes)`
-    );
-
-    // Return PDF as response
-    return new NextResponse(new Uint8Array(pdfBuffer), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Length': pdfBuffer.length.toString(),
-        'Content-Disposition': `attachment; filename="${filename}"`,
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        Pragma: 'no-cache',
-        Expires: '0',
-      },
-    });
-  } catch (error) {
-    logger.error(' API /reports/pdf: Error generating PDF:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : String(error),
-    });
-
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to generate PDF report',
-      },
-      { status: 500 }
-    );
-  }
-}
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to generate PDF report',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'reports:export' }
+);
@@ -1,79 +1,91 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createUserDataScope, withPermission } from '@/middleware/auth';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { pdfReportDataService } from '@/lib/pdf-data-service';
 import { logger } from '@/lib/logger';
 
-export async function GET(request: NextRequest) {
-  const supabaseAdmin = getSupabaseAdmin();
-  const { searchParams } = new URL(request.url);
-  const reportType = searchParams.get('type');
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    const supabaseAdmin = getSupabaseAdmin();
+    const { searchParams } = new URL(request.url);
+    const reportType = searchParams.get('type');
+
+    // These reports summarise every pilot and are not available to a limited data scope
+    if (!createUserDataScope(user).unrestricted) {
+      return NextResponse.json(
+        { success: false, error: 'Fleet-wide reports require access to all pilots' },
+        { status: 403 }
+      );
+    }
 
-  logger.debug(`🔍 API /reports: Generating ${reportType} report...`);
+    logger.debug(`🔍 API /reports: Generating ${reportType} report...`);
+
+    try {
+      switch (reportType) {
+        // NEW CONSOLIDATED REPORT TYPES (Phase 2 Consolidation)
+        case 'compliance-dashboard':
+          // Merges: Fleet Compliance + Risk Assessment + Operational Readiness
+          return await generateFleetComplianceReport(supabaseAdmin);
+
+        case 'pilot-management':
+          // Merges: Pilot Summary + Fleet Management
+          return await generateFleetManagementReport(supabaseAdmin);
+
+        case 'certification-planning':
+          // Merges: Certification Forecast + Planning & Rostering
+          return await generatePlanningRosteringReport(supabaseAdmin);
+
+        case 'operational-status':
+          // Real-time operational capacity and crew availability
+          return await generateOperationalReadinessReport(supabaseAdmin);
+
+        case 'fleet-analytics':
+          // Advanced performance metrics and analytics
+          return await generateFleetAnalyticsReport(supabaseAdmin);
+
+        // LEGACY REPORT TYPES (backwards compatibility)
+        case 'fleet-compliance':
+          return await generateFleetComplianceReport(supabaseAdmin);
+        case 'risk-assessment':
+          return await generateRiskAssessmentReport(supabaseAdmin);
+        case 'pilot-summary':
+          return await generatePilotSummaryReport(supabaseAdmin);
+        case 'fleet-management':
+          return await generateFleetManagementReport(supabaseAdmin);
+        case 'certification-forecast':
+          return await generateCertificationForecastReport(supabaseAdmin);
+        case 'operational-readiness':
+          return await generateOperationalReadinessReport(supabaseAdmin);
+        case 'planning-rostering':
+          return await generatePlanningRosteringReport(supabaseAdmin);
+
+        default:
+          return NextResponse.json(
+            {
+              success: false,
+              error: 'Invalid report type',
+            },
+            { status: 400 }
+          );
+      }
+    } catch (error) {
+      logger.error(' API /reports: Error generating report:', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        details: error instanceof Error ? error.stack : String(error),
+        reportType,
+      });
 
-  try {
-    switch (reportType) {
-      // NEW CONSOLIDATED REPORT TYPES (Phase 2 Consolidation)
-      case 'compliance-dashboard':
-        // Merges: Fleet Compliance + Risk Assessment + Operational Readiness
-        return await generateFleetComplianceReport(supabaseAdmin);
-
-      case 'pilot-management':
-        // Merges: Pilot Summary + Fleet Management
-        return await generateFleetManagementReport(supabaseAdmin);
-
-      case 'certification-planning':
-        // Merges: Certification Forecast + Planning & Rostering
-        return await generatePlanningRosteringReport(supabaseAdmin);
-
-      case 'operational-status':
-        // Real-time operational capacity and crew availability
-        return await generateOperationalReadinessReport(supabaseAdmin);
-
-      case 'fleet-analytics':
-        // Advanced performance metrics and analytics
-        return await generateFleetAnalyticsReport(supabaseAdmin);
-
-      // LEGACY REPORT TYPES (backwards compatibility)
-      case 'fleet-compliance':
-        return await generateFleetComplianceReport(supabaseAdmin);
-      case 'risk-assessment':
-        return await generateRiskAssessmentReport(supabaseAdmin);
-      case 'pilot-summary':
-        return await generatePilotSummaryReport(supabaseAdmin);
-      case 'fleet-management':
-        return await generateFleetManagementReport(supabaseAdmin);
-      case 'certification-forecast':
-        return await generateCertificationForecastReport(supabaseAdmin);
-      case 'operational-readiness':
-        return await generateOperationalReadinessReport(supabaseAdmin);
-      case 'planning-rostering':
-        return await generatePlanningRosteringReport(supabaseAdmin);
-
-      default:
-        return NextResponse.json(
-          {
-            success: false,
-            error: 'Invalid report type',
-          },
-          { status: 400 }
-        );
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Failed to generate report',
+        },
+        { status: 500 }
+      );
     }
-  } catch (error) {
-    logger.error(' API /reports: Error generating report:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      details: error instanceof Error ? error.stack : String(error),
-      reportType,
-    });
-
-    return NextResponse.json(
-      {
-        success: false,
-        error: 'Failed to generate report',
-      },
-      { status: 500 }
-    );
-  }
-}
+  },
+  { permission: 'reports:view' }
+);
 
 async function generateFleetComplianceReport(supabaseAdmin: any) {
   // Get all pilots with their certifications
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Roster Calendar API Routes
+ * Lists, previews and re-anchors roster periods backed by the settings table
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseISO } from 'date-fns';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { getCurrentRosterPeriod, listRosterPeriods } from '@/lib/roster-utils';
+import {
+  loadRosterCalendar,
+  previewRosterCalendar,
+  reanchorRosterCalendar,
+  saveRosterCalendarConfig,
+} from '@/lib/roster-calendar-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in yyyy-MM-dd format');
+
+const anchorSchema = z.object({
+  number: z.number().int().min(1),
+  year: z.number().int().min(2000).max(2100),
+  startDate: isoDate,
+  note: z.string().max(500).optional(),
+});
+
+const calendarSchema = z.object({
+  periodLengthDays: z.number().int().min(1).max(366),
+  periodsPerYear: z.number().int().min(1).max(52),
+  publicationLeadDays: z.number().int().min(0).max(365),
+  lockLeadDays: z.number().int().min(0).max(365),
+  bidLeadDays: z.number().int().min(0).max(365).optional(),
+  anchors: z.array(anchorSchema).min(1),
+  stubPeriods: z.array(
+    anchorSchema.extend({
+      lengthDays: z.number().int().min(1).max(366),
+    })
+  ),
+  periodOverrides: z.record(
+    z.string(),
+    z.object({
+      publicationDate: isoDate.optional(),
+      lockDate: isoDate.optional(),
+      bidDeadline: isoDate.optional(),
+    })
+  ),
+});
+
+const previewSchema = z.object({
+  config: calendarSchema.partial(),
+  from: isoDate.optional(),
+  count: z.number().int().min(1).max(104).optional(),
+});
+
+const updateSchema = z.union([
+  z.object({ anchor: anchorSchema }),
+  z.object({ config: calendarSchema }),
+]);
+
+/**
+ * GET /api/roster-calendar
+ * Returns the active calendar and a list of periods (?from=yyyy-MM-dd&count=13)
+ * ?view=config returns only the calendar configuration
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const config = await loadRosterCalendar();
+
+      if (searchParams.get('view') === 'config') {
+        return NextResponse.json({ success: true, data: { config } });
+      }
+
+      const from = searchParams.get('from');
+      const count = Math.min(parseInt(searchParams.get('count') || '13', 10) || 13, 104);
+      const fromDate = from ? parseISO(from) : new Date();
+
+      if (isNaN(fromDate.getTime())) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid from date, expected yyyy-MM-dd' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          config,
+          current: getCurrentRosterPeriod(),
+          periods: listRosterPeriods(fromDate, count),
+        },
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/roster-calendar:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch roster calendar' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:read' }
+);
+
+/**
+ * POST /api/roster-calendar
+ * Previews a candidate calendar without saving it
+ * @auth Required - leave:read permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(previewSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      await loadRosterCalendar();
+      const { config, from, count } = validation.data;
+      const preview = previewRosterCalendar(config, {
+        from: from ? parseISO(from) : undefined,
+        count,
+      });
+
+      return NextResponse.json({ success: preview.errors.length === 0, data: preview });
+    } catch (error) {
+      logger.error('Error in POST /api/roster-calendar:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to preview roster calendar' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'leave:read' }
+);
+
+/**
+ * PUT /api/roster-calendar
+ * Re-anchors the calendar ({ anchor }) or replaces it ({ config })
+ * @auth Required - system:settings permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      if ('anchor' in validation.data) {
+        const preview = await reanchorRosterCalendar(validation.data.anchor);
+        if (preview.errors.length > 0) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid roster calendar', details: preview.errors },
+            { status: 400 }
+          );
+        }
+
+        logger.info('Roster calendar re-anchored', {
+          anchor: validation.data.anchor,
+          changedPeriods: preview.changes.length,
+          userId: user.id,
+        });
+
+        return NextResponse.json({ success: true, data: preview });
+      }
+
+      await loadRosterCalendar();
+      const preview = previewRosterCalendar(validation.data.config);
+      if (preview.errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid roster calendar', details: preview.errors },
+          { status: 400 }
+        );
+      }
+
+      await saveRosterCalendarConfig(preview.config);
+      logger.info('Roster calendar replaced', { userId: user.id });
+
+      return NextResponse.json({ success: true, data: preview });
+    } catch (error) {
+      logger.error('Error in PUT /api/roster-calendar:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update roster calendar',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:settings' }
+);
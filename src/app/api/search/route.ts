@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Global Search API Route
+ * Ranked, highlighted search across pilots, check types, documents, tasks,
+ * disciplinary matters and feedback posts with per-type facets.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createUserDataScope, createUserRBAC, withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { SEARCH_ENTITY_TYPES } from '@/lib/global-search';
+import { globalSearch } from '@/lib/global-search-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const searchQuerySchema = z.object({
+  q: z.string().max(200, 'Search query is too long'),
+  types: z.array(z.enum(SEARCH_ENTITY_TYPES, 'Unknown search type')).optional(),
+  limit: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+/**
+ * GET /api/search?q=<query>&types=pilot,document&limit=5
+ * Returns up to `limit` results per type; types the user may not see are left out.
+ * @auth Required - pilot:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const params = request.nextUrl.searchParams;
+      const types = params.get('types');
+      const validation = validateRequest(searchQuerySchema, {
+        q: params.get('q') || '',
+        types: types ? types.split(',').filter(Boolean) : undefined,
+        limit: params.get('limit') || undefined,
+      });
+
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { q, ...options } = validation.data;
+      const data = await globalSearch(q, createUserRBAC(user), createUserDataScope(user), options);
+      return NextResponse.json({ success: true, data });
+    } catch (error) {
+      logger.error('Error in GET /api/search:', error);
+      return NextResponse.json({ success: false, error: 'Search failed' }, { status: 500 });
+    }
+  },
+  { permission: 'pilot:read' }
+);
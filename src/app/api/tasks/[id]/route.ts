@@ -8,7 +8,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { withAuth } from '@/middleware/auth';
+import { withPermission, type PermissionContext } from '@/middleware/auth';
 import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
@@ -52,112 +52,121 @@ const updateTaskSchema = z.object({
  * GET /api/tasks/[id]
  * Retrieves a single task with related data
  */
-export const GET = withAuth(async (request: NextRequest, { user, params }: any) => {
-  try {
-    const { id } = params;
-
-    if (!isValidUUID(id)) {
-      return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
-    }
-
-    const { searchParams } = new URL(request.url);
-    const include = searchParams.get('include');
-
-    const task = await getTaskById(id);
-
-    // Check access (user must be creator, assignee, or admin)
-    if (task.created_by !== user.id && task.assigned_to !== user.id && user.role !== 'admin') {
-      return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
-    }
-
-    const response: any = { task };
-
-    // Include related data based on query params
-    if (include?.includes('comments')) {
-      response.comments = await getTaskComments(id);
-    }
-    if (include?.includes('audit')) {
-      response.audit_log = await getTaskAuditLog(id);
+export const GET = withPermission(
+  async (request: NextRequest, { user, params }: PermissionContext<{ id: string }>) => {
+    try {
+      const { id } = params;
+
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+      }
+
+      const { searchParams } = new URL(request.url);
+      const include = searchParams.get('include');
+
+      const task = await getTaskById(id);
+
+      // Check access (user must be creator, assignee, or admin)
+      if (task.created_by !== user.id && task.assigned_to !== user.id && user.role !== 'admin') {
+        return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+      }
+
+      const response: any = { task };
+
+      // Include related data based on query params
+      if (include?.includes('comments')) {
+        response.comments = await getTaskComments(id);
+      }
+      if (include?.includes('audit')) {
+        response.audit_log = await getTaskAuditLog(id);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: response,
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/tasks/[id]:', error);
+      return NextResponse.json({ success: false, error: 'Failed to fetch task' }, { status: 500 });
     }
-
-    return NextResponse.json({
-      success: true,
-      data: response,
-    });
-  } catch (error) {
-    logger.error('Error in GET /api/tasks/[id]:', error);
-    return NextResponse.json({ success: false, error: 'Failed to fetch task' }, { status: 500 });
-  }
-});
+  },
+  { permission: 'tasks:read' }
+);
 
 /**
  * PATCH /api/tasks/[id]
  * Updates a task
  */
-export const PATCH = withAuth(async (request: NextRequest, { user, params }: any) => {
-  try {
-    const { id } = params;
-
-    if (!isValidUUID(id)) {
-      return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+export const PATCH = withPermission(
+  async (request: NextRequest, { user, params }: PermissionContext<{ id: string }>) => {
+    try {
+      const { id } = params;
+
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+      }
+
+      const body = await request.json();
+
+      const validation = validateRequest(updateTaskSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: validation.error,
+            details: validation.details,
+          },
+          { status: 400 }
+        );
+      }
+
+      const task = await updateTask(id, validation.data, user.id);
+
+      return NextResponse.json({
+        success: true,
+        data: task,
+      });
+    } catch (error) {
+      logger.error('Error in PATCH /api/tasks/[id]:', error);
+      return NextResponse.json({ success: false, error: 'Failed to update task' }, { status: 500 });
     }
-
-    const body = await request.json();
-
-    const validation = validateRequest(updateTaskSchema, body);
-    if (!validation.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: validation.error,
-          details: validation.details,
-        },
-        { status: 400 }
-      );
-    }
-
-    const task = await updateTask(id, validation.data, user.id);
-
-    return NextResponse.json({
-      success: true,
-      data: task,
-    });
-  } catch (error) {
-    logger.error('Error in PATCH /api/tasks/[id]:', error);
-    return NextResponse.json({ success: false, error: 'Failed to update task' }, { status: 500 });
-  }
-});
+  },
+  { permission: 'tasks:manage' }
+);
 
 /**
  * DELETE /api/tasks/[id]
  * Deletes a task
  */
-export const DELETE = withAuth(async (request: NextRequest, { user, params }: any) => {
-  try {
-    const { id } = params;
-
-    if (!isValidUUID(id)) {
-      return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+export const DELETE = withPermission(
+  async (request: NextRequest, { user, params }: PermissionContext<{ id: string }>) => {
+    try {
+      const { id } = params;
+
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid ID format' }, { status: 400 });
+      }
+
+      // Get task to check ownership
+      const task = await getTaskById(id);
+
+      if (task.created_by !== user.id && user.role !== 'admin') {
+        return NextResponse.json(
+          { success: false, error: 'Only the task creator or admin can delete tasks' },
+          { status: 403 }
+        );
+      }
+
+      await deleteTask(id, user.id);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Task deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Error in DELETE /api/tasks/[id]:', error);
+      return NextResponse.json({ success: false, error: 'Failed to delete task' }, { status: 500 });
     }
-
-    // Get task to check ownership
-    const task = await getTaskById(id);
-
-    if (task.created_by !== user.id && user.role !== 'admin') {
-      return NextResponse.json(
-        { success: false, error: 'Only the task creator or admin can delete tasks' },
-        { status: 403 }
-      );
-    }
-
-    await deleteTask(id, user.id);
-
-    return NextResponse.json({
-      success: true,
-      message: 'Task deleted successfully',
-    });
-  } catch (error) {
-    logger.error('Error in DELETE /api/tasks/[id]:', error);
-    return NextResponse.json({ success: false, error: 'Failed to delete task' }, { status: 500 });
-  }
-});
+  },
+  { permission: 'tasks:manage' }
+);
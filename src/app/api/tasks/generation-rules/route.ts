@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Task Generation Rules API Routes
+ * Rules that create a task ahead of every pilot check expiry of a check type.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  createGenerationRule,
+  deleteGenerationRule,
+  generateExpiryTasks,
+  listGenerationRules,
+  updateGenerationRule,
+} from '@/lib/task-generation-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const ruleSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100),
+    check_type_id: z.string().uuid('Invalid check type ID'),
+    days_before: z.number().int().min(1).max(365),
+    due_days_before: z.number().int().min(0).max(364).optional(),
+    title_template: z.string().min(1).max(200).optional(),
+    description_template: z.string().max(2000).nullable().optional(),
+    category_id: z.string().uuid().nullable().optional(),
+    priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
+    assigned_to: z.string().uuid().nullable().optional(),
+    is_active: z.boolean().optional(),
+  })
+  .refine((rule) => (rule.due_days_before ?? 0) < rule.days_before, {
+    message: 'The task must be created before it is due',
+    path: ['due_days_before'],
+  });
+
+const updateRuleSchema = z.object({
+  id: z.string().uuid('Invalid rule ID'),
+  name: z.string().min(1).max(100).optional(),
+  days_before: z.number().int().min(1).max(365).optional(),
+  due_days_before: z.number().int().min(0).max(364).optional(),
+  title_template: z.string().min(1).max(200).optional(),
+  description_template: z.string().max(2000).nullable().optional(),
+  category_id: z.string().uuid().nullable().optional(),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
+  assigned_to: z.string().uuid().nullable().optional(),
+  is_active: z.boolean().optional(),
+});
+
+const runSchema = z.object({
+  run: z.literal(true),
+  id: z.string().uuid('Invalid rule ID').optional(),
+});
+
+/**
+ * GET /api/tasks/generation-rules
+ * @auth Required - tasks:read permission
+ */
+export const GET = withPermission(
+  async () => {
+    try {
+      return NextResponse.json({ success: true, data: await listGenerationRules() });
+    } catch (error) {
+      logger.error('Error in GET /api/tasks/generation-rules:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch task generation rules' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'tasks:read' }
+);
+
+/**
+ * POST /api/tasks/generation-rules
+ * Creates a rule, or with { run: true, id? } generates tasks now for one or all
+ * active rules
+ * @auth Required - tasks:manage permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+
+      if (body?.run) {
+        const validation = validateRequest(runSchema, body);
+        if (!validation.success) {
+          return NextResponse.json(
+            { success: false, error: validation.error, details: validation.details },
+            { status: 400 }
+          );
+        }
+
+        const result = await generateExpiryTasks(new Date(), validation.data.id);
+        return NextResponse.json({ success: true, data: result });
+      }
+
+      const validation = validateRequest(ruleSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const rule = await createGenerationRule(validation.data, user.id);
+      return NextResponse.json({ success: true, data: rule }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/tasks/generation-rules:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save task generation rule',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'tasks:manage' }
+);
+
+/**
+ * PUT /api/tasks/generation-rules
+ * @auth Required - tasks:manage permission
+ */
+export const PUT = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateRuleSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, ...updates } = validation.data;
+      const rule = await updateGenerationRule(id, updates);
+      return NextResponse.json({ success: true, data: rule });
+    } catch (error) {
+      logger.error('Error in PUT /api/tasks/generation-rules:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update task generation rule' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'tasks:manage' }
+);
+
+/**
+ * DELETE /api/tasks/generation-rules?id=<rule id>
+ * Tasks already generated by the rule are kept
+ * @auth Required - tasks:manage permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid rule ID' }, { status: 400 });
+      }
+
+      await deleteGenerationRule(id);
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      logger.error('Error in DELETE /api/tasks/generation-rules:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete task generation rule' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'tasks:manage' }
+);
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Recurring Task Occurrences API Route
+ * Previews a recurrence pattern and skips or reschedules single occurrences of a
+ * recurring task.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, recurrencePatternSchema } from '@/lib/validation-schemas';
+import { getTaskById, rescheduleTaskOccurrence, skipTaskOccurrence } from '@/lib/task-service';
+import { describeRecurrence, upcomingOccurrences } from '@/lib/task-recurrence';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const occurrenceActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('preview'),
+    recurrence_pattern: recurrencePatternSchema,
+    start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be in YYYY-MM-DD format'),
+    limit: z.number().int().min(1).max(24).optional(),
+  }),
+  z.object({
+    action: z.literal('skip'),
+    id: z.string().uuid('Invalid task ID'),
+  }),
+  z.object({
+    action: z.literal('reschedule'),
+    id: z.string().uuid('Invalid task ID'),
+    due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}T/, 'Due date must be an ISO date-time'),
+  }),
+]);
+
+/**
+ * POST /api/tasks/occurrences
+ * Body: { action: 'preview', recurrence_pattern, start_date, limit? }
+ *     | { action: 'skip', id }
+ *     | { action: 'reschedule', id, due_date }
+ * @auth Required - tasks:manage permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(occurrenceActionSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const input = validation.data;
+
+      if (input.action === 'preview') {
+        if (input.recurrence_pattern.frequency === 'ROSTER_PERIOD') {
+          await loadRosterCalendar();
+        }
+        return NextResponse.json({
+          success: true,
+          data: {
+            description: describeRecurrence(input.recurrence_pattern),
+            dates: upcomingOccurrences(
+              input.recurrence_pattern,
+              input.start_date,
+              input.limit || 6
+            ),
+          },
+        });
+      }
+
+      // Same access rule as the task itself: creator, assignee or admin
+      const task = await getTaskById(input.id);
+      if (task.created_by !== user.id && task.assigned_to !== user.id && user.role !== 'admin') {
+        return NextResponse.json({ success: false, error: 'Access denied' }, { status: 403 });
+      }
+
+      const data =
+        input.action === 'skip'
+          ? await skipTaskOccurrence(input.id, user.id)
+          : await rescheduleTaskOccurrence(input.id, input.due_date, user.id);
+
+      return NextResponse.json({ success: true, data });
+    } catch (error) {
+      logger.error('Error in POST /api/tasks/occurrences:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update task occurrence',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'tasks:manage' }
+);
@@ -8,9 +8,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { validateRequest } from '@/lib/validation-schemas';
+import { validateRequest, recurrencePatternSchema } from '@/lib/validation-schemas';
 import { z } from 'zod';
-import { withAuth, permissions } from '@/middleware/auth';
+import { withPermission } from '@/middleware/auth';
 import { getTasks, createTask, getTaskStatistics, getTaskCategories } from '@/lib/task-service';
 import { logger } from '@/lib/logger';
 
@@ -31,14 +31,7 @@ const createTaskSchema = z.object({
     .optional(),
   estimated_hours: z.number().min(0).optional(),
   is_recurring: z.boolean().optional(),
-  recurrence_pattern: z
-    .object({
-      frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']),
-      interval: z.number().int().min(1),
-      end_date: z.string().optional(),
-      count: z.number().int().min(1).optional(),
-    })
-    .optional(),
+  recurrence_pattern: recurrencePatternSchema.optional(),
   parent_task_id: z.string().uuid().optional(),
   tags: z.array(z.string()).optional(),
   checklist_items: z
@@ -55,9 +48,9 @@ const createTaskSchema = z.object({
 /**
  * GET /api/tasks
  * Retrieves tasks with optional filters
- * @auth Required - Admin and Manager roles only
+ * @auth Required - tasks:read permission
  */
-export const GET = withAuth(
+export const GET = withPermission(
   async (request: NextRequest, { user }) => {
     try {
       const { searchParams } = new URL(request.url);
@@ -120,15 +113,15 @@ export const GET = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'tasks:read' }
 );
 
 /**
  * POST /api/tasks
  * Creates a new task
- * @auth Required - Admin and Manager roles only
+ * @auth Required - tasks:manage permission
  */
-export const POST = withAuth(
+export const POST = withPermission(
   async (request: NextRequest, { user }) => {
     try {
       const body = await request.json();
@@ -146,6 +139,14 @@ export const POST = withAuth(
         );
       }
 
+      // The first due date is the first occurrence of a recurring series
+      if (validation.data.is_recurring && !validation.data.due_date) {
+        return NextResponse.json(
+          { success: false, error: 'Recurring tasks need a due date for the first occurrence' },
+          { status: 400 }
+        );
+      }
+
       // Create task with authenticated user context for audit trail
       const task = await createTask(validation.data, user.id);
 
@@ -167,5 +168,5 @@ export const POST = withAuth(
       );
     }
   },
-  { roles: ['admin', 'manager'] }
+  { permission: 'tasks:manage' }
 );
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Upgrade Promotion API Route
+ * Promotes a candidate who has passed the check to line: changes the pilot's role,
+ * recomputes the seniority number and records the before/after values in the audit trail.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest } from '@/lib/validation-schemas';
+import { promoteUpgradeCandidate } from '@/lib/upgrade-pipeline-service';
+import { invalidateCache, CACHE_INVALIDATION_PATTERNS } from '@/lib/cache-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const promoteSchema = z.object({
+  candidateId: z.string().uuid('Invalid candidate ID'),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * POST /api/upgrade-pipeline/promote
+ * @auth Required - pilot:update permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(promoteSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const result = await promoteUpgradeCandidate(validation.data.candidateId, {
+        performedBy: user.id,
+        performedByEmail: user.email,
+        notes: validation.data.notes,
+      });
+
+      invalidateCache([...CACHE_INVALIDATION_PATTERNS.PILOT_DATA_UPDATED]);
+      revalidatePath('/dashboard/pilots');
+      revalidatePath(`/dashboard/pilots/${result.candidate.pilot_id}`);
+
+      logger.info('Upgrade candidate promoted via API', {
+        candidateId: result.candidate.id,
+        promotedBy: user.id,
+      });
+
+      return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('Error in POST /api/upgrade-pipeline/promote:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to promote candidate',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:update' }
+);
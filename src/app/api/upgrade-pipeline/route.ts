@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Upgrade Pipeline API Routes
+ * Lists upgrade eligibility per rank in seniority order, nominates candidates and moves
+ * them through the training stages. Every change is recorded in upgrade_pipeline_events.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  advanceUpgradeStage,
+  getUpgradePipeline,
+  getUpgradePipelineEvents,
+  nominateUpgradeCandidate,
+  updateUpgradeCandidateHours,
+  withdrawUpgradeCandidate,
+} from '@/lib/upgrade-pipeline-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const flightHours = z.number().min(0).max(50000);
+
+const nominateSchema = z.object({
+  pilotId: z.string().uuid('Invalid pilot ID'),
+  flightHours,
+  notes: z.string().max(2000).optional(),
+});
+
+const updateSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('advance'),
+    candidateId: z.string().uuid('Invalid candidate ID'),
+    notes: z.string().max(2000).optional(),
+  }),
+  z.object({
+    action: z.literal('withdraw'),
+    candidateId: z.string().uuid('Invalid candidate ID'),
+    notes: z.string().max(2000).optional(),
+  }),
+  z.object({
+    action: z.literal('hours'),
+    candidateId: z.string().uuid('Invalid candidate ID'),
+    flightHours,
+    notes: z.string().max(2000).optional(),
+  }),
+]);
+
+/**
+ * GET /api/upgrade-pipeline
+ * Seniority-ordered pilots per rank with eligibility and pipeline stage
+ * With ?candidateId= returns that candidate's audit trail instead
+ * @auth Required - pilot:read permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const candidateId = request.nextUrl.searchParams.get('candidateId');
+
+      if (candidateId) {
+        if (!isValidUUID(candidateId)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid candidate ID format' },
+            { status: 400 }
+          );
+        }
+        const events = await getUpgradePipelineEvents(candidateId);
+        return NextResponse.json({ success: true, data: events });
+      }
+
+      const pipeline = await getUpgradePipeline();
+      return NextResponse.json({ success: true, data: pipeline });
+    } catch (error) {
+      logger.error('Error in GET /api/upgrade-pipeline:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch upgrade pipeline' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:read' }
+);
+
+/**
+ * POST /api/upgrade-pipeline
+ * Nominates an eligible pilot for upgrade
+ * @auth Required - pilot:update permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(nominateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { pilotId, flightHours: hours, notes } = validation.data;
+      const candidate = await nominateUpgradeCandidate(
+        { pilotId, flightHours: hours },
+        { performedBy: user.id, notes }
+      );
+
+      return NextResponse.json({ success: true, data: candidate }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/upgrade-pipeline:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to nominate upgrade candidate',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:update' }
+);
+
+/**
+ * PATCH /api/upgrade-pipeline
+ * Advances a candidate to the next stage, withdraws them, or records their flight hours
+ * @auth Required - pilot:update permission
+ */
+export const PATCH = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const input = validation.data;
+      const context = { performedBy: user.id, notes: input.notes };
+
+      let candidate;
+      if (input.action === 'advance') {
+        candidate = await advanceUpgradeStage(input.candidateId, context);
+      } else if (input.action === 'withdraw') {
+        candidate = await withdrawUpgradeCandidate(input.candidateId, context);
+      } else {
+        candidate = await updateUpgradeCandidateHours(
+          input.candidateId,
+          input.flightHours,
+          context
+        );
+      }
+
+      return NextResponse.json({ success: true, data: candidate });
+    } catch (error) {
+      logger.error('Error in PATCH /api/upgrade-pipeline:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update upgrade candidate',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'pilot:update' }
+);
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Webhook Deliveries API Routes
+ * Delivery history with per-attempt detail, replay of finished deliveries and
+ * test events.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  WEBHOOK_EVENTS,
+  getDeliveryAttempts,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
+  sendTestWebhook,
+  type WebhookDeliveryFilters,
+} from '@/lib/webhook-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const filtersSchema = z.object({
+  webhookId: z.string().uuid('Invalid webhook ID').optional(),
+  status: z.enum(['pending', 'retrying', 'success', 'failed']).optional(),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('replay'), deliveryId: z.string().uuid('Invalid delivery ID') }),
+  z.object({ action: z.literal('test'), webhookId: z.string().uuid('Invalid webhook ID') }),
+]);
+
+/**
+ * GET /api/webhooks/deliveries?webhookId=&status=&event=&limit=
+ * Recent deliveries, newest first; ?deliveryId= returns that delivery's attempts
+ * @auth Required - system:webhooks permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const deliveryId = searchParams.get('deliveryId');
+
+      if (deliveryId) {
+        if (!isValidUUID(deliveryId)) {
+          return NextResponse.json(
+            { success: false, error: 'Invalid delivery ID' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, data: await getDeliveryAttempts(deliveryId) });
+      }
+
+      const validation = validateRequest(filtersSchema, Object.fromEntries(searchParams.entries()));
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const filters: WebhookDeliveryFilters = validation.data;
+
+      return NextResponse.json({ success: true, data: await getWebhookDeliveries(filters) });
+    } catch (error) {
+      logger.error('Error in GET /api/webhooks/deliveries:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch webhook deliveries' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:webhooks' }
+);
+
+/**
+ * POST /api/webhooks/deliveries
+ * { action: 'replay', deliveryId } re-sends a failed (or delivered) delivery;
+ * { action: 'test', webhookId } sends a system.alert test event
+ * @auth Required - system:webhooks permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(actionSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const delivery =
+        validation.data.action === 'replay'
+          ? await replayWebhookDelivery(validation.data.deliveryId)
+          : await sendTestWebhook(validation.data.webhookId);
+
+      logger.info(`Webhook delivery ${validation.data.action} requested`, {
+        deliveryId: delivery.id,
+        status: delivery.status,
+        requestedBy: user.id,
+      });
+
+      return NextResponse.json({ success: true, data: delivery });
+    } catch (error) {
+      logger.error('Error in POST /api/webhooks/deliveries:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to send webhook delivery',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:webhooks' }
+);
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Webhooks API Routes
+ * Webhook subscriptions for external integrations. The signing secret is returned
+ * only when a webhook is registered or its secret is rotated.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/middleware/auth';
+import { validateRequest, isValidUUID } from '@/lib/validation-schemas';
+import {
+  WEBHOOK_EVENTS,
+  deleteWebhook,
+  getWebhook,
+  getWebhookStats,
+  listWebhooks,
+  registerWebhook,
+  updateWebhook,
+} from '@/lib/webhook-service';
+import { logger } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+const webhookFields = {
+  url: z
+    .string()
+    .url('Invalid URL')
+    .refine((url) => /^https?:\/\//.test(url), 'URL must use http or https'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Subscribe to at least one event'),
+  description: z.string().max(500).nullable().optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  max_attempts: z.number().int().min(1).max(10).optional(),
+  active: z.boolean().optional(),
+};
+
+const createSchema = z.object(webhookFields);
+
+const updateSchema = z
+  .object({
+    id: z.string().uuid('Invalid webhook ID'),
+    rotate_secret: z.boolean().optional(),
+    ...webhookFields,
+  })
+  .partial({ url: true, events: true });
+
+/**
+ * GET /api/webhooks?id=
+ * All webhooks, or one webhook with its delivery stats for the last 30 days
+ * @auth Required - system:webhooks permission
+ */
+export const GET = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+
+      if (!id) {
+        return NextResponse.json({ success: true, data: await listWebhooks() });
+      }
+
+      if (!isValidUUID(id)) {
+        return NextResponse.json({ success: false, error: 'Invalid webhook ID' }, { status: 400 });
+      }
+
+      const webhook = await getWebhook(id);
+      if (!webhook) {
+        return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { ...webhook, stats: await getWebhookStats(id) },
+      });
+    } catch (error) {
+      logger.error('Error in GET /api/webhooks:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch webhooks' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:webhooks' }
+);
+
+/**
+ * POST /api/webhooks
+ * Registers a webhook; the response carries the signing secret
+ * @auth Required - system:webhooks permission
+ */
+export const POST = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(createSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const webhook = await registerWebhook(validation.data, user.id);
+
+      logger.info('Webhook registered', { webhookId: webhook.id, createdBy: user.id });
+
+      return NextResponse.json({ success: true, data: webhook }, { status: 201 });
+    } catch (error) {
+      logger.error('Error in POST /api/webhooks:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to register webhook',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:webhooks' }
+);
+
+/**
+ * PATCH /api/webhooks
+ * Updates a webhook; rotate_secret issues a new secret and returns it
+ * @auth Required - system:webhooks permission
+ */
+export const PATCH = withPermission(
+  async (request: NextRequest, { user }) => {
+    try {
+      const body = await request.json();
+      const validation = validateRequest(updateSchema, body);
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: validation.error, details: validation.details },
+          { status: 400 }
+        );
+      }
+
+      const { id, rotate_secret, ...changes } = validation.data;
+      const webhook = await updateWebhook(id, changes, rotate_secret);
+
+      if (rotate_secret) {
+        logger.info('Webhook secret rotated', { webhookId: id, rotatedBy: user.id });
+      }
+
+      return NextResponse.json({ success: true, data: webhook });
+    } catch (error) {
+      logger.error('Error in PATCH /api/webhooks:', error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update webhook',
+        },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:webhooks' }
+);
+
+/**
+ * DELETE /api/webhooks?id=
+ * Removes a webhook together with its delivery history
+ * @auth Required - system:webhooks permission
+ */
+export const DELETE = withPermission(
+  async (request: NextRequest) => {
+    try {
+      const id = new URL(request.url).searchParams.get('id');
+      if (!id || !isValidUUID(id)) {
+        return NextResponse.json(
+          { success: false, error: 'Valid webhook ID is required' },
+          { status: 400 }
+        );
+      }
+
+      await deleteWebhook(id);
+
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      logger.error('Error in DELETE /api/webhooks:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete webhook' },
+        { status: 500 }
+      );
+    }
+  },
+  { permission: 'system:webhooks' }
+);
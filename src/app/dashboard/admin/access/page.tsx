@@ -0,0 +1,50 @@
+'use client';
+
+import { KeyRound } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { AccessManagement } from '@/components/admin/AccessManagement';
+import { permissions } from '@/lib/auth-utils';
+
+export default function AccessManagementPage() {
+  const { user, isLoading: authLoading } = useAuth();
+
+  if (authLoading) {
+    return (
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#E4002B] mx-auto" />
+          <p className="text-gray-500 mt-4">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !permissions.canManageSettings(user)) {
+    return (
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-red-800">Access Denied</h3>
+          <p className="mt-2 text-sm text-red-700">
+            Only administrators can manage roles and permissions.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <KeyRound className="w-8 h-8 mr-3 text-[#E4002B]" />
+          Roles & Permissions
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Custom roles, per-user permission grants and denials, and the permission change log
+        </p>
+      </div>
+
+      <AccessManagement currentUserId={user.id} />
+    </div>
+  );
+}
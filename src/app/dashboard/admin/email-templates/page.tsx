@@ -0,0 +1,49 @@
+'use client';
+
+import { Mail } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { EmailTemplateEditor } from '@/components/admin/EmailTemplateEditor';
+import { permissions } from '@/lib/auth-utils';
+
+export default function EmailTemplatesPage() {
+  const { user, isLoading: authLoading } = useAuth();
+
+  if (authLoading) {
+    return (
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#E4002B] mx-auto" />
+          <p className="text-gray-500 mt-4">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !permissions.canManageSettings(user)) {
+    return (
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-red-800">Access Denied</h3>
+          <p className="mt-2 text-sm text-red-700">Only administrators can edit email templates.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Mail className="w-8 h-8 mr-3 text-[#E4002B]" />
+          Email Templates
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Subject lines, HTML and plain-text bodies and Tok Pisin translations of every email the
+          system sends
+        </p>
+      </div>
+
+      <EmailTemplateEditor />
+    </div>
+  );
+}
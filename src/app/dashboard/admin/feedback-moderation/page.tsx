@@ -18,6 +18,7 @@ import {
   AlertTriangle,
 } from 'lucide-react';
 import type { AdminFeedbackPostWithDetails } from '@/lib/feedback-admin-service';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface ModerationStats {
   total_posts: number;
@@ -43,7 +44,7 @@ export default function FeedbackModerationPage() {
   const fetchPosts = async () => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/admin/feedback/posts?include_stats=true');
+      const response = await authenticatedFetch('/api/admin/feedback/posts?include_stats=true');
       const result = await response.json();
 
       if (result.success) {
@@ -71,7 +72,7 @@ export default function FeedbackModerationPage() {
     setProcessingId(postId);
 
     try {
-      const response = await fetch(`/api/admin/feedback/posts/${postId}`, {
+      const response = await authenticatedFetch(`/api/admin/feedback/posts/${postId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
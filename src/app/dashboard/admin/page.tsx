@@ -1,15 +1,16 @@
 'use client';
 
 import Link from 'next/link';
-import { Users, MessageSquare, Settings, Shield, ChevronRight } from 'lucide-react';
+import { Users, MessageSquare, Settings, Shield, ChevronRight, KeyRound, Mail } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
+import { authenticatedFetch } from '@/lib/api-client';
 
 export default function AdminDashboardPage() {
   // Fetch pending registrations count
   const { data: registrations, isLoading } = useQuery({
     queryKey: ['admin', 'pilot-registrations'],
     queryFn: async () => {
-      const response = await fetch('/api/admin/pilot-registrations');
+      const response = await authenticatedFetch('/api/admin/pilot-registrations');
       if (!response.ok) throw new Error('Failed to fetch registrations');
       const result = await response.json();
       return result.data || [];
@@ -37,6 +38,24 @@ export default function AdminDashboardPage() {
       iconBg: 'bg-green-100',
       iconColor: 'text-green-600',
     },
+    {
+      title: 'Roles & Permissions',
+      description: 'Create custom roles and grant or deny permissions to individual users',
+      icon: KeyRound,
+      href: '/dashboard/admin/access',
+      color: 'bg-amber-500',
+      iconBg: 'bg-amber-100',
+      iconColor: 'text-amber-600',
+    },
+    {
+      title: 'Email Templates',
+      description: 'Edit, translate, preview and test-send the emails the system sends',
+      icon: Mail,
+      href: '/dashboard/admin/email-templates',
+      color: 'bg-teal-500',
+      iconBg: 'bg-teal-100',
+      iconColor: 'text-teal-600',
+    },
     {
       title: 'System Settings',
       description: 'Configure system parameters and application settings',
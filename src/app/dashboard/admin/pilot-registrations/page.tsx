@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { CheckCircle, XCircle, Clock, Users, AlertCircle } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface PendingRegistration {
   id: string;
@@ -36,7 +37,7 @@ export default function PilotRegistrationsPage() {
   const fetchRegistrations = async () => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/admin/pilot-registrations');
+      const response = await authenticatedFetch('/api/admin/pilot-registrations');
       const result = await response.json();
 
       if (result.success) {
@@ -55,13 +56,16 @@ export default function PilotRegistrationsPage() {
     setProcessingId(registrationId);
 
     try {
-      const response = await fetch(`/api/admin/pilot-registrations/${registrationId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ action: 'approve' }),
-      });
+      const response = await authenticatedFetch(
+        `/api/admin/pilot-registrations/${registrationId}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ action: 'approve' }),
+        }
+      );
 
       const result = await response.json();
 
@@ -88,16 +92,19 @@ export default function PilotRegistrationsPage() {
     setProcessingId(rejectionModal.registrationId);
 
     try {
-      const response = await fetch(`/api/admin/pilot-registrations/${rejectionModal.registrationId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'reject',
-          rejection_reason: rejectionModal.reason,
-        }),
-      });
+      const response = await authenticatedFetch(
+        `/api/admin/pilot-registrations/${rejectionModal.registrationId}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            action: 'reject',
+            rejection_reason: rejectionModal.reason,
+          }),
+        }
+      );
 
       const result = await response.json();
 
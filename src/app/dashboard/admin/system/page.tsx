@@ -15,6 +15,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BackupManager } from '@/components/settings/BackupManager';
 import {
   Activity,
   Database,
@@ -366,6 +367,7 @@ export default function SystemMonitoringPage() {
           <TabsTrigger value="database">Database</TabsTrigger>
           <TabsTrigger value="sessions">User Sessions</TabsTrigger>
           <TabsTrigger value="errors">Error Monitoring</TabsTrigger>
+          <TabsTrigger value="backups">Backups</TabsTrigger>
         </TabsList>
 
         {/* API Performance */}
@@ -543,6 +545,11 @@ export default function SystemMonitoringPage() {
             </Card>
           </div>
         </TabsContent>
+
+        {/* Backups */}
+        <TabsContent value="backups" className="space-y-4">
+          <BackupManager />
+        </TabsContent>
       </Tabs>
 
       {/* Last Updated */}
@@ -9,6 +9,8 @@ import { Calendar, ArrowLeft, LayoutList } from 'lucide-react';
 import Link from 'next/link';
 import { format } from 'date-fns';
 import { useRouter } from 'next/navigation';
+import { authenticatedFetch } from '@/lib/api-client';
+import type { CheckTypeRules } from '@/lib/certification-rules';
 
 interface ExpiringCert {
   pilotName: string;
@@ -17,6 +19,7 @@ interface ExpiringCert {
   checkDescription: string;
   category: string;
   expiryDate: Date | string;
+  rules?: Partial<CheckTypeRules>;
 }
 
 interface CertificationEvent {
@@ -27,6 +30,7 @@ interface CertificationEvent {
   checkDescription: string;
   expiryDate: Date;
   status: 'expired' | 'expiring_soon' | 'due_soon';
+  rules?: Partial<CheckTypeRules>;
 }
 
 export default function CertificationCalendarPage() {
@@ -40,7 +44,7 @@ export default function CertificationCalendarPage() {
     const fetchCertifications = async () => {
       try {
         setLoading(true);
-        const response = await fetch('/api/expiring-certifications?daysAhead=90');
+        const response = await authenticatedFetch('/api/expiring-certifications?daysAhead=90');
         if (!response.ok) {
           throw new Error('Failed to fetch expiring certifications');
         }
@@ -70,6 +74,7 @@ export default function CertificationCalendarPage() {
               checkDescription: cert.checkDescription,
               expiryDate,
               status,
+              rules: cert.rules,
             };
           }
         );
@@ -222,6 +227,7 @@ export default function CertificationCalendarPage() {
                 expiryDate: cert.expiryDate,
                 pilotName: cert.pilotName,
                 employeeId: cert.employeeId,
+                rules: cert.rules,
               }))}
               onCertificationClick={handleCertificationClick}
               showPilotNames
@@ -6,6 +6,7 @@ import { permissions } from '@/lib/auth-utils';
 import { format } from 'date-fns';
 import { getRosterPeriodFromDate } from '@/lib/roster-utils';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface ExpiringCertification {
   id: string;
@@ -67,7 +68,9 @@ export default function CertificationExpiryPlanningPage() {
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const response = await fetch(`/api/expiring-certifications?daysAhead=${timeframeDays}`);
+      const response = await authenticatedFetch(
+        `/api/expiring-certifications?daysAhead=${timeframeDays}`
+      );
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -147,7 +150,7 @@ export default function CertificationExpiryPlanningPage() {
 
       console.log('🎯 Starting certification expiry PDF generation...');
 
-      const response = await fetch('/api/reports/certification-expiry', {
+      const response = await authenticatedFetch('/api/reports/certification-expiry', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -234,7 +237,7 @@ export default function CertificationExpiryPlanningPage() {
       console.log('📧 Preparing email for certification expiry planning...');
 
       // Generate the PDF first
-      const response = await fetch('/api/reports/certification-expiry', {
+      const response = await authenticatedFetch('/api/reports/certification-expiry', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -11,11 +11,23 @@
 
 import { useState, lazy } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { AlertTriangle, Plus, Filter, FileText, TrendingUp } from 'lucide-react';
+import {
+  AlertTriangle,
+  Plus,
+  Filter,
+  FileText,
+  TrendingUp,
+  Landmark,
+  Workflow,
+} from 'lucide-react';
 import Link from 'next/link';
 import { apiGet } from '@/lib/api-client';
+import { useAuth } from '@/contexts/AuthContext';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { LazyLoader } from '@/components/ui/LazyLoader';
+import { MatterStatusControl } from '@/components/disciplinary/MatterStatusControl';
+import { RegulatoryRegister } from '@/components/disciplinary/RegulatoryRegister';
+import { DisciplinaryWorkflowSettings } from '@/components/disciplinary/DisciplinaryWorkflowSettings';
 
 // Lazy load the modal
 const DisciplinaryMatterModal = lazy(() =>
@@ -25,7 +37,10 @@ const DisciplinaryMatterModal = lazy(() =>
 );
 
 export default function DisciplinaryMattersPage() {
+  const { user } = useAuth();
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showRegister, setShowRegister] = useState(false);
+  const [showWorkflow, setShowWorkflow] = useState(false);
   const [filters, setFilters] = useState({
     status: 'all',
     severity: 'all',
@@ -53,6 +68,14 @@ export default function DisciplinaryMattersPage() {
     },
   });
 
+  // Fetch workflow (allowed status transitions)
+  const { data: workflow, refetch: refetchWorkflow } = useQuery({
+    queryKey: ['disciplinary-workflow'],
+    queryFn: async () => {
+      return apiGet('/api/disciplinary-matters/workflow');
+    },
+  });
+
   const handleAddSuccess = () => {
     refetch();
     refetchStats();
@@ -67,15 +90,41 @@ export default function DisciplinaryMattersPage() {
               <h1 className="text-3xl font-bold text-gray-900">Disciplinary Matters</h1>
               <p className="text-gray-600 mt-1">Track and manage pilot disciplinary cases</p>
             </div>
-            <button
-              onClick={() => setShowAddModal(true)}
-              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Plus className="w-5 h-5 mr-2" />
-              New Case
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowRegister(!showRegister)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Landmark className="w-5 h-5 mr-2" />
+                Regulatory Register
+              </button>
+              {user?.role === 'admin' && (
+                <button
+                  onClick={() => setShowWorkflow(!showWorkflow)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Workflow className="w-5 h-5 mr-2" />
+                  Workflow
+                </button>
+              )}
+              <button
+                onClick={() => setShowAddModal(true)}
+                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="w-5 h-5 mr-2" />
+                New Case
+              </button>
+            </div>
           </div>
 
+          {showRegister && <RegulatoryRegister />}
+          {showWorkflow && workflow?.data && (
+            <DisciplinaryWorkflowSettings
+              workflow={workflow.data}
+              onSaved={() => refetchWorkflow()}
+            />
+          )}
+
           {/* Statistics Cards */}
           {stats?.data && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -193,13 +242,21 @@ export default function DisciplinaryMattersPage() {
                         <td className="px-6 py-4">
                           <StatusBadge status={matter.status} />
                         </td>
-                        <td className="px-6 py-4">
+                        <td className="px-6 py-4 space-y-2">
                           <Link
                             href={`/dashboard/disciplinary/${matter.id}`}
                             className="text-[#4F46E5] hover:text-[#4338CA] font-medium"
                           >
                             View
                           </Link>
+                          {workflow?.data && user && (
+                            <MatterStatusControl
+                              matter={matter}
+                              workflow={workflow.data}
+                              user={user}
+                              onChanged={handleAddSuccess}
+                            />
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -22,10 +22,14 @@ import {
   Calendar,
   User,
   Search,
+  LayoutList,
 } from 'lucide-react';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { FormBuilder } from '@/components/documents/FormBuilder';
+import { FormApprovalPanel } from '@/components/documents/FormApprovalPanel';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiGet } from '@/lib/api-client';
+import { apiGet, apiPost, authenticatedFetch } from '@/lib/api-client';
+import { normalizeFormSchema, visibleFields } from '@/lib/form-schema';
 import { format } from 'date-fns';
 
 export default function FormsManagementPage() {
@@ -35,6 +39,7 @@ export default function FormsManagementPage() {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [selectedSubmission, setSelectedSubmission] = useState<any>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [showBuilder, setShowBuilder] = useState(false);
 
   // Fetch form submissions
   const { data: submissions, isLoading } = useQuery({
@@ -57,55 +62,60 @@ export default function FormsManagementPage() {
     },
   });
 
+  const refreshSubmissions = () => {
+    queryClient.invalidateQueries({ queryKey: ['form-submissions'] });
+    queryClient.invalidateQueries({ queryKey: ['form-stats'] });
+  };
+
   const handleArchive = async (submission: any) => {
     try {
-      const response = await fetch('/api/forms', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          action: 'update_status',
-          id: submission.id,
-          status: 'archived',
-          approved_by: user?.id,
-        }),
+      await apiPost('/api/forms', {
+        action: 'update_status',
+        id: submission.id,
+        status: 'archived',
+        approved_by: user?.id,
       });
-
-      if (response.ok) {
-        queryClient.invalidateQueries({ queryKey: ['form-submissions'] });
-        queryClient.invalidateQueries({ queryKey: ['form-stats'] });
-      }
+      refreshSubmissions();
     } catch (error) {
       console.error('Failed to archive submission:', error);
     }
   };
 
-  const handleDownload = (submission: any) => {
-    // Convert form data to JSON and download
-    const dataStr = JSON.stringify(
-      {
-        form: submission.digital_forms?.title,
-        pilot: submission.pilots
-          ? `${submission.pilots.first_name} ${submission.pilots.last_name}`
-          : 'N/A',
-        submitted: format(new Date(submission.created_at), 'MMM d, yyyy'),
-        data: submission.form_data,
-      },
-      null,
-      2
-    );
-    const dataUri = `data:application/json;charset=utf-8,${  encodeURIComponent(dataStr)}`;
-    const exportFileDefaultName = `form-${submission.id}-${Date.now()}.json`;
+  const handleDownload = async (submission: any) => {
+    // Download the submission rendered as PDF
+    try {
+      const response = await authenticatedFetch(`/api/forms/pdf?id=${submission.id}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to generate PDF');
+      }
+
+      const pdfBlob = await response.blob();
+      const filename =
+        response.headers.get('Content-Disposition')?.split('filename=')[1]?.replace(/"/g, '') ||
+        `form-${submission.id}.pdf`;
 
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', exportFileDefaultName);
-    linkElement.click();
+      const url = window.URL.createObjectURL(pdfBlob);
+      const linkElement = document.createElement('a');
+      linkElement.href = url;
+      linkElement.download = filename;
+      linkElement.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download submission:', error);
+    }
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active':
+      case 'pending':
         return 'bg-blue-100 text-blue-800';
+      case 'approved':
+      case 'completed':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
       case 'archived':
         return 'bg-gray-100 text-gray-800';
       default:
@@ -118,9 +128,9 @@ export default function FormsManagementPage() {
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
-      sub.digital_forms?.title?.toLowerCase().includes(query) ||
-      sub.pilots?.first_name?.toLowerCase().includes(query) ||
-      sub.pilots?.last_name?.toLowerCase().includes(query)
+      sub.form?.title?.toLowerCase().includes(query) ||
+      sub.pilot?.first_name?.toLowerCase().includes(query) ||
+      sub.pilot?.last_name?.toLowerCase().includes(query)
     );
   });
 
@@ -128,20 +138,33 @@ export default function FormsManagementPage() {
     <ProtectedRoute>
       <div className="p-6 space-y-6">
           {/* Header */}
-          <div>
-            <h1 className="text-3xl font-bold text-gray-900 flex items-center">
-              <FileText className="w-8 h-8 mr-3 text-[#4F46E5]" />
-              Forms Management
-            </h1>
-            <p className="text-gray-600 mt-1">
-              View and manage digital form submissions (Incident Reports, Medical Declarations,
-              etc.)
-            </p>
-            <p className="text-sm text-gray-500 mt-1">
-              Note: Leave Request Forms are managed in Leave Management
-            </p>
+          <div className="flex items-start justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+                <FileText className="w-8 h-8 mr-3 text-[#4F46E5]" />
+                Forms Management
+              </h1>
+              <p className="text-gray-600 mt-1">
+                View and manage digital form submissions (Incident Reports, Medical Declarations,
+                etc.)
+              </p>
+              <p className="text-sm text-gray-500 mt-1">
+                Note: Leave Request Forms are managed in Leave Management
+              </p>
+            </div>
+            {user?.role === 'admin' && (
+              <button
+                onClick={() => setShowBuilder(!showBuilder)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center"
+              >
+                <LayoutList className="w-4 h-4 mr-2" />
+                Form Builder
+              </button>
+            )}
           </div>
 
+          {showBuilder && <FormBuilder />}
+
           {/* Statistics Cards */}
           {stats && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -233,8 +256,15 @@ export default function FormsManagementPage() {
                         <div className="flex-1">
                           <div className="flex items-center gap-3 mb-2">
                             <h3 className="text-lg font-medium text-gray-900">
-                              {submission.digital_forms?.title || 'Form Submission'}
+                              {submission.form?.title || 'Form Submission'}
                             </h3>
+                            {!isArchived && (
+                              <span
+                                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(submission.status)}`}
+                              >
+                                {submission.status}
+                              </span>
+                            )}
                             {isArchived && (
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                                 <Archive className="w-3 h-3 mr-1" />
@@ -246,8 +276,8 @@ export default function FormsManagementPage() {
                           <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
                             <div className="flex items-center">
                               <User className="w-4 h-4 mr-2" />
-                              {submission.pilots
-                                ? `${submission.pilots.first_name} ${submission.pilots.last_name}`
+                              {submission.pilot
+                                ? `${submission.pilot.first_name} ${submission.pilot.last_name}`
                                 : 'No pilot assigned'}
                             </div>
                             <div className="flex items-center">
@@ -273,7 +303,7 @@ export default function FormsManagementPage() {
                             className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors flex items-center"
                           >
                             <Download className="w-4 h-4 mr-1" />
-                            Download
+                            Download PDF
                           </button>
                           {!isArchived && (
                             <button
@@ -303,6 +333,12 @@ export default function FormsManagementPage() {
               }}
               onDownload={handleDownload}
               onArchive={handleArchive}
+              user={user}
+              onDecided={() => {
+                setShowDetailModal(false);
+                setSelectedSubmission(null);
+                refreshSubmissions();
+              }}
             />
           )}
         </div>
@@ -334,8 +370,14 @@ function StatCard({ title, value, icon: Icon, color }: any) {
   );
 }
 
-function DetailModal({ submission, onClose, onDownload, onArchive }: any) {
+function DetailModal({ submission, onClose, onDownload, onArchive, user, onDecided }: any) {
   const isArchived = submission.status === 'archived';
+  const schema = normalizeFormSchema(submission.form?.form_schema);
+  const formData = submission.form_data || {};
+  // Answers in form order with their labels; data the schema does not describe is shown as stored
+  const answers = schema.fields.length
+    ? visibleFields(schema, formData).map((field) => [field.label, formData[field.name]])
+    : Object.entries(formData).map(([key, value]) => [key.replace(/_/g, ' '), value]);
 
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
@@ -346,7 +388,7 @@ function DetailModal({ submission, onClose, onDownload, onArchive }: any) {
           <div className="p-6 space-y-4">
             <div className="flex items-center justify-between">
               <h2 className="text-xl font-semibold text-gray-900">
-                {submission.digital_forms?.title}
+                {submission.form?.title}
               </h2>
               {isArchived && (
                 <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
@@ -361,8 +403,8 @@ function DetailModal({ submission, onClose, onDownload, onArchive }: any) {
                 <div>
                   <p className="text-sm font-medium text-gray-700">Pilot</p>
                   <p className="text-gray-900">
-                    {submission.pilots
-                      ? `${submission.pilots.first_name} ${submission.pilots.last_name}`
+                    {submission.pilot
+                      ? `${submission.pilot.first_name} ${submission.pilot.last_name}`
                       : 'N/A'}
                   </p>
                 </div>
@@ -374,16 +416,20 @@ function DetailModal({ submission, onClose, onDownload, onArchive }: any) {
                 </div>
               </div>
 
-              {Object.entries(submission.form_data || {}).map(([key, value]: any) => (
-                <div key={key}>
-                  <p className="text-sm font-medium text-gray-700 capitalize">
-                    {key.replace(/_/g, ' ')}
+              {answers.map(([label, value]: any) => (
+                <div key={label}>
+                  <p className="text-sm font-medium text-gray-700 capitalize">{label}</p>
+                  <p className="text-gray-900">
+                    {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value}
                   </p>
-                  <p className="text-gray-900">{value}</p>
                 </div>
               ))}
             </div>
 
+            {user && (
+              <FormApprovalPanel submission={submission} user={user} onDecided={onDecided} />
+            )}
+
             <div className="flex items-center gap-3 pt-4 border-t border-gray-200">
               <button
                 onClick={onClose}
@@ -398,7 +444,7 @@ function DetailModal({ submission, onClose, onDownload, onArchive }: any) {
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center justify-center"
               >
                 <Download className="w-4 h-4 mr-2" />
-                Download
+                Download PDF
               </button>
               {!isArchived && (
                 <button
@@ -5,6 +5,7 @@ import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { InteractiveRosterCalendar } from '@/components/leave/InteractiveRosterCalendar';
 import { RosterPeriodNavigator } from '@/components/leave/RosterPeriodNavigator';
 import { LeaveConflictDetector } from '@/components/leave/LeaveConflictDetector';
+import { CalendarFeedLink } from '@/components/calendar/CalendarFeedLink';
 import { useAuth } from '@/contexts/AuthContext';
 import { permissions } from '@/lib/auth-utils';
 import { getCurrentRosterPeriod, RosterPeriod } from '@/lib/roster-utils';
@@ -96,6 +97,9 @@ export default function LeaveCalendarPage() {
             </div>
           </div>
 
+          {/* Calendar Subscription */}
+          <CalendarFeedLink />
+
           {/* Roster Period Navigator */}
           <RosterPeriodNavigator
             currentPeriod={currentRoster}
@@ -4,9 +4,11 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { RosterPeriodSelector } from '@/components/leave/RosterPeriodSelector';
+import { LeaveWhatIfSimulator } from '@/components/leave/LeaveWhatIfSimulator';
 import { LeaveRequest, getLeaveRequestStats } from '@/lib/leave-service';
 import { permissions } from '@/lib/auth-utils';
 import { format, parseISO } from 'date-fns';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface LeaveStats {
   totalRequests: number;
@@ -83,7 +85,7 @@ export default function RosterPlanningPage() {
     try {
       console.log(`🔍 Frontend: Loading leave requests for ${rosterPeriod}`);
 
-      const response = await fetch(
+      const response = await authenticatedFetch(
         `/api/leave-requests/roster-period?period=${encodeURIComponent(rosterPeriod)}`
       );
       if (!response.ok) {
@@ -144,7 +146,7 @@ export default function RosterPlanningPage() {
 
       console.log('🎯 Starting PDF generation for roster period:', state.selectedRosterPeriod);
 
-      const response = await fetch('/api/reports/roster-leave', {
+      const response = await authenticatedFetch('/api/reports/roster-leave', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -203,7 +205,7 @@ export default function RosterPlanningPage() {
       console.log('📧 Preparing email for roster period:', state.selectedRosterPeriod);
 
       // Generate the PDF first
-      const response = await fetch('/api/reports/roster-leave', {
+      const response = await authenticatedFetch('/api/reports/roster-leave', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -645,6 +647,11 @@ Recipients: ${recipients.split(',').join(', ')}`);
             </>
           )}
 
+          {/* What-If Crew Simulation */}
+          {state.selectedRosterPeriod && (
+            <LeaveWhatIfSimulator rosterPeriod={state.selectedRosterPeriod} />
+          )}
+
           {/* Air Niugini Footer */}
           <div className="text-center text-sm text-gray-500 mt-8 pt-6 border-t border-gray-200">
             <div className="flex items-center justify-center space-x-2">
@@ -29,8 +29,10 @@ import { PilotStatsGrid } from '@/components/shared/PilotStatsGrid';
 import { CertificationStatusChart } from '@/components/shared/CertificationStatusChart';
 import { ComplianceGauge } from '@/components/shared/ComplianceGauge';
 import { DashboardSkeleton } from '@/components/dashboard/DashboardSkeleton';
+import { FtlWatchlist } from '@/components/dashboard/FtlWatchlist';
 import { NavIcons, StatusIcons, ActionIcons, UIIcons } from '@/lib/icon-mapping';
 import { Users, TrendingUp, TrendingDown, FileCheck, Calendar, AlertTriangle, CheckCircle2, Clock, BarChart3, Activity, type LucideIcon } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 // Type definitions for dashboard state
 interface PilotStats {
@@ -312,7 +314,7 @@ export default function DashboardPage() {
         // Load all live data - use API endpoints for better reliability
         const [apiStatsResponse, types, expiring, expired, leave, fleet, activity, retirement] =
           await Promise.all([
-            fetch(`${window.location.origin}/api/dashboard/stats`)
+            authenticatedFetch(`${window.location.origin}/api/dashboard/stats`)
               .then((res) => {
                 if (!res.ok) throw new Error(`HTTP ${res.status}`);
                 return res.json();
@@ -336,7 +338,7 @@ export default function DashboardPage() {
             getLeaveRequestStats(),
             getFleetUtilization(),
             getRecentActivity(),
-            fetch(`${window.location.origin}/api/retirement`)
+            authenticatedFetch(`${window.location.origin}/api/retirement`)
               .then((res) => {
                 if (!res.ok) throw new Error(`HTTP ${res.status}`);
                 return res.json();
@@ -820,6 +822,9 @@ export default function DashboardPage() {
                 </div>
               </section>
 
+              {/* Flight Time Limitations Watchlist */}
+              {permissions.canViewReports(user) && <FtlWatchlist />}
+
               {/* Quick Actions Section */}
               <section className="mb-6 md:mb-8">
                 <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 md:mb-6">
@@ -13,6 +13,8 @@ import {
 } from '@/lib/pilot-service-client';
 import { format } from 'date-fns';
 import { getCategoryIcon } from '@/lib/certification-utils';
+import { authenticatedFetch } from '@/lib/api-client';
+import { optimisticCertificationUpdate } from '@/lib/optimistic-updates';
 
 interface CertificationData {
   checkTypeId: string;
@@ -26,6 +28,8 @@ interface CertificationData {
     className: string;
   };
   hasData: boolean;
+  id: string | null;
+  updatedAt: string | null;
 }
 
 interface FormData {
@@ -258,34 +262,54 @@ export default function PilotCertificationsPage() {
 
       console.log('🔍 Certification Page: Submitting updates:', updates.length, 'items');
 
-      // Always use API route from client components (service role bypasses RLS)
-      console.log('🔍 Certification Page: Calling API to update certifications...');
-      const response = await fetch(`/api/certifications?pilotId=${pilotId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          certifications: updates,
-        }),
-      });
+      // Offline, each changed certification is queued against the row it was loaded from
+      const changes = certifications
+        .filter((cert) => (cert.expiryDate?.slice(0, 10) ?? '') !== formData[cert.checkTypeId])
+        .map((cert) => ({
+          data: {
+            check_type_id: cert.checkTypeId,
+            expiry_date: formData[cert.checkTypeId] || null,
+          },
+          base: cert.id
+            ? {
+                id: cert.id,
+                check_type_id: cert.checkTypeId,
+                expiry_date: cert.expiryDate,
+                updated_at: cert.updatedAt,
+              }
+            : null,
+        }));
+
+      await optimisticCertificationUpdate(queryClient, pilotId, changes, async () => {
+        // Always use API route from client components (service role bypasses RLS)
+        console.log('🔍 Certification Page: Calling API to update certifications...');
+        const response = await authenticatedFetch(`/api/certifications?pilotId=${pilotId}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            certifications: updates,
+          }),
+        });
 
-      console.log('🔍 Certification Page: API response status:', response.status);
+        console.log('🔍 Certification Page: API response status:', response.status);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('🚨 Certification Page: API request failed:', errorText);
-        throw new Error(`API request failed: ${errorText}`);
-      }
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('🚨 Certification Page: API request failed:', errorText);
+          throw new Error(`API request failed: ${errorText}`);
+        }
 
-      const result = await response.json();
+        const result = await response.json();
 
-      if (!result.success) {
-        console.error('🚨 Certification Page: API returned error:', result.error);
-        throw new Error(result.error || 'Failed to update certifications');
-      }
+        if (!result.success) {
+          console.error('🚨 Certification Page: API returned error:', result.error);
+          throw new Error(result.error || 'Failed to update certifications');
+        }
 
-      console.log('✅ Certification Page: Successfully updated certifications');
+        console.log('✅ Certification Page: Successfully updated certifications');
+      });
 
       // Invalidate all related queries to force refetch with fresh data
       await queryClient.invalidateQueries({ queryKey: ['pilot', pilotId] });
@@ -8,6 +8,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { permissions } from '@/lib/auth-utils';
 import { getCertificationStatus, getCategoryIcon } from '@/lib/certification-utils';
 import { getPilotById, getPilotCertifications } from '@/lib/pilot-service-client';
+import { PilotCurrency } from '@/components/pilots/PilotCurrency';
+import { CalendarFeedLink } from '@/components/calendar/CalendarFeedLink';
 import {
   calculateRetirementInfo,
   getRetirementAge,
@@ -15,6 +17,7 @@ import {
   getRetirementStatusColor,
 } from '@/lib/retirement-utils';
 import { format, differenceInYears } from 'date-fns';
+import { authenticatedFetch } from '@/lib/api-client';
 // Using emojis and custom SVGs instead of Lucide React icons
 
 interface PilotDetail {
@@ -232,7 +235,7 @@ export default function PilotDetailPage() {
 
     setDeleting(true);
     try {
-      const response = await fetch(`/api/pilots/${pilot.id}`, {
+      const response = await authenticatedFetch(`/api/pilots/${pilot.id}`, {
         method: 'DELETE',
       });
 
@@ -448,6 +451,16 @@ export default function PilotDetailPage() {
             </div>
           )}
 
+          {/* Recency & Qualifications */}
+          <PilotCurrency pilotId={pilotId} canEdit={permissions.canEdit(user)} />
+
+          {/* Calendar Subscription */}
+          {permissions.canEdit(user) && (
+            <div className="mt-8">
+              <CalendarFeedLink pilotId={pilotId} />
+            </div>
+          )}
+
           {/* Certifications */}
           <div className="mt-8">
             <div className="flex items-center justify-between mb-6">
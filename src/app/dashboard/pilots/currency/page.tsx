@@ -0,0 +1,56 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { CurrencyOverview } from '@/components/pilots/CurrencyOverview';
+import { permissions } from '@/lib/auth-utils';
+
+export default function PilotCurrencyPage() {
+  const { user, isLoading: authLoading } = useAuth();
+
+  if (authLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center space-x-3 text-gray-600">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-[#4F46E5]" />
+          <span>Loading...</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user || !permissions.canViewReports(user)) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-red-800">Access Denied</h3>
+          <p className="mt-2 text-sm text-red-700">
+            You don&apos;t have permission to access pilot currency.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="p-6 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-[#4F46E5] rounded-lg flex items-center justify-center">
+              <span className="text-white text-xl">🛬</span>
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Recency &amp; Qualifications</h1>
+              <p className="text-gray-600">
+                Takeoff and landing recency, route and aerodrome qualifications across the fleet
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <CurrencyOverview canManageRules={permissions.canManageSettings(user)} />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -17,6 +17,7 @@ import {
 } from '@/lib/export-utils';
 import { calculateRetirementInfo } from '@/lib/retirement-utils';
 import { BarChart3, TrendingUp, FileText, Download } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface ReportSummary {
   totalPilots: number;
@@ -139,7 +140,7 @@ export default function ReportsPage() {
     setSelectedReport(reportType);
 
     try {
-      const response = await fetch(`/api/reports?type=${reportType}`);
+      const response = await authenticatedFetch(`/api/reports?type=${reportType}`);
       const result = await response.json();
 
       if (!result.success) {
@@ -190,7 +191,7 @@ export default function ReportsPage() {
         requestBody.pilotId = pilotId;
       }
 
-      const response = await fetch('/api/reports/pdf', {
+      const response = await authenticatedFetch('/api/reports/pdf', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -402,7 +403,7 @@ export default function ReportsPage() {
             <button
               onClick={() => {
                 // Export all pilots with current data
-                fetch('/api/pilots')
+                authenticatedFetch('/api/pilots')
                   .then((res) => res.json())
                   .then((result) => {
                     if (result.success) {
@@ -431,7 +432,7 @@ export default function ReportsPage() {
             <button
               onClick={() => {
                 // Export pilots with certification issues
-                fetch('/api/pilots')
+                authenticatedFetch('/api/pilots')
                   .then((res) => res.json())
                   .then((result) => {
                     if (result.success) {
@@ -462,7 +463,7 @@ export default function ReportsPage() {
             <button
               onClick={() => {
                 // Export all certifications
-                fetch('/api/certifications')
+                authenticatedFetch('/api/certifications')
                   .then((res) => res.json())
                   .then((result) => {
                     if (result.success) {
@@ -491,7 +492,7 @@ export default function ReportsPage() {
             <button
               onClick={() => {
                 // Export leave requests
-                fetch('/api/leave-requests')
+                authenticatedFetch('/api/leave-requests')
                   .then((res) => res.json())
                   .then((result) => {
                     if (result.success) {
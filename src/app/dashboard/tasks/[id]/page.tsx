@@ -28,6 +28,7 @@ import { apiGet, apiPatch, apiDelete } from '@/lib/api-client';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { useAuth } from '@/contexts/AuthContext';
 import { permissions } from '@/lib/auth-utils';
+import { TaskOccurrenceActions } from '@/components/tasks/TaskOccurrenceActions';
 
 export default function TaskDetailPage() {
   const params = useParams();
@@ -230,6 +231,17 @@ export default function TaskDetailPage() {
               )}
             </div>
           )}
+
+          {/* Recurring Occurrence */}
+          {taskData.is_recurring && taskData.occurrence_date && (
+            <TaskOccurrenceActions
+              task={taskData}
+              onChanged={() => {
+                queryClient.invalidateQueries({ queryKey: ['task', taskId] });
+                queryClient.invalidateQueries({ queryKey: ['tasks'] });
+              }}
+            />
+          )}
         </div>
 
         {/* Task Details */}
@@ -16,6 +16,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { apiPost, apiGet } from '@/lib/api-client';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { RecurrenceEditor } from '@/components/tasks/RecurrenceEditor';
+import type { RecurrencePattern } from '@/lib/task-recurrence';
 import { ArrowLeft, Save } from 'lucide-react';
 import Link from 'next/link';
 
@@ -43,10 +45,12 @@ export default function NewTaskPage() {
   const [error, setError] = useState<string | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(true);
+  const [recurrence, setRecurrence] = useState<RecurrencePattern | null>(null);
 
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors },
   } = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
@@ -85,6 +89,8 @@ export default function NewTaskPage() {
         estimated_hours: data.estimated_hours ? Number(data.estimated_hours) : undefined,
         due_date: data.due_date ? data.due_date : undefined,
         category_id: data.category_id || undefined,
+        is_recurring: recurrence !== null,
+        recurrence_pattern: recurrence || undefined,
       };
 
       await apiPost('/api/tasks', taskData);
@@ -227,6 +233,13 @@ export default function NewTaskPage() {
               </div>
             </div>
 
+            {/* Recurrence */}
+            <RecurrenceEditor
+              value={recurrence}
+              onChange={setRecurrence}
+              startDate={watch('due_date')?.slice(0, 10) || undefined}
+            />
+
             {/* Tags */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
@@ -20,12 +20,14 @@ import {
   Clock,
   LayoutGrid,
   List as ListIcon,
+  CalendarClock,
 } from 'lucide-react';
 import Link from 'next/link';
 import { format } from 'date-fns';
 import { apiGet } from '@/lib/api-client';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { LazyLoader } from '@/components/ui/LazyLoader';
+import { TaskGenerationRules } from '@/components/tasks/TaskGenerationRules';
 
 // Lazy load the modal
 const TaskModal = lazy(() =>
@@ -39,6 +41,7 @@ type ViewMode = 'list' | 'kanban';
 export default function TasksPage() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [showRules, setShowRules] = useState(false);
   const [filters, setFilters] = useState({
     status: 'active',
     priority: 'all',
@@ -113,6 +116,14 @@ export default function TasksPage() {
                 </button>
               </div>
 
+              <button
+                onClick={() => setShowRules(!showRules)}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <CalendarClock className="w-5 h-5 mr-2" />
+                Expiry Tasks
+              </button>
+
               <button
                 onClick={() => setShowAddModal(true)}
                 className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -154,6 +165,9 @@ export default function TasksPage() {
             </div>
           )}
 
+          {/* Expiry Task Rules */}
+          {showRules && <TaskGenerationRules onGenerated={handleAddSuccess} />}
+
           {/* Filters */}
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
             <div className="flex items-center gap-2 mb-4">
@@ -0,0 +1,170 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { Award, AlertTriangle, Clock, CheckCircle2, Upload } from 'lucide-react';
+import type { PilotCertification, PilotCertificationSummary } from '@/lib/pilot-portal-records';
+
+export default function PilotCertificationsPage() {
+  const [certifications, setCertifications] = useState<PilotCertification[]>([]);
+  const [summary, setSummary] = useState<PilotCertificationSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchCertifications = async () => {
+      try {
+        const response = await fetch('/api/pilot/certifications');
+        const result = await response.json();
+
+        if (result.success) {
+          setCertifications(result.data.certifications);
+          setSummary(result.data.summary);
+        } else {
+          setError(result.error || 'Failed to load certifications');
+        }
+      } catch (err) {
+        console.error('Error fetching certifications:', err);
+        setError('Failed to load certifications');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchCertifications();
+  }, []);
+
+  const describeExpiry = (certification: PilotCertification) => {
+    if (!certification.expiryDate) return 'No expiry date on record';
+    const days = certification.status.daysUntilExpiry;
+    if (days < 0) return `Expired ${-days} day${days === -1 ? '' : 's'} ago`;
+    if (days === 0) return 'Expires today';
+    return `${days} day${days === 1 ? '' : 's'} remaining`;
+  };
+
+  const summaryCards = summary
+    ? [
+        {
+          label: 'Expired',
+          value: summary.expired,
+          icon: AlertTriangle,
+          color: 'text-red-600 bg-red-100',
+        },
+        {
+          label: 'Expiring Soon',
+          value: summary.expiringSoon,
+          icon: Clock,
+          color: 'text-yellow-600 bg-yellow-100',
+        },
+        {
+          label: 'Current',
+          value: summary.current,
+          icon: CheckCircle2,
+          color: 'text-green-600 bg-green-100',
+        },
+      ]
+    : [];
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center mr-4">
+              <Award className="w-6 h-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">My Certifications</h1>
+              <p className="text-gray-600">Your checks and when they expire</p>
+            </div>
+          </div>
+          <Link href="/pilot/documents" className="btn btn-ghost border-gray-300">
+            <Upload className="w-4 h-4 mr-2" />
+            Upload Renewal
+          </Link>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="loading-spinner-lg" />
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-red-800">{error}</div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {summaryCards.map((card) => (
+              <div
+                key={card.label}
+                className="bg-white rounded-xl shadow-md p-5 border border-gray-200 flex items-center"
+              >
+                <div
+                  className={`w-10 h-10 rounded-lg flex items-center justify-center mr-4 ${card.color}`}
+                >
+                  <card.icon className="w-5 h-5" />
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+                  <p className="text-sm text-gray-600">{card.label}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Certification List */}
+          {certifications.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-md p-12 border border-gray-200 text-center">
+              <Award className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                No certifications on record
+              </h3>
+              <p className="text-gray-600">Contact the fleet office if this looks wrong.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-md border border-gray-200 divide-y divide-gray-200">
+              {certifications.map((certification) => (
+                <div
+                  key={certification.id}
+                  className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                >
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {certification.checkCode}
+                      {certification.category && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {certification.category}
+                        </span>
+                      )}
+                    </p>
+                    {certification.checkDescription && (
+                      <p className="text-sm text-gray-600">{certification.checkDescription}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-4 sm:text-right">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {certification.expiryDate
+                          ? format(parseISO(certification.expiryDate), 'dd MMM yyyy')
+                          : '—'}
+                      </p>
+                      <p className="text-xs text-gray-500">{describeExpiry(certification)}</p>
+                    </div>
+                    <span
+                      className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium border ${certification.status.className}`}
+                    >
+                      {certification.status.label}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
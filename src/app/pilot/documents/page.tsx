@@ -0,0 +1,259 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FileText, Upload, Clock, CheckCircle2, XCircle, ExternalLink } from 'lucide-react';
+import type { VerificationStatus } from '@/lib/document-storage';
+import {
+  PILOT_DOCUMENT_TYPE_LABELS,
+  PILOT_UPLOAD_DOCUMENT_TYPES,
+  type PilotDocument,
+  type PilotUploadDocumentType,
+} from '@/lib/pilot-portal-records';
+
+const verificationStyles: Record<
+  VerificationStatus,
+  { label: string; className: string; icon: typeof CheckCircle2 }
+> = {
+  pending: {
+    label: 'Awaiting verification',
+    className: 'bg-yellow-100 text-yellow-800',
+    icon: Clock,
+  },
+  verified: { label: 'Verified', className: 'bg-green-100 text-green-800', icon: CheckCircle2 },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800', icon: XCircle },
+};
+
+const documentTypeLabel = (type: string) =>
+  PILOT_DOCUMENT_TYPE_LABELS[type as PilotUploadDocumentType] ?? type;
+
+export default function PilotDocumentsPage() {
+  const [documents, setDocuments] = useState<PilotDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const fetchDocuments = async () => {
+    try {
+      const response = await fetch('/api/pilot/documents');
+      const result = await response.json();
+
+      if (result.success) {
+        setDocuments(result.data || []);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to load documents' });
+      }
+    } catch (err) {
+      console.error('Error fetching documents:', err);
+      setMessage({ type: 'error', text: 'Failed to load documents' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDocuments();
+  }, []);
+
+  const handleUpload = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsUploading(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/pilot/documents', {
+        method: 'POST',
+        body: new FormData(event.currentTarget),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({
+          type: 'success',
+          text: 'Document uploaded. The fleet office will verify it shortly.',
+        });
+        formRef.current?.reset();
+        await fetchDocuments();
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to upload document' });
+      }
+    } catch (err) {
+      console.error('Error uploading document:', err);
+      setMessage({ type: 'error', text: 'Failed to upload document' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleView = async (documentId: string) => {
+    const response = await fetch(`/api/pilot/documents/${documentId}`);
+    const result = await response.json();
+
+    if (result.success) {
+      window.open(result.data.url, '_blank', 'noopener,noreferrer');
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to open document' });
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-200">
+        <div className="flex items-center">
+          <div className="w-12 h-12 bg-indigo-100 rounded-lg flex items-center justify-center mr-4">
+            <FileText className="w-6 h-6 text-indigo-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">My Documents</h1>
+            <p className="text-gray-600">
+              Upload renewed licences, medicals and other evidence for the fleet office
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-xl p-4 border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-red-50 border-red-200 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Upload Form */}
+      <form
+        ref={formRef}
+        onSubmit={handleUpload}
+        className="bg-white rounded-xl shadow-md p-6 border border-gray-200 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900">Upload a Document</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="documentType" className="block text-sm font-medium text-gray-700 mb-1">
+              Document type *
+            </label>
+            <select id="documentType" name="documentType" required className="input w-full">
+              {PILOT_UPLOAD_DOCUMENT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {PILOT_DOCUMENT_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="file" className="block text-sm font-medium text-gray-700 mb-1">
+              File * (PDF or image, up to 10MB)
+            </label>
+            <input
+              id="file"
+              name="file"
+              type="file"
+              required
+              accept="application/pdf,image/jpeg,image/png,image/gif"
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="document_number"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Document number
+            </label>
+            <input
+              id="document_number"
+              name="document_number"
+              type="text"
+              maxLength={100}
+              className="input w-full"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="issue_date" className="block text-sm font-medium text-gray-700 mb-1">
+                Issue date
+              </label>
+              <input id="issue_date" name="issue_date" type="date" className="input w-full" />
+            </div>
+            <div>
+              <label htmlFor="expiry_date" className="block text-sm font-medium text-gray-700 mb-1">
+                Expiry date
+              </label>
+              <input id="expiry_date" name="expiry_date" type="date" className="input w-full" />
+            </div>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+            Notes for the fleet office
+          </label>
+          <textarea id="notes" name="notes" rows={2} maxLength={500} className="input w-full" />
+        </div>
+        <div className="flex justify-end">
+          <button type="submit" disabled={isUploading} className="btn btn-primary">
+            <Upload className="w-4 h-4 mr-2" />
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </button>
+        </div>
+      </form>
+
+      {/* Document List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="loading-spinner-lg" />
+        </div>
+      ) : documents.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 border border-gray-200 text-center">
+          <FileText className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No documents yet</h3>
+          <p className="text-gray-600">Documents you upload will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md border border-gray-200 divide-y divide-gray-200">
+          {documents.map((document) => {
+            const verification = verificationStyles[document.verification_status ?? 'pending'];
+            return (
+              <div
+                key={document.id}
+                className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+              >
+                <div>
+                  <p className="font-semibold text-gray-900">
+                    {documentTypeLabel(document.document_type)}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {document.document_name} • Uploaded{' '}
+                    {format(parseISO(document.created_at), 'dd MMM yyyy')}
+                    {document.expiry_date &&
+                      ` • Expires ${format(parseISO(document.expiry_date), 'dd MMM yyyy')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span
+                    className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${verification.className}`}
+                  >
+                    <verification.icon className="w-3.5 h-3.5 mr-1" />
+                    {verification.label}
+                  </span>
+                  <button
+                    onClick={() => handleView(document.id)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-1" />
+                    View
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plane, Clock, Eye, CheckCircle2, XCircle, Ban, Send } from 'lucide-react';
+import type {
+  FlightRequest,
+  FlightRequestStatus,
+  FlightRequestType,
+} from '@/lib/flight-request-service';
+import { FLIGHT_REQUEST_TYPE_LABELS } from '@/lib/pilot-requests';
+
+const statusStyles: Record<
+  FlightRequestStatus,
+  { label: string; className: string; icon: typeof CheckCircle2 }
+> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800', icon: Clock },
+  UNDER_REVIEW: { label: 'Under review', className: 'bg-blue-100 text-blue-800', icon: Eye },
+  APPROVED: { label: 'Approved', className: 'bg-green-100 text-green-800', icon: CheckCircle2 },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800', icon: XCircle },
+  COMPLETED: { label: 'Completed', className: 'bg-green-100 text-green-800', icon: CheckCircle2 },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-100 text-gray-700', icon: Ban },
+};
+
+const emptyForm = {
+  request_type: 'ROUTE_QUALIFICATION' as FlightRequestType,
+  flight_number: '',
+  route: '',
+  departure_airport: '',
+  arrival_airport: '',
+  departure_date: '',
+  return_date: '',
+  priority: 'NORMAL',
+  reason: '',
+  notes: '',
+};
+
+const formatDay = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export default function PilotFlightRequestsPage() {
+  const [requests, setRequests] = useState<FlightRequest[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch('/api/pilot/flight-requests');
+      const result = await response.json();
+
+      if (result.success) {
+        setRequests(result.data || []);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to load flight requests' });
+      }
+    } catch (err) {
+      console.error('Error fetching flight requests:', err);
+      setMessage({ type: 'error', text: 'Failed to load flight requests' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const update =
+    (field: keyof typeof emptyForm) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setMessage(null);
+
+    // Empty fields count as not given
+    const payload = Object.fromEntries(Object.entries(form).filter(([, value]) => value !== ''));
+
+    try {
+      const response = await fetch('/api/pilot/flight-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({
+          type: 'success',
+          text: 'Flight request submitted. You will be notified when it is reviewed.',
+        });
+        setForm(emptyForm);
+        await fetchRequests();
+      } else {
+        setMessage({
+          type: 'error',
+          text: [result.error, ...(result.details || [])].join(': ') || 'Failed to submit request',
+        });
+      }
+    } catch (err) {
+      console.error('Error submitting flight request:', err);
+      setMessage({ type: 'error', text: 'Failed to submit flight request' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const textField = (field: keyof typeof emptyForm, label: string, maxLength: number) => (
+    <div>
+      <label htmlFor={field} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <input
+        id={field}
+        type="text"
+        maxLength={maxLength}
+        value={form[field]}
+        onChange={update(field)}
+        className="input w-full"
+      />
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-200">
+        <div className="flex items-center">
+          <div className="w-12 h-12 bg-sky-100 rounded-lg flex items-center justify-center mr-4">
+            <Plane className="w-6 h-6 text-sky-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Flight Requests</h1>
+            <p className="text-gray-600">
+              Request route qualifications, base changes, training and other assignments
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-xl p-4 border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-red-50 border-red-200 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Request Form */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-md p-6 border border-gray-200 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900">New Request</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="request_type" className="block text-sm font-medium text-gray-700 mb-1">
+              Request type *
+            </label>
+            <select
+              id="request_type"
+              required
+              value={form.request_type}
+              onChange={update('request_type')}
+              className="input w-full"
+            >
+              {Object.entries(FLIGHT_REQUEST_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">
+              Priority
+            </label>
+            <select
+              id="priority"
+              value={form.priority}
+              onChange={update('priority')}
+              className="input w-full"
+            >
+              <option value="LOW">Low</option>
+              <option value="NORMAL">Normal</option>
+              <option value="HIGH">High</option>
+              <option value="URGENT">Urgent</option>
+            </select>
+          </div>
+          {textField('route', 'Route (e.g. POM-LAE)', 100)}
+          {textField('flight_number', 'Flight number', 20)}
+          {textField('departure_airport', 'Departure airport', 10)}
+          {textField('arrival_airport', 'Arrival airport', 10)}
+          <div>
+            <label
+              htmlFor="departure_date"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Date from
+            </label>
+            <input
+              id="departure_date"
+              type="date"
+              value={form.departure_date}
+              onChange={update('departure_date')}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label htmlFor="return_date" className="block text-sm font-medium text-gray-700 mb-1">
+              Date to
+            </label>
+            <input
+              id="return_date"
+              type="date"
+              min={form.departure_date || undefined}
+              value={form.return_date}
+              onChange={update('return_date')}
+              className="input w-full"
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason *
+          </label>
+          <textarea
+            id="reason"
+            rows={2}
+            required
+            minLength={10}
+            maxLength={1000}
+            value={form.reason}
+            onChange={update('reason')}
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+            Notes
+          </label>
+          <textarea
+            id="notes"
+            rows={2}
+            maxLength={1000}
+            value={form.notes}
+            onChange={update('notes')}
+            className="input w-full"
+          />
+        </div>
+        <div className="flex justify-end">
+          <button type="submit" disabled={isSubmitting} className="btn btn-primary">
+            <Send className="w-4 h-4 mr-2" />
+            {isSubmitting ? 'Submitting...' : 'Submit Request'}
+          </button>
+        </div>
+      </form>
+
+      {/* Request List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="loading-spinner-lg" />
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 border border-gray-200 text-center">
+          <Plane className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No flight requests yet</h3>
+          <p className="text-gray-600">Requests you submit will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md border border-gray-200 divide-y divide-gray-200">
+          {requests.map((flightRequest) => {
+            const status = statusStyles[flightRequest.status] ?? statusStyles.PENDING;
+            const detail =
+              flightRequest.status === 'CANCELLED'
+                ? flightRequest.cancellation_reason
+                : flightRequest.review_notes;
+            return (
+              <div
+                key={flightRequest.id}
+                className="p-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2"
+              >
+                <div className="space-y-1">
+                  <p className="font-semibold text-gray-900">
+                    {FLIGHT_REQUEST_TYPE_LABELS[flightRequest.request_type] ??
+                      flightRequest.request_type}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Submitted {formatDay(flightRequest.created_at)}
+                    {flightRequest.route && ` • ${flightRequest.route}`}
+                    {flightRequest.departure_date &&
+                      ` • ${formatDay(flightRequest.departure_date)}`}
+                    {flightRequest.return_date && ` - ${formatDay(flightRequest.return_date)}`}
+                  </p>
+                  {detail && <p className="text-sm text-gray-500">{detail}</p>}
+                </div>
+                <span
+                  className={`inline-flex items-center self-start px-2.5 py-1 rounded-full text-xs font-medium ${status.className}`}
+                >
+                  <status.icon className="w-3.5 h-3.5 mr-1" />
+                  {status.label}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
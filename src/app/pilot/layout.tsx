@@ -7,6 +7,10 @@ import { pilotAuthService, type PilotAuthUser } from '@/lib/pilot-auth-utils';
 import {
   Home,
   Calendar,
+  CalendarRange,
+  PlaneTakeoff,
+  Award,
+  FileText,
   MessageSquare,
   Bell,
   LogOut,
@@ -76,6 +80,10 @@ export default function PilotLayout({ children }: { children: React.ReactNode })
   const navigation = [
     { name: 'Dashboard', href: '/pilot/dashboard', icon: Home },
     { name: 'Leave Requests', href: '/pilot/leave', icon: Calendar },
+    { name: 'Leave Bids', href: '/pilot/leave-bids', icon: CalendarRange },
+    { name: 'Flight Requests', href: '/pilot/flight-requests', icon: PlaneTakeoff },
+    { name: 'Certifications', href: '/pilot/certifications', icon: Award },
+    { name: 'Documents', href: '/pilot/documents', icon: FileText },
     { name: 'Feedback', href: '/pilot/feedback', icon: MessageSquare },
     { name: 'Notifications', href: '/pilot/notifications', icon: Bell },
   ];
@@ -0,0 +1,351 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarRange, Clock, CheckCircle2, XCircle, Undo2, Send } from 'lucide-react';
+import type { BidWindow, LeaveBidStatus } from '@/lib/pilot-requests';
+import type { PilotLeaveBid } from '@/lib/pilot-request-service';
+
+const statusStyles: Record<
+  LeaveBidStatus,
+  { label: string; className: string; icon: typeof CheckCircle2 }
+> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800', icon: Clock },
+  APPROVED: { label: 'Awarded', className: 'bg-green-100 text-green-800', icon: CheckCircle2 },
+  REJECTED: { label: 'Not awarded', className: 'bg-red-100 text-red-800', icon: XCircle },
+  WITHDRAWN: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-700', icon: Undo2 },
+};
+
+const emptyForm = {
+  roster_period_code: '',
+  preferredStart: '',
+  preferredEnd: '',
+  alternative1Start: '',
+  alternative1End: '',
+  alternative2Start: '',
+  alternative2End: '',
+  priority: 'MEDIUM',
+  reason: '',
+  notes: '',
+};
+
+const formatDay = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export default function PilotLeaveBidsPage() {
+  const [bids, setBids] = useState<PilotLeaveBid[]>([]);
+  const [openPeriods, setOpenPeriods] = useState<BidWindow[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchBids = async () => {
+    try {
+      const response = await fetch('/api/pilot/leave-bids');
+      const result = await response.json();
+
+      if (result.success) {
+        setBids(result.data.bids || []);
+        setOpenPeriods(result.data.openPeriods || []);
+      } else {
+        setMessage({ type: 'error', text: result.error || 'Failed to load leave bids' });
+      }
+    } catch (err) {
+      console.error('Error fetching leave bids:', err);
+      setMessage({ type: 'error', text: 'Failed to load leave bids' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBids();
+  }, []);
+
+  const update =
+    (field: keyof typeof emptyForm) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setMessage(null);
+
+    const alternatives = [
+      { startDate: form.alternative1Start, endDate: form.alternative1End },
+      { startDate: form.alternative2Start, endDate: form.alternative2End },
+    ].filter((range) => range.startDate && range.endDate);
+
+    try {
+      const response = await fetch('/api/pilot/leave-bids', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          roster_period_code: form.roster_period_code,
+          preferred: { startDate: form.preferredStart, endDate: form.preferredEnd },
+          alternatives,
+          priority: form.priority,
+          reason: form.reason,
+          notes: form.notes || undefined,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setMessage({ type: 'success', text: 'Leave bid submitted' });
+        setForm(emptyForm);
+        await fetchBids();
+      } else {
+        setMessage({
+          type: 'error',
+          text: [result.error, ...(result.details || [])].join(': ') || 'Failed to submit bid',
+        });
+      }
+    } catch (err) {
+      console.error('Error submitting leave bid:', err);
+      setMessage({ type: 'error', text: 'Failed to submit leave bid' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = async (bidId: string) => {
+    if (!confirm('Withdraw this leave bid?')) return;
+
+    const response = await fetch(`/api/pilot/leave-bids/${bidId}`, { method: 'DELETE' });
+    const result = await response.json();
+
+    if (result.success) {
+      setMessage({ type: 'success', text: 'Leave bid withdrawn' });
+      await fetchBids();
+    } else {
+      setMessage({ type: 'error', text: result.error || 'Failed to withdraw leave bid' });
+    }
+  };
+
+  const selectedPeriod = openPeriods.find((period) => period.code === form.roster_period_code);
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-xl shadow-md p-6 border border-gray-200">
+        <div className="flex items-center">
+          <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center mr-4">
+            <CalendarRange className="w-6 h-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Leave Bids</h1>
+            <p className="text-gray-600">
+              Bid for leave in upcoming roster periods before each period&apos;s bid deadline
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`rounded-xl p-4 border ${
+            message.type === 'success'
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-red-50 border-red-200 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Bid Form */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-md p-6 border border-gray-200 space-y-4"
+      >
+        <h2 className="text-lg font-semibold text-gray-900">Submit a Bid</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="roster_period_code"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Roster period *
+            </label>
+            <select
+              id="roster_period_code"
+              required
+              value={form.roster_period_code}
+              onChange={update('roster_period_code')}
+              className="input w-full"
+            >
+              <option value="">Select a period</option>
+              {openPeriods.map((period) => (
+                <option key={period.code} value={period.code}>
+                  {period.code} ({formatDay(period.startDate)} - {formatDay(period.endDate)})
+                </option>
+              ))}
+            </select>
+            {selectedPeriod && (
+              <p className="text-xs text-gray-500 mt-1">
+                Bids close {formatDay(selectedPeriod.bidDeadline)} (
+                {selectedPeriod.daysLeft === 0 ? 'today' : `${selectedPeriod.daysLeft} days left`})
+              </p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-1">
+              Priority
+            </label>
+            <select
+              id="priority"
+              value={form.priority}
+              onChange={update('priority')}
+              className="input w-full"
+            >
+              <option value="HIGH">High</option>
+              <option value="MEDIUM">Medium</option>
+              <option value="LOW">Low</option>
+            </select>
+          </div>
+          {(
+            [
+              ['Preferred dates *', 'preferredStart', 'preferredEnd'],
+              ['Alternative 1', 'alternative1Start', 'alternative1End'],
+              ['Alternative 2', 'alternative2Start', 'alternative2End'],
+            ] as const
+          ).map(([label, startField, endField], index) => (
+            <div key={startField} className="sm:col-span-2 grid grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor={startField}
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  {label} from
+                </label>
+                <input
+                  id={startField}
+                  type="date"
+                  required={index === 0}
+                  min={index === 0 ? selectedPeriod?.startDate : undefined}
+                  max={index === 0 ? selectedPeriod?.endDate : undefined}
+                  value={form[startField]}
+                  onChange={update(startField)}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label htmlFor={endField} className="block text-sm font-medium text-gray-700 mb-1">
+                  to
+                </label>
+                <input
+                  id={endField}
+                  type="date"
+                  required={index === 0 || !!form[startField]}
+                  min={form[startField] || undefined}
+                  value={form[endField]}
+                  onChange={update(endField)}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div>
+          <label htmlFor="reason" className="block text-sm font-medium text-gray-700 mb-1">
+            Reason *
+          </label>
+          <textarea
+            id="reason"
+            rows={2}
+            required
+            minLength={10}
+            maxLength={500}
+            value={form.reason}
+            onChange={update('reason')}
+            className="input w-full"
+          />
+        </div>
+        <div>
+          <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
+            Notes
+          </label>
+          <textarea
+            id="notes"
+            rows={2}
+            maxLength={500}
+            value={form.notes}
+            onChange={update('notes')}
+            className="input w-full"
+          />
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting || openPeriods.length === 0}
+            className="btn btn-primary"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isSubmitting ? 'Submitting...' : 'Submit Bid'}
+          </button>
+        </div>
+      </form>
+
+      {/* Bid List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="loading-spinner-lg" />
+        </div>
+      ) : bids.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 border border-gray-200 text-center">
+          <CalendarRange className="w-10 h-10 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No leave bids yet</h3>
+          <p className="text-gray-600">Bids you submit will appear here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md border border-gray-200 divide-y divide-gray-200">
+          {bids.map((bid) => {
+            const status = statusStyles[bid.status] ?? statusStyles.PENDING;
+            const award = bid.leave_bid_awards;
+            return (
+              <div
+                key={bid.id}
+                className="p-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2"
+              >
+                <div className="space-y-1">
+                  <p className="font-semibold text-gray-900">{bid.roster_period_code}</p>
+                  <p className="text-sm text-gray-700">Preferred: {bid.preferred_dates}</p>
+                  {bid.alternative_dates && (
+                    <p className="text-sm text-gray-600">{bid.alternative_dates}</p>
+                  )}
+                  {award?.outcome === 'AWARDED' && award.start_date && award.end_date && (
+                    <p className="text-sm text-green-700">
+                      Awarded {formatDay(award.start_date)} - {formatDay(award.end_date)}
+                    </p>
+                  )}
+                  {bid.review_comments && (
+                    <p className="text-sm text-gray-500">{bid.review_comments}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span
+                    className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${status.className}`}
+                  >
+                    <status.icon className="w-3.5 h-3.5 mr-1" />
+                    {status.label}
+                  </span>
+                  {bid.status === 'PENDING' && (
+                    <button
+                      onClick={() => handleWithdraw(bid.id)}
+                      className="text-sm font-medium text-red-600 hover:text-red-800 flex items-center"
+                    >
+                      <Undo2 className="w-4 h-4 mr-1" />
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
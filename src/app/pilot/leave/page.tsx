@@ -15,6 +15,7 @@ import {
   X,
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { PilotCalendarSync } from '@/components/leave/PilotCalendarSync';
 
 // Form validation schema
 const leaveRequestSchema = z.object({
@@ -234,6 +235,9 @@ export default function PilotLeavePage() {
         </div>
       </div>
 
+      {/* Calendar Subscription & Import */}
+      <PilotCalendarSync onImported={fetchLeaveRequests} />
+
       {/* Leave Requests List */}
       <div className="bg-white rounded-2xl shadow-lg border border-gray-200">
         <div className="p-6 border-b border-gray-200">
@@ -1,30 +1,11 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useRouter } from 'next/navigation';
 import { pilotAuthService, type PilotAuthUser } from '@/lib/pilot-auth-utils';
-import {
-  getPilotNotifications,
-  getUnreadCount,
-  markNotificationAsRead,
-  markAllNotificationsAsRead,
-  getNotificationIcon,
-  getNotificationColor,
-  type Notification,
-} from '@/lib/pilot-notifications-service';
-import {
-  Bell,
-  CheckCheck,
-  Filter,
-  Calendar,
-  MessageSquare,
-  CheckCircle2,
-  XCircle,
-  CalendarX,
-  Heart,
-  Megaphone,
-  AlertTriangle,
-} from 'lucide-react';
+import { getNotificationColor } from '@/lib/notification-catalogue';
+import type { InboxNotification as Notification } from '@/lib/notification-service';
+import NotificationIcon from '@/components/notifications/NotificationIcon';
+import { Bell, CheckCheck } from 'lucide-react';
 import Link from 'next/link';
 
 export default function PilotNotificationsPage() {
@@ -33,7 +14,6 @@ export default function PilotNotificationsPage() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
-  const router = useRouter();
 
   useEffect(() => {
     const loadUser = async () => {
@@ -41,70 +21,48 @@ export default function PilotNotificationsPage() {
       setPilotUser(user);
 
       if (user?.id) {
-        await loadNotifications(user.id);
+        await loadNotifications(filter);
       }
     };
     loadUser();
   }, []);
 
-  const loadNotifications = async (userId: string) => {
+  const loadNotifications = async (currentFilter: 'all' | 'unread') => {
     setIsLoading(true);
-    const filters = filter === 'unread' ? { unreadOnly: true } : {};
-    const notifs = await getPilotNotifications(userId, filters);
-    setNotifications(notifs);
-
-    const count = await getUnreadCount(userId);
-    setUnreadCount(count);
-    setIsLoading(false);
-  };
-
-  const handleMarkAsRead = async (notificationId: string) => {
-    const success = await markNotificationAsRead(notificationId);
-    if (success && pilotUser?.id) {
-      await loadNotifications(pilotUser.id);
+    try {
+      const response = await fetch(
+        `/api/pilot/notifications${currentFilter === 'unread' ? '?unreadOnly=true' : ''}`
+      );
+      const result = await response.json();
+      if (result.success) {
+        setNotifications(result.data.notifications);
+        setUnreadCount(result.data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const handleMarkAllAsRead = async () => {
-    if (!pilotUser?.id) return;
-    const success = await markAllNotificationsAsRead(pilotUser.id);
-    if (success) {
-      await loadNotifications(pilotUser.id);
+  const markRead = async (ids?: string[]) => {
+    const response = await fetch('/api/pilot/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids }),
+    });
+    if (response.ok) {
+      await loadNotifications(filter);
     }
   };
 
+  const handleMarkAsRead = (notificationId: string) => markRead([notificationId]);
+
+  const handleMarkAllAsRead = () => markRead();
+
   const handleFilterChange = async (newFilter: 'all' | 'unread') => {
     setFilter(newFilter);
-    if (pilotUser?.id) {
-      setIsLoading(true);
-      const filters = newFilter === 'unread' ? { unreadOnly: true } : {};
-      const notifs = await getPilotNotifications(pilotUser.id, filters);
-      setNotifications(notifs);
-      setIsLoading(false);
-    }
-  };
-
-  const getIconComponent = (type: string) => {
-    switch (type) {
-      case 'leave_request_submitted':
-        return <Calendar className="w-5 h-5" />;
-      case 'leave_request_approved':
-        return <CheckCircle2 className="w-5 h-5" />;
-      case 'leave_request_rejected':
-        return <XCircle className="w-5 h-5" />;
-      case 'leave_request_cancelled':
-        return <CalendarX className="w-5 h-5" />;
-      case 'post_reply':
-        return <MessageSquare className="w-5 h-5" />;
-      case 'post_liked':
-        return <Heart className="w-5 h-5" />;
-      case 'system_announcement':
-        return <Megaphone className="w-5 h-5" />;
-      case 'certification_expiring':
-        return <AlertTriangle className="w-5 h-5" />;
-      default:
-        return <Bell className="w-5 h-5" />;
-    }
+    await loadNotifications(newFilter);
   };
 
   const getColorClasses = (type: string) => {
@@ -209,7 +167,7 @@ export default function PilotNotificationsPage() {
                 <div className="flex items-start">
                   {/* Icon */}
                   <div className={`w-10 h-10 ${colors.bg} rounded-lg flex items-center justify-center mr-4 flex-shrink-0 ${colors.text}`}>
-                    {getIconComponent(notification.type)}
+                    <NotificationIcon type={notification.type} />
                   </div>
 
                   {/* Content */}
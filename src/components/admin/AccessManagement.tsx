@@ -0,0 +1,755 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { apiDelete, apiGet, apiPatch, apiPost, apiPut } from '@/lib/api-client';
+import {
+  PERMISSION_GROUPS,
+  ROLE_DEFINITIONS,
+  formatPermission,
+  type Permission,
+  type Role,
+} from '@/lib/rbac';
+import { isOverrideActive, type PermissionOverrideEffect } from '@/lib/access-control';
+import {
+  DATA_SCOPE_LABELS,
+  DATA_SCOPE_TYPES,
+  describeDataScope,
+  resolveDataScope,
+  type DataScope,
+  type DataScopeType,
+} from '@/lib/data-scope';
+import type {
+  CustomRoleRecord,
+  PermissionAuditEntry,
+  UserAccess,
+} from '@/lib/access-control-service';
+
+type Tab = 'users' | 'roles' | 'audit';
+
+interface AccessData {
+  users: UserAccess[];
+  roles: CustomRoleRecord[];
+  audit: PermissionAuditEntry[];
+  scopeOptions: Record<DataScopeType, string[]>;
+}
+
+interface RoleDraft {
+  id?: string;
+  name: string;
+  description: string;
+  base_role: Role;
+  permissions: Permission[];
+}
+
+interface OverrideDraft {
+  userId: string;
+  permission: Permission | '';
+  effect: PermissionOverrideEffect;
+  expiresOn: string;
+  reason: string;
+}
+
+interface ScopeDraft {
+  userId: string;
+  groups: DataScope['groups'];
+}
+
+const BUILT_IN_ROLES = Object.values(ROLE_DEFINITIONS);
+
+const OVERRIDE_STYLES: Record<PermissionOverrideEffect, string> = {
+  grant: 'bg-green-100 text-green-800',
+  deny: 'bg-red-100 text-red-800',
+};
+
+const AUDIT_ACTION_LABELS: Record<PermissionAuditEntry['action'], string> = {
+  granted: 'Permission granted',
+  denied: 'Permission denied',
+  revoked: 'Override removed',
+  role_changed: 'Role changed',
+  role_created: 'Role created',
+  role_updated: 'Role updated',
+  role_deleted: 'Role deleted',
+  scope_changed: 'Data scope changed',
+};
+
+function formatDateTime(value: string): string {
+  return format(parseISO(value), 'dd MMM yyyy HH:mm');
+}
+
+/**
+ * AccessManagement Component
+ *
+ * Assigns built-in or custom roles to staff users, grants or denies individual
+ * permissions (optionally until an expiry date), limits users to pilot groups
+ * (data scopes), edits custom roles with permissions grouped as in
+ * PERMISSION_GROUPS, and lists the permission audit log.
+ */
+export function AccessManagement({ currentUserId }: { currentUserId: string }) {
+  const [tab, setTab] = useState<Tab>('users');
+  const [data, setData] = useState<AccessData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [roleDraft, setRoleDraft] = useState<RoleDraft | null>(null);
+  const [overrideDraft, setOverrideDraft] = useState<OverrideDraft | null>(null);
+  const [scopeDraft, setScopeDraft] = useState<ScopeDraft | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const result = await apiGet<{ data: AccessData }>('/api/admin/access');
+      setData(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load access settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>, onDone?: () => void) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+      onDone?.();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const assignRole = (user: UserAccess, value: string) => {
+    const [kind, id] = value.split(':') as [string, string];
+    const assignment = kind === 'custom' ? { customRoleId: id } : { role: id };
+    run(() => apiPatch('/api/admin/access', { userId: user.id, ...assignment }));
+  };
+
+  const saveOverride = (draft: OverrideDraft) =>
+    run(
+      () =>
+        apiPost('/api/admin/access/overrides', {
+          userId: draft.userId,
+          permission: draft.permission,
+          effect: draft.effect,
+          expiresAt: draft.expiresOn ? new Date(`${draft.expiresOn}T23:59:59`).toISOString() : null,
+          reason: draft.reason || undefined,
+        }),
+      () => setOverrideDraft(null)
+    );
+
+  const saveScopes = (draft: ScopeDraft) =>
+    run(
+      () =>
+        apiPut('/api/admin/access/scopes', {
+          userId: draft.userId,
+          scopes: DATA_SCOPE_TYPES.flatMap((type) =>
+            (draft.groups[type] || []).map((value) => ({ scope_type: type, scope_value: value }))
+          ),
+        }),
+      () => setScopeDraft(null)
+    );
+
+  const toggleScopeValue = (type: DataScopeType, value: string) => {
+    if (!scopeDraft) return;
+    const values = scopeDraft.groups[type] || [];
+    const next = values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+    setScopeDraft({ ...scopeDraft, groups: { ...scopeDraft.groups, [type]: next } });
+  };
+
+  const saveRole = (draft: RoleDraft) => {
+    const body = {
+      name: draft.name,
+      description: draft.description || null,
+      base_role: draft.base_role,
+      permissions: draft.permissions,
+    };
+    run(
+      () =>
+        draft.id
+          ? apiPut('/api/admin/access/roles', { id: draft.id, ...body })
+          : apiPost('/api/admin/access/roles', body),
+      () => setRoleDraft(null)
+    );
+  };
+
+  const deleteRole = (role: CustomRoleRecord) => {
+    if (!confirm(`Delete the ${role.name} role?`)) return;
+    run(() => apiDelete(`/api/admin/access/roles?id=${role.id}`));
+  };
+
+  const togglePermission = (permission: Permission) => {
+    if (!roleDraft) return;
+    const permissions = roleDraft.permissions.includes(permission)
+      ? roleDraft.permissions.filter((p) => p !== permission)
+      : [...roleDraft.permissions, permission];
+    setRoleDraft({ ...roleDraft, permissions });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-3 text-gray-600">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-[#E4002B]" />
+        <span>Loading access settings...</span>
+      </div>
+    );
+  }
+
+  const roles = data?.roles || [];
+  const customRoleById = new Map(roles.map((role) => [role.id, role]));
+
+  const renderUsers = () => (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">User</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Role</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Overrides</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Data scope</th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {(data?.users || []).map((user) => {
+            const isSelf = user.id === currentUserId;
+            const draft = overrideDraft?.userId === user.id ? overrideDraft : null;
+            const scope = resolveDataScope(user);
+            const editingScope = scopeDraft?.userId === user.id ? scopeDraft : null;
+            return (
+              <Fragment key={user.id}>
+                <tr>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{user.name}</div>
+                    <div className="text-gray-500">{user.email}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={
+                        user.custom_role_id ? `custom:${user.custom_role_id}` : `role:${user.role}`
+                      }
+                      onChange={(e) => assignRole(user, e.target.value)}
+                      disabled={isSelf || busy}
+                      title={isSelf ? 'You cannot change your own role' : undefined}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                    >
+                      <optgroup label="Built-in roles">
+                        {BUILT_IN_ROLES.map((role) => (
+                          <option key={role.name} value={`role:${role.name}`}>
+                            {role.displayName}
+                          </option>
+                        ))}
+                      </optgroup>
+                      {roles.length > 0 && (
+                        <optgroup label="Custom roles">
+                          {roles.map((role) => (
+                            <option key={role.id} value={`custom:${role.id}`}>
+                              {role.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {user.permission_overrides.length === 0 && (
+                        <span className="text-gray-400">None</span>
+                      )}
+                      {user.permission_overrides.map((override) => {
+                        const active = isOverrideActive(override);
+                        return (
+                          <span
+                            key={override.id}
+                            title={override.reason || undefined}
+                            className={`inline-flex items-center px-2 py-0.5 rounded text-xs ${
+                              active
+                                ? OVERRIDE_STYLES[override.effect]
+                                : 'bg-gray-100 text-gray-500 line-through'
+                            }`}
+                          >
+                            {override.effect === 'grant' ? '+' : '−'}{' '}
+                            {formatPermission(override.permission as Permission)}
+                            {override.expires_at &&
+                              ` (until ${format(parseISO(override.expires_at), 'dd MMM yyyy')})`}
+                            {!isSelf && (
+                              <button
+                                onClick={() =>
+                                  run(() =>
+                                    apiDelete(`/api/admin/access/overrides?id=${override.id}`)
+                                  )
+                                }
+                                disabled={busy}
+                                className="ml-1 hover:text-gray-900"
+                                aria-label="Remove override"
+                              >
+                                ×
+                              </button>
+                            )}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className={scope.unrestricted ? 'text-gray-400' : 'text-gray-900'}>
+                      {user.role === 'admin' ? 'All pilots (admin)' : describeDataScope(scope)}
+                    </div>
+                    {!isSelf && user.role !== 'admin' && (
+                      <button
+                        onClick={() =>
+                          setScopeDraft(
+                            editingScope ? null : { userId: user.id, groups: scope.groups }
+                          )
+                        }
+                        className="text-xs text-[#E4002B] hover:underline"
+                      >
+                        {editingScope ? 'Cancel' : 'Edit scope'}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {!isSelf && (
+                      <button
+                        onClick={() =>
+                          setOverrideDraft(
+                            draft
+                              ? null
+                              : {
+                                  userId: user.id,
+                                  permission: '',
+                                  effect: 'grant',
+                                  expiresOn: '',
+                                  reason: '',
+                                }
+                          )
+                        }
+                        className="text-sm text-[#E4002B] hover:underline"
+                      >
+                        {draft ? 'Cancel' : 'Grant / deny'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {editingScope && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={5} className="px-4 py-3 space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        {DATA_SCOPE_TYPES.map((type) => (
+                          <fieldset key={type} className="border border-gray-200 rounded p-3">
+                            <legend className="px-1 text-xs font-medium text-gray-900">
+                              {DATA_SCOPE_LABELS[type]}
+                            </legend>
+                            {(data?.scopeOptions[type] || []).length === 0 && (
+                              <p className="text-xs text-gray-400">No values recorded on pilots</p>
+                            )}
+                            {(data?.scopeOptions[type] || []).map((value) => (
+                              <label
+                                key={value}
+                                className="flex items-center space-x-2 text-sm py-0.5"
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={(editingScope.groups[type] || []).includes(value)}
+                                  onChange={() => toggleScopeValue(type, value)}
+                                />
+                                <span>{value}</span>
+                              </label>
+                            ))}
+                          </fieldset>
+                        ))}
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <p className="text-xs text-gray-500">
+                          Leave a group empty to allow any value. With nothing selected the user
+                          sees every pilot.
+                        </p>
+                        <button
+                          onClick={() => saveScopes(editingScope)}
+                          disabled={busy}
+                          className="px-3 py-1.5 bg-[#E4002B] text-white text-sm rounded hover:bg-[#C00020] disabled:opacity-50"
+                        >
+                          Save scope
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+                {draft && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={5} className="px-4 py-3">
+                      <div className="flex flex-wrap items-end gap-3">
+                        <label className="text-xs text-gray-600">
+                          Permission
+                          <select
+                            value={draft.permission}
+                            onChange={(e) =>
+                              setOverrideDraft({
+                                ...draft,
+                                permission: e.target.value as Permission,
+                              })
+                            }
+                            className="block mt-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            <option value="">Select a permission</option>
+                            {PERMISSION_GROUPS.map((group) => (
+                              <optgroup key={group.name} label={group.name}>
+                                {group.permissions.map((permission) => (
+                                  <option key={permission} value={permission}>
+                                    {formatPermission(permission)}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="text-xs text-gray-600">
+                          Effect
+                          <select
+                            value={draft.effect}
+                            onChange={(e) =>
+                              setOverrideDraft({
+                                ...draft,
+                                effect: e.target.value as PermissionOverrideEffect,
+                              })
+                            }
+                            className="block mt-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            <option value="grant">Grant</option>
+                            <option value="deny">Deny</option>
+                          </select>
+                        </label>
+                        <label className="text-xs text-gray-600">
+                          Expires (optional)
+                          <input
+                            type="date"
+                            value={draft.expiresOn}
+                            min={format(new Date(), 'yyyy-MM-dd')}
+                            onChange={(e) =>
+                              setOverrideDraft({ ...draft, expiresOn: e.target.value })
+                            }
+                            className="block mt-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-600 flex-1 min-w-[12rem]">
+                          Reason
+                          <input
+                            type="text"
+                            value={draft.reason}
+                            maxLength={500}
+                            onChange={(e) => setOverrideDraft({ ...draft, reason: e.target.value })}
+                            className="block w-full mt-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                        </label>
+                        <button
+                          onClick={() => saveOverride(draft)}
+                          disabled={!draft.permission || busy}
+                          className="px-3 py-1.5 bg-[#E4002B] text-white text-sm rounded hover:bg-[#C00020] disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderRoleEditor = (draft: RoleDraft) => (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">
+        {draft.id ? `Edit ${draft.name}` : 'New custom role'}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="text-sm text-gray-700">
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            maxLength={100}
+            placeholder="e.g. Training Manager"
+            onChange={(e) => setRoleDraft({ ...draft, name: e.target.value })}
+            className="block w-full mt-1 px-3 py-2 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Based on
+          <select
+            value={draft.base_role}
+            onChange={(e) => setRoleDraft({ ...draft, base_role: e.target.value as Role })}
+            className="block w-full mt-1 px-3 py-2 border border-gray-300 rounded"
+          >
+            {BUILT_IN_ROLES.map((role) => (
+              <option key={role.name} value={role.name}>
+                {role.displayName}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Description
+          <input
+            type="text"
+            value={draft.description}
+            maxLength={500}
+            onChange={(e) => setRoleDraft({ ...draft, description: e.target.value })}
+            className="block w-full mt-1 px-3 py-2 border border-gray-300 rounded"
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {draft.permissions.length} permissions selected. Screens that still check roles treat
+          members as {ROLE_DEFINITIONS[draft.base_role].displayName}.
+        </p>
+        <button
+          onClick={() =>
+            setRoleDraft({
+              ...draft,
+              permissions: [...ROLE_DEFINITIONS[draft.base_role].permissions],
+            })
+          }
+          className="text-sm text-[#E4002B] hover:underline"
+        >
+          Copy {ROLE_DEFINITIONS[draft.base_role].displayName} permissions
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {PERMISSION_GROUPS.map((group) => (
+          <fieldset key={group.name} className="border border-gray-200 rounded p-3">
+            <legend className="px-1 text-sm font-medium text-gray-900">{group.name}</legend>
+            <p className="text-xs text-gray-500 mb-2">{group.description}</p>
+            {group.permissions.map((permission) => (
+              <label key={permission} className="flex items-center space-x-2 text-sm py-0.5">
+                <input
+                  type="checkbox"
+                  checked={draft.permissions.includes(permission)}
+                  onChange={() => togglePermission(permission)}
+                />
+                <span>{formatPermission(permission)}</span>
+              </label>
+            ))}
+          </fieldset>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={() => setRoleDraft(null)}
+          className="px-4 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => saveRole(draft)}
+          disabled={draft.name.trim().length < 2 || busy}
+          className="px-4 py-2 bg-[#E4002B] text-white text-sm rounded hover:bg-[#C00020] disabled:opacity-50"
+        >
+          Save role
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderRoles = () => {
+    if (roleDraft) return renderRoleEditor(roleDraft);
+
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-end">
+          <button
+            onClick={() =>
+              setRoleDraft({
+                name: '',
+                description: '',
+                base_role: 'user',
+                permissions: [...ROLE_DEFINITIONS.user.permissions],
+              })
+            }
+            className="px-4 py-2 bg-[#E4002B] text-white text-sm rounded hover:bg-[#C00020]"
+          >
+            New role
+          </button>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {roles.map((role) => {
+            const members = (data?.users || []).filter((u) => u.custom_role_id === role.id);
+            return (
+              <div key={role.id} className="p-4 flex items-start justify-between">
+                <div>
+                  <div className="font-medium text-gray-900">{role.name}</div>
+                  <div className="text-sm text-gray-500">
+                    Based on {ROLE_DEFINITIONS[role.base_role].displayName} ·{' '}
+                    {role.permissions.length} permissions · {members.length} users
+                  </div>
+                  {role.description && (
+                    <div className="text-sm text-gray-600 mt-1">{role.description}</div>
+                  )}
+                </div>
+                <div className="space-x-3 text-sm">
+                  <button
+                    onClick={() =>
+                      setRoleDraft({
+                        id: role.id,
+                        name: role.name,
+                        description: role.description || '',
+                        base_role: role.base_role,
+                        permissions: role.permissions as Permission[],
+                      })
+                    }
+                    className="text-[#E4002B] hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deleteRole(role)}
+                    disabled={members.length > 0 || busy}
+                    title={members.length > 0 ? 'Reassign its users first' : undefined}
+                    className="text-gray-600 hover:underline disabled:opacity-40"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          {BUILT_IN_ROLES.map((role) => (
+            <div key={role.name} className="p-4 bg-gray-50">
+              <div className="font-medium text-gray-900">
+                {role.displayName} <span className="text-xs text-gray-500">(built-in)</span>
+              </div>
+              <div className="text-sm text-gray-500">
+                {role.description} · {role.permissions.length} permissions
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const describeAuditEntry = (entry: PermissionAuditEntry): string => {
+    if (entry.permission) {
+      const expiry = entry.details.expires_at as string | null | undefined;
+      return `${formatPermission(entry.permission as Permission)}${
+        expiry ? ` until ${format(parseISO(expiry), 'dd MMM yyyy')}` : ''
+      }`;
+    }
+    if (entry.action === 'role_updated') {
+      const added = (entry.details.added as string[] | undefined) || [];
+      const removed = (entry.details.removed as string[] | undefined) || [];
+      const parts = [
+        entry.from_role !== entry.to_role && `renamed to ${entry.to_role}`,
+        added.length > 0 &&
+          `added ${added.map((p) => formatPermission(p as Permission)).join(', ')}`,
+        removed.length > 0 &&
+          `removed ${removed.map((p) => formatPermission(p as Permission)).join(', ')}`,
+      ].filter(Boolean);
+      return parts.join('; ') || 'No permission changes';
+    }
+    if (entry.action === 'scope_changed') {
+      return `${entry.details.from as string} → ${entry.details.to as string}`;
+    }
+    if (entry.from_role && entry.to_role) return `${entry.from_role} → ${entry.to_role}`;
+    return '';
+  };
+
+  const renderAudit = () => (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">When</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Change</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">User / role</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">Details</th>
+            <th className="px-4 py-3 text-left font-medium text-gray-500">By</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {(data?.audit || []).map((entry) => (
+            <tr key={entry.id}>
+              <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                {formatDateTime(entry.created_at)}
+              </td>
+              <td className="px-4 py-3 whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action]}</td>
+              <td className="px-4 py-3">
+                {entry.user?.name ||
+                  (entry.role_definition_id &&
+                    (customRoleById.get(entry.role_definition_id)?.name || entry.from_role)) ||
+                  entry.to_role ||
+                  entry.from_role}
+              </td>
+              <td className="px-4 py-3 text-gray-600">
+                {describeAuditEntry(entry)}
+                {entry.reason && <div className="text-xs text-gray-500">{entry.reason}</div>}
+              </td>
+              <td className="px-4 py-3 text-gray-600">{entry.performed_by_user?.name || '—'}</td>
+            </tr>
+          ))}
+          {(data?.audit || []).length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                No permission changes recorded yet
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const tabs: Array<{ id: Tab; label: string }> = [
+    { id: 'users', label: `Users (${data?.users.length || 0})` },
+    { id: 'roles', label: `Roles (${roles.length + BUILT_IN_ROLES.length})` },
+    { id: 'audit', label: 'Audit log' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="border-b border-gray-200 flex space-x-6">
+        {tabs.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`pb-2 text-sm font-medium border-b-2 ${
+              tab === id
+                ? 'border-[#E4002B] text-[#E4002B]'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {tab === 'users' && renderUsers()}
+      {tab === 'roles' && renderRoles()}
+      {tab === 'audit' && renderAudit()}
+
+      {tab === 'users' && (
+        <p className="text-xs text-gray-500">
+          Effective permissions are those of the user&apos;s role plus grants, minus denials. A
+          denial always wins, and overrides stop applying once they expire. A data scope limits the
+          pilots (and their leave, documents and disciplinary matters) a user can see.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { apiDelete, apiGet, apiPost, apiPut } from '@/lib/api-client';
+import {
+  EMAIL_LOCALE_LABELS,
+  GLOBAL_TEMPLATE_VARIABLES,
+  type EmailLocale,
+  type EmailTemplateContent,
+  type EmailTemplateEdit,
+  type EmailTemplateKey,
+} from '@/lib/email-templates';
+import type { EmailTemplatePreview, EmailTemplateRecord } from '@/lib/email-template-service';
+
+type Part = keyof EmailTemplateContent;
+
+const PARTS: Array<{ id: Part; label: string; rows?: number }> = [
+  { id: 'subject', label: 'Subject' },
+  { id: 'html', label: 'HTML body', rows: 16 },
+  { id: 'text', label: 'Plain-text body', rows: 10 },
+];
+
+const LOCALES = Object.keys(EMAIL_LOCALE_LABELS) as EmailLocale[];
+
+const PREVIEW_DELAY_MS = 500;
+
+function toDraft(template: EmailTemplateRecord): EmailTemplateEdit {
+  return {
+    subject: template.subject,
+    html: template.html,
+    text: template.text,
+    translations: { tpi: { ...template.translations.tpi } },
+  };
+}
+
+function sameDraft(a: EmailTemplateEdit, b: EmailTemplateEdit): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * EmailTemplateEditor Component
+ *
+ * Lists the email templates, edits the subject, HTML and plain-text body of
+ * each in English and Tok Pisin (blank translated parts fall back to
+ * English), previews the draft with sample data as it is typed, sends test
+ * emails through the local test transport, and restores built-in templates.
+ */
+export function EmailTemplateEditor() {
+  const [templates, setTemplates] = useState<EmailTemplateRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<EmailTemplateKey>('certification_expiry_alert');
+  const [locale, setLocale] = useState<EmailLocale>('en');
+  const [draft, setDraft] = useState<EmailTemplateEdit | null>(null);
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [previewView, setPreviewView] = useState<'html' | 'text'>('html');
+  const [testTo, setTestTo] = useState('');
+
+  const selected = templates.find((template) => template.key === selectedKey);
+  const dirty = !!selected && !!draft && !sameDraft(draft, toDraft(selected));
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const result = await apiGet<{ data: EmailTemplateRecord[] }>('/api/admin/email-templates');
+      setTemplates(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load email templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (selected) setDraft(toDraft(selected));
+  }, [selected]);
+
+  // Preview the draft once typing pauses
+  useEffect(() => {
+    if (!draft) return undefined;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await apiPost<{ data: EmailTemplatePreview }>(
+          '/api/admin/email-templates/preview',
+          { key: selectedKey, locale, draft }
+        );
+        setPreview(result.data);
+      } catch (err) {
+        setPreview({
+          email: null,
+          errors: [err instanceof Error ? err.message : 'Preview failed'],
+        });
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, locale, selectedKey]);
+
+  const run = async (action: () => Promise<unknown>, done: string, reload = true) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      await action();
+      if (done) setNotice(done);
+      if (reload) await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectTemplate = (key: EmailTemplateKey) => {
+    if (dirty && !confirm('Discard your unsaved changes to this template?')) return;
+    setSelectedKey(key);
+    setPreview(null);
+    setNotice(null);
+  };
+
+  const valueOf = (part: Part): string =>
+    (locale === 'en' ? draft?.[part] : draft?.translations.tpi?.[part]) ?? '';
+
+  const setPart = (part: Part, value: string) => {
+    if (!draft) return;
+    setDraft(
+      locale === 'en'
+        ? { ...draft, [part]: value }
+        : {
+            ...draft,
+            translations: {
+              ...draft.translations,
+              tpi: { ...draft.translations.tpi, [part]: value },
+            },
+          }
+    );
+  };
+
+  const save = () =>
+    draft &&
+    run(
+      () => apiPut('/api/admin/email-templates', { key: selectedKey, ...draft }),
+      'Template saved'
+    );
+
+  const reset = () => {
+    if (!selected) return;
+    if (!confirm(`Restore the built-in ${selected.name} template? Your edits will be lost.`))
+      return;
+    run(
+      () => apiDelete(`/api/admin/email-templates?key=${selectedKey}`),
+      'Built-in template restored'
+    );
+  };
+
+  const sendTest = () =>
+    draft &&
+    run(
+      async () => {
+        const result = await apiPost<{ data: { transport: string; messageId?: string } }>(
+          '/api/admin/email-templates/test-send',
+          { key: selectedKey, locale, to: testTo, draft }
+        );
+        const where =
+          result.data.transport === 'file'
+            ? `saved to ${result.data.messageId}`
+            : `sent via ${result.data.transport}`;
+        setNotice(`Test email to ${testTo} ${where}`);
+      },
+      '',
+      false
+    );
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-3 text-gray-600">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-[#E4002B]" />
+        <span>Loading email templates...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100 self-start">
+          {templates.map((template) => (
+            <button
+              key={template.key}
+              onClick={() => selectTemplate(template.key)}
+              className={`w-full text-left px-4 py-3 text-sm ${
+                template.key === selectedKey ? 'bg-red-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div
+                className={`font-medium ${
+                  template.key === selectedKey ? 'text-[#E4002B]' : 'text-gray-900'
+                }`}
+              >
+                {template.name}
+              </div>
+              <div className="text-xs text-gray-500">{template.description}</div>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {template.customized && (
+                  <span className="px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-800">
+                    Edited
+                  </span>
+                )}
+                {template.translations.tpi && (
+                  <span className="px-1.5 py-0.5 rounded text-xs bg-green-100 text-green-800">
+                    Tok Pisin
+                  </span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {selected && draft && (
+          <div className="lg:col-span-3 space-y-4">
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    {selected.customized && selected.updated_at
+                      ? `Edited ${format(parseISO(selected.updated_at), 'dd MMM yyyy HH:mm')}`
+                      : 'Built-in template'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {dirty && (
+                    <button
+                      onClick={() => setDraft(toDraft(selected))}
+                      disabled={busy}
+                      className="px-3 py-1.5 border border-gray-300 text-sm rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Discard changes
+                    </button>
+                  )}
+                  {selected.customized && (
+                    <button
+                      onClick={reset}
+                      disabled={busy}
+                      className="px-3 py-1.5 border border-gray-300 text-sm rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Restore built-in
+                    </button>
+                  )}
+                  <button
+                    onClick={save}
+                    disabled={busy || !dirty || !!preview?.errors.length}
+                    className="px-3 py-1.5 bg-[#E4002B] text-white text-sm rounded hover:bg-[#C00020] disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+
+              <div className="border-b border-gray-200 flex space-x-6">
+                {LOCALES.map((id) => (
+                  <button
+                    key={id}
+                    onClick={() => setLocale(id)}
+                    className={`pb-2 text-sm font-medium border-b-2 ${
+                      locale === id
+                        ? 'border-[#E4002B] text-[#E4002B]'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {EMAIL_LOCALE_LABELS[id]}
+                  </button>
+                ))}
+              </div>
+
+              {PARTS.map(({ id, label, rows }) => (
+                <label key={id} className="block text-sm text-gray-700">
+                  {label}
+                  {rows ? (
+                    <textarea
+                      value={valueOf(id)}
+                      onChange={(e) => setPart(id, e.target.value)}
+                      rows={rows}
+                      spellCheck={false}
+                      placeholder={locale === 'en' ? undefined : draft[id]}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs"
+                    />
+                  ) : (
+                    <input
+                      type="text"
+                      value={valueOf(id)}
+                      onChange={(e) => setPart(id, e.target.value)}
+                      placeholder={locale === 'en' ? undefined : draft[id]}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                    />
+                  )}
+                </label>
+              ))}
+              {locale !== 'en' && (
+                <p className="text-xs text-gray-500">Parts left blank are sent in English.</p>
+              )}
+
+              <details className="text-sm">
+                <summary className="cursor-pointer font-medium text-gray-700">
+                  Variables ({selected.variables.length + GLOBAL_TEMPLATE_VARIABLES.length})
+                </summary>
+                <p className="mt-2 text-xs text-gray-500">
+                  {'{{name}}'} inserts a value (escaped in HTML), {'{{{name}}}'} inserts it as-is,
+                  and {'{{#if name}}...{{else}}...{{/if}}'} shows content only when it is set.
+                </p>
+                <dl className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  {[...selected.variables, ...GLOBAL_TEMPLATE_VARIABLES].map((variable) => (
+                    <div key={variable.name} className="flex gap-2">
+                      <dt className="font-mono text-gray-900">{`{{${variable.name}}}`}</dt>
+                      <dd className="text-gray-500">{variable.description}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="font-medium text-gray-900">
+                  Preview with sample data ({EMAIL_LOCALE_LABELS[locale]})
+                </h3>
+                <div className="flex space-x-2">
+                  {(['html', 'text'] as const).map((view) => (
+                    <button
+                      key={view}
+                      onClick={() => setPreviewView(view)}
+                      className={`px-2 py-1 rounded text-xs ${
+                        previewView === view
+                          ? 'bg-gray-900 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {view === 'html' ? 'HTML' : 'Plain text'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {preview?.errors.length ? (
+                <ul className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800 list-disc list-inside">
+                  {preview.errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              ) : null}
+
+              {preview?.email && (
+                <>
+                  <p className="text-sm">
+                    <span className="text-gray-500">Subject: </span>
+                    <span className="font-medium text-gray-900">{preview.email.subject}</span>
+                  </p>
+                  {previewView === 'html' ? (
+                    <iframe
+                      title="Email preview"
+                      srcDoc={preview.email.html}
+                      sandbox=""
+                      className="w-full h-[600px] border border-gray-200 rounded"
+                    />
+                  ) : (
+                    <pre className="whitespace-pre-wrap text-xs bg-gray-50 border border-gray-200 rounded p-3 max-h-[600px] overflow-auto">
+                      {preview.email.text}
+                    </pre>
+                  )}
+                </>
+              )}
+
+              <div className="flex flex-wrap items-end gap-3 pt-3 border-t border-gray-100">
+                <label className="text-xs text-gray-600">
+                  Send a test to
+                  <input
+                    type="email"
+                    value={testTo}
+                    onChange={(e) => setTestTo(e.target.value)}
+                    placeholder="name@airniugini.com.pg"
+                    className="mt-1 block w-64 px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                </label>
+                <button
+                  onClick={sendTest}
+                  disabled={busy || !testTo || !!preview?.errors.length}
+                  className="px-3 py-1.5 border border-[#E4002B] text-[#E4002B] text-sm rounded hover:bg-red-50 disabled:opacity-50"
+                >
+                  Send test
+                </button>
+                <p className="text-xs text-gray-500">
+                  Test emails go to the local SMTP server or outbox folder, never through Resend.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -35,6 +35,7 @@ import type {
 } from '@/types/analytics';
 import { AIR_NIUGINI_COLORS } from '@/types/analytics';
 import { CertificationStatusChart } from '@/components/shared/CertificationStatusChart';
+import { authenticatedFetch } from '@/lib/api-client';
 
 // Register Chart.js components
 ChartJS.register(
@@ -66,10 +67,10 @@ export function AnalyticsDashboard() {
 
       // Fetch data from API routes instead of direct service calls
       const [certificationsRes, pilotsRes, trendsRes, leaveRes] = await Promise.all([
-        fetch('/api/analytics/certification'),
-        fetch('/api/analytics/pilot'),
-        fetch('/api/analytics/trends?months=12'),
-        fetch('/api/analytics/leave'),
+        authenticatedFetch('/api/analytics/certification'),
+        authenticatedFetch('/api/analytics/pilot'),
+        authenticatedFetch('/api/analytics/trends?months=12'),
+        authenticatedFetch('/api/analytics/leave'),
       ]);
 
       if (!certificationsRes.ok || !pilotsRes.ok || !trendsRes.ok || !leaveRes.ok) {
@@ -1,12 +1,11 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import {
-  LineChart,
+  ComposedChart,
   Line,
-  AreaChart,
   Area,
   XAxis,
   YAxis,
@@ -15,117 +14,179 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import { TrendingUp, TrendingDown, Activity, Download } from 'lucide-react';
+import { subMonths, startOfYear, format } from 'date-fns';
+import { TrendingUp, Activity, Download, AlertTriangle } from 'lucide-react';
+import { arrayToCSV, downloadCSV } from '@/lib/export-utils';
+import type { ForecastMetric, ForecastResult } from '@/lib/forecasting';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface TrendAnalysisProps {
   timeRange: string;
 }
 
+type ForecastResponse = ForecastResult & { forecastPeriod: string };
+
+const METRIC_LABELS: Record<ForecastMetric, string> = {
+  certifications: 'Certification Expiries',
+  leave: 'Leave Demand',
+  compliance: 'Compliance',
+};
+
+/**
+ * Earliest history date shown for the selected dashboard time range
+ */
+function historyCutoff(timeRange: string): string | null {
+  const today = new Date();
+  const months: Record<string, number> = { '1m': 1, '3m': 3, '6m': 6, '12m': 12 };
+  if (timeRange === 'ytd') return format(startOfYear(today), 'yyyy-MM-dd');
+  if (months[timeRange]) return format(subMonths(today, months[timeRange]), 'yyyy-MM-dd');
+  return null;
+}
+
+function formatValue(value: number | null, unit: string): string {
+  if (value === null) return 'n/a';
+  return unit.startsWith('%') ? `${value}%` : `${value}`;
+}
+
 /**
  * Trend Analysis Component
  *
  * Features:
- * - Time series visualization
- * - Predictive forecasting
- * - Comparative analytics (YoY, MoM)
- * - Trend indicators
- * - Interactive drill-down
+ * - Forecasts from /api/analytics/forecasts (certification expiries, leave demand, compliance)
+ * - Prediction intervals plotted as a band around the forecast
+ * - Historical actuals where the metric has them (leave demand per roster period)
+ * - Missing predictions are shown as gaps, never filled in
  */
 export default function TrendAnalysis({ timeRange }: TrendAnalysisProps) {
+  const [metric, setMetric] = useState<ForecastMetric>('leave');
   const [chartType, setChartType] = useState<'line' | 'area'>('line');
-  const [showForecast, setShowForecast] = useState(true);
+  const [showInterval, setShowInterval] = useState(true);
+  const [forecast, setForecast] = useState<ForecastResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadForecast = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await authenticatedFetch(
+          `/api/analytics/forecasts?metric=${metric}&months=6&periods=6`
+        );
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || 'Failed to load forecast');
+        }
+        if (!cancelled) setForecast(result.data);
+      } catch (err) {
+        if (!cancelled) {
+          setForecast(null);
+          setError(err instanceof Error ? err.message : 'Failed to load forecast');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
 
-  // Generate sample data with forecast
+    loadForecast();
+    return () => {
+      cancelled = true;
+    };
+  }, [metric]);
+
+  // One row per bucket: actuals for history, prediction and interval band for the forecast
   const data = useMemo(() => {
-    const months = [
-      'Jan',
-      'Feb',
-      'Mar',
-      'Apr',
-      'May',
-      'Jun',
-      'Jul',
-      'Aug',
-      'Sep',
-      'Oct',
-      'Nov',
-      'Dec',
-    ];
-    const historical = months.slice(0, 10).map((month, index) => ({
-      month,
-      compliance: 92 + Math.random() * 8,
-      certifications: 520 + Math.random() * 50,
-      pilots: 25 + Math.floor(Math.random() * 3),
-      forecast: null,
-    }));
+    if (!forecast) return [];
+    const cutoff = historyCutoff(timeRange);
 
-    // Add forecast data
-    const forecast = months.slice(10, 12).map((month) => ({
-      month,
-      compliance: null,
-      certifications: null,
-      pilots: null,
-      forecast: 95 + Math.random() * 3,
+    const history = forecast.history
+      .filter((point) => !cutoff || point.endDate >= cutoff)
+      .map((point) => ({
+        label: point.label,
+        actual: point.actual,
+        predicted: null as number | null,
+        interval: null as [number, number] | null,
+      }));
+
+    const projected = forecast.forecast.map((point) => ({
+      label: point.label,
+      actual: null as number | null,
+      predicted: point.predicted,
+      interval:
+        point.lower !== null && point.upper !== null
+          ? ([point.lower, point.upper] as [number, number])
+          : null,
     }));
 
-    return [...historical, ...forecast];
-  }, [timeRange]);
+    return [...history, ...projected];
+  }, [forecast, timeRange]);
 
-  // Calculate trends
-  const trends = useMemo(() => {
-    const complianceData = data.filter((d) => d.compliance !== null).map((d) => d.compliance!);
-    const recentAvg = complianceData.slice(-3).reduce((a, b) => a + b, 0) / 3;
-    const previousAvg = complianceData.slice(-6, -3).reduce((a, b) => a + b, 0) / 3;
-    const change = ((recentAvg - previousAvg) / previousAvg) * 100;
+  const next = forecast?.forecast[0];
+  const withPrediction = forecast?.forecast.filter((point) => point.predicted !== null) || [];
+  let intervalLabel = '—';
+  if (forecast) {
+    intervalLabel = forecast.confidenceLevel
+      ? `${Math.round(forecast.confidenceLevel * 100)}%`
+      : 'Bounds';
+  }
 
-    return {
-      compliance: {
-        value: recentAvg.toFixed(1),
-        change: change.toFixed(1),
-        trend: change > 0 ? 'up' : 'down',
-      },
-    };
-  }, [data]);
+  const handleExport = () => {
+    if (!forecast) return;
+    const rows = forecast.forecast.map((point) => ({
+      period: point.label,
+      start_date: point.startDate,
+      end_date: point.endDate,
+      predicted: point.predicted === null ? '' : String(point.predicted),
+      lower: point.lower === null ? '' : String(point.lower),
+      upper: point.upper === null ? '' : String(point.upper),
+      observations: String(point.observations),
+    }));
+    downloadCSV(
+      arrayToCSV(rows),
+      `forecast-${forecast.metric}-${format(new Date(), 'yyyy-MM-dd')}.csv`
+    );
+  };
 
   return (
     <div className="space-y-6">
-      {/* Trend Indicators */}
+      {/* Forecast Indicators */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Compliance Trend</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              Next: {next?.label || METRIC_LABELS[metric]}
+            </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
               <div>
-                <div className="text-2xl font-bold">{trends.compliance.value}%</div>
-                <p className="text-xs text-gray-500">Current average</p>
-              </div>
-              <div
-                className={`flex items-center ${trends.compliance.trend === 'up' ? 'text-green-600' : 'text-red-600'}`}
-              >
-                {trends.compliance.trend === 'up' ? (
-                  <TrendingUp className="h-5 w-5 mr-1" />
-                ) : (
-                  <TrendingDown className="h-5 w-5 mr-1" />
-                )}
-                <span className="font-semibold">
-                  {Math.abs(parseFloat(trends.compliance.change))}%
-                </span>
+                <div className="text-2xl font-bold">
+                  {next ? formatValue(next.predicted, forecast!.unit) : '—'}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {next && next.lower !== null && next.upper !== null
+                    ? `Range ${formatValue(next.lower, forecast!.unit)} – ${formatValue(next.upper, forecast!.unit)}`
+                    : forecast?.unit || 'Loading forecast'}
+                </p>
               </div>
+              <TrendingUp className="h-5 w-5 text-[#4F46E5]" />
             </div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Forecast Confidence</CardTitle>
+            <CardTitle className="text-sm font-medium">Interval</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
               <div>
-                <div className="text-2xl font-bold">87%</div>
-                <p className="text-xs text-gray-500">Model accuracy</p>
+                <div className="text-2xl font-bold">{intervalLabel}</div>
+                <p className="text-xs text-gray-500">
+                  {forecast?.confidenceLevel ? 'Prediction interval' : 'Exact or scenario bounds'}
+                </p>
               </div>
               <Activity className="h-5 w-5 text-[#4F46E5]" />
             </div>
@@ -134,22 +195,37 @@ export default function TrendAnalysis({ timeRange }: TrendAnalysisProps) {
 
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium">Projected Growth</CardTitle>
+            <CardTitle className="text-sm font-medium">Coverage</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
               <div>
-                <div className="text-2xl font-bold">+2.5%</div>
-                <p className="text-xs text-gray-500">Next quarter</p>
+                <div className="text-2xl font-bold">
+                  {forecast ? `${withPrediction.length}/${forecast.forecast.length}` : '—'}
+                </div>
+                <p className="text-xs text-gray-500">Periods with a prediction</p>
               </div>
-              <TrendingUp className="h-5 w-5 text-green-600" />
+              <Activity className="h-5 w-5 text-green-600" />
             </div>
           </CardContent>
         </Card>
       </div>
 
       {/* Chart Controls */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {(Object.keys(METRIC_LABELS) as ForecastMetric[]).map((key) => (
+            <Button
+              key={key}
+              variant={metric === key ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMetric(key)}
+              className={metric === key ? 'bg-[#4F46E5] hover:bg-[#4338CA]' : ''}
+            >
+              {METRIC_LABELS[key]}
+            </Button>
+          ))}
+        </div>
         <div className="flex items-center gap-2">
           <Button
             variant={chartType === 'line' ? 'default' : 'outline'}
@@ -167,150 +243,118 @@ export default function TrendAnalysis({ timeRange }: TrendAnalysisProps) {
           >
             Area Chart
           </Button>
-        </div>
-        <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={() => setShowForecast(!showForecast)}>
-            {showForecast ? 'Hide' : 'Show'} Forecast
+          <Button variant="outline" size="sm" onClick={() => setShowInterval(!showInterval)}>
+            {showInterval ? 'Hide' : 'Show'} Interval
           </Button>
-          <Button variant="outline" size="sm">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!forecast}>
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
         </div>
       </div>
 
-      {/* Main Trend Chart */}
+      {/* Main Forecast Chart */}
       <Card>
         <CardHeader>
-          <CardTitle>Compliance Trend Analysis</CardTitle>
-          <CardDescription>Historical data with predictive forecasting</CardDescription>
+          <CardTitle>{METRIC_LABELS[metric]} Forecast</CardTitle>
+          <CardDescription>
+            {forecast ? `${forecast.method} (${forecast.unit})` : 'Loading forecast…'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <ResponsiveContainer width="100%" height={400}>
-            {chartType === 'line' ? (
-              <LineChart data={data}>
+          {error && (
+            <div className="flex items-center gap-2 p-4 text-red-700 bg-red-50 rounded-lg">
+              <AlertTriangle className="h-5 w-5" />
+              {error}
+            </div>
+          )}
+          {!error && loading && <div className="h-[400px] animate-pulse bg-gray-100 rounded-lg" />}
+          {!error && !loading && (
+            <ResponsiveContainer width="100%" height={400}>
+              <ComposedChart data={data}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
+                <XAxis dataKey="label" />
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="compliance"
-                  stroke="#4F46E5"
-                  strokeWidth={2}
-                  name="Compliance Rate"
-                  dot={{ r: 4 }}
-                />
-                {showForecast && (
+                {showInterval && (
+                  <Area
+                    type="monotone"
+                    dataKey="interval"
+                    stroke="none"
+                    fill="#06B6D4"
+                    fillOpacity={0.2}
+                    name="Prediction interval"
+                    connectNulls={false}
+                  />
+                )}
+                {chartType === 'line' ? (
                   <Line
                     type="monotone"
-                    dataKey="forecast"
-                    stroke="#06B6D4"
+                    dataKey="actual"
+                    stroke="#4F46E5"
                     strokeWidth={2}
-                    strokeDasharray="5 5"
-                    name="Forecast"
+                    name="Actual"
                     dot={{ r: 4 }}
+                    connectNulls={false}
                   />
-                )}
-              </LineChart>
-            ) : (
-              <AreaChart data={data}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="month" />
-                <YAxis />
-                <Tooltip />
-                <Legend />
-                <Area
-                  type="monotone"
-                  dataKey="compliance"
-                  stroke="#4F46E5"
-                  fill="#4F46E5"
-                  fillOpacity={0.3}
-                  name="Compliance Rate"
-                />
-                {showForecast && (
+                ) : (
                   <Area
                     type="monotone"
-                    dataKey="forecast"
-                    stroke="#06B6D4"
-                    fill="#06B6D4"
-                    fillOpacity={0.2}
-                    strokeDasharray="5 5"
-                    name="Forecast"
+                    dataKey="actual"
+                    stroke="#4F46E5"
+                    fill="#4F46E5"
+                    fillOpacity={0.3}
+                    name="Actual"
+                    connectNulls={false}
                   />
                 )}
-              </AreaChart>
-            )}
-          </ResponsiveContainer>
-        </CardContent>
-      </Card>
-
-      {/* Certification Volume Trend */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Certification Volume Trend</CardTitle>
-          <CardDescription>Total certifications over time with growth indicators</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={data.filter((d) => d.certifications !== null)}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="month" />
-              <YAxis />
-              <Tooltip />
-              <Legend />
-              <Area
-                type="monotone"
-                dataKey="certifications"
-                stroke="#4F46E5"
-                fill="#4F46E5"
-                fillOpacity={0.3}
-                name="Total Certifications"
-              />
-            </AreaChart>
-          </ResponsiveContainer>
+                <Line
+                  type="monotone"
+                  dataKey="predicted"
+                  stroke="#06B6D4"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  name="Forecast"
+                  dot={{ r: 4 }}
+                  connectNulls={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
         </CardContent>
       </Card>
 
-      {/* Insights */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Key Insights</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            <div className="flex items-start gap-3 p-3 bg-green-50 border border-green-200 rounded-lg">
-              <TrendingUp className="h-5 w-5 text-green-600 mt-0.5" />
-              <div>
-                <p className="font-semibold text-green-900">Positive Trend</p>
-                <p className="text-sm text-green-700">
-                  Compliance rate has improved by {Math.abs(parseFloat(trends.compliance.change))}%
-                  over the last quarter
-                </p>
-              </div>
-            </div>
-            <div className="flex items-start gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-              <Activity className="h-5 w-5 text-blue-600 mt-0.5" />
-              <div>
-                <p className="font-semibold text-blue-900">Forecast Accuracy</p>
-                <p className="text-sm text-blue-700">
-                  Our predictive model shows 87% accuracy based on historical patterns
-                </p>
-              </div>
-            </div>
-            <div className="flex items-start gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
-              <Activity className="h-5 w-5 text-amber-600 mt-0.5" />
-              <div>
-                <p className="font-semibold text-amber-900">Seasonal Pattern</p>
-                <p className="text-sm text-amber-700">
-                  Data shows consistent seasonal patterns with Q1 and Q3 peaks
-                </p>
-              </div>
+      {/* Forecast Notes */}
+      {forecast && (
+        <Card>
+          <CardHeader>
+            <CardTitle>How This Forecast Is Made</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {forecast.insufficientData && (
+                <div className="flex items-start gap-3 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5" />
+                  <p className="text-sm text-amber-700">
+                    Not enough historical data to forecast {METRIC_LABELS[metric].toLowerCase()}{' '}
+                    yet.
+                  </p>
+                </div>
+              )}
+              {forecast.notes.map((note) => (
+                <div
+                  key={note}
+                  className="flex items-start gap-3 p-3 bg-blue-50 border border-blue-200 rounded-lg"
+                >
+                  <Activity className="h-5 w-5 text-blue-600 mt-0.5" />
+                  <p className="text-sm text-blue-700">{note}</p>
+                </div>
+              ))}
             </div>
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
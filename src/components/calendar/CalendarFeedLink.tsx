@@ -0,0 +1,139 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import { apiDelete, apiGet, apiPost } from '@/lib/api-client';
+import type { CalendarFeed } from '@/lib/calendar-feed-service';
+
+type FeedWithUrl = CalendarFeed & { url: string };
+
+/**
+ * CalendarFeedLink Component
+ *
+ * Subscription URL for the fleet calendar, or one pilot's calendar when pilotId is
+ * given, to add to Outlook or Google Calendar. Includes approved leave, check
+ * expiries with reminders, roster period starts and flight request dates.
+ */
+export function CalendarFeedLink({ pilotId }: { pilotId?: string }) {
+  const [feed, setFeed] = useState<FeedWithUrl | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFeed = useCallback(async () => {
+    try {
+      const response = await apiGet('/api/calendar/feeds');
+      const feeds: FeedWithUrl[] = response.data;
+      setFeed(feeds.find((f) => f.pilot_id === (pilotId || null)) || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load calendar feed');
+    } finally {
+      setLoaded(true);
+    }
+  }, [pilotId]);
+
+  useEffect(() => {
+    loadFeed();
+  }, [loadFeed]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createFeed = () =>
+    (!feed ||
+      confirm('Replace the subscription URL? Existing subscriptions will stop updating.')) &&
+    run(async () => {
+      const response = await apiPost('/api/calendar/feeds', { pilotId: pilotId || null });
+      setFeed(response.data);
+    });
+
+  const deleteFeed = () =>
+    feed &&
+    confirm('Turn off this calendar feed? Existing subscriptions will stop updating.') &&
+    run(async () => {
+      await apiDelete(`/api/calendar/feeds?id=${feed.id}`);
+      setFeed(null);
+    });
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (!loaded) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-4 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center">
+            <CalendarPlus className="w-4 h-4 mr-2 text-[#4F46E5]" />
+            {pilotId ? 'Pilot Calendar Feed' : 'Fleet Calendar Feed'}
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Subscribe in Outlook or Google Calendar to see approved leave, check expiries, roster
+            periods and flight requests
+          </p>
+        </div>
+        {!feed && (
+          <button
+            onClick={createFeed}
+            disabled={busy}
+            className="px-3 py-1 bg-[#4F46E5] text-white rounded hover:bg-[#4338CA] disabled:opacity-50 shrink-0"
+          >
+            Create Feed
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {feed && (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            readOnly
+            value={feed.url}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono bg-gray-50"
+          />
+          <button
+            onClick={copyUrl}
+            title="Copy URL"
+            className="p-1.5 text-gray-600 hover:text-gray-900"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          {copied && <span className="text-xs text-green-600">Copied</span>}
+          <button
+            onClick={createFeed}
+            disabled={busy}
+            title="Replace URL"
+            className="p-1.5 text-gray-600 hover:text-gray-900"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={deleteFeed}
+            disabled={busy}
+            title="Turn off feed"
+            className="p-1.5 text-red-600 hover:text-red-700"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,12 +6,24 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { ModalSheet } from '@/components/ui/ModalSheet';
 import { Users, Upload, CheckCircle, AlertTriangle } from 'lucide-react';
-
-const bulkUpdateSchema = z.object({
-  checkTypeId: z.string().min(1, 'Check type is required'),
-  newExpiryDate: z.string().min(1, 'Expiry date is required'),
-  selectedPilots: z.array(z.string()).min(1, 'At least one pilot must be selected'),
-});
+import { authenticatedFetch } from '@/lib/api-client';
+
+const bulkUpdateSchema = z
+  .object({
+    checkTypeId: z.string().min(1, 'Check type is required'),
+    expiryMode: z.enum(['completion', 'manual']),
+    completedDate: z.string().optional(),
+    newExpiryDate: z.string().optional(),
+    selectedPilots: z.array(z.string()).min(1, 'At least one pilot must be selected'),
+  })
+  .refine((data) => data.expiryMode !== 'completion' || !!data.completedDate, {
+    message: 'Completion date is required',
+    path: ['completedDate'],
+  })
+  .refine((data) => data.expiryMode !== 'manual' || !!data.newExpiryDate, {
+    message: 'Expiry date is required',
+    path: ['newExpiryDate'],
+  });
 
 type BulkUpdateData = z.infer<typeof bulkUpdateSchema>;
 
@@ -29,8 +41,25 @@ interface CheckType {
   check_code: string;
   check_description: string;
   category: string;
+  validity_months?: number | null;
+  renewal_window_months?: number;
+  expiry_rounding?: 'none' | 'end_of_month';
+}
+
+interface ExpiryProposal {
+  pilotId: string;
+  expiryDate: string | null;
+  basis: 'anniversary' | 'completion' | 'manual';
+  withinRenewalWindow: boolean;
+  inGracePeriod: boolean;
 }
 
+const EXPIRY_BASIS_LABELS: Record<ExpiryProposal['basis'], string> = {
+  anniversary: 'anniversary kept',
+  completion: 'from completion',
+  manual: 'manual',
+};
+
 interface BulkCertificationModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -50,6 +79,8 @@ export function BulkCertificationModal({
   const [selectAll, setSelectAll] = useState(false);
   const [updateResults, setUpdateResults] = useState<any>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [proposals, setProposals] = useState<ExpiryProposal[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
 
   const {
     register,
@@ -61,10 +92,29 @@ export function BulkCertificationModal({
   } = useForm<BulkUpdateData>({
     resolver: zodResolver(bulkUpdateSchema),
     defaultValues: {
+      expiryMode: 'completion',
       selectedPilots: [],
     },
   });
 
+  const checkTypeId = watch('checkTypeId');
+  const expiryMode = watch('expiryMode');
+  const completedDate = watch('completedDate');
+  const selectedCheckType = checkTypes.find((checkType) => checkType.id === checkTypeId);
+  const hasValidityRule = !!selectedCheckType?.validity_months;
+
+  // Proposals go stale whenever their inputs change
+  useEffect(() => {
+    setProposals(null);
+  }, [checkTypeId, expiryMode, completedDate, selectedPilots]);
+
+  // Check types without a validity period can only be updated manually
+  useEffect(() => {
+    if (selectedCheckType && !hasValidityRule) {
+      setValue('expiryMode', 'manual');
+    }
+  }, [selectedCheckType, hasValidityRule, setValue]);
+
   useEffect(() => {
     if (isOpen) {
       fetchData();
@@ -74,6 +124,7 @@ export function BulkCertificationModal({
       setSelectedPilots([]);
       setSelectAll(false);
       setUpdateResults(null);
+      setProposals(null);
       setError(null);
     }
   }, [isOpen, reset]);
@@ -89,8 +140,8 @@ export function BulkCertificationModal({
 
       // Fetch pilots and check types in parallel
       const [pilotsResponse, checkTypesResponse] = await Promise.all([
-        fetch('/api/pilots'),
-        fetch('/api/check-types'),
+        authenticatedFetch('/api/pilots'),
+        authenticatedFetch('/api/check-types'),
       ]);
 
       if (!pilotsResponse.ok) {
@@ -140,20 +191,52 @@ export function BulkCertificationModal({
     });
   };
 
+  const buildRequestBody = (data: BulkUpdateData) => ({
+    checkTypeId: data.checkTypeId,
+    selectedPilots,
+    ...(data.expiryMode === 'completion'
+      ? { completedDate: data.completedDate }
+      : { newExpiryDate: data.newExpiryDate }),
+  });
+
+  const previewExpiryDates = async (data: BulkUpdateData) => {
+    try {
+      setPreviewing(true);
+      setError(null);
+
+      const response = await authenticatedFetch('/api/certifications/bulk-update', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...buildRequestBody(data), preview: true }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to calculate expiry dates');
+      }
+
+      setProposals(result.proposals);
+    } catch (error) {
+      console.error('Error previewing expiry dates:', error);
+      setError(error instanceof Error ? error.message : 'Failed to calculate expiry dates');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const onSubmit = async (data: BulkUpdateData) => {
     try {
       setSubmitting(true);
       setError(null);
 
-      const response = await fetch('/api/certifications/bulk-update', {
+      const response = await authenticatedFetch('/api/certifications/bulk-update', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ...data,
-          selectedPilots,
-        }),
+        body: JSON.stringify(buildRequestBody(data)),
       });
 
       if (!response.ok) {
@@ -166,6 +249,7 @@ export function BulkCertificationModal({
       // Reset form and selections
       setSelectedPilots([]);
       setSelectAll(false);
+      setProposals(null);
       reset();
 
       // Call success callback if provided
@@ -253,16 +337,53 @@ export function BulkCertificationModal({
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  New Expiry Date
-                </label>
-                <input
-                  type="date"
-                  {...register('newExpiryDate')}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
-                />
-                {errors.newExpiryDate && (
-                  <p className="text-sm text-red-600 mt-1">{errors.newExpiryDate.message}</p>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Expiry Date</label>
+                <div className="flex items-center space-x-4 mb-2 text-sm">
+                  <label className="flex items-center space-x-1">
+                    <input
+                      type="radio"
+                      value="completion"
+                      disabled={!!selectedCheckType && !hasValidityRule}
+                      {...register('expiryMode')}
+                    />
+                    <span>Calculate from completion date</span>
+                  </label>
+                  <label className="flex items-center space-x-1">
+                    <input type="radio" value="manual" {...register('expiryMode')} />
+                    <span>Enter manually</span>
+                  </label>
+                </div>
+
+                {expiryMode === 'completion' ? (
+                  <>
+                    <input
+                      type="date"
+                      {...register('completedDate')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+                    />
+                    {errors.completedDate && (
+                      <p className="text-sm text-red-600 mt-1">{errors.completedDate.message}</p>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="date"
+                      {...register('newExpiryDate')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+                    />
+                    {errors.newExpiryDate && (
+                      <p className="text-sm text-red-600 mt-1">{errors.newExpiryDate.message}</p>
+                    )}
+                  </>
+                )}
+
+                {selectedCheckType && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {hasValidityRule
+                      ? `Valid ${selectedCheckType.validity_months} months; renewals within ${selectedCheckType.renewal_window_months ?? 3} months of expiry keep the anniversary date${selectedCheckType.expiry_rounding === 'end_of_month' ? ' (rounded to end of month)' : ''}.`
+                      : 'No validity period configured for this check type - enter the expiry date manually.'}
+                  </p>
                 )}
               </div>
             </div>
@@ -310,6 +431,31 @@ export function BulkCertificationModal({
               )}
             </div>
 
+            {/* Proposed Expiry Dates */}
+            {proposals && (
+              <div className="border border-gray-200 rounded-lg max-h-48 overflow-y-auto">
+                {proposals.map((proposal) => {
+                  const pilot = pilots.find((p) => p.id === proposal.pilotId);
+                  return (
+                    <div
+                      key={proposal.pilotId}
+                      className="flex items-center justify-between p-2 text-sm border-b border-gray-100 last:border-b-0"
+                    >
+                      <span className="text-gray-900">
+                        {pilot ? `${pilot.first_name} ${pilot.last_name}` : proposal.pilotId}
+                      </span>
+                      <span className="text-gray-700">
+                        {proposal.expiryDate || '—'}
+                        <span className="ml-2 text-xs text-gray-500">
+                          {EXPIRY_BASIS_LABELS[proposal.basis]}
+                        </span>
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Submit Buttons */}
             <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
               <button
@@ -319,6 +465,14 @@ export function BulkCertificationModal({
               >
                 Cancel
               </button>
+              <button
+                type="button"
+                onClick={handleSubmit(previewExpiryDates)}
+                disabled={previewing || selectedPilots.length === 0}
+                className="px-4 py-2 text-[#4F46E5] border border-[#4F46E5] rounded-lg hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {previewing ? 'Calculating...' : 'Preview Expiry Dates'}
+              </button>
               <button
                 type="submit"
                 disabled={submitting || selectedPilots.length === 0}
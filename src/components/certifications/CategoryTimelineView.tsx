@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from 'react';
 import { CertificationTimeline } from './CertificationTimeline';
+import type { CheckTypeRules } from '@/lib/certification-rules';
 import { getCategoryIcon, getCategoryColor } from '@/lib/certification-utils';
 import { useRouter } from 'next/navigation';
 import { BarChart3, TrendingUp, AlertTriangle } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface CategoryCertification {
   id: string;
@@ -20,6 +22,7 @@ interface CategoryCertification {
     label: string;
     className: string;
   };
+  rules?: Partial<CheckTypeRules>;
 }
 
 interface CategoryStats {
@@ -54,7 +57,7 @@ export function CategoryTimelineView() {
         setError(null);
 
         // Fetch all pilots
-        const pilotsResponse = await fetch('/api/pilots');
+        const pilotsResponse = await authenticatedFetch('/api/pilots');
         if (!pilotsResponse.ok) {
           throw new Error('Failed to fetch pilots');
         }
@@ -68,7 +71,7 @@ export function CategoryTimelineView() {
 
         // Fetch certifications for all pilots
         const certPromises = pilots.map((pilot: any) =>
-          fetch(`/api/pilots/${pilot.id}/certifications`)
+          authenticatedFetch(`/api/pilots/${pilot.id}/certifications`)
             .then((res) => res.json())
             .then((result) => ({
               pilotId: pilot.id,
@@ -97,6 +100,7 @@ export function CategoryTimelineView() {
                 expiryDate:
                   typeof cert.expiryDate === 'string' ? new Date(cert.expiryDate) : cert.expiryDate,
                 status: cert.status,
+                rules: cert.rules,
               });
             });
         });
@@ -281,6 +285,7 @@ export function CategoryTimelineView() {
               cert.expiryDate instanceof Date ? cert.expiryDate : new Date(cert.expiryDate),
             pilotName: cert.pilotName,
             employeeId: cert.employeeId,
+            rules: cert.rules,
           }));
 
           return (
@@ -3,18 +3,43 @@
 import { useState, useEffect } from 'react';
 import { format, differenceInDays } from 'date-fns';
 import { getCertificationStatus } from '@/lib/certification-utils';
+import { getCheckTypeRules, type CheckTypeRules } from '@/lib/certification-rules';
+import { apiGet } from '@/lib/api-client';
+import type {
+  CheckEventResult,
+  CheckEventSource,
+  CheckEventWithDetails,
+} from '@/lib/check-event-service';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Clock, Calendar, TrendingUp, Download, FileText } from 'lucide-react';
 
 interface HistoryEntry {
   id: string;
   date: Date;
-  expiryDate: Date;
+  expiryDate: Date | null;
+  result: CheckEventResult;
+  source: CheckEventSource;
+  examiner?: string;
+  location?: string;
+  simulator?: string;
+  documentId?: string;
   updatedBy?: string;
   notes?: string;
   daysValid?: number;
 }
 
+const RESULT_LABELS: Record<CheckEventResult, string> = {
+  pass: 'Passed',
+  fail: 'Failed',
+  partial: 'Partial',
+};
+
+const SOURCE_LABELS: Record<CheckEventSource, string> = {
+  recorded: 'Completion recorded',
+  manual_update: 'Expiry updated manually',
+  import: 'Imported record',
+};
+
 interface CertificationHistoryProps {
   pilotId: string;
   checkTypeId: string;
@@ -22,14 +47,16 @@ interface CertificationHistoryProps {
   checkDescription: string;
   category: string;
   currentExpiryDate: Date | null;
+  // Warning and grace periods of the check type, for the expiry status
+  rules?: Partial<CheckTypeRules> | null;
   onExportPDF?: () => void;
 }
 
 /**
  * CertificationHistory Component
  *
- * Displays the complete history of a specific certification
- * - Previous dates and renewals
+ * Displays the complete history of a specific certification from check_events
+ * - Completions, failed attempts and manual expiry updates
  * - Visual timeline with milestone markers
  * - Export to PDF functionality
  * - Renewal pattern analysis
@@ -41,8 +68,10 @@ export function CertificationHistory({
   checkDescription,
   category,
   currentExpiryDate,
+  rules,
   onExportPDF,
 }: CertificationHistoryProps) {
+  const checkTypeRules = getCheckTypeRules(rules);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -54,64 +83,37 @@ export function CertificationHistory({
         setLoading(true);
         setError(null);
 
-        // Note: This would typically fetch from an audit log or history table
-        // For now, we'll create a mock history based on current data
-        // In production, you'd want to implement proper audit logging
-
-        // Fetch current certification
-        const response = await fetch(`/api/pilots/${pilotId}/certifications`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch certification data');
-        }
-
-        const result = await response.json();
+        const result = await apiGet<{ success: boolean; data: CheckEventWithDetails[] }>(
+          `/api/check-events?pilotId=${pilotId}&checkTypeId=${checkTypeId}`
+        );
         if (!result.success) {
-          throw new Error('Invalid certification data');
+          throw new Error('Invalid certification history data');
         }
 
-        const certification = result.data.find((c: any) => c.checkTypeId === checkTypeId);
-
-        // Create mock history entries (in production, fetch from audit log)
-        const mockHistory: HistoryEntry[] = [];
+        // Events arrive most recent first
+        const entries: HistoryEntry[] = result.data.map((event) => {
+          const date = new Date(event.completed_date || event.created_at);
+          const expiryDate = event.expiry_date ? new Date(event.expiry_date) : null;
 
-        if (certification?.expiryDate) {
-          const expiryDate = new Date(certification.expiryDate);
-          mockHistory.push({
-            id: 'current',
-            date: new Date(), // Date updated/created
+          return {
+            id: event.id,
+            date,
             expiryDate,
-            updatedBy: 'System',
-            notes: 'Current certification',
-          });
-
-          // Add some mock historical entries for demonstration
-          // In production, these would come from your audit log table
-          const monthsBack = [6, 12, 18, 24];
-          monthsBack.forEach((months, index) => {
-            const historicDate = new Date(expiryDate);
-            historicDate.setMonth(historicDate.getMonth() - months);
-
-            const previousExpiry = new Date(historicDate);
-            const lastEntry = mockHistory[mockHistory.length - 1];
-            const nextExpiry =
-              index === 0 ? expiryDate : lastEntry ? new Date(lastEntry.expiryDate) : expiryDate;
-            const daysValid = differenceInDays(nextExpiry, previousExpiry);
-
-            mockHistory.push({
-              id: `history-${index}`,
-              date: historicDate,
-              expiryDate: previousExpiry,
-              updatedBy: 'Training Department',
-              notes: `Renewal ${index + 1}`,
-              daysValid,
-            });
-          });
-        }
-
-        // Sort by date descending (most recent first)
-        mockHistory.sort((a, b) => b.date.getTime() - a.date.getTime());
-
-        setHistory(mockHistory);
+            result: event.result,
+            source: event.source,
+            examiner: event.examiner || undefined,
+            location: event.location || undefined,
+            simulator: event.simulator || undefined,
+            documentId: event.document_id || undefined,
+            updatedBy:
+              event.recorded_by_user?.name || (event.source === 'import' ? 'System' : undefined),
+            notes: event.notes || undefined,
+            daysValid:
+              event.completed_date && expiryDate ? differenceInDays(expiryDate, date) : undefined,
+          };
+        });
+
+        setHistory(entries);
       } catch (err) {
         console.error('Error fetching certification history:', err);
         setError(err instanceof Error ? err.message : 'Failed to load history');
@@ -173,7 +175,9 @@ export function CertificationHistory({
     history.filter((h) => h.daysValid).reduce((sum, h) => sum + (h.daysValid || 0), 0) /
     history.filter((h) => h.daysValid).length;
 
-  const totalRenewals = history.length - 1;
+  const passedEntries = history.filter((h) => h.result === 'pass');
+  const totalRenewals = Math.max(passedEntries.length - 1, 0);
+  const currentEntryId = passedEntries[0]?.id;
 
   return (
     <div className="space-y-6">
@@ -244,7 +248,7 @@ export function CertificationHistory({
             </div>
             <div>
               {(() => {
-                const status = getCertificationStatus(currentExpiryDate);
+                const status = getCertificationStatus(currentExpiryDate, checkTypeRules);
                 return (
                   <span
                     className={`px-4 py-2 rounded-full text-sm font-medium ${status.className}`}
@@ -270,8 +274,10 @@ export function CertificationHistory({
           <div className="space-y-6">
             {history.map((entry, index) => {
               const isExpanded = showDetails === entry.id;
-              const isCurrent = entry.id === 'current';
-              const status = getCertificationStatus(entry.expiryDate);
+              const isCurrent = entry.id === currentEntryId;
+              const status = entry.expiryDate
+                ? getCertificationStatus(entry.expiryDate, checkTypeRules)
+                : null;
 
               return (
                 <motion.div
@@ -286,9 +292,11 @@ export function CertificationHistory({
                     className={`absolute left-6 w-5 h-5 rounded-full border-2 ${
                       isCurrent
                         ? 'bg-[#4F46E5] border-[#4F46E5]'
-                        : status.color === 'green'
-                          ? 'bg-green-500 border-green-600'
-                          : 'bg-gray-300 border-gray-400'
+                        : entry.result !== 'pass'
+                          ? 'bg-red-500 border-red-600'
+                          : status?.color === 'green'
+                            ? 'bg-green-500 border-green-600'
+                            : 'bg-gray-300 border-gray-400'
                     }`}
                    />
 
@@ -315,7 +323,9 @@ export function CertificationHistory({
                             </p>
                           </div>
                           <p className="text-sm text-gray-600">
-                            Expiry: {format(entry.expiryDate, 'MMM dd, yyyy')}
+                            {RESULT_LABELS[entry.result]}
+                            {entry.expiryDate &&
+                              ` · Expiry: ${format(entry.expiryDate, 'MMM dd, yyyy')}`}
                           </p>
                         </div>
                         <div className="flex items-center space-x-3">
@@ -343,9 +353,33 @@ export function CertificationHistory({
                           className="border-t border-gray-200 px-4 py-3 bg-white"
                         >
                           <div className="space-y-2">
+                            <div>
+                              <p className="text-xs text-gray-500">Source</p>
+                              <p className="text-sm text-gray-900">{SOURCE_LABELS[entry.source]}</p>
+                            </div>
+                            {entry.examiner && (
+                              <div>
+                                <p className="text-xs text-gray-500">Examiner</p>
+                                <p className="text-sm text-gray-900">{entry.examiner}</p>
+                              </div>
+                            )}
+                            {(entry.location || entry.simulator) && (
+                              <div>
+                                <p className="text-xs text-gray-500">Location / Simulator</p>
+                                <p className="text-sm text-gray-900">
+                                  {[entry.location, entry.simulator].filter(Boolean).join(' · ')}
+                                </p>
+                              </div>
+                            )}
+                            {entry.documentId && (
+                              <div>
+                                <p className="text-xs text-gray-500">Evidence</p>
+                                <p className="text-sm text-gray-900">Document attached</p>
+                              </div>
+                            )}
                             {entry.updatedBy && (
                               <div>
-                                <p className="text-xs text-gray-500">Updated By</p>
+                                <p className="text-xs text-gray-500">Recorded By</p>
                                 <p className="text-sm text-gray-900">{entry.updatedBy}</p>
                               </div>
                             )}
@@ -355,14 +389,16 @@ export function CertificationHistory({
                                 <p className="text-sm text-gray-900">{entry.notes}</p>
                               </div>
                             )}
-                            <div>
-                              <p className="text-xs text-gray-500">Status</p>
-                              <span
-                                className={`inline-block mt-1 px-2 py-1 rounded-full text-xs font-medium ${status.className}`}
-                              >
-                                {status.label}
-                              </span>
-                            </div>
+                            {status && (
+                              <div>
+                                <p className="text-xs text-gray-500">Status</p>
+                                <span
+                                  className={`inline-block mt-1 px-2 py-1 rounded-full text-xs font-medium ${status.className}`}
+                                >
+                                  {status.label}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </motion.div>
                       )}
@@ -7,6 +7,7 @@ import {
   getCategoryColor,
   getCategoryIcon,
 } from '@/lib/certification-utils';
+import { getCheckTypeRules, type CheckTypeRules } from '@/lib/certification-rules';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ZoomIn, ZoomOut, Filter, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
 
@@ -18,6 +19,8 @@ interface CertificationEvent {
   expiryDate: Date;
   pilotName?: string;
   employeeId?: string;
+  // Warning and grace periods of the check type, for the expiry status
+  rules?: Partial<CheckTypeRules> | null;
 }
 
 interface CertificationTimelineProps {
@@ -279,7 +282,7 @@ export function CertificationTimeline({
             {/* Certification Events */}
             {filteredCertifications.map((cert, index) => {
               const position = getPosition(cert.expiryDate);
-              const status = getCertificationStatus(cert.expiryDate);
+              const status = getCertificationStatus(cert.expiryDate, getCheckTypeRules(cert.rules));
               const daysUntilExpiry = differenceInDays(cert.expiryDate, today);
               const isHovered = hoveredCert === cert.id;
 
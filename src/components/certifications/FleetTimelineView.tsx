@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from 'react';
 import { CertificationTimeline } from './CertificationTimeline';
+import type { CheckTypeRules } from '@/lib/certification-rules';
 import { useRouter } from 'next/navigation';
 import { format } from 'date-fns';
 import { Users, TrendingDown, TrendingUp, AlertCircle } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface PilotCertification {
   id: string;
@@ -20,6 +22,7 @@ interface PilotCertification {
     label: string;
     className: string;
   };
+  rules?: Partial<CheckTypeRules>;
 }
 
 interface FleetSummary {
@@ -55,7 +58,7 @@ export function FleetTimelineView() {
         setError(null);
 
         // Fetch all pilots
-        const pilotsResponse = await fetch('/api/pilots');
+        const pilotsResponse = await authenticatedFetch('/api/pilots');
         if (!pilotsResponse.ok) {
           throw new Error('Failed to fetch pilots');
         }
@@ -69,7 +72,7 @@ export function FleetTimelineView() {
 
         // Fetch certifications for all pilots
         const certPromises = pilots.map((pilot: any) =>
-          fetch(`/api/pilots/${pilot.id}/certifications`)
+          authenticatedFetch(`/api/pilots/${pilot.id}/certifications`)
             .then((res) => res.json())
             .then((result) => ({
               pilotId: pilot.id,
@@ -98,6 +101,7 @@ export function FleetTimelineView() {
                 expiryDate:
                   typeof cert.expiryDate === 'string' ? new Date(cert.expiryDate) : cert.expiryDate,
                 status: cert.status,
+                rules: cert.rules,
               });
             });
         });
@@ -200,6 +204,7 @@ export function FleetTimelineView() {
     expiryDate: cert.expiryDate instanceof Date ? cert.expiryDate : new Date(cert.expiryDate),
     pilotName: cert.pilotName,
     employeeId: cert.employeeId,
+    rules: cert.rules,
   }));
 
   return (
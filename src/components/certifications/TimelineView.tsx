@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { CertificationTimeline } from './CertificationTimeline';
+import type { CheckTypeRules } from '@/lib/certification-rules';
 import { useRouter } from 'next/navigation';
 import { format } from 'date-fns';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface Certification {
   id: string;
@@ -17,6 +19,7 @@ interface Certification {
     label: string;
     className: string;
   };
+  rules?: Partial<CheckTypeRules>;
 }
 
 interface Pilot {
@@ -53,14 +56,14 @@ export function TimelineView({ pilotId }: TimelineViewProps) {
         setError(null);
 
         // Fetch pilot details
-        const pilotResponse = await fetch(`/api/pilots/${pilotId}`);
+        const pilotResponse = await authenticatedFetch(`/api/pilots/${pilotId}`);
         if (!pilotResponse.ok) {
           throw new Error('Failed to fetch pilot details');
         }
         const pilotResult = await pilotResponse.json();
 
         // Fetch pilot certifications
-        const certsResponse = await fetch(`/api/pilots/${pilotId}/certifications`);
+        const certsResponse = await authenticatedFetch(`/api/pilots/${pilotId}/certifications`);
         if (!certsResponse.ok) {
           throw new Error('Failed to fetch certifications');
         }
@@ -147,6 +150,7 @@ export function TimelineView({ pilotId }: TimelineViewProps) {
     checkDescription: cert.checkDescription,
     category: cert.category,
     expiryDate: cert.expiryDate instanceof Date ? cert.expiryDate : new Date(cert.expiryDate),
+    rules: cert.rules,
   }));
 
   return (
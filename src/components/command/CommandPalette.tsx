@@ -3,17 +3,31 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Command } from 'cmdk';
-import { supabase } from '@/lib/supabase';
+import { apiGet } from '@/lib/api-client';
+import {
+  SEARCH_ENTITY_LABELS,
+  SEARCH_ENTITY_TYPES,
+  highlightSegments,
+  normalizeSearchQuery,
+  type SearchEntityType,
+  type SearchFacet,
+  type SearchResponse,
+  type SearchResult,
+} from '@/lib/global-search';
 import {
   Search,
   Users,
   FileCheck,
+  FileText,
   Calendar,
   BarChart3,
   Settings,
   Plus,
   Clock,
   Home,
+  CheckSquare,
+  ShieldAlert,
+  MessageSquare,
 } from 'lucide-react';
 
 interface CommandPaletteProps {
@@ -21,27 +35,33 @@ interface CommandPaletteProps {
   onClose: () => void;
 }
 
-interface Pilot {
-  id: string;
-  first_name: string;
-  last_name: string;
-  employee_id: string;
-  role: string;
-}
-
 interface RecentItem {
   id: string;
-  type: 'page' | 'pilot' | 'action';
+  type: 'page' | 'pilot' | 'action' | 'result';
   label: string;
   path?: string;
   icon?: string;
   timestamp: Date;
 }
 
+const RESULT_ICONS: Record<SearchEntityType, typeof Users> = {
+  pilot: Users,
+  check_type: FileCheck,
+  document: FileText,
+  task: CheckSquare,
+  disciplinary_matter: ShieldAlert,
+  feedback_post: MessageSquare,
+};
+
+/** Wait after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 250;
+
 export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
-  const [pilots, setPilots] = useState<Pilot[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacet[]>([]);
+  const [activeType, setActiveType] = useState<SearchEntityType | null>(null);
   const [recentItems, setRecentItems] = useState<RecentItem[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -63,33 +83,39 @@ export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
     }
   }, [isOpen]);
 
-  // Search pilots when query changes
+  // Search everything (or the selected type) shortly after typing stops
   useEffect(() => {
-    if (searchQuery.length > 1) {
-      searchPilots(searchQuery);
-    } else {
-      setPilots([]);
+    const query = normalizeSearchQuery(searchQuery);
+    if (!query) {
+      setResults([]);
+      setFacets([]);
+      setLoading(false);
+      return;
     }
-  }, [searchQuery]);
 
-  const searchPilots = async (query: string) => {
+    let cancelled = false;
     setLoading(true);
-    try {
-      const { data, error } = await supabase
-        .from('pilots')
-        .select('id, first_name, last_name, employee_id, role')
-        .or(`first_name.ilike.%${query}%,last_name.ilike.%${query}%,employee_id.ilike.%${query}%`)
-        .limit(5);
-
-      if (!error && data) {
-        setPilots(data);
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query });
+        if (activeType) params.set('types', activeType);
+        const response = await apiGet<{ data: SearchResponse }>(`/api/search?${params}`);
+        if (cancelled) return;
+        setResults(response.data.results);
+        // Keep every type's chip while one type is selected
+        if (!activeType) setFacets(response.data.facets);
+      } catch (error) {
+        if (!cancelled) console.error('Search error:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
-    } catch (error) {
-      console.error('Search error:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, activeType]);
 
   const addRecentItem = (item: Omit<RecentItem, 'timestamp'>) => {
     const newItem = { ...item, timestamp: new Date() };
@@ -103,6 +129,7 @@ export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
       callback();
       onClose();
       setSearchQuery('');
+      setActiveType(null);
     },
     [onClose]
   );
@@ -179,7 +206,7 @@ export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
             <Command.Input
               value={searchQuery}
               onValueChange={setSearchQuery}
-              placeholder="Search pilots, navigate, or run commands..."
+              placeholder="Search pilots, documents, tasks, navigate, or run commands..."
               className="w-full py-4 text-base bg-transparent border-0 outline-none placeholder:text-gray-400"
             />
             <div className="flex items-center space-x-2 ml-4">
@@ -272,47 +299,98 @@ export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
               </Command.Group>
             )}
 
-            {searchQuery.length > 1 && (
-              <Command.Group heading={loading ? 'Searching...' : 'Pilots'}>
-                {pilots.length === 0 && !loading && (
-                  <div className="px-4 py-8 text-center text-gray-500">
-                    <Search className="w-8 h-8 mx-auto mb-2 opacity-30" />
-                    <p>No pilots found</p>
-                  </div>
-                )}
-                {pilots.map((pilot) => (
-                  <Command.Item
-                    key={pilot.id}
-                    value={`${pilot.first_name} ${pilot.last_name} ${pilot.employee_id}`}
-                    onSelect={() =>
-                      handleSelect(() => {
-                        router.push(`/dashboard/pilots/${pilot.id}`);
-                        addRecentItem({
-                          id: pilot.id,
-                          type: 'pilot',
-                          label: `${pilot.first_name} ${pilot.last_name} (${pilot.employee_id})`,
-                          path: `/dashboard/pilots/${pilot.id}`,
-                        });
-                      })
-                    }
-                    className="flex items-center justify-between px-4 py-3 rounded-lg cursor-pointer hover:bg-gray-100 aria-selected:bg-[#4F46E5]/10 aria-selected:text-[#4F46E5]"
+            {searchQuery.length > 1 && facets.length > 1 && (
+              <div className="flex flex-wrap gap-2 px-4 py-2">
+                <button
+                  onClick={() => setActiveType(null)}
+                  className={`px-2.5 py-1 text-xs rounded-full border ${
+                    activeType === null
+                      ? 'bg-[#4F46E5] text-white border-[#4F46E5]'
+                      : 'text-gray-600 border-gray-200 hover:bg-gray-100'
+                  }`}
+                >
+                  All
+                </button>
+                {facets.map((facet) => (
+                  <button
+                    key={facet.type}
+                    onClick={() => setActiveType(activeType === facet.type ? null : facet.type)}
+                    className={`px-2.5 py-1 text-xs rounded-full border ${
+                      activeType === facet.type
+                        ? 'bg-[#4F46E5] text-white border-[#4F46E5]'
+                        : 'text-gray-600 border-gray-200 hover:bg-gray-100'
+                    }`}
                   >
-                    <div className="flex items-center">
-                      <Users className="w-4 h-4 mr-3" />
-                      <div>
-                        <div className="font-medium">
-                          {pilot.first_name} {pilot.last_name}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {pilot.employee_id} • {pilot.role}
-                        </div>
-                      </div>
-                    </div>
-                  </Command.Item>
+                    {facet.label} ({facet.count})
+                  </button>
                 ))}
-              </Command.Group>
+              </div>
             )}
 
+            {searchQuery.length > 1 && loading && results.length === 0 && (
+              <div className="px-4 py-3 text-sm text-gray-500">Searching...</div>
+            )}
+
+            {searchQuery.length > 1 && !loading && results.length === 0 && (
+              <div className="px-4 py-8 text-center text-gray-500">
+                <Search className="w-8 h-8 mx-auto mb-2 opacity-30" />
+                <p>No results found</p>
+              </div>
+            )}
+
+            {/* Server results are already ranked, so they are mounted regardless of cmdk's filter */}
+            {(activeType ? [activeType] : SEARCH_ENTITY_TYPES)
+              .filter((type) => results.some((result) => result.type === type))
+              .map((type) => {
+                const Icon = RESULT_ICONS[type];
+                return (
+                  <Command.Group key={type} heading={SEARCH_ENTITY_LABELS[type]} forceMount>
+                    {results
+                      .filter((result) => result.type === type)
+                      .map((result) => (
+                        <Command.Item
+                          key={`${result.type}-${result.id}`}
+                          value={`${result.type}-${result.id}`}
+                          forceMount
+                          onSelect={() =>
+                            handleSelect(() => {
+                              router.push(result.path);
+                              addRecentItem({
+                                id: `${result.type}-${result.id}`,
+                                type: 'result',
+                                label: result.title,
+                                path: result.path,
+                              });
+                            })
+                          }
+                          className="flex items-center px-4 py-3 rounded-lg cursor-pointer hover:bg-gray-100 aria-selected:bg-[#4F46E5]/10 aria-selected:text-[#4F46E5]"
+                        >
+                          <Icon className="w-4 h-4 mr-3 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <div className="font-medium truncate">{result.title}</div>
+                            {result.subtitle && (
+                              <div className="text-xs text-gray-500">{result.subtitle}</div>
+                            )}
+                            {result.headline && (
+                              <div className="text-xs text-gray-600 line-clamp-2">
+                                {highlightSegments(result.headline).map((segment, index) =>
+                                  segment.highlighted ? (
+                                    <mark key={index} className="bg-yellow-100 text-gray-900">
+                                      {segment.text}
+                                    </mark>
+                                  ) : (
+                                    <span key={index}>{segment.text}</span>
+                                  )
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        </Command.Item>
+                      ))}
+                  </Command.Group>
+                );
+              })}
+
             {searchQuery.length === 0 && (
               <div className="px-4 py-3 mt-2 border-t border-gray-200">
                 <div className="flex items-center justify-between text-xs text-gray-500">
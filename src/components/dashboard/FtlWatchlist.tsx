@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { apiGet } from '@/lib/api-client';
+import type { FtlLimits, FtlTotal } from '@/lib/flight-time-limits';
+import type { FtlWatchlistEntry } from '@/lib/flight-duty-service';
+
+const LEVEL_STYLES: Record<FtlTotal['level'], string> = {
+  OK: 'bg-green-100 text-green-800',
+  WARNING: 'bg-amber-100 text-amber-800',
+  EXCEEDED: 'bg-red-100 text-red-800',
+};
+
+/**
+ * FtlWatchlist Component
+ *
+ * Dashboard card listing pilots at or above the warning threshold of any flight time
+ * limitation, with the totals that triggered it.
+ */
+export function FtlWatchlist() {
+  const [data, setData] = useState<{ limits: FtlLimits; pilots: FtlWatchlistEntry[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiGet('/api/flight-duty?view=watchlist')
+      .then((response) => setData(response.data))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load FTL status'));
+  }, []);
+
+  return (
+    <section className="mb-6 md:mb-8">
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h4 className="text-lg font-semibold text-gray-900">Flight Time Limitations</h4>
+            <p className="text-sm text-gray-600">
+              Pilots approaching rolling flight or duty time limits
+              {data && ` (≥ ${data.limits.warningPercent}%)`}
+            </p>
+          </div>
+          <Link href="/dashboard/flight-duty" className="text-sm text-[#4F46E5] hover:underline">
+            Duty log →
+          </Link>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !data && <p className="text-sm text-gray-500">Loading...</p>}
+        {data && data.pilots.length === 0 && (
+          <p className="text-sm text-green-700">All pilots are within their limits.</p>
+        )}
+
+        {data && data.pilots.length > 0 && (
+          <ul className="divide-y divide-gray-100">
+            {data.pilots.map((entry) => (
+              <li key={entry.pilotId} className="py-2 flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900 w-48">
+                  {entry.name}
+                  <span className="ml-1 text-xs text-gray-500">{entry.employeeId}</span>
+                </span>
+                {entry.status.totals
+                  .filter((total) => total.level !== 'OK')
+                  .map((total) => (
+                    <span
+                      key={total.key}
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_STYLES[total.level]}`}
+                    >
+                      {total.label}: {total.usedHours}/{total.limitHours}h
+                    </span>
+                  ))}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </section>
+  );
+}
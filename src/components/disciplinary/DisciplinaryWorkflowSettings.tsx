@@ -0,0 +1,257 @@
+'use client';
+
+import { useState } from 'react';
+import { Trash2, Workflow } from 'lucide-react';
+import { apiPut } from '@/lib/api-client';
+import {
+  ACTION_STATUSES,
+  ACTION_TRANSITION_FIELDS,
+  MATTER_STATUSES,
+  MATTER_TRANSITION_FIELDS,
+  formatStatus,
+  type DisciplinaryWorkflowConfig,
+  type TransitionRule,
+  type WorkflowKind,
+  type WorkflowRole,
+} from '@/lib/disciplinary-workflow';
+
+const ROLES: WorkflowRole[] = ['admin', 'manager'];
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+const toList = (text: string) =>
+  text
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+/**
+ * DisciplinaryWorkflowSettings Component
+ *
+ * Admin editor for the disciplinary workflow: which status may follow which for
+ * matters and actions, the roles allowed to make each move and the fields it
+ * needs, plus the regulatory reporting window and reminder days.
+ */
+export function DisciplinaryWorkflowSettings({
+  workflow,
+  onSaved,
+}: {
+  workflow: DisciplinaryWorkflowConfig;
+  onSaved: (workflow: DisciplinaryWorkflowConfig) => void;
+}) {
+  const [draft, setDraft] = useState(workflow);
+  const [reminderDays, setReminderDays] = useState(workflow.reminder_days.join(', '));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const key = (kind: WorkflowKind) =>
+    kind === 'matter' ? 'matter_transitions' : 'action_transitions';
+
+  const updateRule = (kind: WorkflowKind, index: number, changes: Partial<TransitionRule>) =>
+    setDraft({
+      ...draft,
+      [key(kind)]: draft[key(kind)].map((rule, i) =>
+        i === index ? { ...rule, ...changes } : rule
+      ),
+    });
+
+  const removeRule = (kind: WorkflowKind, index: number) =>
+    setDraft({ ...draft, [key(kind)]: draft[key(kind)].filter((_, i) => i !== index) });
+
+  const addRule = (kind: WorkflowKind) => {
+    const statuses = kind === 'matter' ? MATTER_STATUSES : ACTION_STATUSES;
+    setDraft({
+      ...draft,
+      [key(kind)]: [
+        ...draft[key(kind)],
+        { from: statuses[0], to: statuses[1], roles: [...ROLES], required_fields: [] },
+      ],
+    });
+  };
+
+  const save = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      const response = await apiPut('/api/disciplinary-matters/workflow', {
+        ...draft,
+        reminder_days: toList(reminderDays).map(Number),
+      });
+      setDraft(response.data);
+      setReminderDays(response.data.reminder_days.join(', '));
+      setMessage('Workflow saved');
+      onSaved(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save workflow');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderRules = (kind: WorkflowKind) => {
+    const statuses = kind === 'matter' ? MATTER_STATUSES : ACTION_STATUSES;
+    const fields = kind === 'matter' ? MATTER_TRANSITION_FIELDS : ACTION_TRANSITION_FIELDS;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900">
+            {kind === 'matter' ? 'Matter' : 'Action'} transitions
+          </h4>
+          <button
+            onClick={() => addRule(kind)}
+            className="text-xs text-blue-600 hover:text-blue-700"
+          >
+            Add transition
+          </button>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2">From</th>
+              <th className="py-2">To</th>
+              <th className="py-2">Roles</th>
+              <th className="py-2">Required fields</th>
+              <th className="py-2">
+                {kind === 'matter' ? 'Also required when reportable' : 'Until appeal deadline'}
+              </th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {draft[key(kind)].map((rule, index) => (
+              <tr key={index} className="border-b border-gray-100">
+                {(['from', 'to'] as const).map((end) => (
+                  <td key={end} className="py-2 pr-2">
+                    <select
+                      value={rule[end]}
+                      onChange={(e) => updateRule(kind, index, { [end]: e.target.value })}
+                      className={inputClass}
+                    >
+                      {statuses.map((status) => (
+                        <option key={status} value={status}>
+                          {formatStatus(status)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                ))}
+                <td className="py-2 pr-2">
+                  {ROLES.map((role) => (
+                    <label key={role} className="inline-flex items-center mr-2 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={rule.roles.includes(role)}
+                        onChange={(e) =>
+                          updateRule(kind, index, {
+                            roles: e.target.checked
+                              ? [...rule.roles, role]
+                              : rule.roles.filter((r) => r !== role),
+                          })
+                        }
+                        className="mr-1"
+                      />
+                      {role}
+                    </label>
+                  ))}
+                </td>
+                <td className="py-2 pr-2">
+                  <input
+                    value={rule.required_fields.join(', ')}
+                    onChange={(e) =>
+                      updateRule(kind, index, { required_fields: toList(e.target.value) })
+                    }
+                    placeholder="none"
+                    className={`${inputClass} w-full`}
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  {kind === 'matter' ? (
+                    <input
+                      value={(rule.regulatory_fields || []).join(', ')}
+                      onChange={(e) =>
+                        updateRule(kind, index, { regulatory_fields: toList(e.target.value) })
+                      }
+                      placeholder="none"
+                      className={`${inputClass} w-full`}
+                    />
+                  ) : (
+                    <input
+                      type="checkbox"
+                      checked={!!rule.within_appeal_deadline}
+                      onChange={(e) =>
+                        updateRule(kind, index, { within_appeal_deadline: e.target.checked })
+                      }
+                    />
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => removeRule(kind, index)}
+                    title="Remove transition"
+                    className="p-1 text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500">Fields: {fields.join(', ')}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 flex items-center">
+          <Workflow className="w-5 h-5 mr-2 text-gray-600" />
+          Disciplinary Workflow
+        </h3>
+        <button
+          onClick={save}
+          disabled={busy}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save Workflow
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Report to the regulator within
+          <input
+            type="number"
+            min={0}
+            max={365}
+            value={draft.regulatory_reporting_days}
+            onChange={(e) =>
+              setDraft({ ...draft, regulatory_reporting_days: Number(e.target.value) || 0 })
+            }
+            className={`${inputClass} w-20`}
+          />
+          days of the incident
+        </label>
+        <label className="flex items-center gap-2">
+          Remind
+          <input
+            value={reminderDays}
+            onChange={(e) => setReminderDays(e.target.value)}
+            placeholder="e.g. 7, 1"
+            className={`${inputClass} w-24`}
+          />
+          days before each deadline
+        </label>
+      </div>
+
+      {renderRules('matter')}
+      {renderRules('action')}
+    </div>
+  );
+}
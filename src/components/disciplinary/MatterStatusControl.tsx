@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { apiPost } from '@/lib/api-client';
+import {
+  allowedTransitions,
+  formatStatus,
+  type DisciplinaryWorkflowConfig,
+  type TransitionRule,
+} from '@/lib/disciplinary-workflow';
+
+const FIELD_INPUTS: Record<string, { label: string; type: 'text' | 'date' | 'textarea' }> = {
+  due_date: { label: 'Due date', type: 'date' },
+  corrective_actions: { label: 'Corrective actions', type: 'textarea' },
+  resolution_notes: { label: 'Resolution notes', type: 'textarea' },
+  impact_on_operations: { label: 'Impact on operations', type: 'textarea' },
+  regulatory_body: { label: 'Regulatory body', type: 'text' },
+  notification_date: { label: 'Regulator notified on', type: 'date' },
+};
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+/**
+ * MatterStatusControl Component
+ *
+ * Moves a disciplinary matter to one of the statuses the workflow allows for the
+ * user's role, asking for the fields that transition needs and does not have yet.
+ * A matter without an investigator is assigned to the user moving it.
+ */
+export function MatterStatusControl({
+  matter,
+  workflow,
+  user,
+  onChanged,
+}: {
+  matter: Record<string, any> & { id: string; status: string };
+  workflow: DisciplinaryWorkflowConfig;
+  user: { id: string; role: string };
+  onChanged: () => void;
+}) {
+  const [rule, setRule] = useState<TransitionRule | null>(null);
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transitions = allowedTransitions(workflow, 'matter', matter.status, user.role);
+  if (transitions.length === 0) return null;
+
+  const missing = rule
+    ? [
+        ...rule.required_fields,
+        ...(matter.regulatory_notification_required ? rule.regulatory_fields || [] : []),
+      ].filter((field) => !matter[field] && field !== 'assigned_to')
+    : [];
+  const assignToMe = !!rule?.required_fields.includes('assigned_to') && !matter.assigned_to;
+
+  const submit = async () => {
+    if (!rule) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await apiPost('/api/disciplinary-matters/transitions', {
+        kind: 'matter',
+        id: matter.id,
+        status: rule.to,
+        fields: assignToMe ? { ...fields, assigned_to: user.id } : fields,
+      });
+      setRule(null);
+      setFields({});
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change status');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 min-w-[12rem]">
+      <select
+        value={rule?.to || ''}
+        onChange={(e) => {
+          setRule(transitions.find((t) => t.to === e.target.value) || null);
+          setFields({});
+          setError(null);
+        }}
+        className={inputClass}
+      >
+        <option value="">Move to...</option>
+        {transitions.map((transition) => (
+          <option key={transition.to} value={transition.to}>
+            {formatStatus(transition.to)}
+          </option>
+        ))}
+      </select>
+
+      {rule && (
+        <>
+          {missing.map((field) => {
+            const input = FIELD_INPUTS[field] || { label: field, type: 'text' };
+            const props = {
+              value: fields[field] || '',
+              placeholder: input.label,
+              className: inputClass,
+              onChange: (e: { target: { value: string } }) =>
+                setFields({ ...fields, [field]: e.target.value }),
+            };
+            return input.type === 'textarea' ? (
+              <textarea key={field} rows={2} {...props} />
+            ) : (
+              <input key={field} type={input.type} title={input.label} {...props} />
+            );
+          })}
+          {assignToMe && (
+            <p className="text-xs text-gray-500">The investigation will be assigned to you.</p>
+          )}
+          <button
+            onClick={submit}
+            disabled={busy || missing.some((field) => !fields[field]?.trim())}
+            className="w-full px-2 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Move to {formatStatus(rule.to)}
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Landmark } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { apiGet, apiPost } from '@/lib/api-client';
+import type { RegulatoryReportStatus } from '@/lib/disciplinary-workflow';
+import type { RegulatoryRegisterEntry } from '@/lib/disciplinary-service';
+
+const STATUS_STYLES: Record<RegulatoryReportStatus, { label: string; className: string }> = {
+  ON_TIME: { label: 'On time', className: 'bg-green-100 text-green-800' },
+  LATE: { label: 'Reported late', className: 'bg-orange-100 text-orange-800' },
+  OVERDUE: { label: 'Overdue', className: 'bg-red-100 text-red-800' },
+  DUE: { label: 'Due', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+const displayDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+/**
+ * RegulatoryRegister Component
+ *
+ * Matters that must be reported to a regulator, each with its reporting deadline
+ * and whether it was reported on time, late or is still outstanding. Outstanding
+ * matters can have the notification recorded here.
+ */
+export function RegulatoryRegister() {
+  const [entries, setEntries] = useState<RegulatoryRegisterEntry[]>([]);
+  const [recording, setRecording] = useState<string | null>(null);
+  const [notification, setNotification] = useState({
+    regulatory_body: '',
+    notification_date: format(new Date(), 'yyyy-MM-dd'),
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRegister = useCallback(async () => {
+    try {
+      const response = await apiGet('/api/disciplinary-matters/regulatory-register');
+      setEntries(response.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load register');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRegister();
+  }, [loadRegister]);
+
+  const startRecording = (entry: RegulatoryRegisterEntry) => {
+    setRecording(entry.matter_id);
+    setNotification({ ...notification, regulatory_body: entry.regulatory_body || '' });
+  };
+
+  const record = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      await apiPost('/api/disciplinary-matters/regulatory-register', {
+        id: recording,
+        ...notification,
+      });
+      setRecording(null);
+      await loadRegister();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record notification');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const outstanding = entries.filter((entry) => entry.status === 'OVERDUE').length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900 flex items-center">
+          <Landmark className="w-5 h-5 mr-2 text-gray-600" />
+          Regulatory Notification Register
+        </h3>
+        <p className="text-xs text-gray-500 mt-0.5">
+          {entries.length} reportable matter{entries.length === 1 ? '' : 's'}
+          {outstanding > 0 && `, ${outstanding} overdue`}
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No matters require regulatory notification</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2">Matter</th>
+              <th className="py-2">Incident</th>
+              <th className="py-2">Report By</th>
+              <th className="py-2">Regulator</th>
+              <th className="py-2">Notified</th>
+              <th className="py-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.matter_id} className="border-b border-gray-100 align-top">
+                <td className="py-2">
+                  <div className="font-medium text-gray-900">{entry.title}</div>
+                  {entry.pilot && (
+                    <div className="text-xs text-gray-500">
+                      {entry.pilot.first_name} {entry.pilot.last_name} ({entry.pilot.employee_id})
+                    </div>
+                  )}
+                </td>
+                <td className="py-2 text-gray-600">{displayDate(entry.incident_date)}</td>
+                <td className="py-2 text-gray-600">{displayDate(entry.deadline)}</td>
+                <td className="py-2 text-gray-600">{entry.regulatory_body || '-'}</td>
+                <td className="py-2 text-gray-600">
+                  {entry.notification_date ? displayDate(entry.notification_date) : '-'}
+                </td>
+                <td className="py-2">
+                  <span
+                    className={`px-2 py-1 text-xs font-medium rounded-full ${STATUS_STYLES[entry.status].className}`}
+                  >
+                    {STATUS_STYLES[entry.status].label}
+                    {entry.days_late > 0 && ` (${entry.days_late}d)`}
+                  </span>
+                  {!entry.notification_date && recording !== entry.matter_id && (
+                    <button
+                      onClick={() => startRecording(entry)}
+                      className="block mt-2 text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      Record notification
+                    </button>
+                  )}
+                  {recording === entry.matter_id && (
+                    <div className="mt-2 space-y-1">
+                      <input
+                        value={notification.regulatory_body}
+                        onChange={(e) =>
+                          setNotification({ ...notification, regulatory_body: e.target.value })
+                        }
+                        placeholder="Regulatory body"
+                        className={inputClass}
+                      />
+                      <input
+                        type="date"
+                        value={notification.notification_date}
+                        onChange={(e) =>
+                          setNotification({ ...notification, notification_date: e.target.value })
+                        }
+                        className={inputClass}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={record}
+                          disabled={
+                            busy || !notification.regulatory_body || !notification.notification_date
+                          }
+                          className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setRecording(null)}
+                          className="px-2 py-1 text-xs text-gray-600 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
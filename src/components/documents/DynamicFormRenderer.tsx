@@ -0,0 +1,138 @@
+'use client';
+
+import { visibleFields, type FormField, type FormSchema, type FormValues } from '@/lib/form-schema';
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600';
+const readOnlyClass = 'bg-gray-100 cursor-not-allowed';
+
+/**
+ * DynamicFormRenderer Component
+ *
+ * Renders the fields of a digital form schema that are visible for the values
+ * entered so far. Auto-filled fields, and any listed as read-only, show their
+ * value but cannot be edited.
+ */
+export function DynamicFormRenderer({
+  schema,
+  values,
+  onChange,
+  errors = {},
+  readOnlyFields = [],
+}: {
+  schema: FormSchema;
+  values: FormValues;
+  onChange: (name: string, value: unknown) => void;
+  errors?: Record<string, string>;
+  readOnlyFields?: string[];
+}) {
+  const renderInput = (field: FormField) => {
+    const { name, type, label, options, placeholder } = field;
+    const readOnly = !!field.autofill || readOnlyFields.includes(name);
+    const value = values[name] === undefined || values[name] === null ? '' : String(values[name]);
+
+    switch (type) {
+      case 'select':
+        return (
+          <select
+            value={value}
+            onChange={(e) => onChange(name, e.target.value)}
+            disabled={readOnly}
+            className={`${inputClass} ${readOnly ? readOnlyClass : ''}`}
+          >
+            <option value="">Select an option</option>
+            {options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+
+      case 'radio':
+        return (
+          <div className="flex flex-wrap gap-4">
+            {options?.map((option) => (
+              <label key={option} className="flex items-center">
+                <input
+                  type="radio"
+                  name={name}
+                  value={option}
+                  checked={value === option}
+                  onChange={(e) => onChange(name, e.target.value)}
+                  disabled={readOnly}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-600 border-gray-300"
+                />
+                <span className="ml-2 text-sm text-gray-700">{option}</span>
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'checkbox':
+        return (
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={values[name] === true}
+              onChange={(e) => onChange(name, e.target.checked)}
+              disabled={readOnly}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-600 border-gray-300 rounded"
+            />
+            <span className="ml-2 text-sm text-gray-700">{placeholder || label}</span>
+          </label>
+        );
+
+      case 'textarea':
+        return (
+          <textarea
+            value={value}
+            onChange={(e) => onChange(name, e.target.value)}
+            rows={4}
+            readOnly={readOnly}
+            maxLength={field.validation?.max_length}
+            className={`${inputClass} ${readOnly ? readOnlyClass : ''}`}
+            placeholder={placeholder || `Enter ${label.toLowerCase()}`}
+          />
+        );
+
+      default:
+        return (
+          <input
+            type={type === 'datetime' ? 'datetime-local' : type}
+            value={value}
+            onChange={(e) => onChange(name, e.target.value)}
+            readOnly={readOnly}
+            min={type === 'number' ? field.validation?.min : undefined}
+            max={type === 'number' ? field.validation?.max : undefined}
+            maxLength={field.validation?.max_length}
+            className={`${inputClass} ${readOnly ? readOnlyClass : ''}`}
+            placeholder={
+              field.autofill
+                ? 'Filled from the pilot record'
+                : readOnly
+                  ? 'Calculated automatically'
+                  : placeholder || `Enter ${label.toLowerCase()}`
+            }
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {visibleFields(schema, values).map((field) => (
+        <div key={field.name}>
+          {field.type !== 'checkbox' || field.placeholder ? (
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label} {field.required && '*'}
+            </label>
+          ) : null}
+          {renderInput(field)}
+          {field.help_text && <p className="mt-1 text-xs text-gray-500">{field.help_text}</p>}
+          {errors[field.name] && <p className="mt-1 text-xs text-red-600">{errors[field.name]}</p>}
+        </div>
+      ))}
+    </>
+  );
+}
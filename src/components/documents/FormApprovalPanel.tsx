@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, Circle, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { apiPost } from '@/lib/api-client';
+import {
+  approvalChain,
+  normalizeFormSchema,
+  type ApprovalRecord,
+  type ApproverRole,
+} from '@/lib/form-schema';
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+/**
+ * FormApprovalPanel Component
+ *
+ * The approval steps of a form submission with the decision made at each, and
+ * approve/reject buttons for the step it is waiting for when the user's role
+ * may decide it. Rejecting needs a reason.
+ */
+export function FormApprovalPanel({
+  submission,
+  user,
+  onDecided,
+}: {
+  submission: {
+    id: string;
+    status: string;
+    approval_step?: number;
+    approval_history?: ApprovalRecord[];
+    form?: { form_schema: unknown; requires_approval: boolean } | null;
+  };
+  user: { role: string };
+  onDecided: () => void;
+}) {
+  const [rejecting, setRejecting] = useState(false);
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!submission.form) return null;
+  const chain = approvalChain(
+    normalizeFormSchema(submission.form.form_schema),
+    submission.form.requires_approval
+  );
+  if (chain.length === 0) return null;
+
+  const history = submission.approval_history || [];
+  const currentStep = submission.approval_step ?? 0;
+  const current = submission.status === 'pending' ? chain[currentStep] : undefined;
+  const canDecide = !!current?.roles.includes(user.role as ApproverRole);
+
+  const decide = async (decision: ApprovalRecord['decision']) => {
+    if (decision === 'rejected' && !confirm('Reject this submission?')) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await apiPost('/api/forms/approvals', {
+        id: submission.id,
+        decision,
+        comment: comment || null,
+      });
+      setRejecting(false);
+      setComment('');
+      onDecided();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record decision');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-700">Approvals</p>
+      <ol className="space-y-1 text-sm">
+        {chain.map((step, index) => {
+          const record = history.find((entry) => entry.step === index);
+          return (
+            <li key={index} className="flex items-start gap-2">
+              {record?.decision === 'approved' ? (
+                <CheckCircle className="w-4 h-4 mt-0.5 text-green-600" />
+              ) : record?.decision === 'rejected' ? (
+                <XCircle className="w-4 h-4 mt-0.5 text-red-600" />
+              ) : (
+                <Circle
+                  className={`w-4 h-4 mt-0.5 ${step === current ? 'text-blue-600' : 'text-gray-300'}`}
+                />
+              )}
+              <div>
+                <span className="text-gray-900">{step.name}</span>
+                <span className="text-xs text-gray-500 ml-2">
+                  {record
+                    ? `${record.decision} ${format(parseISO(record.at), 'dd MMM yyyy HH:mm')}`
+                    : step.roles.join(' / ')}
+                </span>
+                {record?.comment && <p className="text-xs text-gray-600">{record.comment}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {canDecide && (
+        <div className="space-y-2 pt-2">
+          {rejecting && (
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              placeholder="Reason for rejecting"
+              className={inputClass}
+            />
+          )}
+          <div className="flex gap-2">
+            {!rejecting && (
+              <button
+                onClick={() => decide('approved')}
+                disabled={busy}
+                className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                Approve {current?.name}
+              </button>
+            )}
+            <button
+              onClick={() => (rejecting ? decide('rejected') : setRejecting(true))}
+              disabled={busy || (rejecting && !comment.trim())}
+              className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            {rejecting && (
+              <button
+                onClick={() => setRejecting(false)}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,558 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, LayoutList, Plus, Trash2 } from 'lucide-react';
+import { apiGet, apiPost, apiPut } from '@/lib/api-client';
+import {
+  APPROVER_ROLES,
+  CONDITION_OPERATORS,
+  FORM_FIELD_TYPES,
+  PILOT_AUTOFILL_SOURCES,
+  validateFormDefinition,
+  type FieldCondition,
+  type FormField,
+  type FormSchema,
+  type FormValues,
+  type PilotAutofillSource,
+} from '@/lib/form-schema';
+import type { DigitalForm } from '@/lib/document-service';
+import { DynamicFormRenderer } from './DynamicFormRenderer';
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+const SUBMITTER_ROLES = ['admin', 'manager'];
+
+const toList = (text: string) =>
+  text
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+const optionalNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+
+type FormDraft = Omit<DigitalForm, 'id'> & { id?: string };
+
+const emptyForm = (): FormDraft => ({
+  form_type: '',
+  title: '',
+  description: '',
+  form_schema: { fields: [], approval_steps: [] },
+  is_active: true,
+  requires_approval: true,
+  allowed_roles: [...SUBMITTER_ROLES],
+});
+
+/**
+ * FormBuilder Component
+ *
+ * Admin editor for digital forms: fields with their validation, conditions for
+ * showing them and auto-fill from the pilot record, the roles that may submit
+ * the form and the approval steps a submission goes through, with a live
+ * preview of the form.
+ */
+export function FormBuilder() {
+  const [forms, setForms] = useState<DigitalForm[]>([]);
+  const [draft, setDraft] = useState<FormDraft>(emptyForm);
+  const [preview, setPreview] = useState<FormValues>({});
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadForms = useCallback(async () => {
+    try {
+      const response = await apiGet('/api/forms/definitions');
+      setForms(response.data || []);
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to load forms']);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadForms();
+  }, [loadForms]);
+
+  const schema = draft.form_schema;
+  const setSchema = (changes: Partial<FormSchema>) =>
+    setDraft({ ...draft, form_schema: { ...schema, ...changes } });
+
+  const updateField = (index: number, changes: Partial<FormField>) =>
+    setSchema({
+      fields: schema.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)),
+    });
+
+  const moveField = (index: number, offset: number) => {
+    const fields = [...schema.fields];
+    fields.splice(index + offset, 0, ...fields.splice(index, 1));
+    setSchema({ fields });
+  };
+
+  const addField = () =>
+    setSchema({
+      fields: [
+        ...schema.fields,
+        {
+          name: `field_${schema.fields.length + 1}`,
+          type: 'text',
+          label: '',
+          required: false,
+        },
+      ],
+    });
+
+  const select = (id: string) => {
+    const form = forms.find((f) => f.id === id);
+    setDraft(form ? { ...form } : emptyForm());
+    setPreview({});
+    setErrors([]);
+    setMessage(null);
+  };
+
+  const save = async () => {
+    const problems = validateFormDefinition(schema);
+    if (!draft.title.trim()) problems.unshift('Title is required');
+    if (!draft.id && !draft.form_type) problems.unshift('Form type is required');
+    setErrors(problems);
+    setMessage(null);
+    if (problems.length > 0) return;
+
+    try {
+      setBusy(true);
+      const { id, form_type, title, description, form_schema, ...settings } = draft;
+      const body = { title, description: description || null, form_schema, ...settings };
+      const response = id
+        ? await apiPut('/api/forms/definitions', { id, ...body })
+        : await apiPost('/api/forms/definitions', { form_type, ...body });
+      setDraft(response.data);
+      setMessage('Form saved');
+      await loadForms();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save form']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderCondition = (field: FormField, index: number) => {
+    const condition = field.visible_when?.[0];
+    const earlier = schema.fields.slice(0, index);
+    const setCondition = (changes: Partial<FieldCondition> | null) =>
+      updateField(index, {
+        visible_when: changes
+          ? [{ ...(condition || { field: '', operator: 'equals' }), ...changes }]
+          : undefined,
+      });
+
+    if (earlier.length === 0) return <span className="text-xs text-gray-400">Always</span>;
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        <select
+          value={condition?.field || ''}
+          onChange={(e) => setCondition(e.target.value ? { field: e.target.value } : null)}
+          className={inputClass}
+        >
+          <option value="">Always</option>
+          {earlier.map((other) => (
+            <option key={other.name} value={other.name}>
+              {other.label || other.name}
+            </option>
+          ))}
+        </select>
+        {condition && (
+          <>
+            <select
+              value={condition.operator}
+              onChange={(e) =>
+                setCondition({
+                  operator: e.target.value as FieldCondition['operator'],
+                  value: e.target.value === 'in' ? toList(String(condition.value || '')) : '',
+                })
+              }
+              className={inputClass}
+            >
+              {CONDITION_OPERATORS.map((operator) => (
+                <option key={operator} value={operator}>
+                  {operator.replace('_', ' ')}
+                </option>
+              ))}
+            </select>
+            {condition.operator !== 'filled' && (
+              <input
+                value={
+                  Array.isArray(condition.value)
+                    ? condition.value.join(', ')
+                    : condition.value || ''
+                }
+                onChange={(e) =>
+                  setCondition({
+                    value: condition.operator === 'in' ? toList(e.target.value) : e.target.value,
+                  })
+                }
+                placeholder={condition.operator === 'in' ? 'a, b' : 'value'}
+                className={`${inputClass} w-24`}
+              />
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderValidation = (field: FormField, index: number) => {
+    const validation = field.validation || {};
+    const setValidation = (key: keyof typeof validation, text: string) =>
+      updateField(index, {
+        validation: {
+          ...validation,
+          [key]:
+            key === 'pattern' || key === 'pattern_message'
+              ? text || undefined
+              : optionalNumber(text),
+        },
+      });
+    const limits: [keyof typeof validation, string][] =
+      field.type === 'number'
+        ? [
+            ['min', 'min'],
+            ['max', 'max'],
+          ]
+        : ['text', 'textarea'].includes(field.type)
+          ? [
+              ['min_length', 'min length'],
+              ['max_length', 'max length'],
+              ['pattern', 'pattern'],
+            ]
+          : [];
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {limits.map(([key, label]) => (
+          <input
+            key={key}
+            type={key === 'pattern' ? 'text' : 'number'}
+            value={validation[key] ?? ''}
+            onChange={(e) => setValidation(key, e.target.value)}
+            placeholder={label}
+            title={label}
+            className={`${inputClass} ${key === 'pattern' ? 'w-28' : 'w-20'}`}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 flex items-center">
+          <LayoutList className="w-5 h-5 mr-2 text-gray-600" />
+          Form Builder
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={draft.id || ''}
+            onChange={(e) => select(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">New form</option>
+            {forms.map((form) => (
+              <option key={form.id} value={form.id}>
+                {form.title}
+                {form.is_active ? '' : ' (inactive)'}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={save}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save Form
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <input
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="Title"
+          className={inputClass}
+        />
+        <input
+          value={draft.form_type}
+          onChange={(e) => setDraft({ ...draft, form_type: e.target.value })}
+          disabled={!!draft.id}
+          placeholder="Form type, e.g. fatigue_report"
+          className={`${inputClass} disabled:bg-gray-100`}
+        />
+        <input
+          value={draft.description || ''}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="Description"
+          className={`${inputClass} md:col-span-2`}
+        />
+        <div className="flex flex-wrap items-center gap-4 md:col-span-2 text-gray-700">
+          <span>Submitted by:</span>
+          {SUBMITTER_ROLES.map((role) => (
+            <label key={role} className="inline-flex items-center">
+              <input
+                type="checkbox"
+                checked={draft.allowed_roles.includes(role)}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    allowed_roles: e.target.checked
+                      ? [...draft.allowed_roles, role]
+                      : draft.allowed_roles.filter((r) => r !== role),
+                  })
+                }
+                className="mr-1"
+              />
+              {role}
+            </label>
+          ))}
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={draft.requires_approval}
+              onChange={(e) => setDraft({ ...draft, requires_approval: e.target.checked })}
+              className="mr-1"
+            />
+            Requires approval
+          </label>
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={draft.is_active}
+              onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+              className="mr-1"
+            />
+            Active
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-900">Fields</h4>
+          <button onClick={addField} className="text-xs text-blue-600 hover:text-blue-700">
+            Add field
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2">Label / Name</th>
+                <th className="py-2">Type</th>
+                <th className="py-2">Options / Auto-fill</th>
+                <th className="py-2">Validation</th>
+                <th className="py-2">Show when</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {schema.fields.map((field, index) => (
+                <tr key={index} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-2 space-y-1">
+                    <input
+                      value={field.label}
+                      onChange={(e) => updateField(index, { label: e.target.value })}
+                      placeholder="Label"
+                      className={`${inputClass} w-full`}
+                    />
+                    <input
+                      value={field.name}
+                      onChange={(e) => updateField(index, { name: e.target.value })}
+                      placeholder="name"
+                      className={`${inputClass} w-full font-mono`}
+                    />
+                    <label className="inline-flex items-center text-xs">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateField(index, { required: e.target.checked })}
+                        className="mr-1"
+                      />
+                      Required
+                    </label>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={field.type}
+                      onChange={(e) =>
+                        updateField(index, {
+                          type: e.target.value as FormField['type'],
+                          validation: undefined,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {FORM_FIELD_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                          {type}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-2">
+                    {field.type === 'select' || field.type === 'radio' ? (
+                      <input
+                        value={(field.options || []).join(', ')}
+                        onChange={(e) => updateField(index, { options: toList(e.target.value) })}
+                        placeholder="Option A, Option B"
+                        className={`${inputClass} w-full`}
+                      />
+                    ) : (
+                      <select
+                        value={field.autofill || ''}
+                        onChange={(e) =>
+                          updateField(index, {
+                            autofill: (e.target.value || undefined) as
+                              | PilotAutofillSource
+                              | undefined,
+                          })
+                        }
+                        className={inputClass}
+                      >
+                        <option value="">Entered by user</option>
+                        {Object.entries(PILOT_AUTOFILL_SOURCES).map(([source, label]) => (
+                          <option key={source} value={source}>
+                            Pilot: {label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">{renderValidation(field, index)}</td>
+                  <td className="py-2 pr-2">{renderCondition(field, index)}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                      className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === schema.fields.length - 1}
+                      title="Move down"
+                      className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() =>
+                        setSchema({ fields: schema.fields.filter((_, i) => i !== index) })
+                      }
+                      title="Remove field"
+                      className="p-1 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {draft.requires_approval && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-900">Approval steps</h4>
+            <button
+              onClick={() =>
+                setSchema({
+                  approval_steps: [...schema.approval_steps, { name: '', roles: ['admin'] }],
+                })
+              }
+              className="text-xs text-blue-600 hover:text-blue-700 flex items-center"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add step
+            </button>
+          </div>
+          {schema.approval_steps.length === 0 && (
+            <p className="text-xs text-gray-500">One approval by an admin or manager</p>
+          )}
+          {schema.approval_steps.map((step, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="text-gray-500">{index + 1}.</span>
+              <input
+                value={step.name}
+                onChange={(e) =>
+                  setSchema({
+                    approval_steps: schema.approval_steps.map((s, i) =>
+                      i === index ? { ...s, name: e.target.value } : s
+                    ),
+                  })
+                }
+                placeholder="Step name, e.g. Chief Pilot"
+                className={inputClass}
+              />
+              {APPROVER_ROLES.map((role) => (
+                <label key={role} className="inline-flex items-center text-xs">
+                  <input
+                    type="checkbox"
+                    checked={step.roles.includes(role)}
+                    onChange={(e) =>
+                      setSchema({
+                        approval_steps: schema.approval_steps.map((s, i) =>
+                          i === index
+                            ? {
+                                ...s,
+                                roles: e.target.checked
+                                  ? [...s.roles, role]
+                                  : s.roles.filter((r) => r !== role),
+                              }
+                            : s
+                        ),
+                      })
+                    }
+                    className="mr-1"
+                  />
+                  {role}
+                </label>
+              ))}
+              <button
+                onClick={() =>
+                  setSchema({
+                    approval_steps: schema.approval_steps.filter((_, i) => i !== index),
+                  })
+                }
+                title="Remove step"
+                className="p-1 text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {schema.fields.length > 0 && (
+        <div className="border-t border-gray-200 pt-4 space-y-4">
+          <h4 className="text-sm font-medium text-gray-900">Preview</h4>
+          <DynamicFormRenderer
+            schema={schema}
+            values={preview}
+            onChange={(name, value) => setPreview({ ...preview, [name]: value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
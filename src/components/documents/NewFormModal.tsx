@@ -7,8 +7,10 @@
 
 import { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import { useAuth } from '@/contexts/AuthContext';
+import { apiPost } from '@/lib/api-client';
 import { getAffectedRosterPeriods } from '@/lib/roster-utils';
+import { formDataErrors, normalizeFormSchema, pilotAutofill } from '@/lib/form-schema';
+import { DynamicFormRenderer } from './DynamicFormRenderer';
 
 interface NewFormModalProps {
   isOpen: boolean;
@@ -25,12 +27,12 @@ export function NewFormModal({
   forms,
   pilots,
 }: NewFormModalProps) {
-  const { user } = useAuth();
   const [selectedFormId, setSelectedFormId] = useState('');
   const [formData, setFormData] = useState<any>({});
   const [pilotId, setPilotId] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   // Auto-calculate roster period when dates change (Leave Request Form only)
   useEffect(() => {
@@ -68,7 +70,7 @@ export function NewFormModal({
   if (!isOpen) return null;
 
   const selectedForm = forms.find((f) => f.id === selectedFormId);
-  const formSchema = selectedForm?.form_schema || { fields: [] };
+  const formSchema = normalizeFormSchema(selectedForm?.form_schema);
 
   const handleFieldChange = (fieldName: string, value: any) => {
     setFormData((prev: any) => ({
@@ -77,6 +79,15 @@ export function NewFormModal({
     }));
   };
 
+  // Fill the auto-filled fields from the selected pilot's record
+  const handlePilotChange = (id: string) => {
+    setPilotId(id);
+    setFormData((prev: any) => ({
+      ...prev,
+      ...pilotAutofill(formSchema, pilots.find((pilot) => pilot.id === id)),
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -90,28 +101,23 @@ export function NewFormModal({
       return;
     }
 
+    const errors = formDataErrors(formSchema, formData);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setError('Please correct the highlighted fields');
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
     try {
-      const response = await fetch('/api/forms', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          form_id: selectedFormId,
-          form_data: formData,
-          submitted_by: user?.id,
-          pilot_id: pilotId || null,
-          status: 'pending',
-        }),
+      await apiPost('/api/forms', {
+        form_id: selectedFormId,
+        form_data: formData,
+        pilot_id: pilotId || null,
       });
 
-      const result = await response.json();
-
-      if (!result.success) {
-        throw new Error(result.error || 'Form submission failed');
-      }
-
       onSuccess();
       onClose();
       resetForm();
@@ -127,6 +133,7 @@ export function NewFormModal({
     setFormData({});
     setPilotId('');
     setError(null);
+    setFieldErrors({});
   };
 
   const handleClose = () => {
@@ -136,103 +143,6 @@ export function NewFormModal({
     }
   };
 
-  const renderField = (field: any) => {
-    const { name, type, label, required, options } = field;
-
-    // Special handling for roster_period field in Leave Request Form
-    const isRosterPeriodField = name === 'roster_period' && selectedForm?.form_type === 'leave_request';
-    const isReadOnly = isRosterPeriodField;
-
-    switch (type) {
-      case 'text':
-        return (
-          <input
-            type="text"
-            value={formData[name] || ''}
-            onChange={(e) => handleFieldChange(name, e.target.value)}
-            className={`w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600 ${isReadOnly ? 'bg-gray-100 cursor-not-allowed' : ''}`}
-            placeholder={isRosterPeriodField ? 'Auto-calculated from dates' : `Enter ${label.toLowerCase()}`}
-            required={required}
-            readOnly={isReadOnly}
-          />
-        );
-
-      case 'date':
-        return (
-          <input
-            type="date"
-            value={formData[name] || ''}
-            onChange={(e) => handleFieldChange(name, e.target.value)}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
-            required={required}
-          />
-        );
-
-      case 'datetime':
-        return (
-          <input
-            type="datetime-local"
-            value={formData[name] || ''}
-            onChange={(e) => handleFieldChange(name, e.target.value)}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
-            required={required}
-          />
-        );
-
-      case 'select':
-        return (
-          <select
-            value={formData[name] || ''}
-            onChange={(e) => handleFieldChange(name, e.target.value)}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
-            required={required}
-          >
-            <option value="">Select an option</option>
-            {options?.map((option: string) => (
-              <option key={option} value={option}>
-                {option}
-              </option>
-            ))}
-          </select>
-        );
-
-      case 'radio':
-        return (
-          <div className="flex gap-4">
-            {options?.map((option: string) => (
-              <label key={option} className="flex items-center">
-                <input
-                  type="radio"
-                  name={name}
-                  value={option}
-                  checked={formData[name] === option}
-                  onChange={(e) => handleFieldChange(name, e.target.value)}
-                  className="h-4 w-4 text-blue-600 focus:ring-blue-600 border-gray-300"
-                  required={required}
-                />
-                <span className="ml-2 text-sm text-gray-700">{option}</span>
-              </label>
-            ))}
-          </div>
-        );
-
-      case 'textarea':
-        return (
-          <textarea
-            value={formData[name] || ''}
-            onChange={(e) => handleFieldChange(name, e.target.value)}
-            rows={4}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
-            placeholder={`Enter ${label.toLowerCase()}`}
-            required={required}
-          />
-        );
-
-      default:
-        return null;
-    }
-  };
-
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="flex min-h-screen items-center justify-center p-4">
@@ -273,6 +183,8 @@ export function NewFormModal({
                 onChange={(e) => {
                   setSelectedFormId(e.target.value);
                   setFormData({});
+                  setPilotId('');
+                  setFieldErrors({});
                 }}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
                 required
@@ -297,7 +209,7 @@ export function NewFormModal({
                 </label>
                 <select
                   value={pilotId}
-                  onChange={(e) => setPilotId(e.target.value)}
+                  onChange={(e) => handlePilotChange(e.target.value)}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
                   required
                 >
@@ -312,15 +224,17 @@ export function NewFormModal({
             )}
 
             {/* Dynamic Form Fields */}
-            {selectedFormId &&
-              formSchema.fields?.map((field: any) => (
-                <div key={field.name}>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    {field.label} {field.required && '*'}
-                  </label>
-                  {renderField(field)}
-                </div>
-              ))}
+            {selectedFormId && (
+              <DynamicFormRenderer
+                schema={formSchema}
+                values={formData}
+                onChange={handleFieldChange}
+                errors={fieldErrors}
+                readOnlyFields={
+                  selectedForm?.form_type === 'leave_request' ? ['roster_period'] : []
+                }
+              />
+            )}
 
             {/* Actions */}
             <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200">
@@ -9,6 +9,7 @@ import { useState } from 'react';
 import { X } from 'lucide-react';
 import { FileUpload } from './FileUpload';
 import { useAuth } from '@/contexts/AuthContext';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface UploadDocumentModalProps {
   isOpen: boolean;
@@ -73,7 +74,7 @@ export function UploadDocumentModal({
         formDataToSend.append('expires_at', formData.expires_at);
         formDataToSend.append('uploaded_by', user?.id || '');
 
-        const response = await fetch('/api/documents/upload', {
+        const response = await authenticatedFetch('/api/documents/upload', {
           method: 'POST',
           body: formDataToSend,
         });
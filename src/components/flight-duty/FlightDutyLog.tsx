@@ -0,0 +1,418 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { apiDelete, apiGet, apiPost } from '@/lib/api-client';
+import { DUTY_TYPES, type DutyType } from '@/lib/flight-duty-import';
+import type { FtlStatus, FtlTotal } from '@/lib/flight-time-limits';
+import type { DutyImportResult, DutyPeriod } from '@/lib/flight-duty-service';
+
+interface PilotOption {
+  id: string;
+  first_name: string;
+  last_name: string;
+  employee_id: string;
+}
+
+const LEVEL_STYLES: Record<FtlTotal['level'], string> = {
+  OK: 'bg-green-100 text-green-800',
+  WARNING: 'bg-amber-100 text-amber-800',
+  EXCEEDED: 'bg-red-100 text-red-800',
+};
+
+const EMPTY_DUTY = {
+  duty_start: '',
+  duty_end: '',
+  duty_type: 'FLIGHT' as DutyType,
+  flight_number: '',
+  departure_airport: '',
+  arrival_airport: '',
+  block_off: '',
+  block_on: '',
+};
+
+/** datetime-local values are entered in UTC */
+const toUtc = (value: string) => `${value}:00Z`;
+
+/** Timestamps come back from the database in UTC, so format the wall-clock part as-is */
+const formatUtc = (value: string) =>
+  format(parseISO(new Date(value).toISOString().slice(0, 16)), 'dd MMM yyyy HH:mm');
+
+/**
+ * FlightDutyLog Component
+ *
+ * Flight and duty time log: CSV import with a dry-run preview, manual entry of a duty
+ * with one sector, the recent log per pilot and the pilot's rolling FTL totals.
+ */
+export function FlightDutyLog({ canEdit }: { canEdit: boolean }) {
+  const [pilots, setPilots] = useState<PilotOption[]>([]);
+  const [pilotId, setPilotId] = useState('');
+  const [duties, setDuties] = useState<DutyPeriod[]>([]);
+  const [status, setStatus] = useState<FtlStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [csv, setCsv] = useState<{ name: string; text: string } | null>(null);
+  const [preview, setPreview] = useState<DutyImportResult | null>(null);
+  const [form, setForm] = useState(EMPTY_DUTY);
+
+  useEffect(() => {
+    apiGet('/api/pilots')
+      .then((response) => setPilots(response.data || []))
+      .catch(() => setError('Failed to load pilots'));
+  }, []);
+
+  const loadLog = useCallback(async () => {
+    try {
+      setError(null);
+      const params = new URLSearchParams({ limit: '100' });
+      if (pilotId) params.set('pilotId', pilotId);
+      const [log, pilotStatus] = await Promise.all([
+        apiGet(`/api/flight-duty?${params.toString()}`),
+        pilotId ? apiGet(`/api/flight-duty?view=status&pilotId=${pilotId}`) : null,
+      ]);
+      setDuties(log.data || []);
+      setStatus(pilotStatus?.data || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load duty log');
+    } finally {
+      setLoading(false);
+    }
+  }, [pilotId]);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!csv) return;
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      const response = await apiPost('/api/flight-duty/import', { csv: csv.text, dryRun });
+      const result: DutyImportResult = response.data;
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        setPreview(null);
+        setCsv(null);
+        const details = [
+          `Imported ${result.imported} duties`,
+          result.duplicates ? `${result.duplicates} already logged` : null,
+          result.errors.length ? `${result.errors.length} rows with errors` : null,
+        ];
+        setNotice(details.filter(Boolean).join(', '));
+        await loadLog();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setCsv(file ? { name: file.name, text: await file.text() } : null);
+  };
+
+  const addDuty = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      setNotice(null);
+      const sectors =
+        form.block_off && form.block_on
+          ? [
+              {
+                flight_number: form.flight_number || undefined,
+                departure_airport: form.departure_airport.toUpperCase() || undefined,
+                arrival_airport: form.arrival_airport.toUpperCase() || undefined,
+                block_off: toUtc(form.block_off),
+                block_on: toUtc(form.block_on),
+              },
+            ]
+          : [];
+      const response = await apiPost('/api/flight-duty', {
+        pilot_id: pilotId,
+        duty_start: toUtc(form.duty_start),
+        duty_end: toUtc(form.duty_end),
+        duty_type: form.duty_type,
+        sectors,
+      });
+      const issues: string[] = [
+        ...(response.assessment?.violations || []),
+        ...(response.assessment?.warnings || []),
+      ];
+      setNotice(issues.length ? `Duty logged. ${issues.join('; ')}` : 'Duty logged');
+      setForm(EMPTY_DUTY);
+      await loadLog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log duty');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeDuty = async (duty: DutyPeriod) => {
+    if (!confirm(`Delete the duty starting ${formatUtc(duty.duty_start)} UTC?`)) return;
+    try {
+      await apiDelete(`/api/flight-duty?id=${duty.id}`);
+      await loadLog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete duty');
+    }
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+          {notice}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">Import Duty Log</h2>
+          <p className="text-sm text-gray-600">
+            CSV with one row per sector: employee_id, duty_start, duty_end, duty_type,
+            flight_number, departure, arrival, block_off, block_on, takeoffs, landings (times in
+            UTC; takeoffs and landings default to 1). Duties already logged are skipped.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+            <button
+              onClick={() => runImport(true)}
+              disabled={!csv || busy}
+              className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Preview
+            </button>
+            <button
+              onClick={() => runImport(false)}
+              disabled={!preview || preview.parsed === 0 || busy}
+              className="px-3 py-1 bg-[#4F46E5] text-white text-sm rounded hover:bg-[#4338CA] disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+          {preview && (
+            <div className="text-sm text-gray-700">
+              <p>
+                {csv?.name}: {preview.parsed} duties parsed, {preview.imported} to import,{' '}
+                {preview.duplicates} already logged.
+              </p>
+              {preview.errors.length > 0 && (
+                <ul className="mt-2 max-h-40 overflow-y-auto text-red-600">
+                  {preview.errors.map((issue, index) => (
+                    <li key={index}>
+                      Line {issue.line}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-gray-900">Duty Log</h2>
+          <select
+            value={pilotId}
+            onChange={(e) => setPilotId(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="">All pilots</option>
+            {pilots.map((pilot) => (
+              <option key={pilot.id} value={pilot.id}>
+                {pilot.first_name} {pilot.last_name} ({pilot.employee_id})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {status && (
+          <div className="flex flex-wrap gap-2">
+            {status.totals.map((total) => (
+              <span
+                key={total.key}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${LEVEL_STYLES[total.level]}`}
+              >
+                {total.label}: {total.usedHours}/{total.limitHours}h
+              </span>
+            ))}
+            {status.lastRestHours !== null && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                Last rest: {status.lastRestHours}h
+              </span>
+            )}
+          </div>
+        )}
+
+        {canEdit && pilotId && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm border-t border-gray-100 pt-4">
+            <label>
+              <span className="block text-gray-600 mb-1">Duty start (UTC)</span>
+              <input
+                type="datetime-local"
+                value={form.duty_start}
+                onChange={(e) => setForm({ ...form, duty_start: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">Duty end (UTC)</span>
+              <input
+                type="datetime-local"
+                value={form.duty_end}
+                onChange={(e) => setForm({ ...form, duty_end: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">Duty type</span>
+              <select
+                value={form.duty_type}
+                onChange={(e) => setForm({ ...form, duty_type: e.target.value as DutyType })}
+                className={inputClass}
+              >
+                {DUTY_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">Flight number</span>
+              <input
+                value={form.flight_number}
+                onChange={(e) => setForm({ ...form, flight_number: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">From / To</span>
+              <div className="flex space-x-1">
+                <input
+                  value={form.departure_airport}
+                  maxLength={4}
+                  placeholder="POM"
+                  onChange={(e) => setForm({ ...form, departure_airport: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  value={form.arrival_airport}
+                  maxLength={4}
+                  placeholder="LAE"
+                  onChange={(e) => setForm({ ...form, arrival_airport: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">Block off (UTC)</span>
+              <input
+                type="datetime-local"
+                value={form.block_off}
+                onChange={(e) => setForm({ ...form, block_off: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">Block on (UTC)</span>
+              <input
+                type="datetime-local"
+                value={form.block_on}
+                onChange={(e) => setForm({ ...form, block_on: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex items-end">
+              <button
+                onClick={addDuty}
+                disabled={!form.duty_start || !form.duty_end || busy}
+                className="px-3 py-1.5 bg-[#4F46E5] text-white text-sm rounded hover:bg-[#4338CA] disabled:opacity-50"
+              >
+                Log Duty
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading duty log...</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Pilot</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Duty (UTC)</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Type</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Sectors</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">Source</th>
+                {canEdit && <th className="px-4 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {duties.map((duty) => (
+                <tr key={duty.id}>
+                  <td className="px-4 py-2 text-gray-900">
+                    {duty.pilot ? `${duty.pilot.first_name} ${duty.pilot.last_name}` : '-'}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {formatUtc(duty.duty_start)} – {formatUtc(duty.duty_end).slice(-5)}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{duty.duty_type}</td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {duty.flight_sectors
+                      .map(
+                        (sector) =>
+                          `${sector.flight_number || ''} ${sector.departure_airport || ''}-${sector.arrival_airport || ''}`
+                      )
+                      .join(', ') || '-'}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">{duty.source}</td>
+                  {canEdit && (
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => removeDuty(duty)}
+                        className="text-xs text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {duties.length === 0 && (
+                <tr>
+                  <td colSpan={canEdit ? 6 : 5} className="px-4 py-6 text-center text-gray-500">
+                    No duties logged
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { X, Save, Plane } from 'lucide-react';
 import { apiPost, apiGet } from '@/lib/api-client';
+import { parseRequiredQualifications } from '@/lib/pilot-currency';
 
 const flightRequestSchema = z.object({
   pilot_id: z.string().min(1, 'Pilot is required'),
@@ -35,6 +36,10 @@ const flightRequestSchema = z.object({
   arrival_airport: z.string().max(10).optional(),
   departure_date: z.string().optional(),
   return_date: z.string().optional(),
+  planned_duty_start: z.string().optional(),
+  planned_duty_end: z.string().optional(),
+  planned_block_minutes: z.number().int().min(0).max(1440).optional(),
+  required_qualifications: z.string().optional(),
   priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'URGENT']),
   reason: z.string().optional(),
   notes: z.string().optional(),
@@ -122,7 +127,20 @@ export function FlightRequestForm({
     setError(null);
 
     try {
-      await apiPost('/api/flight-requests', data);
+      const { requirements, unrecognised } = parseRequiredQualifications(
+        (data.required_qualifications || '').split(',').filter((entry) => entry.trim())
+      );
+      if (unrecognised.length > 0) {
+        throw new Error(`Unrecognised required qualification: ${unrecognised.join(', ')}`);
+      }
+
+      // Planned duty times are entered in UTC
+      await apiPost('/api/flight-requests', {
+        ...data,
+        required_qualifications: requirements,
+        planned_duty_start: data.planned_duty_start ? `${data.planned_duty_start}:00Z` : undefined,
+        planned_duty_end: data.planned_duty_end ? `${data.planned_duty_end}:00Z` : undefined,
+      });
       reset();
       onSuccess();
       onClose();
@@ -323,9 +341,71 @@ export function FlightRequestForm({
                   />
                 </div>
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {/* Planned Duty Start */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Planned Duty Start (UTC)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    {...register('planned_duty_start')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+                  />
+                </div>
+
+                {/* Planned Duty End */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Planned Duty End (UTC)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    {...register('planned_duty_end')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+                  />
+                </div>
+
+                {/* Planned Block Time */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Planned Block Time (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    {...register('planned_block_minutes', {
+                      setValueAs: (value) => (value === '' ? undefined : Number(value)),
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Planned duty times are checked against flight time limitations when the request is
+                approved.
+              </p>
             </>
           )}
 
+          {/* Required Qualifications */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Required Qualifications
+            </label>
+            <input
+              type="text"
+              {...register('required_qualifications')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+              placeholder="e.g., ROUTE:POM-LAE, AERODROME:AYTK, CURRENCY:LDG90"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Comma separated. The pilot must hold each one on the departure date for the request to
+              be approved.
+            </p>
+          </div>
+
           {/* Reason */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
@@ -28,7 +28,25 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', icon: NavIcons.dashboard, description: 'Overview and analytics' },
-    { name: 'Pilots', href: '/dashboard/pilots', icon: NavIcons.pilots, description: 'Manage pilot records' },
+    {
+      name: 'Pilots',
+      href: '/dashboard/pilots',
+      icon: NavIcons.pilots,
+      description: 'Manage pilot records',
+      submenu: [
+        { name: 'Pilots', href: '/dashboard/pilots', description: 'Pilot records' },
+        {
+          name: 'Upgrade Pipeline',
+          href: '/dashboard/pilots/upgrade-pipeline',
+          description: 'FO to Captain upgrades',
+        },
+        {
+          name: 'Recency & Qualifications',
+          href: '/dashboard/pilots/currency',
+          description: 'Currency and route quals',
+        },
+      ],
+    },
     {
       name: 'Documents',
       href: '/dashboard/documents',
@@ -66,6 +84,18 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       href: '/dashboard/flight-requests',
       icon: NavIcons.pilots,
       description: 'Manage flight assignments',
+      submenu: [
+        {
+          name: 'Flight Requests',
+          href: '/dashboard/flight-requests',
+          description: 'Manage requests',
+        },
+        {
+          name: 'Flight & Duty Log',
+          href: '/dashboard/flight-duty',
+          description: 'Flight time limitations',
+        },
+      ],
     },
     {
       name: 'Disciplinary',
@@ -97,6 +127,11 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           href: '/dashboard/certifications/expiry-planning',
           description: 'Plan certification renewals',
         },
+        {
+          name: 'Manpower Planning',
+          href: '/dashboard/reports/manpower-planning',
+          description: 'Project crew numbers and shortfalls',
+        },
       ],
     },
     {
@@ -116,6 +151,16 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           href: '/dashboard/admin/feedback-moderation',
           description: 'Moderate pilot feedback',
         },
+        {
+          name: 'Roles & Permissions',
+          href: '/dashboard/admin/access',
+          description: 'Custom roles and user permissions',
+        },
+        {
+          name: 'Email Templates',
+          href: '/dashboard/admin/email-templates',
+          description: 'Edit and preview email templates',
+        },
       ],
     },
     {
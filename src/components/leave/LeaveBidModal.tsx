@@ -10,6 +10,7 @@ import { getRosterPeriodFromDate, formatRosterPeriod } from '@/lib/roster-utils'
 import { useAuth } from '@/contexts/AuthContext';
 import { ModalSheet } from '@/components/ui/ModalSheet';
 import { Calendar, User, FileText, Clock } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 const leaveBidSchema = z
   .object({
@@ -258,7 +259,7 @@ export function LeaveBidModal({ isOpen, onClose, onSuccess }: LeaveBidModalProps
         notes: data.notes || null,
       };
 
-      const response = await fetch('/api/leave-bids', {
+      const response = await authenticatedFetch('/api/leave-bids', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { LeaveCalendar } from '@/components/calendar/LeaveCalendar';
 import { getAllLeaveRequests, type LeaveRequest } from '@/lib/leave-service';
 import { format, parseISO } from 'date-fns';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface LeaveEvent {
   id: string;
@@ -29,7 +30,7 @@ export function LeaveCalendarView() {
 
         // Use API route in development mode to bypass RLS
         if (process.env.NODE_ENV === 'development') {
-          const response = await fetch('/api/leave-requests');
+          const response = await authenticatedFetch('/api/leave-requests');
           const result = await response.json();
 
           if (result.success) {
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQueryClient } from '@tanstack/react-query';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format, differenceInDays, isAfter, isBefore } from 'date-fns';
@@ -15,6 +16,7 @@ import {
 import { getCurrentRosterPeriod, getAffectedRosterPeriods } from '@/lib/roster-utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { ModalSheet } from '@/components/ui/ModalSheet';
+import { optimisticLeaveRequestUpdate } from '@/lib/optimistic-updates';
 
 const leaveRequestSchema = z
   .object({
@@ -60,7 +62,8 @@ const leaveRequestSchema = z
 interface LeaveRequestEditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: (request: LeaveRequest) => void;
+  /** Called with null when the request was queued for sync while offline */
+  onSuccess: (request: LeaveRequest | null) => void;
   editingRequest: LeaveRequest;
 }
 
@@ -83,6 +86,7 @@ export function LeaveRequestEditModal({
   editingRequest,
 }: LeaveRequestEditModalProps) {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [pilots, setPilots] = useState<Pilot[]>([]);
   const [loading, setLoading] = useState(false);
   const [conflicts, setConflicts] = useState<LeaveRequest[]>([]);
@@ -224,7 +228,14 @@ export function LeaveRequestEditModal({
         is_late_request: isLate,
       };
 
-      const result = await updateLeaveRequest(editingRequest.id, requestData);
+      // Offline, the change is queued against the version loaded into the form
+      const result = await optimisticLeaveRequestUpdate(
+        queryClient,
+        editingRequest.id,
+        () => updateLeaveRequest(editingRequest.id, requestData, editingRequest.updated_at),
+        requestData,
+        editingRequest
+      );
       onSuccess(result);
       onClose();
     } catch (error) {
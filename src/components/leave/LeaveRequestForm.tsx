@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQueryClient } from '@tanstack/react-query';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format, differenceInDays, isAfter, isBefore } from 'date-fns';
@@ -20,6 +21,10 @@ import {
 } from '@/lib/roster-utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { permissions } from '@/lib/auth-utils';
+import {
+  optimisticLeaveRequestCreate,
+  optimisticLeaveRequestUpdate,
+} from '@/lib/optimistic-updates';
 
 const leaveRequestSchema = z
   .object({
@@ -63,7 +68,8 @@ const leaveRequestSchema = z
   );
 
 interface LeaveRequestFormProps {
-  onSuccess: (request: LeaveRequest) => void;
+  /** Called with null when the request was queued for sync while offline */
+  onSuccess: (request: LeaveRequest | null) => void;
   onCancel: () => void;
   editingRequest?: LeaveRequest;
 }
@@ -88,6 +94,7 @@ export function LeaveRequestForm({ onSuccess, onCancel, editingRequest }: LeaveR
   );
 
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [pilots, setPilots] = useState<Pilot[]>([]);
   const [loading, setLoading] = useState(false);
   const [conflicts, setConflicts] = useState<LeaveRequest[]>([]);
@@ -291,13 +298,23 @@ export function LeaveRequestForm({ onSuccess, onCancel, editingRequest }: LeaveR
         is_late_request: isLate,
       };
 
-      let result: LeaveRequest;
+      let result: LeaveRequest | null;
       if (editingRequest) {
-        // Update existing request
-        result = await updateLeaveRequest(editingRequest.id, requestData);
+        // Update existing request; offline, queued against the version loaded into the form
+        result = await optimisticLeaveRequestUpdate(
+          queryClient,
+          editingRequest.id,
+          () => updateLeaveRequest(editingRequest.id, requestData, editingRequest.updated_at),
+          requestData,
+          editingRequest
+        );
       } else {
         // Create new request
-        result = await createLeaveRequest(requestData);
+        result = await optimisticLeaveRequestCreate(
+          queryClient,
+          () => createLeaveRequest(requestData),
+          requestData
+        );
       }
 
       onSuccess(result);
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
+import { useQueryClient } from '@tanstack/react-query';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format, differenceInDays, isAfter, isBefore } from 'date-fns';
@@ -15,6 +16,7 @@ import {
 import { getCurrentRosterPeriod, getAffectedRosterPeriods } from '@/lib/roster-utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { ModalSheet } from '@/components/ui/ModalSheet';
+import { optimisticLeaveRequestCreate } from '@/lib/optimistic-updates';
 
 const leaveRequestSchema = z
   .object({
@@ -60,7 +62,8 @@ const leaveRequestSchema = z
 interface LeaveRequestModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: (request: LeaveRequest) => void;
+  /** Called with null when the request was queued for sync while offline */
+  onSuccess: (request: LeaveRequest | null) => void;
 }
 
 interface Pilot {
@@ -77,6 +80,7 @@ interface Pilot {
 
 export function LeaveRequestModal({ isOpen, onClose, onSuccess }: LeaveRequestModalProps) {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [pilots, setPilots] = useState<Pilot[]>([]);
   const [loading, setLoading] = useState(false);
   const [conflicts, setConflicts] = useState<LeaveRequest[]>([]);
@@ -232,7 +236,11 @@ export function LeaveRequestModal({ isOpen, onClose, onSuccess }: LeaveRequestMo
         is_late_request: isLate,
       };
 
-      const result = await createLeaveRequest(requestData);
+      const result = await optimisticLeaveRequestCreate(
+        queryClient,
+        () => createLeaveRequest(requestData),
+        requestData
+      );
       onSuccess(result);
       onClose();
     } catch (error) {
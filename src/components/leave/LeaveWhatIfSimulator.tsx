@@ -0,0 +1,420 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { authenticatedFetch } from '@/lib/api-client';
+import type {
+  LeaveSimulationResult,
+  SimulatedDecision,
+  SimulatedHire,
+  SimulationRank,
+} from '@/lib/leave-simulation';
+import type { SimulationLeaveRequestDetail } from '@/lib/leave-eligibility-service';
+
+interface LeaveWhatIfSimulatorProps {
+  rosterPeriod: string;
+}
+
+type SimulationResponse = LeaveSimulationResult & {
+  leaveRequests: SimulationLeaveRequestDetail[];
+};
+
+const DECISION_OPTIONS: { value: SimulatedDecision | 'AS_IS'; label: string }[] = [
+  { value: 'AS_IS', label: 'As is' },
+  { value: 'APPROVED', label: 'Approve' },
+  { value: 'DENIED', label: 'Deny' },
+];
+
+/**
+ * LeaveWhatIfSimulator Component
+ *
+ * Toggles leave requests, new hires, retirements and aircraft count for a roster period
+ * and shows how available crew per rank moves against the minimum-crew line.
+ * Nothing is saved - decisions are only applied when made through the leave workflow.
+ */
+export function LeaveWhatIfSimulator({ rosterPeriod }: LeaveWhatIfSimulatorProps) {
+  const [decisions, setDecisions] = useState<Record<string, SimulatedDecision>>({});
+  const [newHires, setNewHires] = useState<SimulatedHire[]>([]);
+  const [numberOfAircraft, setNumberOfAircraft] = useState<number | undefined>(undefined);
+  const [applyScheduledRetirements, setApplyScheduledRetirements] = useState(true);
+  const [pendingCountsAsLeave, setPendingCountsAsLeave] = useState(true);
+  const [rank, setRank] = useState<SimulationRank>('Captain');
+  const [hireDraft, setHireDraft] = useState<SimulatedHire>({
+    role: 'First Officer',
+    startDate: '',
+    count: 1,
+  });
+  const [result, setResult] = useState<SimulationResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from a clean scenario when the roster period changes
+  useEffect(() => {
+    setDecisions({});
+    setNewHires([]);
+    setNumberOfAircraft(undefined);
+  }, [rosterPeriod]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const runSimulation = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await authenticatedFetch('/api/leave-eligibility/simulate', {
+          method: 'POST',
+          body: JSON.stringify({
+            rosterPeriod,
+            scenario: {
+              decisions,
+              newHires,
+              numberOfAircraft,
+              applyScheduledRetirements,
+              pendingCountsAsLeave,
+            },
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to run simulation');
+        }
+
+        if (!cancelled) setResult(data.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to run simulation');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    // Debounce rapid toggling
+    const timer = setTimeout(runSimulation, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    rosterPeriod,
+    decisions,
+    newHires,
+    numberOfAircraft,
+    applyScheduledRetirements,
+    pendingCountsAsLeave,
+  ]);
+
+  const chartData = useMemo(() => {
+    if (!result) return [];
+    return result.availability.map((day, index) => {
+      const baseline = result.baseline.availability[index];
+      return {
+        date: format(parseISO(day.date), 'dd MMM'),
+        scenario: rank === 'Captain' ? day.availableCaptains : day.availableFirstOfficers,
+        baseline:
+          rank === 'Captain' ? baseline?.availableCaptains : baseline?.availableFirstOfficers,
+      };
+    });
+  }, [result, rank]);
+
+  const setDecision = (requestId: string, value: SimulatedDecision | 'AS_IS') => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (value === 'AS_IS') {
+        delete next[requestId];
+      } else {
+        next[requestId] = value;
+      }
+      return next;
+    });
+  };
+
+  const addHire = () => {
+    if (!hireDraft.startDate || hireDraft.count < 1) return;
+    setNewHires((prev) => [...prev, hireDraft]);
+    setHireDraft((prev) => ({ ...prev, startDate: '', count: 1 }));
+  };
+
+  const resetScenario = () => {
+    setDecisions({});
+    setNewHires([]);
+    setNumberOfAircraft(undefined);
+    setApplyScheduledRetirements(true);
+    setPendingCountsAsLeave(true);
+  };
+
+  const minimum =
+    rank === 'Captain'
+      ? result?.requirements.minimumCaptains
+      : result?.requirements.minimumFirstOfficers;
+  const rankRequests = (result?.leaveRequests || []).filter((request) => request.role === rank);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">What-If Crew Simulation</h2>
+          <p className="text-sm text-gray-600">
+            Toggle requests and fleet changes for {rosterPeriod}. Nothing is saved.
+          </p>
+        </div>
+        <button
+          onClick={resetScenario}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          Reset Scenario
+        </button>
+      </div>
+
+      {/* Scenario Controls */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Number of Aircraft</label>
+          <input
+            type="number"
+            min={0}
+            max={20}
+            value={numberOfAircraft ?? result?.baseline.requirements.numberOfAircraft ?? ''}
+            onChange={(e) =>
+              setNumberOfAircraft(e.target.value === '' ? undefined : Number(e.target.value))
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]"
+          />
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+          <input
+            type="checkbox"
+            checked={applyScheduledRetirements}
+            onChange={(e) => setApplyScheduledRetirements(e.target.checked)}
+          />
+          <span>Apply retirements due by retirement age</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+          <input
+            type="checkbox"
+            checked={pendingCountsAsLeave}
+            onChange={(e) => setPendingCountsAsLeave(e.target.checked)}
+          />
+          <span>Count undecided pending requests as leave</span>
+        </label>
+      </div>
+
+      {/* New Hires */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">New Hires</h3>
+        <div className="flex flex-wrap items-end gap-2">
+          <select
+            value={hireDraft.role}
+            onChange={(e) =>
+              setHireDraft((prev) => ({ ...prev, role: e.target.value as SimulationRank }))
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="Captain">Captain</option>
+            <option value="First Officer">First Officer</option>
+          </select>
+          <input
+            type="date"
+            value={hireDraft.startDate}
+            onChange={(e) => setHireDraft((prev) => ({ ...prev, startDate: e.target.value }))}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <input
+            type="number"
+            min={1}
+            value={hireDraft.count}
+            onChange={(e) => setHireDraft((prev) => ({ ...prev, count: Number(e.target.value) }))}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={addHire}
+            disabled={!hireDraft.startDate}
+            className="px-3 py-2 bg-[#4F46E5] text-white text-sm rounded-lg hover:bg-[#4338CA] disabled:opacity-50"
+          >
+            Add Hire
+          </button>
+        </div>
+        {newHires.length > 0 && (
+          <ul className="mt-2 space-y-1 text-sm text-gray-700">
+            {newHires.map((hire, index) => (
+              <li key={`${hire.role}-${hire.startDate}-${index}`} className="flex items-center">
+                <span>
+                  {hire.count} × {hire.role} from {format(parseISO(hire.startDate), 'dd MMM yyyy')}
+                </span>
+                <button
+                  onClick={() => setNewHires((prev) => prev.filter((_, i) => i !== index))}
+                  className="ml-2 text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div
+                className={`text-2xl font-bold ${result.summary.daysBelowMinimum > 0 ? 'text-red-600' : 'text-green-600'}`}
+              >
+                {result.summary.daysBelowMinimum}
+              </div>
+              <div className="text-sm text-gray-600">
+                Days below minimum (baseline {result.baseline.summary.daysBelowMinimum})
+              </div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-gray-900">
+                {result.summary.lowestCaptains} / {result.requirements.minimumCaptains}
+              </div>
+              <div className="text-sm text-gray-600">Lowest Captains / minimum</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-gray-900">
+                {result.summary.lowestFirstOfficers} / {result.requirements.minimumFirstOfficers}
+              </div>
+              <div className="text-sm text-gray-600">Lowest First Officers / minimum</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-gray-900">{result.retirements.length}</div>
+              <div className="text-sm text-gray-600">Retirements by period end</div>
+            </div>
+          </div>
+
+          {/* Availability Chart */}
+          <div>
+            <div className="flex items-center space-x-2 mb-3">
+              {(['Captain', 'First Officer'] as SimulationRank[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setRank(option)}
+                  className={`px-3 py-1 text-sm rounded-full border ${
+                    rank === option
+                      ? 'bg-[#4F46E5] text-white border-[#4F46E5]'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}s
+                </button>
+              ))}
+              {loading && <span className="text-sm text-gray-500">Updating...</span>}
+            </div>
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {minimum !== undefined && (
+                  <ReferenceLine
+                    y={minimum}
+                    stroke="#ef4444"
+                    strokeDasharray="6 3"
+                    label={{ value: `Minimum ${minimum}`, position: 'insideTopRight' }}
+                  />
+                )}
+                <Line
+                  type="stepAfter"
+                  dataKey="baseline"
+                  name="Current"
+                  stroke="#9ca3af"
+                  strokeDasharray="4 4"
+                  dot={false}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="scenario"
+                  name="Scenario"
+                  stroke="#4F46E5"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Request Toggles */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">
+              {rank} leave requests ({rankRequests.length})
+            </h3>
+            {rankRequests.length === 0 ? (
+              <p className="text-sm text-gray-500">No {rank} leave requests in this period.</p>
+            ) : (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {rankRequests.map((request) => (
+                  <div key={request.id} className="flex items-center justify-between px-4 py-2">
+                    <div className="text-sm">
+                      <span className="font-medium text-gray-900">{request.pilotName}</span>
+                      <span className="text-gray-500">
+                        {' '}
+                        · #{request.seniorityNumber ?? '-'} · {request.requestType} ·{' '}
+                        {format(parseISO(request.startDate), 'dd MMM')} -{' '}
+                        {format(parseISO(request.endDate), 'dd MMM')} · {request.status}
+                      </span>
+                    </div>
+                    <div className="flex space-x-1">
+                      {DECISION_OPTIONS.map((option) => {
+                        const selected = (decisions[request.id] || 'AS_IS') === option.value;
+                        return (
+                          <button
+                            key={option.value}
+                            onClick={() => setDecision(request.id, option.value)}
+                            className={`px-2 py-1 text-xs rounded border ${
+                              selected
+                                ? 'bg-[#4F46E5] text-white border-[#4F46E5]'
+                                : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {result.retirements.length > 0 && (
+            <div className="text-sm text-gray-600">
+              <h3 className="font-medium text-gray-900 mb-1">Retirements applied</h3>
+              <ul className="space-y-1">
+                {result.retirements.map((retirement) => (
+                  <li key={retirement.pilotId}>
+                    {retirement.name} ({retirement.role}) -{' '}
+                    {format(parseISO(retirement.date), 'dd MMM yyyy')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarPlus, Copy, RefreshCw, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import type { CalendarImportResult } from '@/lib/calendar-feed-service';
+
+const LEAVE_TYPES = ['ANNUAL', 'RDO', 'SDO', 'SICK', 'LSL', 'LWOP', 'MATERNITY', 'COMPASSIONATE'];
+
+const formatDate = (value: string) => format(parseISO(value), 'dd MMM yyyy');
+
+/**
+ * PilotCalendarSync Component
+ *
+ * Pilot portal calendar integration: a personal subscription URL for Outlook or
+ * Google Calendar, and import of an .ics file as pending leave requests (previewed
+ * before anything is submitted).
+ */
+export function PilotCalendarSync({ onImported }: { onImported: () => void }) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [content, setContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [defaultType, setDefaultType] = useState('ANNUAL');
+  const [preview, setPreview] = useState<CalendarImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/pilot/calendar-feed')
+      .then((response) => response.json())
+      .then((result) => result.success && setFeedUrl(result.data?.url || null))
+      .catch((err) => console.error('Error fetching calendar feed:', err));
+  }, []);
+
+  const request = async (url: string, init: RequestInit) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Request failed');
+    }
+    return result.data;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createFeed = () =>
+    (!feedUrl ||
+      confirm('Replace your calendar URL? Existing subscriptions will stop updating.')) &&
+    run(async () => {
+      const feed = await request('/api/pilot/calendar-feed', { method: 'POST' });
+      setFeedUrl(feed.url);
+    });
+
+  const copyUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const selectFile = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage(null);
+    setContent(file ? await file.text() : null);
+    setFileName(file?.name || '');
+  };
+
+  const runImport = (dryRun: boolean) =>
+    run(async () => {
+      const result: CalendarImportResult = await request('/api/pilot/leave/import', {
+        method: 'POST',
+        body: JSON.stringify({ content, default_type: defaultType, dry_run: dryRun }),
+      });
+
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+
+      setPreview(null);
+      setContent(null);
+      setFileName('');
+      setMessage(
+        `${result.created} leave request${result.created === 1 ? '' : 's'} submitted for approval`
+      );
+      onImported();
+    });
+
+  const importable = preview?.items.filter((item) => !item.skipped).length || 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-900 flex items-center">
+          <CalendarPlus className="w-5 h-5 mr-2 text-blue-600" />
+          Calendar
+        </h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Subscribe to your approved leave, check expiries, roster periods and flight requests in
+          Outlook or Google Calendar, or import leave from a calendar file.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+          {message}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        {feedUrl ? (
+          <>
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono bg-gray-50"
+            />
+            <button onClick={copyUrl} title="Copy URL" className="btn btn-secondary">
+              <Copy className="w-4 h-4" />
+            </button>
+            {copied && <span className="text-xs text-green-600">Copied</span>}
+            <button
+              onClick={createFeed}
+              disabled={busy}
+              title="Replace URL"
+              className="btn btn-secondary"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </>
+        ) : (
+          <button onClick={createFeed} disabled={busy} className="btn btn-primary">
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            Get Calendar URL
+          </button>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 pt-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Import Leave from Calendar</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="btn btn-secondary cursor-pointer">
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName || 'Choose .ics file'}
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-600">
+            Leave type when not named in the event
+            <select
+              value={defaultType}
+              onChange={(e) => {
+                setDefaultType(e.target.value);
+                setPreview(null);
+              }}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              {LEAVE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => runImport(true)}
+            disabled={!content || busy}
+            className="btn btn-secondary"
+          >
+            Preview
+          </button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <ul className="divide-y divide-gray-100 text-sm">
+              {preview.items.map((item, index) => (
+                <li key={index} className="py-2 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium text-gray-900">{item.summary}</div>
+                    <div className="text-xs text-gray-500">
+                      {item.request_type} · {formatDate(item.start_date)}
+                      {item.end_date !== item.start_date && ` - ${formatDate(item.end_date)}`}
+                    </div>
+                  </div>
+                  <span
+                    className={`text-xs ${item.skipped ? 'text-gray-500' : 'text-green-700 font-medium'}`}
+                  >
+                    {item.skipped || 'Will be requested'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {preview.issues.length > 0 && (
+              <p className="text-xs text-amber-700">{preview.issues.join('; ')}</p>
+            )}
+            <button
+              onClick={() => runImport(false)}
+              disabled={importable === 0 || busy}
+              className="btn btn-primary"
+            >
+              Submit {importable} Leave Request{importable === 1 ? '' : 's'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
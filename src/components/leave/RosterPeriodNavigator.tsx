@@ -9,10 +9,12 @@ import {
   getPreviousRosterPeriod,
   getFutureRosterPeriods,
   getNextRosterCountdown,
+  getRosterPeriodByCode,
   formatCountdown,
   RosterPeriod,
   RosterCountdown,
 } from '@/lib/roster-utils';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
 
 interface RosterPeriodNavigatorProps {
   currentPeriod: RosterPeriod;
@@ -29,6 +31,32 @@ export function RosterPeriodNavigator({
 }: RosterPeriodNavigatorProps) {
   const [countdown, setCountdown] = useState<RosterCountdown>(getNextRosterCountdown());
   const [futurePeriods, setFuturePeriods] = useState<RosterPeriod[]>([]);
+  const [calendarLoadedAt, setCalendarLoadedAt] = useState(0);
+
+  // Load the configured roster calendar and re-resolve the displayed period against it
+  useEffect(() => {
+    let cancelled = false;
+
+    loadRosterCalendar().then(() => {
+      if (cancelled) return;
+      setCalendarLoadedAt(Date.now());
+      setCountdown(getNextRosterCountdown());
+
+      const resolved = getRosterPeriodByCode(currentPeriod.code) || getCurrentRosterPeriod();
+      if (
+        resolved.code !== currentPeriod.code ||
+        resolved.startDate.getTime() !== currentPeriod.startDate.getTime() ||
+        resolved.endDate.getTime() !== currentPeriod.endDate.getTime()
+      ) {
+        onPeriodChange(resolved);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
 
   // Update countdown every second
   useEffect(() => {
@@ -43,7 +71,7 @@ export function RosterPeriodNavigator({
   useEffect(() => {
     const periods = getFutureRosterPeriods(6); // 6 months ahead
     setFuturePeriods(periods);
-  }, [currentPeriod]);
+  }, [currentPeriod, calendarLoadedAt]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -138,6 +166,10 @@ export function RosterPeriodNavigator({
                 remaining
               </p>
             )}
+            <p className="text-xs text-gray-500 mt-1">
+              Leave locks {format(currentPeriod.lockDate, 'MMM dd, yyyy')}
+              {currentPeriod.isStub && ' · Stub period'}
+            </p>
           </div>
 
           {/* Next button */}
@@ -247,7 +279,7 @@ export function RosterPeriodNavigator({
                       w-2 h-2 rounded-full
                       ${isActive ? 'bg-[#06B6D4]' : isCurrent ? 'bg-white' : 'bg-gray-400'}
                     `}
-                     />
+                    />
 
                     <div className="text-left">
                       <div className="font-semibold">{period.code}</div>
@@ -322,7 +354,7 @@ export function RosterPeriodNavigator({
         </div>
 
         <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-center">
-          <div className="text-2xl font-bold text-green-600">28</div>
+          <div className="text-2xl font-bold text-green-600">{currentPeriod.lengthDays}</div>
           <div className="text-xs text-green-600">Days in Period</div>
         </div>
 
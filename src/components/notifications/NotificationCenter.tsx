@@ -20,54 +20,48 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Bell, Check, AlertCircle, Calendar, Info, X } from 'lucide-react';
+import { Bell, Check, X } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from 'react-hot-toast';
-import { getSupabaseAdmin } from '@/lib/supabase-admin';
 import { supabase } from '@/lib/supabase';
+import { apiDelete, apiGet, apiPatch } from '@/lib/api-client';
+import { getNotificationColor, getNotificationType } from '@/lib/notification-catalogue';
+import type { InboxNotification } from '@/lib/notification-service';
+import NotificationIcon from '@/components/notifications/NotificationIcon';
 
-interface InAppNotification {
-  id: string;
-  title: string;
-  message: string;
-  notification_type: string;
-  action_url?: string;
-  icon: string;
-  is_read: boolean;
-  created_at: string;
-}
+const BADGE_CLASSES: Record<string, string> = {
+  red: 'bg-red-100 text-red-800',
+  orange: 'bg-orange-100 text-orange-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  green: 'bg-green-100 text-green-800',
+  blue: 'bg-blue-100 text-blue-800',
+  purple: 'bg-purple-100 text-purple-800',
+  pink: 'bg-pink-100 text-pink-800',
+  gray: 'bg-gray-100 text-gray-800',
+};
 
 export default function NotificationCenter() {
   const { user } = useAuth();
-  const [notifications, setNotifications] = useState<InAppNotification[]>([]);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [open, setOpen] = useState(false);
 
   useEffect(() => {
-    if (user) {
-      loadNotifications();
-      subscribeToNotifications();
-    }
+    if (!user) return undefined;
+
+    loadNotifications();
+    return subscribeToNotifications();
   }, [user]);
 
   const loadNotifications = async () => {
     try {
       setLoading(true);
 
-      const { data, error } = await supabase
-        .from('in_app_notifications')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false })
-        .limit(20);
-
-      if (error) {
-        throw error;
-      }
+      const result = await apiGet('/api/notifications?limit=20');
 
-      setNotifications(data || []);
-      setUnreadCount(data?.filter((n) => !n.is_read).length || 0);
+      setNotifications(result.data.notifications);
+      setUnreadCount(result.data.unreadCount);
     } catch (error) {
       console.error('Error loading notifications:', error);
     } finally {
@@ -77,17 +71,19 @@ export default function NotificationCenter() {
 
   const subscribeToNotifications = () => {
     const channel = supabase
-      .channel('in_app_notifications')
+      .channel('notifications')
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'in_app_notifications',
-          filter: `user_id=eq.${user?.id}`,
+          table: 'notifications',
+          filter: `recipient_id=eq.${user?.id}`,
         },
         (payload) => {
-          const newNotification = payload.new as InAppNotification;
+          const newNotification = payload.new as InboxNotification & { in_app: boolean };
+          if (!newNotification.in_app) return;
+
           setNotifications((prev) => [newNotification, ...prev]);
           setUnreadCount((prev) => prev + 1);
 
@@ -95,7 +91,9 @@ export default function NotificationCenter() {
           toast.custom(
             <div className="bg-white border border-gray-200 rounded-lg shadow-lg p-4 max-w-md">
               <div className="flex items-start gap-3">
-                <div className="flex-shrink-0">{getNotificationIcon(newNotification.icon)}</div>
+                <div className="flex-shrink-0 text-[#4F46E5]">
+                  <NotificationIcon type={newNotification.type} />
+                </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-semibold text-gray-900">{newNotification.title}</p>
                   <p className="text-sm text-gray-600 mt-1">{newNotification.message}</p>
@@ -115,15 +113,7 @@ export default function NotificationCenter() {
 
   const markAsRead = async (notificationId: string) => {
     try {
-      const { error } = await supabase
-        .from('in_app_notifications')
-        .update({ is_read: true })
-        .eq('id', notificationId)
-        .eq('user_id', user?.id);
-
-      if (error) {
-        throw error;
-      }
+      await apiPatch('/api/notifications', { ids: [notificationId] });
 
       setNotifications((prev) =>
         prev.map((n) => (n.id === notificationId ? { ...n, is_read: true } : n))
@@ -137,15 +127,7 @@ export default function NotificationCenter() {
 
   const markAllAsRead = async () => {
     try {
-      const { error } = await supabase
-        .from('in_app_notifications')
-        .update({ is_read: true })
-        .eq('user_id', user?.id)
-        .eq('is_read', false);
-
-      if (error) {
-        throw error;
-      }
+      await apiPatch('/api/notifications', {});
 
       setNotifications((prev) => prev.map((n) => ({ ...n, is_read: true })));
       setUnreadCount(0);
@@ -158,15 +140,7 @@ export default function NotificationCenter() {
 
   const deleteNotification = async (notificationId: string) => {
     try {
-      const { error } = await supabase
-        .from('in_app_notifications')
-        .delete()
-        .eq('id', notificationId)
-        .eq('user_id', user?.id);
-
-      if (error) {
-        throw error;
-      }
+      await apiDelete(`/api/notifications/${notificationId}`);
 
       const notification = notifications.find((n) => n.id === notificationId);
       if (notification && !notification.is_read) {
@@ -180,53 +154,18 @@ export default function NotificationCenter() {
     }
   };
 
-  const handleNotificationClick = (notification: InAppNotification) => {
+  const handleNotificationClick = (notification: InboxNotification) => {
     if (!notification.is_read) {
       markAsRead(notification.id);
     }
 
-    if (notification.action_url) {
-      window.location.href = notification.action_url;
+    if (notification.link) {
+      window.location.href = notification.link;
     }
 
     setOpen(false);
   };
 
-  const getNotificationIcon = (iconName: string) => {
-    const iconClass = 'h-5 w-5';
-
-    switch (iconName) {
-      case 'alert':
-        return <AlertCircle className={`${iconClass} text-red-500`} />;
-      case 'calendar':
-        return <Calendar className={`${iconClass} text-blue-500`} />;
-      case 'info':
-        return <Info className={`${iconClass} text-gray-500`} />;
-      case 'bell':
-      default:
-        return <Bell className={`${iconClass} text-[#4F46E5]`} />;
-    }
-  };
-
-  const getNotificationTypeColor = (type: string) => {
-    switch (type) {
-      case 'certification_expiry':
-        return 'bg-red-100 text-red-800';
-      case 'leave_request':
-        return 'bg-blue-100 text-blue-800';
-      case 'leave_approval':
-        return 'bg-green-100 text-green-800';
-      case 'warning':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'error':
-        return 'bg-red-100 text-red-800';
-      case 'info':
-      case 'system':
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   return (
     <DropdownMenu open={open} onOpenChange={setOpen}>
       <DropdownMenuTrigger asChild>
@@ -272,8 +211,8 @@ export default function NotificationCenter() {
                 onClick={() => handleNotificationClick(notification)}
               >
                 <div className="flex items-start gap-3">
-                  <div className="flex-shrink-0 mt-0.5">
-                    {getNotificationIcon(notification.icon)}
+                  <div className="flex-shrink-0 mt-0.5 text-[#4F46E5]">
+                    <NotificationIcon type={notification.type} />
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-start justify-between gap-2">
@@ -301,9 +240,10 @@ export default function NotificationCenter() {
                     <div className="flex items-center gap-2 mt-2">
                       <Badge
                         variant="secondary"
-                        className={`text-xs ${getNotificationTypeColor(notification.notification_type)}`}
+                        className={`text-xs ${BADGE_CLASSES[getNotificationColor(notification.type)] || BADGE_CLASSES.gray}`}
                       >
-                        {notification.notification_type.replace('_', ' ')}
+                        {getNotificationType(notification.type)?.label ??
+                          notification.type.replace(/_/g, ' ')}
                       </Badge>
                       <span className="text-xs text-gray-500">
                         {formatDistanceToNow(new Date(notification.created_at), {
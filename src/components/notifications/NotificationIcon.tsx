@@ -0,0 +1,51 @@
+/**
+ * Air Niugini B767 Pilot Management System
+ * Notification Icon Component
+ *
+ * The lucide icon the notification catalogue names for a notification type
+ */
+
+import {
+  AlertTriangle,
+  Bell,
+  Calendar,
+  CalendarX,
+  CheckCircle2,
+  Eye,
+  Flag,
+  Heart,
+  Info,
+  Megaphone,
+  MessageSquare,
+  Plane,
+  UserPlus,
+  XCircle,
+} from 'lucide-react';
+import { getNotificationIcon } from '@/lib/notification-catalogue';
+
+const ICONS: Record<string, typeof Bell> = {
+  'alert-triangle': AlertTriangle,
+  'calendar-plus': Calendar,
+  'calendar-x': CalendarX,
+  'check-circle': CheckCircle2,
+  'x-circle': XCircle,
+  eye: Eye,
+  plane: Plane,
+  'message-square': MessageSquare,
+  heart: Heart,
+  flag: Flag,
+  'user-plus': UserPlus,
+  megaphone: Megaphone,
+  info: Info,
+};
+
+export default function NotificationIcon({
+  type,
+  className = 'w-5 h-5',
+}: {
+  type: string;
+  className?: string;
+}) {
+  const Icon = ICONS[getNotificationIcon(type)] || Bell;
+  return <Icon className={className} />;
+}
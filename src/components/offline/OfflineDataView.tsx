@@ -4,12 +4,16 @@
  * OfflineDataView Component
  * Shows cached data when offline with clear indicators
  * Displays last updated timestamp and sync status
+ * Lists offline changes that conflict with newer edits for the user to resolve
  */
 
 import { useState, useEffect } from 'react';
-import { WifiOff, Clock, AlertTriangle, RefreshCw } from 'lucide-react';
+import { WifiOff, Clock, AlertTriangle, RefreshCw, GitMerge } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { formatDistanceToNow } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { getSyncQueue, resolveSyncConflict, type SyncQueueItem } from '@/lib/optimistic-updates';
+import { conflictingFields, type ConflictResolution, type FieldChoice } from '@/lib/offline-sync';
 
 interface OfflineDataViewProps {
   /** Data to display */
@@ -26,6 +30,8 @@ interface OfflineDataViewProps {
   emptyMessage?: string;
   /** Whether to show offline indicator */
   showOfflineIndicator?: boolean;
+  /** Whether to list offline changes that conflict with newer edits */
+  showConflicts?: boolean;
 }
 
 export function OfflineDataView({
@@ -36,8 +42,10 @@ export function OfflineDataView({
   onRetry,
   emptyMessage = 'No data available',
   showOfflineIndicator = true,
+  showConflicts = true,
 }: OfflineDataViewProps) {
   const [isOnline, setIsOnline] = useState(true);
+  const [conflicts, setConflicts] = useState<SyncQueueItem[]>([]);
 
   useEffect(() => {
     setIsOnline(navigator.onLine);
@@ -54,6 +62,21 @@ export function OfflineDataView({
     };
   }, []);
 
+  useEffect(() => {
+    if (!showConflicts) return;
+
+    const showQueue = (queue: SyncQueueItem[]) =>
+      setConflicts(queue.filter((item) => item.status === 'conflict'));
+    const handleQueueUpdate = (event: CustomEvent) => showQueue(event.detail.queue);
+
+    getSyncQueue().then(showQueue);
+    window.addEventListener('sync-queue-updated', handleQueueUpdate as EventListener);
+
+    return () => {
+      window.removeEventListener('sync-queue-updated', handleQueueUpdate as EventListener);
+    };
+  }, [showConflicts]);
+
   // Show offline banner if offline and showing indicator
   const showBanner = !isOnline && showOfflineIndicator;
 
@@ -94,6 +117,11 @@ export function OfflineDataView({
         </motion.div>
       )}
 
+      {/* Offline changes that conflict with newer edits */}
+      {conflicts.map((item) => (
+        <SyncConflictCard key={item.id} item={item} />
+      ))}
+
       {/* Last Updated Info (when online) */}
       {isOnline && lastUpdated && !isLoading && (
         <div className="flex items-center justify-between text-xs text-neutral-500 px-1">
@@ -157,6 +185,158 @@ export function OfflineDataView({
   );
 }
 
+const RESOURCE_LABELS: Record<SyncQueueItem['resource'], string> = {
+  pilot: 'pilot',
+  certification: 'certification',
+  leave: 'leave request',
+};
+
+function formatFieldName(field: string): string {
+  const label = field.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Sync Conflict Card
+ * Shows an offline change next to the newer server version of the record and
+ * lets the user keep theirs, keep the server's, or pick per field
+ */
+export function SyncConflictCard({ item }: { item: SyncQueueItem }) {
+  const queryClient = useQueryClient();
+  const [isMerging, setIsMerging] = useState(false);
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const fields = conflictingFields(item);
+  const server = item.conflict?.server ?? {};
+  const isDelete = item.operation === 'delete';
+  // For a delete, compare the record as it was deleted with the server's
+  const mine = isDelete ? (item.base ?? {}) : item.data;
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await resolveSyncConflict(queryClient, item.id, resolution, choices);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-orange-50 border-l-4 border-orange-400 p-4 rounded-r-lg space-y-3"
+    >
+      <div className="flex items-start gap-3">
+        <GitMerge className="w-5 h-5 text-orange-600 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <h4 className="text-sm font-semibold text-orange-900 mb-1">Conflicting Change</h4>
+          <p className="text-sm text-orange-800">
+            Your offline {item.operation} of this {RESOURCE_LABELS[item.resource]} was not applied
+            because someone else changed it
+            {item.conflict &&
+              ` ${formatDistanceToNow(item.conflict.detectedAt, { addSuffix: true })}`}
+            .
+          </p>
+        </div>
+      </div>
+
+      {fields.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-orange-900">
+              <th className="py-1 pr-2 font-semibold">Field</th>
+              <th className="py-1 pr-2 font-semibold">{isDelete ? 'When deleted' : 'Yours'}</th>
+              <th className="py-1 font-semibold">Server</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => (
+              <tr key={field} className="border-t border-orange-200 align-top">
+                <td className="py-1 pr-2 text-orange-900">{formatFieldName(field)}</td>
+                {(['mine', 'server'] as const).map((side) => (
+                  <td key={side} className="py-1 pr-2 text-neutral-800">
+                    {isMerging ? (
+                      <label className="flex items-start gap-1.5 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`${item.id}-${field}`}
+                          checked={(choices[field] ?? 'mine') === side}
+                          onChange={() => setChoices({ ...choices, [field]: side })}
+                          className="mt-0.5"
+                        />
+                        <span>
+                          {formatFieldValue(side === 'mine' ? mine[field] : server[field])}
+                        </span>
+                      </label>
+                    ) : (
+                      formatFieldValue(side === 'mine' ? mine[field] : server[field])
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {isMerging ? (
+          <>
+            <button
+              onClick={() => resolve('merge')}
+              disabled={isResolving}
+              className="px-3 py-1.5 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              Apply Merge
+            </button>
+            <button
+              onClick={() => setIsMerging(false)}
+              disabled={isResolving}
+              className="px-3 py-1.5 text-orange-800 hover:text-orange-900 text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => resolve('mine')}
+              disabled={isResolving}
+              className="px-3 py-1.5 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isDelete ? 'Delete Anyway' : 'Keep Mine'}
+            </button>
+            <button
+              onClick={() => resolve('server')}
+              disabled={isResolving}
+              className="px-3 py-1.5 bg-white border border-orange-300 hover:bg-orange-100 text-orange-800 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              Keep Server
+            </button>
+            {!isDelete && fields.length > 0 && (
+              <button
+                onClick={() => setIsMerging(true)}
+                disabled={isResolving}
+                className="px-3 py-1.5 bg-white border border-orange-300 hover:bg-orange-100 text-orange-800 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Merge Field by Field
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
 /**
  * Cached Data Badge
  * Shows when data is from cache
@@ -9,8 +9,15 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { RefreshCw, Upload, CheckCircle, AlertCircle, X } from 'lucide-react';
-import { getSyncQueue, processSyncQueue, type SyncQueueItem } from '@/lib/optimistic-updates';
+import {
+  getSyncQueue,
+  processSyncQueue,
+  removeFromSyncQueue,
+  retrySyncItem,
+  type SyncQueueItem,
+} from '@/lib/optimistic-updates';
 import { useQueryClient } from '@tanstack/react-query';
+import { SyncConflictCard } from './OfflineDataView';
 
 export function SyncIndicator() {
   const queryClient = useQueryClient();
@@ -20,7 +27,7 @@ export function SyncIndicator() {
 
   useEffect(() => {
     // Load initial queue
-    setQueue(getSyncQueue());
+    getSyncQueue().then(setQueue);
 
     // Listen for queue updates
     const handleQueueUpdate = (event: CustomEvent) => {
@@ -38,7 +45,7 @@ export function SyncIndicator() {
     setIsSyncing(true);
     try {
       await processSyncQueue(queryClient);
-      setQueue(getSyncQueue()); // Refresh queue
+      setQueue(await getSyncQueue()); // Refresh queue
     } catch (error) {
       console.error('Sync failed:', error);
     } finally {
@@ -49,6 +56,8 @@ export function SyncIndicator() {
   // Don't show if queue is empty
   if (queue.length === 0) return null;
 
+  const pendingCount = queue.filter((item) => item.status === 'pending').length;
+
   return (
     <>
       {/* Compact Indicator */}
@@ -108,32 +117,63 @@ export function SyncIndicator() {
 
               {/* Queue List */}
               <div className="flex-1 overflow-y-auto p-4 space-y-3">
-                {queue.map((item) => (
-                  <div
-                    key={item.id}
-                    className="bg-neutral-50 border border-neutral-200 rounded-lg p-3 space-y-2"
-                  >
-                    <div className="flex items-start justify-between gap-2">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 capitalize">
-                            {item.operation}
-                          </span>
-                          <span className="text-xs text-neutral-500">{item.resource}</span>
+                {queue.map((item) =>
+                  item.status === 'conflict' ? (
+                    <SyncConflictCard key={item.id} item={item} />
+                  ) : (
+                    <div
+                      key={item.id}
+                      className="bg-neutral-50 border border-neutral-200 rounded-lg p-3 space-y-2"
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                              {item.operation}
+                            </span>
+                            <span className="text-xs text-neutral-500">{item.resource}</span>
+                          </div>
+                          <p className="text-sm text-neutral-700">
+                            {getOperationDescription(item)}
+                          </p>
                         </div>
-                        <p className="text-sm text-neutral-700">{getOperationDescription(item)}</p>
+                        {item.status === 'failed' ? (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                            Failed
+                          </span>
+                        ) : (
+                          item.retryCount > 0 && (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                              Retry {item.retryCount}
+                            </span>
+                          )
+                        )}
+                      </div>
+                      {item.lastError && <p className="text-xs text-red-700">{item.lastError}</p>}
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-neutral-500">
+                          {new Date(item.timestamp).toLocaleString()}
+                        </p>
+                        {item.status === 'failed' && (
+                          <div className="flex items-center gap-3 text-xs font-medium">
+                            <button
+                              onClick={() => retrySyncItem(item.id)}
+                              className="text-[#4F46E5] hover:text-[#4338CA]"
+                            >
+                              Retry
+                            </button>
+                            <button
+                              onClick={() => removeFromSyncQueue(item.id)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Discard
+                            </button>
+                          </div>
+                        )}
                       </div>
-                      {item.retryCount > 0 && (
-                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
-                          Retry {item.retryCount}
-                        </span>
-                      )}
                     </div>
-                    <p className="text-xs text-neutral-500">
-                      {new Date(item.timestamp).toLocaleString()}
-                    </p>
-                  </div>
-                ))}
+                  )
+                )}
               </div>
 
               {/* Actions */}
@@ -149,7 +189,7 @@ export function SyncIndicator() {
 
                 <button
                   onClick={handleSync}
-                  disabled={isSyncing || !navigator.onLine}
+                  disabled={isSyncing || !navigator.onLine || pendingCount === 0}
                   className="w-full flex items-center justify-center gap-2 bg-[#4F46E5] text-white px-4 py-3 rounded-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed hover:bg-[#4338CA] transition-colors"
                 >
                   <RefreshCw className={`w-5 h-5 ${isSyncing ? 'animate-spin' : ''}`} />
@@ -174,16 +214,18 @@ export function SyncIndicator() {
  * Get a human-readable description of the operation
  */
 function getOperationDescription(item: SyncQueueItem): string {
-  const { operation, resource, data } = item;
+  const { operation, resource, data, base } = item;
+  const pilotName = (record?: Record<string, unknown> | null) =>
+    record?.first_name ? `${record.first_name} ${record.last_name ?? ''}`.trim() : item.recordId;
 
   switch (resource) {
     case 'pilot':
       if (operation === 'create') {
         return `Create new pilot: ${data.first_name} ${data.last_name}`;
       } else if (operation === 'update') {
-        return `Update pilot ${data.first_name || data.id}`;
+        return `Update pilot ${pilotName(data.first_name ? data : base)}`;
       } else if (operation === 'delete') {
-        return `Delete pilot ${data.id}`;
+        return `Delete pilot ${pilotName(base)}`;
       }
       break;
 
@@ -215,7 +257,7 @@ export function SyncBadge() {
 
   useEffect(() => {
     // Initial count
-    setQueueCount(getSyncQueue().length);
+    getSyncQueue().then((queue) => setQueueCount(queue.length));
 
     // Listen for queue updates
     const handleQueueUpdate = (event: CustomEvent) => {
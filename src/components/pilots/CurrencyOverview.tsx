@@ -0,0 +1,256 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
+import { apiGet, apiPatch, apiPost } from '@/lib/api-client';
+import { CURRENCY_EVENTS, type CurrencyEvent, type CurrencyRule } from '@/lib/pilot-currency';
+import type { CurrencyException } from '@/lib/pilot-currency-service';
+
+const STATUS_STYLES: Record<CurrencyException['status'], string> = {
+  EXPIRING: 'bg-amber-100 text-amber-800',
+  LAPSED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-red-100 text-red-800',
+};
+
+const EMPTY_RULE = {
+  code: '',
+  name: '',
+  event: 'LANDING' as CurrencyEvent,
+  required_count: 3,
+  period_days: 90,
+  applies_to_role: '',
+};
+
+/**
+ * CurrencyOverview Component
+ *
+ * Lapsed and expiring recency items and qualifications across active pilots, and the
+ * recency rules they are evaluated against (maintained by administrators).
+ */
+export function CurrencyOverview({ canManageRules }: { canManageRules: boolean }) {
+  const [exceptions, setExceptions] = useState<CurrencyException[] | null>(null);
+  const [rules, setRules] = useState<CurrencyRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [form, setForm] = useState(EMPTY_RULE);
+
+  const load = useCallback(async () => {
+    try {
+      setError(null);
+      const [exceptionsResponse, rulesResponse] = await Promise.all([
+        apiGet('/api/pilot-currency?view=exceptions'),
+        apiGet('/api/pilot-currency/rules'),
+      ]);
+      setExceptions(exceptionsResponse.data);
+      setRules(rulesResponse.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load currency data');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addRule = () =>
+    run(async () => {
+      await apiPost('/api/pilot-currency/rules', {
+        ...form,
+        applies_to_role: form.applies_to_role || null,
+      });
+      setForm(EMPTY_RULE);
+    });
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Lapsed &amp; Expiring</h2>
+          <p className="text-sm text-gray-600">
+            Recency lapses automatically once too few sectors remain in the period
+          </p>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Pilot</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Item</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Lapses / Expires</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {exceptions?.map((item) => (
+              <tr key={`${item.pilotId}-${item.kind}-${item.code}`}>
+                <td className="px-4 py-2">
+                  <Link
+                    href={`/dashboard/pilots/${item.pilotId}`}
+                    className="font-medium text-gray-900 hover:text-[#4F46E5]"
+                  >
+                    {item.name}
+                  </Link>
+                  <div className="text-xs text-gray-500">
+                    {item.employeeId} · {item.role}
+                  </div>
+                </td>
+                <td className="px-4 py-2 text-gray-700">{item.label}</td>
+                <td className="px-4 py-2 text-gray-700">
+                  {item.date
+                    ? format(parseISO(item.date.slice(0, 10)), 'dd MMM yyyy')
+                    : 'Never current'}
+                </td>
+                <td className="px-4 py-2">
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}
+                  >
+                    {item.status}
+                  </span>
+                </td>
+              </tr>
+            ))}
+            {exceptions?.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-gray-500">
+                  All pilots are current
+                </td>
+              </tr>
+            )}
+            {!exceptions && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-gray-500">
+                  Loading...
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Recency Rules</h2>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Code</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Requirement</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-700">Applies to</th>
+              {canManageRules && <th className="px-4 py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rules.map((rule) => (
+              <tr key={rule.id} className={rule.is_active ? '' : 'text-gray-400'}>
+                <td className="px-4 py-2 font-mono">{rule.code}</td>
+                <td className="px-4 py-2">
+                  {rule.name}: {rule.required_count} {rule.event.toLowerCase()}s in{' '}
+                  {rule.period_days} days
+                </td>
+                <td className="px-4 py-2">{rule.applies_to_role || 'All pilots'}</td>
+                {canManageRules && (
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() =>
+                        run(() =>
+                          apiPatch('/api/pilot-currency/rules', {
+                            id: rule.id,
+                            is_active: !rule.is_active,
+                          })
+                        )
+                      }
+                      disabled={busy}
+                      className="text-xs text-[#4F46E5] hover:underline disabled:opacity-50"
+                    >
+                      {rule.is_active ? 'Deactivate' : 'Activate'}
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {canManageRules && (
+          <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center gap-2 text-sm">
+            <input
+              value={form.code}
+              placeholder="Code"
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+              className={`${inputClass} w-24`}
+            />
+            <input
+              value={form.name}
+              placeholder="Name"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              min={1}
+              value={form.required_count}
+              onChange={(e) => setForm({ ...form, required_count: Number(e.target.value) })}
+              className={`${inputClass} w-16`}
+            />
+            <select
+              value={form.event}
+              onChange={(e) => setForm({ ...form, event: e.target.value as CurrencyEvent })}
+              className={inputClass}
+            >
+              {CURRENCY_EVENTS.map((event) => (
+                <option key={event} value={event}>
+                  {event.toLowerCase()}s
+                </option>
+              ))}
+            </select>
+            <span>in</span>
+            <input
+              type="number"
+              min={1}
+              value={form.period_days}
+              onChange={(e) => setForm({ ...form, period_days: Number(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+            <span>days for</span>
+            <select
+              value={form.applies_to_role}
+              onChange={(e) => setForm({ ...form, applies_to_role: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All pilots</option>
+              <option value="Captain">Captains</option>
+              <option value="First Officer">First Officers</option>
+            </select>
+            <button
+              onClick={addRule}
+              disabled={!form.code || !form.name || busy}
+              className="px-3 py-1 bg-[#4F46E5] text-white rounded hover:bg-[#4338CA] disabled:opacity-50"
+            >
+              Add Rule
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { createPilot, PilotFormData } from '@/lib/pilot-service-client';
+import { PilotFormData } from '@/lib/pilot-service-client';
+import { apiPost } from '@/lib/api-client';
 import { ModalSheet } from '@/components/ui/ModalSheet';
 
 interface PilotAddModalProps {
@@ -111,6 +112,8 @@ export function PilotAddModal({ isOpen, onClose, onSuccess }: PilotAddModalProps
     last_name: '',
     role: 'First Officer',
     contract_type: '',
+    base: '',
+    fleet: '',
     nationality: 'Papua New Guinea',
     passport_number: '',
     passport_expiry: '',
@@ -184,8 +187,8 @@ export function PilotAddModal({ isOpen, onClose, onSuccess }: PilotAddModalProps
     setLoading(true);
 
     try {
-      // Create pilot using the service - formData already has correct field names
-      await createPilot(formData);
+      // Create pilot through the API - formData already has correct field names
+      await apiPost('/api/pilots', formData);
 
       // Reset form
       setFormData({
@@ -195,6 +198,8 @@ export function PilotAddModal({ isOpen, onClose, onSuccess }: PilotAddModalProps
         last_name: '',
         role: 'First Officer',
         contract_type: '',
+        base: '',
+        fleet: '',
         nationality: 'Papua New Guinea',
         passport_number: '',
         passport_expiry: '',
@@ -334,6 +339,22 @@ export function PilotAddModal({ isOpen, onClose, onSuccess }: PilotAddModalProps
             />
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <FormField
+              label="Base"
+              name="base"
+              value={formData.base || ''}
+              onChange={(value) => updateFormData('base', value)}
+            />
+
+            <FormField
+              label="Fleet"
+              name="fleet"
+              value={formData.fleet || ''}
+              onChange={(value) => updateFormData('fleet', value)}
+            />
+          </div>
+
           <div className="mt-4">
             <FormField
               label="Active Pilot"
@@ -0,0 +1,260 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/api-client';
+import {
+  QUALIFICATION_TYPES,
+  type CurrencyStatus,
+  type QualificationStatus,
+  type QualificationType,
+} from '@/lib/pilot-currency';
+import type { PilotCurrencyProfile, PilotQualification } from '@/lib/pilot-currency-service';
+
+const STATUS_STYLES: Record<CurrencyStatus | QualificationStatus, string> = {
+  CURRENT: 'bg-green-100 text-green-800',
+  EXPIRING: 'bg-amber-100 text-amber-800',
+  LAPSED: 'bg-red-100 text-red-800',
+  EXPIRED: 'bg-red-100 text-red-800',
+};
+
+const EMPTY_QUALIFICATION = {
+  qualification_type: 'ROUTE' as QualificationType,
+  code: '',
+  qualified_date: '',
+  expiry_date: '',
+};
+
+const formatDate = (value: string | null) =>
+  value ? format(parseISO(value.slice(0, 10)), 'dd MMM yyyy') : '-';
+
+/**
+ * PilotCurrency Component
+ *
+ * Recency items derived from the pilot's logged sectors and route/aerodrome
+ * qualifications, with recording, renewal and removal of qualifications.
+ */
+export function PilotCurrency({ pilotId, canEdit }: { pilotId: string; canEdit: boolean }) {
+  const [profile, setProfile] = useState<PilotCurrencyProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [form, setForm] = useState(EMPTY_QUALIFICATION);
+  const [renewing, setRenewing] = useState<{ id: string; expiry: string } | null>(null);
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const response = await apiGet(`/api/pilot-currency?pilotId=${pilotId}`);
+      setProfile(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load currency');
+    }
+  }, [pilotId]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+      await loadProfile();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addQualification = () =>
+    run(async () => {
+      await apiPost('/api/pilot-currency', {
+        pilot_id: pilotId,
+        ...form,
+        expiry_date: form.expiry_date || null,
+      });
+      setForm(EMPTY_QUALIFICATION);
+    });
+
+  const renewQualification = (qualification: PilotQualification, expiry: string) =>
+    run(async () => {
+      await apiPatch('/api/pilot-currency', {
+        id: qualification.id,
+        qualified_date: format(new Date(), 'yyyy-MM-dd'),
+        expiry_date: expiry || null,
+      });
+      setRenewing(null);
+    });
+
+  const removeQualification = (qualification: PilotQualification) =>
+    confirm(`Remove the ${qualification.code} qualification?`) &&
+    run(() => apiDelete(`/api/pilot-currency?id=${qualification.id}`));
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold text-gray-900 flex items-center mb-6">
+        <span className="text-2xl mr-2">🛬</span>
+        Recency &amp; Qualifications
+      </h2>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!profile ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Recency</h3>
+            {profile.currency.length === 0 ? (
+              <p className="text-sm text-gray-500">No recency rules apply to this pilot.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {profile.currency.map((item) => (
+                  <li key={item.code} className="py-2 flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">{item.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {item.count}/{item.required} {item.event.toLowerCase()}s in{' '}
+                        {item.periodDays} days
+                        {item.validUntil && ` · valid until ${formatDate(item.validUntil)}`}
+                      </div>
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[item.status]}`}
+                    >
+                      {item.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg border border-gray-200 shadow-sm p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Route &amp; Aerodrome Qualifications
+            </h3>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {profile.qualifications.map((qualification) => (
+                <li key={qualification.id} className="py-2 flex items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {qualification.qualification_type === 'ROUTE' ? 'Route' : 'Aerodrome'}{' '}
+                      {qualification.code}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Qualified {formatDate(qualification.qualified_date)} · expires{' '}
+                      {qualification.expiry_date ? formatDate(qualification.expiry_date) : 'never'}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[qualification.status]}`}
+                    >
+                      {qualification.status}
+                    </span>
+                    {canEdit &&
+                      (renewing?.id === qualification.id ? (
+                        <>
+                          <input
+                            type="date"
+                            value={renewing.expiry}
+                            onChange={(e) =>
+                              setRenewing({ id: qualification.id, expiry: e.target.value })
+                            }
+                            className={inputClass}
+                          />
+                          <button
+                            onClick={() => renewQualification(qualification, renewing.expiry)}
+                            disabled={busy}
+                            className="text-xs text-[#4F46E5] hover:underline"
+                          >
+                            Save
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => setRenewing({ id: qualification.id, expiry: '' })}
+                            className="text-xs text-[#4F46E5] hover:underline"
+                          >
+                            Renew
+                          </button>
+                          <button
+                            onClick={() => removeQualification(qualification)}
+                            disabled={busy}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Remove
+                          </button>
+                        </>
+                      ))}
+                  </div>
+                </li>
+              ))}
+              {profile.qualifications.length === 0 && (
+                <li className="py-2 text-gray-500">No qualifications recorded.</li>
+              )}
+            </ul>
+
+            {canEdit && (
+              <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-end gap-2 text-sm">
+                <select
+                  value={form.qualification_type}
+                  onChange={(e) =>
+                    setForm({ ...form, qualification_type: e.target.value as QualificationType })
+                  }
+                  className={inputClass}
+                >
+                  {QUALIFICATION_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type === 'ROUTE' ? 'Route' : 'Aerodrome'}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={form.code}
+                  placeholder={form.qualification_type === 'ROUTE' ? 'POM-LAE' : 'AYTK'}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                  className={`${inputClass} w-28`}
+                />
+                <label className="text-xs text-gray-600">
+                  Qualified
+                  <input
+                    type="date"
+                    value={form.qualified_date}
+                    onChange={(e) => setForm({ ...form, qualified_date: e.target.value })}
+                    className={`${inputClass} block`}
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Expires
+                  <input
+                    type="date"
+                    value={form.expiry_date}
+                    onChange={(e) => setForm({ ...form, expiry_date: e.target.value })}
+                    className={`${inputClass} block`}
+                  />
+                </label>
+                <button
+                  onClick={addQualification}
+                  disabled={!form.code || !form.qualified_date || busy}
+                  className="px-3 py-1 bg-[#4F46E5] text-white rounded hover:bg-[#4338CA] disabled:opacity-50"
+                >
+                  Add
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   getPilotById,
   updatePilot,
   checkEmployeeIdExists,
   PilotFormData,
   calculateSeniorityNumber,
+  pilotUpdateFields,
 } from '@/lib/pilot-service-client';
+import { optimisticPilotUpdate } from '@/lib/optimistic-updates';
 import { ModalSheet } from '@/components/ui/ModalSheet';
 import { format } from 'date-fns';
 
@@ -116,6 +119,7 @@ function FormField({
 }
 
 export function PilotEditModal({ isOpen, onClose, onSuccess, pilotId }: PilotEditModalProps) {
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -129,6 +133,8 @@ export function PilotEditModal({ isOpen, onClose, onSuccess, pilotId }: PilotEdi
     last_name: '',
     role: 'First Officer',
     contract_type: '',
+    base: '',
+    fleet: '',
     nationality: 'Papua New Guinea',
     passport_number: '',
     passport_expiry: '',
@@ -184,6 +190,8 @@ export function PilotEditModal({ isOpen, onClose, onSuccess, pilotId }: PilotEdi
         last_name: pilotData.last_name || '',
         role: pilotData.role || 'First Officer',
         contract_type: pilotData.contract_type || '',
+        base: pilotData.base || '',
+        fleet: pilotData.fleet || '',
         nationality: pilotData.nationality || 'Papua New Guinea',
         passport_number: pilotData.passport_number || '',
         passport_expiry: formatDate(pilotData.passport_expiry),
@@ -320,7 +328,14 @@ export function PilotEditModal({ isOpen, onClose, onSuccess, pilotId }: PilotEdi
 
     try {
       console.log('🔧 PilotEditModal: Calling updatePilot with:', { pilotId, formData });
-      await updatePilot(pilotId, formData);
+      // Offline, the change is queued against the version loaded into the form
+      await optimisticPilotUpdate(
+        queryClient,
+        pilotId,
+        () => updatePilot(pilotId, formData, pilot?.updated_at),
+        pilotUpdateFields(formData),
+        pilot
+      );
 
       console.log('🔧 PilotEditModal: Update successful, calling success callback');
       // Call success callback BEFORE closing to ensure it executes
@@ -352,6 +367,8 @@ export function PilotEditModal({ isOpen, onClose, onSuccess, pilotId }: PilotEdi
         last_name: '',
         role: 'First Officer',
         contract_type: '',
+        base: '',
+        fleet: '',
         nationality: 'Papua New Guinea',
         passport_number: '',
         passport_expiry: '',
@@ -497,6 +514,24 @@ export function PilotEditModal({ isOpen, onClose, onSuccess, pilotId }: PilotEdi
               />
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+              <FormField
+                label="Base"
+                name="base"
+                value={formData.base || ''}
+                onChange={(value) => updateFormData('base', value)}
+                placeholder="e.g. POM"
+              />
+
+              <FormField
+                label="Fleet"
+                name="fleet"
+                value={formData.fleet || ''}
+                onChange={(value) => updateFormData('fleet', value)}
+                placeholder="e.g. B767"
+              />
+            </div>
+
             <div className="mt-4">
               <FormField
                 label="Active Pilot"
@@ -0,0 +1,322 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { authenticatedFetch } from '@/lib/api-client';
+import { UPGRADE_STAGES, UPGRADE_STAGE_LABELS, canPromote } from '@/lib/upgrade-pipeline';
+import type {
+  UpgradePipeline as UpgradePipelineData,
+  UpgradePipelineEntry,
+  UpgradePipelineEvent,
+} from '@/lib/upgrade-pipeline-service';
+
+const EVENT_LABELS: Record<UpgradePipelineEvent['event_type'], string> = {
+  NOMINATED: 'Nominated',
+  STAGE_ADVANCED: 'Stage advanced',
+  HOURS_UPDATED: 'Flight hours updated',
+  WITHDRAWN: 'Withdrawn',
+  PROMOTED: 'Promoted',
+};
+
+/**
+ * UpgradePipeline Component
+ *
+ * Seniority-ordered upgrade candidates per rank with their eligibility against the
+ * upgrade criteria, training stage and audit trail, and the nominate / advance /
+ * withdraw / promote actions.
+ */
+export function UpgradePipeline({ canEdit }: { canEdit: boolean }) {
+  const [pipeline, setPipeline] = useState<UpgradePipelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [showEligibleOnly, setShowEligibleOnly] = useState(false);
+  const [hoursInput, setHoursInput] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<{ candidateId: string; events: UpgradePipelineEvent[] }>();
+
+  const loadPipeline = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await authenticatedFetch('/api/upgrade-pipeline');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load upgrade pipeline');
+      }
+      setPipeline(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load upgrade pipeline');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPipeline();
+  }, [loadPipeline]);
+
+  const runAction = async (key: string, url: string, method: string, body: object) => {
+    try {
+      setBusy(key);
+      setError(null);
+      const response = await authenticatedFetch(url, { method, body: JSON.stringify(body) });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Action failed');
+      }
+      setHistory(undefined);
+      await loadPipeline();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleHistory = async (candidateId: string) => {
+    if (history?.candidateId === candidateId) {
+      setHistory(undefined);
+      return;
+    }
+    const response = await authenticatedFetch(`/api/upgrade-pipeline?candidateId=${candidateId}`);
+    const data = await response.json();
+    if (response.ok && data.success) {
+      setHistory({ candidateId, events: data.data });
+    } else {
+      setError(data.error || 'Failed to load audit trail');
+    }
+  };
+
+  const renderActions = (entry: UpgradePipelineEntry) => {
+    const { candidate, pilot } = entry;
+
+    if (!candidate) {
+      const hours = hoursInput[pilot.id] || '';
+      return (
+        <div className="flex items-center justify-end space-x-2">
+          <input
+            type="number"
+            min={0}
+            placeholder="Flight hours"
+            value={hours}
+            onChange={(e) => setHoursInput((prev) => ({ ...prev, [pilot.id]: e.target.value }))}
+            className="w-28 px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={() =>
+              runAction(pilot.id, '/api/upgrade-pipeline', 'POST', {
+                pilotId: pilot.id,
+                flightHours: Number(hours),
+              })
+            }
+            disabled={!hours || busy !== null}
+            className="px-3 py-1 bg-[#4F46E5] text-white text-sm rounded hover:bg-[#4338CA] disabled:opacity-50"
+          >
+            Nominate
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center justify-end space-x-2">
+        {canPromote(candidate) ? (
+          <button
+            onClick={() =>
+              confirm(`Promote ${pilot.name} to ${candidate.to_role}?`) &&
+              runAction(candidate.id, '/api/upgrade-pipeline/promote', 'POST', {
+                candidateId: candidate.id,
+              })
+            }
+            disabled={busy !== null}
+            className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:opacity-50"
+          >
+            Promote
+          </button>
+        ) : (
+          <button
+            onClick={() =>
+              runAction(candidate.id, '/api/upgrade-pipeline', 'PATCH', {
+                action: 'advance',
+                candidateId: candidate.id,
+              })
+            }
+            disabled={busy !== null}
+            className="px-3 py-1 bg-[#4F46E5] text-white text-sm rounded hover:bg-[#4338CA] disabled:opacity-50"
+          >
+            Advance
+          </button>
+        )}
+        <button
+          onClick={() =>
+            confirm(`Withdraw ${pilot.name} from the upgrade pipeline?`) &&
+            runAction(candidate.id, '/api/upgrade-pipeline', 'PATCH', {
+              action: 'withdraw',
+              candidateId: candidate.id,
+            })
+          }
+          disabled={busy !== null}
+          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Withdraw
+        </button>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 text-gray-600">
+        Loading upgrade pipeline...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {pipeline && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center justify-between gap-3 text-sm text-gray-700">
+          <div>
+            Criteria: {pipeline.criteria.minYearsInService}+ years in service ·{' '}
+            {pipeline.criteria.minFlightHours}+ flight hours ·{' '}
+            {pipeline.criteria.requiredCheckCodes.length > 0
+              ? `${pipeline.criteria.requiredCheckCodes.join(', ')} current`
+              : 'all checks current'}
+          </div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={showEligibleOnly}
+              onChange={(e) => setShowEligibleOnly(e.target.checked)}
+            />
+            <span>Hide pilots not meeting service and check criteria</span>
+          </label>
+        </div>
+      )}
+
+      {pipeline?.ranks.map((rank) => {
+        const entries = rank.pilots.filter(
+          (entry) =>
+            !showEligibleOnly ||
+            entry.candidate ||
+            entry.eligibility.criteria.every((c) => c.met || c.key === 'flight_hours')
+        );
+
+        return (
+          <div
+            key={rank.rank}
+            className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden"
+          >
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {rank.rank} → {rank.targetRank}
+              </h2>
+              <p className="text-sm text-gray-600">
+                {rank.pilots.filter((entry) => entry.candidate).length} in pipeline · seniority
+                order
+              </p>
+            </div>
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Seniority</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Pilot</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Eligibility</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Stage</th>
+                  {canEdit && <th className="px-4 py-2" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => {
+                  const { pilot, candidate, eligibility } = entry;
+                  const stageIndex = candidate ? UPGRADE_STAGES.indexOf(candidate.stage) : -1;
+
+                  return (
+                    <Fragment key={pilot.id}>
+                      <tr>
+                        <td className="px-4 py-2 text-gray-900">#{pilot.seniorityNumber ?? '-'}</td>
+                        <td className="px-4 py-2">
+                          <div className="font-medium text-gray-900">{pilot.name}</div>
+                          <div className="text-xs text-gray-500">{pilot.employeeId}</div>
+                        </td>
+                        <td className="px-4 py-2">
+                          <ul className="space-y-0.5">
+                            {eligibility.criteria.map((criterion) => (
+                              <li
+                                key={criterion.key}
+                                className={criterion.met ? 'text-green-700' : 'text-red-600'}
+                                title={criterion.label}
+                              >
+                                {criterion.met ? '✓' : '✗'} {criterion.detail}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                        <td className="px-4 py-2">
+                          {candidate ? (
+                            <div className="space-y-1">
+                              <div className="flex space-x-1">
+                                {UPGRADE_STAGES.map((stage, index) => (
+                                  <span
+                                    key={stage}
+                                    title={UPGRADE_STAGE_LABELS[stage]}
+                                    className={`h-2 w-6 rounded ${
+                                      index <= stageIndex ? 'bg-[#4F46E5]' : 'bg-gray-200'
+                                    }`}
+                                  />
+                                ))}
+                              </div>
+                              <button
+                                onClick={() => toggleHistory(candidate.id)}
+                                className="text-xs text-[#4F46E5] hover:underline"
+                              >
+                                {UPGRADE_STAGE_LABELS[candidate.stage]} · audit trail
+                              </button>
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">Not nominated</span>
+                          )}
+                        </td>
+                        {canEdit && <td className="px-4 py-2">{renderActions(entry)}</td>}
+                      </tr>
+                      {candidate && history?.candidateId === candidate.id && (
+                        <tr>
+                          <td colSpan={canEdit ? 5 : 4} className="px-4 py-3 bg-gray-50">
+                            <ul className="space-y-1 text-xs text-gray-700">
+                              {history.events.map((event) => (
+                                <li key={event.id}>
+                                  {format(parseISO(event.created_at), 'dd MMM yyyy HH:mm')} ·{' '}
+                                  {EVENT_LABELS[event.event_type]}
+                                  {event.to_stage &&
+                                    ` → ${UPGRADE_STAGE_LABELS[event.to_stage as keyof typeof UPGRADE_STAGE_LABELS] || event.to_stage}`}
+                                  {event.performed_by_user && ` · ${event.performed_by_user.name}`}
+                                  {event.notes && ` · ${event.notes}`}
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+                {entries.length === 0 && (
+                  <tr>
+                    <td colSpan={canEdit ? 5 : 4} className="px-4 py-6 text-center text-gray-500">
+                      No pilots to show
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
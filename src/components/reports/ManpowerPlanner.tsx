@@ -0,0 +1,386 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { authenticatedFetch } from '@/lib/api-client';
+import { unifiedExportService } from '@/lib/unified-export-service';
+import {
+  MANPOWER_CATEGORY_LABELS,
+  type ManpowerCategory,
+  type ManpowerProjection,
+  type PlannedFleetChange,
+  type PlannedHire,
+  type PlannedUpgrade,
+} from '@/lib/manpower-planning';
+
+const HORIZON_OPTIONS = [5, 6, 7, 8, 9, 10];
+
+/**
+ * ManpowerPlanner Component
+ *
+ * Builds a plan of hires, FO→Captain upgrades and fleet changes and shows the projected
+ * crew position per category against requirements, with the shortfall windows.
+ * Nothing is saved - the projection is recalculated from current pilot data each time.
+ */
+export function ManpowerPlanner() {
+  const [years, setYears] = useState(5);
+  const [hires, setHires] = useState<PlannedHire[]>([]);
+  const [upgrades, setUpgrades] = useState<PlannedUpgrade[]>([]);
+  const [fleetChanges, setFleetChanges] = useState<PlannedFleetChange[]>([]);
+  const [hireDraft, setHireDraft] = useState<PlannedHire>({
+    month: '',
+    role: 'First Officer',
+    count: 1,
+  });
+  const [upgradeDraft, setUpgradeDraft] = useState<PlannedUpgrade>({ month: '', count: 1 });
+  const [fleetDraft, setFleetDraft] = useState<PlannedFleetChange>({
+    month: '',
+    numberOfAircraft: 2,
+  });
+  const [category, setCategory] = useState<ManpowerCategory>('captains');
+  const [projection, setProjection] = useState<ManpowerProjection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const runProjection = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await authenticatedFetch('/api/manpower-planning', {
+          method: 'POST',
+          body: JSON.stringify({ years, hires, upgrades, fleetChanges }),
+        });
+
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to project manpower');
+        }
+
+        if (!cancelled) setProjection(data.data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to project manpower');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    const timer = setTimeout(runProjection, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [years, hires, upgrades, fleetChanges]);
+
+  const chartData = useMemo(
+    () =>
+      (projection?.months || []).map((month) => ({
+        month: month.month,
+        available: month[category].available,
+        required: month[category].required,
+      })),
+    [projection, category]
+  );
+
+  const plannedItems = [
+    ...hires.map((hire, index) => ({
+      key: `hire-${index}`,
+      label: `${hire.month}: hire ${hire.count} × ${hire.role}`,
+      remove: () => setHires((prev) => prev.filter((_, i) => i !== index)),
+    })),
+    ...upgrades.map((upgrade, index) => ({
+      key: `upgrade-${index}`,
+      label: `${upgrade.month}: upgrade ${upgrade.count} First Officer(s) by seniority`,
+      remove: () => setUpgrades((prev) => prev.filter((_, i) => i !== index)),
+    })),
+    ...fleetChanges.map((change, index) => ({
+      key: `fleet-${index}`,
+      label: `${change.month}: fleet of ${change.numberOfAircraft} aircraft`,
+      remove: () => setFleetChanges((prev) => prev.filter((_, i) => i !== index)),
+    })),
+  ].sort((a, b) => a.label.localeCompare(b.label));
+
+  const exportSuffix = format(new Date(), 'yyyy-MM-dd');
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm';
+  const addButtonClass =
+    'px-3 py-2 bg-[#4F46E5] text-white text-sm rounded-lg hover:bg-[#4338CA] disabled:opacity-50';
+
+  return (
+    <div className="space-y-6">
+      {/* Plan */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Plan</h2>
+            <p className="text-sm text-gray-600">
+              Retirements are applied automatically from each pilot&apos;s date of birth.
+            </p>
+          </div>
+          <select
+            value={years}
+            onChange={(e) => setYears(Number(e.target.value))}
+            className={inputClass}
+          >
+            {HORIZON_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} years
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Hires</h3>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="month"
+                value={hireDraft.month}
+                onChange={(e) => setHireDraft((prev) => ({ ...prev, month: e.target.value }))}
+                className={inputClass}
+              />
+              <select
+                value={hireDraft.role}
+                onChange={(e) =>
+                  setHireDraft((prev) => ({ ...prev, role: e.target.value as PlannedHire['role'] }))
+                }
+                className={inputClass}
+              >
+                <option value="Captain">Captain</option>
+                <option value="First Officer">First Officer</option>
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={hireDraft.count}
+                onChange={(e) =>
+                  setHireDraft((prev) => ({ ...prev, count: Number(e.target.value) }))
+                }
+                className={`w-20 ${inputClass}`}
+              />
+              <button
+                onClick={() => setHires((prev) => [...prev, hireDraft])}
+                disabled={!hireDraft.month || hireDraft.count < 1}
+                className={addButtonClass}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">FO → Captain Upgrades</h3>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="month"
+                value={upgradeDraft.month}
+                onChange={(e) => setUpgradeDraft((prev) => ({ ...prev, month: e.target.value }))}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={1}
+                value={upgradeDraft.count}
+                onChange={(e) =>
+                  setUpgradeDraft((prev) => ({ ...prev, count: Number(e.target.value) }))
+                }
+                className={`w-20 ${inputClass}`}
+              />
+              <button
+                onClick={() => setUpgrades((prev) => [...prev, upgradeDraft])}
+                disabled={!upgradeDraft.month || upgradeDraft.count < 1}
+                className={addButtonClass}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Fleet Changes</h3>
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="month"
+                value={fleetDraft.month}
+                onChange={(e) => setFleetDraft((prev) => ({ ...prev, month: e.target.value }))}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={0}
+                max={20}
+                value={fleetDraft.numberOfAircraft}
+                onChange={(e) =>
+                  setFleetDraft((prev) => ({ ...prev, numberOfAircraft: Number(e.target.value) }))
+                }
+                className={`w-20 ${inputClass}`}
+              />
+              <button
+                onClick={() => setFleetChanges((prev) => [...prev, fleetDraft])}
+                disabled={!fleetDraft.month}
+                className={addButtonClass}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {plannedItems.length > 0 && (
+          <ul className="space-y-1 text-sm text-gray-700">
+            {plannedItems.map((item) => (
+              <li key={item.key} className="flex items-center">
+                <span>{item.label}</span>
+                <button onClick={item.remove} className="ml-2 text-red-600 hover:text-red-800">
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {projection && (
+        <>
+          {/* Projection Chart */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              {(Object.keys(MANPOWER_CATEGORY_LABELS) as ManpowerCategory[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setCategory(option)}
+                  className={`px-3 py-1 text-sm rounded-full border ${
+                    category === option
+                      ? 'bg-[#4F46E5] text-white border-[#4F46E5]'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {MANPOWER_CATEGORY_LABELS[option]}
+                </button>
+              ))}
+              {loading && <span className="text-sm text-gray-500">Updating...</span>}
+            </div>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line
+                  type="stepAfter"
+                  dataKey="required"
+                  name="Required"
+                  stroke="#ef4444"
+                  strokeDasharray="6 3"
+                  dot={false}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="available"
+                  name="Available"
+                  stroke="#4F46E5"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Shortfall Report */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Shortfall Report</h2>
+                <p className="text-sm text-gray-600">
+                  {projection.startMonth} to {projection.endMonth} ·{' '}
+                  {projection.summary.retirements} retirements · {projection.summary.hires} hires ·{' '}
+                  {projection.summary.upgrades} upgrades
+                  {projection.summary.unfilledUpgrades > 0 &&
+                    ` (${projection.summary.unfilledUpgrades} unfilled)`}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() =>
+                    unifiedExportService.exportManpowerShortfalls(projection.shortfalls, {
+                      filename: `manpower_shortfalls_${exportSuffix}.csv`,
+                      includeTimestamp: false,
+                    })
+                  }
+                  disabled={projection.shortfalls.length === 0}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Export Shortfalls
+                </button>
+                <button
+                  onClick={() =>
+                    unifiedExportService.exportManpowerProjection(projection.months, {
+                      filename: `manpower_projection_${exportSuffix}.csv`,
+                      includeTimestamp: false,
+                    })
+                  }
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Export Projection
+                </button>
+              </div>
+            </div>
+
+            {projection.shortfalls.length === 0 ? (
+              <p className="text-sm text-green-700">
+                Requirements are met in every month of the horizon.
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">Category</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">From</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">To</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-700">Months</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-700">
+                      Worst Shortfall
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {projection.shortfalls.map((window) => (
+                    <tr key={`${window.category}-${window.from}`}>
+                      <td className="px-4 py-2">{MANPOWER_CATEGORY_LABELS[window.category]}</td>
+                      <td className="px-4 py-2">{window.from}</td>
+                      <td className="px-4 py-2">{window.to}</td>
+                      <td className="px-4 py-2 text-right">{window.months}</td>
+                      <td className="px-4 py-2 text-right text-red-600 font-medium">
+                        {window.worstShortfall}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
   type PilotWithRetirement,
 } from '@/lib/retirement-utils';
 import { Printer, Download, Eye, Calendar, User, Clock } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface RetirementReportModalProps {
   isOpen: boolean;
@@ -37,7 +38,7 @@ export function RetirementReportModal({ isOpen, onClose }: RetirementReportModal
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch('/api/retirement');
+      const response = await authenticatedFetch('/api/retirement');
       if (!response.ok) {
         throw new Error('Failed to fetch retirement data');
       }
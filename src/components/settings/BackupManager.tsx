@@ -0,0 +1,429 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { apiDelete, apiGet, apiPost, apiPut } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, AlertTriangle, HardDrive, RefreshCw } from 'lucide-react';
+import type { BackupPolicy } from '@/lib/backup-archive';
+import type { Backup, RestoreSummary } from '@/lib/backup-service';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const STATUS_VARIANTS: Record<Backup['status'], 'success' | 'info' | 'destructive'> = {
+  completed: 'success',
+  running: 'info',
+  failed: 'destructive',
+};
+
+function formatBackupSize(bytes: number | null): string {
+  if (bytes === null) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const totalRecords = (backup: Backup) =>
+  Object.values(backup.record_counts || {}).reduce((sum, count) => sum + count, 0);
+
+/**
+ * BackupManager Component
+ *
+ * Lists backups with verification status, takes manual backups, edits the
+ * schedule and retention policy, and runs dry-run diffs before selective restores.
+ */
+export function BackupManager() {
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [policy, setPolicy] = useState<BackupPolicy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [description, setDescription] = useState('');
+  const [restoring, setRestoring] = useState<Backup | null>(null);
+  const [restoreTables, setRestoreTables] = useState<string[]>([]);
+  const [restorePilotId, setRestorePilotId] = useState('');
+  const [plan, setPlan] = useState<RestoreSummary | null>(null);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      const [backupsResponse, policyResponse] = await Promise.all([
+        apiGet('/api/backups'),
+        apiGet('/api/backups/policy'),
+      ]);
+      setBackups(backupsResponse.data.backups);
+      setPolicy(policyResponse.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load backups');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+      await loadBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createBackup = () =>
+    run(async () => {
+      await apiPost('/api/backups', { description: description || null });
+      setDescription('');
+    });
+
+  const verifyBackup = (backup: Backup) =>
+    run(() => apiPost('/api/backups/verify', { id: backup.id }));
+
+  const deleteBackup = (backup: Backup) =>
+    confirm(
+      `Delete the backup from ${format(new Date(backup.created_at), 'dd MMM yyyy HH:mm')}?`
+    ) && run(() => apiDelete(`/api/backups?id=${backup.id}`));
+
+  const savePolicy = () => policy && run(() => apiPut('/api/backups/policy', policy));
+
+  const openRestore = (backup: Backup) => {
+    setRestoring(backup);
+    setRestoreTables([]);
+    setRestorePilotId('');
+    setPlan(null);
+  };
+
+  const restoreRequest = (dryRun: boolean) => ({
+    id: restoring!.id,
+    tables: restoreTables.length > 0 ? restoreTables : undefined,
+    pilotId: restorePilotId || undefined,
+    dryRun,
+  });
+
+  const dryRun = () =>
+    run(async () => {
+      const response = await apiPost('/api/backups/restore', restoreRequest(true));
+      setPlan(response.data);
+    });
+
+  const restore = () => {
+    const changes = plan!.tables.reduce((sum, table) => sum + table.insert + table.update, 0);
+    if (!confirm(`Write ${changes} records from this backup into the live database?`)) return;
+
+    run(async () => {
+      const response = await apiPost('/api/backups/restore', restoreRequest(false));
+      setPlan(response.data);
+    });
+  };
+
+  const toggleTable = (table: string) =>
+    setRestoreTables((current) =>
+      current.includes(table) ? current.filter((t) => t !== table) : [...current, table]
+    );
+
+  const inputClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Manual Backup</CardTitle>
+            <CardDescription>Archive every table to storage now</CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-2">
+            <input
+              value={description}
+              placeholder="Description (optional)"
+              onChange={(e) => setDescription(e.target.value)}
+              className={`${inputClass} flex-1`}
+            />
+            <Button onClick={createBackup} disabled={busy} size="sm">
+              <HardDrive className="h-4 w-4 mr-2" />
+              Back Up Now
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedule &amp; Retention</CardTitle>
+            <CardDescription>
+              Scheduled backups are kept daily, weekly and monthly; manual backups until deleted
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!policy ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : (
+              <div className="flex flex-wrap items-end gap-3 text-sm">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={policy.enabled}
+                    onChange={(e) => setPolicy({ ...policy, enabled: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+                <select
+                  value={policy.frequency}
+                  onChange={(e) =>
+                    setPolicy({ ...policy, frequency: e.target.value as BackupPolicy['frequency'] })
+                  }
+                  className={inputClass}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+                {policy.frequency === 'weekly' && (
+                  <select
+                    value={policy.weekday}
+                    onChange={(e) => setPolicy({ ...policy, weekday: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {WEEKDAYS.map((day, index) => (
+                      <option key={day} value={index}>
+                        {day}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <label className="text-xs text-gray-600">
+                  Hour (UTC)
+                  <input
+                    type="number"
+                    min={0}
+                    max={23}
+                    value={policy.hourUtc}
+                    onChange={(e) => setPolicy({ ...policy, hourUtc: Number(e.target.value) })}
+                    className={`${inputClass} block w-20`}
+                  />
+                </label>
+                {(['daily', 'weekly', 'monthly'] as const).map((window) => (
+                  <label key={window} className="text-xs text-gray-600 capitalize">
+                    Keep {window}
+                    <input
+                      type="number"
+                      min={window === 'daily' ? 1 : 0}
+                      value={policy.retention[window]}
+                      onChange={(e) =>
+                        setPolicy({
+                          ...policy,
+                          retention: { ...policy.retention, [window]: Number(e.target.value) },
+                        })
+                      }
+                      className={`${inputClass} block w-20`}
+                    />
+                  </label>
+                ))}
+                <Button onClick={savePolicy} disabled={busy} size="sm" variant="outline">
+                  Save
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Backups</CardTitle>
+            <CardDescription>Checksummed archives, newest first</CardDescription>
+          </div>
+          <Button onClick={() => run(async () => {})} disabled={busy} size="sm" variant="outline">
+            <RefreshCw className={`h-4 w-4 ${busy ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {backups.length === 0 ? (
+            <p className="text-sm text-gray-500">No backups yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {backups.map((backup) => (
+                <li key={backup.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 font-medium text-gray-900">
+                      {format(new Date(backup.created_at), 'dd MMM yyyy HH:mm')}
+                      <Badge variant="outline" className="capitalize">
+                        {backup.kind}
+                      </Badge>
+                      <Badge variant={STATUS_VARIANTS[backup.status]} className="capitalize">
+                        {backup.status}
+                      </Badge>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {backup.tables.length} tables · {totalRecords(backup).toLocaleString()}{' '}
+                      records · {formatBackupSize(backup.size_bytes)}
+                      {backup.description && ` · ${backup.description}`}
+                      {backup.error && ` · ${backup.error}`}
+                    </div>
+                    {backup.verified_at && (
+                      <div className="text-xs mt-1 flex items-center gap-1">
+                        {backup.verification_issues?.length ? (
+                          <>
+                            <AlertTriangle className="h-3 w-3 text-red-600" />
+                            <span className="text-red-600">
+                              {backup.verification_issues.join('; ')}
+                            </span>
+                          </>
+                        ) : (
+                          <>
+                            <CheckCircle2 className="h-3 w-3 text-green-600" />
+                            <span className="text-green-700">
+                              Verified {format(new Date(backup.verified_at), 'dd MMM yyyy HH:mm')}
+                            </span>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {backup.status === 'completed' && (
+                    <div className="flex items-center gap-3 shrink-0">
+                      <button
+                        onClick={() => verifyBackup(backup)}
+                        disabled={busy}
+                        className="text-xs text-[#4F46E5] hover:underline"
+                      >
+                        Verify
+                      </button>
+                      <button
+                        onClick={() => openRestore(backup)}
+                        disabled={busy}
+                        className="text-xs text-[#4F46E5] hover:underline"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => deleteBackup(backup)}
+                        disabled={busy}
+                        className="text-xs text-red-600 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                  {backup.status === 'failed' && (
+                    <button
+                      onClick={() => deleteBackup(backup)}
+                      disabled={busy}
+                      className="text-xs text-red-600 hover:underline shrink-0"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {restoring && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              Restore from {format(new Date(restoring.created_at), 'dd MMM yyyy HH:mm')}
+            </CardTitle>
+            <CardDescription>
+              Pick tables (none selected restores all) and optionally a single pilot, then run a dry
+              run to see what would change. Live rows not in the backup are left untouched.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-1 max-h-48 overflow-y-auto">
+              {restoring.tables.map((table) => (
+                <label key={table} className="flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={restoreTables.includes(table)}
+                    onChange={() => {
+                      toggleTable(table);
+                      setPlan(null);
+                    }}
+                  />
+                  {table}
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                value={restorePilotId}
+                placeholder="Pilot ID (optional)"
+                onChange={(e) => {
+                  setRestorePilotId(e.target.value.trim());
+                  setPlan(null);
+                }}
+                className={`${inputClass} w-80`}
+              />
+              <Button onClick={dryRun} disabled={busy} size="sm" variant="outline">
+                Dry Run
+              </Button>
+              <Button
+                onClick={restore}
+                disabled={busy || !plan?.dryRun || !plan.success}
+                size="sm"
+                variant="destructive"
+              >
+                Restore
+              </Button>
+              <Button onClick={() => setRestoring(null)} size="sm" variant="ghost">
+                Close
+              </Button>
+            </div>
+
+            {plan && (
+              <div>
+                <p className={`mb-2 ${plan.success ? 'text-gray-700' : 'text-red-600'}`}>
+                  {plan.dryRun
+                    ? 'Dry run: nothing has been written.'
+                    : `Restored ${plan.recordsRestored.toLocaleString()} records.`}
+                  {plan.errors.length > 0 && ` ${plan.errors.join('; ')}`}
+                </p>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-1">Table</th>
+                      <th className="py-1 text-right">Insert</th>
+                      <th className="py-1 text-right">Update</th>
+                      <th className="py-1 text-right">Unchanged</th>
+                      <th className="py-1 text-right">Live only</th>
+                      {!plan.dryRun && <th className="py-1 text-right">Restored</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.tables.map((table) => (
+                      <tr key={table.table} className="border-b border-gray-100">
+                        <td className="py-1">
+                          {table.table}
+                          {table.skipped && <span className="text-gray-400"> (skipped)</span>}
+                          {table.error && <span className="text-red-600"> {table.error}</span>}
+                        </td>
+                        <td className="py-1 text-right">{table.insert}</td>
+                        <td className="py-1 text-right">{table.update}</td>
+                        <td className="py-1 text-right">{table.unchanged}</td>
+                        <td className="py-1 text-right">{table.liveOnly}</td>
+                        {!plan.dryRun && <td className="py-1 text-right">{table.restored}</td>}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * Air Niugini B767 Pilot Management System
  * Notification Preferences Component
  *
- * User interface for managing email notification settings
+ * User interface for choosing notification channels, categories, quiet
+ * hours and the daily digest
  */
 
 'use client';
@@ -22,11 +23,17 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'react-hot-toast';
-import { Bell, Mail, AlertCircle, Calendar, Info, Save, Loader2 } from 'lucide-react';
+import { Bell, Mail, AlertCircle, Calendar, Info, Save, Loader2, Moon } from 'lucide-react';
+import { authenticatedFetch } from '@/lib/api-client';
+import { EMAIL_LOCALE_LABELS, type EmailLocale } from '@/lib/email-templates';
 
 interface NotificationPreferencesData {
+  in_app_enabled: boolean;
   email_enabled: boolean;
   email_address: string;
+  sms_enabled: boolean;
+  phone_number: string;
+  push_enabled: boolean;
   certification_expiry_alerts: boolean;
   certification_expiry_days: number;
   leave_request_alerts: boolean;
@@ -34,6 +41,9 @@ interface NotificationPreferencesData {
   system_notifications: boolean;
   daily_digest: boolean;
   digest_time: string;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  language: EmailLocale;
 }
 
 export default function NotificationPreferences() {
@@ -41,8 +51,12 @@ export default function NotificationPreferences() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [preferences, setPreferences] = useState<NotificationPreferencesData>({
+    in_app_enabled: true,
     email_enabled: true,
     email_address: user?.email || '',
+    sms_enabled: false,
+    phone_number: '',
+    push_enabled: false,
     certification_expiry_alerts: true,
     certification_expiry_days: 30,
     leave_request_alerts: true,
@@ -50,6 +64,9 @@ export default function NotificationPreferences() {
     system_notifications: true,
     daily_digest: false,
     digest_time: '08:00',
+    quiet_hours_start: '',
+    quiet_hours_end: '',
+    language: 'en',
   });
 
   useEffect(() => {
@@ -60,7 +77,7 @@ export default function NotificationPreferences() {
     try {
       setLoading(true);
 
-      const response = await fetch('/api/notifications/preferences', {
+      const response = await authenticatedFetch('/api/notifications/preferences', {
         headers: {
           Authorization: `Bearer ${user?.access_token}`,
         },
@@ -74,8 +91,12 @@ export default function NotificationPreferences() {
 
       if (result.success && result.data) {
         setPreferences({
+          in_app_enabled: result.data.in_app_enabled,
           email_enabled: result.data.email_enabled,
           email_address: result.data.email_address || user?.email || '',
+          sms_enabled: result.data.sms_enabled,
+          phone_number: result.data.phone_number || '',
+          push_enabled: result.data.push_enabled,
           certification_expiry_alerts: result.data.certification_expiry_alerts,
           certification_expiry_days: result.data.certification_expiry_days,
           leave_request_alerts: result.data.leave_request_alerts,
@@ -83,6 +104,9 @@ export default function NotificationPreferences() {
           system_notifications: result.data.system_notifications,
           daily_digest: result.data.daily_digest,
           digest_time: result.data.digest_time?.substring(0, 5) || '08:00',
+          quiet_hours_start: result.data.quiet_hours_start?.substring(0, 5) || '',
+          quiet_hours_end: result.data.quiet_hours_end?.substring(0, 5) || '',
+          language: result.data.language || 'en',
         });
       }
     } catch (error) {
@@ -97,7 +121,7 @@ export default function NotificationPreferences() {
     try {
       setSaving(true);
 
-      const response = await fetch('/api/notifications/preferences', {
+      const response = await authenticatedFetch('/api/notifications/preferences', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -105,7 +129,10 @@ export default function NotificationPreferences() {
         },
         body: JSON.stringify({
           ...preferences,
+          phone_number: preferences.phone_number || null,
           digest_time: `${preferences.digest_time  }:00`,
+          quiet_hours_start: preferences.quiet_hours_start || null,
+          quiet_hours_end: preferences.quiet_hours_end || null,
         }),
       });
 
@@ -130,7 +157,7 @@ export default function NotificationPreferences() {
 
   const handleTestNotification = async () => {
     try {
-      const response = await fetch('/api/notifications/test', {
+      const response = await authenticatedFetch('/api/notifications/test', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -168,7 +195,7 @@ export default function NotificationPreferences() {
       <div>
         <h2 className="text-2xl font-bold text-gray-900">Notification Preferences</h2>
         <p className="text-gray-600 mt-1">
-          Manage your email notification settings for certification alerts and system updates
+          Choose how and when you are notified about certifications, leave and system updates
         </p>
       </div>
 
@@ -214,6 +241,31 @@ export default function NotificationPreferences() {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="email-language">Email Language</Label>
+            <Select
+              value={preferences.language}
+              onValueChange={(value) =>
+                setPreferences((prev) => ({ ...prev, language: value as EmailLocale }))
+              }
+              disabled={!preferences.email_enabled}
+            >
+              <SelectTrigger id="email-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EMAIL_LOCALE_LABELS) as EmailLocale[]).map((locale) => (
+                  <SelectItem key={locale} value={locale}>
+                    {EMAIL_LOCALE_LABELS[locale]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Emails without a translation are sent in English
+            </p>
+          </div>
+
           <Button variant="outline" onClick={handleTestNotification} className="w-full">
             <Bell className="h-4 w-4 mr-2" />
             Send Test Notification
@@ -221,6 +273,109 @@ export default function NotificationPreferences() {
         </CardContent>
       </Card>
 
+      {/* Other Channels */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Moon className="h-5 w-5 text-[#4F46E5]" />
+            Channels & Quiet Hours
+          </CardTitle>
+          <CardDescription>
+            Email, SMS and push notifications wait until quiet hours end (Port Moresby time)
+            unless urgent
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="in-app-enabled" className="text-base font-medium">
+                In-App Notifications
+              </Label>
+              <p className="text-sm text-gray-600">Show notifications under the bell icon</p>
+            </div>
+            <Switch
+              id="in-app-enabled"
+              checked={preferences.in_app_enabled}
+              onCheckedChange={(checked) =>
+                setPreferences((prev) => ({ ...prev, in_app_enabled: checked }))
+              }
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="sms-enabled" className="text-base font-medium">
+                SMS Notifications
+              </Label>
+              <p className="text-sm text-gray-600">Text urgent alerts to your phone</p>
+            </div>
+            <Switch
+              id="sms-enabled"
+              checked={preferences.sms_enabled}
+              onCheckedChange={(checked) =>
+                setPreferences((prev) => ({ ...prev, sms_enabled: checked }))
+              }
+            />
+          </div>
+
+          {preferences.sms_enabled && (
+            <div className="space-y-2 pl-4 border-l-2 border-[#06B6D4]">
+              <Label htmlFor="phone-number">Mobile Number</Label>
+              <Input
+                id="phone-number"
+                type="tel"
+                value={preferences.phone_number}
+                onChange={(e) =>
+                  setPreferences((prev) => ({ ...prev, phone_number: e.target.value }))
+                }
+                placeholder="+675 7000 0000"
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="push-enabled" className="text-base font-medium">
+                Push Notifications
+              </Label>
+              <p className="text-sm text-gray-600">Send urgent alerts to your devices</p>
+            </div>
+            <Switch
+              id="push-enabled"
+              checked={preferences.push_enabled}
+              onCheckedChange={(checked) =>
+                setPreferences((prev) => ({ ...prev, push_enabled: checked }))
+              }
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiet-start">Quiet Hours From</Label>
+              <Input
+                id="quiet-start"
+                type="time"
+                value={preferences.quiet_hours_start}
+                onChange={(e) =>
+                  setPreferences((prev) => ({ ...prev, quiet_hours_start: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quiet-end">Quiet Hours Until</Label>
+              <Input
+                id="quiet-end"
+                type="time"
+                value={preferences.quiet_hours_end}
+                onChange={(e) =>
+                  setPreferences((prev) => ({ ...prev, quiet_hours_end: e.target.value }))
+                }
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Certification Alerts */}
       <Card>
         <CardHeader>
@@ -246,7 +401,6 @@ export default function NotificationPreferences() {
               onCheckedChange={(checked) =>
                 setPreferences((prev) => ({ ...prev, certification_expiry_alerts: checked }))
               }
-              disabled={!preferences.email_enabled}
             />
           </div>
 
@@ -260,7 +414,7 @@ export default function NotificationPreferences() {
                   certification_expiry_days: parseInt(value),
                 }))
               }
-              disabled={!preferences.email_enabled || !preferences.certification_expiry_alerts}
+              disabled={!preferences.certification_expiry_alerts}
             >
               <SelectTrigger id="cert-days">
                 <SelectValue />
@@ -305,7 +459,6 @@ export default function NotificationPreferences() {
               onCheckedChange={(checked) =>
                 setPreferences((prev) => ({ ...prev, leave_request_alerts: checked }))
               }
-              disabled={!preferences.email_enabled}
             />
           </div>
 
@@ -324,7 +477,6 @@ export default function NotificationPreferences() {
               onCheckedChange={(checked) =>
                 setPreferences((prev) => ({ ...prev, leave_approval_alerts: checked }))
               }
-              disabled={!preferences.email_enabled}
             />
           </div>
         </CardContent>
@@ -355,7 +507,6 @@ export default function NotificationPreferences() {
               onCheckedChange={(checked) =>
                 setPreferences((prev) => ({ ...prev, system_notifications: checked }))
               }
-              disabled={!preferences.email_enabled}
             />
           </div>
 
@@ -365,7 +516,7 @@ export default function NotificationPreferences() {
                 Daily Digest Email
               </Label>
               <p className="text-sm text-gray-600">
-                Receive a daily summary of certifications and leave requests
+                Hold non-urgent emails and send them together once a day
               </p>
             </div>
             <Switch
@@ -405,7 +556,7 @@ export default function NotificationPreferences() {
         </Button>
         <Button
           onClick={handleSave}
-          disabled={saving || !preferences.email_enabled}
+          disabled={saving}
           className="bg-[#4F46E5] hover:bg-[#4338CA] text-white"
         >
           {saving ? (
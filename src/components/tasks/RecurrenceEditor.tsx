@@ -0,0 +1,245 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { apiPost } from '@/lib/api-client';
+import type { RecurrenceFrequency, RecurrencePattern } from '@/lib/task-recurrence';
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'DAILY', label: 'Daily', unit: 'days' },
+  { value: 'WEEKLY', label: 'Weekly', unit: 'weeks' },
+  { value: 'MONTHLY', label: 'Monthly', unit: 'months' },
+  { value: 'YEARLY', label: 'Yearly', unit: 'years' },
+  { value: 'ROSTER_PERIOD', label: 'Every roster period', unit: 'roster periods' },
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#4F46E5] focus:border-[#4F46E5]';
+
+/**
+ * RecurrenceEditor Component
+ *
+ * Repeat settings for a task: frequency and interval, weekdays or days of the
+ * month, an offset from each roster period start, and when the series ends.
+ * Shows the first occurrences once a start date is set; only the next occurrence
+ * is created when each one is completed or skipped.
+ */
+export function RecurrenceEditor({
+  value,
+  onChange,
+  startDate,
+}: {
+  value: RecurrencePattern | null;
+  onChange: (value: RecurrencePattern | null) => void;
+  /** First occurrence (yyyy-MM-dd) */
+  startDate?: string;
+}) {
+  const [monthDays, setMonthDays] = useState(value?.by_month_day?.join(', ') || '');
+  const [preview, setPreview] = useState<{ description: string; dates: string[] } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!value || !startDate) {
+      setPreview(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      apiPost('/api/tasks/occurrences', {
+        action: 'preview',
+        recurrence_pattern: value,
+        start_date: startDate,
+      })
+        .then((response) => {
+          setPreview(response.data);
+          setPreviewError(null);
+        })
+        .catch((err) => {
+          setPreview(null);
+          setPreviewError(err instanceof Error ? err.message : 'Invalid repeat settings');
+        });
+    }, 400);
+
+    return () => clearTimeout(timer);
+  }, [value, startDate]);
+
+  const update = (changes: Partial<RecurrencePattern>) =>
+    value && onChange({ ...value, ...changes });
+
+  const toggleWeekday = (day: number) => {
+    const current = value?.by_weekday || [];
+    const next = current.includes(day) ? current.filter((d) => d !== day) : [...current, day];
+    update({ by_weekday: next.length ? next.sort((a, b) => a - b) : undefined });
+  };
+
+  const updateMonthDays = (text: string) => {
+    setMonthDays(text);
+    const days = text
+      .split(',')
+      .map((part) => part.trim().toLowerCase())
+      .filter(Boolean)
+      .map((part) => (part === 'last' ? -1 : Number(part)))
+      .filter((day) => Number.isInteger(day));
+    update({ by_month_day: days.length ? days : undefined });
+  };
+
+  let endMode = 'never';
+  if (value?.count) endMode = 'count';
+  else if (value?.end_date) endMode = 'date';
+
+  const unit = FREQUENCY_OPTIONS.find((option) => option.value === value?.frequency)?.unit;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-medium text-gray-700 flex items-center">
+          <Repeat className="w-4 h-4 mr-2" />
+          Repeat
+        </label>
+        <select
+          value={value?.frequency || ''}
+          onChange={(e) => {
+            const frequency = e.target.value as RecurrenceFrequency | '';
+            setMonthDays('');
+            onChange(frequency ? { frequency, interval: value?.interval || 1 } : null);
+          }}
+          className={inputClass}
+        >
+          <option value="">Does not repeat</option>
+          {FREQUENCY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {value && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            every
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className={`${inputClass} w-20`}
+            />
+            {unit}
+          </label>
+        )}
+      </div>
+
+      {value?.frequency === 'WEEKLY' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600">On</span>
+          {WEEKDAYS.map((name, index) => {
+            const selected = value.by_weekday?.includes(index + 1);
+            return (
+              <button
+                key={name}
+                type="button"
+                onClick={() => toggleWeekday(index + 1)}
+                className={`px-3 py-1 rounded-full border ${
+                  selected
+                    ? 'bg-[#4F46E5] border-[#4F46E5] text-white'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {name}
+              </button>
+            );
+          })}
+          {!value.by_weekday?.length && (
+            <span className="text-xs text-gray-500">Same weekday as the due date</span>
+          )}
+        </div>
+      )}
+
+      {value?.frequency === 'MONTHLY' && (
+        <label className="block text-sm text-gray-700">
+          On days of the month
+          <input
+            type="text"
+            value={monthDays}
+            onChange={(e) => updateMonthDays(e.target.value)}
+            placeholder="e.g. 1, 15, last"
+            className={`${inputClass} w-full mt-1`}
+          />
+          <span className="text-xs text-gray-500">
+            Leave empty for the same day as the due date. Months without a listed day are skipped.
+          </span>
+        </label>
+      )}
+
+      {value?.frequency === 'ROSTER_PERIOD' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="number"
+            min={-27}
+            max={27}
+            value={value.roster_offset_days || 0}
+            onChange={(e) => update({ roster_offset_days: Number(e.target.value) || undefined })}
+            className={`${inputClass} w-20`}
+          />
+          days after each roster period starts (negative for before)
+        </label>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+          <span>Ends</span>
+          <select
+            value={endMode}
+            onChange={(e) =>
+              update({
+                count: e.target.value === 'count' ? 10 : undefined,
+                end_date:
+                  e.target.value === 'date'
+                    ? format(new Date(new Date().getFullYear() + 1, 11, 31), 'yyyy-MM-dd')
+                    : undefined,
+              })
+            }
+            className={inputClass}
+          >
+            <option value="never">Never</option>
+            <option value="count">After</option>
+            <option value="date">On date</option>
+          </select>
+          {value.count !== undefined && (
+            <label className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className={`${inputClass} w-20`}
+              />
+              occurrences
+            </label>
+          )}
+          {value.end_date !== undefined && (
+            <input
+              type="date"
+              value={value.end_date}
+              onChange={(e) => update({ end_date: e.target.value || undefined })}
+              className={inputClass}
+            />
+          )}
+        </div>
+      )}
+
+      {value && !startDate && (
+        <p className="text-xs text-amber-700">Set a due date for the first occurrence.</p>
+      )}
+      {previewError && <p className="text-xs text-red-600">{previewError}</p>}
+      {preview && (
+        <div className="text-xs text-gray-600">
+          <span className="font-medium">{preview.description}:</span>{' '}
+          {preview.dates.map((date) => format(parseISO(date), 'EEE dd MMM yyyy')).join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+}
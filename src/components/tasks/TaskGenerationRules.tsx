@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CalendarClock, Play, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { apiDelete, apiGet, apiPost, apiPut } from '@/lib/api-client';
+import { DEFAULT_TASK_TITLE_TEMPLATE } from '@/lib/task-recurrence';
+import type { ExpiryTaskGenerationResult, TaskGenerationRule } from '@/lib/task-generation-service';
+
+type RuleWithCheckType = TaskGenerationRule & {
+  check_type?: { id: string; check_code: string; check_description: string } | null;
+};
+
+interface CheckType {
+  id: string;
+  check_code: string;
+  check_description: string;
+}
+
+const EMPTY_RULE = {
+  name: '',
+  check_type_id: '',
+  days_before: 60,
+  due_days_before: 30,
+  title_template: DEFAULT_TASK_TITLE_TEMPLATE,
+  priority: 'HIGH' as const,
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg text-sm';
+
+/**
+ * TaskGenerationRules Component
+ *
+ * Rules that create a task ahead of every pilot check expiry of a check type,
+ * e.g. "Book SIM for Capt X" 60 days out, due 30 days before the expiry. Tasks
+ * are generated daily by the scheduled job or straight away with Run Now.
+ */
+export function TaskGenerationRules({ onGenerated }: { onGenerated: () => void }) {
+  const [rules, setRules] = useState<RuleWithCheckType[]>([]);
+  const [checkTypes, setCheckTypes] = useState<CheckType[]>([]);
+  const [draft, setDraft] = useState(EMPTY_RULE);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await apiGet('/api/tasks/generation-rules');
+      setRules(response.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+    apiGet('/api/check-types')
+      .then((result) => result.success && setCheckTypes(result.data || []))
+      .catch((err) => console.error('Error fetching check types:', err));
+  }, [loadRules]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createRule = () =>
+    run(async () => {
+      await apiPost('/api/tasks/generation-rules', draft);
+      setDraft(EMPTY_RULE);
+      await loadRules();
+    });
+
+  const toggleRule = (rule: RuleWithCheckType) =>
+    run(async () => {
+      await apiPut('/api/tasks/generation-rules', { id: rule.id, is_active: !rule.is_active });
+      await loadRules();
+    });
+
+  const deleteRule = (rule: RuleWithCheckType) =>
+    confirm(`Delete the rule "${rule.name}"? Tasks it already created are kept.`) &&
+    run(async () => {
+      await apiDelete(`/api/tasks/generation-rules?id=${rule.id}`);
+      await loadRules();
+    });
+
+  const runRules = (id?: string) =>
+    run(async () => {
+      const response = await apiPost('/api/tasks/generation-rules', { run: true, id });
+      const result: ExpiryTaskGenerationResult = response.data;
+      setMessage(
+        `${result.created.length} task${result.created.length === 1 ? '' : 's'} created, ${result.existing} already existed`
+      );
+      await loadRules();
+      onGenerated();
+    });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-900 flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2 text-gray-600" />
+            Expiry Tasks
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            Create a task ahead of every pilot check expiry. Placeholders: {'{rank}'},{' '}
+            {'{pilot_name}'}, {'{employee_id}'}, {'{check_code}'}, {'{check_description}'},{' '}
+            {'{expiry_date}'}
+          </p>
+        </div>
+        <button
+          onClick={() => runRules()}
+          disabled={busy || !rules.some((rule) => rule.is_active)}
+          className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Play className="w-4 h-4 mr-1" />
+          Run Now
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      {rules.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2">Rule</th>
+              <th className="py-2">Check</th>
+              <th className="py-2">Created / Due</th>
+              <th className="py-2">Task Title</th>
+              <th className="py-2">Last Run</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id} className="border-b border-gray-100">
+                <td className="py-2 font-medium text-gray-900">{rule.name}</td>
+                <td className="py-2">{rule.check_type?.check_code || '-'}</td>
+                <td className="py-2 text-gray-600">
+                  {rule.days_before} / {rule.due_days_before} days before
+                </td>
+                <td className="py-2 text-gray-600">{rule.title_template}</td>
+                <td className="py-2 text-gray-500">
+                  {rule.last_run_at ? format(parseISO(rule.last_run_at), 'dd MMM HH:mm') : 'Never'}
+                </td>
+                <td className="py-2">
+                  <div className="flex items-center justify-end gap-2">
+                    <button
+                      onClick={() => toggleRule(rule)}
+                      disabled={busy}
+                      className={`text-xs px-2 py-1 rounded ${
+                        rule.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {rule.is_active ? 'Active' : 'Paused'}
+                    </button>
+                    <button
+                      onClick={() => runRules(rule.id)}
+                      disabled={busy || !rule.is_active}
+                      title="Run this rule now"
+                      className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      disabled={busy}
+                      title="Delete rule"
+                      className="p-1 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Rule name, e.g. Book simulator"
+          className={`${inputClass} md:col-span-2`}
+        />
+        <select
+          value={draft.check_type_id}
+          onChange={(e) => setDraft({ ...draft, check_type_id: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">Check type</option>
+          {checkTypes.map((checkType) => (
+            <option key={checkType.id} value={checkType.id}>
+              {checkType.check_code} - {checkType.check_description}
+            </option>
+          ))}
+        </select>
+        <label className="text-xs text-gray-600">
+          Create days before
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={draft.days_before}
+            onChange={(e) => setDraft({ ...draft, days_before: Number(e.target.value) })}
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Due days before
+          <input
+            type="number"
+            min={0}
+            max={364}
+            value={draft.due_days_before}
+            onChange={(e) => setDraft({ ...draft, due_days_before: Number(e.target.value) })}
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        <button
+          onClick={createRule}
+          disabled={busy || !draft.name || !draft.check_type_id}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add Rule
+        </button>
+        <input
+          value={draft.title_template}
+          onChange={(e) => setDraft({ ...draft, title_template: e.target.value })}
+          placeholder="Task title"
+          className={`${inputClass} md:col-span-6`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Repeat, SkipForward } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { apiPost } from '@/lib/api-client';
+import { describeRecurrence, type RecurrencePattern } from '@/lib/task-recurrence';
+
+interface OccurrenceTask {
+  id: string;
+  status: string;
+  due_date?: string;
+  recurrence_pattern: RecurrencePattern;
+  occurrence_date: string;
+  occurrence_index?: number;
+}
+
+/**
+ * TaskOccurrenceActions Component
+ *
+ * Schedule of a recurring task occurrence with actions to skip it (the next
+ * occurrence is created straight away) or move it to another date without
+ * shifting the rest of the series.
+ */
+export function TaskOccurrenceActions({
+  task,
+  onChanged,
+}: {
+  task: OccurrenceTask;
+  onChanged: () => void;
+}) {
+  const [dueDate, setDueDate] = useState(task.due_date ? task.due_date.slice(0, 16) : '');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = task.status !== 'COMPLETED' && task.status !== 'CANCELLED';
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const skip = () =>
+    confirm('Skip this occurrence? It will be cancelled and the next one created.') &&
+    run(async () => {
+      await apiPost('/api/tasks/occurrences', { action: 'skip', id: task.id });
+    });
+
+  const reschedule = () =>
+    run(async () => {
+      await apiPost('/api/tasks/occurrences', {
+        action: 'reschedule',
+        id: task.id,
+        due_date: dueDate,
+      });
+    });
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3 text-sm">
+      <div className="flex items-center text-gray-700">
+        <Repeat className="w-4 h-4 mr-2 text-blue-600" />
+        {describeRecurrence(task.recurrence_pattern)}
+        <span className="text-gray-500 ml-2">
+          · Occurrence {task.occurrence_index || 1}, scheduled{' '}
+          {format(parseISO(task.occurrence_date), 'MMM d, yyyy')}
+        </span>
+      </div>
+
+      {open && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="datetime-local"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg"
+          />
+          <button
+            onClick={reschedule}
+            disabled={busy || !dueDate || dueDate === task.due_date?.slice(0, 16)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Reschedule
+          </button>
+          <button
+            onClick={skip}
+            disabled={busy}
+            className="inline-flex items-center px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            <SkipForward className="w-4 h-4 mr-1" />
+            Skip
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
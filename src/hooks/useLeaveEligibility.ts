@@ -12,6 +12,7 @@
 
 import { useState, useEffect } from 'react';
 import type { LeaveEligibilityCheck } from '@/lib/leave-eligibility-service';
+import { authenticatedFetch } from '@/lib/api-client';
 
 interface UseLeaveEligibilityProps {
   pilotId?: string;
@@ -57,7 +58,7 @@ export function useLeaveEligibility(props?: UseLeaveEligibilityProps) {
     setError(null);
 
     try {
-      const response = await fetch('/api/leave-eligibility/check', {
+      const response = await authenticatedFetch('/api/leave-eligibility/check', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(checkParams),
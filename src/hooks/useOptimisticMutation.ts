@@ -9,6 +9,8 @@
 
 import { useMutation, useQueryClient, UseMutationOptions } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { authenticatedFetch } from '@/lib/api-client';
+import { addToSyncQueue, isOffline, type QueuedChange } from '@/lib/optimistic-updates';
 
 interface OptimisticMutationOptions<TData, TError, TVariables, TContext> {
   // Query key to update optimistically
@@ -17,11 +19,15 @@ interface OptimisticMutationOptions<TData, TError, TVariables, TContext> {
   // Mutation function
   mutationFn: (variables: TVariables) => Promise<TData>;
 
+  // Change queued for sync instead of calling mutationFn while offline; the
+  // mutation then resolves null (pilot, certification and leave changes only)
+  offlineChange?: (variables: TVariables) => QueuedChange;
+
   // Optimistic updater function - returns the new data
   onMutate?: (variables: TVariables) => TContext;
 
   // Success callback
-  onSuccess?: (data: TData, variables: TVariables, context: TContext | undefined) => void;
+  onSuccess?: (data: TData | null, variables: TVariables, context: TContext | undefined) => void;
 
   // Error callback
   onError?: (error: TError, variables: TVariables, context: TContext | undefined) => void;
@@ -41,8 +47,16 @@ export function useOptimisticMutation<TData = unknown, TError = Error, TVariable
 ) {
   const queryClient = useQueryClient();
 
-  const mutation = useMutation<TData, TError, TVariables, TContext>({
-    mutationFn: options.mutationFn,
+  const mutation = useMutation<TData | null, TError, TVariables, TContext>({
+    mutationFn: async (variables) => {
+      if (options.offlineChange && isOffline()) {
+        await addToSyncQueue(options.offlineChange(variables));
+        return null;
+      }
+      return options.mutationFn(variables);
+    },
+    // React Query would otherwise hold the mutation until the connection returns
+    networkMode: options.offlineChange ? 'always' : 'online',
 
     // Optimistic update before mutation
     onMutate: async (variables) => {
@@ -64,8 +78,8 @@ export function useOptimisticMutation<TData = unknown, TError = Error, TVariable
       // Invalidate queries to refetch with real data
       queryClient.invalidateQueries({ queryKey: options.queryKey });
 
-      // Show success toast
-      if (options.showToast !== false && options.successMessage) {
+      // Show success toast; a queued change has already been announced
+      if (data !== null && options.showToast !== false && options.successMessage) {
         toast.success(options.successMessage);
       }
 
@@ -106,7 +120,7 @@ export function useOptimisticTaskUpdate() {
   return useOptimisticMutation({
     queryKey: ['tasks'],
     mutationFn: async ({ taskId, updates }: { taskId: string; updates: Partial<any> }) => {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const response = await authenticatedFetch(`/api/tasks/${taskId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates),
@@ -143,7 +157,7 @@ export function useOptimisticDisciplinaryUpdate() {
   return useOptimisticMutation({
     queryKey: ['disciplinary-matters'],
     mutationFn: async ({ matterId, updates }: { matterId: string; updates: Partial<any> }) => {
-      const response = await fetch(`/api/disciplinary/${matterId}`, {
+      const response = await authenticatedFetch(`/api/disciplinary/${matterId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(updates),
@@ -0,0 +1,75 @@
+/**
+ * Access Control Tests
+ * Tests for resolving effective permissions from custom roles and expiring
+ * per-user grants and denials, role keys and permission change diffs
+ */
+
+import {
+  isOverrideActive,
+  permissionChanges,
+  resolveUserAccess,
+  roleKeyFromName,
+  roleLabel,
+} from '../access-control';
+
+describe('Access Control', () => {
+  const now = new Date('2026-10-19T00:00:00Z');
+
+  it('uses the custom role permissions instead of the built-in role', () => {
+    const access = resolveUserAccess(
+      {
+        role: 'user',
+        custom_role: {
+          name: 'Training Manager',
+          description: null,
+          permissions: ['pilot:read', 'certification:update', 'not:a_permission'],
+        },
+      },
+      now
+    );
+
+    expect(access.hasPermission('certification:update')).toBe(true);
+    expect(access.hasPermission('leave:create')).toBe(false);
+    expect(access.getAllPermissions()).toEqual(['pilot:read', 'certification:update']);
+    expect(access.getRoleDisplayName()).toBe('Training Manager');
+    expect(resolveUserAccess({ role: 'superuser' }).getRole()).toBe('readonly');
+  });
+
+  it('applies active grants and denials, with denials winning', () => {
+    const access = resolveUserAccess(
+      {
+        role: 'manager',
+        permission_overrides: [
+          { permission: 'system:backup', effect: 'grant', expires_at: null },
+          { permission: 'reports:create', effect: 'grant', expires_at: '2026-10-01T00:00:00Z' },
+          { permission: 'leave:approve', effect: 'deny', expires_at: '2026-12-01T00:00:00Z' },
+          { permission: 'feedback:moderate', effect: 'deny', expires_at: null },
+        ],
+      },
+      now
+    );
+
+    expect(access.hasPermission('system:backup')).toBe(true);
+    expect(access.hasPermission('reports:create')).toBe(false);
+    expect(access.hasPermission('leave:approve')).toBe(false);
+    expect(access.getAllPermissions()).not.toContain('feedback:moderate');
+    expect(access.hasPermission('leave:read')).toBe(true);
+  });
+
+  it('expires overrides at their expiry time', () => {
+    const override = { permission: 'pilot:create', effect: 'grant' as const };
+    expect(isOverrideActive({ ...override, expires_at: null }, now)).toBe(true);
+    expect(isOverrideActive({ ...override, expires_at: '2026-10-19T00:00:01Z' }, now)).toBe(true);
+    expect(isOverrideActive({ ...override, expires_at: '2026-10-19T00:00:00Z' }, now)).toBe(false);
+  });
+
+  it('builds role keys, labels and permission diffs', () => {
+    expect(roleKeyFromName('  Rostering Officer ')).toBe('rostering_officer');
+    expect(roleKeyFromName('747 Fleet Lead')).toBe('role_747_fleet_lead');
+    expect(roleLabel('manager')).toBe('Manager');
+    expect(roleLabel('manager', { name: 'Training Manager' })).toBe('Training Manager');
+    expect(
+      permissionChanges(['pilot:read', 'leave:read'], ['pilot:read', 'leave:approve', 'bogus'])
+    ).toEqual({ added: ['leave:approve'], removed: ['leave:read'] });
+  });
+});
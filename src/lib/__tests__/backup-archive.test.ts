@@ -0,0 +1,136 @@
+/**
+ * Backup Archive Tests
+ * Tests for the table order, archive encoding and integrity checks, restore
+ * diffs, per-pilot scoping and the backup schedule and retention rules
+ */
+
+import {
+  BACKUP_TABLE_NAMES,
+  DEFAULT_BACKUP_POLICY,
+  decodeArchive,
+  diffRows,
+  encodeArchive,
+  inspectArchive,
+  isBackupDue,
+  scopeToPilot,
+  selectBackupsToPrune,
+  type PrunableBackup,
+} from '../backup-archive';
+
+describe('Backup Archive', () => {
+  const pilots = [
+    { id: 'p1', employee_id: '1001', last_name: 'Kila' },
+    { id: 'p2', employee_id: '1002', last_name: 'Wari' },
+  ];
+  const tasks = [
+    { id: 't1', title: 'Renew medical', related_pilot_id: 'p1' },
+    { id: 't2', title: 'Roster review', related_pilot_id: null },
+  ];
+  const taskComments = [
+    { id: 'c1', task_id: 't1', comment: 'Booked' },
+    { id: 'c2', task_id: 't2', comment: 'Done' },
+  ];
+
+  it('covers access control, task rule and webhook tables, parents first', () => {
+    const position = (table: string) => BACKUP_TABLE_NAMES.indexOf(table);
+    const parentsFirst: [string, string][] = [
+      ['role_definitions', 'an_users'],
+      ['an_users', 'user_permission_overrides'],
+      ['an_users', 'user_data_scopes'],
+      ['check_types', 'task_generation_rules'],
+      ['task_categories', 'task_generation_rules'],
+      ['an_users', 'webhooks'],
+      ['webhooks', 'webhook_deliveries'],
+      ['webhook_deliveries', 'webhook_delivery_attempts'],
+    ];
+
+    for (const [parent, child] of parentsFirst) {
+      expect(position(parent)).toBeGreaterThanOrEqual(0);
+      expect(position(child)).toBeGreaterThan(position(parent));
+    }
+    expect(new Set(BACKUP_TABLE_NAMES).size).toBe(BACKUP_TABLE_NAMES.length);
+  });
+
+  it('round-trips an archive and detects tampering', () => {
+    const { buffer, checksum, manifest } = encodeArchive(
+      'backup-1',
+      { tasks, pilots },
+      '2026-10-19T14:00:00Z'
+    );
+
+    expect(manifest.tables.map((table) => table.name)).toEqual(['pilots', 'tasks']);
+    expect(decodeArchive(buffer, checksum).tables.pilots).toEqual(pilots);
+
+    expect(inspectArchive(buffer, 'f'.repeat(64)).issues).toEqual([
+      'Archive checksum does not match the recorded checksum',
+    ]);
+    expect(() => decodeArchive(Buffer.from('not an archive'))).toThrow(
+      'Archive could not be decompressed or parsed'
+    );
+  });
+
+  it('diffs archived rows against live rows on archived columns only', () => {
+    const live = [
+      { ...pilots[0], seniority_number: 4 },
+      { ...pilots[1], last_name: 'Wari-Tau' },
+      { id: 'p3', employee_id: '1003', last_name: 'Mond' },
+    ];
+
+    const diff = diffRows('pilots', [...pilots, { id: 'p4', employee_id: '1004' }], live);
+
+    expect(diff.insert.map((row) => row.id)).toEqual(['p4']);
+    expect(diff.update.map((row) => row.id)).toEqual(['p2']);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.liveOnly).toBe(1);
+  });
+
+  it('scopes a restore to one pilot and the child rows of kept parents', () => {
+    const scoped = scopeToPilot(
+      { settings: [{ id: 's1' }], pilots, tasks, task_comments: taskComments },
+      'p1'
+    );
+
+    expect(scoped.settings).toBeUndefined();
+    expect(scoped.pilots).toEqual([pilots[0]]);
+    expect(scoped.tasks).toEqual([tasks[0]]);
+    expect(scoped.task_comments).toEqual([taskComments[0]]);
+  });
+
+  it('schedules backups by slot and prunes outside the retention windows', () => {
+    const now = new Date('2026-10-19T15:00:00Z');
+
+    expect(isBackupDue(DEFAULT_BACKUP_POLICY, null, now)).toBe(true);
+    expect(isBackupDue(DEFAULT_BACKUP_POLICY, '2026-10-18T14:00:05Z', now)).toBe(true);
+    expect(isBackupDue(DEFAULT_BACKUP_POLICY, '2026-10-19T14:00:05Z', now)).toBe(false);
+    expect(isBackupDue({ ...DEFAULT_BACKUP_POLICY, enabled: false }, null, now)).toBe(false);
+
+    const backup = (
+      id: string,
+      createdAt: string,
+      overrides: Partial<PrunableBackup> = {}
+    ): PrunableBackup => ({
+      id,
+      kind: 'scheduled',
+      status: 'completed',
+      created_at: createdAt,
+      ...overrides,
+    });
+
+    const pruned = selectBackupsToPrune(
+      [
+        backup('today', '2026-10-19T14:00:00Z'),
+        backup('yesterday', '2026-10-18T14:00:00Z'),
+        backup('last-week', '2026-10-11T14:00:00Z'),
+        backup('two-weeks', '2026-10-04T14:00:00Z'),
+        backup('last-month', '2026-09-20T14:00:00Z'),
+        backup('old-manual', '2025-01-01T00:00:00Z', { kind: 'manual' }),
+        backup('old-failed', '2026-10-01T14:00:00Z', { status: 'failed' }),
+        backup('recent-failed', '2026-10-19T13:00:00Z', { status: 'failed' }),
+      ],
+      { daily: 2, weekly: 2, monthly: 2 },
+      now
+    );
+
+    expect(pruned.sort()).toEqual(['last-week', 'old-failed', 'two-weeks']);
+  });
+});
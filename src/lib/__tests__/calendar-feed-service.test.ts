@@ -0,0 +1,120 @@
+/**
+ * Calendar Feed Service Tests
+ * Tests for limiting feed content to the data scope of the feed's owner, and
+ * for no longer serving feeds of owners who lost access
+ */
+
+jest.mock('../supabase', () => {
+  const mockFrom = jest.fn();
+  const mockInstance = { from: mockFrom };
+
+  return {
+    getSupabaseAdmin: () => mockInstance,
+    __mockFrom: mockFrom,
+  };
+});
+
+jest.mock('../settings-service', () => ({
+  settingsService: { getSettings: jest.fn().mockRejectedValue(new Error('offline')) },
+}));
+
+jest.mock('../roster-calendar-service', () => ({
+  loadRosterCalendar: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../pilot-leave-service', () => ({
+  submitPilotLeaveRequest: jest.fn(),
+}));
+
+import { buildFeedCalendar, resolveFeedToken, type CalendarFeed } from '../calendar-feed-service';
+import type { DataScope } from '../data-scope';
+
+const supabaseMock = jest.requireMock('../supabase');
+const mockFrom = supabaseMock.__mockFrom;
+
+const mockQuery = (data: unknown[]) => {
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    eq: jest.fn().mockReturnThis(),
+    gte: jest.fn().mockReturnThis(),
+    lte: jest.fn().mockReturnThis(),
+    in: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    maybeSingle: jest.fn().mockResolvedValue({ data: data[0] ?? null, error: null }),
+    then: jest.fn((resolve) => resolve({ data, error: null })),
+  };
+  return query;
+};
+
+const feed = (pilotId: string | null): CalendarFeed => ({
+  id: 'feed-1',
+  token: 'a'.repeat(48),
+  pilot_id: pilotId,
+  user_id: 'user-1',
+  pilot_user_id: null,
+  created_at: '2026-10-01T00:00:00Z',
+  last_accessed_at: null,
+});
+
+const FEED_TABLES = ['leave_requests', 'pilot_checks', 'flight_requests'] as const;
+
+const portMoresbyScope: DataScope = { unrestricted: false, groups: { base: ['POM'] } };
+
+describe('Calendar Feed Service', () => {
+  let tables: Record<
+    'pilots' | 'calendar_feeds' | 'an_users' | (typeof FEED_TABLES)[number],
+    ReturnType<typeof mockQuery>
+  >;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tables = {
+      pilots: mockQuery([{ id: 'pilot-pom' }]),
+      calendar_feeds: mockQuery([feed(null)]),
+      an_users: mockQuery([{ role: 'manager', custom_role: null, permission_overrides: [] }]),
+      leave_requests: mockQuery([]),
+      pilot_checks: mockQuery([]),
+      flight_requests: mockQuery([]),
+    };
+    mockFrom.mockImplementation((table: keyof typeof tables) => tables[table]);
+  });
+
+  it('limits the fleet feed of a scoped owner to the pilots in their groups', async () => {
+    await buildFeedCalendar(feed(null), portMoresbyScope, new Date('2026-10-19T00:00:00Z'));
+
+    expect(tables.pilots.in).toHaveBeenCalledWith('base', ['POM']);
+    for (const table of FEED_TABLES) {
+      expect(tables[table].in).toHaveBeenCalledWith('pilot_id', ['pilot-pom']);
+    }
+  });
+
+  it('leaves pilots out of a feed for a pilot outside the owner scope', async () => {
+    await buildFeedCalendar(feed('pilot-lae'), portMoresbyScope, new Date('2026-10-19T00:00:00Z'));
+
+    for (const table of FEED_TABLES) {
+      expect(tables[table].in).toHaveBeenCalledWith('pilot_id', []);
+    }
+  });
+
+  it('serves a staff feed while its owner can read leave and certifications', async () => {
+    await expect(resolveFeedToken('a'.repeat(48))).resolves.toEqual(feed(null));
+    expect(tables.calendar_feeds.update).toHaveBeenCalled();
+  });
+
+  it('stops serving a staff feed once its owner is removed or loses a permission', async () => {
+    tables.an_users.maybeSingle.mockResolvedValueOnce({
+      data: {
+        role: 'manager',
+        custom_role: null,
+        permission_overrides: [{ permission: 'leave:read', effect: 'deny', expires_at: null }],
+      },
+      error: null,
+    });
+    await expect(resolveFeedToken('a'.repeat(48))).resolves.toBeNull();
+
+    tables.an_users.maybeSingle.mockResolvedValueOnce({ data: null, error: null });
+    await expect(resolveFeedToken('a'.repeat(48))).resolves.toBeNull();
+
+    expect(tables.calendar_feeds.update).not.toHaveBeenCalled();
+  });
+});
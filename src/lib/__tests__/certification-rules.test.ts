@@ -0,0 +1,109 @@
+/**
+ * Certification Rules Tests
+ * Tests for per-check-type validity rules and next expiry date calculation
+ */
+
+import {
+  DEFAULT_CHECK_TYPE_RULES,
+  calculateNextExpiryDate,
+  getCheckTypeRules,
+  isWithinGracePeriod,
+  type CheckTypeRules,
+} from '../certification-rules';
+import { getCertificationStatus } from '../certification-utils';
+import { addDays, subDays } from 'date-fns';
+
+const twelveMonthRule: CheckTypeRules = {
+  ...DEFAULT_CHECK_TYPE_RULES,
+  validity_months: 12,
+  renewal_window_months: 3,
+  grace_period_days: 30,
+};
+
+describe('Certification Rules', () => {
+  describe('getCheckTypeRules', () => {
+    it('falls back to defaults for missing columns', () => {
+      const rules = getCheckTypeRules({ validity_months: 6 });
+      expect(rules.validity_months).toBe(6);
+      expect(rules.warning_days).toBe(30);
+      expect(rules.expiry_rounding).toBe('none');
+    });
+
+    it('returns defaults for a missing check type', () => {
+      expect(getCheckTypeRules(null)).toEqual(DEFAULT_CHECK_TYPE_RULES);
+    });
+  });
+
+  describe('calculateNextExpiryDate', () => {
+    it('returns null for check types without a validity period', () => {
+      expect(calculateNextExpiryDate('2026-01-10', null, DEFAULT_CHECK_TYPE_RULES)).toBeNull();
+    });
+
+    it('runs validity from completion when there is no current expiry', () => {
+      const proposal = calculateNextExpiryDate('2026-01-10', null, twelveMonthRule);
+      expect(proposal?.expiryDate).toBe('2027-01-10');
+      expect(proposal?.basis).toBe('completion');
+    });
+
+    it('preserves the anniversary inside the renewal window', () => {
+      const proposal = calculateNextExpiryDate('2026-02-01', '2026-03-31', twelveMonthRule);
+      expect(proposal?.expiryDate).toBe('2027-03-31');
+      expect(proposal?.basis).toBe('anniversary');
+      expect(proposal?.withinRenewalWindow).toBe(true);
+      expect(proposal?.renewalWindowOpens).toBe('2025-12-31');
+    });
+
+    it('runs from completion when renewed before the window opens', () => {
+      const proposal = calculateNextExpiryDate('2025-11-15', '2026-03-31', twelveMonthRule);
+      expect(proposal?.expiryDate).toBe('2026-11-15');
+      expect(proposal?.basis).toBe('completion');
+      expect(proposal?.withinRenewalWindow).toBe(false);
+    });
+
+    it('preserves the anniversary during the grace period', () => {
+      const proposal = calculateNextExpiryDate('2026-04-20', '2026-03-31', twelveMonthRule);
+      expect(proposal?.expiryDate).toBe('2027-03-31');
+      expect(proposal?.inGracePeriod).toBe(true);
+    });
+
+    it('runs from completion after the grace period', () => {
+      const proposal = calculateNextExpiryDate('2026-06-01', '2026-03-31', twelveMonthRule);
+      expect(proposal?.expiryDate).toBe('2027-06-01');
+      expect(proposal?.basis).toBe('completion');
+    });
+
+    it('rounds to the end of the month when configured', () => {
+      const proposal = calculateNextExpiryDate('2026-01-10', null, {
+        ...twelveMonthRule,
+        validity_months: 6,
+        expiry_rounding: 'end_of_month',
+      });
+      expect(proposal?.expiryDate).toBe('2026-07-31');
+    });
+
+    it('does not preserve the anniversary when disabled', () => {
+      const proposal = calculateNextExpiryDate('2026-02-01', '2026-03-31', {
+        ...twelveMonthRule,
+        preserve_anniversary: false,
+      });
+      expect(proposal?.expiryDate).toBe('2027-02-01');
+    });
+  });
+
+  describe('status thresholds', () => {
+    it('applies the check type warning threshold', () => {
+      const expiry = addDays(new Date(), 45);
+      expect(getCertificationStatus(expiry, DEFAULT_CHECK_TYPE_RULES).label).toBe('Current');
+      expect(getCertificationStatus(expiry, { warning_days: 60, grace_period_days: 0 }).label).toBe(
+        'Expiring Soon'
+      );
+    });
+
+    it('reports checks inside their grace period', () => {
+      const expiry = subDays(new Date(), 10);
+      expect(getCertificationStatus(expiry, twelveMonthRule).label).toBe('Grace Period');
+      expect(isWithinGracePeriod(expiry, twelveMonthRule)).toBe(true);
+      expect(getCertificationStatus(expiry, DEFAULT_CHECK_TYPE_RULES).label).toBe('Expired');
+    });
+  });
+});
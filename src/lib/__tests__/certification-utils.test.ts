@@ -13,12 +13,13 @@ import {
   getCategoryIcon,
   getCategoryColor,
 } from '../certification-utils';
+import { DEFAULT_CHECK_TYPE_RULES } from '../certification-rules';
 import { addDays, subDays, format } from 'date-fns';
 
 describe('Certification Utils', () => {
   describe('getCertificationStatus', () => {
     it('returns gray status for null expiry date', () => {
-      const status = getCertificationStatus(null);
+      const status = getCertificationStatus(null, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('gray');
       expect(status.label).toBe('No Date');
       expect(status.className).toContain('bg-gray-100');
@@ -27,7 +28,7 @@ describe('Certification Utils', () => {
 
     it('returns red status for expired certification (past date)', () => {
       const expiredDate = subDays(new Date(), 10);
-      const status = getCertificationStatus(expiredDate);
+      const status = getCertificationStatus(expiredDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('red');
       expect(status.label).toBe('Expired');
       expect(status.className).toContain('bg-red-100');
@@ -36,7 +37,7 @@ describe('Certification Utils', () => {
 
     it('returns yellow status for certification expiring soon (within 30 days)', () => {
       const expiringDate = addDays(new Date(), 15);
-      const status = getCertificationStatus(expiringDate);
+      const status = getCertificationStatus(expiringDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('yellow');
       expect(status.label).toBe('Expiring Soon');
       expect(status.className).toContain('bg-yellow-100');
@@ -45,7 +46,7 @@ describe('Certification Utils', () => {
 
     it('returns green status for current certification (more than 30 days)', () => {
       const currentDate = addDays(new Date(), 90);
-      const status = getCertificationStatus(currentDate);
+      const status = getCertificationStatus(currentDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('green');
       expect(status.label).toBe('Current');
       expect(status.className).toContain('bg-green-100');
@@ -54,28 +55,28 @@ describe('Certification Utils', () => {
 
     it('handles exactly 30 days until expiry as expiring', () => {
       const exactDate = addDays(new Date(), 30);
-      const status = getCertificationStatus(exactDate);
+      const status = getCertificationStatus(exactDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('yellow');
       expect(status.label).toBe('Expiring Soon');
     });
 
     it('handles exactly 31 days as current', () => {
       const exactDate = addDays(new Date(), 31);
-      const status = getCertificationStatus(exactDate);
+      const status = getCertificationStatus(exactDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('green');
       expect(status.label).toBe('Current');
     });
 
     it('handles string date format', () => {
       const futureDate = format(addDays(new Date(), 60), 'yyyy-MM-dd');
-      const status = getCertificationStatus(futureDate);
+      const status = getCertificationStatus(futureDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('green');
       expect(status.daysUntilExpiry).toBeGreaterThan(30); // More than 30 days makes it "current"
     });
 
     it('handles Date object', () => {
       const futureDate = addDays(new Date(), 60);
-      const status = getCertificationStatus(futureDate);
+      const status = getCertificationStatus(futureDate, DEFAULT_CHECK_TYPE_RULES);
       expect(status.color).toBe('green');
       expect(status.daysUntilExpiry).toBeGreaterThan(30); // More than 30 days makes it "current"
     });
@@ -320,9 +321,9 @@ describe('Certification Utils', () => {
 
   describe('Aviation Safety Standards', () => {
     it('follows FAA color coding for status indicators', () => {
-      const expired = getCertificationStatus(subDays(new Date(), 1));
-      const expiring = getCertificationStatus(addDays(new Date(), 15));
-      const current = getCertificationStatus(addDays(new Date(), 90));
+      const expired = getCertificationStatus(subDays(new Date(), 1), DEFAULT_CHECK_TYPE_RULES);
+      const expiring = getCertificationStatus(addDays(new Date(), 15), DEFAULT_CHECK_TYPE_RULES);
+      const current = getCertificationStatus(addDays(new Date(), 90), DEFAULT_CHECK_TYPE_RULES);
 
       expect(expired.color).toBe('red'); // Critical - not safe to operate
       expect(expiring.color).toBe('yellow'); // Warning - action required
@@ -330,8 +331,8 @@ describe('Certification Utils', () => {
     });
 
     it('maintains 30-day alert threshold for expiring certifications', () => {
-      const day30 = getCertificationStatus(addDays(new Date(), 30));
-      const day31 = getCertificationStatus(addDays(new Date(), 31));
+      const day30 = getCertificationStatus(addDays(new Date(), 30), DEFAULT_CHECK_TYPE_RULES);
+      const day31 = getCertificationStatus(addDays(new Date(), 31), DEFAULT_CHECK_TYPE_RULES);
 
       expect(day30.color).toBe('yellow'); // Alert at 30 days
       expect(day31.color).toBe('green'); // Safe beyond 30 days
@@ -339,7 +340,10 @@ describe('Certification Utils', () => {
 
     it('calculates days until expiry for tracking', () => {
       const daysAhead = 45;
-      const status = getCertificationStatus(addDays(new Date(), daysAhead));
+      const status = getCertificationStatus(
+        addDays(new Date(), daysAhead),
+        DEFAULT_CHECK_TYPE_RULES
+      );
       expect(status.daysUntilExpiry).toBe(daysAhead);
     });
   });
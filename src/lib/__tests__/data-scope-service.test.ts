@@ -0,0 +1,114 @@
+/**
+ * Data Scope Service Tests
+ * Tests that records are matched to the scope through the pilot they belong to
+ * and that handlers changing a record refuse records outside the scope
+ */
+
+jest.mock('../supabase', () => {
+  const mockFrom = jest.fn();
+  const mockInstance = { from: mockFrom };
+
+  return {
+    getSupabaseAdmin: () => mockInstance,
+    __mockFrom: mockFrom,
+  };
+});
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('../../middleware/auth', () => ({
+  withPermission: (handler: unknown) => handler,
+  createUserDataScope: (user: { scope: unknown }) => user.scope,
+}));
+
+import { resolveDataScope } from '../data-scope';
+import { isRecordInScope } from '../data-scope-service';
+import { PUT } from '../../app/api/leave-requests/route';
+
+const { __mockFrom: mockFrom } = jest.requireMock('../supabase');
+
+const pomScope = resolveDataScope({
+  role: 'manager',
+  data_scopes: [{ scope_type: 'base', scope_value: 'POM' }],
+});
+
+const pilots: Record<string, { base: string }> = {
+  'pilot-pom': { base: 'POM' },
+  'pilot-lae': { base: 'LAE' },
+};
+
+const records: Record<string, Record<string, { pilot_id: string | null }>> = {
+  leave_requests: {
+    'leave-pom': { pilot_id: 'pilot-pom' },
+    'leave-lae': { pilot_id: 'pilot-lae' },
+  },
+  documents: { 'company-doc': { pilot_id: null } },
+};
+
+function mockTable(table: string) {
+  let id = '';
+  const query = {
+    select: jest.fn().mockReturnThis(),
+    update: jest.fn().mockReturnThis(),
+    eq: jest.fn((_column: string, value: string): unknown => {
+      id = value;
+      return query;
+    }),
+    maybeSingle: jest.fn(async () => ({
+      data: table === 'pilots' ? pilots[id] : records[table]?.[id],
+      error: null,
+    })),
+  };
+  return query;
+}
+
+describe('Data Scope Service', () => {
+  const tables: Record<string, ReturnType<typeof mockTable>> = {};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFrom.mockImplementation((table: string) => {
+      tables[table] = tables[table] || mockTable(table);
+      return tables[table];
+    });
+  });
+
+  afterEach(() => {
+    Object.keys(tables).forEach((table) => delete tables[table]);
+  });
+
+  it('matches a record through the pilot it belongs to', async () => {
+    await expect(isRecordInScope('leave_requests', 'leave-pom', pomScope)).resolves.toBe(true);
+    await expect(isRecordInScope('leave_requests', 'leave-lae', pomScope)).resolves.toBe(false);
+    await expect(isRecordInScope('leave_requests', 'missing', pomScope)).resolves.toBe(false);
+  });
+
+  it('only keeps records without a pilot when asked to', async () => {
+    await expect(isRecordInScope('documents', 'company-doc', pomScope)).resolves.toBe(false);
+    await expect(
+      isRecordInScope('documents', 'company-doc', pomScope, { includeUnassigned: true })
+    ).resolves.toBe(true);
+  });
+
+  it('answers 404 to a leave request update outside the scope without changing it', async () => {
+    const response = await (
+      PUT as unknown as (
+        request: Request,
+        context: unknown
+      ) => Promise<{ status: number; json(): Promise<{ error?: string }> }>
+    )({ json: async () => ({ id: 'leave-lae', status: 'APPROVED' }) } as Request, {
+      user: { id: 'user-1', scope: pomScope },
+    });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe('Leave request not found');
+    expect(tables.leave_requests?.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Data Scope Tests
+ * Tests for resolving a staff user's pilot groups, matching pilots against
+ * them and the equivalent query filters
+ */
+
+import {
+  describeDataScope,
+  pilotInScope,
+  resolveDataScope,
+  scopeFilters,
+  UNRESTRICTED_SCOPE,
+} from '../data-scope';
+
+describe('Data Scope', () => {
+  const pomCaptains = resolveDataScope({
+    role: 'manager',
+    data_scopes: [
+      { scope_type: 'base', scope_value: 'POM' },
+      { scope_type: 'base', scope_value: 'LAE' },
+      { scope_type: 'rank', scope_value: 'Captain' },
+      { scope_type: 'base', scope_value: 'POM' },
+    ],
+  });
+
+  it('leaves admins and users without scopes unrestricted', () => {
+    expect(resolveDataScope({ role: 'manager' })).toEqual(UNRESTRICTED_SCOPE);
+    expect(resolveDataScope({ role: 'user', data_scopes: [] })).toEqual(UNRESTRICTED_SCOPE);
+    expect(
+      resolveDataScope({
+        role: 'admin',
+        data_scopes: [{ scope_type: 'base', scope_value: 'POM' }],
+      })
+    ).toEqual(UNRESTRICTED_SCOPE);
+  });
+
+  it('groups values by type without duplicates', () => {
+    expect(pomCaptains).toEqual({
+      unrestricted: false,
+      groups: { base: ['POM', 'LAE'], rank: ['Captain'] },
+    });
+    expect(describeDataScope(pomCaptains)).toBe('Base: POM, LAE · Rank: Captain');
+    expect(describeDataScope(UNRESTRICTED_SCOPE)).toBe('All pilots');
+  });
+
+  it('requires a match for every scoped type', () => {
+    expect(pilotInScope({ base: 'LAE', role: 'Captain' }, pomCaptains)).toBe(true);
+    expect(pilotInScope({ base: 'POM', role: 'First Officer' }, pomCaptains)).toBe(false);
+    expect(pilotInScope({ base: null, role: 'Captain' }, pomCaptains)).toBe(false);
+    expect(pilotInScope({ base: null, role: null }, UNRESTRICTED_SCOPE)).toBe(true);
+  });
+
+  it('maps scope types to pilots columns for query filters', () => {
+    expect(scopeFilters(pomCaptains)).toEqual([
+      { column: 'base', values: ['POM', 'LAE'] },
+      { column: 'role', values: ['Captain'] },
+    ]);
+    expect(scopeFilters(UNRESTRICTED_SCOPE)).toEqual([]);
+  });
+});
@@ -42,6 +42,13 @@ import {
 const supabaseMock = require('../supabase');
 const mockFrom = supabaseMock.__mockFrom;
 
+// Unset disciplinary_workflow setting, so the default workflow applies
+const mockSettingsQuery = () => ({
+  select: jest.fn().mockReturnThis(),
+  eq: jest.fn().mockReturnThis(),
+  maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+});
+
 describe('Disciplinary Service', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -337,10 +344,11 @@ describe('Disciplinary Service', () => {
 
       mockFrom
         .mockReturnValueOnce(mockGetQuery) // Get current state
+        .mockReturnValueOnce(mockSettingsQuery()) // Workflow settings
         .mockReturnValueOnce(mockUpdateQuery) // Update
         .mockReturnValue(mockAuditQuery); // Audit logs
 
-      const result = await updateDisciplinaryMatter('matter-1', mockUpdate, 'user-1');
+      const result = await updateDisciplinaryMatter('matter-1', mockUpdate, 'user-1', 'manager');
 
       expect(mockUpdateQuery.update).toHaveBeenCalled();
       expect(result).toEqual({ ...mockCurrent, ...mockUpdate });
@@ -348,7 +356,7 @@ describe('Disciplinary Service', () => {
 
     it('should set resolved_by when status changes to RESOLVED', async () => {
       const mockCurrent = { id: 'matter-1', status: 'OPEN' };
-      const mockUpdate = { status: 'RESOLVED' as const };
+      const mockUpdate = { status: 'RESOLVED' as const, resolution_notes: 'Counselled' };
 
       const mockGetQuery = {
         select: jest.fn().mockReturnThis(),
@@ -369,10 +377,11 @@ describe('Disciplinary Service', () => {
 
       mockFrom
         .mockReturnValueOnce(mockGetQuery)
+        .mockReturnValueOnce(mockSettingsQuery())
         .mockReturnValueOnce(mockUpdateQuery)
         .mockReturnValue(mockAuditQuery);
 
-      await updateDisciplinaryMatter('matter-1', mockUpdate, 'user-1');
+      await updateDisciplinaryMatter('matter-1', mockUpdate, 'user-1', 'manager');
 
       expect(mockUpdateQuery.update).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -381,6 +390,24 @@ describe('Disciplinary Service', () => {
         })
       );
     });
+
+    it('should reject a status change the workflow does not allow', async () => {
+      const mockGetQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({
+          data: { id: 'matter-1', status: 'OPEN', assigned_to: null },
+          error: null,
+        }),
+      };
+
+      mockFrom.mockReturnValueOnce(mockGetQuery).mockReturnValueOnce(mockSettingsQuery());
+
+      await expect(
+        updateDisciplinaryMatter('matter-1', { status: 'UNDER_INVESTIGATION' }, 'user-1', 'manager')
+      ).rejects.toThrow('Moving to UNDER INVESTIGATION requires an investigator');
+      expect(mockFrom).not.toHaveBeenCalledWith('disciplinary_audit_log');
+    });
   });
 
   describe('getDisciplinaryStatistics', () => {
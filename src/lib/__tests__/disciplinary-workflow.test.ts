@@ -0,0 +1,140 @@
+/**
+ * Disciplinary Workflow Tests
+ * Tests for matter and action transitions, stored workflow settings, deadlines
+ * and the regulatory notification register
+ */
+
+import {
+  DEFAULT_DISCIPLINARY_WORKFLOW,
+  allowedTransitions,
+  matterDeadlines,
+  normalizeDisciplinaryWorkflow,
+  regulatoryReportState,
+  validateTransition,
+} from '../disciplinary-workflow';
+
+const config = DEFAULT_DISCIPLINARY_WORKFLOW;
+
+describe('Disciplinary Workflow', () => {
+  it('enforces allowed transitions, roles and required fields for matters', () => {
+    expect(
+      validateTransition(config, 'matter', 'OPEN', 'CLOSED', 'admin', {}, '2026-10-19')
+    ).toEqual(['This matter cannot move from OPEN to CLOSED']);
+    expect(
+      validateTransition(
+        config,
+        'matter',
+        'OPEN',
+        'UNDER_INVESTIGATION',
+        'manager',
+        {},
+        '2026-10-19'
+      )
+    ).toEqual(['Moving to UNDER INVESTIGATION requires an investigator']);
+    expect(
+      validateTransition(
+        config,
+        'matter',
+        'RESOLVED',
+        'CLOSED',
+        'manager',
+        { regulatory_notification_required: true, regulatory_body: 'CASA PNG' },
+        '2026-10-19'
+      )
+    ).toEqual(['Moving to CLOSED requires the regulatory notification date']);
+    expect(
+      validateTransition(
+        config,
+        'matter',
+        'APPEALED',
+        'CLOSED',
+        'manager',
+        {
+          resolution_notes: 'Upheld',
+        },
+        '2026-10-19'
+      )
+    ).toEqual(['Only admin can move this matter to CLOSED']);
+    expect(allowedTransitions(config, 'matter', 'APPEALED', 'manager').map((r) => r.to)).toEqual([
+      'UNDER_INVESTIGATION',
+      'RESOLVED',
+    ]);
+  });
+
+  it('only allows an action to be appealed until its appeal deadline', () => {
+    const action = { appeal_deadline: '2026-10-19' };
+
+    expect(
+      validateTransition(config, 'action', 'ACTIVE', 'APPEALED', 'manager', action, '2026-10-19')
+    ).toEqual([]);
+    expect(
+      validateTransition(config, 'action', 'ACTIVE', 'APPEALED', 'manager', action, '2026-10-20')
+    ).toEqual(['The appeal deadline passed on 2026-10-19']);
+    expect(
+      validateTransition(config, 'action', 'APPEALED', 'REVERSED', 'manager', {}, '2026-10-20')
+    ).toEqual(['Only admin can move this action to REVERSED']);
+  });
+
+  it('fills invalid stored settings from the defaults', () => {
+    const normalized = normalizeDisciplinaryWorkflow({
+      matter_transitions: [
+        {
+          from: 'OPEN',
+          to: 'CLOSED',
+          roles: ['admin', 'pilot'],
+          required_fields: ['bogus', 'resolution_notes'],
+        },
+        { from: 'OPEN', to: 'ARCHIVED', roles: ['admin'], required_fields: [] },
+      ],
+      regulatory_reporting_days: -1,
+      reminder_days: [3, 0],
+    });
+
+    expect(normalized.matter_transitions).toEqual([
+      { from: 'OPEN', to: 'CLOSED', roles: ['admin'], required_fields: ['resolution_notes'] },
+    ]);
+    expect(normalized.action_transitions).toBe(config.action_transitions);
+    expect(normalized.regulatory_reporting_days).toBe(config.regulatory_reporting_days);
+    expect(normalized.reminder_days).toEqual([3]);
+  });
+
+  it('lists running deadlines and regulatory reporting state', () => {
+    const deadlines = matterDeadlines(
+      {
+        id: 'matter-1',
+        status: 'UNDER_INVESTIGATION',
+        incident_date: '2026-10-14',
+        due_date: '2026-10-26',
+        regulatory_notification_required: true,
+        notification_date: null,
+        actions: [
+          { id: 'a1', action_type: 'WARNING', status: 'ACTIVE', appeal_deadline: '2026-10-18' },
+          { id: 'a2', action_type: 'FINE', status: 'COMPLETED', appeal_deadline: '2026-10-18' },
+        ],
+      },
+      config,
+      '2026-10-19'
+    );
+
+    expect(deadlines.map((d) => [d.kind, d.date, d.days_remaining])).toEqual([
+      ['DUE_DATE', '2026-10-26', 7],
+      ['REGULATORY_NOTIFICATION', '2026-10-17', -2],
+      ['APPEAL_DEADLINE', '2026-10-18', -1],
+    ]);
+
+    const incident = { incident_date: '2026-10-14' };
+    expect(
+      regulatoryReportState({ ...incident, notification_date: '2026-10-17' }, 3, '2026-10-19')
+    ).toEqual({ deadline: '2026-10-17', status: 'ON_TIME', days_late: 0 });
+    expect(
+      regulatoryReportState({ ...incident, notification_date: '2026-10-18' }, 3, '2026-10-19')
+        .status
+    ).toBe('LATE');
+    expect(regulatoryReportState(incident, 3, '2026-10-19')).toEqual({
+      deadline: '2026-10-17',
+      status: 'OVERDUE',
+      days_late: 2,
+    });
+    expect(regulatoryReportState(incident, 3, '2026-10-16').status).toBe('DUE');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Email Templates Tests
+ * Tests for filling template strings, validating admin edits, falling back
+ * to English for untranslated parts and rendering emails inside the layout
+ */
+
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  TemplateSyntaxError,
+  localizeTemplate,
+  renderEmail,
+  renderTemplateString,
+  sampleVariables,
+  validateTemplateEdit,
+  type EmailTemplate,
+} from '../email-templates';
+
+describe('Email Templates', () => {
+  const leaveDecision = DEFAULT_EMAIL_TEMPLATES.leave_approval_notification;
+
+  it('escapes variables in HTML unless triple-braced, and renders nested conditions', () => {
+    const variables = { name: '<Kila & Co>', raw: '<b>bold</b>', approved: true, note: '' };
+
+    expect(renderTemplateString('{{name}} {{{raw}}}', variables, { html: true })).toBe(
+      '&lt;Kila &amp; Co&gt; <b>bold</b>'
+    );
+    expect(renderTemplateString('{{name}}', variables)).toBe('<Kila & Co>');
+    expect(
+      renderTemplateString(
+        '{{#if approved}}Yes{{#if note}} ({{note}}){{/if}}{{else}}No{{/if}}{{missing}}',
+        variables
+      )
+    ).toBe('Yes');
+    expect(renderTemplateString('{{#if approved}}Yes{{else}}No{{/if}}', { approved: 0 })).toBe(
+      'No'
+    );
+    expect(() => renderTemplateString('{{#if approved}}Yes', variables)).toThrow(
+      TemplateSyntaxError
+    );
+  });
+
+  it('reports syntax errors, unknown variables and empty parts in edits and translations', () => {
+    const edit = {
+      subject: 'Leave {{status}}',
+      html: '{{#if approved}}<p>Approved</p>',
+      text: '{{pilot_name}} {{app_url}}',
+      translations: { tpi: { subject: '', text: ' ', html: '<p>{{pilot}}</p>' } },
+    };
+
+    expect(validateTemplateEdit(leaveDecision, edit)).toEqual([
+      'Subject uses unknown variable: status',
+      'HTML body: {{#if approved}} is never closed',
+      'Tok Pisin: HTML body uses unknown variable: pilot',
+    ]);
+    expect(validateTemplateEdit(leaveDecision, { ...leaveDecision, translations: {} })).toEqual([]);
+
+    const layout = DEFAULT_EMAIL_TEMPLATES.layout;
+    expect(
+      validateTemplateEdit(layout, { ...layout, html: '<body>{{content}}</body>', text: '' })
+    ).toEqual(['Text body is empty', 'HTML body must include {{{content}}}']);
+  });
+
+  it('falls back to English for each part without a translation', () => {
+    const template: EmailTemplate = {
+      ...leaveDecision,
+      translations: { tpi: { subject: 'Lip bilong yu - {{roster_period}}', html: '' } },
+    };
+
+    expect(localizeTemplate(template, 'tpi')).toEqual({
+      subject: 'Lip bilong yu - {{roster_period}}',
+      html: leaveDecision.html,
+      text: leaveDecision.text,
+    });
+    expect(localizeTemplate(template, 'en').subject).toBe(leaveDecision.subject);
+  });
+
+  it('renders the subject, and the HTML and text bodies inside the layout', () => {
+    const email = renderEmail(
+      leaveDecision,
+      DEFAULT_EMAIL_TEMPLATES.layout,
+      { ...sampleVariables(leaveDecision), approved: false, comments: 'Roster <full>' },
+      'en'
+    );
+
+    expect(email.subject).toBe('Leave Request REJECTED - RP11/2026');
+    expect(email.html).toContain('<title>Leave Request REJECTED - RP11/2026</title>');
+    expect(email.html).toContain('<strong>Rejected by:</strong> Fleet Manager');
+    expect(email.html).toContain('Roster &lt;full&gt;');
+    expect(email.html).not.toContain('{{');
+    expect(email.text.startsWith('AIR NIUGINI FLEET OPERATIONS\n\nLeave Request REJECTED')).toBe(
+      true
+    );
+    expect(email.text).toContain('Comments: Roster <full>');
+    expect(email.text).not.toMatch(/\n{3,}/);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Flight Request Service Tests
+ * Tests that approval always runs the qualification and flight time checks,
+ * whether through the approve action or a status change in a PATCH
+ */
+
+jest.mock('../supabase', () => {
+  const mockFrom = jest.fn();
+  const mockInstance = { from: mockFrom };
+
+  return {
+    getSupabaseAdmin: () => mockInstance,
+    __mockFrom: mockFrom,
+  };
+});
+
+jest.mock('../pilot-currency-service', () => ({
+  checkFlightRequestQualifications: jest.fn(),
+}));
+
+jest.mock('../flight-duty-service', () => ({
+  checkFlightRequestFtl: jest.fn(),
+}));
+
+jest.mock('../pilot-request-service', () => ({
+  notifyFlightRequestStatus: jest.fn(),
+}));
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('../../middleware/auth', () => ({
+  withPermission: (handler: unknown) => handler,
+  createUserDataScope: () => ({ unrestricted: true, groups: {} }),
+}));
+
+import type { NextRequest } from 'next/server';
+import { approveFlightRequest, FlightRequestApprovalError } from '../flight-request-service';
+import { PATCH } from '../../app/api/flight-requests/[id]/route';
+
+const { __mockFrom: mockFrom } = jest.requireMock('../supabase');
+const { checkFlightRequestQualifications } = jest.requireMock('../pilot-currency-service');
+const { checkFlightRequestFtl } = jest.requireMock('../flight-duty-service');
+
+const pendingRequest = {
+  id: 'request-1',
+  pilot_id: 'pilot-1',
+  request_type: 'FLIGHT_ASSIGNMENT',
+  status: 'PENDING',
+  departure_date: '2026-11-02',
+};
+
+const patch = (body: unknown) =>
+  (
+    PATCH as unknown as (
+      request: NextRequest,
+      context: unknown
+    ) => Promise<{ status: number; json(): Promise<{ error?: string }> }>
+  )({ json: async () => body } as NextRequest, {
+    user: { id: 'user-1', role: 'manager' },
+    params: { id: 'request-1' },
+  });
+
+describe('Flight Request Service', () => {
+  let flightRequests: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    flightRequests = {
+      select: jest.fn().mockReturnThis(),
+      update: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      single: jest.fn().mockResolvedValue({ data: pendingRequest, error: null }),
+    };
+    mockFrom.mockReturnValue(flightRequests);
+    checkFlightRequestQualifications.mockResolvedValue({ allowed: true, missing: [] });
+    checkFlightRequestFtl.mockResolvedValue({ allowed: true, violations: [] });
+  });
+
+  it('refuses approval when the pilot lacks a required qualification', async () => {
+    checkFlightRequestQualifications.mockResolvedValue({
+      allowed: false,
+      missing: ['Line check expired'],
+    });
+
+    await expect(approveFlightRequest('request-1', 'user-1')).rejects.toThrow(
+      FlightRequestApprovalError
+    );
+    expect(flightRequests.update).not.toHaveBeenCalled();
+  });
+
+  it('answers a refused approve action with 422', async () => {
+    checkFlightRequestFtl.mockResolvedValue({
+      allowed: false,
+      violations: ['28-day duty limit exceeded'],
+    });
+
+    const response = await patch({ action: 'approve' });
+
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toContain('flight time limitations');
+    expect(flightRequests.update).not.toHaveBeenCalled();
+  });
+
+  it('does not approve through a status change, so the checks cannot be skipped', async () => {
+    const response = await patch({ status: 'APPROVED' });
+
+    expect(response.status).toBe(400);
+    expect(flightRequests.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Flight Time Limitations Tests
+ * Tests for rolling flight/duty totals, rest checks on proposed duties and the duty log CSV parser
+ */
+
+import {
+  DEFAULT_FTL_LIMITS,
+  assessProposedDuty,
+  computeFtlStatus,
+  limitsReached,
+  normalizeFtlLimits,
+  type FtlDuty,
+} from '../flight-time-limits';
+import { parseDutyLogCsv } from '../flight-duty-import';
+
+describe('Flight Time Limitations', () => {
+  const duties: FtlDuty[] = [
+    {
+      start: '2026-10-11T20:00:00Z',
+      end: '2026-10-12T06:00:00Z',
+      sectors: [{ blockOff: '2026-10-11T22:00:00Z', blockOn: '2026-10-12T04:00:00Z' }],
+    },
+    {
+      start: '2026-10-18T08:00:00Z',
+      end: '2026-10-18T18:00:00Z',
+      sectors: [{ blockOff: '2026-10-18T09:00:00Z', blockOn: '2026-10-18T17:00:00Z' }],
+    },
+  ];
+
+  it('clips duties to each rolling window and grades against the limits', () => {
+    const limits = normalizeFtlLimits({ maxFlightHours7Days: 13, warningPercent: 'high' });
+    const status = computeFtlStatus(duties, limits, new Date('2026-10-19T00:00:00Z'));
+    const byKey = Object.fromEntries(status.totals.map((t) => [t.key, t]));
+
+    expect(limits.warningPercent).toBe(DEFAULT_FTL_LIMITS.warningPercent);
+    expect(byKey.maxFlightHours7Days).toMatchObject({ usedHours: 12, level: 'WARNING' });
+    expect(byKey.maxDutyHours7Days).toMatchObject({ usedHours: 16, level: 'OK' });
+    expect(byKey.maxFlightHours28Days?.usedHours).toBe(14);
+    expect(status.level).toBe('WARNING');
+    expect(status.lastRestHours).toBe(146);
+  });
+
+  it('refuses overlapping duties and insufficient rest', () => {
+    const overlapping = assessProposedDuty(
+      duties,
+      { start: '2026-10-18T17:00:00Z', end: '2026-10-18T20:00:00Z', sectors: [] },
+      DEFAULT_FTL_LIMITS
+    );
+    expect(overlapping.allowed).toBe(false);
+    expect(overlapping.violations[0]).toMatch(/^Overlaps an existing duty/);
+
+    const shortRest = assessProposedDuty(
+      duties,
+      { start: '2026-10-19T02:00:00Z', end: '2026-10-19T10:00:00Z', sectors: [] },
+      DEFAULT_FTL_LIMITS
+    );
+    expect(shortRest.violations).toEqual(['Only 8h rest before the duty (minimum 10h)']);
+  });
+
+  it('checks windows ending at later duties the proposed duty falls into', () => {
+    const limits = { ...DEFAULT_FTL_LIMITS, maxFlightHours7Days: 13 };
+    const proposed: FtlDuty = {
+      start: '2026-10-13T08:00:00Z',
+      end: '2026-10-13T18:00:00Z',
+      sectors: [{ blockOff: '2026-10-13T09:00:00Z', blockOn: '2026-10-13T15:00:00Z' }],
+    };
+
+    const assessment = assessProposedDuty(duties, proposed, limits);
+
+    expect(assessment.allowed).toBe(false);
+    expect(assessment.violations).toEqual(['Flight time (7 days): 20h exceeds the 13h limit']);
+    // Within the limit when measured at the end of the proposed duty itself
+    const atEnd = computeFtlStatus([...duties, proposed], limits, new Date(proposed.end));
+    expect(atEnd.totals[0]).toMatchObject({ usedHours: 12, level: 'WARNING' });
+    expect(limitsReached(atEnd)).toEqual([]);
+  });
+
+  it('groups duty log CSV rows into duties and reports bad lines', () => {
+    const { duties: parsed, errors } = parseDutyLogCsv(
+      [
+        'employee_id,duty_start,duty_end,duty_type,flight_number,departure,arrival,block_off,block_on',
+        'P100,2026-10-18 06:00,2026-10-18 14:00,flight,PX100,pom,lae,2026-10-18 07:00,2026-10-18 08:00',
+        'P100,2026-10-18 06:00,2026-10-18 14:00,flight,PX101,lae,pom,2026-10-18 09:00,2026-10-18 10:00',
+        'P200,2026-10-18 06:00,2026-10-18 12:00,standby,,,,,',
+        'P300,2026-10-18 06:00,2026-10-18 05:00,,,,,,',
+      ].join('\n')
+    );
+
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({ employeeId: 'P100', lines: [2, 3] });
+    expect(parsed[0]?.sectors.map((s) => s.departureAirport)).toEqual(['POM', 'LAE']);
+    expect(parsed[1]).toMatchObject({ dutyType: 'STANDBY', sectors: [] });
+    expect(errors).toEqual([{ line: 5, message: 'duty_end must be after duty_start' }]);
+  });
+});
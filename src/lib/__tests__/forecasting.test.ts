@@ -0,0 +1,97 @@
+/**
+ * Forecasting Tests
+ * Tests for the certification, leave demand and compliance forecast models
+ */
+
+import {
+  describe as describeValues,
+  estimateRenewalRate,
+  forecastSeasonalDemand,
+  leaveDaysInBucket,
+  monthlyBuckets,
+  projectCompliance,
+  projectKnownExpiries,
+  tCritical,
+} from '../forecasting';
+
+const bucket = (label: string, startDate: string, endDate: string) => ({
+  label,
+  startDate,
+  endDate,
+});
+
+describe('Forecasting', () => {
+  it('projects known expiries exactly', () => {
+    const buckets = monthlyBuckets(new Date(2026, 0, 15), 2);
+    expect(buckets.map((b) => b.label)).toEqual(['Feb 2026', 'Mar 2026']);
+
+    const forecast = projectKnownExpiries(
+      ['2026-02-01', '2026-02-28', '2026-03-10', null],
+      buckets
+    );
+    expect(forecast.map((p) => [p.predicted, p.lower, p.upper])).toEqual([
+      [2, 2, 2],
+      [1, 1, 1],
+    ]);
+  });
+
+  it('clips leave requests to the bucket', () => {
+    const period = bucket('RP3/2026', '2026-03-01', '2026-03-28');
+    expect(
+      leaveDaysInBucket(
+        [
+          { startDate: '2026-02-25', endDate: '2026-03-03' },
+          { startDate: '2026-03-10', endDate: '2026-03-11' },
+          { startDate: '2026-04-01', endDate: '2026-04-05' },
+        ],
+        period
+      )
+    ).toBe(5);
+  });
+
+  it('forecasts seasonal demand with a t prediction interval', () => {
+    const history = [
+      { ...bucket('RP3/2024', '2024-03-01', '2024-03-28'), season: 3, actual: 10 },
+      { ...bucket('RP3/2025', '2025-03-01', '2025-03-28'), season: 3, actual: 14 },
+      { ...bucket('RP4/2025', '2025-03-29', '2025-04-25'), season: 4, actual: 6 },
+    ];
+    const [rp3, rp4, rp5] = forecastSeasonalDemand(history, [
+      { ...bucket('RP3/2026', '2026-03-01', '2026-03-28'), season: 3 },
+      { ...bucket('RP4/2026', '2026-03-29', '2026-04-25'), season: 4 },
+      { ...bucket('RP5/2026', '2026-04-26', '2026-05-23'), season: 5 },
+    ]);
+
+    // mean 12, s = 2.83, t(1) = 12.706, margin = 12.706 * 2.83 * sqrt(1.5)
+    const margin = tCritical(1) * describeValues([10, 14]).sd * Math.sqrt(1.5);
+    expect(rp3).toMatchObject({ predicted: 12, observations: 2, lower: 0 });
+    expect(rp3!.upper).toBeCloseTo(12 + margin, 1);
+
+    // One observation borrows the pooled within-season spread
+    expect(rp4).toMatchObject({ predicted: 6, observations: 1 });
+    expect(rp4!.upper).not.toBeNull();
+
+    // No history: no prediction
+    expect(rp5).toMatchObject({ predicted: null, lower: null, upper: null, observations: 0 });
+  });
+
+  it('bounds compliance between no renewals and full renewal', () => {
+    const expiries = ['2026-01-10', '2026-02-10', '2026-06-01', '2026-07-01', null];
+    const [feb] = projectCompliance(
+      expiries,
+      '2026-01-05',
+      [bucket('Feb 2026', '2026-02-01', '2026-02-28')],
+      0.5
+    );
+
+    expect(feb).toMatchObject({ upper: 80, lower: 40, predicted: 60 });
+    expect(estimateRenewalRate(0, 0)).toBeNull();
+
+    const [unknown] = projectCompliance(
+      expiries,
+      '2026-01-05',
+      [bucket('Feb 2026', '2026-02-01', '2026-02-28')],
+      null
+    );
+    expect(unknown).toMatchObject({ predicted: null, lower: 40, upper: 80 });
+  });
+});
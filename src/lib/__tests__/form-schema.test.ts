@@ -0,0 +1,209 @@
+/**
+ * Form Schema Tests
+ * Tests for stored form definitions, conditional visibility, generated
+ * submission validation, pilot auto-fill and approval chains
+ */
+
+import {
+  approvalChain,
+  approvalDecision,
+  formDataErrors,
+  formDataSchema,
+  normalizeFormSchema,
+  pilotAutofill,
+  validateFormDefinition,
+  visibleFields,
+  type FormSchema,
+} from '../form-schema';
+
+const schema: FormSchema = {
+  fields: [
+    { name: 'pilot_name', type: 'text', label: 'Pilot', required: true, autofill: 'full_name' },
+    {
+      name: 'fit_for_duty',
+      type: 'radio',
+      label: 'Fit for Duty',
+      required: true,
+      options: ['Yes', 'No'],
+    },
+    {
+      name: 'reason',
+      type: 'textarea',
+      label: 'Reason',
+      required: true,
+      validation: { min_length: 10 },
+      visible_when: [{ field: 'fit_for_duty', operator: 'equals', value: 'No' }],
+    },
+    {
+      name: 'days_off',
+      type: 'number',
+      label: 'Days Off',
+      required: false,
+      validation: { min: 1, max: 30 },
+      visible_when: [{ field: 'reason', operator: 'filled' }],
+    },
+    { name: 'declaration', type: 'checkbox', label: 'Declaration', required: true },
+  ],
+  approval_steps: [],
+};
+
+describe('Form Schema', () => {
+  it('reads the original fields format and drops malformed definitions', () => {
+    const normalized = normalizeFormSchema({
+      fields: [
+        {
+          name: 'leave_type',
+          type: 'select',
+          label: 'Leave Type',
+          required: true,
+          options: ['RDO'],
+        },
+        { name: 'start_date', type: 'date', label: 'Start Date', required: true },
+        { name: 'Bad Name', type: 'text', label: 'Bad' },
+        { name: 'kind', type: 'select', label: 'Kind' },
+        {
+          name: 'notes',
+          type: 'textarea',
+          label: 'Notes',
+          visible_when: [{ field: 'later', operator: 'filled' }],
+          autofill: 'passport_number',
+        },
+      ],
+      approval_steps: [
+        { name: 'Chief Pilot', roles: ['manager', 'pilot'] },
+        { name: 'Nobody', roles: [] },
+      ],
+    });
+
+    expect(normalized.fields).toEqual([
+      { name: 'leave_type', type: 'select', label: 'Leave Type', required: true, options: ['RDO'] },
+      { name: 'start_date', type: 'date', label: 'Start Date', required: true },
+      { name: 'notes', type: 'textarea', label: 'Notes', required: false },
+    ]);
+    expect(normalized.approval_steps).toEqual([{ name: 'Chief Pilot', roles: ['manager'] }]);
+    expect(normalizeFormSchema(null)).toEqual({ fields: [], approval_steps: [] });
+
+    expect(
+      validateFormDefinition({
+        fields: [
+          { name: 'notes', type: 'text', label: '', required: false },
+          {
+            name: 'notes',
+            type: 'select',
+            label: 'Choice',
+            required: false,
+            visible_when: [{ field: 'missing', operator: 'filled' }],
+          },
+        ],
+        approval_steps: [{ name: 'Ops', roles: [] }],
+      })
+    ).toEqual([
+      'Field "notes" needs a label',
+      'Field name "notes" is used more than once',
+      '"Choice" needs at least one option',
+      '"Choice" can only depend on fields above it',
+      'Approval step 1 needs at least one role',
+    ]);
+  });
+
+  it('shows conditional fields only when their conditions hold', () => {
+    const names = (values: Record<string, unknown>) =>
+      visibleFields(schema, values).map((field) => field.name);
+
+    expect(names({ fit_for_duty: 'Yes', reason: 'stale answer' })).toEqual([
+      'pilot_name',
+      'fit_for_duty',
+      'declaration',
+    ]);
+    expect(names({ fit_for_duty: 'No', reason: 'Flu symptoms' })).toEqual([
+      'pilot_name',
+      'fit_for_duty',
+      'reason',
+      'days_off',
+      'declaration',
+    ]);
+  });
+
+  it('validates visible fields and strips answers to hidden ones', () => {
+    expect(
+      formDataSchema(schema).parse({
+        pilot_name: 'John Smith',
+        fit_for_duty: 'Yes',
+        reason: 'stale answer',
+        declaration: true,
+      })
+    ).toEqual({ pilot_name: 'John Smith', fit_for_duty: 'Yes', declaration: true });
+
+    expect(
+      formDataSchema(schema).parse({
+        pilot_name: 'John Smith',
+        fit_for_duty: 'No',
+        reason: 'Flu symptoms since Monday',
+        days_off: '3',
+        declaration: true,
+      })
+    ).toMatchObject({ days_off: 3 });
+
+    expect(
+      formDataErrors(schema, {
+        fit_for_duty: 'Maybe',
+        declaration: false,
+      })
+    ).toEqual({
+      pilot_name: 'Pilot is required',
+      fit_for_duty: 'Fit for Duty must be one of: Yes, No',
+      declaration: 'Declaration must be checked',
+    });
+    expect(
+      formDataErrors(schema, {
+        pilot_name: 'John Smith',
+        fit_for_duty: 'No',
+        reason: 'Flu',
+        days_off: 45,
+        declaration: true,
+      })
+    ).toEqual({
+      reason: 'Reason must be at least 10 characters',
+      days_off: 'Days Off must be at most 30',
+    });
+
+    expect(
+      pilotAutofill(schema, { first_name: 'John', last_name: 'Smith', employee_id: 'P123' })
+    ).toEqual({ pilot_name: 'John Smith' });
+  });
+
+  it('moves a submission through its approval chain', () => {
+    const steps = [
+      { name: 'Chief Pilot', roles: ['manager' as const] },
+      { name: 'Head of Flight Ops', roles: ['admin' as const] },
+    ];
+    const chain = approvalChain({ fields: [], approval_steps: steps }, true);
+
+    expect(approvalChain({ fields: [], approval_steps: [] }, true)).toEqual([
+      { name: 'Approval', roles: ['admin', 'manager'] },
+    ]);
+    expect(approvalChain({ fields: [], approval_steps: steps }, false)).toEqual([]);
+
+    expect(approvalDecision(chain, 0, 'approved', 'admin').errors).toEqual([
+      'Only manager can decide the "Chief Pilot" step',
+    ]);
+    expect(approvalDecision(chain, 0, 'approved', 'manager')).toEqual({
+      errors: [],
+      status: 'pending',
+      step: 1,
+    });
+    expect(approvalDecision(chain, 1, 'approved', 'admin')).toEqual({
+      errors: [],
+      status: 'approved',
+      step: 2,
+    });
+    expect(approvalDecision(chain, 1, 'rejected', 'admin')).toEqual({
+      errors: [],
+      status: 'rejected',
+      step: 1,
+    });
+    expect(approvalDecision(chain, 2, 'approved', 'admin').errors).toEqual([
+      'All approval steps are complete',
+    ]);
+  });
+});
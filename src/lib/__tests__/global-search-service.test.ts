@@ -0,0 +1,71 @@
+/**
+ * Global Search Service Tests
+ * Tests for limiting search_records() results to the user's data scope
+ */
+
+jest.mock('../supabase', () => {
+  const mockFrom = jest.fn();
+  const mockRpc = jest.fn();
+  const mockInstance = { from: mockFrom, rpc: mockRpc };
+
+  return {
+    getSupabaseAdmin: () => mockInstance,
+    __mockFrom: mockFrom,
+    __mockRpc: mockRpc,
+  };
+});
+
+import { createRBAC } from '../rbac';
+import { UNRESTRICTED_SCOPE, type DataScope } from '../data-scope';
+import { globalSearch } from '../global-search-service';
+
+const supabaseMock = jest.requireMock('../supabase');
+const mockFrom = supabaseMock.__mockFrom;
+const mockRpc = supabaseMock.__mockRpc;
+
+const searchRow = {
+  entity_type: 'pilot',
+  entity_id: 'pilot-1',
+  title: 'Kila Wari',
+  subtitle: 'P1234 • Captain',
+  headline: null,
+  rank: 1.5,
+  type_total: 1,
+};
+
+describe('Global Search Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: [searchRow], error: null });
+  });
+
+  it('limits a scoped user to the pilots in their groups', async () => {
+    const pilotsQuery = {
+      select: jest.fn().mockReturnThis(),
+      in: jest.fn().mockReturnThis(),
+      then: jest.fn((resolve) => resolve({ data: [{ id: 'pilot-1' }], error: null })),
+    };
+    mockFrom.mockReturnValue(pilotsQuery);
+    const scope: DataScope = { unrestricted: false, groups: { base: ['POM'] } };
+
+    const result = await globalSearch('kila', createRBAC('manager'), scope);
+
+    expect(mockFrom).toHaveBeenCalledWith('pilots');
+    expect(pilotsQuery.in).toHaveBeenCalledWith('base', ['POM']);
+    expect(mockRpc).toHaveBeenCalledWith(
+      'search_records',
+      expect.objectContaining({ search_query: 'kila', pilot_ids: ['pilot-1'] })
+    );
+    expect(result.results.map((row) => row.id)).toEqual(['pilot-1']);
+  });
+
+  it('searches every pilot for an unrestricted user', async () => {
+    await globalSearch('kila', createRBAC('admin'), UNRESTRICTED_SCOPE);
+
+    expect(mockFrom).not.toHaveBeenCalled();
+    expect(mockRpc).toHaveBeenCalledWith(
+      'search_records',
+      expect.objectContaining({ pilot_ids: null })
+    );
+  });
+});
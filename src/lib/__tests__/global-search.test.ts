@@ -0,0 +1,55 @@
+/**
+ * Global Search Tests
+ * Tests for permission-filtered search types, query normalisation, result
+ * paths, headline highlighting and facets
+ */
+
+import { createRBAC } from '../rbac';
+import {
+  highlightSegments,
+  normalizeSearchQuery,
+  searchFacets,
+  searchResultPath,
+  searchableTypes,
+} from '../global-search';
+
+describe('Global Search', () => {
+  it('only searches disciplinary matters for roles that may read them', () => {
+    expect(searchableTypes(createRBAC('manager'))).toContain('disciplinary_matter');
+    expect(searchableTypes(createRBAC('user'))).not.toContain('disciplinary_matter');
+    expect(
+      searchableTypes(createRBAC('user'), ['pilot', 'disciplinary_matter', 'unknown'])
+    ).toEqual(['pilot']);
+    expect(searchableTypes(createRBAC('user', ['disciplinary:read']))).toContain(
+      'disciplinary_matter'
+    );
+    expect(searchableTypes(createRBAC('admin'), [])).toHaveLength(6);
+  });
+
+  it('normalises queries and rejects ones too short to search', () => {
+    expect(normalizeSearchQuery('  line   check ')).toBe('line check');
+    expect(normalizeSearchQuery(' a ')).toBeNull();
+    expect(normalizeSearchQuery(null)).toBeNull();
+    expect(normalizeSearchQuery('x'.repeat(150))).toHaveLength(100);
+  });
+
+  it('splits highlighted headlines into segments', () => {
+    expect(highlightSegments('Annual \u0001line\u0002 \u0001check\u0002 due')).toEqual([
+      { text: 'Annual ', highlighted: false },
+      { text: 'line', highlighted: true },
+      { text: ' ', highlighted: false },
+      { text: 'check', highlighted: true },
+      { text: ' due', highlighted: false },
+    ]);
+    expect(highlightSegments(null)).toEqual([]);
+  });
+
+  it('builds result paths and facets in a stable order', () => {
+    expect(searchResultPath('pilot', 'p1')).toBe('/dashboard/pilots/p1');
+    expect(searchResultPath('document', 'd1')).toBe('/dashboard/documents');
+    expect(searchFacets({ task: 2, pilot: 3, document: 0 })).toEqual([
+      { type: 'pilot', label: 'Pilots', count: 3 },
+      { type: 'task', label: 'Tasks', count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * iCalendar Tests
+ * Tests for building subscription feeds (all-day events, escaping, folding and
+ * alarms) and parsing uploaded calendar files for leave import
+ */
+
+import { buildCalendar, parseCalendar } from '../ical';
+
+describe('iCalendar', () => {
+  const now = new Date('2026-10-19T08:00:00Z');
+
+  it('builds all-day events with exclusive end dates and reminder alarms', () => {
+    const ics = buildCalendar(
+      'Fleet',
+      [
+        {
+          uid: 'check-1@air-niugini-pms',
+          summary: 'LPC expires',
+          start: '2026-11-30',
+          alarms: [{ daysBefore: 30, description: 'LPC expires in 30 days' }],
+        },
+        {
+          uid: 'leave-1@air-niugini-pms',
+          summary: 'ANNUAL leave',
+          start: '2026-12-01',
+          end: '2026-12-14',
+          status: 'CONFIRMED',
+        },
+      ],
+      { now }
+    );
+    const lines = ics.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('DTSTAMP:20261019T080000Z');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20261130');
+    expect(lines).toContain('DTEND;VALUE=DATE:20261201');
+    expect(lines).toContain('TRIGGER:-P30D');
+    expect(lines).toContain('DTEND;VALUE=DATE:20261215');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('escapes text and folds long lines', () => {
+    const description = 'Roster; period, notes\n'.repeat(10);
+    const ics = buildCalendar('Fleet', [
+      { uid: 'x', summary: 'RP12/2026', description, start: '2026-10-19' },
+    ]);
+
+    expect(ics.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics).toContain(String.raw`DESCRIPTION:Roster\; period\, notes\n`);
+
+    const [event] = parseCalendar(ics).events;
+    expect(event?.description).toBe(description);
+  });
+
+  it('parses date and date-time events into inclusive day ranges', () => {
+    const { events, issues } = parseCalendar(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:a',
+        'SUMMARY:Holiday in Cairns',
+        'DTSTART;VALUE=DATE:20261201',
+        'DTEND;VALUE=DATE:20261208',
+        'CATEGORIES:Annual,Travel',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:RDO',
+        'DTSTART;TZID=Pacific/Port_Moresby:20261110T000000',
+        'DTEND;TZID=Pacific/Port_Moresby:20261111T000000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Medical',
+        'DTSTART:20261112T090000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n')
+    );
+
+    expect(issues).toEqual([]);
+    expect(events.map((e) => [e.summary, e.start, e.end])).toEqual([
+      ['Holiday in Cairns', '2026-12-01', '2026-12-07'],
+      ['RDO', '2026-11-10', '2026-11-10'],
+      ['Medical', '2026-11-12', '2026-11-12'],
+    ]);
+    expect(events[0]?.categories).toEqual(['Annual', 'Travel']);
+  });
+
+  it('reports unreadable and cancelled events', () => {
+    expect(parseCalendar('not a calendar').issues).toEqual([
+      'File is not an iCalendar (.ics) file',
+    ]);
+
+    const { events, issues } = parseCalendar(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'SUMMARY:No date',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Off',
+        'STATUS:CANCELLED',
+        'DTSTART;VALUE=DATE:20261201',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n')
+    );
+
+    expect(events).toEqual([]);
+    expect(issues).toEqual([
+      'Event 1 (No date) has no valid start date',
+      'Event 2 (Off) is cancelled',
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Leave Bid Allocation Tests
+ * Tests for the seniority-based leave bid allocation engine
+ */
+
+import {
+  allocateLeaveBids,
+  parseBidChoices,
+  parseBidDateRange,
+  type AllocationBid,
+  type AllocationPilot,
+  type LeaveBidAllocationInput,
+} from '../leave-bid-allocation';
+
+const pilots: AllocationPilot[] = [
+  ...Array.from({ length: 12 }, (_, i) => ({
+    id: `cpt-${i}`,
+    name: `Captain ${i}`,
+    employeeId: `C${i}`,
+    role: 'Captain',
+    seniorityNumber: i + 1,
+  })),
+  ...Array.from({ length: 10 }, (_, i) => ({
+    id: `fo-${i}`,
+    name: `First Officer ${i}`,
+    employeeId: `F${i}`,
+    role: 'First Officer',
+    seniorityNumber: i + 20,
+  })),
+];
+
+const bid = (id: string, pilotId: string, ...ranges: [string, string][]): AllocationBid => ({
+  id,
+  pilotId,
+  priority: 'HIGH',
+  submittedAt: '2026-01-01T00:00:00Z',
+  choices: ranges.map(([startDate, endDate], index) => ({
+    choice: index + 1,
+    text: `${startDate} - ${endDate}`,
+    startDate,
+    endDate,
+  })),
+});
+
+const input: LeaveBidAllocationInput = {
+  rosterPeriod: 'RP3/2026',
+  pilots,
+  approvedLeave: [],
+  requirements: {
+    minimumCaptains: 10,
+    minimumFirstOfficers: 10,
+    numberOfAircraft: 2,
+    captainsPerHull: 5,
+    firstOfficersPerHull: 5,
+  },
+  // Submitted out of seniority order on purpose
+  bids: [
+    bid('b-junior', 'cpt-5', ['2026-03-02', '2026-03-08'], ['2026-03-16', '2026-03-22']),
+    bid('b-senior', 'cpt-0', ['2026-03-02', '2026-03-08']),
+    bid('b-middle', 'cpt-2', ['2026-03-05', '2026-03-06'], ['2026-03-10', '2026-03-12']),
+    bid('b-fo', 'fo-3', ['2026-03-02', '2026-03-08']),
+  ],
+};
+
+describe('Leave Bid Allocation', () => {
+  it('reads bid date ranges in the formats pilots submit', () => {
+    expect(parseBidDateRange('Mar 2 - Mar 8, 2026')).toEqual({
+      startDate: '2026-03-02',
+      endDate: '2026-03-08',
+    });
+    expect(parseBidDateRange('Dec 28 - Jan 5, 2027')).toEqual({
+      startDate: '2026-12-28',
+      endDate: '2027-01-05',
+    });
+    expect(parseBidDateRange('2026-03-02 to 2026-03-08')).toEqual({
+      startDate: '2026-03-02',
+      endDate: '2026-03-08',
+    });
+    expect(parseBidDateRange('sometime in March')).toBeNull();
+
+    const choices = parseBidChoices(
+      'Mar 2 - Mar 8, 2026',
+      'Choice 2: Mar 16 - Mar 22, 2026 | Choice 3: Apr 1 - Apr 3, 2026'
+    );
+    expect(choices.map((c) => [c.choice, c.startDate])).toEqual([
+      [1, '2026-03-02'],
+      [2, '2026-03-16'],
+      [3, '2026-04-01'],
+    ]);
+  });
+
+  it('awards by seniority within each rank and falls back to alternatives', () => {
+    const result = allocateLeaveBids(input);
+    const award = (bidId: string) => result.awards.find((a) => a.bidId === bidId)!;
+
+    expect(award('b-senior')).toMatchObject({ outcome: 'AWARDED', awardedChoice: 1 });
+    expect(award('b-middle')).toMatchObject({ outcome: 'AWARDED', awardedChoice: 1 });
+    expect(award('b-junior')).toMatchObject({
+      outcome: 'AWARDED',
+      awardedChoice: 2,
+      startDate: '2026-03-16',
+    });
+    expect(award('b-junior').attempts[0]).toMatchObject({
+      feasible: false,
+      blockingDate: '2026-03-05',
+      availableOnBlockingDate: 10,
+    });
+    expect(award('b-junior').explanation).toContain('only 10 Captains available on 2026-03-05');
+
+    // First Officers are at their minimum already; Captain awards do not affect them
+    expect(award('b-fo')).toMatchObject({ outcome: 'UNAWARDED', awardedChoice: null });
+    expect(result.summary).toMatchObject({
+      totalBids: 4,
+      awarded: 3,
+      awardedPreferred: 2,
+      awardedAlternative: 1,
+      unawarded: 1,
+    });
+  });
+
+  it('counts approved leave and reports per pilot', () => {
+    const result = allocateLeaveBids({
+      ...input,
+      approvedLeave: [{ pilotId: 'cpt-9', startDate: '2026-03-01', endDate: '2026-03-31' }],
+    });
+
+    const senior = result.pilots.find((p) => p.pilotId === 'cpt-0')!;
+    expect(senior).toMatchObject({ seniorityPosition: 1, role: 'Captain' });
+    expect(senior.awards).toMatchObject([{ outcome: 'AWARDED' }]);
+
+    const middle = result.pilots.find((p) => p.pilotId === 'cpt-2')!;
+    expect(middle.awards).toMatchObject([
+      {
+        outcome: 'AWARDED',
+        awardedChoice: 2,
+        attempts: [{ feasible: false }, { feasible: true }],
+      },
+    ]);
+  });
+
+  it('keeps locked awards and is deterministic on re-runs', () => {
+    const lockedAwards = [
+      { bidId: 'b-junior', choice: 1, startDate: '2026-03-02', endDate: '2026-03-08' },
+    ];
+
+    const first = allocateLeaveBids({ ...input, lockedAwards });
+    const second = allocateLeaveBids({
+      ...input,
+      bids: [...input.bids].reverse(),
+      lockedAwards,
+    });
+
+    expect(second.awards).toEqual(first.awards);
+    expect(first.awards.find((a) => a.bidId === 'b-junior')).toMatchObject({
+      locked: true,
+      awardedChoice: 1,
+    });
+    // The locked award is booked ahead of more senior bids
+    expect(first.awards.find((a) => a.bidId === 'b-middle')).toMatchObject({
+      awardedChoice: 2,
+    });
+  });
+});
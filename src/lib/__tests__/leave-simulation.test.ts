@@ -0,0 +1,137 @@
+/**
+ * Leave Simulation Tests
+ * Tests for the what-if crew availability simulation engine
+ */
+
+import {
+  applyAircraftCount,
+  runLeaveSimulation,
+  simulateCrewAvailability,
+  type LeaveSimulationInput,
+  type SimulationPilot,
+} from '../leave-simulation';
+
+const captains: SimulationPilot[] = Array.from({ length: 11 }, (_, i) => ({
+  id: `cpt-${i}`,
+  name: `Captain ${i}`,
+  role: 'Captain',
+  dateOfBirth: '1980-01-01',
+}));
+
+const firstOfficers: SimulationPilot[] = Array.from({ length: 12 }, (_, i) => ({
+  id: `fo-${i}`,
+  name: `First Officer ${i}`,
+  role: 'First Officer',
+  dateOfBirth: '1990-01-01',
+}));
+
+const input: LeaveSimulationInput = {
+  startDate: '2026-03-01',
+  endDate: '2026-03-10',
+  pilots: [...captains, ...firstOfficers],
+  leaveRequests: [
+    {
+      id: 'lr-1',
+      pilotId: 'cpt-0',
+      startDate: '2026-03-02',
+      endDate: '2026-03-04',
+      status: 'APPROVED',
+    },
+    {
+      id: 'lr-2',
+      pilotId: 'cpt-1',
+      startDate: '2026-03-03',
+      endDate: '2026-03-05',
+      status: 'PENDING',
+    },
+    {
+      id: 'lr-3',
+      pilotId: 'fo-0',
+      startDate: '2026-03-01',
+      endDate: '2026-03-10',
+      status: 'DENIED',
+    },
+  ],
+  requirements: {
+    minimumCaptains: 10,
+    minimumFirstOfficers: 10,
+    numberOfAircraft: 2,
+    captainsPerHull: 5,
+    firstOfficersPerHull: 5,
+  },
+  retirementAge: 65,
+};
+
+const onDate = <T extends { date: string }>(availability: T[], date: string) =>
+  availability.find((day) => day.date === date)!;
+
+describe('Leave Simulation', () => {
+  it('counts approved and pending leave by default', () => {
+    const { availability, summary } = simulateCrewAvailability(input);
+    expect(availability).toHaveLength(10);
+
+    const day = onDate(availability, '2026-03-03');
+    expect(day.onLeaveCaptains).toBe(2);
+    expect(day.availableCaptains).toBe(9);
+    expect(day.meetsMinimum).toBe(false);
+    expect(summary.daysBelowMinimum).toBe(2);
+  });
+
+  it('applies hypothetical decisions', () => {
+    const { availability, summary } = simulateCrewAvailability(input, {
+      decisions: { 'lr-2': 'DENIED', 'lr-3': 'APPROVED' },
+    });
+
+    const day = onDate(availability, '2026-03-03');
+    expect(day.availableCaptains).toBe(10);
+    expect(day.availableFirstOfficers).toBe(11);
+    expect(summary.daysBelowMinimum).toBe(0);
+  });
+
+  it('adds new hires from their start date', () => {
+    const { availability } = simulateCrewAvailability(input, {
+      newHires: [{ role: 'Captain', startDate: '2026-03-04', count: 2 }],
+    });
+
+    expect(onDate(availability, '2026-03-03')).toMatchObject({ totalCaptains: 11 });
+    expect(onDate(availability, '2026-03-04')).toMatchObject({ totalCaptains: 13 });
+  });
+
+  it('removes pilots from their retirement date', () => {
+    const { availability } = simulateCrewAvailability(input, {
+      retirements: [{ pilotId: 'fo-1', date: '2026-03-06' }],
+    });
+
+    expect(onDate(availability, '2026-03-05')).toMatchObject({ totalFirstOfficers: 12 });
+    expect(onDate(availability, '2026-03-06')).toMatchObject({ totalFirstOfficers: 11 });
+  });
+
+  it('applies retirements due by retirement age', () => {
+    const retiring: LeaveSimulationInput = {
+      ...input,
+      pilots: [
+        ...input.pilots,
+        { id: 'cpt-old', name: 'Senior Captain', role: 'Captain', dateOfBirth: '1961-03-05' },
+      ],
+    };
+
+    const result = runLeaveSimulation(retiring);
+    expect(onDate(result.availability, '2026-03-04')).toMatchObject({ totalCaptains: 12 });
+    expect(onDate(result.availability, '2026-03-05')).toMatchObject({ totalCaptains: 11 });
+    expect(result.retirements.map((r) => r.pilotId)).toEqual(['cpt-old']);
+
+    const ignored = simulateCrewAvailability(retiring, { applyScheduledRetirements: false });
+    expect(onDate(ignored.availability, '2026-03-10')).toMatchObject({ totalCaptains: 12 });
+  });
+
+  it('raises the minimum with the aircraft count', () => {
+    expect(applyAircraftCount(input.requirements, 3)).toMatchObject({
+      minimumCaptains: 15,
+      minimumFirstOfficers: 15,
+    });
+
+    const result = runLeaveSimulation(input, { numberOfAircraft: 3 });
+    expect(result.summary.daysBelowMinimum).toBe(10);
+    expect(result.baseline.summary.daysBelowMinimum).toBe(2);
+  });
+});
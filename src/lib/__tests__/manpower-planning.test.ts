@@ -0,0 +1,89 @@
+/**
+ * Manpower Planning Tests
+ * Tests for the multi-year crew projection and shortfall windows
+ */
+
+import { projectManpower, type ManpowerPilot } from '../manpower-planning';
+
+const pilot = (
+  id: string,
+  role: ManpowerPilot['role'],
+  seniorityNumber: number,
+  dateOfBirth: string | null = '1990-06-15',
+  qualifications: string[] = []
+): ManpowerPilot => ({ id, name: id, role, seniorityNumber, dateOfBirth, qualifications });
+
+const requirements = {
+  numberOfAircraft: 1,
+  captainsPerHull: 2,
+  firstOfficersPerHull: 2,
+  pilotsPerTrainingCaptain: 10,
+  pilotsPerExaminer: 10,
+  retirementAge: 65,
+};
+
+describe('Manpower Planning', () => {
+  const pilots = [
+    pilot('cpt-retiring', 'Captain', 1, '1961-03-10', ['training_captain', 'examiner']),
+    pilot('cpt-2', 'Captain', 2),
+    pilot('fo-senior', 'First Officer', 3),
+    pilot('fo-junior', 'First Officer', 4),
+  ];
+
+  it('retires captains in their retirement month and opens a shortfall window', () => {
+    const projection = projectManpower(pilots, requirements, {
+      startMonth: '2026-01',
+      months: 6,
+    });
+
+    expect(projection.months.map((m) => m.captains.available)).toEqual([2, 2, 1, 1, 1, 1]);
+    expect(projection.months[2]?.events).toMatchObject([
+      { type: 'RETIREMENT', pilotId: 'cpt-retiring' },
+    ]);
+    expect(projection.shortfalls).toEqual(
+      expect.arrayContaining([
+        { category: 'captains', from: '2026-03', to: '2026-06', months: 4, worstShortfall: 1 },
+        { category: 'examiners', from: '2026-03', to: '2026-06', months: 4, worstShortfall: 1 },
+      ])
+    );
+    expect(projection.summary.firstShortfall.firstOfficers).toBeNull();
+  });
+
+  it('upgrades the most senior First Officer and backfills with hires', () => {
+    const projection = projectManpower(pilots, requirements, {
+      startMonth: '2026-01',
+      months: 6,
+      upgrades: [{ month: '2026-03', count: 1 }],
+      hires: [{ month: '2026-04', role: 'First Officer', count: 1 }],
+    });
+
+    expect(projection.months[2]?.events[0]).toMatchObject({
+      type: 'UPGRADE',
+      pilotId: 'fo-senior',
+    });
+    expect(projection.months.map((m) => m.captains.surplus)).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(projection.months.map((m) => m.firstOfficers.available)).toEqual([2, 2, 1, 2, 2, 2]);
+    expect(projection.shortfalls).toContainEqual({
+      category: 'firstOfficers',
+      from: '2026-03',
+      to: '2026-03',
+      months: 1,
+      worstShortfall: 1,
+    });
+    expect(projection.summary).toMatchObject({ upgrades: 1, hires: 1, retirements: 1 });
+  });
+
+  it('raises requirements with fleet growth and records unfilled upgrades', () => {
+    const projection = projectManpower(pilots.slice(1), requirements, {
+      startMonth: '2026-01',
+      months: 3,
+      fleetChanges: [{ month: '2026-02', numberOfAircraft: 2 }],
+      upgrades: [{ month: '2026-03', count: 5 }],
+    });
+
+    expect(projection.months.map((m) => m.captains.required)).toEqual([2, 4, 4]);
+    expect(projection.months.map((m) => m.captains.available)).toEqual([1, 1, 3]);
+    expect(projection.summary.unfilledUpgrades).toBe(3);
+    expect(projection.endMonth).toBe('2026-03');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Notification Catalogue Tests
+ * Tests for how notifications are planned per channel from preferences,
+ * quiet hours in Port Moresby time, daily digests and delivery retries
+ */
+
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  buildDigest,
+  nextDeliveryAttempt,
+  planDeliveries,
+  quietHoursEnd,
+  type NotificationPreferences,
+} from '../notification-catalogue';
+
+const prefs = (changes: Partial<NotificationPreferences> = {}): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...changes,
+});
+
+const summary = (plans: ReturnType<typeof planDeliveries>) =>
+  plans.map(({ channel, status, reason }) => ({ channel, status, reason }));
+
+describe('Notification Catalogue', () => {
+  // 10:00 in Port Moresby (UTC+10)
+  const morning = new Date('2026-10-19T00:00:00Z');
+
+  it('skips opted-out types and disabled channels, but never transactional types', () => {
+    expect(summary(planDeliveries('certification_expiring', prefs(), morning))).toEqual([
+      { channel: 'in_app', status: 'sent', reason: undefined },
+      { channel: 'email', status: 'pending', reason: undefined },
+      { channel: 'sms', status: 'skipped', reason: 'SMS turned off' },
+      { channel: 'push', status: 'skipped', reason: 'Push notifications turned off' },
+    ]);
+
+    const optedOut = prefs({ certification_expiry_alerts: false });
+    expect(
+      planDeliveries('certification_expiring', optedOut, morning).every(
+        (plan) => plan.status === 'skipped' && plan.reason === 'Turned off in preferences'
+      )
+    ).toBe(true);
+
+    const silent = prefs({ in_app_enabled: false, email_enabled: false });
+    expect(summary(planDeliveries('pilot_registration_approved', silent, morning))).toEqual([
+      { channel: 'in_app', status: 'sent', reason: undefined },
+      { channel: 'email', status: 'pending', reason: undefined },
+    ]);
+
+    expect(
+      summary(
+        planDeliveries(
+          'system_announcement',
+          prefs({ channel_overrides: { system_announcement: ['in_app'] } }),
+          morning
+        )
+      )
+    ).toEqual([{ channel: 'in_app', status: 'sent', reason: undefined }]);
+  });
+
+  it('holds deliveries until quiet hours end, including windows over midnight', () => {
+    const overnight = prefs({ quiet_hours_start: '22:00', quiet_hours_end: '06:00' });
+
+    // 22:30 and 03:00 local both wait for 06:00 local (20:00 UTC)
+    expect(quietHoursEnd(new Date('2026-10-19T12:30:00Z'), overnight)).toEqual(
+      new Date('2026-10-19T20:00:00Z')
+    );
+    expect(quietHoursEnd(new Date('2026-10-19T17:00:00Z'), overnight)).toEqual(
+      new Date('2026-10-19T20:00:00Z')
+    );
+    expect(quietHoursEnd(new Date('2026-10-19T21:00:00Z'), overnight)).toBeNull();
+
+    const lunch = prefs({ quiet_hours_start: '12:00', quiet_hours_end: '14:00' });
+    expect(quietHoursEnd(new Date('2026-10-19T02:30:00Z'), lunch)).toEqual(
+      new Date('2026-10-19T04:00:00Z')
+    );
+
+    const late = new Date('2026-10-19T12:30:00Z');
+    const [inApp, email] = planDeliveries('system_announcement', overnight, late);
+    expect(inApp).toMatchObject({ status: 'sent', scheduledFor: late });
+    expect(email).toMatchObject({
+      status: 'pending',
+      scheduledFor: new Date('2026-10-19T20:00:00Z'),
+      reason: 'Quiet hours',
+    });
+
+    const [, urgentEmail] = planDeliveries('system_announcement', overnight, late, {
+      urgent: true,
+    });
+    expect(urgentEmail).toMatchObject({ status: 'pending', scheduledFor: late });
+  });
+
+  it('batches non-urgent email into the next digest, grouped by category', () => {
+    const digest = prefs({ daily_digest: true, digest_time: '08:00:00' });
+
+    const [, email] = planDeliveries('leave_request_submitted', digest, morning);
+    expect(email).toMatchObject({
+      status: 'digest',
+      scheduledFor: new Date('2026-10-19T22:00:00Z'),
+    });
+
+    const [, urgent] = planDeliveries('leave_request_submitted', digest, morning, {
+      urgent: true,
+    });
+    expect(urgent).toMatchObject({ status: 'pending', scheduledFor: morning });
+
+    const item = (type: string, title: string, created_at: string) => ({
+      type,
+      title,
+      message: title,
+      link: null,
+      created_at,
+    });
+    const built = buildDigest(
+      [
+        item('system_announcement', 'Maintenance window', '2026-10-19T01:00:00Z'),
+        item('leave_request_submitted', 'Second leave request', '2026-10-19T03:00:00Z'),
+        item('certification_expiring', 'Line check expiring', '2026-10-19T02:00:00Z'),
+        item('leave_request_submitted', 'First leave request', '2026-10-19T00:30:00Z'),
+      ],
+      '20 Oct 2026'
+    );
+
+    expect(built).toMatchObject({ date: '20 Oct 2026', count: 4 });
+    expect(
+      built.sections.map((section) => [section.label, section.items.map((i) => i.title)])
+    ).toEqual([
+      ['Certifications', ['Line check expiring']],
+      ['Leave', ['First leave request', 'Second leave request']],
+      ['System', ['Maintenance window']],
+    ]);
+  });
+
+  it('retries failed deliveries with growing delays, then gives up', () => {
+    const now = new Date('2026-10-19T00:00:00Z');
+
+    expect(nextDeliveryAttempt(1, now)).toEqual(new Date('2026-10-19T00:05:00Z'));
+    expect(nextDeliveryAttempt(2, now)).toEqual(new Date('2026-10-19T00:15:00Z'));
+    expect(nextDeliveryAttempt(3, now)).toEqual(new Date('2026-10-19T01:00:00Z'));
+    expect(nextDeliveryAttempt(4, now)).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Offline Sync Tests
+ * Tests for replaying queued offline changes against the API and settling
+ * changes that conflict with newer edits
+ */
+
+import {
+  buildSyncRequest,
+  classifySyncResponse,
+  conflictingFields,
+  rebaseQueuedItems,
+  resolveConflict,
+  type SyncQueueItem,
+} from '../offline-sync';
+
+describe('Offline Sync', () => {
+  const pilotUpdate: SyncQueueItem = {
+    id: 'q1',
+    timestamp: 1,
+    operation: 'update',
+    resource: 'pilot',
+    recordId: 'p1',
+    data: { first_name: 'Jon', base: 'LAE', fleet: 'B767' },
+    baseVersion: '2026-10-01T00:00:00+00:00',
+    base: { first_name: 'John', base: 'POM', fleet: 'B767' },
+    retryCount: 0,
+    status: 'conflict',
+    conflict: {
+      server: {
+        first_name: 'John',
+        base: 'HGU',
+        fleet: 'B737',
+        updated_at: '2026-10-02T00:00:00+00:00',
+      },
+      detectedAt: 2,
+    },
+  };
+
+  it('replays changes against the routes with their version', () => {
+    expect(buildSyncRequest(pilotUpdate)).toEqual({
+      method: 'PUT',
+      url: '/api/pilots?id=p1',
+      headers: { 'If-Match': '"2026-10-01T00:00:00+00:00"' },
+      body: pilotUpdate.data,
+    });
+    expect(
+      buildSyncRequest({
+        ...pilotUpdate,
+        resource: 'certification',
+        recordId: 'c1',
+        pilotId: 'p1',
+        data: { check_type_id: 't1', expiry_date: '2027-01-31' },
+      })
+    ).toMatchObject({
+      method: 'PUT',
+      url: '/api/certifications?pilotId=p1',
+      body: { certifications: [{ checkTypeId: 't1', expiryDate: '2027-01-31' }] },
+    });
+    expect(
+      buildSyncRequest({ ...pilotUpdate, resource: 'leave', recordId: 'l1', baseVersion: null })
+    ).toMatchObject({ method: 'PATCH', headers: {}, body: { id: 'l1', first_name: 'Jon' } });
+    expect(() => buildSyncRequest({ ...pilotUpdate, recordId: undefined })).toThrow();
+  });
+
+  it('classifies responses into synced, conflict, retry and rejected', () => {
+    expect(classifySyncResponse(200)).toBe('synced');
+    expect(classifySyncResponse(201)).toBe('synced');
+    expect(classifySyncResponse(409)).toBe('conflict');
+    expect(classifySyncResponse(0)).toBe('retry');
+    expect(classifySyncResponse(503)).toBe('retry');
+    expect(classifySyncResponse(400)).toBe('rejected');
+    expect(classifySyncResponse(404)).toBe('rejected');
+  });
+
+  it('reports only the fields both sides changed', () => {
+    // fleet was not changed offline, first_name not on the server
+    expect(conflictingFields(pilotUpdate)).toEqual(['base']);
+    expect(conflictingFields({ ...pilotUpdate, operation: 'delete', data: {} }).sort()).toEqual([
+      'base',
+      'fleet',
+    ]);
+    expect(conflictingFields({ ...pilotUpdate, conflict: undefined })).toEqual([]);
+  });
+
+  it('resolves conflicts onto the server version', () => {
+    expect(resolveConflict(pilotUpdate, 'server')).toBeNull();
+    // Fields left as they were (fleet) keep the server's value
+    expect(resolveConflict(pilotUpdate, 'mine')).toMatchObject({
+      status: 'pending',
+      baseVersion: '2026-10-02T00:00:00+00:00',
+      data: { first_name: 'Jon', base: 'LAE', fleet: 'B737' },
+      conflict: undefined,
+    });
+    expect(resolveConflict(pilotUpdate, 'merge', { base: 'server' })?.data).toEqual({
+      first_name: 'Jon',
+      base: 'HGU',
+      fleet: 'B737',
+    });
+    expect(
+      resolveConflict({ ...pilotUpdate, data: { base: 'LAE' } }, 'merge', { base: 'server' })
+    ).toBeNull();
+
+    const later = { ...pilotUpdate, id: 'q2', status: 'pending' as const };
+    const [, rebased] = rebaseQueuedItems([pilotUpdate, later], pilotUpdate, {
+      updated_at: '2026-10-03T00:00:00+00:00',
+    });
+    expect(rebased?.baseVersion).toBe('2026-10-03T00:00:00+00:00');
+  });
+});
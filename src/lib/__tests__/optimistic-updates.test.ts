@@ -0,0 +1,135 @@
+/**
+ * Optimistic Updates Tests
+ * Tests that an edit made offline is queued instead of sent, and that
+ * replaying it against a record changed in the meantime holds it as a conflict
+ */
+
+jest.mock('../offline-queue', () => {
+  const store = new Map();
+
+  return {
+    getQueuedMutations: jest.fn(async () =>
+      Array.from(store.values()).sort((a, b) => a.timestamp - b.timestamp)
+    ),
+    putQueuedMutation: jest.fn(async (item: { id: string }) => {
+      store.set(item.id, item);
+    }),
+    putQueuedMutations: jest.fn(async (items: Array<{ id: string }>) => {
+      items.forEach((item) => store.set(item.id, item));
+    }),
+    deleteQueuedMutation: jest.fn(async (id: string) => {
+      store.delete(id);
+    }),
+    clearQueuedMutations: jest.fn(async () => store.clear()),
+  };
+});
+
+jest.mock('../api-client', () => ({
+  authenticatedFetch: jest.fn(),
+}));
+
+jest.mock('react-hot-toast', () => {
+  const toast = Object.assign(jest.fn(), {
+    loading: jest.fn(() => 'toast-id'),
+    success: jest.fn(),
+    error: jest.fn(),
+    dismiss: jest.fn(),
+  });
+  return { __esModule: true, default: toast };
+});
+
+import { QueryClient } from '@tanstack/react-query';
+import {
+  clearSyncQueue,
+  getSyncQueue,
+  optimisticPilotUpdate,
+  processSyncQueue,
+  resolveSyncConflict,
+} from '../optimistic-updates';
+
+const { authenticatedFetch: mockFetch } = jest.requireMock('../api-client');
+
+function setOnline(online: boolean) {
+  Object.defineProperty(window.navigator, 'onLine', { value: online, configurable: true });
+}
+
+function respond(status: number, body: unknown) {
+  return { status, ok: status < 400, json: async () => body };
+}
+
+describe('Optimistic Updates', () => {
+  const loaded = { id: 'pilot-1', first_name: 'John', base: 'POM', updated_at: 'v1' };
+  const server = { ...loaded, base: 'LAE', updated_at: 'v2' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await clearSyncQueue();
+  });
+
+  afterEach(() => setOnline(true));
+
+  it('queues an edit made offline and holds it as a conflict when the pilot changed meanwhile', async () => {
+    const queryClient = new QueryClient();
+    const updateFn = jest.fn();
+    setOnline(false);
+
+    const result = await optimisticPilotUpdate(
+      queryClient,
+      'pilot-1',
+      updateFn,
+      { first_name: 'Jon' },
+      loaded
+    );
+
+    expect(result).toBeNull();
+    expect(updateFn).not.toHaveBeenCalled();
+    const [queued] = await getSyncQueue();
+    expect(queued).toMatchObject({
+      resource: 'pilot',
+      recordId: 'pilot-1',
+      data: { first_name: 'Jon' },
+      baseVersion: 'v1',
+      status: 'pending',
+    });
+
+    setOnline(true);
+    mockFetch.mockResolvedValueOnce(
+      respond(409, { success: false, error: 'This record was changed', data: server })
+    );
+
+    await expect(processSyncQueue(queryClient)).resolves.toEqual({
+      synced: 0,
+      conflicts: 1,
+      failed: 0,
+    });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('/api/pilots?id=pilot-1');
+    expect(init.headers['If-Match']).toBe('"v1"');
+    expect(JSON.parse(init.body)).toEqual({ first_name: 'Jon' });
+    const [conflicted] = await getSyncQueue();
+    expect(conflicted?.status).toBe('conflict');
+    expect(conflicted?.conflict?.server).toEqual(server);
+  });
+
+  it('replays a conflicted edit against the newer version when the user keeps theirs', async () => {
+    const queryClient = new QueryClient();
+    setOnline(false);
+    await optimisticPilotUpdate(queryClient, 'pilot-1', jest.fn(), { first_name: 'Jon' }, loaded);
+
+    setOnline(true);
+    mockFetch
+      .mockResolvedValueOnce(respond(409, { success: false, data: server }))
+      .mockResolvedValueOnce(
+        respond(200, { success: true, data: { ...server, first_name: 'Jon', updated_at: 'v3' } })
+      );
+    await processSyncQueue(queryClient);
+    const [conflicted] = await getSyncQueue();
+
+    await resolveSyncConflict(queryClient, conflicted?.id ?? '', 'mine');
+
+    const [, init] = mockFetch.mock.calls[1];
+    expect(init.headers['If-Match']).toBe('"v2"');
+    expect(JSON.parse(init.body)).toEqual({ first_name: 'Jon' });
+    await expect(getSyncQueue()).resolves.toEqual([]);
+  });
+});
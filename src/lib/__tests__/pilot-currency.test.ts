@@ -0,0 +1,94 @@
+/**
+ * Pilot Currency Tests
+ * Tests for recency derived from logged sectors, qualification expiry and the
+ * required qualifications check for flight requests
+ */
+
+import {
+  checkRequiredQualifications,
+  computeCurrencyItem,
+  parseRequiredQualifications,
+  qualificationStatus,
+  type CurrencyRule,
+  type CurrencySector,
+} from '../pilot-currency';
+
+describe('Pilot Currency', () => {
+  const landingRule: CurrencyRule = {
+    id: 'rule-1',
+    code: 'LDG90',
+    name: 'Landing recency',
+    description: null,
+    event: 'LANDING',
+    required_count: 3,
+    period_days: 90,
+    applies_to_role: null,
+    is_active: true,
+  };
+
+  const sector = (blockOn: string, landings = 1): CurrencySector => ({
+    blockOff: blockOn,
+    blockOn,
+    takeoffs: 1,
+    landings,
+  });
+
+  const sectors = [
+    sector('2026-10-10T10:00:00Z'),
+    sector('2026-09-01T10:00:00Z', 0),
+    sector('2026-08-20T10:00:00Z'),
+    sector('2026-08-01T10:00:00Z'),
+    sector('2026-05-01T10:00:00Z'),
+  ];
+
+  it('stays current until the period passes the landing that met the requirement', () => {
+    const item = computeCurrencyItem(landingRule, sectors, new Date('2026-10-19T00:00:00Z'));
+
+    expect(item.count).toBe(3);
+    expect(item.validUntil).toBe('2026-10-30T10:00:00.000Z');
+    expect(item.daysRemaining).toBe(11);
+    expect(item.status).toBe('EXPIRING');
+  });
+
+  it('lapses on its own once sectors age out of the period', () => {
+    const item = computeCurrencyItem(landingRule, sectors, new Date('2026-11-15T00:00:00Z'));
+
+    expect(item.count).toBe(2);
+    expect(item.status).toBe('LAPSED');
+    expect(computeCurrencyItem(landingRule, [], new Date('2026-11-15')).validUntil).toBeNull();
+  });
+
+  it('reports qualification expiry with a warning window', () => {
+    const asOf = new Date('2026-10-19T00:00:00Z');
+
+    expect(qualificationStatus(null, asOf)).toBe('CURRENT');
+    expect(qualificationStatus('2026-10-19', asOf)).toBe('EXPIRING');
+    expect(qualificationStatus('2026-10-18', asOf)).toBe('EXPIRED');
+    expect(qualificationStatus('2027-01-01', asOf)).toBe('CURRENT');
+  });
+
+  it('checks required qualifications held on the departure date', () => {
+    const { requirements, unrecognised } = parseRequiredQualifications([
+      'route:lae / pom',
+      { type: 'AERODROME', code: 'aytk' },
+      'CURRENCY:LDG90',
+      'ATR 72 experience',
+    ]);
+    expect(unrecognised).toEqual(['ATR 72 experience']);
+
+    const held = {
+      qualifications: [
+        { qualification_type: 'ROUTE' as const, code: 'POM-LAE', expiry_date: null },
+        { qualification_type: 'AERODROME' as const, code: 'AYTK', expiry_date: '2026-10-25' },
+      ],
+      currency: [computeCurrencyItem(landingRule, sectors, new Date('2026-10-19T00:00:00Z'))],
+    };
+
+    expect(
+      checkRequiredQualifications(requirements, held, new Date('2026-10-24T00:00:00Z'))
+    ).toEqual([]);
+    expect(
+      checkRequiredQualifications(requirements, held, new Date('2026-11-01T00:00:00Z'))
+    ).toEqual(['AERODROME AYTK: expired 2026-10-25', 'CURRENCY LDG90: lapses 2026-10-30']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Pilot Portal Records Tests
+ * Tests for the certification status and summary a pilot sees of their own
+ * checks in the pilot portal
+ */
+
+import { addDays, format } from 'date-fns';
+import {
+  PILOT_DOCUMENT_TYPE_LABELS,
+  PILOT_UPLOAD_DOCUMENT_TYPES,
+  summarizePilotCertifications,
+  toPilotCertifications,
+  type PilotCheckRow,
+} from '../pilot-portal-records';
+
+describe('Pilot Portal Records', () => {
+  const inDays = (days: number) => format(addDays(new Date(), days), 'yyyy-MM-dd');
+  const check = (
+    code: string,
+    expiry: string | null,
+    rules: Partial<Pick<PilotCheckRow['check_types'], 'warning_days' | 'grace_period_days'>> = {}
+  ): PilotCheckRow => ({
+    id: `check-${code}`,
+    expiry_date: expiry,
+    check_types: {
+      id: `type-${code}`,
+      check_code: code,
+      check_description: `${code} check`,
+      category: 'Flight',
+      ...rules,
+    },
+  });
+
+  const certifications = toPilotCertifications([
+    check('MED', inDays(200)),
+    check('LPC', null),
+    check('OPC', inDays(-10)),
+    check('CRM', inDays(20)),
+    check('SEP', inDays(-3), { grace_period_days: 7 }),
+  ]);
+
+  it('orders checks most urgent first with undated checks last', () => {
+    expect(certifications.map((c) => c.checkCode)).toEqual(['OPC', 'SEP', 'CRM', 'MED', 'LPC']);
+  });
+
+  it("applies each check type's own rules", () => {
+    const byCode = Object.fromEntries(certifications.map((c) => [c.checkCode, c.status.label]));
+    expect(byCode).toEqual({
+      OPC: 'Expired',
+      SEP: 'Grace Period',
+      CRM: 'Expiring Soon',
+      MED: 'Current',
+      LPC: 'No Date',
+    });
+    expect(
+      toPilotCertifications([check('CRM', inDays(20), { warning_days: 14 })])[0]?.status.label
+    ).toBe('Current');
+  });
+
+  it('counts grace period checks as expired', () => {
+    expect(summarizePilotCertifications(certifications)).toEqual({
+      total: 5,
+      expired: 2,
+      expiringSoon: 1,
+      current: 1,
+    });
+    expect(summarizePilotCertifications([])).toEqual({
+      total: 0,
+      expired: 0,
+      expiringSoon: 0,
+      current: 0,
+    });
+  });
+
+  it('labels every document type pilots can upload', () => {
+    expect(PILOT_UPLOAD_DOCUMENT_TYPES).toContain('MEDICAL');
+    expect(PILOT_UPLOAD_DOCUMENT_TYPES).not.toContain('CONTRACT');
+    PILOT_UPLOAD_DOCUMENT_TYPES.forEach((type) =>
+      expect(PILOT_DOCUMENT_TYPE_LABELS[type]).toBeTruthy()
+    );
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Pilot Requests Tests
+ * Tests for roster period bid deadlines, how portal bids are stored and the
+ * notifications pilots get when their bids and flight requests are decided
+ */
+
+import { parseISO } from 'date-fns';
+import { getRosterPeriodByCode } from '../roster-utils';
+import { parseBidChoices } from '../leave-bid-allocation';
+import {
+  bidDeadlineError,
+  flightRequestStatusNotification,
+  formatBidAlternatives,
+  formatBidDateRange,
+  getBidWindow,
+  leaveBidStatusNotification,
+  listOpenBidWindows,
+} from '../pilot-requests';
+
+describe('Pilot Requests', () => {
+  // RP3/2026 starts 2026-01-31; bids close 42 days earlier
+  const rp3 = getRosterPeriodByCode('RP3/2026')!;
+
+  it('keeps a period open for bids up to and including its deadline', () => {
+    expect(getBidWindow(rp3, parseISO('2025-12-20'))).toMatchObject({
+      code: 'RP3/2026',
+      startDate: '2026-01-31',
+      bidDeadline: '2025-12-20',
+      open: true,
+      daysLeft: 0,
+    });
+    expect(getBidWindow(rp3, parseISO('2025-12-21')).open).toBe(false);
+
+    const open = listOpenBidWindows(parseISO('2025-12-10'), 4).map((window) => window.code);
+    expect(open).toContain('RP3/2026');
+    expect(open).not.toContain('RP1/2026');
+  });
+
+  it('explains why a bid cannot be taken', () => {
+    expect(bidDeadlineError('RP3/2026', parseISO('2025-12-01'))).toBeNull();
+    expect(bidDeadlineError('RP3/2026', parseISO('2026-01-10'))).toBe(
+      'Bids for RP3/2026 closed on 20 Dec 2025'
+    );
+    expect(bidDeadlineError('RP3/2026', parseISO('2026-02-02'))).toBe(
+      'RP3/2026 has already started'
+    );
+    expect(bidDeadlineError('RP14/2026')).toBe('Unknown roster period: RP14/2026');
+  });
+
+  it('stores bid dates in the form the allocation engine reads', () => {
+    const preferred = formatBidDateRange({ startDate: '2026-02-02', endDate: '2026-02-08' });
+    const alternatives = formatBidAlternatives([
+      { startDate: '2026-02-16', endDate: '2026-02-22' },
+      { startDate: '2026-12-28', endDate: '2027-01-03' },
+    ]);
+
+    expect(preferred).toBe('Feb 2 - Feb 8, 2026');
+    expect(formatBidAlternatives([])).toBeNull();
+    expect(parseBidChoices(preferred, alternatives)).toEqual([
+      expect.objectContaining({ choice: 1, startDate: '2026-02-02', endDate: '2026-02-08' }),
+      expect.objectContaining({ choice: 2, startDate: '2026-02-16', endDate: '2026-02-22' }),
+      expect.objectContaining({ choice: 3, startDate: '2026-12-28', endDate: '2027-01-03' }),
+    ]);
+  });
+
+  it('notifies pilots of decisions only', () => {
+    const bid = { id: 'bid-1', roster_period_code: 'RP3/2026', review_comments: 'Full crew' };
+    expect(leaveBidStatusNotification({ ...bid, status: 'PENDING' })).toBeNull();
+    expect(leaveBidStatusNotification({ ...bid, status: 'WITHDRAWN' })).toBeNull();
+    expect(leaveBidStatusNotification({ ...bid, status: 'REJECTED' })).toMatchObject({
+      type: 'leave_bid_rejected',
+      message: 'Your leave bid for RP3/2026 was not awarded. Full crew',
+      metadata: { leave_bid_id: 'bid-1' },
+    });
+
+    const request = { id: 'fr-1', request_type: 'ROUTE_QUALIFICATION' as const };
+    expect(flightRequestStatusNotification({ ...request, status: 'PENDING' })).toBeNull();
+    expect(flightRequestStatusNotification({ ...request, status: 'UNDER_REVIEW' })).toMatchObject({
+      type: 'flight_request_under_review',
+      title: 'Route Qualification Request Under Review',
+      message: 'Your route qualification request is now under review.',
+    });
+    expect(
+      flightRequestStatusNotification({
+        ...request,
+        status: 'CANCELLED',
+        cancellation_reason: 'Duplicate request',
+      })?.message
+    ).toBe('Your route qualification request is now cancelled. Duplicate request');
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Record Version Tests
+ * Tests for the If-Match version checks on replayed offline changes
+ */
+
+import { isStaleVersion, requestVersion, versionHeaders } from '../record-version';
+
+describe('Record Version', () => {
+  const withHeader = (value?: string) => ({
+    headers: new Headers(value === undefined ? {} : { 'If-Match': value }),
+  });
+
+  it('sends the version as a quoted If-Match header', () => {
+    expect(versionHeaders('2026-10-01T00:00:00+00:00')).toEqual({
+      'If-Match': '"2026-10-01T00:00:00+00:00"',
+    });
+    expect(versionHeaders(null)).toEqual({});
+  });
+
+  it('reads the version from quoted, weak and bare headers', () => {
+    expect(requestVersion(withHeader('"2026-10-01T00:00:00Z"'))).toBe('2026-10-01T00:00:00Z');
+    expect(requestVersion(withHeader('W/"2026-10-01T00:00:00Z"'))).toBe('2026-10-01T00:00:00Z');
+    expect(requestVersion(withHeader('2026-10-01T00:00:00Z'))).toBe('2026-10-01T00:00:00Z');
+    expect(requestVersion(withHeader('*'))).toBeNull();
+    expect(requestVersion(withHeader())).toBeNull();
+  });
+
+  it('compares timestamps as instants', () => {
+    expect(isStaleVersion('2026-10-01T10:00:00+10:00', '2026-10-01T00:00:00.000Z')).toBe(false);
+    expect(isStaleVersion('2026-10-01T00:00:00Z', '2026-10-01T00:00:01Z')).toBe(true);
+  });
+
+  it('cannot find a record without a version stale', () => {
+    expect(isStaleVersion('2026-10-01T00:00:00Z', null)).toBe(false);
+    expect(isStaleVersion('v1', 'v2')).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Roster Utils Tests
+ * Tests for roster period resolution against the configurable roster calendar
+ */
+
+import {
+  DEFAULT_ROSTER_CALENDAR,
+  getNextRosterPeriod,
+  getPreviousRosterPeriod,
+  getRosterPeriodByCode,
+  getRosterPeriodFromDate,
+  listRosterPeriods,
+  normalizeRosterCalendarConfig,
+  validateRosterCalendarConfig,
+  type RosterCalendarConfig,
+} from '../roster-utils';
+import { format, parseISO } from 'date-fns';
+
+const ymd = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('Roster Utils', () => {
+  describe('default calendar', () => {
+    it('resolves the anchor period RP12/2025', () => {
+      const period = getRosterPeriodFromDate(parseISO('2025-10-20'));
+      expect(period.code).toBe('RP12/2025');
+      expect(ymd(period.startDate)).toBe('2025-10-11');
+      expect(ymd(period.endDate)).toBe('2025-11-07');
+      expect(period.lengthDays).toBe(28);
+      expect(period.isStub).toBe(false);
+    });
+
+    it('rolls over from RP13 to RP1 of the next year', () => {
+      const rp13 = getRosterPeriodFromDate(parseISO('2025-11-08'));
+      expect(rp13.code).toBe('RP13/2025');
+      expect(getNextRosterPeriod(rp13).code).toBe('RP1/2026');
+    });
+
+    it('extrapolates backwards before the anchor', () => {
+      const period = getRosterPeriodFromDate(parseISO('2025-10-10'));
+      expect(period.code).toBe('RP11/2025');
+      expect(ymd(period.startDate)).toBe('2025-09-13');
+      const rp1 = getRosterPeriodFromDate(parseISO('2024-12-10'));
+      expect(rp1.code).toBe('RP1/2025');
+      expect(getPreviousRosterPeriod(rp1).code).toBe('RP13/2024');
+    });
+
+    it('derives publication, lock and bid deadline dates from lead days', () => {
+      const period = getRosterPeriodFromDate(parseISO('2025-10-11'));
+      expect(ymd(period.publicationDate)).toBe('2025-10-01');
+      expect(ymd(period.lockDate)).toBe('2025-09-19');
+      expect(ymd(period.bidDeadline)).toBe('2025-08-30');
+    });
+  });
+
+  describe('getRosterPeriodByCode', () => {
+    it('finds periods before and after the anchor', () => {
+      expect(ymd(getRosterPeriodByCode('RP1/2026')!.startDate)).toBe('2025-12-06');
+      expect(ymd(getRosterPeriodByCode('RP3/2025')!.startDate)).toBe('2025-02-01');
+    });
+
+    it('returns null for invalid or non-existent codes', () => {
+      expect(getRosterPeriodByCode('not-a-code')).toBeNull();
+      expect(getRosterPeriodByCode('RP14/2026')).toBeNull();
+    });
+  });
+
+  describe('configured calendars', () => {
+    const withStub: RosterCalendarConfig = normalizeRosterCalendarConfig({
+      ...DEFAULT_ROSTER_CALENDAR,
+      stubPeriods: [{ number: 14, year: 2026, startDate: '2026-11-28', lengthDays: 7 }],
+      periodOverrides: { 'RP1/2027': { lockDate: '2026-11-01' } },
+    });
+
+    it('inserts a stub period and resumes with RP1 of the next year', () => {
+      const rp13 = getRosterPeriodByCode('RP13/2026', withStub)!;
+      expect(ymd(rp13.endDate)).toBe('2026-11-27');
+
+      const stub = getRosterPeriodFromDate(parseISO('2026-12-01'), withStub);
+      expect(stub.code).toBe('RP14/2026');
+      expect(stub.lengthDays).toBe(7);
+      expect(stub.isStub).toBe(true);
+
+      const rp1 = getRosterPeriodFromDate(parseISO('2026-12-05'), withStub);
+      expect(rp1.code).toBe('RP1/2027');
+      expect(ymd(rp1.startDate)).toBe('2026-12-05');
+      expect(ymd(rp1.lockDate)).toBe('2026-11-01');
+    });
+
+    it('shortens the period running into a re-anchor', () => {
+      const reanchored = normalizeRosterCalendarConfig({
+        ...DEFAULT_ROSTER_CALENDAR,
+        anchors: [
+          ...DEFAULT_ROSTER_CALENDAR.anchors,
+          { number: 1, year: 2026, startDate: '2025-12-01' },
+        ],
+      });
+
+      const truncated = getRosterPeriodFromDate(parseISO('2025-11-20'), reanchored);
+      expect(truncated.code).toBe('RP13/2025');
+      expect(ymd(truncated.endDate)).toBe('2025-11-30');
+      expect(truncated.isStub).toBe(true);
+
+      const periods = listRosterPeriods(parseISO('2025-11-20'), 2, reanchored);
+      expect(periods.map((p) => p.code)).toEqual(['RP13/2025', 'RP1/2026']);
+      expect(ymd(periods[1]!.startDate)).toBe('2025-12-01');
+    });
+
+    it('reports invalid calendars', () => {
+      const errors = validateRosterCalendarConfig({
+        ...DEFAULT_ROSTER_CALENDAR,
+        periodLengthDays: 0,
+        anchors: [{ number: 20, year: 2025, startDate: '2025-10-11' }],
+      });
+      expect(errors).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Route Permissions Tests
+ * Builds the permission matrix of every API route handler from the route files
+ * and checks each handler declares a known permission or external access mode
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRBAC, getAllPermissions } from '../rbac';
+
+const API_DIR = path.join(__dirname, '..', '..', 'app', 'api');
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const EXTERNAL_ACCESS = ['public', 'pilot-session', 'cron-secret', 'feed-token'];
+
+interface RouteHandler {
+  route: string;
+  method: string;
+  permission?: string;
+  access?: string;
+}
+
+function routeFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return routeFiles(fullPath);
+    return entry.name === 'route.ts' ? [fullPath] : [];
+  });
+}
+
+function routeHandlers(): { handlers: RouteHandler[]; undeclared: string[] } {
+  const handlers: RouteHandler[] = [];
+  const undeclared: string[] = [];
+
+  for (const file of routeFiles(API_DIR)) {
+    const route = `/api/${path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/')}`;
+    const source = fs.readFileSync(file, 'utf8');
+    const exports = [...source.matchAll(/export\s+(?:async\s+function|const|let)\s+(\w+)/g)];
+
+    exports.forEach((match, index) => {
+      const method = match[1] as string;
+      if (!HTTP_METHODS.includes(method)) return;
+
+      const end = exports[index + 1]?.index ?? source.length;
+      const declaration = source.slice(match.index, end);
+      const options = declaration.match(/\{\s*(permission|access):\s*'([^']+)'\s*\}\s*\)/);
+      const wrapped = /^export const \w+ = (withPermission|withExternalAccess)\(/.test(declaration);
+
+      if (!wrapped || !options) {
+        undeclared.push(`${method} ${route}`);
+      } else {
+        handlers.push({ route, method, [options[1] as string]: options[2] });
+      }
+    });
+
+    if (/export\s*\{[^}]*\b(GET|POST|PUT|PATCH|DELETE)\b[^}]*\}/.test(source)) {
+      undeclared.push(`re-export ${route}`);
+    }
+  }
+
+  return { handlers, undeclared };
+}
+
+describe('Route Permissions', () => {
+  const { handlers, undeclared } = routeHandlers();
+  const find = (route: string, method: string) =>
+    handlers.find((handler) => handler.route === route && handler.method === method);
+
+  it('declares a permission or external access mode on every handler', () => {
+    expect(handlers.length).toBeGreaterThan(100);
+    expect(undeclared).toEqual([]);
+  });
+
+  it('only uses permissions and access modes that exist', () => {
+    const permissions = getAllPermissions();
+    const unknown = handlers.filter((handler) =>
+      handler.permission
+        ? !permissions.includes(handler.permission as never)
+        : !EXTERNAL_ACCESS.includes(handler.access as string)
+    );
+    expect(unknown).toEqual([]);
+  });
+
+  it('leaves only pilot portal, cron, feed and public routes outside staff permissions', () => {
+    const external = handlers.filter((handler) => handler.access);
+    for (const handler of external) {
+      if (handler.route.startsWith('/api/pilot/') && handler.route !== '/api/pilot/register') {
+        expect(handler).toMatchObject({ access: 'pilot-session' });
+      } else if (handler.route.startsWith('/api/cron/')) {
+        expect(handler).toMatchObject({ access: 'cron-secret' });
+      } else {
+        expect([
+          '/api/calendar/feed/[token]',
+          '/api/csrf-token',
+          '/api/health',
+          '/api/pilot/register',
+        ]).toContain(handler.route);
+      }
+    }
+  });
+
+  it('grants key routes to the expected roles', () => {
+    const allowed = (route: string, method: string) => {
+      const permission = find(route, method)?.permission as never;
+      return (['admin', 'manager', 'user', 'readonly'] as const).filter((role) =>
+        createRBAC(role).hasPermission(permission)
+      );
+    };
+
+    expect(allowed('/api/pilots', 'GET')).toEqual(['admin', 'manager', 'user', 'readonly']);
+    expect(allowed('/api/pilots/[id]', 'DELETE')).toEqual(['admin']);
+    expect(allowed('/api/leave-bids', 'POST')).toEqual(['admin', 'manager', 'user']);
+    expect(allowed('/api/disciplinary-matters', 'GET')).toEqual(['admin', 'manager']);
+    expect(allowed('/api/backups', 'POST')).toEqual(['admin']);
+    expect(find('/api/admin/feedback/posts', 'GET')).toMatchObject({
+      permission: 'feedback:moderate',
+    });
+  });
+});
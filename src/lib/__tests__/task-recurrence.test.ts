@@ -0,0 +1,80 @@
+/**
+ * Task Recurrence Tests
+ * Tests for weekday, month-day and roster period schedules, series limits and
+ * generated task titles
+ */
+
+import {
+  describeRecurrence,
+  nextOccurrence,
+  renderTaskTemplate,
+  upcomingOccurrences,
+} from '../task-recurrence';
+
+describe('Task Recurrence', () => {
+  it('steps weekly patterns by interval on the chosen weekdays', () => {
+    const pattern = { frequency: 'WEEKLY' as const, interval: 2, by_weekday: [4, 1] };
+
+    // 2026-10-19 is a Monday
+    expect(nextOccurrence(pattern, '2026-10-19', '2026-10-19')).toBe('2026-10-22');
+    expect(nextOccurrence(pattern, '2026-10-19', '2026-10-22')).toBe('2026-11-02');
+    expect(upcomingOccurrences(pattern, '2026-10-19', 5)).toEqual([
+      '2026-10-19',
+      '2026-10-22',
+      '2026-11-02',
+      '2026-11-05',
+      '2026-11-16',
+    ]);
+  });
+
+  it('skips months without an explicit day but clamps the default day', () => {
+    const monthly = { frequency: 'MONTHLY' as const, interval: 1 };
+
+    expect(nextOccurrence(monthly, '2026-01-31', '2026-01-31')).toBe('2026-02-28');
+    expect(nextOccurrence(monthly, '2026-01-31', '2026-02-28')).toBe('2026-03-31');
+    expect(nextOccurrence({ ...monthly, by_month_day: [31] }, '2026-01-31', '2026-01-31')).toBe(
+      '2026-03-31'
+    );
+    expect(nextOccurrence({ ...monthly, by_month_day: [-1] }, '2026-01-31', '2026-01-31')).toBe(
+      '2026-02-28'
+    );
+  });
+
+  it('follows roster periods with an offset and interval', () => {
+    // Default calendar: periods start 2026-01-03, 2026-01-31, 2026-02-28, ...
+    expect(
+      nextOccurrence({ frequency: 'ROSTER_PERIOD', interval: 2 }, '2026-01-03', '2026-01-03')
+    ).toBe('2026-02-28');
+    expect(
+      upcomingOccurrences(
+        { frequency: 'ROSTER_PERIOD', interval: 1, roster_offset_days: -7 },
+        '2026-01-24',
+        3
+      )
+    ).toEqual(['2026-01-24', '2026-02-21', '2026-03-21']);
+  });
+
+  it('honours count and end date, and describes and renders generated tasks', () => {
+    const daily = { frequency: 'DAILY' as const, interval: 3, end_date: '2026-10-28' };
+
+    expect(upcomingOccurrences(daily, '2026-10-19', 10)).toEqual([
+      '2026-10-19',
+      '2026-10-22',
+      '2026-10-25',
+      '2026-10-28',
+    ]);
+    expect(upcomingOccurrences({ ...daily, count: 2 }, '2026-10-19', 10)).toHaveLength(2);
+    expect(nextOccurrence(daily, '2026-10-19', '2026-10-28')).toBeNull();
+
+    expect(
+      describeRecurrence({ frequency: 'WEEKLY', interval: 2, by_weekday: [4, 1], count: 6 })
+    ).toBe('Every 2 weeks on Mon, Thu, 6 times');
+    expect(
+      renderTaskTemplate('Book {check_code} for {rank} {pilot_name} {unknown}', {
+        check_code: 'SIM',
+        rank: 'Capt',
+        pilot_name: 'John Kila',
+      })
+    ).toBe('Book SIM for Capt John Kila {unknown}');
+  });
+});
@@ -315,7 +315,7 @@ describe('Task Service', () => {
       );
     });
 
-    it('should create recurring task instances', async () => {
+    it('should create only the first occurrence of a recurring task', async () => {
       const mockInput = {
         title: 'Weekly safety check',
         is_recurring: true,
@@ -336,35 +336,25 @@ describe('Task Service', () => {
         }),
       };
 
-      const mockGetQuery = {
-        select: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockReturnThis(),
-        single: jest.fn().mockResolvedValue({
-          data: { id: 'task-parent', ...mockInput },
-          error: null,
-        }),
-      };
-
-      const mockRecurringQuery = {
-        insert: jest.fn().mockResolvedValue({ error: null }),
-      };
-
       const mockAuditQuery = {
         insert: jest.fn().mockResolvedValue({ error: null }),
       };
 
       mockFrom
-        .mockReturnValueOnce(mockParentQuery) // Create parent task
-        .mockReturnValueOnce(mockAuditQuery) // Audit log
-        .mockReturnValueOnce(mockGetQuery) // Get task for recurring instances
-        .mockReturnValueOnce(mockRecurringQuery); // Create recurring instances
+        .mockReturnValueOnce(mockParentQuery) // Create first occurrence
+        .mockReturnValueOnce(mockAuditQuery); // Audit log
 
       await createTask(mockInput, 'user-1');
 
-      expect(mockRecurringQuery.insert).toHaveBeenCalled();
-      const insertedInstances = mockRecurringQuery.insert.mock.calls[0][0];
-      expect(Array.isArray(insertedInstances)).toBe(true);
-      expect(insertedInstances.length).toBeLessThanOrEqual(4);
+      // Later occurrences are generated as each one is completed or skipped
+      expect(mockFrom).toHaveBeenCalledTimes(2);
+      expect(mockParentQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          is_recurring: true,
+          occurrence_date: '2025-10-07',
+          occurrence_index: 1,
+        })
+      );
     });
 
     it('should default priority to MEDIUM if not specified', async () => {
@@ -556,6 +546,66 @@ describe('Task Service', () => {
       const updateCall = mockUpdateQuery.update.mock.calls[0][0];
       expect(updateCall).not.toHaveProperty('completed_date');
     });
+
+    it('should generate the next occurrence when a recurring task is completed', async () => {
+      const mockCurrent = {
+        id: 'task-2',
+        title: 'Weekly safety check',
+        status: 'IN_PROGRESS',
+        created_by: 'user-1',
+        due_date: '2025-10-09T09:00:00Z',
+        is_recurring: true,
+        recurrence_pattern: { frequency: 'WEEKLY', interval: 1, by_weekday: [2, 4], count: 5 },
+        parent_task_id: 'task-parent',
+        parent: { id: 'task-parent', occurrence_date: '2025-10-07' },
+        occurrence_date: '2025-10-09',
+        occurrence_index: 2,
+        checklist_items: [{ id: '1', text: 'Walkround', completed: true }],
+      };
+
+      const mockGetQuery = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: mockCurrent, error: null }),
+      };
+
+      const mockUpdateQuery = {
+        update: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: mockCurrent, error: null }),
+      };
+
+      const mockAuditQuery = {
+        insert: jest.fn().mockResolvedValue({ error: null }),
+      };
+
+      const mockNextQuery = {
+        insert: jest.fn().mockReturnThis(),
+        select: jest.fn().mockReturnThis(),
+        single: jest.fn().mockResolvedValue({ data: { id: 'task-3' }, error: null }),
+      };
+
+      mockFrom
+        .mockReturnValueOnce(mockGetQuery) // Get current state
+        .mockReturnValueOnce(mockUpdateQuery) // Update
+        .mockReturnValueOnce(mockAuditQuery) // Audit status change
+        .mockReturnValueOnce(mockNextQuery) // Next occurrence
+        .mockReturnValue(mockAuditQuery); // Audit next occurrence
+
+      await updateTask('task-2', { status: 'COMPLETED' }, 'user-1');
+
+      expect(mockNextQuery.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          parent_task_id: 'task-parent',
+          occurrence_date: '2025-10-14',
+          occurrence_index: 3,
+          due_date: '2025-10-14T09:00:00Z',
+          generation_key: 'task-parent:3',
+          checklist_items: [{ id: '1', text: 'Walkround', completed: false }],
+        })
+      );
+    });
   });
 
   describe('deleteTask', () => {
@@ -0,0 +1,80 @@
+/**
+ * Upgrade Pipeline Tests
+ * Tests for upgrade eligibility, stage progression and seniority ordering
+ */
+
+import {
+  DEFAULT_UPGRADE_CRITERIA,
+  assessUpgradeEligibility,
+  canPromote,
+  compareSeniority,
+  nextUpgradeStage,
+  normalizeUpgradeCriteria,
+} from '../upgrade-pipeline';
+
+describe('Upgrade Pipeline', () => {
+  const checks = [
+    { checkCode: 'LPC', expiryDate: '2027-01-31' },
+    { checkCode: 'OPC', expiryDate: '2026-09-30' },
+  ];
+
+  it('assesses service, hours and current checks', () => {
+    const eligibility = assessUpgradeEligibility(
+      { commencementDate: '2021-11-01', flightHours: 3200, checks },
+      DEFAULT_UPGRADE_CRITERIA,
+      '2026-10-19'
+    );
+
+    expect(eligibility.eligible).toBe(false);
+    expect(eligibility.yearsInService).toBe(4.9);
+    expect(eligibility.criteria.map((c) => [c.key, c.met])).toEqual([
+      ['years_in_service', false],
+      ['flight_hours', true],
+      ['checks_current', false],
+    ]);
+    expect(eligibility.criteria[2]?.detail).toBe('Not current: OPC');
+  });
+
+  it('only requires the configured check codes when listed', () => {
+    const criteria = normalizeUpgradeCriteria({
+      minYearsInService: 3,
+      minFlightHours: 'lots',
+      requiredCheckCodes: ['LPC'],
+    });
+    expect(criteria.minFlightHours).toBe(DEFAULT_UPGRADE_CRITERIA.minFlightHours);
+
+    const eligibility = assessUpgradeEligibility(
+      { commencementDate: '2021-11-01', flightHours: 3000, checks },
+      criteria,
+      '2026-10-19'
+    );
+    expect(eligibility.eligible).toBe(true);
+
+    const missingHours = assessUpgradeEligibility(
+      { commencementDate: '2021-11-01', flightHours: null, checks },
+      criteria,
+      '2026-10-19'
+    );
+    expect(missingHours.eligible).toBe(false);
+  });
+
+  it('moves through the stages in order and promotes only after the check to line', () => {
+    expect(nextUpgradeStage('NOMINATED')).toBe('GROUND_SCHOOL');
+    expect(nextUpgradeStage('LINE_TRAINING')).toBe('CHECK_TO_LINE');
+    expect(nextUpgradeStage('CHECK_TO_LINE')).toBeNull();
+
+    expect(canPromote({ status: 'ACTIVE', stage: 'LINE_TRAINING' })).toBe(false);
+    expect(canPromote({ status: 'ACTIVE', stage: 'CHECK_TO_LINE' })).toBe(true);
+    expect(canPromote({ status: 'WITHDRAWN', stage: 'CHECK_TO_LINE' })).toBe(false);
+  });
+
+  it('orders pilots by seniority with unnumbered pilots last', () => {
+    const pilots = [
+      { name: 'C', seniorityNumber: null },
+      { name: 'B', seniorityNumber: 12 },
+      { name: 'A', seniorityNumber: null },
+      { name: 'D', seniorityNumber: 3 },
+    ];
+    expect([...pilots].sort(compareSeniority).map((p) => p.name)).toEqual(['D', 'B', 'A', 'C']);
+  });
+});
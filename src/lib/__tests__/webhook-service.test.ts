@@ -0,0 +1,46 @@
+/**
+ * Webhook Service Tests
+ * Tests that emitting an event only queues deliveries for the cron job to send
+ */
+
+jest.mock('../supabase', () => {
+  const mockFrom = jest.fn();
+  const mockInstance = { from: mockFrom };
+
+  return {
+    getSupabaseAdmin: () => mockInstance,
+    __mockFrom: mockFrom,
+  };
+});
+
+import { triggerWebhookEvent } from '../webhook-service';
+
+const { __mockFrom: mockFrom } = jest.requireMock('../supabase');
+
+describe('Webhook Service', () => {
+  it('queues a pending delivery per subscribed webhook without sending it', async () => {
+    const webhooks = {
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      contains: jest.fn().mockResolvedValue({
+        data: [{ id: 'webhook-1' }, { id: 'webhook-2' }],
+        error: null,
+      }),
+    };
+    const deliveries = { insert: jest.fn().mockResolvedValue({ error: null }) };
+    mockFrom.mockImplementation((table: string) => (table === 'webhooks' ? webhooks : deliveries));
+    const fetchSpy = jest.fn();
+    global.fetch = fetchSpy;
+
+    await triggerWebhookEvent('pilot.updated', { pilot_id: 'pilot-1' });
+
+    const [rows] = deliveries.insert.mock.calls[0];
+    expect(rows.map((row: { webhook_id: string }) => row.webhook_id)).toEqual([
+      'webhook-1',
+      'webhook-2',
+    ]);
+    expect(rows.every((row: { status: string }) => row.status === 'pending')).toBe(true);
+    expect(mockFrom).not.toHaveBeenCalledWith('webhook_delivery_attempts');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
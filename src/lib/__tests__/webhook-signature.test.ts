@@ -0,0 +1,57 @@
+/**
+ * Webhook Signature Tests
+ * Tests for HMAC signing of webhook deliveries, receiver-side verification and
+ * the retry backoff schedule
+ */
+
+import { createHmac } from 'crypto';
+import {
+  generateWebhookSecret,
+  retryDelayMs,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../webhook-signature';
+
+describe('Webhook Signature', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'evt-1', event: 'leave.approved', data: { id: 'lr-1' } });
+  const timestamp = Math.floor(new Date('2026-10-19T08:00:00Z').getTime() / 1000);
+  const now = new Date('2026-10-19T08:01:00Z');
+
+  it('signs timestamp.body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    expect(signWebhookPayload(secret, body, timestamp)).toBe(`t=${timestamp},v1=${expected}`);
+    expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+  });
+
+  it('verifies a signature made with the same secret and body', () => {
+    const header = signWebhookPayload(secret, body, timestamp);
+
+    expect(verifyWebhookSignature(secret, body, header, { now })).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', body, header, { now })).toBe(false);
+    expect(verifyWebhookSignature(secret, `${body} `, header, { now })).toBe(false);
+    expect(verifyWebhookSignature(secret, body, 'garbage', { now })).toBe(false);
+  });
+
+  it('rejects signatures outside the tolerance window', () => {
+    const header = signWebhookPayload(secret, body, timestamp);
+
+    expect(
+      verifyWebhookSignature(secret, body, header, { now: new Date('2026-10-19T08:06:00Z') })
+    ).toBe(false);
+    expect(
+      verifyWebhookSignature(secret, body, header, {
+        now: new Date('2026-10-19T08:06:00Z'),
+        toleranceSeconds: 600,
+      })
+    ).toBe(true);
+  });
+
+  it('backs off exponentially up to six hours', () => {
+    expect(retryDelayMs(1)).toBe(60 * 1000);
+    expect(retryDelayMs(2)).toBe(4 * 60 * 1000);
+    expect(retryDelayMs(3)).toBe(16 * 60 * 1000);
+    expect(retryDelayMs(10)).toBe(6 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,603 @@
+/**
+ * @fileoverview Access Control Service
+ * Custom roles (role_definitions), role assignment, per-user permission
+ * grants and denials (user_permission_overrides) and data scopes
+ * (user_data_scopes). Every change is appended to permission_audit_log with
+ * the user who made it.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import type { Permission, Role } from '@/lib/rbac';
+import {
+  knownPermissions,
+  permissionChanges,
+  roleKeyFromName,
+  roleLabel,
+  type CustomRole,
+  type PermissionOverrideEffect,
+} from '@/lib/access-control';
+import { describeDataScope, resolveDataScope, type DataScopeRule } from '@/lib/data-scope';
+
+export interface CustomRoleRecord extends CustomRole {
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PermissionOverrideRecord {
+  id: string;
+  user_id: string;
+  permission: string;
+  effect: PermissionOverrideEffect;
+  expires_at: string | null;
+  reason: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface UserAccess {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  custom_role_id: string | null;
+  permission_overrides: PermissionOverrideRecord[];
+  data_scopes: DataScopeRule[];
+}
+
+export type PermissionAuditAction =
+  | 'granted'
+  | 'denied'
+  | 'revoked'
+  | 'role_changed'
+  | 'role_created'
+  | 'role_updated'
+  | 'role_deleted'
+  | 'scope_changed';
+
+export interface PermissionAuditEntry {
+  id: string;
+  action: PermissionAuditAction;
+  user_id: string | null;
+  role_definition_id: string | null;
+  permission: string | null;
+  from_role: string | null;
+  to_role: string | null;
+  details: Record<string, unknown>;
+  reason: string | null;
+  performed_by: string | null;
+  created_at: string;
+  user?: { name: string; email: string } | null;
+  performed_by_user?: { name: string; email: string } | null;
+}
+
+export interface CustomRoleInput {
+  name: string;
+  description?: string | null;
+  base_role: Role;
+  permissions: string[];
+}
+
+interface ActionContext {
+  performedBy: string;
+  reason?: string;
+}
+
+/**
+ * Append entries to permission_audit_log
+ * A failed audit write fails the request so no change goes unrecorded.
+ */
+async function recordPermissionChanges(
+  entries: Array<Partial<Omit<PermissionAuditEntry, 'id' | 'created_at'>>>,
+  context: ActionContext
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const { error } = await getSupabaseAdmin()
+    .from('permission_audit_log')
+    .insert(
+      entries.map((entry) => ({
+        ...entry,
+        reason: entry.reason ?? context.reason ?? null,
+        performed_by: context.performedBy,
+      }))
+    );
+
+  if (error) {
+    logger.error('Error recording permission change:', error);
+    throw new Error('Failed to record permission change');
+  }
+}
+
+/**
+ * All custom roles, by name
+ */
+export async function listCustomRoles(): Promise<CustomRoleRecord[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('role_definitions')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    logger.error('Error fetching custom roles:', error);
+    throw new Error('Failed to fetch custom roles');
+  }
+
+  return (data || []) as CustomRoleRecord[];
+}
+
+async function getCustomRole(id: string): Promise<CustomRoleRecord> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('role_definitions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching custom role:', error);
+    throw new Error('Failed to fetch custom role');
+  }
+  if (!data) {
+    throw new Error('Role not found');
+  }
+
+  return data as CustomRoleRecord;
+}
+
+/**
+ * Create a custom role; its key is derived from the name
+ */
+export async function createCustomRole(
+  input: CustomRoleInput,
+  context: ActionContext
+): Promise<CustomRoleRecord> {
+  const permissions = knownPermissions(input.permissions);
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('role_definitions')
+    .insert({
+      key: roleKeyFromName(input.name),
+      name: input.name.trim(),
+      description: input.description || null,
+      base_role: input.base_role,
+      permissions,
+      created_by: context.performedBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`A role named "${input.name.trim()}" already exists`);
+    }
+    logger.error('Error creating custom role:', error);
+    throw new Error('Failed to create custom role');
+  }
+
+  const role = data as CustomRoleRecord;
+  await recordPermissionChanges(
+    [
+      {
+        action: 'role_created',
+        role_definition_id: role.id,
+        to_role: role.name,
+        details: { base_role: role.base_role, permissions },
+      },
+    ],
+    context
+  );
+
+  logger.info('Custom role created', { roleId: role.id, key: role.key });
+  return role;
+}
+
+/**
+ * Update a custom role's name, description, base role or permissions.
+ * Changing the base role updates an_users.role of everyone assigned to it.
+ */
+export async function updateCustomRole(
+  id: string,
+  input: Partial<CustomRoleInput>,
+  context: ActionContext
+): Promise<CustomRoleRecord> {
+  const supabase = getSupabaseAdmin();
+  const existing = await getCustomRole(id);
+
+  const updates: Record<string, unknown> = {};
+  if (input.name !== undefined) updates.name = input.name.trim();
+  if (input.description !== undefined) updates.description = input.description || null;
+  if (input.base_role !== undefined) updates.base_role = input.base_role;
+  if (input.permissions !== undefined) updates.permissions = knownPermissions(input.permissions);
+
+  const { data, error } = await supabase
+    .from('role_definitions')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating custom role:', error);
+    throw new Error('Failed to update custom role');
+  }
+
+  const role = data as CustomRoleRecord;
+
+  if (role.base_role !== existing.base_role) {
+    const { error: usersError } = await supabase
+      .from('an_users')
+      .update({ role: role.base_role })
+      .eq('custom_role_id', id);
+
+    if (usersError) {
+      logger.error('Error updating users of custom role:', usersError);
+      throw new Error('Failed to update users of the role');
+    }
+  }
+
+  const { added, removed } = permissionChanges(existing.permissions, role.permissions);
+  await recordPermissionChanges(
+    [
+      {
+        action: 'role_updated',
+        role_definition_id: id,
+        from_role: existing.name,
+        to_role: role.name,
+        details: {
+          added,
+          removed,
+          ...(role.base_role !== existing.base_role && {
+            base_role: { from: existing.base_role, to: role.base_role },
+          }),
+        },
+      },
+    ],
+    context
+  );
+
+  logger.info('Custom role updated', { roleId: id, added, removed });
+  return role;
+}
+
+/**
+ * Delete a custom role that is no longer assigned to anyone
+ */
+export async function deleteCustomRole(id: string, context: ActionContext): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const role = await getCustomRole(id);
+
+  const { count, error: countError } = await supabase
+    .from('an_users')
+    .select('id', { count: 'exact', head: true })
+    .eq('custom_role_id', id);
+
+  if (countError) {
+    logger.error('Error counting users of custom role:', countError);
+    throw new Error('Failed to delete custom role');
+  }
+  if (count) {
+    throw new Error(
+      `${role.name} is assigned to ${count} user${count === 1 ? '' : 's'} - reassign them first`
+    );
+  }
+
+  // Record first: the audit entry keeps the role's name once the row is gone
+  await recordPermissionChanges(
+    [
+      {
+        action: 'role_deleted',
+        role_definition_id: id,
+        from_role: role.name,
+        details: { base_role: role.base_role, permissions: role.permissions },
+      },
+    ],
+    context
+  );
+
+  const { error } = await supabase.from('role_definitions').delete().eq('id', id);
+
+  if (error) {
+    logger.error('Error deleting custom role:', error);
+    throw new Error('Failed to delete custom role');
+  }
+
+  logger.info('Custom role deleted', { roleId: id });
+}
+
+/**
+ * Staff users with their role, custom role, permission overrides and data scopes
+ */
+export async function listUserAccess(): Promise<UserAccess[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('an_users')
+    .select(
+      `id, name, email, role, custom_role_id,
+      permission_overrides:user_permission_overrides!user_permission_overrides_user_id_fkey (*),
+      data_scopes:user_data_scopes!user_data_scopes_user_id_fkey (scope_type, scope_value)`
+    )
+    .order('name');
+
+  if (error) {
+    logger.error('Error fetching user access:', error);
+    throw new Error('Failed to fetch user access');
+  }
+
+  return (data || []) as unknown as UserAccess[];
+}
+
+async function getUserAccess(userId: string): Promise<UserAccess> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('an_users')
+    .select('id, name, email, role, custom_role_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching user:', error);
+    throw new Error('Failed to fetch user');
+  }
+  if (!data) {
+    throw new Error('User not found');
+  }
+
+  return {
+    ...(data as Omit<UserAccess, 'permission_overrides' | 'data_scopes'>),
+    permission_overrides: [],
+    data_scopes: [],
+  };
+}
+
+/**
+ * Assign a built-in role, or a custom role (which also sets the built-in role
+ * to the custom role's base role)
+ */
+export async function assignUserRole(
+  userId: string,
+  assignment: { role: Role } | { customRoleId: string },
+  context: ActionContext
+): Promise<UserAccess> {
+  const user = await getUserAccess(userId);
+  if (userId === context.performedBy) {
+    throw new Error('You cannot change your own role');
+  }
+
+  const customRole =
+    'customRoleId' in assignment ? await getCustomRole(assignment.customRoleId) : null;
+  const previousRole = user.custom_role_id ? await getCustomRole(user.custom_role_id) : null;
+  const updates = customRole
+    ? { role: customRole.base_role, custom_role_id: customRole.id }
+    : { role: (assignment as { role: Role }).role, custom_role_id: null };
+
+  const { error } = await getSupabaseAdmin().from('an_users').update(updates).eq('id', userId);
+
+  if (error) {
+    logger.error('Error assigning user role:', error);
+    throw new Error('Failed to assign role');
+  }
+
+  await recordPermissionChanges(
+    [
+      {
+        action: 'role_changed',
+        user_id: userId,
+        role_definition_id: customRole?.id ?? null,
+        from_role: roleLabel(user.role, previousRole),
+        to_role: roleLabel(updates.role, customRole),
+      },
+    ],
+    context
+  );
+
+  logger.info('User role assigned', { userId, ...updates });
+  return { ...user, ...updates };
+}
+
+/**
+ * Grant or deny a permission to a user, replacing any override they already
+ * have for it
+ */
+export async function setPermissionOverride(
+  userId: string,
+  input: {
+    permission: Permission;
+    effect: PermissionOverrideEffect;
+    expiresAt?: string | null;
+  },
+  context: ActionContext
+): Promise<PermissionOverrideRecord> {
+  await getUserAccess(userId);
+  if (userId === context.performedBy) {
+    throw new Error('You cannot change your own permissions');
+  }
+  if (input.expiresAt && new Date(input.expiresAt).getTime() <= Date.now()) {
+    throw new Error('Expiry must be in the future');
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('user_permission_overrides')
+    .upsert(
+      {
+        user_id: userId,
+        permission: input.permission,
+        effect: input.effect,
+        expires_at: input.expiresAt || null,
+        reason: context.reason || null,
+        created_by: context.performedBy,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,permission' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error saving permission override:', error);
+    throw new Error('Failed to save permission override');
+  }
+
+  await recordPermissionChanges(
+    [
+      {
+        action: input.effect === 'grant' ? 'granted' : 'denied',
+        user_id: userId,
+        permission: input.permission,
+        details: { expires_at: input.expiresAt || null },
+      },
+    ],
+    context
+  );
+
+  logger.info('Permission override saved', { userId, ...input });
+  return data as PermissionOverrideRecord;
+}
+
+/**
+ * Remove a grant or denial, returning the user to their role's permission
+ */
+export async function removePermissionOverride(
+  overrideId: string,
+  context: ActionContext
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from('user_permission_overrides')
+    .delete()
+    .eq('id', overrideId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error removing permission override:', error);
+    throw new Error('Failed to remove permission override');
+  }
+  if (!data) {
+    throw new Error('Permission override not found');
+  }
+
+  const override = data as PermissionOverrideRecord;
+  await recordPermissionChanges(
+    [
+      {
+        action: 'revoked',
+        user_id: override.user_id,
+        permission: override.permission,
+        details: { effect: override.effect, expires_at: override.expires_at },
+      },
+    ],
+    context
+  );
+
+  logger.info('Permission override removed', { overrideId, userId: override.user_id });
+}
+
+/**
+ * Replace the pilot groups a user is limited to; no rules gives them every pilot
+ */
+export async function setUserDataScopes(
+  userId: string,
+  rules: DataScopeRule[],
+  context: ActionContext
+): Promise<DataScopeRule[]> {
+  const user = await getUserAccess(userId);
+  if (userId === context.performedBy) {
+    throw new Error('You cannot change your own data scope');
+  }
+  if (user.role === 'admin' && rules.length > 0) {
+    throw new Error('Administrators always see every pilot and cannot be scoped');
+  }
+
+  const supabase = getSupabaseAdmin();
+  const { data: existing, error: fetchError } = await supabase
+    .from('user_data_scopes')
+    .select('scope_type, scope_value')
+    .eq('user_id', userId);
+
+  if (fetchError) {
+    logger.error('Error fetching data scopes:', fetchError);
+    throw new Error('Failed to fetch data scopes');
+  }
+
+  const { error: deleteError } = await supabase
+    .from('user_data_scopes')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    logger.error('Error clearing data scopes:', deleteError);
+    throw new Error('Failed to save data scopes');
+  }
+
+  const scope = resolveDataScope({ role: user.role, data_scopes: rules });
+  const saved: DataScopeRule[] = Object.entries(scope.groups).flatMap(([scopeType, values]) =>
+    (values || []).map((value) => ({
+      scope_type: scopeType as DataScopeRule['scope_type'],
+      scope_value: value,
+    }))
+  );
+
+  if (saved.length > 0) {
+    const { error } = await supabase
+      .from('user_data_scopes')
+      .insert(saved.map((rule) => ({ ...rule, user_id: userId, created_by: context.performedBy })));
+
+    if (error) {
+      logger.error('Error saving data scopes:', error);
+      throw new Error('Failed to save data scopes');
+    }
+  }
+
+  await recordPermissionChanges(
+    [
+      {
+        action: 'scope_changed',
+        user_id: userId,
+        details: {
+          from: describeDataScope(
+            resolveDataScope({ role: user.role, data_scopes: (existing || []) as DataScopeRule[] })
+          ),
+          to: describeDataScope(scope),
+        },
+      },
+    ],
+    context
+  );
+
+  logger.info('Data scopes saved', { userId, scopes: saved.length });
+  return saved;
+}
+
+/**
+ * Most recent permission changes, optionally for one user
+ */
+export async function getPermissionAuditLog(
+  options: { userId?: string; limit?: number } = {}
+): Promise<PermissionAuditEntry[]> {
+  let query = getSupabaseAdmin()
+    .from('permission_audit_log')
+    .select(
+      `*,
+      user:an_users!permission_audit_log_user_id_fkey (name, email),
+      performed_by_user:an_users!permission_audit_log_performed_by_fkey (name, email)`
+    )
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Error fetching permission audit log:', error);
+    throw new Error('Failed to fetch permission audit log');
+  }
+
+  return (data || []) as PermissionAuditEntry[];
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Access Control Rules
+ * Resolves a staff user's effective permissions from their built-in or custom
+ * role and their per-user grants and denials, ignoring expired overrides and
+ * permissions the application does not know.
+ * Pure functions - data access lives in access-control-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  ROLE_DEFINITIONS,
+  createRBAC,
+  getAllPermissions,
+  isValidRole,
+  type Permission,
+  type RBACService,
+  type Role,
+} from './rbac';
+
+export const PERMISSION_OVERRIDE_EFFECTS = ['grant', 'deny'] as const;
+
+export type PermissionOverrideEffect = (typeof PERMISSION_OVERRIDE_EFFECTS)[number];
+
+export interface PermissionOverride {
+  permission: string;
+  effect: PermissionOverrideEffect;
+  expires_at: string | null;
+}
+
+export interface CustomRole {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  base_role: Role;
+  permissions: string[];
+}
+
+/** What the effective permissions of a user are resolved from (an an_users row with joins) */
+export interface UserAccessSource {
+  role: string;
+  custom_role?: Pick<CustomRole, 'name' | 'description' | 'permissions'> | null;
+  permission_overrides?: PermissionOverride[] | null;
+}
+
+/**
+ * Known permissions among the given values, de-duplicated, in PERMISSION_GROUPS order
+ */
+export function knownPermissions(values: readonly string[]): Permission[] {
+  const requested = new Set(values);
+  return getAllPermissions().filter((permission) => requested.has(permission));
+}
+
+/**
+ * Whether an override still applies; overrides without an expiry never lapse
+ */
+export function isOverrideActive(override: PermissionOverride, now: Date = new Date()): boolean {
+  return !override.expires_at || new Date(override.expires_at).getTime() > now.getTime();
+}
+
+/**
+ * Effective permissions of a user: the custom role's permissions (or the
+ * built-in role's), plus active grants, minus active denials.
+ * Unknown roles resolve to read-only.
+ */
+export function resolveUserAccess(source: UserAccessSource, now: Date = new Date()): RBACService {
+  const role: Role = isValidRole(source.role) ? source.role : 'readonly';
+  const active = (source.permission_overrides || []).filter((override) =>
+    isOverrideActive(override, now)
+  );
+  const overridden = (effect: PermissionOverrideEffect) =>
+    knownPermissions(active.filter((o) => o.effect === effect).map((o) => o.permission));
+
+  return createRBAC(role, overridden('grant'), {
+    deniedPermissions: overridden('deny'),
+    customRole: source.custom_role
+      ? {
+          displayName: source.custom_role.name,
+          description: source.custom_role.description || '',
+          permissions: knownPermissions(source.custom_role.permissions),
+        }
+      : undefined,
+  });
+}
+
+/**
+ * Display name of a user's role, e.g. "Training Manager" or "Manager"
+ */
+export function roleLabel(role: string, customRole?: Pick<CustomRole, 'name'> | null): string {
+  if (customRole) return customRole.name;
+  return isValidRole(role) ? ROLE_DEFINITIONS[role].displayName : role;
+}
+
+/**
+ * Stable key for a custom role name, e.g. "Rostering Officer" -> "rostering_officer"
+ */
+export function roleKeyFromName(name: string): string {
+  const key = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 45);
+  return /^[a-z]/.test(key) ? key : `role_${key}`.replace(/_+$/, '');
+}
+
+/**
+ * Permissions added and removed between two permission sets
+ */
+export function permissionChanges(
+  before: readonly string[],
+  after: readonly string[]
+): { added: Permission[]; removed: Permission[] } {
+  return {
+    added: knownPermissions(after.filter((permission) => !before.includes(permission))),
+    removed: knownPermissions(before.filter((permission) => !after.includes(permission))),
+  };
+}
@@ -18,18 +18,24 @@ import {
   endOfMonth,
 } from 'date-fns';
 import type { PilotAnalytics, CertificationAnalytics, LeaveAnalytics } from '@/types/analytics';
+import { UNRESTRICTED_SCOPE, type DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots, scopePilotsQuery } from '@/lib/data-scope-service';
 
 /**
  * Get comprehensive pilot analytics from database
+ * @param scope - Data scope of the requesting user; defaults to all pilots
  */
-export async function getPilotAnalyticsData(): Promise<PilotAnalytics> {
+export async function getPilotAnalyticsData(
+  scope: DataScope = UNRESTRICTED_SCOPE
+): Promise<PilotAnalytics> {
   try {
     console.log('📊 Analytics Data Service: Getting pilot analytics from database...');
 
     const supabaseAdmin = getSupabaseAdmin();
 
     // Get base pilot data with additional calculations
-    const { data: pilots, error } = await supabaseAdmin.from('pilots').select(`
+    const { data: pilots, error } = await scopePilotsQuery(
+      supabaseAdmin.from('pilots').select(`
         id,
         first_name,
         last_name,
@@ -40,7 +46,9 @@ export async function getPilotAnalyticsData(): Promise<PilotAnalytics> {
         is_active,
         captain_qualifications,
         updated_at
-      `);
+      `),
+      scope
+    );
 
     if (error) throw error;
 
@@ -140,15 +148,20 @@ export async function getPilotAnalyticsData(): Promise<PilotAnalytics> {
 
 /**
  * Get comprehensive certification analytics from database
+ * @param scope - Data scope of the requesting user; defaults to all pilots
  */
-export async function getCertificationAnalyticsData(): Promise<CertificationAnalytics> {
+export async function getCertificationAnalyticsData(
+  scope: DataScope = UNRESTRICTED_SCOPE
+): Promise<CertificationAnalytics> {
   try {
     console.log('📋 Analytics Data Service: Getting certification analytics from database...');
 
     const supabaseAdmin = getSupabaseAdmin();
+    const pilotIds = await getScopedPilotIds(scope);
 
     // Get certification data with check types
-    const { data: certifications, error } = await supabaseAdmin.from('pilot_checks').select(`
+    const { data: certifications, error } = await restrictToPilots(
+      supabaseAdmin.from('pilot_checks').select(`
         id,
         pilot_id,
         check_type_id,
@@ -159,7 +172,9 @@ export async function getCertificationAnalyticsData(): Promise<CertificationAnal
           check_description,
           category
         )
-      `);
+      `),
+      pilotIds
+    );
 
     if (error) throw error;
 
@@ -300,14 +315,19 @@ export async function getCertificationAnalyticsData(): Promise<CertificationAnal
 
 /**
  * Get leave analytics from database
+ * @param scope - Data scope of the requesting user; defaults to all pilots
  */
-export async function getLeaveAnalyticsData(): Promise<LeaveAnalytics> {
+export async function getLeaveAnalyticsData(
+  scope: DataScope = UNRESTRICTED_SCOPE
+): Promise<LeaveAnalytics> {
   try {
     console.log('📅 Analytics Data Service: Getting leave analytics from database...');
 
     const supabaseAdmin = getSupabaseAdmin();
+    const pilotIds = await getScopedPilotIds(scope);
 
-    const { data: leaveRequests, error } = await supabaseAdmin.from('leave_requests').select(`
+    const { data: leaveRequests, error } = await restrictToPilots(
+      supabaseAdmin.from('leave_requests').select(`
         id,
         pilot_id,
         request_type,
@@ -320,7 +340,9 @@ export async function getLeaveAnalyticsData(): Promise<LeaveAnalytics> {
           first_name,
           last_name
         )
-      `);
+      `),
+      pilotIds
+    );
 
     if (error) throw error;
 
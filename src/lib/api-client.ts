@@ -53,7 +53,10 @@ export async function authenticatedFetch(
   // Merge headers with auth token
   const headers = new Headers(options.headers);
   headers.set('Authorization', `Bearer ${session.access_token}`);
-  headers.set('Content-Type', 'application/json');
+  // Let the browser set the multipart boundary for file uploads
+  if (!(options.body instanceof FormData)) {
+    headers.set('Content-Type', 'application/json');
+  }
 
   // Perform authenticated request
   return fetch(url, {
@@ -62,6 +65,15 @@ export async function authenticatedFetch(
   });
 }
 
+/**
+ * Message of an error response: a plain `error` string, or the
+ * `{ error: { code, message } }` body of 401/403 responses (see api-error.ts)
+ */
+function errorMessage(body: any, status: number): string {
+  const error = body?.error;
+  return (typeof error === 'string' ? error : error?.message) || `API error: ${status}`;
+}
+
 /**
  * Performs an authenticated GET request
  *
@@ -75,7 +87,7 @@ export async function apiGet<T = any>(url: string): Promise<T> {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || `API error: ${response.status}`);
+    throw new Error(errorMessage(error, response.status));
   }
 
   return response.json();
@@ -96,7 +108,7 @@ export async function apiPost<T = any>(url: string, data: any): Promise<T> {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || `API error: ${response.status}`);
+    throw new Error(errorMessage(error, response.status));
   }
 
   return response.json();
@@ -117,7 +129,28 @@ export async function apiPut<T = any>(url: string, data: any): Promise<T> {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || `API error: ${response.status}`);
+    throw new Error(errorMessage(error, response.status));
+  }
+
+  return response.json();
+}
+
+/**
+ * Performs an authenticated PATCH request
+ *
+ * @param url - The API endpoint URL
+ * @param data - The request body data
+ * @returns Promise with parsed JSON response
+ */
+export async function apiPatch<T = any>(url: string, data: any): Promise<T> {
+  const response = await authenticatedFetch(url, {
+    method: 'PATCH',
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(errorMessage(error, response.status));
   }
 
   return response.json();
@@ -136,7 +169,7 @@ export async function apiDelete<T = any>(url: string): Promise<T> {
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || `API error: ${response.status}`);
+    throw new Error(errorMessage(error, response.status));
   }
 
   return response.json();
@@ -0,0 +1,430 @@
+/**
+ * @fileoverview Backup Archive Engine
+ * The tables a backup covers in foreign-key order, the versioned and checksummed
+ * archive format (gzipped JSON with per-table SHA-256 checksums in a manifest), the
+ * diff of archived rows against live rows used by dry-run restores, per-pilot scoping
+ * for selective restores, and the schedule and retention (daily/weekly/monthly) policy.
+ * Pure functions - storage and database access live in backup-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+
+export const BACKUP_FORMAT = 'air-niugini-pms-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupRow = Record<string, unknown>;
+
+export interface BackupTableSpec {
+  name: string;
+  /** Primary key used to upsert and diff rows (default id) */
+  key?: string;
+  /** Column holding the pilot ID, for per-pilot restores */
+  pilotColumn?: string;
+  /** Rows belong to a pilot through a parent table restored before them */
+  parent?: { table: string; column: string };
+}
+
+/**
+ * Tables covered by a backup, parents before children so restores satisfy foreign
+ * keys. Audit trails (audit_logs, security_audit_log, permission_audit_log) are
+ * append-only logs with their own retention and are not included.
+ */
+export const BACKUP_TABLES: readonly BackupTableSpec[] = [
+  { name: 'contract_types' },
+  { name: 'settings' },
+  { name: 'role_definitions' },
+  { name: 'an_users' },
+  { name: 'user_permission_overrides' },
+  { name: 'user_data_scopes' },
+  { name: 'check_types' },
+  { name: 'incident_types' },
+  { name: 'task_categories' },
+  { name: 'document_categories' },
+  { name: 'currency_rules' },
+  { name: 'pilots', pilotColumn: 'id' },
+  { name: 'pilot_users' },
+  { name: 'documents', pilotColumn: 'pilot_id' },
+  { name: 'check_events', pilotColumn: 'pilot_id' },
+  { name: 'pilot_checks', pilotColumn: 'pilot_id' },
+  { name: 'pilot_qualifications', pilotColumn: 'pilot_id' },
+  { name: 'leave_requests', pilotColumn: 'pilot_id' },
+  { name: 'leave_bids', pilotColumn: 'pilot_id' },
+  { name: 'leave_bid_awards', pilotColumn: 'pilot_id' },
+  { name: 'flight_requests', pilotColumn: 'pilot_id' },
+  { name: 'duty_periods', pilotColumn: 'pilot_id' },
+  { name: 'flight_sectors', pilotColumn: 'pilot_id' },
+  { name: 'upgrade_candidates', pilotColumn: 'pilot_id' },
+  { name: 'upgrade_pipeline_events', pilotColumn: 'pilot_id' },
+  { name: 'disciplinary_matters', pilotColumn: 'pilot_id' },
+  { name: 'disciplinary_actions', parent: { table: 'disciplinary_matters', column: 'matter_id' } },
+  { name: 'disciplinary_comments', parent: { table: 'disciplinary_matters', column: 'matter_id' } },
+  {
+    name: 'disciplinary_audit_log',
+    parent: { table: 'disciplinary_matters', column: 'matter_id' },
+  },
+  { name: 'tasks', pilotColumn: 'related_pilot_id' },
+  { name: 'task_comments', parent: { table: 'tasks', column: 'task_id' } },
+  { name: 'task_audit_log', parent: { table: 'tasks', column: 'task_id' } },
+  { name: 'task_generation_rules' },
+  { name: 'feedback_categories' },
+  { name: 'feedback_posts' },
+  { name: 'feedback_comments' },
+  { name: 'digital_forms' },
+  { name: 'form_submissions', pilotColumn: 'pilot_id' },
+  { name: 'pilot_documents', pilotColumn: 'pilot_id' },
+  { name: 'document_notifications', parent: { table: 'pilot_documents', column: 'document_id' } },
+  { name: 'notification_preferences' },
+  { name: 'notification_templates' },
+  { name: 'notifications' },
+  { name: 'notification_deliveries' },
+  { name: 'webhooks' },
+  { name: 'webhook_deliveries' },
+  { name: 'webhook_delivery_attempts' },
+];
+
+export const BACKUP_TABLE_NAMES = BACKUP_TABLES.map((table) => table.name);
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  backupId: string;
+  createdAt: string;
+  tables: { name: string; rows: number; checksum: string }[];
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  tables: Record<string, BackupRow[]>;
+}
+
+export interface TableDiff {
+  table: string;
+  /** Archived rows missing from the live table */
+  insert: BackupRow[];
+  /** Archived rows whose live copy differs */
+  update: BackupRow[];
+  unchanged: number;
+  /** Live rows not in the archive; restores leave them in place */
+  liveOnly: number;
+}
+
+export function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function getTableSpec(name: string): BackupTableSpec {
+  const spec = BACKUP_TABLES.find((table) => table.name === name);
+  if (!spec) {
+    throw new Error(`Unknown backup table: ${name}`);
+  }
+  return spec;
+}
+
+/**
+ * Sorts table names into restore (foreign-key) order; unknown names throw
+ */
+export function orderTables(names: string[]): string[] {
+  names.forEach(getTableSpec);
+  return BACKUP_TABLE_NAMES.filter((name) => names.includes(name));
+}
+
+// ============================================================================
+// ARCHIVE FORMAT
+// ============================================================================
+
+/**
+ * Serialises table rows into a gzipped archive; checksum covers the archive bytes
+ */
+export function encodeArchive(
+  backupId: string,
+  tables: Record<string, BackupRow[]>,
+  createdAt: string
+): { buffer: Buffer; checksum: string; manifest: BackupManifest } {
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    backupId,
+    createdAt,
+    tables: orderTables(Object.keys(tables)).map((name) => {
+      const rows = tables[name] || [];
+      return { name, rows: rows.length, checksum: sha256(JSON.stringify(rows)) };
+    }),
+  };
+
+  const buffer = gzipSync(JSON.stringify({ manifest, tables }));
+  return { buffer, checksum: sha256(buffer), manifest };
+}
+
+/**
+ * Checks an archive against its recorded checksum, format, version and per-table
+ * checksums, returning every problem found rather than stopping at the first
+ */
+export function inspectArchive(
+  buffer: Buffer,
+  expectedChecksum?: string | null
+): { archive: BackupArchive | null; issues: string[] } {
+  const issues: string[] = [];
+
+  if (expectedChecksum && sha256(buffer) !== expectedChecksum) {
+    issues.push('Archive checksum does not match the recorded checksum');
+  }
+
+  let parsed: Partial<BackupArchive>;
+  try {
+    parsed = JSON.parse(gunzipSync(buffer).toString('utf8'));
+  } catch {
+    return { archive: null, issues: [...issues, 'Archive could not be decompressed or parsed'] };
+  }
+
+  const manifest = parsed.manifest;
+  if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.tables)) {
+    return { archive: null, issues: [...issues, 'Archive has no valid backup manifest'] };
+  }
+  if (manifest.version > BACKUP_FORMAT_VERSION) {
+    issues.push(
+      `Archive format version ${manifest.version} is newer than the supported version ${BACKUP_FORMAT_VERSION}`
+    );
+  }
+
+  const tables = parsed.tables || {};
+  for (const entry of manifest.tables) {
+    const rows = tables[entry.name];
+    if (!Array.isArray(rows)) {
+      issues.push(`Table ${entry.name} is missing from the archive`);
+    } else if (rows.length !== entry.rows || sha256(JSON.stringify(rows)) !== entry.checksum) {
+      issues.push(`Table ${entry.name} does not match its manifest checksum`);
+    }
+  }
+
+  return { archive: { manifest, tables }, issues };
+}
+
+/**
+ * Reads an archive, throwing if it fails any integrity check
+ */
+export function decodeArchive(buffer: Buffer, expectedChecksum?: string | null): BackupArchive {
+  const { archive, issues } = inspectArchive(buffer, expectedChecksum);
+  if (!archive || issues.length > 0) {
+    throw new Error(issues.join('; '));
+  }
+  return archive;
+}
+
+// ============================================================================
+// RESTORE PLANNING
+// ============================================================================
+
+/**
+ * Keeps only one pilot's rows: tables with a pilot column are filtered on it,
+ * child tables follow their parent's kept rows and other tables are dropped
+ */
+export function scopeToPilot(
+  tables: Record<string, BackupRow[]>,
+  pilotId: string
+): Record<string, BackupRow[]> {
+  const scoped: Record<string, BackupRow[]> = {};
+  const keptKeys = new Map<string, Set<unknown>>();
+
+  for (const spec of BACKUP_TABLES) {
+    const rows = tables[spec.name];
+    if (!rows) continue;
+
+    let kept: BackupRow[];
+    if (spec.pilotColumn) {
+      kept = rows.filter((row) => row[spec.pilotColumn!] === pilotId);
+    } else if (spec.parent) {
+      const parentKeys = keptKeys.get(spec.parent.table) || new Set();
+      kept = rows.filter((row) => parentKeys.has(row[spec.parent!.column]));
+    } else {
+      continue;
+    }
+
+    scoped[spec.name] = kept;
+    keptKeys.set(spec.name, new Set(kept.map((row) => row[spec.key || 'id'])));
+  }
+
+  return scoped;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Compares archived rows with live rows by key. Only columns present in the
+ * archive are compared, so columns added since the backup do not count as changes.
+ */
+export function diffRows(
+  table: string,
+  backupRows: BackupRow[],
+  liveRows: BackupRow[],
+  key: string = 'id'
+): TableDiff {
+  const live = new Map(liveRows.map((row) => [row[key], row]));
+  const diff: TableDiff = { table, insert: [], update: [], unchanged: 0, liveOnly: 0 };
+
+  for (const row of backupRows) {
+    const current = live.get(row[key]);
+    if (!current) {
+      diff.insert.push(row);
+    } else if (Object.keys(row).some((column) => !sameValue(row[column], current[column]))) {
+      diff.update.push(row);
+    } else {
+      diff.unchanged++;
+    }
+    live.delete(row[key]);
+  }
+
+  diff.liveOnly = live.size;
+  return diff;
+}
+
+// ============================================================================
+// SCHEDULE AND RETENTION
+// ============================================================================
+
+export interface BackupRetention {
+  /** Newest scheduled backup of each of the most recent N days */
+  daily: number;
+  /** Newest scheduled backup of each of the most recent N weeks */
+  weekly: number;
+  /** Newest scheduled backup of each of the most recent N months */
+  monthly: number;
+}
+
+export interface BackupPolicy {
+  enabled: boolean;
+  frequency: 'daily' | 'weekly';
+  /** Hour of day (UTC) the scheduled backup becomes due */
+  hourUtc: number;
+  /** Day of week for weekly backups, 0 = Sunday */
+  weekday: number;
+  retention: BackupRetention;
+}
+
+/** Midnight Port Moresby time (UTC+10), kept for a week, a month and a year */
+export const DEFAULT_BACKUP_POLICY: BackupPolicy = {
+  enabled: true,
+  frequency: 'daily',
+  hourUtc: 14,
+  weekday: 0,
+  retention: { daily: 7, weekly: 4, monthly: 12 },
+};
+
+export interface PrunableBackup {
+  id: string;
+  kind: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed';
+  created_at: string;
+}
+
+const clampInt = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(Math.round(value), min), max)
+    : fallback;
+
+/**
+ * Fills in missing policy fields from the defaults and clamps out-of-range values
+ */
+export function normalizeBackupPolicy(value: unknown): BackupPolicy {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<BackupPolicy>;
+  const retention = (input.retention || {}) as Partial<BackupRetention>;
+  const defaults = DEFAULT_BACKUP_POLICY;
+
+  return {
+    enabled: typeof input.enabled === 'boolean' ? input.enabled : defaults.enabled,
+    frequency: input.frequency === 'weekly' ? 'weekly' : 'daily',
+    hourUtc: clampInt(input.hourUtc, 0, 23, defaults.hourUtc),
+    weekday: clampInt(input.weekday, 0, 6, defaults.weekday),
+    retention: {
+      daily: clampInt(retention.daily, 1, 90, defaults.retention.daily),
+      weekly: clampInt(retention.weekly, 0, 52, defaults.retention.weekly),
+      monthly: clampInt(retention.monthly, 0, 120, defaults.retention.monthly),
+    },
+  };
+}
+
+/**
+ * Most recent time a scheduled backup was due at or before now
+ */
+export function lastScheduledSlot(policy: BackupPolicy, now: Date): Date {
+  const slot = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), policy.hourUtc)
+  );
+  if (slot > now) {
+    slot.setUTCDate(slot.getUTCDate() - 1);
+  }
+  if (policy.frequency === 'weekly') {
+    slot.setUTCDate(slot.getUTCDate() - ((slot.getUTCDay() - policy.weekday + 7) % 7));
+  }
+  return slot;
+}
+
+/**
+ * A scheduled backup is due when none has been taken since the last slot
+ */
+export function isBackupDue(
+  policy: BackupPolicy,
+  lastScheduledAt: string | null,
+  now: Date
+): boolean {
+  if (!policy.enabled) return false;
+  return !lastScheduledAt || new Date(lastScheduledAt) < lastScheduledSlot(policy, now);
+}
+
+function mondayOf(date: Date): string {
+  const monday = new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() - ((date.getUTCDay() + 6) % 7)
+    )
+  );
+  return monday.toISOString().slice(0, 10);
+}
+
+/**
+ * Scheduled backups outside the daily/weekly/monthly retention windows, plus failed
+ * scheduled backups older than the daily window. Manual backups are never pruned.
+ */
+export function selectBackupsToPrune(
+  backups: PrunableBackup[],
+  retention: BackupRetention,
+  now: Date
+): string[] {
+  const scheduled = backups
+    .filter((backup) => backup.kind === 'scheduled')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const completed = scheduled.filter((backup) => backup.status === 'completed');
+
+  const keep = new Set<string>();
+  const keepNewestPer = (bucketOf: (date: Date) => string, count: number) => {
+    const buckets = new Set<string>();
+    for (const backup of completed) {
+      const bucket = bucketOf(new Date(backup.created_at));
+      if (buckets.has(bucket)) continue;
+      if (buckets.size >= count) break;
+      buckets.add(bucket);
+      keep.add(backup.id);
+    }
+  };
+
+  keepNewestPer((date) => date.toISOString().slice(0, 10), retention.daily);
+  keepNewestPer(mondayOf, retention.weekly);
+  keepNewestPer((date) => date.toISOString().slice(0, 7), retention.monthly);
+
+  const failedCutoff = now.getTime() - retention.daily * 24 * 60 * 60 * 1000;
+
+  return scheduled
+    .filter((backup) => {
+      if (backup.status === 'completed') return !keep.has(backup.id);
+      if (backup.status === 'failed') return new Date(backup.created_at).getTime() < failedCutoff;
+      return false;
+    })
+    .map((backup) => backup.id);
+}
@@ -1,409 +1,660 @@
 /**
- * Backup & Restore Service
- * Air Niugini Pilot Management System
+ * @fileoverview Backup & Restore Service
+ * Writes backup archives (see backup-archive) to the private backups storage bucket
+ * and records them in the backups table, verifies archives against their checksums,
+ * runs dry-run and selective (per-table, per-pilot) restores in foreign-key order, and
+ * takes scheduled backups and prunes old ones according to the backup_policy setting.
  *
- * Database backup and restore functionality
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
  */
 
-import { getSupabaseAdmin } from './supabase';
-import { nanoid } from 'nanoid';
+import { format } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { invalidateCache, CACHE_INVALIDATION_PATTERNS } from '@/lib/cache-service';
+import { triggerWebhookEvent } from '@/lib/webhook-service';
+import {
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TABLE_NAMES,
+  decodeArchive,
+  diffRows,
+  encodeArchive,
+  getTableSpec,
+  inspectArchive,
+  isBackupDue,
+  normalizeBackupPolicy,
+  orderTables,
+  scopeToPilot,
+  selectBackupsToPrune,
+  type BackupPolicy,
+  type BackupRow,
+  type PrunableBackup,
+} from '@/lib/backup-archive';
+
+export const BACKUP_BUCKET = 'backups';
+export const BACKUP_POLICY_SETTING_KEY = 'backup_policy';
+
+const BACKUP_POLICY_DESCRIPTION =
+  'Scheduled backups: frequency, hour (UTC) and daily/weekly/monthly retention';
+
+const PAGE_SIZE = 1000;
+const UPSERT_CHUNK_SIZE = 500;
+const FILTER_CHUNK_SIZE = 200;
+
+export interface Backup {
+  id: string;
+  kind: 'manual' | 'scheduled';
+  status: 'running' | 'completed' | 'failed';
+  format_version: number;
+  storage_path: string | null;
+  checksum: string | null;
+  size_bytes: number | null;
+  tables: string[];
+  record_counts: Record<string, number>;
+  description: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  verified_at: string | null;
+  verification_issues: string[] | null;
+  created_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
 
-export interface BackupMetadata {
+export interface BackupRestore {
   id: string;
-  timestamp: Date;
-  size: number; // bytes
+  backup_id: string;
+  dry_run: boolean;
   tables: string[];
-  recordCount: Record<string, number>;
-  status: 'pending' | 'completed' | 'failed';
-  error?: string;
-  createdBy: string;
-  description?: string;
-  duration?: number; // ms
+  pilot_id: string | null;
+  summary: RestoreSummary;
+  success: boolean;
+  performed_by: string | null;
+  created_at: string;
 }
 
-export interface BackupData {
-  metadata: BackupMetadata;
-  data: Record<string, any[]>;
-  schema: Record<string, any>;
+export interface RestoreOptions {
+  /** Tables to restore; defaults to every table in the archive */
+  tables?: string[];
+  /** Restore only this pilot's rows */
+  pilotId?: string;
+  dryRun: boolean;
 }
 
-export interface RestoreResult {
-  success: boolean;
-  tablesRestored: string[];
+export interface RestoreTableSummary {
+  table: string;
+  insert: number;
+  update: number;
+  unchanged: number;
+  liveOnly: number;
+  restored: number;
+  /** Sample of keys that would be inserted or updated */
+  sampleKeys: unknown[];
+  error?: string;
+  skipped?: boolean;
+}
+
+export interface RestoreSummary {
+  backupId: string;
+  dryRun: boolean;
+  pilotId: string | null;
+  tables: RestoreTableSummary[];
   recordsRestored: number;
   errors: string[];
+  success: boolean;
   duration: number;
 }
 
+// ============================================================================
+// STORAGE AND DATA ACCESS
+// ============================================================================
+
+async function ensureBackupBucket(): Promise<void> {
+  const storage = getSupabaseAdmin().storage;
+  const { data: buckets, error } = await storage.listBuckets();
+
+  if (error) {
+    throw new Error(`Failed to list storage buckets: ${error.message}`);
+  }
+
+  if (!buckets?.some((bucket) => bucket.name === BACKUP_BUCKET)) {
+    const { error: createError } = await storage.createBucket(BACKUP_BUCKET, { public: false });
+    if (createError) {
+      throw new Error(`Failed to create backups bucket: ${createError.message}`);
+    }
+    logger.info('Backups storage bucket created', { bucket: BACKUP_BUCKET });
+  }
+}
+
 /**
- * Backup Service Class
+ * Reads every row matching the filter, a page at a time
  */
-export class BackupService {
-  private static instance: BackupService;
-  private backups: Map<string, BackupMetadata> = new Map();
-  private readonly BACKUP_TABLES = [
-    'pilots',
-    'pilot_checks',
-    'check_types',
-    'users',
-    'leave_requests',
-    'settings',
-    'contract_types',
-  ];
-
-  private constructor() {}
-
-  /**
-   * Get singleton instance
-   */
-  static getInstance(): BackupService {
-    if (!BackupService.instance) {
-      BackupService.instance = new BackupService();
+async function fetchRows(
+  table: string,
+  key: string,
+  filter?: { column: string; values: unknown[] }
+): Promise<BackupRow[]> {
+  const supabase = getSupabaseAdmin();
+  const rows: BackupRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from(table)
+      .select('*')
+      .order(key, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (filter) {
+      query =
+        filter.values.length === 1
+          ? query.eq(filter.column, filter.values[0])
+          : query.in(filter.column, filter.values);
     }
-    return BackupService.instance;
-  }
 
-  /**
-   * Create database backup
-   */
-  async createBackup(config: {
-    tables?: string[];
-    description?: string;
-    createdBy: string;
-  }): Promise<BackupMetadata> {
-    const backupId = nanoid();
-    const startTime = Date.now();
-
-    const metadata: BackupMetadata = {
-      id: backupId,
-      timestamp: new Date(),
-      size: 0,
-      tables: config.tables || this.BACKUP_TABLES,
-      recordCount: {},
-      status: 'pending',
-      createdBy: config.createdBy,
-      description: config.description,
-    };
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to read ${table}: ${error.message}`);
+    }
 
-    try {
-      const supabase = getSupabaseAdmin();
-      const backupData: Record<string, any[]> = {};
-      let totalSize = 0;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
 
-      // Backup each table
-      for (const table of metadata.tables) {
-        const { data, error } = await supabase.from(table).select('*');
+async function downloadArchive(backup: Backup): Promise<Buffer> {
+  if (backup.status !== 'completed' || !backup.storage_path) {
+    throw new Error('Backup did not complete and has no archive');
+  }
 
-        if (error) {
-          throw new Error(`Failed to backup table ${table}: ${error.message}`);
-        }
+  const { data, error } = await getSupabaseAdmin()
+    .storage.from(BACKUP_BUCKET)
+    .download(backup.storage_path);
 
-        backupData[table] = data || [];
-        metadata.recordCount[table] = data?.length || 0;
+  if (error || !data) {
+    throw new Error(`Failed to download backup archive: ${error?.message || 'not found'}`);
+  }
 
-        // Calculate size
-        const tableSize = JSON.stringify(data).length;
-        totalSize += tableSize;
-      }
+  return Buffer.from(await data.arrayBuffer());
+}
 
-      metadata.size = totalSize;
-      metadata.status = 'completed';
-      metadata.duration = Date.now() - startTime;
+// ============================================================================
+// BACKUPS
+// ============================================================================
 
-      // Store metadata
-      this.backups.set(backupId, metadata);
+export async function listBackups(limit: number = 100): Promise<Backup[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('backups')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
 
-      // In production, store backup data to Supabase Storage
-      // await this.saveBackupToStorage(backupId, backupData);
+  if (error) {
+    logger.error('Error fetching backups:', error);
+    throw new Error('Failed to fetch backups');
+  }
 
-      return metadata;
-    } catch (error: any) {
-      metadata.status = 'failed';
-      metadata.error = error.message;
-      metadata.duration = Date.now() - startTime;
+  return data || [];
+}
 
-      this.backups.set(backupId, metadata);
-      throw error;
-    }
-  }
+export async function getBackup(id: string): Promise<Backup | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('backups')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
 
-  /**
-   * List all backups
-   */
-  listBackups(): BackupMetadata[] {
-    return Array.from(this.backups.values()).sort(
-      (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
-    );
+  if (error) {
+    logger.error('Error fetching backup:', error);
+    throw new Error('Failed to fetch backup');
   }
 
-  /**
-   * Get backup metadata
-   */
-  getBackup(backupId: string): BackupMetadata | undefined {
-    return this.backups.get(backupId);
-  }
+  return data;
+}
 
-  /**
-   * Delete backup
-   */
-  async deleteBackup(backupId: string): Promise<void> {
-    const backup = this.backups.get(backupId);
-    if (!backup) {
-      throw new Error('Backup not found');
-    }
+export async function getBackupRestores(backupId: string): Promise<BackupRestore[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('backup_restores')
+    .select('*')
+    .eq('backup_id', backupId)
+    .order('created_at', { ascending: false });
 
-    // Delete from storage (in production)
-    // await this.deleteBackupFromStorage(backupId);
+  if (error) {
+    logger.error('Error fetching backup restores:', error);
+    throw new Error('Failed to fetch backup restores');
+  }
+
+  return data || [];
+}
 
-    this.backups.delete(backupId);
+/**
+ * Takes a backup of the given tables (default all) and writes the archive to storage
+ */
+export async function createBackup(config: {
+  kind: Backup['kind'];
+  tables?: string[];
+  description?: string | null;
+  createdBy?: string | null;
+}): Promise<Backup> {
+  const supabase = getSupabaseAdmin();
+  const tables = orderTables(config.tables?.length ? config.tables : BACKUP_TABLE_NAMES);
+  const startTime = Date.now();
+
+  const { data: created, error: createError } = await supabase
+    .from('backups')
+    .insert({
+      kind: config.kind,
+      status: 'running',
+      format_version: BACKUP_FORMAT_VERSION,
+      tables,
+      description: config.description || null,
+      created_by: config.createdBy || null,
+    })
+    .select()
+    .single();
+
+  if (createError) {
+    logger.error('Error recording backup:', createError);
+    throw new Error(`Failed to start backup: ${createError.message}`);
   }
 
-  /**
-   * Restore from backup
-   */
-  async restoreBackup(
-    backupId: string,
-    options?: {
-      tables?: string[];
-      confirmWipe?: boolean;
-    }
-  ): Promise<RestoreResult> {
-    const backup = this.backups.get(backupId);
-    if (!backup || backup.status !== 'completed') {
-      throw new Error('Invalid or incomplete backup');
+  const backup = created as Backup;
+
+  try {
+    const data: Record<string, BackupRow[]> = {};
+    for (const table of tables) {
+      data[table] = await fetchRows(table, getTableSpec(table).key || 'id');
     }
 
-    const startTime = Date.now();
-    const result: RestoreResult = {
-      success: true,
-      tablesRestored: [],
-      recordsRestored: 0,
-      errors: [],
-      duration: 0,
-    };
+    const { buffer, checksum } = encodeArchive(backup.id, data, backup.created_at);
+    const storagePath = `${format(new Date(backup.created_at), 'yyyy/MM')}/${backup.id}.json.gz`;
 
-    try {
-      // In production, load backup data from storage
-      // const backupData = await this.loadBackupFromStorage(backupId);
-
-      const supabase = getSupabaseAdmin();
-      const tablesToRestore = options?.tables || backup.tables;
-
-      for (const table of tablesToRestore) {
-        try {
-          // Delete existing data if confirmed
-          if (options?.confirmWipe) {
-            const { error: deleteError } = await supabase
-              .from(table)
-              .delete()
-              .neq('id', 'impossible-id'); // Delete all
-
-            if (deleteError) {
-              throw new Error(`Failed to clear table ${table}: ${deleteError.message}`);
-            }
-          }
+    await ensureBackupBucket();
+    const { error: uploadError } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .upload(storagePath, buffer, { contentType: 'application/gzip', upsert: false });
 
-          // Insert backup data
-          // const tableData = backupData[table];
-          // if (tableData && tableData.length > 0) {
-          //   const { error: insertError } = await supabase
-          //     .from(table)
-          //     .insert(tableData);
-
-          //   if (insertError) {
-          //     throw new Error(`Failed to restore table ${table}: ${insertError.message}`);
-          //   }
-
-          //   result.tablesRestored.push(table);
-          //   result.recordsRestored += tableData.length;
-          // }
-
-          // Simulated for now
-          result.tablesRestored.push(table);
-          result.recordsRestored += backup.recordCount[table] || 0;
-        } catch (error: any) {
-          result.errors.push(`${table}: ${error.message}`);
-          result.success = false;
-        }
-      }
+    if (uploadError) {
+      throw new Error(`Failed to upload backup archive: ${uploadError.message}`);
+    }
 
-      result.duration = Date.now() - startTime;
-      return result;
-    } catch (error: any) {
-      result.success = false;
-      result.errors.push(error.message);
-      result.duration = Date.now() - startTime;
-      return result;
+    const { data: completed, error: updateError } = await supabase
+      .from('backups')
+      .update({
+        status: 'completed',
+        storage_path: storagePath,
+        checksum,
+        size_bytes: buffer.length,
+        record_counts: Object.fromEntries(tables.map((table) => [table, data[table]!.length])),
+        duration_ms: Date.now() - startTime,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', backup.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to record backup: ${updateError.message}`);
     }
+
+    logger.info('Backup completed', {
+      backupId: backup.id,
+      kind: config.kind,
+      size: buffer.length,
+    });
+
+    await triggerWebhookEvent('backup.completed', {
+      backup_id: backup.id,
+      kind: config.kind,
+      size_bytes: buffer.length,
+      checksum,
+      tables: tables.length,
+    });
+
+    return completed;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Backup failed';
+    logger.error('Backup failed', { backupId: backup.id, error });
+
+    await supabase
+      .from('backups')
+      .update({ status: 'failed', error: message, duration_ms: Date.now() - startTime })
+      .eq('id', backup.id);
+
+    await triggerWebhookEvent('backup.failed', {
+      backup_id: backup.id,
+      kind: config.kind,
+      error: message,
+    });
+
+    throw new Error(message);
   }
+}
 
-  /**
-   * Verify backup integrity
-   */
-  async verifyBackup(backupId: string): Promise<{
-    valid: boolean;
-    issues: string[];
-  }> {
-    const backup = this.backups.get(backupId);
-    if (!backup) {
-      return {
-        valid: false,
-        issues: ['Backup not found'],
-      };
-    }
+/**
+ * Removes the archive from storage and the backup record
+ */
+export async function deleteBackup(id: string): Promise<void> {
+  const backup = await getBackup(id);
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
 
-    const issues: string[] = [];
+  const supabase = getSupabaseAdmin();
 
-    // Check status
-    if (backup.status !== 'completed') {
-      issues.push('Backup did not complete successfully');
+  if (backup.storage_path) {
+    const { error: removeError } = await supabase.storage
+      .from(BACKUP_BUCKET)
+      .remove([backup.storage_path]);
+    if (removeError) {
+      throw new Error(`Failed to remove backup archive: ${removeError.message}`);
     }
+  }
 
-    // Check size
-    if (backup.size === 0) {
-      issues.push('Backup has zero size');
-    }
+  const { error } = await supabase.from('backups').delete().eq('id', id);
+  if (error) {
+    logger.error('Error deleting backup:', error);
+    throw new Error('Failed to delete backup');
+  }
+}
 
-    // Check tables
-    if (backup.tables.length === 0) {
-      issues.push('No tables in backup');
-    }
+/**
+ * Downloads the archive and checks its checksum, format and per-table contents
+ * against the backup record; the result is stored on the backup
+ */
+export async function verifyBackup(id: string): Promise<{ valid: boolean; issues: string[] }> {
+  const backup = await getBackup(id);
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+
+  let issues: string[];
+  try {
+    const { archive, issues: archiveIssues } = inspectArchive(
+      await downloadArchive(backup),
+      backup.checksum
+    );
+    issues = [...archiveIssues];
 
-    // Check record counts
     for (const table of backup.tables) {
-      if (!backup.recordCount[table]) {
-        issues.push(`Missing record count for table: ${table}`);
+      const entry = archive?.manifest.tables.find((t) => t.name === table);
+      if (archive && !entry) {
+        issues.push(`Table ${table} is missing from the manifest`);
+      } else if (entry && entry.rows !== backup.record_counts[table]) {
+        issues.push(
+          `Table ${table} has ${entry.rows} rows but ${backup.record_counts[table] ?? 0} were recorded`
+        );
       }
     }
+  } catch (error) {
+    issues = [error instanceof Error ? error.message : 'Verification failed'];
+  }
 
-    return {
-      valid: issues.length === 0,
-      issues,
-    };
+  const { error } = await getSupabaseAdmin()
+    .from('backups')
+    .update({ verified_at: new Date().toISOString(), verification_issues: issues })
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Error recording backup verification:', error);
   }
 
-  /**
-   * Schedule automated backups
-   */
-  scheduleAutoBackup(config: {
-    interval: number; // hours
-    retentionDays: number;
-    createdBy: string;
-  }): NodeJS.Timeout {
-    const intervalMs = config.interval * 60 * 60 * 1000;
-
-    return setInterval(async () => {
-      try {
-        await this.createBackup({
-          description: 'Automated backup',
-          createdBy: config.createdBy,
-        });
+  return { valid: issues.length === 0, issues };
+}
 
-        // Clean old backups
-        await this.cleanOldBackups(config.retentionDays);
-      } catch (error) {
-        logger.error('Automated backup failed', error instanceof Error ? error : new Error(String(error)));
-      }
-    }, intervalMs);
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+/**
+ * Restores archived rows into the live database, parents before children. Archived
+ * rows are inserted or overwrite their live copy; live rows not in the archive are
+ * left alone. A dry run only reports the differences. A failing table stops the
+ * restore so children are never written without their parents.
+ */
+export async function restoreBackup(
+  id: string,
+  options: RestoreOptions,
+  performedBy: string | null
+): Promise<RestoreSummary> {
+  const startTime = Date.now();
+  const backup = await getBackup(id);
+  if (!backup) {
+    throw new Error('Backup not found');
   }
 
-  /**
-   * Clean old backups
-   */
-  async cleanOldBackups(retentionDays: number): Promise<number> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+  const archive = decodeArchive(await downloadArchive(backup), backup.checksum);
+  const archivedTables = archive.manifest.tables.map((table) => table.name);
 
-    const oldBackups = Array.from(this.backups.values()).filter(
-      (backup) => backup.timestamp < cutoffDate
-    );
+  const requested = options.tables?.length ? options.tables : archivedTables;
+  const missing = requested.filter((table) => !archivedTables.includes(table));
+  if (missing.length > 0) {
+    throw new Error(`Tables not in this backup: ${missing.join(', ')}`);
+  }
 
-    for (const backup of oldBackups) {
-      await this.deleteBackup(backup.id);
+  let data = Object.fromEntries(
+    orderTables(requested).map((table) => [table, archive.tables[table] || []])
+  );
+  if (options.pilotId) {
+    data = scopeToPilot(data, options.pilotId);
+  }
+
+  const supabase = getSupabaseAdmin();
+  const summary: RestoreSummary = {
+    backupId: id,
+    dryRun: options.dryRun,
+    pilotId: options.pilotId || null,
+    tables: [],
+    recordsRestored: 0,
+    errors: [],
+    success: true,
+    duration: 0,
+  };
+
+  for (const table of orderTables(Object.keys(data))) {
+    const spec = getTableSpec(table);
+    const key = spec.key || 'id';
+    const rows = data[table] || [];
+
+    if (!summary.success) {
+      summary.tables.push({
+        table,
+        insert: 0,
+        update: 0,
+        unchanged: 0,
+        liveOnly: 0,
+        restored: 0,
+        sampleKeys: [],
+        skipped: true,
+      });
+      continue;
     }
 
-    return oldBackups.length;
-  }
+    try {
+      let liveRows: BackupRow[];
+      if (!options.pilotId) {
+        liveRows = await fetchRows(table, key);
+      } else if (spec.pilotColumn) {
+        liveRows = await fetchRows(table, key, {
+          column: spec.pilotColumn,
+          values: [options.pilotId],
+        });
+      } else {
+        // Child rows: compare against live rows of the restored parents
+        const parentKeys = [...new Set(rows.map((row) => row[spec.parent!.column]))];
+        liveRows = [];
+        for (let i = 0; i < parentKeys.length; i += FILTER_CHUNK_SIZE) {
+          liveRows.push(
+            ...(await fetchRows(table, key, {
+              column: spec.parent!.column,
+              values: parentKeys.slice(i, i + FILTER_CHUNK_SIZE),
+            }))
+          );
+        }
+      }
 
-  /**
-   * Export backup to JSON
-   */
-  async exportBackup(backupId: string): Promise<string> {
-    const backup = this.backups.get(backupId);
-    if (!backup) {
-      throw new Error('Backup not found');
+      const diff = diffRows(table, rows, liveRows, key);
+      const changes = [...diff.insert, ...diff.update];
+      const tableSummary: RestoreTableSummary = {
+        table,
+        insert: diff.insert.length,
+        update: diff.update.length,
+        unchanged: diff.unchanged,
+        liveOnly: diff.liveOnly,
+        restored: 0,
+        sampleKeys: changes.slice(0, 10).map((row) => row[key]),
+      };
+      summary.tables.push(tableSummary);
+
+      if (!options.dryRun) {
+        for (let i = 0; i < changes.length; i += UPSERT_CHUNK_SIZE) {
+          const chunk = changes.slice(i, i + UPSERT_CHUNK_SIZE);
+          const { error } = await supabase.from(table).upsert(chunk, { onConflict: key });
+          if (error) {
+            throw new Error(error.message);
+          }
+          tableSummary.restored += chunk.length;
+        }
+        summary.recordsRestored += tableSummary.restored;
+      }
+    } catch (error) {
+      const message = `${table}: ${error instanceof Error ? error.message : 'Restore failed'}`;
+      const tableSummary = summary.tables.find((t) => t.table === table);
+      if (tableSummary) {
+        tableSummary.error = message;
+      } else {
+        summary.tables.push({
+          table,
+          insert: 0,
+          update: 0,
+          unchanged: 0,
+          liveOnly: 0,
+          restored: 0,
+          sampleKeys: [],
+          error: message,
+        });
+      }
+      summary.errors.push(message);
+      summary.success = false;
     }
+  }
 
-    // In production, load full backup data
-    // const backupData = await this.loadBackupFromStorage(backupId);
-
-    return JSON.stringify(
-      {
-        metadata: backup,
-        data: {}, // Would contain actual data
-        exportedAt: new Date().toISOString(),
-        version: '1.0',
-      },
-      null,
-      2
-    );
+  summary.duration = Date.now() - startTime;
+
+  if (!options.dryRun && summary.recordsRestored > 0) {
+    invalidateCache([...CACHE_INVALIDATION_PATTERNS.FULL_REFRESH]);
   }
 
-  /**
-   * Get backup statistics
-   */
-  getBackupStatistics(): {
-    totalBackups: number;
-    totalSize: number;
-    successRate: number;
-    averageSize: number;
-    lastBackup?: Date;
-  } {
-    const backups = Array.from(this.backups.values());
-    const completed = backups.filter((b) => b.status === 'completed');
-
-    const totalSize = completed.reduce((sum, b) => sum + b.size, 0);
-    const lastBackup =
-      backups.length > 0
-        ? backups.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0].timestamp
-        : undefined;
-
-    return {
-      totalBackups: backups.length,
-      totalSize,
-      successRate: backups.length > 0 ? (completed.length / backups.length) * 100 : 0,
-      averageSize: completed.length > 0 ? totalSize / completed.length : 0,
-      lastBackup,
-    };
+  const { error: logError } = await supabase.from('backup_restores').insert({
+    backup_id: id,
+    dry_run: options.dryRun,
+    tables: summary.tables.map((t) => t.table),
+    pilot_id: options.pilotId || null,
+    summary,
+    success: summary.success,
+    performed_by: performedBy,
+  });
+
+  if (logError) {
+    logger.error('Error recording backup restore:', logError);
   }
+
+  logger.info(options.dryRun ? 'Backup restore dry run' : 'Backup restored', {
+    backupId: id,
+    pilotId: options.pilotId,
+    recordsRestored: summary.recordsRestored,
+    success: summary.success,
+  });
+
+  return summary;
 }
 
-/**
- * Singleton instance
- */
-export const backupService = BackupService.getInstance();
+// ============================================================================
+// SCHEDULE AND RETENTION
+// ============================================================================
 
-/**
- * Helper functions
- */
+export async function getBackupPolicy(): Promise<BackupPolicy> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('settings')
+    .select('value')
+    .eq('key', BACKUP_POLICY_SETTING_KEY)
+    .maybeSingle();
 
-export async function createBackup(description?: string, createdBy: string = 'system') {
-  return backupService.createBackup({ description, createdBy });
-}
+  if (error) {
+    logger.error('Error fetching backup policy:', error);
+    throw new Error('Failed to fetch backup policy');
+  }
 
-export function listBackups() {
-  return backupService.listBackups();
+  return normalizeBackupPolicy(data?.value);
 }
 
-export async function restoreBackup(backupId: string, options?: any) {
-  return backupService.restoreBackup(backupId, options);
-}
+export async function updateBackupPolicy(policy: BackupPolicy): Promise<BackupPolicy> {
+  const normalized = normalizeBackupPolicy(policy);
+
+  const { error } = await getSupabaseAdmin().from('settings').upsert(
+    {
+      key: BACKUP_POLICY_SETTING_KEY,
+      value: normalized,
+      description: BACKUP_POLICY_DESCRIPTION,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    logger.error('Error updating backup policy:', error);
+    throw new Error('Failed to update backup policy');
+  }
 
-export function formatBackupSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return normalized;
 }
 
-export default backupService;
+/**
+ * Takes the scheduled backup if its slot has passed, then prunes scheduled backups
+ * outside the retention windows. Safe to run as often as the cron allows.
+ */
+export async function runScheduledBackup(
+  now: Date = new Date()
+): Promise<{ backupId: string | null; pruned: number }> {
+  const supabase = getSupabaseAdmin();
+  const policy = await getBackupPolicy();
+
+  const { data: last, error: lastError } = await supabase
+    .from('backups')
+    .select('created_at')
+    .eq('kind', 'scheduled')
+    .in('status', ['running', 'completed'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    throw new Error(`Failed to read last scheduled backup: ${lastError.message}`);
+  }
+
+  let backupId: string | null = null;
+  if (isBackupDue(policy, last?.created_at || null, now)) {
+    backupId = (await createBackup({ kind: 'scheduled', description: 'Scheduled backup' })).id;
+  }
+
+  const { data: scheduled, error: scheduledError } = await supabase
+    .from('backups')
+    .select('id, kind, status, created_at')
+    .eq('kind', 'scheduled');
+
+  if (scheduledError) {
+    throw new Error(`Failed to read scheduled backups: ${scheduledError.message}`);
+  }
+
+  const toPrune = selectBackupsToPrune(
+    (scheduled || []) as PrunableBackup[],
+    policy.retention,
+    now
+  );
+  for (const id of toPrune) {
+    await deleteBackup(id);
+  }
+
+  return { backupId, pruned: toPrune.length };
+}
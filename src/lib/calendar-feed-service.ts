@@ -0,0 +1,583 @@
+/**
+ * @fileoverview Calendar Feed Service
+ * Tokenised iCalendar subscription feeds of approved leave, check expiries (with
+ * reminder alarms at the configured alert thresholds), roster period boundaries and
+ * flight request departure dates, for one pilot or the whole fleet. Also imports a
+ * pilot's calendar file as pending leave requests.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { randomBytes } from 'crypto';
+import { differenceInDays, format, parseISO, subDays, addDays } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { settingsService, type AlertThresholds } from '@/lib/settings-service';
+import { listRosterPeriods } from '@/lib/roster-utils';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { submitPilotLeaveRequest, type PilotLeaveRequestData } from '@/lib/pilot-leave-service';
+import { buildCalendar, parseCalendar, type IcsAlarm, type IcsEvent } from '@/lib/ical';
+import { getScopedPilotIds, getUserDataScope, restrictToPilots } from '@/lib/data-scope-service';
+import { UNRESTRICTED_SCOPE, type DataScope } from '@/lib/data-scope';
+import { resolveUserAccess, type UserAccessSource } from '@/lib/access-control';
+import type { Permission } from '@/lib/rbac';
+
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  /** Pilot the feed covers; null for a fleet-wide staff feed */
+  pilot_id: string | null;
+  user_id: string | null;
+  pilot_user_id: string | null;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+export type LeaveRequestType = PilotLeaveRequestData['request_type'];
+
+/** Permissions a staff feed's owner must still hold for the feed to be served */
+const STAFF_FEED_PERMISSIONS: Permission[] = ['leave:read', 'certification:read'];
+
+export const LEAVE_REQUEST_TYPES = [
+  'RDO',
+  'SDO',
+  'ANNUAL',
+  'SICK',
+  'LSL',
+  'LWOP',
+  'MATERNITY',
+  'COMPASSIONATE',
+] as const satisfies readonly LeaveRequestType[];
+
+export interface CalendarImportItem {
+  summary: string;
+  start_date: string;
+  end_date: string;
+  request_type: LeaveRequestType;
+  /** Set when the event will not be (or was not) imported */
+  skipped?: string;
+  requestId?: string;
+}
+
+export interface CalendarImportResult {
+  items: CalendarImportItem[];
+  /** Events that could not be read from the file */
+  issues: string[];
+  created: number;
+}
+
+const UID_DOMAIN = 'air-niugini-pms';
+const MAX_IMPORT_EVENTS = 50;
+const MAX_IMPORT_DAYS = 90;
+
+/** Feed window: recent history plus a year ahead */
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+const FEED_ROSTER_PERIODS = 16;
+
+const ACTIVE_FLIGHT_REQUEST_STATUSES = ['PENDING', 'UNDER_REVIEW', 'APPROVED'];
+
+const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  critical_days: 7,
+  urgent_days: 14,
+  warning_30_days: 30,
+  warning_60_days: 60,
+  early_warning_90_days: 90,
+};
+
+type PilotName = { first_name: string; last_name: string } | null;
+
+const pilotName = (pilot: PilotName) => (pilot ? `${pilot.first_name} ${pilot.last_name}` : '');
+
+const titleCase = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ');
+
+// ============================================================================
+// FEED TOKENS
+// ============================================================================
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * Absolute subscription URL for a feed token, on the origin of the given request URL
+ */
+export function feedUrl(token: string, requestUrl: string): string {
+  return new URL(`/api/calendar/feed/${token}.ics`, requestUrl).toString();
+}
+
+/**
+ * Resolves the pilot record behind a pilot portal account
+ */
+async function getPilotIdForUser(pilotUserId: string): Promise<string> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: pilotUser, error: pilotUserError } = await supabase
+    .from('pilot_users')
+    .select('employee_id, registration_approved')
+    .eq('id', pilotUserId)
+    .single();
+
+  if (pilotUserError || !pilotUser) {
+    throw new Error('Pilot user not found');
+  }
+  if (!pilotUser.registration_approved) {
+    throw new Error('Your registration is not approved yet');
+  }
+
+  const { data: pilot, error: pilotError } = await supabase
+    .from('pilots')
+    .select('id')
+    .eq('employee_id', pilotUser.employee_id)
+    .single();
+
+  if (pilotError || !pilot) {
+    throw new Error('Pilot record not found');
+  }
+
+  return pilot.id;
+}
+
+export async function listUserFeeds(userId: string): Promise<CalendarFeed[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('calendar_feeds')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching calendar feeds:', error);
+    throw new Error('Failed to fetch calendar feeds');
+  }
+
+  return data || [];
+}
+
+/**
+ * Creates a staff feed for the fleet (pilotId null) or one pilot, replacing any
+ * existing feed of the same scope so its old URL stops working
+ */
+export async function createUserFeed(
+  userId: string,
+  pilotId: string | null
+): Promise<CalendarFeed> {
+  const supabase = getSupabaseAdmin();
+
+  let existing = supabase.from('calendar_feeds').delete().eq('user_id', userId);
+  existing = pilotId ? existing.eq('pilot_id', pilotId) : existing.is('pilot_id', null);
+  const { error: deleteError } = await existing;
+
+  if (deleteError) {
+    logger.error('Error replacing calendar feed:', deleteError);
+    throw new Error('Failed to create calendar feed');
+  }
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ token: generateFeedToken(), user_id: userId, pilot_id: pilotId })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating calendar feed:', error);
+    throw new Error('Failed to create calendar feed');
+  }
+
+  return data;
+}
+
+export async function deleteUserFeed(userId: string, feedId: string): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('calendar_feeds')
+    .delete()
+    .eq('id', feedId)
+    .eq('user_id', userId);
+
+  if (error) {
+    logger.error('Error deleting calendar feed:', error);
+    throw new Error('Failed to delete calendar feed');
+  }
+}
+
+export async function getPilotFeed(pilotUserId: string): Promise<CalendarFeed | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('calendar_feeds')
+    .select('*')
+    .eq('pilot_user_id', pilotUserId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching pilot calendar feed:', error);
+    throw new Error('Failed to fetch calendar feed');
+  }
+
+  return data;
+}
+
+/**
+ * Creates the pilot's own feed, or gives the existing one a new token
+ */
+export async function rotatePilotFeed(pilotUserId: string): Promise<CalendarFeed> {
+  const pilotId = await getPilotIdForUser(pilotUserId);
+  const supabase = getSupabaseAdmin();
+
+  await deletePilotFeed(pilotUserId);
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .insert({ token: generateFeedToken(), pilot_user_id: pilotUserId, pilot_id: pilotId })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating pilot calendar feed:', error);
+    throw new Error('Failed to create calendar feed');
+  }
+
+  return data;
+}
+
+export async function deletePilotFeed(pilotUserId: string): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('calendar_feeds')
+    .delete()
+    .eq('pilot_user_id', pilotUserId);
+
+  if (error) {
+    logger.error('Error deleting pilot calendar feed:', error);
+    throw new Error('Failed to delete calendar feed');
+  }
+}
+
+/**
+ * Whether the feed's owner may still read it: a staff user who still exists and
+ * holds the leave and certification read permissions, or a pilot portal user
+ * who is still approved
+ */
+async function isFeedOwnerAllowed(feed: CalendarFeed): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+
+  if (feed.user_id) {
+    const { data, error } = await supabase
+      .from('an_users')
+      .select(
+        `role,
+        custom_role:role_definitions!an_users_custom_role_id_fkey (name, description, permissions),
+        permission_overrides:user_permission_overrides!user_permission_overrides_user_id_fkey (permission, effect, expires_at)`
+      )
+      .eq('id', feed.user_id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching calendar feed owner:', error);
+      throw new Error('Failed to resolve calendar feed');
+    }
+    if (!data) return false;
+
+    const access = resolveUserAccess(data as unknown as UserAccessSource);
+    return STAFF_FEED_PERMISSIONS.every((permission) => access.hasPermission(permission));
+  }
+
+  const { data, error } = await supabase
+    .from('pilot_users')
+    .select('registration_approved')
+    .eq('id', feed.pilot_user_id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching calendar feed owner:', error);
+    throw new Error('Failed to resolve calendar feed');
+  }
+
+  return data?.registration_approved === true;
+}
+
+/**
+ * Looks up a feed by its token and records the access. Returns null when there
+ * is no such feed, or its owner has been removed or lost access to its content
+ */
+export async function resolveFeedToken(token: string): Promise<CalendarFeed | null> {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error resolving calendar feed token:', error);
+    throw new Error('Failed to resolve calendar feed');
+  }
+
+  if (!data || !(await isFeedOwnerAllowed(data))) return null;
+
+  await supabase
+    .from('calendar_feeds')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return data;
+}
+
+// ============================================================================
+// FEED CONTENT
+// ============================================================================
+
+/**
+ * Reminder alarms before an expiry at the warning, urgent and critical thresholds
+ */
+function expiryAlarms(checkCode: string, thresholds: AlertThresholds): IcsAlarm[] {
+  const days = [thresholds.warning_30_days, thresholds.urgent_days, thresholds.critical_days];
+
+  return [...new Set(days)]
+    .filter((daysBefore) => daysBefore > 0)
+    .sort((a, b) => b - a)
+    .map((daysBefore) => ({
+      daysBefore,
+      description: `${checkCode} expires in ${daysBefore} days`,
+    }));
+}
+
+async function getAlertThresholds(): Promise<AlertThresholds> {
+  try {
+    return (await settingsService.getSettings()).alert_thresholds;
+  } catch (error) {
+    logger.warn('Using default alert thresholds for calendar feed', { error });
+    return DEFAULT_ALERT_THRESHOLDS;
+  }
+}
+
+/**
+ * Data scope a feed is served under: a staff feed shows only what its owner may
+ * see; a pilot's own feed covers just that pilot
+ */
+export async function getFeedDataScope(feed: CalendarFeed): Promise<DataScope> {
+  return feed.user_id ? getUserDataScope(feed.user_id) : UNRESTRICTED_SCOPE;
+}
+
+/**
+ * Builds the ICS document for a feed, limited to the pilots in scope (a pilot
+ * feed for a pilot out of scope has no pilot events)
+ */
+export async function buildFeedCalendar(
+  feed: CalendarFeed,
+  scope: DataScope,
+  now: Date = new Date()
+): Promise<string> {
+  const supabase = getSupabaseAdmin();
+  const fleet = !feed.pilot_id;
+  let pilotIds = await getScopedPilotIds(scope);
+  if (feed.pilot_id) {
+    pilotIds = !pilotIds || pilotIds.includes(feed.pilot_id) ? [feed.pilot_id] : [];
+  }
+  const from = format(subDays(now, FEED_PAST_DAYS), 'yyyy-MM-dd');
+  const to = format(addDays(now, FEED_FUTURE_DAYS), 'yyyy-MM-dd');
+
+  const leaveQuery = supabase
+    .from('leave_requests')
+    .select('id, request_type, start_date, end_date, roster_period, pilots (first_name, last_name)')
+    .eq('status', 'APPROVED')
+    .gte('end_date', from)
+    .lte('start_date', to);
+  const checksQuery = supabase
+    .from('pilot_checks')
+    .select(
+      'id, expiry_date, check_types (check_code, check_description), pilots (first_name, last_name)'
+    )
+    .gte('expiry_date', from)
+    .lte('expiry_date', to);
+  const flightQuery = supabase
+    .from('flight_requests')
+    .select(
+      'id, request_type, status, flight_number, route, departure_date, return_date, pilots (first_name, last_name)'
+    )
+    .in('status', ACTIVE_FLIGHT_REQUEST_STATUSES)
+    .gte('departure_date', from)
+    .lte('departure_date', to);
+
+  const [leaveResult, checksResult, flightResult, thresholds] = await Promise.all([
+    restrictToPilots(leaveQuery, pilotIds),
+    restrictToPilots(checksQuery, pilotIds),
+    restrictToPilots(flightQuery, pilotIds),
+    getAlertThresholds(),
+  ]);
+
+  for (const result of [leaveResult, checksResult, flightResult]) {
+    if (result.error) {
+      logger.error('Error building calendar feed:', result.error);
+      throw new Error('Failed to build calendar feed');
+    }
+  }
+
+  const events: IcsEvent[] = [];
+  let calendarName = 'Air Niugini B767 Fleet';
+
+  for (const leave of leaveResult.data || []) {
+    const name = pilotName(leave.pilots as unknown as PilotName);
+    if (!fleet && name) calendarName = `Air Niugini B767 - ${name}`;
+
+    events.push({
+      uid: `leave-${leave.id}@${UID_DOMAIN}`,
+      summary: fleet ? `${name}: ${leave.request_type} leave` : `${leave.request_type} leave`,
+      description: `Approved ${leave.request_type} leave (${leave.roster_period})`,
+      start: leave.start_date,
+      end: leave.end_date,
+      status: 'CONFIRMED',
+      categories: ['Leave'],
+    });
+  }
+
+  for (const check of checksResult.data || []) {
+    const checkType = check.check_types as unknown as {
+      check_code: string;
+      check_description: string;
+    } | null;
+    if (!checkType) continue;
+
+    const name = pilotName(check.pilots as unknown as PilotName);
+    if (!fleet && name) calendarName = `Air Niugini B767 - ${name}`;
+
+    const expired = check.expiry_date < format(now, 'yyyy-MM-dd');
+    events.push({
+      uid: `check-${check.id}@${UID_DOMAIN}`,
+      summary: `${fleet ? `${name}: ` : ''}${checkType.check_code} ${expired ? 'expired' : 'expires'}`,
+      description: `${checkType.check_description} expiry`,
+      start: check.expiry_date,
+      categories: ['Certification'],
+      alarms: expired ? [] : expiryAlarms(checkType.check_code, thresholds),
+    });
+  }
+
+  for (const flight of flightResult.data || []) {
+    const name = pilotName(flight.pilots as unknown as PilotName);
+    const detail = [flight.flight_number, flight.route].filter(Boolean).join(' ');
+
+    events.push({
+      uid: `flight-${flight.id}@${UID_DOMAIN}`,
+      summary: `${fleet ? `${name}: ` : ''}${titleCase(flight.request_type)}${detail ? ` ${detail}` : ''}`,
+      description: `Flight request ${titleCase(flight.status).toLowerCase()}`,
+      start: flight.departure_date,
+      end:
+        flight.return_date && flight.return_date > flight.departure_date
+          ? flight.return_date
+          : undefined,
+      status: flight.status === 'APPROVED' ? 'CONFIRMED' : 'TENTATIVE',
+      categories: ['Flight Request'],
+    });
+  }
+
+  await loadRosterCalendar();
+  for (const period of listRosterPeriods(subDays(now, 28), FEED_ROSTER_PERIODS)) {
+    events.push({
+      uid: `roster-${period.code}@${UID_DOMAIN}`,
+      summary: `Roster period ${period.code} starts`,
+      description: `${period.code}: ${format(period.startDate, 'dd MMM')} - ${format(period.endDate, 'dd MMM yyyy')}. Requests lock ${format(period.lockDate, 'dd MMM yyyy')}; roster published ${format(period.publicationDate, 'dd MMM yyyy')}.`,
+      start: format(period.startDate, 'yyyy-MM-dd'),
+      categories: ['Roster'],
+    });
+  }
+
+  return buildCalendar(calendarName, events, { now });
+}
+
+// ============================================================================
+// LEAVE IMPORT
+// ============================================================================
+
+/**
+ * Leave type named in the event's categories or summary, else the fallback
+ */
+function leaveTypeForEvent(
+  summary: string,
+  categories: string[],
+  fallback: LeaveRequestType
+): LeaveRequestType {
+  const words = [...categories, summary]
+    .join(' ')
+    .toUpperCase()
+    .split(/[^A-Z]+/);
+  return LEAVE_REQUEST_TYPES.find((type) => words.includes(type)) || fallback;
+}
+
+/**
+ * Turns the events of a pilot's calendar file into pending leave requests. Past
+ * events, events overlapping the pilot's pending or approved requests and overly
+ * long events are skipped. A dry run only returns the plan.
+ */
+export async function importLeaveFromCalendar(
+  pilotUserId: string,
+  content: string,
+  options: { defaultType: LeaveRequestType; dryRun: boolean },
+  now: Date = new Date()
+): Promise<CalendarImportResult> {
+  const { events, issues } = parseCalendar(content);
+  if (events.length === 0) {
+    throw new Error(issues[0] || 'The calendar file contains no events');
+  }
+  if (events.length > MAX_IMPORT_EVENTS) {
+    throw new Error(`Calendar files can contain at most ${MAX_IMPORT_EVENTS} events`);
+  }
+
+  const { data: existing, error } = await getSupabaseAdmin()
+    .from('leave_requests')
+    .select('start_date, end_date')
+    .eq('pilot_user_id', pilotUserId)
+    .in('status', ['PENDING', 'APPROVED']);
+
+  if (error) {
+    logger.error('Error fetching leave requests for import:', error);
+    throw new Error('Failed to check existing leave requests');
+  }
+
+  const booked: { start_date: string; end_date: string }[] = [...(existing || [])];
+  const today = format(now, 'yyyy-MM-dd');
+  const result: CalendarImportResult = { items: [], issues, created: 0 };
+
+  for (const event of [...events].sort((a, b) => a.start.localeCompare(b.start))) {
+    const item: CalendarImportItem = {
+      summary: event.summary,
+      start_date: event.start,
+      end_date: event.end,
+      request_type: leaveTypeForEvent(event.summary, event.categories, options.defaultType),
+    };
+    result.items.push(item);
+
+    if (event.start < today) {
+      item.skipped = 'Starts in the past';
+    } else if (differenceInDays(parseISO(event.end), parseISO(event.start)) + 1 > MAX_IMPORT_DAYS) {
+      item.skipped = `Longer than ${MAX_IMPORT_DAYS} days`;
+    } else if (booked.some((b) => b.start_date <= event.end && b.end_date >= event.start)) {
+      item.skipped = 'Overlaps an existing leave request';
+    }
+    if (item.skipped) continue;
+
+    booked.push({ start_date: event.start, end_date: event.end });
+    if (options.dryRun) continue;
+
+    const submitted = await submitPilotLeaveRequest(pilotUserId, {
+      request_type: item.request_type,
+      start_date: item.start_date,
+      end_date: item.end_date,
+      reason: `Imported from calendar: ${event.summary}`.slice(0, 500),
+    });
+
+    if (submitted.success) {
+      item.requestId = submitted.requestId;
+      result.created++;
+    } else {
+      item.skipped = submitted.error || 'Failed to create leave request';
+    }
+  }
+
+  logger.info(options.dryRun ? 'Calendar import previewed' : 'Calendar imported', {
+    pilotUserId,
+    events: events.length,
+    created: result.created,
+  });
+
+  return result;
+}
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Certification Validity Rules Engine
+ * Per-check-type validity periods, renewal windows, grace periods and warning thresholds.
+ * Computes the next expiry date when a check is completed, preserving the anniversary
+ * date when the check is renewed inside its renewal window.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  addDays,
+  addMonths,
+  differenceInDays,
+  endOfMonth,
+  format,
+  isAfter,
+  isBefore,
+  parseISO,
+  startOfDay,
+  subMonths,
+} from 'date-fns';
+
+export type ExpiryRounding = 'none' | 'end_of_month';
+
+/**
+ * Validity rule columns stored on check_types
+ */
+export interface CheckTypeRules {
+  /** Months a completed check remains valid; null for checks that do not renew */
+  validity_months: number | null;
+  /** Months before expiry a check can be renewed without losing the anniversary date */
+  renewal_window_months: number;
+  /** Days after expiry a renewal still preserves the anniversary date */
+  grace_period_days: number;
+  /** Days before expiry a check is reported as "Expiring Soon" */
+  warning_days: number;
+  expiry_rounding: ExpiryRounding;
+  preserve_anniversary: boolean;
+}
+
+export const DEFAULT_CHECK_TYPE_RULES: CheckTypeRules = {
+  validity_months: null,
+  renewal_window_months: 3,
+  grace_period_days: 0,
+  warning_days: 30,
+  expiry_rounding: 'none',
+  preserve_anniversary: true,
+};
+
+export type ExpiryBasis = 'anniversary' | 'completion';
+
+export interface NextExpiryProposal {
+  /** Proposed expiry date (yyyy-MM-dd) */
+  expiryDate: string;
+  basis: ExpiryBasis;
+  /** Earliest date the check could be renewed without losing the anniversary */
+  renewalWindowOpens: string | null;
+  withinRenewalWindow: boolean;
+  inGracePeriod: boolean;
+}
+
+const toDate = (value: string | Date) =>
+  startOfDay(typeof value === 'string' ? parseISO(value) : value);
+
+/**
+ * Merge the rule columns of a check_types row with the defaults
+ */
+export function getCheckTypeRules(checkType?: Partial<CheckTypeRules> | null): CheckTypeRules {
+  if (!checkType) return DEFAULT_CHECK_TYPE_RULES;
+
+  return {
+    validity_months: checkType.validity_months ?? DEFAULT_CHECK_TYPE_RULES.validity_months,
+    renewal_window_months:
+      checkType.renewal_window_months ?? DEFAULT_CHECK_TYPE_RULES.renewal_window_months,
+    grace_period_days: checkType.grace_period_days ?? DEFAULT_CHECK_TYPE_RULES.grace_period_days,
+    warning_days: checkType.warning_days ?? DEFAULT_CHECK_TYPE_RULES.warning_days,
+    expiry_rounding: checkType.expiry_rounding ?? DEFAULT_CHECK_TYPE_RULES.expiry_rounding,
+    preserve_anniversary:
+      checkType.preserve_anniversary ?? DEFAULT_CHECK_TYPE_RULES.preserve_anniversary,
+  };
+}
+
+/**
+ * Date from which a renewal keeps the current anniversary date
+ */
+export function getRenewalWindowStart(
+  currentExpiryDate: string | Date,
+  rules: CheckTypeRules
+): Date {
+  return subMonths(toDate(currentExpiryDate), rules.renewal_window_months);
+}
+
+/**
+ * Compute the expiry date of a check completed on `completedDate`
+ *
+ * - Completed inside the renewal window (or grace period) of the current expiry:
+ *   validity runs from the current expiry, so the anniversary date is kept.
+ * - Completed early, late or with no current expiry: validity runs from completion.
+ * - End-of-month rounding is applied last.
+ *
+ * Returns null when the check type has no validity period (non-renewal checks).
+ */
+export function calculateNextExpiryDate(
+  completedDate: string | Date,
+  currentExpiryDate: string | Date | null | undefined,
+  rules: CheckTypeRules
+): NextExpiryProposal | null {
+  if (!rules.validity_months || rules.validity_months <= 0) {
+    return null;
+  }
+
+  const completed = toDate(completedDate);
+  const currentExpiry = currentExpiryDate ? toDate(currentExpiryDate) : null;
+
+  let base = completed;
+  let basis: ExpiryBasis = 'completion';
+  let withinRenewalWindow = false;
+  let inGracePeriod = false;
+  let renewalWindowOpens: Date | null = null;
+
+  if (currentExpiry) {
+    renewalWindowOpens = getRenewalWindowStart(currentExpiry, rules);
+    const graceEnds = addDays(currentExpiry, rules.grace_period_days);
+
+    withinRenewalWindow =
+      !isBefore(completed, renewalWindowOpens) && !isAfter(completed, currentExpiry);
+    inGracePeriod = isAfter(completed, currentExpiry) && !isAfter(completed, graceEnds);
+
+    if (rules.preserve_anniversary && (withinRenewalWindow || inGracePeriod)) {
+      base = currentExpiry;
+      basis = 'anniversary';
+    }
+  }
+
+  let expiry = addMonths(base, rules.validity_months);
+  if (rules.expiry_rounding === 'end_of_month') {
+    expiry = endOfMonth(expiry);
+  }
+
+  return {
+    expiryDate: format(expiry, 'yyyy-MM-dd'),
+    basis,
+    renewalWindowOpens: renewalWindowOpens ? format(renewalWindowOpens, 'yyyy-MM-dd') : null,
+    withinRenewalWindow,
+    inGracePeriod,
+  };
+}
+
+/**
+ * Whether an expired check is still inside its grace period
+ */
+export function isWithinGracePeriod(
+  expiryDate: string | Date,
+  rules: CheckTypeRules,
+  today: Date = new Date()
+): boolean {
+  const daysOverdue = differenceInDays(startOfDay(today), toDate(expiryDate));
+  return daysOverdue > 0 && daysOverdue <= rules.grace_period_days;
+}
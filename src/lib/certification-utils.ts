@@ -1,4 +1,5 @@
 import { differenceInDays, isBefore, parseISO } from 'date-fns';
+import { getCheckTypeRules, type CheckTypeRules } from './certification-rules';
 
 export interface CertificationStatus {
   color: 'red' | 'yellow' | 'green' | 'gray';
@@ -8,10 +9,15 @@ export interface CertificationStatus {
 }
 
 /**
- * Get certification status based on expiry date
- * Red: Expired, Yellow: Expiring within 30 days, Green: Current
+ * Get certification status based on expiry date and the check type's rules
+ * Red: Expired (or in the grace period), Yellow: Expiring within the check type's
+ * warning threshold, Green: Current. Use getCheckTypeRules to read the rules off a
+ * check_types row; it falls back to the defaults for unset columns.
  */
-export function getCertificationStatus(expiryDate: string | Date | null): CertificationStatus {
+export function getCertificationStatus(
+  expiryDate: string | Date | null,
+  rules: Pick<CheckTypeRules, 'warning_days' | 'grace_period_days'>
+): CertificationStatus {
   if (!expiryDate) {
     return {
       color: 'gray',
@@ -25,6 +31,15 @@ export function getCertificationStatus(expiryDate: string | Date | null): Certif
   const today = new Date();
   const daysUntilExpiry = differenceInDays(expiry, today);
 
+  if (daysUntilExpiry < 0 && -daysUntilExpiry <= rules.grace_period_days) {
+    return {
+      color: 'red',
+      label: 'Grace Period',
+      className: 'bg-red-50 text-red-700 border-red-200',
+      daysUntilExpiry,
+    };
+  }
+
   if (daysUntilExpiry < 0) {
     return {
       color: 'red',
@@ -34,7 +49,7 @@ export function getCertificationStatus(expiryDate: string | Date | null): Certif
     };
   }
 
-  if (daysUntilExpiry <= 30) {
+  if (daysUntilExpiry <= rules.warning_days) {
     return {
       color: 'yellow',
       label: 'Expiring Soon',
@@ -69,14 +84,16 @@ export function getStatusColor(status: CertificationStatus['color']): string {
 }
 
 /**
- * Filter certifications by status
+ * Filter certifications by status, using the rules of each certification's check type
  */
-export function filterCertificationsByStatus(
-  certifications: Array<{ expiry_date?: string }>,
-  status: CertificationStatus['color']
-): Array<{ expiry_date?: string }> {
+export function filterCertificationsByStatus<
+  T extends { expiry_date?: string; check_types?: Partial<CheckTypeRules> | null },
+>(certifications: T[], status: CertificationStatus['color']): T[] {
   return certifications.filter((cert) => {
-    const certStatus = getCertificationStatus(cert.expiry_date || null);
+    const certStatus = getCertificationStatus(
+      cert.expiry_date || null,
+      getCheckTypeRules(cert.check_types)
+    );
     return certStatus.color === status;
   });
 }
@@ -116,15 +133,18 @@ export function getExpiredCertifications(
 }
 
 /**
- * Calculate compliance percentage for a pilot
+ * Calculate compliance percentage for a pilot, using the rules of each certification's check type
  */
 export function calculateCompliancePercentage(
-  certifications: Array<{ expiry_date?: string }>
+  certifications: Array<{ expiry_date?: string; check_types?: Partial<CheckTypeRules> | null }>
 ): number {
   if (certifications.length === 0) return 0;
 
   const currentCerts = certifications.filter((cert) => {
-    const status = getCertificationStatus(cert.expiry_date || null);
+    const status = getCertificationStatus(
+      cert.expiry_date || null,
+      getCheckTypeRules(cert.check_types)
+    );
     return status.color === 'green';
   });
 
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Check Event Service
+ * Records and lists certification completion events (check_events). Every completion,
+ * failed attempt or manual expiry edit is appended to the history; pilot_checks holds
+ * the expiry of the latest passed event and is kept current by a database trigger.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
+import {
+  calculateNextExpiryDate,
+  getCheckTypeRules,
+  type NextExpiryProposal,
+} from '@/lib/certification-rules';
+
+export type CheckEventResult = 'pass' | 'fail' | 'partial';
+export type CheckEventSource = 'recorded' | 'manual_update' | 'import';
+
+export interface CheckEvent {
+  id: string;
+  pilot_id: string;
+  check_type_id: string;
+  completed_date: string | null;
+  expiry_date: string | null;
+  result: CheckEventResult;
+  examiner: string | null;
+  location: string | null;
+  simulator: string | null;
+  document_id: string | null;
+  notes: string | null;
+  source: CheckEventSource;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+export interface CheckEventWithDetails extends CheckEvent {
+  pilot?: {
+    first_name: string;
+    last_name: string;
+    employee_id: string;
+  };
+  check_type?: {
+    check_code: string;
+    check_description: string;
+    category: string | null;
+  };
+  recorded_by_user?: {
+    name: string;
+    email: string;
+  } | null;
+}
+
+export interface RecordCheckEventInput {
+  pilot_id: string;
+  check_type_id: string;
+  completed_date: string;
+  result: CheckEventResult;
+  /** Explicit expiry; computed from the check type rules when omitted on a pass */
+  expiry_date?: string | null;
+  examiner?: string | null;
+  location?: string | null;
+  simulator?: string | null;
+  document_id?: string | null;
+  notes?: string | null;
+  recorded_by?: string | null;
+}
+
+export interface CheckEventFilters {
+  pilotId?: string;
+  checkTypeId?: string;
+  result?: CheckEventResult;
+  from?: string;
+  to?: string;
+  limit?: number;
+  scope?: DataScope;
+}
+
+const CHECK_EVENT_SELECT = `
+  *,
+  pilot:pilots (first_name, last_name, employee_id),
+  check_type:check_types (check_code, check_description, category),
+  recorded_by_user:an_users!check_events_recorded_by_fkey (name, email)
+`;
+
+/**
+ * List check events, most recent completion first
+ */
+export async function getCheckEvents(
+  filters: CheckEventFilters = {}
+): Promise<CheckEventWithDetails[]> {
+  const supabase = getSupabaseAdmin();
+  const pilotIds = filters.scope ? await getScopedPilotIds(filters.scope) : null;
+
+  let query = supabase
+    .from('check_events')
+    .select(CHECK_EVENT_SELECT)
+    .order('completed_date', { ascending: false, nullsFirst: false })
+    .order('created_at', { ascending: false });
+
+  query = restrictToPilots(query, pilotIds);
+
+  if (filters.pilotId) query = query.eq('pilot_id', filters.pilotId);
+  if (filters.checkTypeId) query = query.eq('check_type_id', filters.checkTypeId);
+  if (filters.result) query = query.eq('result', filters.result);
+  if (filters.from) query = query.gte('completed_date', filters.from);
+  if (filters.to) query = query.lte('completed_date', filters.to);
+  if (filters.limit) query = query.limit(filters.limit);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Error fetching check events:', error);
+    throw new Error('Failed to fetch check events');
+  }
+
+  return (data || []) as CheckEventWithDetails[];
+}
+
+/**
+ * Record a check completion (or failed / partial attempt)
+ * A passed check without an explicit expiry gets the expiry proposed by the check type rules.
+ */
+export async function recordCheckEvent(
+  input: RecordCheckEventInput
+): Promise<{ event: CheckEvent; proposal: NextExpiryProposal | null }> {
+  const supabase = getSupabaseAdmin();
+  let expiryDate = input.result === 'pass' ? input.expiry_date || null : null;
+  let proposal: NextExpiryProposal | null = null;
+
+  if (input.result === 'pass' && !expiryDate) {
+    const [checkTypeResult, currentResult] = await Promise.all([
+      supabase.from('check_types').select('*').eq('id', input.check_type_id).single(),
+      supabase
+        .from('pilot_checks')
+        .select('expiry_date')
+        .eq('pilot_id', input.pilot_id)
+        .eq('check_type_id', input.check_type_id)
+        .maybeSingle(),
+    ]);
+
+    if (checkTypeResult.error || !checkTypeResult.data) {
+      throw new Error('Invalid check type selected');
+    }
+    if (currentResult.error) {
+      logger.error('Error fetching current certification:', currentResult.error);
+      throw new Error('Failed to fetch current certification');
+    }
+
+    proposal = calculateNextExpiryDate(
+      input.completed_date,
+      currentResult.data?.expiry_date,
+      getCheckTypeRules(checkTypeResult.data)
+    );
+    if (!proposal) {
+      throw new Error(
+        `${checkTypeResult.data.check_code} has no validity period - enter the expiry date manually`
+      );
+    }
+    expiryDate = proposal.expiryDate;
+  }
+
+  const { data, error } = await supabase
+    .from('check_events')
+    .insert({
+      pilot_id: input.pilot_id,
+      check_type_id: input.check_type_id,
+      completed_date: input.completed_date,
+      expiry_date: expiryDate,
+      result: input.result,
+      examiner: input.examiner || null,
+      location: input.location || null,
+      simulator: input.simulator || null,
+      document_id: input.document_id || null,
+      notes: input.notes || null,
+      source: 'recorded',
+      recorded_by: input.recorded_by || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error recording check event:', error);
+    throw new Error('Failed to record check event');
+  }
+
+  logger.info('Check event recorded', {
+    pilotId: input.pilot_id,
+    checkTypeId: input.check_type_id,
+    result: input.result,
+    expiryDate,
+  });
+
+  return { event: data as CheckEvent, proposal };
+}
+
+/**
+ * Append several events at once (bulk updates); expiry dates must already be resolved
+ */
+export async function recordCheckEvents(
+  events: (Omit<RecordCheckEventInput, 'completed_date' | 'expiry_date'> & {
+    completed_date: string | null;
+    expiry_date: string | null;
+    source: Exclude<CheckEventSource, 'import'>;
+  })[]
+): Promise<CheckEvent[]> {
+  if (events.length === 0) return [];
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('check_events')
+    .insert(
+      events.map((event) => ({
+        ...event,
+        expiry_date: event.result === 'pass' ? event.expiry_date : null,
+      }))
+    )
+    .select();
+
+  if (error) {
+    logger.error('Error recording check events:', error);
+    throw new Error('Failed to record check events');
+  }
+
+  return (data || []) as CheckEvent[];
+}
+
+/**
+ * Record direct expiry date edits as manual_update events
+ * Only certifications whose expiry actually changes are recorded.
+ */
+export async function recordManualExpiryUpdates(
+  pilotId: string,
+  certifications: { checkTypeId: string; expiryDate: string | null }[],
+  recordedBy?: string | null
+): Promise<CheckEvent[]> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: current, error: currentError } = await supabase
+    .from('pilot_checks')
+    .select('check_type_id, expiry_date')
+    .eq('pilot_id', pilotId);
+
+  if (currentError) {
+    logger.error('Error fetching current certifications:', currentError);
+    throw new Error('Failed to fetch current certifications');
+  }
+
+  const currentExpiry = new Map(
+    (current || []).map((check) => [check.check_type_id, check.expiry_date])
+  );
+
+  const changed = certifications.filter((cert) => {
+    const expiryDate = cert.expiryDate || null;
+    return currentExpiry.has(cert.checkTypeId)
+      ? currentExpiry.get(cert.checkTypeId) !== expiryDate
+      : expiryDate !== null;
+  });
+
+  if (changed.length === 0) return [];
+
+  return recordCheckEvents(
+    changed.map((cert) => ({
+      pilot_id: pilotId,
+      check_type_id: cert.checkTypeId,
+      completed_date: null,
+      expiry_date: cert.expiryDate || null,
+      result: 'pass',
+      source: 'manual_update',
+      recorded_by: recordedBy || null,
+      notes: 'Expiry date updated manually',
+    }))
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Data Scope Service
+ * Applies a staff user's data scope (see data-scope) to service-role queries,
+ * which bypass RLS: pilots queries are filtered on the pilot group columns,
+ * queries on pilot-owned records on the ids of the pilots in scope.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import {
+  pilotInScope,
+  resolveDataScope,
+  scopeFilters,
+  type DataScope,
+  type DataScopeSource,
+  type DataScopeType,
+} from '@/lib/data-scope';
+
+/** The query builder methods the scope filters need; each returns the builder */
+interface ScopeFilterable {
+  in(column: string, values: readonly string[]): unknown;
+  or(filters: string): unknown;
+}
+
+/**
+ * Any query builder; kept loose so the Supabase builder types are not
+ * instantiated against ScopeFilterable at every call site
+ */
+type QueryBuilder = { in: unknown; or: unknown };
+
+/**
+ * Filter a query on the pilots table to the pilots in scope
+ */
+export function scopePilotsQuery<Q extends QueryBuilder>(query: Q, scope: DataScope): Q {
+  return scopeFilters(scope).reduce(
+    (scoped, { column, values }) => (scoped as unknown as ScopeFilterable).in(column, values) as Q,
+    query
+  );
+}
+
+/**
+ * Ids of the pilots in scope, or null when the scope is unrestricted
+ */
+export async function getScopedPilotIds(scope: DataScope): Promise<string[] | null> {
+  if (scope.unrestricted) return null;
+
+  const { data, error } = await scopePilotsQuery(
+    getSupabaseAdmin().from('pilots').select('id'),
+    scope
+  );
+
+  if (error) {
+    logger.error('Error fetching pilots in scope:', error);
+    throw new Error('Failed to resolve data scope');
+  }
+
+  return (data || []).map((pilot: { id: string }) => pilot.id);
+}
+
+/**
+ * Filter a query on a pilot-owned table to the given pilot ids (from
+ * getScopedPilotIds); null leaves the query unfiltered
+ *
+ * @param options.column - Pilot reference column (default pilot_id)
+ * @param options.includeUnassigned - Also keep records without a pilot
+ */
+export function restrictToPilots<Q extends QueryBuilder>(
+  query: Q,
+  pilotIds: string[] | null,
+  options: { column?: string; includeUnassigned?: boolean } = {}
+): Q {
+  if (!pilotIds) return query;
+
+  const column = options.column ?? 'pilot_id';
+  const filterable = query as unknown as ScopeFilterable;
+  return (
+    options.includeUnassigned
+      ? filterable.or(`${column}.is.null,${column}.in.(${pilotIds.join(',')})`)
+      : filterable.in(column, pilotIds)
+  ) as Q;
+}
+
+/**
+ * Scope of a staff user looked up by id, for work done on their behalf outside
+ * a session (e.g. their calendar feed)
+ */
+export async function getUserDataScope(userId: string): Promise<DataScope> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('an_users')
+    .select(
+      'role, data_scopes:user_data_scopes!user_data_scopes_user_id_fkey (scope_type, scope_value)'
+    )
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error || !data) {
+    logger.error('Error fetching user data scope:', error);
+    throw new Error('Failed to resolve data scope');
+  }
+
+  return resolveDataScope(data as DataScopeSource);
+}
+
+/**
+ * Whether a pilot is within the scope; unknown pilots are not
+ */
+export async function isPilotInScope(pilotId: string, scope: DataScope): Promise<boolean> {
+  if (scope.unrestricted) return true;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilots')
+    .select('base, fleet, contract_type, role')
+    .eq('id', pilotId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error checking pilot scope:', error);
+    throw new Error('Failed to resolve data scope');
+  }
+
+  return !!data && pilotInScope(data, scope);
+}
+
+/**
+ * Whether the pilot a pilot-owned record belongs to is within the scope;
+ * unknown records are not
+ *
+ * @param options.column - Pilot reference column (default pilot_id)
+ * @param options.includeUnassigned - Records without a pilot are in scope
+ */
+export async function isRecordInScope(
+  table: string,
+  id: string,
+  scope: DataScope,
+  options: { column?: string; includeUnassigned?: boolean } = {}
+): Promise<boolean> {
+  if (scope.unrestricted) return true;
+
+  const column = options.column ?? 'pilot_id';
+  const { data, error } = await getSupabaseAdmin()
+    .from(table)
+    .select(column)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error checking record scope:', error);
+    throw new Error('Failed to resolve data scope');
+  }
+
+  if (!data) return false;
+  const pilotId = (data as unknown as Record<string, string | null>)[column];
+  if (!pilotId) return !!options.includeUnassigned;
+  return isPilotInScope(pilotId, scope);
+}
+
+/**
+ * Values each scope type can take, from the pilots and contract types on record
+ */
+export async function getDataScopeOptions(): Promise<Record<DataScopeType, string[]>> {
+  const supabase = getSupabaseAdmin();
+  const [pilotsResult, contractTypesResult] = await Promise.all([
+    supabase.from('pilots').select('base, fleet'),
+    supabase.from('contract_types').select('name').eq('is_active', true).order('name'),
+  ]);
+
+  const error = pilotsResult.error || contractTypesResult.error;
+  if (error) {
+    logger.error('Error fetching data scope options:', error);
+    throw new Error('Failed to fetch data scope options');
+  }
+
+  const distinct = (values: Array<string | null>) =>
+    Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+  const pilots = pilotsResult.data || [];
+
+  return {
+    base: distinct(pilots.map((pilot) => pilot.base)),
+    fleet: distinct(pilots.map((pilot) => pilot.fleet)),
+    contract_type: distinct((contractTypesResult.data || []).map((type) => type.name)),
+    rank: ['Captain', 'First Officer'],
+  };
+}
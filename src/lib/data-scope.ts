@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Data Scope Rules
+ * Limits a staff user to the pilots in their assigned groups (base, fleet,
+ * contract type, rank). Values of one type are alternatives; different types
+ * must all match. Users without scopes, and admins, see every pilot.
+ * Mirrored for client-side queries by user_can_access_pilot() in
+ * migrations/20261020_data_scopes.sql.
+ * Pure functions - data access lives in data-scope-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+export const DATA_SCOPE_TYPES = ['base', 'fleet', 'contract_type', 'rank'] as const;
+
+export type DataScopeType = (typeof DATA_SCOPE_TYPES)[number];
+
+export const DATA_SCOPE_LABELS: Record<DataScopeType, string> = {
+  base: 'Base',
+  fleet: 'Fleet',
+  contract_type: 'Contract type',
+  rank: 'Rank',
+};
+
+/** pilots column each scope type is matched against */
+export const DATA_SCOPE_COLUMNS = {
+  base: 'base',
+  fleet: 'fleet',
+  contract_type: 'contract_type',
+  rank: 'role',
+} as const satisfies Record<DataScopeType, string>;
+
+export type ScopedPilotColumn = (typeof DATA_SCOPE_COLUMNS)[DataScopeType];
+
+/** One user_data_scopes row */
+export interface DataScopeRule {
+  scope_type: DataScopeType;
+  scope_value: string;
+}
+
+export interface DataScope {
+  unrestricted: boolean;
+  /** Allowed values per scope type; only types the user is limited by are present */
+  groups: Partial<Record<DataScopeType, string[]>>;
+}
+
+/** What a user's scope is resolved from (an an_users row with joins) */
+export interface DataScopeSource {
+  role: string;
+  data_scopes?: DataScopeRule[] | null;
+}
+
+export const UNRESTRICTED_SCOPE: DataScope = { unrestricted: true, groups: {} };
+
+function isDataScopeType(value: string): value is DataScopeType {
+  return (DATA_SCOPE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Scope of a user from their user_data_scopes rows; admins and users without
+ * rows are unrestricted. Rows of unknown types are ignored.
+ */
+export function resolveDataScope(source: DataScopeSource): DataScope {
+  if (source.role === 'admin') return UNRESTRICTED_SCOPE;
+
+  const groups: DataScope['groups'] = {};
+  for (const rule of source.data_scopes || []) {
+    if (!isDataScopeType(rule.scope_type)) continue;
+    const values = (groups[rule.scope_type] ??= []);
+    if (!values.includes(rule.scope_value)) values.push(rule.scope_value);
+  }
+
+  return Object.keys(groups).length === 0 ? UNRESTRICTED_SCOPE : { unrestricted: false, groups };
+}
+
+/**
+ * pilots column filters equivalent to the scope, for `.in(column, values)`
+ */
+export function scopeFilters(
+  scope: DataScope
+): Array<{ column: ScopedPilotColumn; values: string[] }> {
+  if (scope.unrestricted) return [];
+  return DATA_SCOPE_TYPES.filter((type) => scope.groups[type]?.length).map((type) => ({
+    column: DATA_SCOPE_COLUMNS[type],
+    values: scope.groups[type] as string[],
+  }));
+}
+
+/**
+ * Whether a pilot falls within the scope; a pilot without a value for a
+ * scoped type (e.g. no base) does not match it
+ */
+export function pilotInScope(
+  pilot: Partial<Record<ScopedPilotColumn, string | null>>,
+  scope: DataScope
+): boolean {
+  return scopeFilters(scope).every(({ column, values }) => {
+    const value = pilot[column];
+    return value != null && values.includes(value);
+  });
+}
+
+/**
+ * Short description of a scope, e.g. "Base: POM, LAE · Rank: Captain"
+ */
+export function describeDataScope(scope: DataScope): string {
+  if (scope.unrestricted) return 'All pilots';
+  return DATA_SCOPE_TYPES.filter((type) => scope.groups[type]?.length)
+    .map((type) => `${DATA_SCOPE_LABELS[type]}: ${scope.groups[type]?.join(', ')}`)
+    .join(' · ');
+}
@@ -194,6 +194,7 @@ export type Database = {
       an_users: {
         Row: {
           created_at: string | null;
+          custom_role_id: string | null;
           email: string;
           id: string;
           name: string;
@@ -202,6 +203,7 @@ export type Database = {
         };
         Insert: {
           created_at?: string | null;
+          custom_role_id?: string | null;
           email: string;
           id?: string;
           name: string;
@@ -210,13 +212,266 @@ export type Database = {
         };
         Update: {
           created_at?: string | null;
+          custom_role_id?: string | null;
           email?: string;
           id?: string;
           name?: string;
           role?: string;
           updated_at?: string | null;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: 'an_users_custom_role_id_fkey';
+            columns: ['custom_role_id'];
+            isOneToOne: false;
+            referencedRelation: 'role_definitions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      backup_restores: {
+        Row: {
+          backup_id: string;
+          created_at: string;
+          dry_run: boolean;
+          id: string;
+          performed_by: string | null;
+          pilot_id: string | null;
+          success: boolean;
+          summary: Json;
+          tables: string[];
+        };
+        Insert: {
+          backup_id: string;
+          created_at?: string;
+          dry_run: boolean;
+          id?: string;
+          performed_by?: string | null;
+          pilot_id?: string | null;
+          success: boolean;
+          summary: Json;
+          tables: string[];
+        };
+        Update: {
+          backup_id?: string;
+          created_at?: string;
+          dry_run?: boolean;
+          id?: string;
+          performed_by?: string | null;
+          pilot_id?: string | null;
+          success?: boolean;
+          summary?: Json;
+          tables?: string[];
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'backup_restores_backup_id_fkey';
+            columns: ['backup_id'];
+            isOneToOne: false;
+            referencedRelation: 'backups';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'backup_restores_performed_by_fkey';
+            columns: ['performed_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'backup_restores_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      backups: {
+        Row: {
+          checksum: string | null;
+          completed_at: string | null;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          duration_ms: number | null;
+          error: string | null;
+          format_version: number;
+          id: string;
+          kind: string;
+          record_counts: Json;
+          size_bytes: number | null;
+          status: string;
+          storage_path: string | null;
+          tables: string[];
+          verification_issues: string[] | null;
+          verified_at: string | null;
+        };
+        Insert: {
+          checksum?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          duration_ms?: number | null;
+          error?: string | null;
+          format_version: number;
+          id?: string;
+          kind: string;
+          record_counts?: Json;
+          size_bytes?: number | null;
+          status?: string;
+          storage_path?: string | null;
+          tables: string[];
+          verification_issues?: string[] | null;
+          verified_at?: string | null;
+        };
+        Update: {
+          checksum?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          duration_ms?: number | null;
+          error?: string | null;
+          format_version?: number;
+          id?: string;
+          kind?: string;
+          record_counts?: Json;
+          size_bytes?: number | null;
+          status?: string;
+          storage_path?: string | null;
+          tables?: string[];
+          verification_issues?: string[] | null;
+          verified_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'backups_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      calendar_feeds: {
+        Row: {
+          created_at: string;
+          id: string;
+          last_accessed_at: string | null;
+          pilot_id: string | null;
+          pilot_user_id: string | null;
+          token: string;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          last_accessed_at?: string | null;
+          pilot_id?: string | null;
+          pilot_user_id?: string | null;
+          token: string;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          last_accessed_at?: string | null;
+          pilot_id?: string | null;
+          pilot_user_id?: string | null;
+          token?: string;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'calendar_feeds_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'calendar_feeds_pilot_user_id_fkey';
+            columns: ['pilot_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilot_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'calendar_feeds_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      check_events: {
+        Row: {
+          check_type_id: string;
+          completed_date: string | null;
+          created_at: string;
+          document_id: string | null;
+          examiner: string | null;
+          expiry_date: string | null;
+          id: string;
+          location: string | null;
+          notes: string | null;
+          pilot_id: string;
+          recorded_by: string | null;
+          result: string;
+          simulator: string | null;
+          source: string;
+        };
+        Insert: {
+          check_type_id: string;
+          completed_date?: string | null;
+          created_at?: string;
+          document_id?: string | null;
+          examiner?: string | null;
+          expiry_date?: string | null;
+          id?: string;
+          location?: string | null;
+          notes?: string | null;
+          pilot_id: string;
+          recorded_by?: string | null;
+          result?: string;
+          simulator?: string | null;
+          source?: string;
+        };
+        Update: {
+          check_type_id?: string;
+          completed_date?: string | null;
+          created_at?: string;
+          document_id?: string | null;
+          examiner?: string | null;
+          expiry_date?: string | null;
+          id?: string;
+          location?: string | null;
+          notes?: string | null;
+          pilot_id?: string;
+          recorded_by?: string | null;
+          result?: string;
+          simulator?: string | null;
+          source?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'check_events_check_type_id_fkey';
+            columns: ['check_type_id'];
+            isOneToOne: false;
+            referencedRelation: 'check_types';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'check_events_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       check_types: {
         Row: {
@@ -224,24 +479,42 @@ export type Database = {
           check_code: string;
           check_description: string;
           created_at: string;
+          expiry_rounding: string;
+          grace_period_days: number;
           id: string;
+          preserve_anniversary: boolean;
+          renewal_window_months: number;
           updated_at: string;
+          validity_months: number | null;
+          warning_days: number;
         };
         Insert: {
           category?: string | null;
           check_code: string;
           check_description: string;
           created_at?: string;
+          expiry_rounding?: string;
+          grace_period_days?: number;
           id?: string;
+          preserve_anniversary?: boolean;
+          renewal_window_months?: number;
           updated_at?: string;
+          validity_months?: number | null;
+          warning_days?: number;
         };
         Update: {
           category?: string | null;
           check_code?: string;
           check_description?: string;
           created_at?: string;
+          expiry_rounding?: string;
+          grace_period_days?: number;
           id?: string;
+          preserve_anniversary?: boolean;
+          renewal_window_months?: number;
           updated_at?: string;
+          validity_months?: number | null;
+          warning_days?: number;
         };
         Relationships: [];
       };
@@ -272,6 +545,235 @@ export type Database = {
         };
         Relationships: [];
       };
+      currency_rules: {
+        Row: {
+          applies_to_role: string | null;
+          code: string;
+          created_at: string;
+          description: string | null;
+          event: string;
+          id: string;
+          is_active: boolean;
+          name: string;
+          period_days: number;
+          required_count: number;
+          updated_at: string;
+        };
+        Insert: {
+          applies_to_role?: string | null;
+          code: string;
+          created_at?: string;
+          description?: string | null;
+          event: string;
+          id?: string;
+          is_active?: boolean;
+          name: string;
+          period_days: number;
+          required_count: number;
+          updated_at?: string;
+        };
+        Update: {
+          applies_to_role?: string | null;
+          code?: string;
+          created_at?: string;
+          description?: string | null;
+          event?: string;
+          id?: string;
+          is_active?: boolean;
+          name?: string;
+          period_days?: number;
+          required_count?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      duty_periods: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          duty_end: string;
+          duty_start: string;
+          duty_type: string;
+          id: string;
+          notes: string | null;
+          pilot_id: string;
+          source: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          duty_end: string;
+          duty_start: string;
+          duty_type?: string;
+          id?: string;
+          notes?: string | null;
+          pilot_id: string;
+          source?: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          duty_end?: string;
+          duty_start?: string;
+          duty_type?: string;
+          id?: string;
+          notes?: string | null;
+          pilot_id?: string;
+          source?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'duty_periods_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'duty_periods_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      flight_sectors: {
+        Row: {
+          arrival_airport: string | null;
+          block_off: string;
+          block_on: string;
+          created_at: string;
+          departure_airport: string | null;
+          duty_period_id: string;
+          flight_number: string | null;
+          id: string;
+          landings: number;
+          pilot_id: string;
+          takeoffs: number;
+        };
+        Insert: {
+          arrival_airport?: string | null;
+          block_off: string;
+          block_on: string;
+          created_at?: string;
+          departure_airport?: string | null;
+          duty_period_id: string;
+          flight_number?: string | null;
+          id?: string;
+          landings?: number;
+          pilot_id: string;
+          takeoffs?: number;
+        };
+        Update: {
+          arrival_airport?: string | null;
+          block_off?: string;
+          block_on?: string;
+          created_at?: string;
+          departure_airport?: string | null;
+          duty_period_id?: string;
+          flight_number?: string | null;
+          id?: string;
+          landings?: number;
+          pilot_id?: string;
+          takeoffs?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'flight_sectors_duty_period_id_fkey';
+            columns: ['duty_period_id'];
+            isOneToOne: false;
+            referencedRelation: 'duty_periods';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'flight_sectors_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      leave_bid_awards: {
+        Row: {
+          allocated_at: string;
+          allocated_by: string | null;
+          attempts: Json;
+          awarded_choice: number | null;
+          bid_id: string;
+          created_at: string;
+          end_date: string | null;
+          explanation: string;
+          id: string;
+          leave_request_id: string | null;
+          locked: boolean;
+          outcome: string;
+          pilot_id: string;
+          roster_period_code: string;
+          start_date: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          allocated_at?: string;
+          allocated_by?: string | null;
+          attempts?: Json;
+          awarded_choice?: number | null;
+          bid_id: string;
+          created_at?: string;
+          end_date?: string | null;
+          explanation: string;
+          id?: string;
+          leave_request_id?: string | null;
+          locked?: boolean;
+          outcome: string;
+          pilot_id: string;
+          roster_period_code: string;
+          start_date?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          allocated_at?: string;
+          allocated_by?: string | null;
+          attempts?: Json;
+          awarded_choice?: number | null;
+          bid_id?: string;
+          created_at?: string;
+          end_date?: string | null;
+          explanation?: string;
+          id?: string;
+          leave_request_id?: string | null;
+          locked?: boolean;
+          outcome?: string;
+          pilot_id?: string;
+          roster_period_code?: string;
+          start_date?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'leave_bid_awards_bid_id_fkey';
+            columns: ['bid_id'];
+            isOneToOne: true;
+            referencedRelation: 'leave_bids';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'leave_bid_awards_leave_request_id_fkey';
+            columns: ['leave_request_id'];
+            isOneToOne: false;
+            referencedRelation: 'leave_requests';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'leave_bid_awards_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       leave_requests: {
         Row: {
           created_at: string | null;
@@ -290,6 +792,7 @@ export type Database = {
           roster_period: string | null;
           start_date: string;
           status: string | null;
+          updated_at: string;
         };
         Insert: {
           created_at?: string | null;
@@ -308,6 +811,7 @@ export type Database = {
           roster_period?: string | null;
           start_date: string;
           status?: string | null;
+          updated_at?: string;
         };
         Update: {
           created_at?: string | null;
@@ -326,6 +830,7 @@ export type Database = {
           roster_period?: string | null;
           start_date?: string;
           status?: string | null;
+          updated_at?: string;
         };
         Relationships: [
           {
@@ -386,12 +891,77 @@ export type Database = {
           },
         ];
       };
-      pilot_checks: {
+      permission_audit_log: {
         Row: {
-          check_type_id: string;
+          action: string;
           created_at: string;
-          expiry_date: string | null;
+          details: Json;
+          from_role: string | null;
           id: string;
+          performed_by: string | null;
+          permission: string | null;
+          reason: string | null;
+          role_definition_id: string | null;
+          to_role: string | null;
+          user_id: string | null;
+        };
+        Insert: {
+          action: string;
+          created_at?: string;
+          details?: Json;
+          from_role?: string | null;
+          id?: string;
+          performed_by?: string | null;
+          permission?: string | null;
+          reason?: string | null;
+          role_definition_id?: string | null;
+          to_role?: string | null;
+          user_id?: string | null;
+        };
+        Update: {
+          action?: string;
+          created_at?: string;
+          details?: Json;
+          from_role?: string | null;
+          id?: string;
+          performed_by?: string | null;
+          permission?: string | null;
+          reason?: string | null;
+          role_definition_id?: string | null;
+          to_role?: string | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'permission_audit_log_performed_by_fkey';
+            columns: ['performed_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'permission_audit_log_role_definition_id_fkey';
+            columns: ['role_definition_id'];
+            isOneToOne: false;
+            referencedRelation: 'role_definitions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'permission_audit_log_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      pilot_checks: {
+        Row: {
+          check_type_id: string;
+          created_at: string;
+          expiry_date: string | null;
+          id: string;
+          last_check_event_id: string | null;
           pilot_id: string;
           updated_at: string;
         };
@@ -400,6 +970,7 @@ export type Database = {
           created_at?: string;
           expiry_date?: string | null;
           id?: string;
+          last_check_event_id?: string | null;
           pilot_id: string;
           updated_at?: string;
         };
@@ -408,6 +979,7 @@ export type Database = {
           created_at?: string;
           expiry_date?: string | null;
           id?: string;
+          last_check_event_id?: string | null;
           pilot_id?: string;
           updated_at?: string;
         };
@@ -477,8 +1049,66 @@ export type Database = {
           },
         ];
       };
+      pilot_qualifications: {
+        Row: {
+          code: string;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          expiry_date: string | null;
+          id: string;
+          notes: string | null;
+          pilot_id: string;
+          qualification_type: string;
+          qualified_date: string;
+          updated_at: string;
+        };
+        Insert: {
+          code: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          expiry_date?: string | null;
+          id?: string;
+          notes?: string | null;
+          pilot_id: string;
+          qualification_type: string;
+          qualified_date: string;
+          updated_at?: string;
+        };
+        Update: {
+          code?: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          expiry_date?: string | null;
+          id?: string;
+          notes?: string | null;
+          pilot_id?: string;
+          qualification_type?: string;
+          qualified_date?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'pilot_qualifications_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'pilot_qualifications_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       pilots: {
         Row: {
+          base: string | null;
           captain_qualifications: Json | null;
           commencement_date: string | null;
           contract_type: string | null;
@@ -486,6 +1116,7 @@ export type Database = {
           date_of_birth: string | null;
           employee_id: string;
           first_name: string;
+          fleet: string | null;
           id: string;
           is_active: boolean;
           last_name: string;
@@ -500,6 +1131,7 @@ export type Database = {
           updated_at: string;
         };
         Insert: {
+          base?: string | null;
           captain_qualifications?: Json | null;
           commencement_date?: string | null;
           contract_type?: string | null;
@@ -507,6 +1139,7 @@ export type Database = {
           date_of_birth?: string | null;
           employee_id: string;
           first_name: string;
+          fleet?: string | null;
           id?: string;
           is_active?: boolean;
           last_name: string;
@@ -521,6 +1154,7 @@ export type Database = {
           updated_at?: string;
         };
         Update: {
+          base?: string | null;
           captain_qualifications?: Json | null;
           commencement_date?: string | null;
           contract_type?: string | null;
@@ -528,6 +1162,7 @@ export type Database = {
           date_of_birth?: string | null;
           employee_id?: string;
           first_name?: string;
+          fleet?: string | null;
           id?: string;
           is_active?: boolean;
           last_name?: string;
@@ -551,6 +1186,50 @@ export type Database = {
           },
         ];
       };
+      role_definitions: {
+        Row: {
+          base_role: string;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          id: string;
+          key: string;
+          name: string;
+          permissions: string[];
+          updated_at: string;
+        };
+        Insert: {
+          base_role: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          key: string;
+          name: string;
+          permissions?: string[];
+          updated_at?: string;
+        };
+        Update: {
+          base_role?: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          id?: string;
+          key?: string;
+          name?: string;
+          permissions?: string[];
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'role_definitions_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       settings: {
         Row: {
           created_at: string | null;
@@ -578,6 +1257,380 @@ export type Database = {
         };
         Relationships: [];
       };
+      upgrade_candidates: {
+        Row: {
+          closed_at: string | null;
+          created_at: string;
+          flight_hours: number | null;
+          from_role: Database['public']['Enums']['pilot_role'];
+          id: string;
+          nominated_at: string;
+          nominated_by: string | null;
+          notes: string | null;
+          pilot_id: string;
+          stage: string;
+          status: string;
+          to_role: Database['public']['Enums']['pilot_role'];
+          updated_at: string;
+        };
+        Insert: {
+          closed_at?: string | null;
+          created_at?: string;
+          flight_hours?: number | null;
+          from_role: Database['public']['Enums']['pilot_role'];
+          id?: string;
+          nominated_at?: string;
+          nominated_by?: string | null;
+          notes?: string | null;
+          pilot_id: string;
+          stage?: string;
+          status?: string;
+          to_role: Database['public']['Enums']['pilot_role'];
+          updated_at?: string;
+        };
+        Update: {
+          closed_at?: string | null;
+          created_at?: string;
+          flight_hours?: number | null;
+          from_role?: Database['public']['Enums']['pilot_role'];
+          id?: string;
+          nominated_at?: string;
+          nominated_by?: string | null;
+          notes?: string | null;
+          pilot_id?: string;
+          stage?: string;
+          status?: string;
+          to_role?: Database['public']['Enums']['pilot_role'];
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'upgrade_candidates_nominated_by_fkey';
+            columns: ['nominated_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'upgrade_candidates_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      upgrade_pipeline_events: {
+        Row: {
+          candidate_id: string;
+          created_at: string;
+          details: Json;
+          event_type: string;
+          from_stage: string | null;
+          id: string;
+          notes: string | null;
+          performed_by: string | null;
+          pilot_id: string;
+          to_stage: string | null;
+        };
+        Insert: {
+          candidate_id: string;
+          created_at?: string;
+          details?: Json;
+          event_type: string;
+          from_stage?: string | null;
+          id?: string;
+          notes?: string | null;
+          performed_by?: string | null;
+          pilot_id: string;
+          to_stage?: string | null;
+        };
+        Update: {
+          candidate_id?: string;
+          created_at?: string;
+          details?: Json;
+          event_type?: string;
+          from_stage?: string | null;
+          id?: string;
+          notes?: string | null;
+          performed_by?: string | null;
+          pilot_id?: string;
+          to_stage?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'upgrade_pipeline_events_candidate_id_fkey';
+            columns: ['candidate_id'];
+            isOneToOne: false;
+            referencedRelation: 'upgrade_candidates';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'upgrade_pipeline_events_performed_by_fkey';
+            columns: ['performed_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'upgrade_pipeline_events_pilot_id_fkey';
+            columns: ['pilot_id'];
+            isOneToOne: false;
+            referencedRelation: 'pilots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_data_scopes: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          scope_type: string;
+          scope_value: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          scope_type: string;
+          scope_value: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          scope_type?: string;
+          scope_value?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_data_scopes_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_data_scopes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_permission_overrides: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          effect: string;
+          expires_at: string | null;
+          id: string;
+          permission: string;
+          reason: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          effect: string;
+          expires_at?: string | null;
+          id?: string;
+          permission: string;
+          reason?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          effect?: string;
+          expires_at?: string | null;
+          id?: string;
+          permission?: string;
+          reason?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_permission_overrides_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_permission_overrides_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_deliveries: {
+        Row: {
+          attempts: number;
+          created_at: string;
+          error: string | null;
+          event: string;
+          event_id: string;
+          id: string;
+          last_attempt_at: string | null;
+          next_attempt_at: string | null;
+          payload: Json;
+          response_code: number | null;
+          status: string;
+          updated_at: string;
+          webhook_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string;
+          error?: string | null;
+          event: string;
+          event_id: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          next_attempt_at?: string | null;
+          payload: Json;
+          response_code?: number | null;
+          status?: string;
+          updated_at?: string;
+          webhook_id: string;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string;
+          error?: string | null;
+          event?: string;
+          event_id?: string;
+          id?: string;
+          last_attempt_at?: string | null;
+          next_attempt_at?: string | null;
+          payload?: Json;
+          response_code?: number | null;
+          status?: string;
+          updated_at?: string;
+          webhook_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_deliveries_webhook_id_fkey';
+            columns: ['webhook_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhooks';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_delivery_attempts: {
+        Row: {
+          attempted_at: string;
+          delivery_id: string;
+          duration_ms: number;
+          error: string | null;
+          id: string;
+          response_body: string | null;
+          response_code: number | null;
+          success: boolean;
+          webhook_id: string;
+        };
+        Insert: {
+          attempted_at?: string;
+          delivery_id: string;
+          duration_ms: number;
+          error?: string | null;
+          id?: string;
+          response_body?: string | null;
+          response_code?: number | null;
+          success: boolean;
+          webhook_id: string;
+        };
+        Update: {
+          attempted_at?: string;
+          delivery_id?: string;
+          duration_ms?: number;
+          error?: string | null;
+          id?: string;
+          response_body?: string | null;
+          response_code?: number | null;
+          success?: boolean;
+          webhook_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_delivery_attempts_delivery_id_fkey';
+            columns: ['delivery_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhook_deliveries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'webhook_delivery_attempts_webhook_id_fkey';
+            columns: ['webhook_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhooks';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhooks: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          events: string[];
+          headers: Json;
+          id: string;
+          last_triggered_at: string | null;
+          max_attempts: number;
+          secret: string;
+          updated_at: string;
+          url: string;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          events: string[];
+          headers?: Json;
+          id?: string;
+          last_triggered_at?: string | null;
+          max_attempts?: number;
+          secret: string;
+          updated_at?: string;
+          url: string;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          events?: string[];
+          headers?: Json;
+          id?: string;
+          last_triggered_at?: string | null;
+          max_attempts?: number;
+          secret?: string;
+          updated_at?: string;
+          url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhooks_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'an_users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
     };
     Views: {
       captain_qualifications_summary: {
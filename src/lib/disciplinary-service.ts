@@ -7,12 +7,31 @@
  * @since 2025-10-06
  */
 
+import { format } from 'date-fns';
 import { getSupabaseAdmin } from './supabase';
 import { logger } from '@/lib/logger';
+import { notify } from '@/lib/notification-service';
+import { createTask } from './task-service';
+import {
+  matterDeadlines,
+  normalizeDisciplinaryWorkflow,
+  regulatoryReportState,
+  validateTransition,
+  type DeadlineKind,
+  type DeadlineMatter,
+  type DisciplinaryWorkflowConfig,
+  type RegulatoryReportState,
+} from './disciplinary-workflow';
+import type { DataScope } from './data-scope';
+import { getScopedPilotIds, restrictToPilots } from './data-scope-service';
 
 // Get admin client instance for server-side operations
 const supabase = getSupabaseAdmin();
 
+export const DISCIPLINARY_WORKFLOW_SETTING_KEY = 'disciplinary_workflow';
+const DISCIPLINARY_WORKFLOW_DESCRIPTION =
+  'Disciplinary status transitions per role, required fields, regulatory reporting window and reminder days';
+
 // =============================================================================
 // TYPE DEFINITIONS
 // =============================================================================
@@ -111,6 +130,25 @@ export interface CreateDisciplinaryMatterInput {
   regulatory_body?: string;
 }
 
+export interface RegulatoryRegisterEntry extends RegulatoryReportState {
+  matter_id: string;
+  title: string;
+  matter_status: DisciplinaryMatter['status'];
+  severity: DisciplinaryMatter['severity'];
+  incident_date: string;
+  regulatory_body: string | null;
+  notification_date: string | null;
+  pilot: { first_name: string; last_name: string; employee_id: string } | null;
+}
+
+export interface DisciplinaryEscalationResult {
+  matters: number;
+  escalated: { matter_id: string; kind: DeadlineKind; task_id: string }[];
+  /** Passed deadlines that already had an escalation task */
+  existing: number;
+  reminders: number;
+}
+
 export interface UpdateDisciplinaryMatterInput {
   status?: 'OPEN' | 'UNDER_INVESTIGATION' | 'RESOLVED' | 'CLOSED' | 'APPEALED';
   corrective_actions?: string;
@@ -171,14 +209,17 @@ export async function getIncidentTypeById(id: string): Promise<IncidentType | nu
 
 /**
  * Retrieves all disciplinary matters with related data
- * @security Called from authenticated API routes only. No user context needed for READ operations.
+ * @security Called from authenticated API routes only; pass the user's data scope to limit the pilots.
  */
 export async function getDisciplinaryMatters(filters?: {
   pilot_id?: string;
   status?: string;
   severity?: string;
   assigned_to?: string;
+  scope?: DataScope;
 }) {
+  const pilotIds = filters?.scope ? await getScopedPilotIds(filters.scope) : null;
+
   let query = supabase
     .from('disciplinary_matters')
     .select(
@@ -192,6 +233,7 @@ export async function getDisciplinaryMatters(filters?: {
     )
     .order('created_at', { ascending: false });
 
+  query = restrictToPilots(query, pilotIds);
   if (filters?.pilot_id) {
     query = query.eq('pilot_id', filters.pilot_id);
   }
@@ -283,12 +325,14 @@ export async function createDisciplinaryMatter(
  * @param id Disciplinary matter ID to update
  * @param input Update data
  * @param userId User ID of the authenticated user making the update (REQUIRED)
+ * @param role Role of the user; a status change must be allowed for it by the workflow
  * @security Must be called from authenticated API route with user context
  */
 export async function updateDisciplinaryMatter(
   id: string,
   input: UpdateDisciplinaryMatterInput,
-  userId: string
+  userId: string,
+  role: string
 ) {
   // Security assertion: Ensure user context is provided
   if (!userId) {
@@ -298,6 +342,22 @@ export async function updateDisciplinaryMatter(
   // Get current state for audit log
   const current = await getDisciplinaryMatterById(id);
 
+  if (input.status && input.status !== current.status) {
+    const workflow = await getDisciplinaryWorkflow();
+    const errors = validateTransition(
+      workflow,
+      'matter',
+      current.status,
+      input.status,
+      role,
+      { ...current, ...input },
+      format(new Date(), 'yyyy-MM-dd')
+    );
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
   const { data, error } = await supabase
     .from('disciplinary_matters')
     .update({
@@ -426,6 +486,80 @@ export async function createDisciplinaryAction(
   return data;
 }
 
+/**
+ * Moves a disciplinary action to another status as allowed by the workflow
+ * @param id Disciplinary action ID
+ * @param status New status
+ * @param fields Action fields set along with the status (e.g. acknowledgment_date)
+ * @param userId User ID of the authenticated user (REQUIRED)
+ * @param role Role of the user
+ * @security Must be called from authenticated API route with user context
+ */
+export async function updateDisciplinaryActionStatus(
+  id: string,
+  status: DisciplinaryAction['status'],
+  fields: Partial<
+    Pick<
+      DisciplinaryAction,
+      'effective_date' | 'expiry_date' | 'acknowledgment_date' | 'appeal_deadline'
+    >
+  >,
+  userId: string,
+  role: string
+) {
+  if (!userId) {
+    throw new Error('Authorization required: userId must be provided');
+  }
+
+  const { data: current, error: fetchError } = await supabase
+    .from('disciplinary_actions')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (fetchError || !current) {
+    logger.error('Error fetching disciplinary action', fetchError instanceof Error ? fetchError : new Error(String(fetchError)));
+    throw new Error('Failed to fetch disciplinary action');
+  }
+
+  const workflow = await getDisciplinaryWorkflow();
+  const errors = validateTransition(
+    workflow,
+    'action',
+    current.status,
+    status,
+    role,
+    { ...current, ...fields },
+    format(new Date(), 'yyyy-MM-dd')
+  );
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const { data, error } = await supabase
+    .from('disciplinary_actions')
+    .update({ ...fields, status, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating disciplinary action', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to update disciplinary action');
+  }
+
+  await logDisciplinaryAudit(
+    current.matter_id,
+    userId,
+    'ACTION_STATUS',
+    `${current.action_type.toLowerCase()}_action_status`,
+    current.status,
+    status
+  );
+
+  return data;
+}
+
 // =============================================================================
 // DISCIPLINARY COMMENTS
 // =============================================================================
@@ -546,10 +680,14 @@ export async function getDisciplinaryStatistics(filters?: {
   start_date?: string;
   end_date?: string;
   pilot_id?: string;
+  scope?: DataScope;
 }) {
-  let query = supabase
-    .from('disciplinary_matters')
-    .select('id, severity, status, incident_date, pilot_id');
+  const pilotIds = filters?.scope ? await getScopedPilotIds(filters.scope) : null;
+
+  let query = restrictToPilots(
+    supabase.from('disciplinary_matters').select('id, severity, status, incident_date, pilot_id'),
+    pilotIds
+  );
 
   if (filters?.start_date) {
     query = query.gte('incident_date', filters.start_date);
@@ -587,3 +725,218 @@ export async function getDisciplinaryStatistics(filters?: {
     },
   };
 }
+
+// =============================================================================
+// WORKFLOW
+// =============================================================================
+
+/**
+ * Workflow settings from the disciplinary_workflow setting (defaults when unset)
+ */
+export async function getDisciplinaryWorkflow(): Promise<DisciplinaryWorkflowConfig> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', DISCIPLINARY_WORKFLOW_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching disciplinary workflow', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to fetch disciplinary workflow');
+  }
+
+  return normalizeDisciplinaryWorkflow(data?.value);
+}
+
+export async function updateDisciplinaryWorkflow(
+  config: DisciplinaryWorkflowConfig
+): Promise<DisciplinaryWorkflowConfig> {
+  const normalized = normalizeDisciplinaryWorkflow(config);
+
+  const { error } = await supabase.from('settings').upsert(
+    {
+      key: DISCIPLINARY_WORKFLOW_SETTING_KEY,
+      value: normalized,
+      description: DISCIPLINARY_WORKFLOW_DESCRIPTION,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    logger.error('Error updating disciplinary workflow', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to update disciplinary workflow');
+  }
+
+  return normalized;
+}
+
+// =============================================================================
+// REGULATORY REGISTER
+// =============================================================================
+
+/**
+ * Matters that must be reported to a regulator, with the reporting deadline and
+ * whether they were reported on time
+ */
+export async function getRegulatoryRegister(
+  now: Date = new Date()
+): Promise<RegulatoryRegisterEntry[]> {
+  const workflow = await getDisciplinaryWorkflow();
+
+  const { data, error } = await supabase
+    .from('disciplinary_matters')
+    .select(
+      `
+      id, title, status, severity, incident_date, regulatory_body, notification_date,
+      pilot:pilots (first_name, last_name, employee_id)
+    `
+    )
+    .eq('regulatory_notification_required', true)
+    .order('incident_date', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching regulatory register', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to fetch regulatory register');
+  }
+
+  const today = format(now, 'yyyy-MM-dd');
+  return (data || []).map((matter: any) => ({
+    matter_id: matter.id,
+    title: matter.title,
+    matter_status: matter.status,
+    severity: matter.severity,
+    incident_date: matter.incident_date,
+    regulatory_body: matter.regulatory_body,
+    notification_date: matter.notification_date,
+    pilot: matter.pilot,
+    ...regulatoryReportState(matter, workflow.regulatory_reporting_days, today),
+  }));
+}
+
+// =============================================================================
+// DEADLINE ESCALATION
+// =============================================================================
+
+type EscalationMatter = DeadlineMatter & {
+  title: string;
+  pilot_id: string;
+  reported_by: string;
+  assigned_to: string | null;
+  pilot: { first_name: string; last_name: string; employee_id: string } | null;
+  assignee: { id: string; name: string; email: string } | null;
+  reporter: { id: string; name: string; email: string } | null;
+};
+
+async function fetchEscalationKeys(keys: string[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('generation_key')
+    .in('generation_key', keys);
+
+  if (error) {
+    logger.error('Error fetching disciplinary escalation tasks', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to fetch escalation tasks');
+  }
+
+  return new Set((data || []).map((task: { generation_key: string }) => task.generation_key));
+}
+
+/**
+ * Creates an escalation task, once, for every passed deadline of a matter (due
+ * date, active action appeal deadlines, regulatory notification) and sends a
+ * reminder to the investigator - or the reporter when unassigned - on each of
+ * the workflow's reminder days before a deadline.
+ */
+export async function runDisciplinaryEscalation(
+  now: Date = new Date()
+): Promise<DisciplinaryEscalationResult> {
+  const workflow = await getDisciplinaryWorkflow();
+  const today = format(now, 'yyyy-MM-dd');
+
+  const { data, error } = await supabase
+    .from('disciplinary_matters')
+    .select(
+      `
+      id, title, status, pilot_id, incident_date, due_date, reported_by, assigned_to,
+      regulatory_notification_required, notification_date,
+      pilot:pilots (first_name, last_name, employee_id),
+      assignee:an_users!disciplinary_matters_assigned_to_fkey (id, name, email),
+      reporter:an_users!disciplinary_matters_reported_by_fkey (id, name, email),
+      actions:disciplinary_actions (id, action_type, status, appeal_deadline)
+    `
+    )
+    .or('status.neq.CLOSED,notification_date.is.null');
+
+  if (error) {
+    logger.error('Error fetching disciplinary matters for escalation', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to fetch disciplinary matters');
+  }
+
+  const matters = (data || []) as unknown as EscalationMatter[];
+  const result: DisciplinaryEscalationResult = {
+    matters: matters.length,
+    escalated: [],
+    existing: 0,
+    reminders: 0,
+  };
+
+  for (const matter of matters) {
+    const deadlines = matterDeadlines(matter, workflow, today);
+    const keyFor = (deadline: (typeof deadlines)[number]) =>
+      `disciplinary:${matter.id}:${deadline.action_id || deadline.kind}:${deadline.date}`;
+
+    const passed = deadlines.filter((deadline) => deadline.days_remaining < 0);
+    const existing = await fetchEscalationKeys(passed.map(keyFor));
+    const pilotName = matter.pilot
+      ? `${matter.pilot.first_name} ${matter.pilot.last_name} (${matter.pilot.employee_id})`
+      : 'the pilot';
+
+    for (const deadline of passed) {
+      const key = keyFor(deadline);
+      if (existing.has(key)) {
+        result.existing++;
+        continue;
+      }
+
+      const task = await createTask(
+        {
+          title: `Overdue: ${deadline.label} - ${matter.title}`.slice(0, 200),
+          description: `${deadline.label} on ${deadline.date} has passed for the disciplinary matter concerning ${pilotName}.`,
+          priority: 'URGENT',
+          assigned_to: matter.assigned_to || undefined,
+          related_pilot_id: matter.pilot_id,
+          related_matter_id: matter.id,
+          due_date: `${today}T00:00:00Z`,
+          generation_key: key,
+          tags: ['disciplinary', 'escalation'],
+        },
+        matter.reported_by
+      );
+      result.escalated.push({ matter_id: matter.id, kind: deadline.kind, task_id: task.id });
+    }
+
+    const recipient = matter.assignee || matter.reporter;
+    if (!recipient) continue;
+
+    for (const deadline of deadlines) {
+      if (!workflow.reminder_days.includes(deadline.days_remaining)) continue;
+
+      const days = `${deadline.days_remaining} day${deadline.days_remaining === 1 ? '' : 's'}`;
+      const sent = await notify({
+        type: 'disciplinary_deadline',
+        recipients: [{ id: recipient.id, type: 'staff' }],
+        title: `Reminder: ${deadline.label} in ${days} - ${matter.title}`,
+        message: `${deadline.label} for "${matter.title}" concerning ${pilotName} is on ${deadline.date}.`,
+        link: '/dashboard/disciplinary',
+        metadata: { matter_id: matter.id, kind: deadline.kind, date: deadline.date },
+        urgent: deadline.days_remaining <= 1,
+      });
+      if (sent.notificationIds.length > 0) result.reminders++;
+    }
+  }
+
+  return result;
+}
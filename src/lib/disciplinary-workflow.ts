@@ -0,0 +1,375 @@
+/**
+ * @fileoverview Disciplinary Workflow Rules
+ * State machine for disciplinary matters and actions (which status may follow
+ * which, for which roles, and the fields a transition needs), the deadlines an
+ * open matter runs against (due date, appeal deadlines of its actions and the
+ * regulatory notification deadline) and whether regulatory reports were on time.
+ * Pure functions - data access lives in disciplinary-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+export const MATTER_STATUSES = [
+  'OPEN',
+  'UNDER_INVESTIGATION',
+  'RESOLVED',
+  'CLOSED',
+  'APPEALED',
+] as const;
+
+export const ACTION_STATUSES = ['ACTIVE', 'COMPLETED', 'APPEALED', 'REVERSED'] as const;
+
+export type MatterStatus = (typeof MATTER_STATUSES)[number];
+export type ActionStatus = (typeof ACTION_STATUSES)[number];
+export type WorkflowRole = 'admin' | 'manager';
+export type WorkflowKind = 'matter' | 'action';
+
+/** Fields a matter transition can require */
+export const MATTER_TRANSITION_FIELDS = [
+  'assigned_to',
+  'due_date',
+  'corrective_actions',
+  'resolution_notes',
+  'impact_on_operations',
+  'regulatory_body',
+  'notification_date',
+] as const;
+
+/** Fields an action transition can require */
+export const ACTION_TRANSITION_FIELDS = [
+  'effective_date',
+  'expiry_date',
+  'acknowledgment_date',
+  'appeal_deadline',
+] as const;
+
+export interface TransitionRule {
+  from: string;
+  to: string;
+  roles: WorkflowRole[];
+  /** Fields that must have a value once the transition is made */
+  required_fields: string[];
+  /** Fields required only when the matter needs regulatory notification */
+  regulatory_fields?: string[];
+  /** Only allowed on or before the action's appeal deadline */
+  within_appeal_deadline?: boolean;
+}
+
+export interface DisciplinaryWorkflowConfig {
+  matter_transitions: TransitionRule[];
+  action_transitions: TransitionRule[];
+  /** Days after the incident the regulator must be notified */
+  regulatory_reporting_days: number;
+  /** Days before a deadline a reminder is sent, e.g. [7, 1] */
+  reminder_days: number[];
+}
+
+const BOTH: WorkflowRole[] = ['admin', 'manager'];
+
+const isWorkflowRole = (value: unknown): value is WorkflowRole =>
+  value === 'admin' || value === 'manager';
+
+export const DEFAULT_DISCIPLINARY_WORKFLOW: DisciplinaryWorkflowConfig = {
+  matter_transitions: [
+    { from: 'OPEN', to: 'UNDER_INVESTIGATION', roles: BOTH, required_fields: ['assigned_to'] },
+    { from: 'OPEN', to: 'RESOLVED', roles: BOTH, required_fields: ['resolution_notes'] },
+    {
+      from: 'UNDER_INVESTIGATION',
+      to: 'RESOLVED',
+      roles: BOTH,
+      required_fields: ['resolution_notes'],
+    },
+    {
+      from: 'RESOLVED',
+      to: 'CLOSED',
+      roles: BOTH,
+      required_fields: [],
+      regulatory_fields: ['regulatory_body', 'notification_date'],
+    },
+    { from: 'RESOLVED', to: 'APPEALED', roles: BOTH, required_fields: [] },
+    { from: 'APPEALED', to: 'UNDER_INVESTIGATION', roles: BOTH, required_fields: [] },
+    { from: 'APPEALED', to: 'RESOLVED', roles: BOTH, required_fields: ['resolution_notes'] },
+    {
+      from: 'APPEALED',
+      to: 'CLOSED',
+      roles: ['admin'],
+      required_fields: ['resolution_notes'],
+      regulatory_fields: ['regulatory_body', 'notification_date'],
+    },
+  ],
+  action_transitions: [
+    { from: 'ACTIVE', to: 'COMPLETED', roles: BOTH, required_fields: [] },
+    {
+      from: 'ACTIVE',
+      to: 'APPEALED',
+      roles: BOTH,
+      required_fields: [],
+      within_appeal_deadline: true,
+    },
+    { from: 'APPEALED', to: 'ACTIVE', roles: BOTH, required_fields: [] },
+    { from: 'APPEALED', to: 'REVERSED', roles: ['admin'], required_fields: [] },
+  ],
+  regulatory_reporting_days: 3,
+  reminder_days: [7, 1],
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  assigned_to: 'an investigator',
+  due_date: 'a due date',
+  corrective_actions: 'corrective actions',
+  resolution_notes: 'resolution notes',
+  impact_on_operations: 'the impact on operations',
+  regulatory_body: 'the regulatory body',
+  notification_date: 'the regulatory notification date',
+  effective_date: 'an effective date',
+  expiry_date: 'an expiry date',
+  acknowledgment_date: 'the acknowledgment date',
+  appeal_deadline: 'an appeal deadline',
+};
+
+export const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+function normalizeRules(
+  value: unknown,
+  statuses: readonly string[],
+  fields: readonly string[],
+  fallback: TransitionRule[]
+): TransitionRule[] {
+  if (!Array.isArray(value)) return fallback;
+
+  const knownFields = (list: unknown) =>
+    Array.isArray(list) ? list.filter((field): field is string => fields.includes(field)) : [];
+
+  return value
+    .filter(
+      (rule) =>
+        rule && statuses.includes(rule.from) && statuses.includes(rule.to) && rule.from !== rule.to
+    )
+    .map((rule) => ({
+      from: rule.from,
+      to: rule.to,
+      roles: Array.isArray(rule.roles) ? rule.roles.filter(isWorkflowRole) : BOTH,
+      required_fields: knownFields(rule.required_fields),
+      ...(rule.regulatory_fields && { regulatory_fields: knownFields(rule.regulatory_fields) }),
+      ...(rule.within_appeal_deadline === true && { within_appeal_deadline: true }),
+    }));
+}
+
+/**
+ * Fill in missing or invalid workflow settings from the defaults
+ */
+export function normalizeDisciplinaryWorkflow(value: unknown): DisciplinaryWorkflowConfig {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const reporting = stored.regulatory_reporting_days;
+
+  return {
+    matter_transitions: normalizeRules(
+      stored.matter_transitions,
+      MATTER_STATUSES,
+      MATTER_TRANSITION_FIELDS,
+      DEFAULT_DISCIPLINARY_WORKFLOW.matter_transitions
+    ),
+    action_transitions: normalizeRules(
+      stored.action_transitions,
+      ACTION_STATUSES,
+      ACTION_TRANSITION_FIELDS,
+      DEFAULT_DISCIPLINARY_WORKFLOW.action_transitions
+    ),
+    regulatory_reporting_days:
+      typeof reporting === 'number' && Number.isInteger(reporting) && reporting >= 0
+        ? reporting
+        : DEFAULT_DISCIPLINARY_WORKFLOW.regulatory_reporting_days,
+    reminder_days: Array.isArray(stored.reminder_days)
+      ? stored.reminder_days.filter(
+          (days: unknown): days is number => Number.isInteger(days) && Number(days) > 0
+        )
+      : DEFAULT_DISCIPLINARY_WORKFLOW.reminder_days,
+  };
+}
+
+const rulesFor = (config: DisciplinaryWorkflowConfig, kind: WorkflowKind) =>
+  kind === 'matter' ? config.matter_transitions : config.action_transitions;
+
+/**
+ * Transitions out of a status the role may make
+ */
+export function allowedTransitions(
+  config: DisciplinaryWorkflowConfig,
+  kind: WorkflowKind,
+  from: string,
+  role: string
+): TransitionRule[] {
+  return rulesFor(config, kind).filter(
+    (rule) => rule.from === from && rule.roles.includes(role as WorkflowRole)
+  );
+}
+
+/**
+ * Check a status change against the workflow. `record` is the matter or action
+ * with the update applied, `today` is yyyy-MM-dd.
+ * Returns the reasons the transition is refused (empty when it is allowed).
+ */
+export function validateTransition(
+  config: DisciplinaryWorkflowConfig,
+  kind: WorkflowKind,
+  from: string,
+  to: string,
+  role: string,
+  record: Record<string, unknown>,
+  today: string
+): string[] {
+  if (from === to) return [];
+
+  const rule = rulesFor(config, kind).find((r) => r.from === from && r.to === to);
+  if (!rule) {
+    return [`This ${kind} cannot move from ${formatStatus(from)} to ${formatStatus(to)}`];
+  }
+
+  const errors: string[] = [];
+  if (!rule.roles.includes(role as WorkflowRole)) {
+    errors.push(
+      `Only ${rule.roles.join(' or ') || 'no role'} can move this ${kind} to ${formatStatus(to)}`
+    );
+  }
+
+  const required = [
+    ...rule.required_fields,
+    ...(record.regulatory_notification_required ? rule.regulatory_fields || [] : []),
+  ];
+  for (const field of required) {
+    const value = record[field];
+    if (value === undefined || value === null || String(value).trim() === '') {
+      errors.push(
+        `Moving to ${formatStatus(to)} requires ${FIELD_LABELS[field] || field.replace(/_/g, ' ')}`
+      );
+    }
+  }
+
+  if (rule.within_appeal_deadline) {
+    const appealDeadline =
+      typeof record.appeal_deadline === 'string' ? record.appeal_deadline.slice(0, 10) : '';
+    if (!appealDeadline) {
+      errors.push('This action has no appeal deadline, so it cannot be appealed');
+    } else if (appealDeadline < today) {
+      errors.push(`The appeal deadline passed on ${appealDeadline}`);
+    }
+  }
+
+  return errors;
+}
+
+// =============================================================================
+// DEADLINES
+// =============================================================================
+
+export type DeadlineKind = 'DUE_DATE' | 'APPEAL_DEADLINE' | 'REGULATORY_NOTIFICATION';
+
+export interface DeadlineMatter {
+  id: string;
+  status: string;
+  incident_date: string;
+  due_date?: string | null;
+  regulatory_notification_required: boolean;
+  notification_date?: string | null;
+  actions?: { id: string; action_type: string; status: string; appeal_deadline?: string | null }[];
+}
+
+export interface DisciplinaryDeadline {
+  kind: DeadlineKind;
+  /** Action the deadline belongs to (appeal deadlines only) */
+  action_id?: string;
+  label: string;
+  date: string;
+  /** Negative once the deadline has passed */
+  days_remaining: number;
+}
+
+/**
+ * Date (yyyy-MM-dd) the regulator must be notified of a matter by
+ */
+export function regulatoryDeadline(incidentDate: string, reportingDays: number): string {
+  return format(addDays(parseISO(incidentDate.slice(0, 10)), reportingDays), 'yyyy-MM-dd');
+}
+
+/**
+ * Deadlines still running for a matter: its due date until resolved, the
+ * regulatory notification until it is recorded, and the appeal deadline of
+ * each action that is still active while the matter is not closed.
+ */
+export function matterDeadlines(
+  matter: DeadlineMatter,
+  config: DisciplinaryWorkflowConfig,
+  today: string
+): DisciplinaryDeadline[] {
+  const deadlines: DisciplinaryDeadline[] = [];
+  const daysUntil = (date: string) =>
+    differenceInCalendarDays(parseISO(date.slice(0, 10)), parseISO(today));
+
+  const unresolved = ['OPEN', 'UNDER_INVESTIGATION', 'APPEALED'].includes(matter.status);
+  if (unresolved && matter.due_date) {
+    deadlines.push({
+      kind: 'DUE_DATE',
+      label: 'Matter due',
+      date: matter.due_date.slice(0, 10),
+      days_remaining: daysUntil(matter.due_date),
+    });
+  }
+
+  if (matter.regulatory_notification_required && !matter.notification_date) {
+    const date = regulatoryDeadline(matter.incident_date, config.regulatory_reporting_days);
+    deadlines.push({
+      kind: 'REGULATORY_NOTIFICATION',
+      label: 'Regulatory notification due',
+      date,
+      days_remaining: daysUntil(date),
+    });
+  }
+
+  for (const action of matter.status === 'CLOSED' ? [] : matter.actions || []) {
+    if (action.status !== 'ACTIVE' || !action.appeal_deadline) continue;
+    deadlines.push({
+      kind: 'APPEAL_DEADLINE',
+      action_id: action.id,
+      label: `Appeal deadline for ${action.action_type.toLowerCase()}`,
+      date: action.appeal_deadline.slice(0, 10),
+      days_remaining: daysUntil(action.appeal_deadline),
+    });
+  }
+
+  return deadlines;
+}
+
+// =============================================================================
+// REGULATORY REGISTER
+// =============================================================================
+
+export type RegulatoryReportStatus = 'ON_TIME' | 'LATE' | 'OVERDUE' | 'DUE';
+
+export interface RegulatoryReportState {
+  deadline: string;
+  status: RegulatoryReportStatus;
+  /** Days reported after the deadline, or days overdue when not yet reported */
+  days_late: number;
+}
+
+/**
+ * Whether a matter needing regulatory notification was (or is being) reported in time
+ */
+export function regulatoryReportState(
+  matter: { incident_date: string; notification_date?: string | null },
+  reportingDays: number,
+  today: string
+): RegulatoryReportState {
+  const deadline = regulatoryDeadline(matter.incident_date, reportingDays);
+  const reported = matter.notification_date?.slice(0, 10);
+  const late = differenceInCalendarDays(parseISO(reported || today), parseISO(deadline));
+
+  if (reported) {
+    return { deadline, status: late > 0 ? 'LATE' : 'ON_TIME', days_late: Math.max(0, late) };
+  }
+  return { deadline, status: late > 0 ? 'OVERDUE' : 'DUE', days_late: Math.max(0, late) };
+}
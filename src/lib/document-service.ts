@@ -8,6 +8,19 @@
  */
 
 import { getSupabaseAdmin } from '@/lib/supabase';
+import {
+  approvalChain,
+  approvalDecision,
+  formDataSchema,
+  normalizeFormSchema,
+  pilotAutofill,
+  type ApprovalRecord,
+  type FormSchema,
+  type FormSubmissionStatus,
+} from '@/lib/form-schema';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
+import { validateRequest } from '@/lib/validation-schemas';
 
 export interface DocumentCategory {
   id: string;
@@ -35,6 +48,8 @@ export interface Document {
   version: number;
   is_public: boolean;
   expires_at: string | null;
+  /** Text extracted from the file at upload, used by global search */
+  extracted_text?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -44,7 +59,7 @@ export interface DigitalForm {
   form_type: string;
   title: string;
   description: string | null;
-  form_schema: any;
+  form_schema: FormSchema;
   is_active: boolean;
   requires_approval: boolean;
   allowed_roles: string[];
@@ -56,10 +71,13 @@ export interface FormSubmission {
   form_data: any;
   submitted_by: string | null;
   pilot_id: string | null;
-  status: 'pending' | 'approved' | 'rejected' | 'completed';
+  status: FormSubmissionStatus;
   approved_by: string | null;
   approved_at: string | null;
   rejection_reason: string | null;
+  /** Index of the approval step waiting for a decision */
+  approval_step: number;
+  approval_history: ApprovalRecord[];
   attachments: any;
   created_at: string;
   updated_at: string;
@@ -90,13 +108,16 @@ export async function getDocumentCategories() {
 // DOCUMENTS
 // =====================================================
 
+// Company documents without a pilot are outside any data scope and always listed
 export async function getDocuments(filters?: {
   category_id?: string;
   pilot_id?: string;
   status?: string;
   uploaded_by?: string;
+  scope?: DataScope;
 }) {
   const supabase = getSupabaseAdmin();
+  const pilotIds = filters?.scope ? await getScopedPilotIds(filters.scope) : null;
 
   let query = supabase
     .from('documents')
@@ -108,6 +129,8 @@ export async function getDocuments(filters?: {
     `)
     .order('created_at', { ascending: false });
 
+  query = restrictToPilots(query, pilotIds, { includeUnassigned: true });
+
   if (filters?.category_id) {
     query = query.eq('category_id', filters.category_id);
   }
@@ -224,21 +247,26 @@ export async function deleteDocument(id: string) {
 // DIGITAL FORMS
 // =====================================================
 
-export async function getDigitalForms() {
+const withSchema = (form: any) =>
+  ({ ...form, form_schema: normalizeFormSchema(form.form_schema) }) as DigitalForm;
+
+export async function getDigitalForms(includeInactive = false) {
   const supabase = getSupabaseAdmin();
 
-  const { data, error } = await supabase
-    .from('digital_forms')
-    .select('*')
-    .eq('is_active', true)
-    .order('title', { ascending: true });
+  let query = supabase.from('digital_forms').select('*').order('title', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     console.error('Error fetching digital forms:', error);
     throw error;
   }
 
-  return data as DigitalForm[];
+  return (data || []).map(withSchema);
 }
 
 export async function getDigitalFormById(id: string) {
@@ -255,7 +283,56 @@ export async function getDigitalFormById(id: string) {
     throw error;
   }
 
-  return data as DigitalForm;
+  return withSchema(data);
+}
+
+export async function createDigitalForm(
+  form: {
+    form_type: string;
+    title: string;
+    description?: string | null;
+    form_schema: FormSchema;
+    requires_approval: boolean;
+    allowed_roles: string[];
+    is_active?: boolean;
+  },
+  created_by: string
+) {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from('digital_forms')
+    .insert([{ ...form, created_by }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating digital form:', error);
+    throw error;
+  }
+
+  return withSchema(data);
+}
+
+export async function updateDigitalForm(
+  id: string,
+  updates: Partial<Omit<DigitalForm, 'id' | 'form_type'>>
+) {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from('digital_forms')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating digital form:', error);
+    throw error;
+  }
+
+  return withSchema(data);
 }
 
 // =====================================================
@@ -274,7 +351,7 @@ export async function getFormSubmissions(filters?: {
     .from('form_submissions')
     .select(`
       *,
-      form:digital_forms(id, title, form_type),
+      form:digital_forms(id, title, form_type, form_schema, requires_approval),
       submitter:an_users!form_submissions_submitted_by_fkey(id, name),
       pilot:pilots(id, first_name, last_name, employee_id),
       approver:an_users!form_submissions_approved_by_fkey(id, name)
@@ -304,18 +381,106 @@ export async function getFormSubmissions(filters?: {
   return data;
 }
 
-export async function createFormSubmission(submission: {
-  form_id: string;
-  form_data: any;
-  submitted_by: string;
-  pilot_id?: string;
-  attachments?: any;
-}) {
+export async function getFormSubmissionById(id: string) {
   const supabase = getSupabaseAdmin();
 
   const { data, error } = await supabase
     .from('form_submissions')
-    .insert([submission])
+    .select(`
+      *,
+      form:digital_forms(*),
+      submitter:an_users!form_submissions_submitted_by_fkey(id, name),
+      pilot:pilots(id, first_name, last_name, employee_id, role),
+      approver:an_users!form_submissions_approved_by_fkey(id, name)
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    console.error('Error fetching form submission:', error);
+    throw error;
+  }
+
+  return { ...data, form: data.form ? withSchema(data.form) : null };
+}
+
+/**
+ * Check submitted form data against the form's schema. Auto-filled fields are
+ * taken from the pilot's record, whatever was sent, and answers to hidden or
+ * unknown fields are dropped.
+ */
+export async function validateFormSubmissionData(
+  form: DigitalForm,
+  form_data: Record<string, unknown>,
+  pilot_id?: string | null
+) {
+  let pilot = null;
+
+  if (pilot_id && form.form_schema.fields.some((field) => field.autofill)) {
+    const supabase = getSupabaseAdmin();
+    const { data, error } = await supabase
+      .from('pilots')
+      .select('*')
+      .eq('id', pilot_id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching pilot for form auto-fill:', error);
+      throw error;
+    }
+    pilot = data;
+  }
+
+  const validation = validateRequest(formDataSchema(form.form_schema), {
+    ...form_data,
+    ...pilotAutofill(form.form_schema, pilot),
+  });
+
+  if (!validation.success) {
+    throw new Error(`Invalid form data - ${validation.details?.join('; ')}`);
+  }
+
+  return validation.data;
+}
+
+export async function createFormSubmission(
+  submission: {
+    form_id: string;
+    form_data: any;
+    submitted_by: string;
+    pilot_id?: string;
+    attachments?: any;
+  },
+  role?: string
+) {
+  const supabase = getSupabaseAdmin();
+  const form = await getDigitalFormById(submission.form_id);
+
+  if (!form.is_active) {
+    throw new Error(`${form.title} is no longer accepting submissions`);
+  }
+  if (role && form.allowed_roles?.length && !form.allowed_roles.includes(role)) {
+    throw new Error(`Your role cannot submit ${form.title}`);
+  }
+
+  const form_data = await validateFormSubmissionData(
+    form,
+    submission.form_data || {},
+    submission.pilot_id
+  );
+  const chain = approvalChain(form.form_schema, form.requires_approval);
+
+  const { data, error } = await supabase
+    .from('form_submissions')
+    .insert([
+      {
+        ...submission,
+        form_data,
+        status: chain.length > 0 ? 'pending' : 'completed',
+        approval_step: 0,
+        approval_history: [],
+      },
+    ])
     .select()
     .single();
 
@@ -327,6 +492,84 @@ export async function createFormSubmission(submission: {
   return data;
 }
 
+/**
+ * Approve or reject the current approval step of a submission. Approving the
+ * last step approves the submission; rejecting any step rejects it.
+ */
+export async function decideFormSubmission(
+  id: string,
+  decision: ApprovalRecord['decision'],
+  userId: string,
+  role: string,
+  comment?: string | null
+) {
+  const supabase = getSupabaseAdmin();
+  const submission = await getFormSubmissionById(id);
+
+  if (!submission.form) {
+    throw new Error('The form for this submission no longer exists');
+  }
+  if (submission.status !== 'pending') {
+    throw new Error(`This submission is already ${submission.status}`);
+  }
+  if (decision === 'rejected' && !comment?.trim()) {
+    throw new Error('A reason is required to reject a submission');
+  }
+
+  const chain = approvalChain(submission.form.form_schema, submission.form.requires_approval);
+  const currentStep = submission.approval_step ?? 0;
+  const outcome = approvalDecision(chain, currentStep, decision, role);
+
+  if (outcome.errors.length > 0) {
+    throw new Error(outcome.errors.join('; '));
+  }
+
+  const now = new Date().toISOString();
+  const record: ApprovalRecord = {
+    step: currentStep,
+    name: chain[currentStep]?.name || '',
+    decision,
+    by: userId,
+    at: now,
+    comment: comment?.trim() || null,
+  };
+
+  const updates: Record<string, unknown> = {
+    status: outcome.status,
+    approval_step: outcome.step,
+    approval_history: [...(submission.approval_history || []), record],
+    updated_at: now,
+  };
+
+  if (outcome.status !== 'pending') {
+    updates.approved_by = userId;
+    updates.approved_at = now;
+  }
+  if (decision === 'rejected') {
+    updates.rejection_reason = record.comment;
+  }
+
+  // Only apply the decision if nobody decided this step in the meantime
+  const { data, error } = await supabase
+    .from('form_submissions')
+    .update(updates)
+    .eq('id', id)
+    .eq('status', 'pending')
+    .eq('approval_step', currentStep)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error recording form submission decision:', error);
+    throw error;
+  }
+  if (!data) {
+    throw new Error('This submission was decided by someone else; reload and try again');
+  }
+
+  return data;
+}
+
 export async function updateFormSubmissionStatus(
   id: string,
   status: 'approved' | 'rejected' | 'completed',
@@ -16,6 +16,8 @@
 
 import { getSupabaseAdmin } from './supabase';
 import { nanoid } from 'nanoid';
+import type { DataScope } from './data-scope';
+import { getScopedPilotIds, restrictToPilots } from './data-scope-service';
 
 // =============================================================================
 // TYPE DEFINITIONS
@@ -58,7 +60,10 @@ export interface DocumentMetadata {
   verification_status?: VerificationStatus;
   verified_by?: string;
   verified_at?: string;
-  uploaded_by: string;
+  /** Staff uploader (an_users); absent for uploads from the pilot portal */
+  uploaded_by?: string;
+  /** Pilot portal uploader (pilot_users) */
+  uploaded_by_pilot_user_id?: string;
   notes?: string;
   tags?: string[];
 }
@@ -75,7 +80,10 @@ export interface UploadOptions {
     notes?: string;
     tags?: string[];
   };
-  uploadedBy: string;
+  /** Staff member uploading (an_users id) */
+  uploadedBy?: string;
+  /** Pilot uploading their own document through the portal (pilot_users id) */
+  uploadedByPilotUser?: string;
   replaceDocumentId?: string;
 }
 
@@ -93,6 +101,8 @@ export interface DocumentSearchOptions {
   isCurrentVersion?: boolean;
   limit?: number;
   offset?: number;
+  /** Data scope of the requesting user; omitted means all pilots */
+  scope?: DataScope;
 }
 
 // =============================================================================
@@ -226,7 +236,19 @@ export async function uploadDocument(options: UploadOptions): Promise<{
   error?: string;
 }> {
   try {
-    const { pilotId, documentType, file, metadata, uploadedBy, replaceDocumentId } = options;
+    const {
+      pilotId,
+      documentType,
+      file,
+      metadata,
+      uploadedBy,
+      uploadedByPilotUser,
+      replaceDocumentId,
+    } = options;
+
+    if (!uploadedBy && !uploadedByPilotUser) {
+      return { success: false, error: 'Uploader is required' };
+    }
 
     // Validate file
     const validation = validateFile(file);
@@ -287,13 +309,15 @@ export async function uploadDocument(options: UploadOptions): Promise<{
       issue_date: metadata?.issue_date,
       issuing_authority: metadata?.issuing_authority,
       version_number: versionNumber,
-      is_current_version: true,
+      // Portal uploads replace the current version only once verified
+      is_current_version: !uploadedByPilotUser,
       replaces_document_id: replaceDocumentId,
       is_encrypted: false,
       access_level: 'restricted',
       status: 'active',
       verification_status: 'pending',
       uploaded_by: uploadedBy,
+      uploaded_by_pilot_user_id: uploadedByPilotUser,
       notes: metadata?.notes,
       tags: metadata?.tags,
     };
@@ -315,13 +339,15 @@ export async function uploadDocument(options: UploadOptions): Promise<{
 
     console.log('✅ Document record created:', dbData.id);
 
-    // Log document access
-    await logDocumentAccess({
-      documentId: dbData.id,
-      accessedBy: uploadedBy,
-      accessType: 'upload',
-      notes: `Document uploaded: ${file.name}`,
-    });
+    // Log document access (the access log records staff users only)
+    if (uploadedBy) {
+      await logDocumentAccess({
+        documentId: dbData.id,
+        accessedBy: uploadedBy,
+        accessType: 'upload',
+        notes: `Document uploaded: ${file.name}`,
+      });
+    }
 
     return { success: true, data: dbData };
   } catch (error: any) {
@@ -428,15 +454,20 @@ export async function searchDocuments(options: DocumentSearchOptions): Promise<{
       isCurrentVersion = true,
       limit = 50,
       offset = 0,
+      scope,
     } = options;
 
     const supabaseAdmin = getSupabaseAdmin();
+    const pilotIds = scope ? await getScopedPilotIds(scope) : null;
 
-    let query = supabaseAdmin
-      .from('pilot_documents')
-      .select('*', { count: 'exact' })
-      .eq('status', status)
-      .eq('is_current_version', isCurrentVersion);
+    let query = restrictToPilots(
+      supabaseAdmin
+        .from('pilot_documents')
+        .select('*', { count: 'exact' })
+        .eq('status', status)
+        .eq('is_current_version', isCurrentVersion),
+      pilotIds
+    );
 
     if (pilotId) {
       query = query.eq('pilot_id', pilotId);
@@ -630,7 +661,8 @@ export async function permanentlyDeleteDocument(
 // =============================================================================
 
 /**
- * Verifies or rejects a document
+ * Verifies or rejects a document. A verified portal upload becomes the
+ * current version of its document type (trigger in pilot_self_service migration).
  *
  * @param documentId - Document ID to verify
  * @param verifiedBy - User ID performing verification
@@ -735,9 +767,13 @@ export async function logDocumentAccess(options: AccessLogOptions): Promise<{
  * Gets documents expiring within a specified number of days
  *
  * @param daysAhead - Number of days to look ahead
+ * @param scope - Data scope of the requesting user; omitted means all pilots
  * @returns Expiring documents with status
  */
-export async function getExpiringDocuments(daysAhead: number = 30): Promise<{
+export async function getExpiringDocuments(
+  daysAhead: number = 30,
+  scope?: DataScope
+): Promise<{
   success: boolean;
   data?: {
     critical: DocumentMetadata[]; // Expiring in <= 7 days
@@ -748,19 +784,21 @@ export async function getExpiringDocuments(daysAhead: number = 30): Promise<{
 }> {
   try {
     const supabaseAdmin = getSupabaseAdmin();
+    const pilotIds = scope ? await getScopedPilotIds(scope) : null;
 
     const today = new Date();
     const futureDate = new Date();
     futureDate.setDate(futureDate.getDate() + daysAhead);
 
-    const { data, error } = await supabaseAdmin
-      .from('pilot_documents')
-      .select(
+    const { data, error } = await restrictToPilots(
+      supabaseAdmin.from('pilot_documents').select(
         `
         *,
         pilots!inner (id, first_name, last_name, employee_id)
       `
-      )
+      ),
+      pilotIds
+    )
       .eq('status', 'active')
       .eq('is_current_version', true)
       .not('expiry_date', 'is', null)
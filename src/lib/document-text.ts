@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Document Text Extraction
+ * Extracts the searchable text of an uploaded document: PDFs through pdf.js,
+ * plain text, CSV and JSON files as UTF-8. Other file types have no text.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { logger } from '@/lib/logger';
+
+/** Longest text kept per document (documents.extracted_text) */
+export const MAX_EXTRACTED_TEXT_LENGTH = 100_000;
+
+const MAX_PDF_PAGES = 200;
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml'];
+
+function clean(text: string): string {
+  return text
+    .replace(/\u0000/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+}
+
+async function extractPdfText(data: Uint8Array): Promise<string> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await pdfjs.getDocument({ data, isEvalSupported: false, useSystemFonts: true })
+    .promise;
+
+  try {
+    let text = '';
+    const pages = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    for (let pageNumber = 1; pageNumber <= pages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const lines = content.items.map((item) => ('str' in item ? item.str : ''));
+      text += `${lines.join(' ')}\n`;
+      if (text.length >= MAX_EXTRACTED_TEXT_LENGTH) break;
+    }
+    return text;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Searchable text of a file, or null when the type has no text or extraction
+ * fails (an upload never fails because its text could not be read).
+ */
+export async function extractDocumentText(
+  data: ArrayBuffer,
+  mimeType: string | null,
+  fileName: string
+): Promise<string | null> {
+  const type = (mimeType || '').toLowerCase();
+
+  try {
+    let text: string | null = null;
+    if (type === 'application/pdf' || fileName.toLowerCase().endsWith('.pdf')) {
+      // pdf.js takes ownership of the buffer it is given, so pass a copy
+      text = await extractPdfText(new Uint8Array(data.slice(0)));
+    } else if (type.startsWith('text/') || TEXT_MIME_TYPES.includes(type)) {
+      text = new TextDecoder('utf-8').decode(data);
+    }
+
+    const cleaned = text ? clean(text) : '';
+    return cleaned || null;
+  } catch (error) {
+    logger.warn('Could not extract document text:', { fileName, error });
+    return null;
+  }
+}
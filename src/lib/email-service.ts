@@ -1,40 +1,52 @@
 /**
  * Air Niugini B767 Pilot Management System
- * Email Service - Resend Integration
+ * Email Service
  *
- * Handles all email notifications with Air Niugini branding
+ * Sends all email notifications with Air Niugini branding. Each email is
+ * rendered from its template (email-templates, with admin edits applied by
+ * email-template-service) in the recipient's language and sent through the
+ * configured transport (email-transport): Resend, or a local SMTP server or
+ * .eml files in development.
  * Features:
  * - Certification expiry alerts (30/7 days before)
  * - Leave request notifications
  * - Leave approval/rejection notifications
  * - System alerts
+ * - Daily notification digests
  * - Welcome emails
  * - Password reset emails
+ * - Template test sends (never through Resend)
  */
 
-import { Resend } from 'resend';
 import { getSupabaseAdmin } from '@/lib/supabase-admin';
 import { differenceInDays, format } from 'date-fns';
 import { logger } from '@/lib/logger';
+import type { NotificationDigest } from '@/lib/notification-catalogue';
+import {
+  BRAND_COLORS,
+  escapeHtml,
+  type EmailLocale,
+  type EmailTemplateEdit,
+  type EmailTemplateKey,
+  type RenderedEmail,
+  type TemplateVariables,
+} from '@/lib/email-templates';
+import { previewEmailTemplate, renderStoredEmail } from '@/lib/email-template-service';
+import {
+  getEmailTransport,
+  getTestEmailTransport,
+  type EmailSendResult,
+  type EmailTransport,
+} from '@/lib/email-transport';
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 
-const resend = new Resend(process.env.RESEND_API_KEY || 're_placeholder_123');
-
 const FROM_EMAIL =
   process.env.EMAIL_FROM || 'Air Niugini Fleet Operations <notifications@airniugini.com>';
 const REPLY_TO_EMAIL = process.env.EMAIL_REPLY_TO || 'fleetops@airniugini.com.pg';
 
-// Air Niugini Brand Colors
-export const BRAND_COLORS = {
-  red: '#4F46E5',
-  gold: '#06B6D4',
-  black: '#000000',
-  white: '#FFFFFF',
-} as const;
-
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -73,46 +85,45 @@ export interface SystemNotificationData {
   priority: 'low' | 'medium' | 'high' | 'critical';
 }
 
-interface EmailResult {
-  success: boolean;
-  messageId?: string;
-  error?: string;
+type EmailResult = EmailSendResult;
+
+interface SendOptions {
+  replyTo?: string;
+  cc?: EmailRecipient[];
+  bcc?: EmailRecipient[];
 }
 
 // ============================================================================
-// CORE EMAIL SENDING FUNCTION
+// CORE EMAIL SENDING FUNCTIONS
 // ============================================================================
 
-async function sendEmail(
+async function deliver(
   to: EmailRecipient | EmailRecipient[],
-  subject: string,
-  html: string,
-  options?: {
-    replyTo?: string;
-    cc?: EmailRecipient[];
-    bcc?: EmailRecipient[];
-  }
+  email: RenderedEmail,
+  transport: EmailTransport,
+  options?: SendOptions
 ): Promise<EmailResult> {
   try {
     const recipients = Array.isArray(to) ? to : [to];
 
-    const { data, error } = await resend.emails.send({
+    const result = await transport.send({
       from: FROM_EMAIL,
       to: recipients.map((r) => r.email),
-      subject,
-      html,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
       replyTo: options?.replyTo || REPLY_TO_EMAIL,
-      ...(options?.cc && { cc: options.cc.map((r) => r.email) }),
-      ...(options?.bcc && { bcc: options.bcc.map((r) => r.email) }),
+      cc: options?.cc?.map((r) => r.email),
+      bcc: options?.bcc?.map((r) => r.email),
     });
 
-    if (error) {
-      logger.error('Email send error', error instanceof Error ? error : new Error(String(error)));
-      return { success: false, error: error.message };
+    if (!result.success) {
+      logger.error('Email send error', new Error(result.error));
+      return result;
     }
 
-    logger.info('Email sent successfully', { data: data?.id });
-    return { success: true, messageId: data?.id };
+    logger.info('Email sent successfully', { data: result.messageId, transport: transport.name });
+    return result;
   } catch (error) {
     logger.error('Email service error', error instanceof Error ? error : new Error(String(error)));
     return {
@@ -122,124 +133,52 @@ async function sendEmail(
   }
 }
 
-// ============================================================================
-// EMAIL TEMPLATE WRAPPER
-// ============================================================================
+/**
+ * Variables every template is given: links, brand colours and the recipient's name
+ */
+function baseVariables(to: EmailRecipient | EmailRecipient[]): TemplateVariables {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+  return {
+    app_url: appUrl,
+    preferences_url: `${appUrl}/dashboard/settings`,
+    brand_primary: BRAND_COLORS.red,
+    brand_accent: BRAND_COLORS.gold,
+    recipient_name: Array.isArray(to) ? undefined : to.name,
+  };
+}
 
-function wrapEmailTemplate(content: string, title: string): string {
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${title}</title>
-    <style>
-        body {
-            margin: 0;
-            padding: 0;
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
-            background-color: #f5f5f5;
-        }
-        .email-container {
-            max-width: 600px;
-            margin: 0 auto;
-            background-color: #ffffff;
-        }
-        .header {
-            background-color: ${BRAND_COLORS.red};
-            padding: 30px 40px;
-            text-align: center;
-        }
-        .header h1 {
-            color: ${BRAND_COLORS.white};
-            margin: 0;
-            font-size: 24px;
-            font-weight: 700;
-        }
-        .content {
-            padding: 40px;
-            color: #333333;
-            line-height: 1.6;
-        }
-        .content h2 {
-            color: ${BRAND_COLORS.red};
-            margin-top: 0;
-        }
-        .info-box {
-            background-color: #f9f9f9;
-            border-left: 4px solid ${BRAND_COLORS.gold};
-            padding: 20px;
-            margin: 20px 0;
-        }
-        .info-box strong {
-            color: ${BRAND_COLORS.red};
-        }
-        .button {
-            display: inline-block;
-            background-color: ${BRAND_COLORS.red};
-            color: ${BRAND_COLORS.white} !important;
-            text-decoration: none;
-            padding: 12px 30px;
-            border-radius: 5px;
-            margin: 20px 0;
-            font-weight: 600;
-        }
-        .button:hover {
-            background-color: #c00020;
-        }
-        .alert-critical {
-            background-color: #fee;
-            border-left-color: ${BRAND_COLORS.red};
-        }
-        .alert-warning {
-            background-color: #fffbf0;
-            border-left-color: ${BRAND_COLORS.gold};
-        }
-        .footer {
-            background-color: #f9f9f9;
-            padding: 30px 40px;
-            text-align: center;
-            color: #666666;
-            font-size: 14px;
-            border-top: 3px solid ${BRAND_COLORS.gold};
-        }
-        .footer-logo {
-            margin-bottom: 10px;
-        }
-        .unsubscribe {
-            margin-top: 20px;
-            font-size: 12px;
-        }
-        .unsubscribe a {
-            color: #666666;
-        }
-    </style>
-</head>
-<body>
-    <div class="email-container">
-        <div class="header">
-            <h1>✈️ Air Niugini Fleet Operations</h1>
-        </div>
-        <div class="content">
-            ${content}
-        </div>
-        <div class="footer">
-            <div class="footer-logo">
-                <strong style="color: ${BRAND_COLORS.red};">Air Niugini</strong>
-                <span style="color: ${BRAND_COLORS.gold};"> | </span>
-                <span>Papua New Guinea's National Airline</span>
-            </div>
-            <p>B767 Fleet Operations Management System</p>
-            <p>Jacksons International Airport, Port Moresby, Papua New Guinea</p>
-            <div class="unsubscribe">
-                <a href="{{unsubscribe_url}}">Update notification preferences</a>
-            </div>
-        </div>
-    </div>
-</body>
-</html>
-  `;
+async function sendEmail(
+  to: EmailRecipient | EmailRecipient[],
+  template: Exclude<EmailTemplateKey, 'layout'>,
+  variables: TemplateVariables,
+  locale: EmailLocale,
+  options?: SendOptions
+): Promise<EmailResult> {
+  let email: RenderedEmail;
+  try {
+    email = await renderStoredEmail(template, { ...baseVariables(to), ...variables }, locale);
+  } catch (error) {
+    logger.error('Email render error', error instanceof Error ? error : new Error(String(error)));
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  return deliver(to, email, getEmailTransport(), options);
+}
+
+function leaveVariables(data: LeaveRequestData): TemplateVariables {
+  return {
+    pilot_name: data.pilotName,
+    leave_type: data.leaveType,
+    start_date: format(data.startDate, 'dd MMM yyyy'),
+    end_date: format(data.endDate, 'dd MMM yyyy'),
+    roster_period: data.rosterPeriod,
+    duration_days: differenceInDays(data.endDate, data.startDate) + 1,
+    comments: data.comments,
+  };
 }
 
 // ============================================================================
@@ -248,39 +187,24 @@ function wrapEmailTemplate(content: string, title: string): string {
 
 export async function sendCertificationExpiryAlert(
   recipient: EmailRecipient,
-  data: CertificationExpiryData
+  data: CertificationExpiryData,
+  locale: EmailLocale = 'en'
 ): Promise<EmailResult> {
-  const alertClass = data.daysRemaining <= 7 ? 'alert-critical' : 'alert-warning';
-  const urgency = data.daysRemaining <= 7 ? 'URGENT: ' : '';
-
-  const content = `
-        <h2>${urgency}Certification Expiry Alert</h2>
-        <p>Dear ${recipient.name || 'Team'},</p>
-        <p>This is an automated reminder that the following pilot certification requires attention:</p>
-
-        <div class="info-box ${alertClass}">
-            <p><strong>Pilot:</strong> ${data.pilotName} (${data.employeeId})</p>
-            <p><strong>Check Type:</strong> ${data.checkCode} - ${data.checkDescription}</p>
-            <p><strong>Category:</strong> ${data.category}</p>
-            <p><strong>Expiry Date:</strong> ${format(data.expiryDate, 'dd MMM yyyy')}</p>
-            <p><strong>Days Remaining:</strong> <span style="color: ${BRAND_COLORS.red}; font-weight: 700;">${data.daysRemaining} days</span></p>
-        </div>
-
-        <p>${data.daysRemaining <= 7 ? `<strong style="color: ${  BRAND_COLORS.red  };">URGENT ACTION REQUIRED:</strong> ` : ''}Please ensure that renewal is scheduled before the expiry date to maintain compliance.</p>
-
-        <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/certifications?pilot=${data.pilotId}" class="button">
-            View Certification Details
-        </a>
-
-        <p style="margin-top: 30px; font-size: 14px; color: #666;">
-            This is an automated notification from the Air Niugini B767 Pilot Management System.
-        </p>
-    `;
-
   return sendEmail(
     recipient,
-    `${urgency}Certification Expiry Alert - ${data.pilotName} - ${data.checkCode}`,
-    wrapEmailTemplate(content, 'Certification Expiry Alert')
+    'certification_expiry_alert',
+    {
+      pilot_id: data.pilotId,
+      pilot_name: data.pilotName,
+      employee_id: data.employeeId,
+      check_code: data.checkCode,
+      check_description: data.checkDescription,
+      category: data.category,
+      expiry_date: format(data.expiryDate, 'dd MMM yyyy'),
+      days_remaining: data.daysRemaining,
+      urgent: data.daysRemaining <= 7,
+    },
+    locale
   );
 }
 
@@ -290,38 +214,10 @@ export async function sendCertificationExpiryAlert(
 
 export async function sendLeaveRequestNotification(
   recipient: EmailRecipient,
-  data: LeaveRequestData
+  data: LeaveRequestData,
+  locale: EmailLocale = 'en'
 ): Promise<EmailResult> {
-  const content = `
-        <h2>New Leave Request Submitted</h2>
-        <p>Dear ${recipient.name || 'Manager'},</p>
-        <p>A new leave request has been submitted and requires your review:</p>
-
-        <div class="info-box">
-            <p><strong>Pilot:</strong> ${data.pilotName}</p>
-            <p><strong>Leave Type:</strong> ${data.leaveType}</p>
-            <p><strong>Start Date:</strong> ${format(data.startDate, 'dd MMM yyyy')}</p>
-            <p><strong>End Date:</strong> ${format(data.endDate, 'dd MMM yyyy')}</p>
-            <p><strong>Roster Period:</strong> ${data.rosterPeriod}</p>
-            <p><strong>Duration:</strong> ${differenceInDays(data.endDate, data.startDate) + 1} day(s)</p>
-        </div>
-
-        ${data.comments ? `<p><strong>Comments:</strong><br>${data.comments}</p>` : ''}
-
-        <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/leave" class="button">
-            Review Leave Request
-        </a>
-
-        <p style="margin-top: 30px; font-size: 14px; color: #666;">
-            Please review and approve or reject this request at your earliest convenience.
-        </p>
-    `;
-
-  return sendEmail(
-    recipient,
-    `New Leave Request - ${data.pilotName} - ${data.rosterPeriod}`,
-    wrapEmailTemplate(content, 'New Leave Request')
-  );
+  return sendEmail(recipient, 'leave_request_notification', leaveVariables(data), locale);
 }
 
 // ============================================================================
@@ -331,41 +227,14 @@ export async function sendLeaveRequestNotification(
 export async function sendLeaveApprovalNotification(
   recipient: EmailRecipient,
   data: LeaveRequestData,
-  approved: boolean
+  approved: boolean,
+  locale: EmailLocale = 'en'
 ): Promise<EmailResult> {
-  const statusText = approved ? 'APPROVED' : 'REJECTED';
-  const statusColor = approved ? '#22c55e' : BRAND_COLORS.red;
-
-  const content = `
-        <h2>Leave Request ${statusText}</h2>
-        <p>Dear ${data.pilotName},</p>
-        <p>Your leave request has been <strong style="color: ${statusColor};">${statusText}</strong>.</p>
-
-        <div class="info-box">
-            <p><strong>Leave Type:</strong> ${data.leaveType}</p>
-            <p><strong>Start Date:</strong> ${format(data.startDate, 'dd MMM yyyy')}</p>
-            <p><strong>End Date:</strong> ${format(data.endDate, 'dd MMM yyyy')}</p>
-            <p><strong>Roster Period:</strong> ${data.rosterPeriod}</p>
-            <p><strong>Duration:</strong> ${differenceInDays(data.endDate, data.startDate) + 1} day(s)</p>
-            <p><strong>Status:</strong> <span style="color: ${statusColor}; font-weight: 700;">${statusText}</span></p>
-        </div>
-
-        ${data.approverName ? `<p><strong>Approved by:</strong> ${data.approverName}</p>` : ''}
-        ${data.comments ? `<p><strong>Comments:</strong><br>${data.comments}</p>` : ''}
-
-        <a href="${process.env.NEXT_PUBLIC_APP_URL}/dashboard/leave" class="button">
-            View Leave Details
-        </a>
-
-        <p style="margin-top: 30px; font-size: 14px; color: #666;">
-            If you have any questions, please contact Fleet Operations.
-        </p>
-    `;
-
   return sendEmail(
     recipient,
-    `Leave Request ${statusText} - ${data.rosterPeriod}`,
-    wrapEmailTemplate(content, `Leave Request ${statusText}`)
+    'leave_approval_notification',
+    { ...leaveVariables(data), approved, approver_name: data.approverName },
+    locale
   );
 }
 
@@ -375,7 +244,8 @@ export async function sendLeaveApprovalNotification(
 
 export async function sendSystemNotification(
   recipient: EmailRecipient | EmailRecipient[],
-  data: SystemNotificationData
+  data: SystemNotificationData,
+  locale: EmailLocale = 'en'
 ): Promise<EmailResult> {
   const priorityColors = {
     low: '#6b7280',
@@ -383,32 +253,74 @@ export async function sendSystemNotification(
     high: '#f97316',
     critical: BRAND_COLORS.red,
   };
+  const alertClasses = { low: '', medium: '', high: 'alert-warning', critical: 'alert-critical' };
 
-  const content = `
-        <h2 style="color: ${priorityColors[data.priority]};">${data.title}</h2>
-        <div class="info-box ${data.priority === 'critical' ? 'alert-critical' : data.priority === 'high' ? 'alert-warning' : ''}">
-            <p>${data.message}</p>
-        </div>
-
-        ${
-          data.actionUrl
-            ? `
-        <a href="${data.actionUrl}" class="button">
-            Take Action
-        </a>
-        `
-            : ''
-        }
+  return sendEmail(
+    recipient,
+    'system_notification',
+    {
+      title: data.title,
+      message: data.message,
+      action_url: data.actionUrl,
+      priority: data.priority.toUpperCase(),
+      priority_color: priorityColors[data.priority],
+      alert_class: alertClasses[data.priority],
+    },
+    locale
+  );
+}
 
-        <p style="margin-top: 30px; font-size: 14px; color: #666;">
-            This is an automated system notification from Air Niugini Fleet Operations.
-        </p>
-    `;
+// ============================================================================
+// NOTIFICATION DIGEST
+// ============================================================================
+
+export async function sendNotificationDigest(
+  recipient: EmailRecipient,
+  digest: NotificationDigest,
+  locale: EmailLocale = 'en'
+): Promise<EmailResult> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || '';
+
+  // Sections are built here rather than in the template, so their text is escaped once
+  const sectionsHtml = digest.sections
+    .map(
+      (section) =>
+        `<h3>${escapeHtml(section.label)}</h3>\n${section.items
+          .map(
+            (item) => `<div class="info-box">
+    <p><strong>${escapeHtml(item.title)}</strong></p>
+    <p>${escapeHtml(item.message)}</p>${
+      item.link ? `\n    <p><a href="${escapeHtml(appUrl + item.link)}">View</a></p>` : ''
+    }
+</div>`
+          )
+          .join('\n')}`
+    )
+    .join('\n');
+
+  const sectionsText = digest.sections
+    .map((section) =>
+      [
+        section.label.toUpperCase(),
+        '',
+        ...section.items.map(
+          (item) => `- ${item.title}\n  ${item.message}${item.link ? `\n  ${appUrl}${item.link}` : ''}`
+        ),
+      ].join('\n')
+    )
+    .join('\n\n');
 
   return sendEmail(
     recipient,
-    `[${data.priority.toUpperCase()}] ${data.title}`,
-    wrapEmailTemplate(content, data.title)
+    'notification_digest',
+    {
+      digest_date: digest.date,
+      notification_count: digest.count,
+      notifications_label: `${digest.count} notification${digest.count === 1 ? '' : 's'}`,
+      sections_html: sectionsHtml,
+      sections_text: sectionsText,
+    },
+    locale
   );
 }
 
@@ -418,45 +330,14 @@ export async function sendSystemNotification(
 
 export async function sendWelcomeEmail(
   recipient: EmailRecipient,
-  temporaryPassword?: string
+  temporaryPassword?: string,
+  locale: EmailLocale = 'en'
 ): Promise<EmailResult> {
-  const content = `
-        <h2>Welcome to Air Niugini Fleet Operations</h2>
-        <p>Dear ${recipient.name || 'Colleague'},</p>
-        <p>Welcome to the Air Niugini B767 Pilot Management System! Your account has been successfully created.</p>
-
-        <div class="info-box">
-            <p><strong>Email:</strong> ${recipient.email}</p>
-            ${temporaryPassword ? `<p><strong>Temporary Password:</strong> ${temporaryPassword}</p>` : ''}
-        </div>
-
-        ${
-          temporaryPassword
-            ? `
-        <p style="color: ${BRAND_COLORS.red};"><strong>Important:</strong> For security reasons, please change your password immediately after your first login.</p>
-        `
-            : ''
-        }
-
-        <a href="${process.env.NEXT_PUBLIC_APP_URL}/login" class="button">
-            Login to Your Account
-        </a>
-
-        <h3 style="color: ${BRAND_COLORS.red}; margin-top: 40px;">System Features:</h3>
-        <ul>
-            <li><strong>Pilot Certification Tracking</strong> - Monitor all certifications with expiry alerts</li>
-            <li><strong>Leave Management</strong> - Submit and track RDO/WDO/Annual leave requests</li>
-            <li><strong>Compliance Dashboard</strong> - Real-time fleet status and analytics</li>
-            <li><strong>Automated Reporting</strong> - Generate comprehensive certification and leave reports</li>
-        </ul>
-
-        <p style="margin-top: 30px;">If you have any questions or need assistance, please contact the Fleet Operations team.</p>
-    `;
-
   return sendEmail(
     recipient,
-    'Welcome to Air Niugini Fleet Operations System',
-    wrapEmailTemplate(content, 'Welcome to Air Niugini')
+    'welcome_email',
+    { recipient_email: recipient.email, temporary_password: temporaryPassword },
+    locale
   );
 }
 
@@ -466,40 +347,46 @@ export async function sendWelcomeEmail(
 
 export async function sendPasswordResetEmail(
   recipient: EmailRecipient,
-  resetToken: string
+  resetToken: string,
+  locale: EmailLocale = 'en'
 ): Promise<EmailResult> {
-  const resetUrl = `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?token=${resetToken}`;
-
-  const content = `
-        <h2>Password Reset Request</h2>
-        <p>Dear ${recipient.name || 'User'},</p>
-        <p>We received a request to reset your password for the Air Niugini Fleet Operations System.</p>
-
-        <div class="info-box alert-warning">
-            <p><strong>Security Notice:</strong> This password reset link is valid for 1 hour only.</p>
-        </div>
-
-        <a href="${resetUrl}" class="button">
-            Reset Your Password
-        </a>
-
-        <p style="margin-top: 30px;">If you did not request a password reset, please ignore this email. Your password will remain unchanged.</p>
+  return sendEmail(
+    recipient,
+    'password_reset',
+    {
+      reset_url: `${process.env.NEXT_PUBLIC_APP_URL}/reset-password?token=${encodeURIComponent(resetToken)}`,
+    },
+    locale
+  );
+}
 
-        <p style="font-size: 14px; color: #666; margin-top: 30px;">
-            For security reasons, this link will expire in 1 hour. If you need to reset your password after this time, please submit a new request.
-        </p>
+// ============================================================================
+// TEMPLATE TEST EMAIL
+// ============================================================================
 
-        <p style="font-size: 12px; color: #999; margin-top: 20px;">
-            If the button above doesn't work, copy and paste this link into your browser:<br>
-            <span style="word-break: break-all;">${resetUrl}</span>
-        </p>
-    `;
+/**
+ * Send a template filled with sample data, optionally with unsaved changes,
+ * through the test transport (a local SMTP server or .eml files)
+ */
+export async function sendTemplateTestEmail(
+  template: EmailTemplateKey,
+  to: string,
+  locale: EmailLocale,
+  draft?: EmailTemplateEdit
+): Promise<EmailResult & { transport: string }> {
+  const transport = getTestEmailTransport();
+  const preview = await previewEmailTemplate(template, locale, { draft });
+
+  if (!preview.email) {
+    return { success: false, error: preview.errors.join('; '), transport: transport.name };
+  }
 
-  return sendEmail(
-    recipient,
-    'Password Reset Request - Air Niugini Fleet Operations',
-    wrapEmailTemplate(content, 'Password Reset Request')
+  const result = await deliver(
+    { email: to },
+    { ...preview.email, subject: `[TEST] ${preview.email.subject}` },
+    transport
   );
+  return { ...result, transport: transport.name };
 }
 
 // ============================================================================
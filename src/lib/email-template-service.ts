@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Email Template Service
+ * Admin edits to the email templates, stored in notification_templates by
+ * template name. A stored row replaces the built-in subject, HTML and text of
+ * its template; deleting the row restores the built-in content. If the
+ * templates cannot be read, emails are rendered from the built-ins rather
+ * than not sent.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_KEYS,
+  compactTranslations,
+  renderEmail,
+  sampleVariables,
+  validateTemplateEdit,
+  type EmailLocale,
+  type EmailTemplate,
+  type EmailTemplateEdit,
+  type EmailTemplateKey,
+  type RenderedEmail,
+  type TemplateVariables,
+} from '@/lib/email-templates';
+
+export interface EmailTemplateRecord extends EmailTemplate {
+  /** Set when an admin has edited the template */
+  customized: boolean;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+export interface EmailTemplatePreview {
+  email: RenderedEmail | null;
+  errors: string[];
+}
+
+interface TemplateRow {
+  template_name: string;
+  subject_template: string | null;
+  body_template: string;
+  text_template: string | null;
+  translations: EmailTemplate['translations'] | null;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+const TEMPLATE_COLUMNS =
+  'template_name, subject_template, body_template, text_template, translations, updated_at, updated_by';
+
+function toRecord(key: EmailTemplateKey, row?: TemplateRow): EmailTemplateRecord {
+  const template = DEFAULT_EMAIL_TEMPLATES[key];
+  if (!row) return { ...template, customized: false, updated_at: null, updated_by: null };
+
+  return {
+    ...template,
+    subject: row.subject_template || template.subject,
+    html: row.body_template || template.html,
+    text: row.text_template || template.text,
+    translations: row.translations ?? template.translations,
+    customized: true,
+    updated_at: row.updated_at,
+    updated_by: row.updated_by,
+  };
+}
+
+async function fetchTemplateRows(keys: EmailTemplateKey[]) {
+  return getSupabaseAdmin()
+    .from('notification_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('template_type', 'email')
+    .in('template_name', keys);
+}
+
+/**
+ * Get every email template, with admin edits applied
+ */
+export async function listEmailTemplates(): Promise<EmailTemplateRecord[]> {
+  const { data, error } = await fetchTemplateRows(EMAIL_TEMPLATE_KEYS);
+
+  if (error) {
+    logger.error('Error fetching email templates:', error);
+    throw new Error('Failed to fetch email templates');
+  }
+
+  const rows = (data || []) as TemplateRow[];
+  return EMAIL_TEMPLATE_KEYS.map((key) =>
+    toRecord(
+      key,
+      rows.find((row) => row.template_name === key)
+    )
+  );
+}
+
+/**
+ * Templates for sending, falling back to the built-ins if they cannot be read
+ */
+async function loadTemplates(
+  keys: EmailTemplateKey[]
+): Promise<Record<EmailTemplateKey, EmailTemplateRecord>> {
+  const { data, error } = await fetchTemplateRows(keys);
+  if (error) logger.warn('Using built-in email templates', { error });
+
+  const rows = (data || []) as TemplateRow[];
+  return Object.fromEntries(
+    keys.map((key) => [
+      key,
+      toRecord(
+        key,
+        rows.find((row) => row.template_name === key)
+      ),
+    ])
+  ) as Record<EmailTemplateKey, EmailTemplateRecord>;
+}
+
+/**
+ * Save an admin's edit of a template. Callers validate it first with
+ * validateTemplateEdit; content that does not render is refused here too.
+ */
+export async function updateEmailTemplate(
+  key: EmailTemplateKey,
+  edit: EmailTemplateEdit,
+  userId: string
+): Promise<EmailTemplateRecord> {
+  const template = DEFAULT_EMAIL_TEMPLATES[key];
+  const errors = validateTemplateEdit(template, edit);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('notification_templates')
+    .upsert(
+      {
+        template_name: key,
+        template_type: 'email',
+        subject_template: edit.subject,
+        body_template: edit.html,
+        text_template: edit.text,
+        translations: compactTranslations(edit.translations),
+        variables: template.variables.map((variable) => variable.name),
+        description: template.description,
+        is_active: true,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'template_name' }
+    )
+    .select(TEMPLATE_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error('Error updating email template:', error);
+    throw new Error('Failed to update email template');
+  }
+
+  logger.info('Email template updated', { template: key, userId });
+  return toRecord(key, data as TemplateRow);
+}
+
+/**
+ * Discard an admin's edits, restoring the built-in template
+ */
+export async function resetEmailTemplate(key: EmailTemplateKey): Promise<EmailTemplateRecord> {
+  const { error } = await getSupabaseAdmin()
+    .from('notification_templates')
+    .delete()
+    .eq('template_name', key);
+
+  if (error) {
+    logger.error('Error resetting email template:', error);
+    throw new Error('Failed to reset email template');
+  }
+
+  logger.info('Email template reset to default', { template: key });
+  return toRecord(key);
+}
+
+/**
+ * Render a template with its stored edits, inside the stored layout
+ */
+export async function renderStoredEmail(
+  key: Exclude<EmailTemplateKey, 'layout'>,
+  variables: TemplateVariables,
+  locale: EmailLocale = 'en'
+): Promise<RenderedEmail> {
+  const templates = await loadTemplates([key, 'layout']);
+  return renderEmail(templates[key], templates.layout, variables, locale);
+}
+
+/**
+ * Render a template with sample data, optionally with unsaved changes.
+ * The layout is previewed around the system notification.
+ */
+export async function previewEmailTemplate(
+  key: EmailTemplateKey,
+  locale: EmailLocale,
+  options: { draft?: EmailTemplateEdit; variables?: TemplateVariables } = {}
+): Promise<EmailTemplatePreview> {
+  const bodyKey = key === 'layout' ? 'system_notification' : key;
+  const templates = await loadTemplates([bodyKey, 'layout']);
+
+  let template: EmailTemplate = templates[key];
+  if (options.draft) {
+    const errors = validateTemplateEdit(template, options.draft);
+    if (errors.length > 0) return { email: null, errors };
+    template = {
+      ...template,
+      ...options.draft,
+      translations: compactTranslations(options.draft.translations),
+    };
+  }
+
+  const layout = key === 'layout' ? template : templates.layout;
+  const body = key === 'layout' ? templates[bodyKey] : template;
+
+  return {
+    email: renderEmail(body, layout, { ...sampleVariables(body), ...options.variables }, locale),
+    errors: [],
+  };
+}
@@ -0,0 +1,873 @@
+/**
+ * @fileoverview Email Templates
+ * The registry of emails the system sends: a subject line, HTML body and
+ * plain-text alternative per template, the variables each one is filled
+ * from (with sample values for previews) and optional Tok Pisin
+ * translations. Admins can edit any template; the built-in content here is
+ * used until they do. Every email is rendered inside the "layout" template.
+ *
+ * Templates use {{name}} for a variable (HTML-escaped in the HTML body),
+ * {{{name}}} for one inserted as-is, and {{#if name}}...{{else}}...{{/if}}
+ * for content shown only when a variable is set.
+ * Pure functions - data access lives in email-template-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+export type EmailLocale = 'en' | 'tpi';
+
+export const EMAIL_LOCALE_LABELS: Record<EmailLocale, string> = {
+  en: 'English',
+  tpi: 'Tok Pisin',
+};
+
+export type EmailTemplateKey =
+  | 'layout'
+  | 'certification_expiry_alert'
+  | 'leave_request_notification'
+  | 'leave_approval_notification'
+  | 'system_notification'
+  | 'notification_digest'
+  | 'welcome_email'
+  | 'password_reset';
+
+export type TemplateValue = string | number | boolean | null | undefined;
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateVariable {
+  name: string;
+  description: string;
+  sample: Exclude<TemplateValue, undefined>;
+}
+
+export interface EmailTemplate extends EmailTemplateContent {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  variables: EmailTemplateVariable[];
+  /** Parts of the template in another language; missing parts fall back to English */
+  translations: Partial<Record<Exclude<EmailLocale, 'en'>, Partial<EmailTemplateContent>>>;
+}
+
+/** What an admin saves for a template: the English content and its translations */
+export interface EmailTemplateEdit extends EmailTemplateContent {
+  translations: EmailTemplate['translations'];
+}
+
+export type RenderedEmail = EmailTemplateContent;
+
+// Air Niugini Brand Colors
+export const BRAND_COLORS = {
+  red: '#4F46E5',
+  gold: '#06B6D4',
+  black: '#000000',
+  white: '#FFFFFF',
+} as const;
+
+/** Variables every template can use; filled in by the email service */
+export const GLOBAL_TEMPLATE_VARIABLES: EmailTemplateVariable[] = [
+  {
+    name: 'app_url',
+    description: 'Address of the system',
+    sample: 'https://pms.airniugini.com.pg',
+  },
+  {
+    name: 'recipient_name',
+    description: 'Name of the person the email goes to',
+    sample: 'Jane Kila',
+  },
+  {
+    name: 'preferences_url',
+    description: 'Where recipients change their notification preferences',
+    sample: 'https://pms.airniugini.com.pg/dashboard/settings',
+  },
+  { name: 'brand_primary', description: 'Air Niugini primary colour', sample: BRAND_COLORS.red },
+  { name: 'brand_accent', description: 'Air Niugini accent colour', sample: BRAND_COLORS.gold },
+];
+
+const layoutVariables: EmailTemplateVariable[] = [
+  {
+    name: 'subject',
+    description: 'Subject line of the email',
+    sample: 'Certification Expiry Alert',
+  },
+  {
+    name: 'content',
+    description: 'The email body, inserted with {{{content}}}',
+    sample: '<h2>Certification Expiry Alert</h2><p>Email body goes here.</p>',
+  },
+];
+
+const pilotVariables: EmailTemplateVariable[] = [
+  { name: 'pilot_name', description: 'Pilot full name', sample: 'John Doe' },
+];
+
+const leaveVariables: EmailTemplateVariable[] = [
+  ...pilotVariables,
+  { name: 'leave_type', description: 'Leave type (RDO, WDO, ANNUAL)', sample: 'RDO' },
+  { name: 'start_date', description: 'First day of leave', sample: '20 Oct 2026' },
+  { name: 'end_date', description: 'Last day of leave', sample: '22 Oct 2026' },
+  { name: 'roster_period', description: 'Roster period', sample: 'RP11/2026' },
+  { name: 'duration_days', description: 'Days of leave', sample: 3 },
+  { name: 'comments', description: 'Comments, when given', sample: 'Family commitment' },
+];
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplate> = {
+  layout: {
+    key: 'layout',
+    name: 'Email layout',
+    description: 'Header, footer and styles around every email',
+    variables: layoutVariables,
+    subject: '{{subject}}',
+    html: `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>{{subject}}</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+            background-color: #f5f5f5;
+        }
+        .email-container {
+            max-width: 600px;
+            margin: 0 auto;
+            background-color: #ffffff;
+        }
+        .header {
+            background-color: {{brand_primary}};
+            padding: 30px 40px;
+            text-align: center;
+        }
+        .header h1 {
+            color: #ffffff;
+            margin: 0;
+            font-size: 24px;
+            font-weight: 700;
+        }
+        .content {
+            padding: 40px;
+            color: #333333;
+            line-height: 1.6;
+        }
+        .content h2 {
+            color: {{brand_primary}};
+            margin-top: 0;
+        }
+        .info-box {
+            background-color: #f9f9f9;
+            border-left: 4px solid {{brand_accent}};
+            padding: 20px;
+            margin: 20px 0;
+        }
+        .info-box strong {
+            color: {{brand_primary}};
+        }
+        .button {
+            display: inline-block;
+            background-color: {{brand_primary}};
+            color: #ffffff !important;
+            text-decoration: none;
+            padding: 12px 30px;
+            border-radius: 5px;
+            margin: 20px 0;
+            font-weight: 600;
+        }
+        .alert-critical {
+            background-color: #fee;
+            border-left-color: {{brand_primary}};
+        }
+        .alert-warning {
+            background-color: #fffbf0;
+            border-left-color: {{brand_accent}};
+        }
+        .note {
+            margin-top: 30px;
+            font-size: 14px;
+            color: #666666;
+        }
+        .footer {
+            background-color: #f9f9f9;
+            padding: 30px 40px;
+            text-align: center;
+            color: #666666;
+            font-size: 14px;
+            border-top: 3px solid {{brand_accent}};
+        }
+        .footer-logo {
+            margin-bottom: 10px;
+        }
+        .unsubscribe {
+            margin-top: 20px;
+            font-size: 12px;
+        }
+        .unsubscribe a {
+            color: #666666;
+        }
+    </style>
+</head>
+<body>
+    <div class="email-container">
+        <div class="header">
+            <h1>✈️ Air Niugini Fleet Operations</h1>
+        </div>
+        <div class="content">
+            {{{content}}}
+        </div>
+        <div class="footer">
+            <div class="footer-logo">
+                <strong style="color: {{brand_primary}};">Air Niugini</strong>
+                <span style="color: {{brand_accent}};"> | </span>
+                <span>Papua New Guinea's National Airline</span>
+            </div>
+            <p>B767 Fleet Operations Management System</p>
+            <p>Jacksons International Airport, Port Moresby, Papua New Guinea</p>
+            <div class="unsubscribe">
+                <a href="{{preferences_url}}">Update notification preferences</a>
+            </div>
+        </div>
+    </div>
+</body>
+</html>`,
+    text: `AIR NIUGINI FLEET OPERATIONS
+
+{{{content}}}
+
+--
+Air Niugini | Papua New Guinea's National Airline
+B767 Fleet Operations Management System
+Update notification preferences: {{preferences_url}}`,
+    translations: {},
+  },
+
+  certification_expiry_alert: {
+    key: 'certification_expiry_alert',
+    name: 'Certification expiry alert',
+    description: 'Sent to the fleet office and the pilot as a check nears expiry',
+    variables: [
+      ...pilotVariables,
+      {
+        name: 'pilot_id',
+        description: 'Pilot record id, for the link',
+        sample: 'b4f1c2d0-0000-4000-8000-000000000001',
+      },
+      { name: 'employee_id', description: 'Pilot employee number', sample: 'EMP001' },
+      { name: 'check_code', description: 'Check code', sample: 'PC' },
+      { name: 'check_description', description: 'Check name', sample: 'Proficiency Check' },
+      { name: 'category', description: 'Check category', sample: 'Flight Operations' },
+      { name: 'expiry_date', description: 'Expiry date', sample: '26 Oct 2026' },
+      { name: 'days_remaining', description: 'Days until expiry', sample: 7 },
+      { name: 'urgent', description: 'Set when 7 days or fewer remain', sample: true },
+    ],
+    subject:
+      '{{#if urgent}}URGENT: {{/if}}Certification Expiry Alert - {{pilot_name}} - {{check_code}}',
+    html: `<h2>{{#if urgent}}URGENT: {{/if}}Certification Expiry Alert</h2>
+<p>Dear {{#if recipient_name}}{{recipient_name}}{{else}}Team{{/if}},</p>
+<p>This is an automated reminder that the following pilot certification requires attention:</p>
+
+<div class="info-box {{#if urgent}}alert-critical{{else}}alert-warning{{/if}}">
+    <p><strong>Pilot:</strong> {{pilot_name}} ({{employee_id}})</p>
+    <p><strong>Check Type:</strong> {{check_code}} - {{check_description}}</p>
+    <p><strong>Category:</strong> {{category}}</p>
+    <p><strong>Expiry Date:</strong> {{expiry_date}}</p>
+    <p><strong>Days Remaining:</strong> <span style="color: {{brand_primary}}; font-weight: 700;">{{days_remaining}} days</span></p>
+</div>
+
+<p>{{#if urgent}}<strong style="color: {{brand_primary}};">URGENT ACTION REQUIRED:</strong> {{/if}}Please ensure that renewal is scheduled before the expiry date to maintain compliance.</p>
+
+<a href="{{app_url}}/dashboard/certifications?pilot={{pilot_id}}" class="button">
+    View Certification Details
+</a>
+
+<p class="note">This is an automated notification from the Air Niugini B767 Pilot Management System.</p>`,
+    text: `{{#if urgent}}URGENT: {{/if}}Certification Expiry Alert
+
+Dear {{#if recipient_name}}{{recipient_name}}{{else}}Team{{/if}},
+
+This is an automated reminder that the following pilot certification requires attention:
+
+Pilot: {{pilot_name}} ({{employee_id}})
+Check Type: {{check_code}} - {{check_description}}
+Category: {{category}}
+Expiry Date: {{expiry_date}}
+Days Remaining: {{days_remaining}} days
+
+{{#if urgent}}URGENT ACTION REQUIRED: {{/if}}Please ensure that renewal is scheduled before the expiry date to maintain compliance.
+
+View certification details: {{app_url}}/dashboard/certifications?pilot={{pilot_id}}`,
+    translations: {},
+  },
+
+  leave_request_notification: {
+    key: 'leave_request_notification',
+    name: 'Leave request submitted',
+    description: 'Sent to the fleet office when a pilot submits a leave request',
+    variables: leaveVariables,
+    subject: 'New Leave Request - {{pilot_name}} - {{roster_period}}',
+    html: `<h2>New Leave Request Submitted</h2>
+<p>Dear {{#if recipient_name}}{{recipient_name}}{{else}}Manager{{/if}},</p>
+<p>A new leave request has been submitted and requires your review:</p>
+
+<div class="info-box">
+    <p><strong>Pilot:</strong> {{pilot_name}}</p>
+    <p><strong>Leave Type:</strong> {{leave_type}}</p>
+    <p><strong>Start Date:</strong> {{start_date}}</p>
+    <p><strong>End Date:</strong> {{end_date}}</p>
+    <p><strong>Roster Period:</strong> {{roster_period}}</p>
+    <p><strong>Duration:</strong> {{duration_days}} day(s)</p>
+</div>
+
+{{#if comments}}<p><strong>Comments:</strong><br>{{comments}}</p>{{/if}}
+
+<a href="{{app_url}}/dashboard/leave" class="button">
+    Review Leave Request
+</a>
+
+<p class="note">Please review and approve or reject this request at your earliest convenience.</p>`,
+    text: `New Leave Request Submitted
+
+Dear {{#if recipient_name}}{{recipient_name}}{{else}}Manager{{/if}},
+
+A new leave request has been submitted and requires your review:
+
+Pilot: {{pilot_name}}
+Leave Type: {{leave_type}}
+Start Date: {{start_date}}
+End Date: {{end_date}}
+Roster Period: {{roster_period}}
+Duration: {{duration_days}} day(s)
+{{#if comments}}
+Comments: {{comments}}
+{{/if}}
+Review the leave request: {{app_url}}/dashboard/leave`,
+    translations: {},
+  },
+
+  leave_approval_notification: {
+    key: 'leave_approval_notification',
+    name: 'Leave request decided',
+    description: 'Sent to the pilot when their leave request is approved or rejected',
+    variables: [
+      ...leaveVariables,
+      { name: 'approved', description: 'Set when the request was approved', sample: true },
+      { name: 'approver_name', description: 'Who decided, when known', sample: 'Fleet Manager' },
+    ],
+    subject: 'Leave Request {{#if approved}}APPROVED{{else}}REJECTED{{/if}} - {{roster_period}}',
+    html: `<h2>Leave Request {{#if approved}}APPROVED{{else}}REJECTED{{/if}}</h2>
+<p>Dear {{pilot_name}},</p>
+<p>Your leave request has been <strong style="color: {{#if approved}}#22c55e{{else}}{{brand_primary}}{{/if}};">{{#if approved}}APPROVED{{else}}REJECTED{{/if}}</strong>.</p>
+
+<div class="info-box">
+    <p><strong>Leave Type:</strong> {{leave_type}}</p>
+    <p><strong>Start Date:</strong> {{start_date}}</p>
+    <p><strong>End Date:</strong> {{end_date}}</p>
+    <p><strong>Roster Period:</strong> {{roster_period}}</p>
+    <p><strong>Duration:</strong> {{duration_days}} day(s)</p>
+</div>
+
+{{#if approver_name}}<p><strong>{{#if approved}}Approved{{else}}Rejected{{/if}} by:</strong> {{approver_name}}</p>{{/if}}
+{{#if comments}}<p><strong>Comments:</strong><br>{{comments}}</p>{{/if}}
+
+<a href="{{app_url}}/dashboard/leave" class="button">
+    View Leave Details
+</a>
+
+<p class="note">If you have any questions, please contact Fleet Operations.</p>`,
+    text: `Leave Request {{#if approved}}APPROVED{{else}}REJECTED{{/if}}
+
+Dear {{pilot_name}},
+
+Your leave request has been {{#if approved}}APPROVED{{else}}REJECTED{{/if}}.
+
+Leave Type: {{leave_type}}
+Start Date: {{start_date}}
+End Date: {{end_date}}
+Roster Period: {{roster_period}}
+Duration: {{duration_days}} day(s)
+{{#if approver_name}}{{#if approved}}Approved{{else}}Rejected{{/if}} by: {{approver_name}}
+{{/if}}{{#if comments}}
+Comments: {{comments}}
+{{/if}}
+View leave details: {{app_url}}/dashboard/leave
+
+If you have any questions, please contact Fleet Operations.`,
+    translations: {},
+  },
+
+  system_notification: {
+    key: 'system_notification',
+    name: 'System notification',
+    description: 'Any notification without a layout of its own',
+    variables: [
+      { name: 'title', description: 'Notification title', sample: 'Roster published' },
+      {
+        name: 'message',
+        description: 'Notification text',
+        sample: 'The RP11/2026 roster is now available.',
+      },
+      {
+        name: 'action_url',
+        description: 'Link to act on it, when there is one',
+        sample: 'https://pms.airniugini.com.pg/dashboard',
+      },
+      { name: 'priority', description: 'LOW, MEDIUM, HIGH or CRITICAL', sample: 'MEDIUM' },
+      { name: 'priority_color', description: 'Colour for the priority', sample: BRAND_COLORS.gold },
+      { name: 'alert_class', description: 'alert-critical, alert-warning or empty', sample: '' },
+    ],
+    subject: '[{{priority}}] {{title}}',
+    html: `<h2 style="color: {{priority_color}};">{{title}}</h2>
+<div class="info-box {{alert_class}}">
+    <p>{{message}}</p>
+</div>
+
+{{#if action_url}}<a href="{{action_url}}" class="button">
+    Take Action
+</a>{{/if}}
+
+<p class="note">This is an automated system notification from Air Niugini Fleet Operations.</p>`,
+    text: `{{title}}
+
+{{message}}
+{{#if action_url}}
+Take action: {{action_url}}
+{{/if}}
+This is an automated system notification from Air Niugini Fleet Operations.`,
+    translations: {},
+  },
+
+  notification_digest: {
+    key: 'notification_digest',
+    name: 'Daily digest',
+    description: 'Notifications held for a recipient’s daily digest, in one email',
+    variables: [
+      { name: 'digest_date', description: 'Date of the digest', sample: '20 Oct 2026' },
+      { name: 'notification_count', description: 'Notifications in the digest', sample: 2 },
+      { name: 'notifications_label', description: 'The count in words', sample: '2 notifications' },
+      {
+        name: 'sections_html',
+        description: 'The notifications grouped by category, inserted with {{{sections_html}}}',
+        sample:
+          '<h3>Leave</h3><div class="info-box"><p><strong>Leave request submitted</strong></p><p>John Doe requested RDO for RP11/2026.</p></div>',
+      },
+      {
+        name: 'sections_text',
+        description: 'The same as plain text, inserted with {{{sections_text}}}',
+        sample: 'LEAVE\n\n- Leave request submitted\n  John Doe requested RDO for RP11/2026.',
+      },
+    ],
+    subject: 'Daily Digest - {{digest_date}} ({{notifications_label}})',
+    html: `<h2>Your Daily Digest</h2>
+<p>Dear {{#if recipient_name}}{{recipient_name}}{{else}}Team{{/if}},</p>
+<p>Here are the notifications held for your daily digest:</p>
+{{{sections_html}}}
+
+<p class="note">You receive these in one email because the daily digest is turned on in your notification preferences.</p>`,
+    text: `Your Daily Digest
+
+Dear {{#if recipient_name}}{{recipient_name}}{{else}}Team{{/if}},
+
+Here are the notifications held for your daily digest:
+
+{{{sections_text}}}
+
+You receive these in one email because the daily digest is turned on in your notification preferences.`,
+    translations: {},
+  },
+
+  welcome_email: {
+    key: 'welcome_email',
+    name: 'Welcome email',
+    description: 'Sent when a staff account is created',
+    variables: [
+      {
+        name: 'recipient_email',
+        description: 'Email address of the new account',
+        sample: 'jane.kila@airniugini.com.pg',
+      },
+      {
+        name: 'temporary_password',
+        description: 'First-login password, when one was set',
+        sample: 'Sample-Password-1',
+      },
+    ],
+    subject: 'Welcome to Air Niugini Fleet Operations System',
+    html: `<h2>Welcome to Air Niugini Fleet Operations</h2>
+<p>Dear {{#if recipient_name}}{{recipient_name}}{{else}}Colleague{{/if}},</p>
+<p>Welcome to the Air Niugini B767 Pilot Management System! Your account has been successfully created.</p>
+
+<div class="info-box">
+    <p><strong>Email:</strong> {{recipient_email}}</p>
+    {{#if temporary_password}}<p><strong>Temporary Password:</strong> {{temporary_password}}</p>{{/if}}
+</div>
+
+{{#if temporary_password}}<p style="color: {{brand_primary}};"><strong>Important:</strong> For security reasons, please change your password immediately after your first login.</p>{{/if}}
+
+<a href="{{app_url}}/login" class="button">
+    Login to Your Account
+</a>
+
+<h3 style="color: {{brand_primary}}; margin-top: 40px;">System Features:</h3>
+<ul>
+    <li><strong>Pilot Certification Tracking</strong> - Monitor all certifications with expiry alerts</li>
+    <li><strong>Leave Management</strong> - Submit and track RDO/WDO/Annual leave requests</li>
+    <li><strong>Compliance Dashboard</strong> - Real-time fleet status and analytics</li>
+    <li><strong>Automated Reporting</strong> - Generate comprehensive certification and leave reports</li>
+</ul>
+
+<p style="margin-top: 30px;">If you have any questions or need assistance, please contact the Fleet Operations team.</p>`,
+    text: `Welcome to Air Niugini Fleet Operations
+
+Dear {{#if recipient_name}}{{recipient_name}}{{else}}Colleague{{/if}},
+
+Welcome to the Air Niugini B767 Pilot Management System! Your account has been successfully created.
+
+Email: {{recipient_email}}
+{{#if temporary_password}}Temporary Password: {{temporary_password}}
+
+Important: For security reasons, please change your password immediately after your first login.
+{{/if}}
+Log in: {{app_url}}/login
+
+If you have any questions or need assistance, please contact the Fleet Operations team.`,
+    translations: {},
+  },
+
+  password_reset: {
+    key: 'password_reset',
+    name: 'Password reset',
+    description: 'Sent when a user asks to reset their password',
+    variables: [
+      {
+        name: 'reset_url',
+        description: 'Link that resets the password; valid for 1 hour',
+        sample: 'https://pms.airniugini.com.pg/reset-password?token=sample-token',
+      },
+    ],
+    subject: 'Password Reset Request - Air Niugini Fleet Operations',
+    html: `<h2>Password Reset Request</h2>
+<p>Dear {{#if recipient_name}}{{recipient_name}}{{else}}User{{/if}},</p>
+<p>We received a request to reset your password for the Air Niugini Fleet Operations System.</p>
+
+<div class="info-box alert-warning">
+    <p><strong>Security Notice:</strong> This password reset link is valid for 1 hour only.</p>
+</div>
+
+<a href="{{reset_url}}" class="button">
+    Reset Your Password
+</a>
+
+<p style="margin-top: 30px;">If you did not request a password reset, please ignore this email. Your password will remain unchanged.</p>
+
+<p class="note">For security reasons, this link will expire in 1 hour. If you need to reset your password after this time, please submit a new request.</p>
+
+<p style="font-size: 12px; color: #999; margin-top: 20px;">
+    If the button above doesn't work, copy and paste this link into your browser:<br>
+    <span style="word-break: break-all;">{{reset_url}}</span>
+</p>`,
+    text: `Password Reset Request
+
+Dear {{#if recipient_name}}{{recipient_name}}{{else}}User{{/if}},
+
+We received a request to reset your password for the Air Niugini Fleet Operations System. This link is valid for 1 hour only:
+
+{{reset_url}}
+
+If you did not request a password reset, please ignore this email. Your password will remain unchanged.`,
+    translations: {},
+  },
+};
+
+export const EMAIL_TEMPLATE_KEYS = Object.keys(DEFAULT_EMAIL_TEMPLATES) as EmailTemplateKey[];
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_EMAIL_TEMPLATES, key);
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; name: string; raw: boolean }
+  | { kind: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(#if\s+\w+|else|\/if|\w+)\s*\}\}/g;
+
+/**
+ * Thrown for a template that cannot be parsed, e.g. an {{#if}} without {{/if}}
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { node: Extract<TemplateNode, { kind: 'if' }>; inElse: boolean }[] = [];
+  const target = () => {
+    const current = open[open.length - 1];
+    if (!current) return root;
+    return current.inElse ? current.node.otherwise : current.node.then;
+  };
+
+  let last = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index! > last)
+      target().push({ kind: 'text', value: source.slice(last, match.index) });
+    last = match.index! + match[0].length;
+
+    const [, rawName, tag] = match;
+    if (rawName) {
+      target().push({ kind: 'variable', name: rawName, raw: true });
+    } else if (tag!.startsWith('#if')) {
+      const node = { kind: 'if' as const, name: tag!.slice(3).trim(), then: [], otherwise: [] };
+      target().push(node);
+      open.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const current = open[open.length - 1];
+      if (!current || current.inElse) throw new TemplateSyntaxError('{{else}} outside an {{#if}}');
+      current.inElse = true;
+    } else if (tag === '/if') {
+      if (!open.pop()) throw new TemplateSyntaxError('{{/if}} without an {{#if}}');
+    } else {
+      target().push({ kind: 'variable', name: tag!, raw: false });
+    }
+  }
+
+  if (last < source.length) target().push({ kind: 'text', value: source.slice(last) });
+  if (open.length > 0) {
+    throw new TemplateSyntaxError(`{{#if ${open[open.length - 1]!.node.name}}} is never closed`);
+  }
+  return root;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isSet(value: TemplateValue): boolean {
+  return value !== null && value !== undefined && value !== false && value !== '' && value !== 0;
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables, html: boolean): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case 'text':
+          return node.value;
+        case 'variable': {
+          const value = variables[node.name];
+          if (value === null || value === undefined) return '';
+          return html && !node.raw ? escapeHtml(String(value)) : String(value);
+        }
+        case 'if':
+          return renderNodes(
+            isSet(variables[node.name]) ? node.then : node.otherwise,
+            variables,
+            html
+          );
+      }
+    })
+    .join('');
+}
+
+/**
+ * Fill a template string; variables are HTML-escaped when html is set unless
+ * written {{{name}}}. Unknown variables render as nothing.
+ */
+export function renderTemplateString(
+  source: string,
+  variables: TemplateVariables,
+  options: { html?: boolean } = {}
+): string {
+  return renderNodes(parseTemplate(source), variables, options.html ?? false);
+}
+
+/**
+ * The subject, HTML and text of a template in the given language, falling
+ * back to English for any part without a translation
+ */
+export function localizeTemplate(
+  template: EmailTemplate,
+  locale: EmailLocale
+): EmailTemplateContent {
+  const translation = locale === 'en' ? undefined : template.translations[locale];
+  return {
+    subject: translation?.subject || template.subject,
+    html: translation?.html || template.html,
+    text: translation?.text || template.text,
+  };
+}
+
+/**
+ * Render an email: the template's body inside the layout, in HTML and plain
+ * text, with its subject line
+ */
+export function renderEmail(
+  template: EmailTemplate,
+  layout: EmailTemplate,
+  variables: TemplateVariables,
+  locale: EmailLocale = 'en'
+): RenderedEmail {
+  const content = localizeTemplate(template, locale);
+  const frame = localizeTemplate(layout, locale);
+
+  const subject = renderTemplateString(content.subject, variables).replace(/\s+/g, ' ').trim();
+  const html = renderTemplateString(content.html, variables, { html: true });
+  const text = renderTemplateString(content.text, variables);
+
+  return {
+    subject,
+    html: renderTemplateString(
+      frame.html,
+      { ...variables, subject, content: html },
+      { html: true }
+    ),
+    text: renderTemplateString(frame.text, { ...variables, subject, content: text })
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  };
+}
+
+/**
+ * Sample values for every variable a template can use, for previews
+ */
+export function sampleVariables(template: EmailTemplate): TemplateVariables {
+  return Object.fromEntries(
+    [...GLOBAL_TEMPLATE_VARIABLES, ...template.variables].map((variable) => [
+      variable.name,
+      variable.sample,
+    ])
+  );
+}
+
+/** Names of the variables a template string uses */
+export function templateVariableNames(source: string): string[] {
+  const names = new Set<string>();
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const name = match[1] ?? match[2]!.replace(/^#if\s+/, '');
+    if (name !== 'else' && name !== '/if') names.add(name);
+  }
+  return [...names];
+}
+
+/**
+ * Problems that would stop content from rendering as intended: syntax
+ * errors, variables the template is not given, and an empty subject or body
+ */
+export function validateTemplateContent(
+  template: EmailTemplate,
+  content: Partial<EmailTemplateContent>
+): string[] {
+  const known = new Set(
+    [...GLOBAL_TEMPLATE_VARIABLES, ...template.variables].map((variable) => variable.name)
+  );
+  const errors: string[] = [];
+
+  const labels: Record<keyof EmailTemplateContent, string> = {
+    subject: 'Subject',
+    html: 'HTML body',
+    text: 'Text body',
+  };
+
+  for (const part of ['subject', 'html', 'text'] as const) {
+    const source = content[part];
+    if (source === undefined) continue;
+
+    const label = labels[part];
+    if (!source.trim()) {
+      errors.push(`${label} is empty`);
+      continue;
+    }
+
+    try {
+      parseTemplate(source);
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const unknown = templateVariableNames(source).filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      errors.push(
+        `${label} uses unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`
+      );
+    }
+  }
+
+  if (
+    template.key === 'layout' &&
+    content.html?.trim() &&
+    !content.html.includes('{{{content}}}')
+  ) {
+    errors.push('HTML body must include {{{content}}}');
+  }
+  if (
+    template.key === 'layout' &&
+    content.text?.trim() &&
+    !content.text.includes('{{{content}}}')
+  ) {
+    errors.push('Text body must include {{{content}}}');
+  }
+
+  return errors;
+}
+
+/** Translations without blank parts, which fall back to English */
+export function compactTranslations(
+  translations: EmailTemplate['translations']
+): EmailTemplate['translations'] {
+  const compact: EmailTemplate['translations'] = {};
+  for (const [locale, content] of Object.entries(translations) as [
+    Exclude<EmailLocale, 'en'>,
+    Partial<EmailTemplateContent> | undefined,
+  ][]) {
+    const parts = Object.entries(content ?? {}).filter(([, source]) => source?.trim());
+    if (parts.length > 0) compact[locale] = Object.fromEntries(parts);
+  }
+  return compact;
+}
+
+/**
+ * Problems with an edit: the English content, then each translation
+ */
+export function validateTemplateEdit(template: EmailTemplate, edit: EmailTemplateEdit): string[] {
+  const errors = validateTemplateContent(template, {
+    subject: edit.subject,
+    html: edit.html,
+    text: edit.text,
+  });
+
+  for (const [locale, content] of Object.entries(compactTranslations(edit.translations)) as [
+    Exclude<EmailLocale, 'en'>,
+    Partial<EmailTemplateContent>,
+  ][]) {
+    errors.push(
+      ...validateTemplateContent(template, content).map(
+        (error) => `${EMAIL_LOCALE_LABELS[locale]}: ${error}`
+      )
+    );
+  }
+
+  return errors;
+}
@@ -9,20 +9,26 @@
 
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { getCertificationStatus } from '@/lib/certification-utils';
+import { getCheckTypeRules } from '@/lib/certification-rules';
 import { getRosterPeriodFromDate } from '@/lib/roster-utils';
 import { format } from 'date-fns';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
 
 /**
  * Core service function to fetch expiring certifications
  * This function can be used by both API routes and internal server calls
  *
  * @param daysAhead - Number of days ahead to look for expiring certifications
+ * @param scope - Data scope limiting the pilots (default all pilots)
  * @returns Promise<Array> - Array of expiring certification objects
  */
-export async function getExpiringCertifications(daysAhead: number = 60) {
+export async function getExpiringCertifications(daysAhead: number = 60, scope?: DataScope) {
   const supabaseAdmin = getSupabaseAdmin();
 
   try {
+    const pilotIds = scope ? await getScopedPilotIds(scope) : null;
+
     console.log('🔍 Service: Fetching certifications expiring in next', daysAhead, 'days');
 
     // Calculate date threshold - include expired certifications (30 days back)
@@ -41,7 +47,7 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
       lte: `expiry_date <= '${futureDate.toISOString().split('T')[0]}'`,
     });
 
-    const { data: expiringChecks, error } = await supabaseAdmin
+    const expiringQuery = supabaseAdmin
       .from('pilot_checks')
       .select(
         `
@@ -58,7 +64,9 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
           id,
           check_code,
           check_description,
-          category
+          category,
+          warning_days,
+          grace_period_days
         )
       `
       )
@@ -66,6 +74,7 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
       .gte('expiry_date', pastDate.toISOString().split('T')[0])
       .lte('expiry_date', futureDate.toISOString().split('T')[0])
       .order('expiry_date', { ascending: true });
+    const { data: expiringChecks, error } = await restrictToPilots(expiringQuery, pilotIds);
 
     if (error) {
       console.error('🚨 Service: Database error:', error);
@@ -149,6 +158,8 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
           console.log('🔄 Using fallback roster period:', rosterPeriod);
         }
 
+        const rules = getCheckTypeRules(check.check_types);
+
         return {
           pilotName:
             `${check.pilots?.first_name || ''} ${check.pilots?.middle_name ? `${check.pilots.middle_name  } ` : ''}${check.pilots?.last_name || ''}`.trim(),
@@ -157,7 +168,8 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
           checkDescription: check.check_types?.check_description || '',
           category: check.check_types?.category || '',
           expiryDate,
-          status: getCertificationStatus(expiryDate),
+          status: getCertificationStatus(expiryDate, rules),
+          rules,
           expiry_roster_period: rosterPeriod,
           expiry_roster_display: rosterDisplay,
         };
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Flight Duty Log CSV Import
+ * Parses a flight/duty log CSV into duties with their sectors. One row per sector;
+ * rows with the same employee ID and duty start/end belong to the same duty, and a row
+ * without block times records a duty without flying (e.g. standby).
+ *
+ * Columns (header row required, order free):
+ *   employee_id, duty_start, duty_end, duty_type?, flight_number?, departure?, arrival?,
+ *   block_off?, block_on?, takeoffs?, landings?
+ * Takeoffs and landings default to 1 per sector; use 0 when the pilot was monitoring.
+ * Times are ISO 8601 or "yyyy-MM-dd HH:mm" in UTC.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { parseUtc } from './flight-time-limits';
+
+export const DUTY_TYPES = ['FLIGHT', 'STANDBY', 'TRAINING', 'POSITIONING', 'OFFICE'] as const;
+export type DutyType = (typeof DUTY_TYPES)[number];
+
+export interface ImportedSector {
+  flightNumber: string | null;
+  departureAirport: string | null;
+  arrivalAirport: string | null;
+  blockOff: string;
+  blockOn: string;
+  takeoffs: number;
+  landings: number;
+}
+
+export interface ImportedDuty {
+  employeeId: string;
+  dutyStart: string;
+  dutyEnd: string;
+  dutyType: DutyType;
+  sectors: ImportedSector[];
+  /** CSV line numbers the duty came from */
+  lines: number[];
+}
+
+export interface DutyImportError {
+  line: number;
+  message: string;
+}
+
+export interface DutyImportParseResult {
+  duties: ImportedDuty[];
+  errors: DutyImportError[];
+}
+
+const REQUIRED_COLUMNS = ['employee_id', 'duty_start', 'duty_end'];
+
+function toCount(value: string): number | null {
+  if (value === '') return 1;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function toIsoUtc(value: string): string | null {
+  if (!value) return null;
+  const time = parseUtc(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * Parse a flight/duty log CSV, collecting per-line errors instead of failing the file
+ */
+export function parseDutyLogCsv(text: string): DutyImportParseResult {
+  const rows = parseCsvRows(text.trim());
+  const errors: DutyImportError[] = [];
+  const [header, ...dataRows] = rows;
+
+  if (!header) {
+    return { duties: [], errors: [{ line: 1, message: 'The file is empty' }] };
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return {
+      duties: [],
+      errors: [{ line: 1, message: `Missing column(s): ${missing.join(', ')}` }],
+    };
+  }
+
+  const duties = new Map<string, ImportedDuty>();
+
+  dataRows.forEach((fields, index) => {
+    const line = index + 2;
+    if (fields.every((value) => value.trim() === '')) return;
+
+    const get = (name: string) => (fields[columns.indexOf(name)] ?? '').trim();
+    const employeeId = get('employee_id');
+    const dutyStart = toIsoUtc(get('duty_start'));
+    const dutyEnd = toIsoUtc(get('duty_end'));
+    const dutyType = (get('duty_type').toUpperCase() || 'FLIGHT') as DutyType;
+
+    if (!employeeId) {
+      errors.push({ line, message: 'employee_id is required' });
+      return;
+    }
+    if (!dutyStart || !dutyEnd) {
+      errors.push({ line, message: 'duty_start and duty_end must be valid date-times' });
+      return;
+    }
+    if (dutyEnd <= dutyStart) {
+      errors.push({ line, message: 'duty_end must be after duty_start' });
+      return;
+    }
+    if (!DUTY_TYPES.includes(dutyType)) {
+      errors.push({ line, message: `Unknown duty_type "${get('duty_type')}"` });
+      return;
+    }
+
+    const key = `${employeeId}|${dutyStart}|${dutyEnd}`;
+    const duty = duties.get(key) || {
+      employeeId,
+      dutyStart,
+      dutyEnd,
+      dutyType,
+      sectors: [],
+      lines: [],
+    };
+    duty.lines.push(line);
+
+    const rawOff = get('block_off');
+    const rawOn = get('block_on');
+    if (rawOff || rawOn) {
+      const blockOff = toIsoUtc(rawOff);
+      const blockOn = toIsoUtc(rawOn);
+      if (!blockOff || !blockOn || blockOn <= blockOff) {
+        errors.push({ line, message: 'block_off and block_on must be valid with block_on later' });
+        return;
+      }
+      if (blockOff < dutyStart || blockOn > dutyEnd) {
+        errors.push({ line, message: 'Block times must fall within the duty period' });
+        return;
+      }
+      const takeoffs = toCount(get('takeoffs'));
+      const landings = toCount(get('landings'));
+      if (takeoffs === null || landings === null) {
+        errors.push({ line, message: 'takeoffs and landings must be whole numbers' });
+        return;
+      }
+      duty.sectors.push({
+        flightNumber: get('flight_number') || null,
+        departureAirport: get('departure').toUpperCase() || null,
+        arrivalAirport: get('arrival').toUpperCase() || null,
+        blockOff,
+        blockOn,
+        takeoffs,
+        landings,
+      });
+    }
+
+    duties.set(key, duty);
+  });
+
+  return { duties: Array.from(duties.values()), errors };
+}
@@ -0,0 +1,556 @@
+/**
+ * @fileoverview Flight Duty Service
+ * Flight and duty time log (duty_periods with their flight_sectors), CSV import, and the
+ * flight time limitations checks built on it: per-pilot rolling totals, the dashboard
+ * watchlist of pilots approaching limits, and the check run when a flight request is
+ * approved.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { addDays, subDays } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import {
+  assessProposedDuty,
+  computeFtlStatus,
+  dutyBlockMinutes,
+  limitsReached,
+  normalizeFtlLimits,
+  parseUtc,
+  type FtlAssessment,
+  type FtlDuty,
+  type FtlLimits,
+  type FtlStatus,
+} from '@/lib/flight-time-limits';
+import { parseDutyLogCsv, type DutyImportError, type DutyType } from '@/lib/flight-duty-import';
+
+export const FTL_LIMITS_SETTING_KEY = 'ftl_limits';
+
+/** Flight request types that put the pilot on duty and are checked on approval */
+export const FTL_CHECKED_REQUEST_TYPES = [
+  'FLIGHT_ASSIGNMENT',
+  'STANDBY',
+  'LINE_CHECK',
+  'SIM_TRAINING',
+];
+
+/** Longest rolling window, plus a day so duties crossing its start are included */
+const HISTORY_DAYS = 366;
+
+export interface FlightSector {
+  id: string;
+  duty_period_id: string;
+  pilot_id: string;
+  flight_number: string | null;
+  departure_airport: string | null;
+  arrival_airport: string | null;
+  block_off: string;
+  block_on: string;
+  takeoffs: number;
+  landings: number;
+  created_at: string;
+}
+
+export interface DutyPeriod {
+  id: string;
+  pilot_id: string;
+  duty_start: string;
+  duty_end: string;
+  duty_type: DutyType;
+  notes: string | null;
+  source: 'manual' | 'import';
+  created_by: string | null;
+  created_at: string;
+  flight_sectors: FlightSector[];
+  pilot?: { first_name: string; last_name: string; employee_id: string };
+}
+
+export interface CreateDutyPeriodInput {
+  pilot_id: string;
+  duty_start: string;
+  duty_end: string;
+  duty_type: DutyType;
+  notes?: string;
+  sectors: {
+    flight_number?: string;
+    departure_airport?: string;
+    arrival_airport?: string;
+    block_off: string;
+    block_on: string;
+    takeoffs?: number;
+    landings?: number;
+  }[];
+}
+
+export interface DutyLogFilters {
+  pilotId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface DutyImportResult {
+  dryRun: boolean;
+  parsed: number;
+  imported: number;
+  duplicates: number;
+  errors: DutyImportError[];
+}
+
+export interface FtlWatchlistEntry {
+  pilotId: string;
+  name: string;
+  employeeId: string;
+  role: string;
+  status: FtlStatus;
+}
+
+export interface FlightRequestFtlCheck extends FtlAssessment {
+  checked: boolean;
+}
+
+interface PlannedDutyRequest {
+  id: string;
+  pilot_id: string;
+  request_type: string;
+  departure_date?: string | null;
+  planned_duty_start?: string | null;
+  planned_duty_end?: string | null;
+  planned_block_minutes?: number | null;
+}
+
+const DUTY_SELECT = `
+  *,
+  flight_sectors (*),
+  pilot:pilots (first_name, last_name, employee_id)
+`;
+
+/**
+ * Limits from the ftl_limits setting
+ */
+export async function getFtlLimits(): Promise<FtlLimits> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('settings')
+    .select('value')
+    .eq('key', FTL_LIMITS_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching flight time limits:', error);
+    throw new Error('Failed to fetch flight time limits');
+  }
+
+  return normalizeFtlLimits(data?.value);
+}
+
+function toFtlDuty(duty: DutyPeriod): FtlDuty {
+  return {
+    id: duty.id,
+    start: duty.duty_start,
+    end: duty.duty_end,
+    sectors: (duty.flight_sectors || []).map((sector) => ({
+      blockOff: sector.block_off,
+      blockOn: sector.block_on,
+    })),
+  };
+}
+
+/**
+ * Duty log, most recent duty first
+ */
+export async function getDutyLog(filters: DutyLogFilters = {}): Promise<DutyPeriod[]> {
+  let query = getSupabaseAdmin()
+    .from('duty_periods')
+    .select(DUTY_SELECT)
+    .order('duty_start', { ascending: false });
+
+  if (filters.pilotId) query = query.eq('pilot_id', filters.pilotId);
+  if (filters.from) query = query.gte('duty_end', filters.from);
+  if (filters.to) query = query.lte('duty_start', filters.to);
+  if (filters.limit) query = query.limit(filters.limit);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Error fetching duty log:', error);
+    throw new Error('Failed to fetch duty log');
+  }
+
+  return (data || []) as DutyPeriod[];
+}
+
+/**
+ * Logged duties plus planned duties of approved flight requests, per pilot
+ */
+async function getFtlDutiesByPilot(
+  from: Date,
+  to: Date,
+  pilotId?: string
+): Promise<Map<string, FtlDuty[]>> {
+  let plannedQuery = getSupabaseAdmin()
+    .from('flight_requests')
+    .select(
+      'id, pilot_id, request_type, planned_duty_start, planned_duty_end, planned_block_minutes'
+    )
+    .eq('status', 'APPROVED')
+    .not('planned_duty_start', 'is', null)
+    .not('planned_duty_end', 'is', null)
+    .gte('planned_duty_end', from.toISOString())
+    .lte('planned_duty_start', to.toISOString());
+  if (pilotId) plannedQuery = plannedQuery.eq('pilot_id', pilotId);
+
+  const [logged, plannedResult] = await Promise.all([
+    getDutyLog({ pilotId, from: from.toISOString(), to: to.toISOString() }),
+    plannedQuery,
+  ]);
+
+  if (plannedResult.error) {
+    logger.error('Error fetching planned duties:', plannedResult.error);
+    throw new Error('Failed to fetch planned duties');
+  }
+
+  const duties = new Map<string, FtlDuty[]>();
+  const add = (id: string, duty: FtlDuty) => {
+    const list = duties.get(id) || [];
+    list.push(duty);
+    duties.set(id, list);
+  };
+
+  for (const duty of logged) add(duty.pilot_id, toFtlDuty(duty));
+  for (const request of (plannedResult.data || []) as PlannedDutyRequest[]) {
+    const planned = plannedDuty(request);
+    if (planned) add(request.pilot_id, planned);
+  }
+
+  return duties;
+}
+
+/**
+ * Planned duty of a flight request, with the planned block time flown from duty start
+ */
+function plannedDuty(request: PlannedDutyRequest): FtlDuty | null {
+  if (!request.planned_duty_start || !request.planned_duty_end) return null;
+
+  const start = parseUtc(request.planned_duty_start);
+  const blockMinutes = request.planned_block_minutes || 0;
+
+  return {
+    id: `flight-request-${request.id}`,
+    start: request.planned_duty_start,
+    end: request.planned_duty_end,
+    sectors:
+      blockMinutes > 0
+        ? [
+            {
+              blockOff: request.planned_duty_start,
+              blockOn: new Date(start + blockMinutes * 60000).toISOString(),
+            },
+          ]
+        : [],
+  };
+}
+
+/**
+ * Log a duty period with its sectors
+ * Logged duties are a record of what was flown, so limits are reported, not enforced;
+ * overlapping duties for the same pilot are refused.
+ */
+export async function createDutyPeriod(
+  input: CreateDutyPeriodInput,
+  createdBy: string | null,
+  source: DutyPeriod['source'] = 'manual'
+): Promise<{ duty: DutyPeriod; assessment: FtlAssessment }> {
+  const supabase = getSupabaseAdmin();
+  const start = new Date(parseUtc(input.duty_start));
+  const end = new Date(parseUtc(input.duty_end));
+
+  for (const sector of input.sectors) {
+    if (parseUtc(sector.block_off) < start.getTime() || parseUtc(sector.block_on) > end.getTime()) {
+      throw new Error('Block times must fall within the duty period');
+    }
+  }
+
+  const [limits, duties] = await Promise.all([
+    getFtlLimits(),
+    getFtlDutiesByPilot(subDays(start, HISTORY_DAYS), addDays(end, HISTORY_DAYS), input.pilot_id),
+  ]);
+  const assessment = assessProposedDuty(
+    duties.get(input.pilot_id) || [],
+    {
+      start: start.toISOString(),
+      end: end.toISOString(),
+      sectors: input.sectors.map((s) => ({ blockOff: s.block_off, blockOn: s.block_on })),
+    },
+    limits
+  );
+
+  const overlap = assessment.violations.find((v) => v.startsWith('Overlaps'));
+  if (overlap) {
+    throw new Error(overlap);
+  }
+
+  const { data: duty, error } = await supabase
+    .from('duty_periods')
+    .insert({
+      pilot_id: input.pilot_id,
+      duty_start: start.toISOString(),
+      duty_end: end.toISOString(),
+      duty_type: input.duty_type,
+      notes: input.notes || null,
+      source,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating duty period:', error);
+    throw new Error('Failed to create duty period');
+  }
+
+  let sectors: FlightSector[] = [];
+  if (input.sectors.length > 0) {
+    const { data: inserted, error: sectorError } = await supabase
+      .from('flight_sectors')
+      .insert(
+        input.sectors.map((sector) => ({
+          duty_period_id: duty.id,
+          pilot_id: input.pilot_id,
+          flight_number: sector.flight_number || null,
+          departure_airport: sector.departure_airport || null,
+          arrival_airport: sector.arrival_airport || null,
+          block_off: new Date(parseUtc(sector.block_off)).toISOString(),
+          block_on: new Date(parseUtc(sector.block_on)).toISOString(),
+          takeoffs: sector.takeoffs ?? 1,
+          landings: sector.landings ?? 1,
+        }))
+      )
+      .select();
+
+    if (sectorError) {
+      logger.error('Error creating flight sectors:', sectorError);
+      await supabase.from('duty_periods').delete().eq('id', duty.id);
+      throw new Error('Failed to create flight sectors');
+    }
+    sectors = (inserted || []) as FlightSector[];
+  }
+
+  const created = { ...(duty as DutyPeriod), flight_sectors: sectors };
+  logger.info('Duty period logged', {
+    dutyId: created.id,
+    pilotId: input.pilot_id,
+    blockMinutes: dutyBlockMinutes(toFtlDuty(created)),
+  });
+
+  return { duty: created, assessment };
+}
+
+/**
+ * Delete a duty period (its sectors are removed with it)
+ */
+export async function deleteDutyPeriod(id: string): Promise<void> {
+  const { error } = await getSupabaseAdmin().from('duty_periods').delete().eq('id', id);
+
+  if (error) {
+    logger.error('Error deleting duty period:', error);
+    throw new Error('Failed to delete duty period');
+  }
+}
+
+/**
+ * Import a flight/duty log CSV
+ * Rows are matched to pilots by employee ID; duties already logged for the pilot with
+ * the same start are skipped, so a file can be imported again safely.
+ */
+export async function importDutyLog(
+  csv: string,
+  options: { dryRun: boolean; createdBy: string | null }
+): Promise<DutyImportResult> {
+  const supabase = getSupabaseAdmin();
+  const { duties, errors } = parseDutyLogCsv(csv);
+
+  const employeeIds = Array.from(new Set(duties.map((duty) => duty.employeeId)));
+  const { data: pilots, error: pilotError } = employeeIds.length
+    ? await supabase.from('pilots').select('id, employee_id').in('employee_id', employeeIds)
+    : { data: [], error: null };
+
+  if (pilotError) {
+    logger.error('Error fetching pilots for duty import:', pilotError);
+    throw new Error('Failed to fetch pilots data');
+  }
+
+  const pilotIds = new Map((pilots || []).map((p) => [p.employee_id, p.id as string]));
+  let imported = 0;
+  let duplicates = 0;
+
+  for (const duty of duties) {
+    const pilotId = pilotIds.get(duty.employeeId);
+    const line = duty.lines[0] ?? 0;
+    if (!pilotId) {
+      errors.push({ line, message: `No pilot with employee ID ${duty.employeeId}` });
+      continue;
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('duty_periods')
+      .select('id')
+      .eq('pilot_id', pilotId)
+      .eq('duty_start', duty.dutyStart)
+      .maybeSingle();
+
+    if (existingError) {
+      logger.error('Error checking existing duty:', existingError);
+      throw new Error('Failed to check existing duties');
+    }
+    if (existing) {
+      duplicates++;
+      continue;
+    }
+    if (options.dryRun) {
+      imported++;
+      continue;
+    }
+
+    try {
+      await createDutyPeriod(
+        {
+          pilot_id: pilotId,
+          duty_start: duty.dutyStart,
+          duty_end: duty.dutyEnd,
+          duty_type: duty.dutyType,
+          sectors: duty.sectors.map((sector) => ({
+            flight_number: sector.flightNumber || undefined,
+            departure_airport: sector.departureAirport || undefined,
+            arrival_airport: sector.arrivalAirport || undefined,
+            block_off: sector.blockOff,
+            block_on: sector.blockOn,
+            takeoffs: sector.takeoffs,
+            landings: sector.landings,
+          })),
+        },
+        options.createdBy,
+        'import'
+      );
+      imported++;
+    } catch (error) {
+      errors.push({
+        line,
+        message: error instanceof Error ? error.message : 'Failed to import duty',
+      });
+    }
+  }
+
+  logger.info('Duty log import processed', {
+    dryRun: options.dryRun,
+    parsed: duties.length,
+    imported,
+    duplicates,
+    errors: errors.length,
+  });
+
+  return {
+    dryRun: options.dryRun,
+    parsed: duties.length,
+    imported,
+    duplicates,
+    errors: errors.sort((a, b) => a.line - b.line),
+  };
+}
+
+/**
+ * Rolling totals for one pilot now
+ */
+export async function getPilotFtlStatus(pilotId: string): Promise<FtlStatus> {
+  const now = new Date();
+  const [limits, duties] = await Promise.all([
+    getFtlLimits(),
+    getFtlDutiesByPilot(subDays(now, HISTORY_DAYS), now, pilotId),
+  ]);
+
+  return computeFtlStatus(duties.get(pilotId) || [], limits, now);
+}
+
+/**
+ * Active pilots at or above the warning threshold of any limit, closest to a limit first
+ */
+export async function getFtlWatchlist(): Promise<{
+  limits: FtlLimits;
+  pilots: FtlWatchlistEntry[];
+}> {
+  const now = new Date();
+  const [limits, duties, pilotsResult] = await Promise.all([
+    getFtlLimits(),
+    getFtlDutiesByPilot(subDays(now, HISTORY_DAYS), now),
+    getSupabaseAdmin()
+      .from('pilots')
+      .select('id, first_name, last_name, employee_id, role')
+      .eq('is_active', true),
+  ]);
+
+  if (pilotsResult.error) {
+    logger.error('Error fetching pilots for FTL watchlist:', pilotsResult.error);
+    throw new Error('Failed to fetch pilots data');
+  }
+
+  const maxPercent = (status: FtlStatus) => Math.max(...status.totals.map((t) => t.percent));
+
+  const pilots = (pilotsResult.data || [])
+    .filter((pilot) => duties.has(pilot.id))
+    .map((pilot) => ({
+      pilotId: pilot.id,
+      name: `${pilot.first_name} ${pilot.last_name}`,
+      employeeId: pilot.employee_id,
+      role: pilot.role,
+      status: computeFtlStatus(duties.get(pilot.id) || [], limits, now),
+    }))
+    .filter((entry) => entry.status.level !== 'OK')
+    .sort((a, b) => maxPercent(b.status) - maxPercent(a.status));
+
+  return { limits, pilots };
+}
+
+/**
+ * Flight time limitations check for approving a flight request
+ * With planned duty times the full check runs (rolling totals, rest, overlaps); without
+ * them only limits the pilot has already reached on the departure date can be checked.
+ */
+export async function checkFlightRequestFtl(
+  request: PlannedDutyRequest
+): Promise<FlightRequestFtlCheck> {
+  if (!FTL_CHECKED_REQUEST_TYPES.includes(request.request_type)) {
+    return { checked: false, allowed: true, violations: [], warnings: [], totals: [] };
+  }
+
+  const limits = await getFtlLimits();
+  const proposed = plannedDuty(request);
+
+  if (proposed) {
+    const start = new Date(parseUtc(proposed.start));
+    const duties = await getFtlDutiesByPilot(
+      subDays(start, HISTORY_DAYS),
+      addDays(start, HISTORY_DAYS),
+      request.pilot_id
+    );
+    const assessment = assessProposedDuty(duties.get(request.pilot_id) || [], proposed, limits);
+    if (!request.planned_block_minutes) {
+      assessment.warnings.push('No planned block time - flight time totals exclude this duty');
+    }
+    return { checked: true, ...assessment };
+  }
+
+  const asOf = request.departure_date ? new Date(parseUtc(request.departure_date)) : new Date();
+  const duties = await getFtlDutiesByPilot(subDays(asOf, HISTORY_DAYS), asOf, request.pilot_id);
+  const status = computeFtlStatus(duties.get(request.pilot_id) || [], limits, asOf);
+  const violations = limitsReached(status);
+
+  return {
+    checked: true,
+    allowed: violations.length === 0,
+    violations,
+    warnings: ['No planned duty times - only limits already reached were checked'],
+    totals: status.totals,
+  };
+}
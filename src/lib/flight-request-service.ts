@@ -9,6 +9,11 @@
 
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
+import { checkFlightRequestFtl } from '@/lib/flight-duty-service';
+import { checkFlightRequestQualifications } from '@/lib/pilot-currency-service';
+import { notifyFlightRequestStatus } from '@/lib/pilot-request-service';
 
 // ==========================================
 // TYPE DEFINITIONS
@@ -45,6 +50,9 @@ export interface FlightRequest {
   arrival_airport?: string;
   departure_date?: string;
   return_date?: string;
+  planned_duty_start?: string;
+  planned_duty_end?: string;
+  planned_block_minutes?: number;
   priority: FlightRequestPriority;
   status: FlightRequestStatus;
   reason?: string;
@@ -74,6 +82,7 @@ export interface FlightRequestFilters {
   created_by?: string;
   departure_date_from?: string;
   departure_date_to?: string;
+  scope?: DataScope;
 }
 
 export interface CreateFlightRequestData {
@@ -85,6 +94,9 @@ export interface CreateFlightRequestData {
   arrival_airport?: string;
   departure_date?: string;
   return_date?: string;
+  planned_duty_start?: string;
+  planned_duty_end?: string;
+  planned_block_minutes?: number;
   priority?: FlightRequestPriority;
   reason?: string;
   notes?: string;
@@ -100,14 +112,29 @@ export interface UpdateFlightRequestData {
   arrival_airport?: string;
   departure_date?: string;
   return_date?: string;
+  planned_duty_start?: string;
+  planned_duty_end?: string;
+  planned_block_minutes?: number;
   priority?: FlightRequestPriority;
-  status?: FlightRequestStatus;
+  /** Approval goes through approveFlightRequest, which runs the qualification and FTL checks */
+  status?: Exclude<FlightRequestStatus, 'APPROVED'>;
   reason?: string;
   notes?: string;
   attachments?: any[];
   required_qualifications?: any[];
 }
 
+/**
+ * Thrown when a flight request cannot be approved: the pilot lacks a required
+ * qualification or the flight would breach flight time limitations
+ */
+export class FlightRequestApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FlightRequestApprovalError';
+  }
+}
+
 // ==========================================
 // SERVICE FUNCTIONS
 // ==========================================
@@ -120,6 +147,7 @@ export async function getFlightRequests(
 ): Promise<FlightRequest[]> {
   try {
     const supabase = getSupabaseAdmin();
+    const pilotIds = filters.scope ? await getScopedPilotIds(filters.scope) : null;
     let query = supabase
       .from('flight_requests')
       .select(
@@ -149,6 +177,8 @@ export async function getFlightRequests(
       )
       .order('created_at', { ascending: false });
 
+    query = restrictToPilots(query, pilotIds);
+
     // Apply filters
     if (filters.status) {
       query = query.eq('status', filters.status);
@@ -352,6 +382,10 @@ export async function updateFlightRequest(
       throw new Error('Failed to update flight request');
     }
 
+    if (data.status && data.status !== existing.status) {
+      await notifyFlightRequestStatus(updated);
+    }
+
     logger.info('Flight request updated successfully', { id });
     return updated as FlightRequest;
   } catch (error) {
@@ -362,6 +396,8 @@ export async function updateFlightRequest(
 
 /**
  * Approve a flight request
+ * Refused when the pilot does not hold the required qualifications on the departure date,
+ * or when putting the pilot on the planned duty would breach flight time limitations
  */
 export async function approveFlightRequest(
   id: string,
@@ -371,6 +407,33 @@ export async function approveFlightRequest(
   try {
     const supabase = getSupabaseAdmin();
 
+    const existing = await getFlightRequestById(id);
+    if (!existing) {
+      throw new Error('Flight request not found');
+    }
+
+    const qualifications = await checkFlightRequestQualifications(existing);
+    if (!qualifications.allowed) {
+      logger.warn('Flight request approval blocked by missing qualifications', {
+        id,
+        missing: qualifications.missing,
+      });
+      throw new FlightRequestApprovalError(
+        `Pilot does not hold the required qualifications: ${qualifications.missing.join('; ')}`
+      );
+    }
+
+    const ftl = await checkFlightRequestFtl(existing);
+    if (!ftl.allowed) {
+      logger.warn('Flight request approval blocked by flight time limitations', {
+        id,
+        violations: ftl.violations,
+      });
+      throw new FlightRequestApprovalError(
+        `Approval would breach flight time limitations: ${ftl.violations.join('; ')}`
+      );
+    }
+
     const { data, error } = await supabase
       .from('flight_requests')
       .update({
@@ -399,6 +462,8 @@ export async function approveFlightRequest(
       throw new Error('Failed to approve flight request');
     }
 
+    await notifyFlightRequestStatus(data);
+
     logger.info('Flight request approved', { id, userId });
     return data as FlightRequest;
   } catch (error) {
@@ -450,6 +515,8 @@ export async function rejectFlightRequest(
       throw new Error('Failed to reject flight request');
     }
 
+    await notifyFlightRequestStatus(data);
+
     logger.info('Flight request rejected', { id, userId });
     return data as FlightRequest;
   } catch (error) {
@@ -497,6 +564,8 @@ export async function cancelFlightRequest(
       throw new Error('Failed to cancel flight request');
     }
 
+    await notifyFlightRequestStatus(data);
+
     logger.info('Flight request cancelled', { id, userId });
     return data as FlightRequest;
   } catch (error) {
@@ -533,10 +602,15 @@ export async function getFlightRequestStatistics(filters: {
   pilot_id?: string;
   date_from?: string;
   date_to?: string;
+  scope?: DataScope;
 }) {
   try {
     const supabase = getSupabaseAdmin();
-    let query = supabase.from('flight_requests').select('status, priority, request_type');
+    const pilotIds = filters.scope ? await getScopedPilotIds(filters.scope) : null;
+    let query = restrictToPilots(
+      supabase.from('flight_requests').select('status, priority, request_type'),
+      pilotIds
+    );
 
     if (filters.pilot_id) {
       query = query.eq('pilot_id', filters.pilot_id);
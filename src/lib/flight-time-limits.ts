@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Flight Time Limitations Engine
+ * Rolling 7/28/365-day flight (block) and duty time totals and rest between duties,
+ * checked against the configurable limits in the ftl_limits setting. Used for the
+ * dashboard watchlist and to refuse flight request approvals that would breach a limit.
+ * Times are ISO 8601; values without an offset are treated as UTC.
+ * Pure functions - data access lives in flight-duty-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface FtlLimits {
+  maxFlightHours7Days: number;
+  maxFlightHours28Days: number;
+  maxFlightHours365Days: number;
+  maxDutyHours7Days: number;
+  maxDutyHours28Days: number;
+  minRestHours: number;
+  /** Share of a limit (%) at which a pilot is reported as approaching it */
+  warningPercent: number;
+}
+
+export const DEFAULT_FTL_LIMITS: FtlLimits = {
+  maxFlightHours7Days: 30,
+  maxFlightHours28Days: 100,
+  maxFlightHours365Days: 1000,
+  maxDutyHours7Days: 60,
+  maxDutyHours28Days: 190,
+  minRestHours: 10,
+  warningPercent: 90,
+};
+
+export type FtlLimitKey = Exclude<keyof FtlLimits, 'minRestHours' | 'warningPercent'>;
+export type FtlLevel = 'OK' | 'WARNING' | 'EXCEEDED';
+
+interface FtlWindow {
+  key: FtlLimitKey;
+  kind: 'flight' | 'duty';
+  days: number;
+  label: string;
+}
+
+const FTL_WINDOWS: FtlWindow[] = [
+  { key: 'maxFlightHours7Days', kind: 'flight', days: 7, label: 'Flight time (7 days)' },
+  { key: 'maxFlightHours28Days', kind: 'flight', days: 28, label: 'Flight time (28 days)' },
+  { key: 'maxFlightHours365Days', kind: 'flight', days: 365, label: 'Flight time (365 days)' },
+  { key: 'maxDutyHours7Days', kind: 'duty', days: 7, label: 'Duty time (7 days)' },
+  { key: 'maxDutyHours28Days', kind: 'duty', days: 28, label: 'Duty time (28 days)' },
+];
+
+export interface FtlSector {
+  blockOff: string;
+  blockOn: string;
+}
+
+export interface FtlDuty {
+  id?: string;
+  start: string;
+  end: string;
+  sectors: FtlSector[];
+}
+
+export interface FtlTotal {
+  key: FtlLimitKey;
+  label: string;
+  kind: 'flight' | 'duty';
+  days: number;
+  usedHours: number;
+  limitHours: number;
+  percent: number;
+  level: FtlLevel;
+}
+
+export interface FtlStatus {
+  asOf: string;
+  totals: FtlTotal[];
+  /** Rest before the most recent duty, in hours */
+  lastRestHours: number | null;
+  level: FtlLevel;
+}
+
+export interface FtlAssessment {
+  allowed: boolean;
+  violations: string[];
+  warnings: string[];
+  /** Highest totals reached in any rolling window containing the proposed duty */
+  totals: FtlTotal[];
+}
+
+/**
+ * Parse an ISO timestamp, treating values without an offset as UTC
+ */
+export function parseUtc(value: string): number {
+  const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+  const normalized = value.trim().replace(' ', 'T');
+  if (/^\d{4}-\d{2}-\d{2}$/.test(normalized)) {
+    return new Date(`${normalized}T00:00:00Z`).getTime();
+  }
+  return new Date(hasOffset ? normalized : `${normalized}Z`).getTime();
+}
+
+/**
+ * Fill in missing or invalid limit values from the defaults
+ */
+export function normalizeFtlLimits(value: unknown): FtlLimits {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const limits = { ...DEFAULT_FTL_LIMITS };
+
+  for (const key of Object.keys(DEFAULT_FTL_LIMITS) as (keyof FtlLimits)[]) {
+    const candidate = stored[key];
+    if (typeof candidate === 'number' && Number.isFinite(candidate) && candidate > 0) {
+      limits[key] = candidate;
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Block time of a duty in minutes
+ */
+export function dutyBlockMinutes(duty: FtlDuty): number {
+  return Math.round(
+    duty.sectors.reduce((sum, s) => sum + (parseUtc(s.blockOn) - parseUtc(s.blockOff)), 0) /
+      60000
+  );
+}
+
+function overlapMs(start: number, end: number, windowStart: number, windowEnd: number): number {
+  return Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function worstLevel(levels: FtlLevel[]): FtlLevel {
+  if (levels.includes('EXCEEDED')) return 'EXCEEDED';
+  return levels.includes('WARNING') ? 'WARNING' : 'OK';
+}
+
+/**
+ * Hours flown / on duty in the window of `days` ending at `at` (ms)
+ * Intervals crossing the window boundary only count the part inside it.
+ */
+function usedInWindow(duties: FtlDuty[], window: FtlWindow, at: number): number {
+  const windowStart = at - window.days * DAY_MS;
+  let ms = 0;
+
+  for (const duty of duties) {
+    if (window.kind === 'duty') {
+      ms += overlapMs(parseUtc(duty.start), parseUtc(duty.end), windowStart, at);
+    } else {
+      for (const sector of duty.sectors) {
+        ms += overlapMs(parseUtc(sector.blockOff), parseUtc(sector.blockOn), windowStart, at);
+      }
+    }
+  }
+
+  return ms / HOUR_MS;
+}
+
+function buildTotal(window: FtlWindow, usedHours: number, limits: FtlLimits): FtlTotal {
+  const limitHours = limits[window.key];
+  const percent = limitHours > 0 ? (usedHours / limitHours) * 100 : 0;
+  let level: FtlLevel = 'OK';
+  if (usedHours > limitHours) level = 'EXCEEDED';
+  else if (percent >= limits.warningPercent) level = 'WARNING';
+
+  return {
+    key: window.key,
+    label: window.label,
+    kind: window.kind,
+    days: window.days,
+    usedHours: round1(usedHours),
+    limitHours,
+    percent: Math.round(percent),
+    level,
+  };
+}
+
+/**
+ * Rolling totals for a pilot at a point in time
+ */
+export function computeFtlStatus(duties: FtlDuty[], limits: FtlLimits, asOf: Date): FtlStatus {
+  const at = asOf.getTime();
+  const totals = FTL_WINDOWS.map((window) =>
+    buildTotal(window, usedInWindow(duties, window, at), limits)
+  );
+
+  const past = duties
+    .filter((duty) => parseUtc(duty.start) <= at)
+    .sort((a, b) => parseUtc(a.start) - parseUtc(b.start));
+  const last = past[past.length - 1];
+  const previous = past[past.length - 2];
+  const lastRestHours =
+    last && previous ? round1((parseUtc(last.start) - parseUtc(previous.end)) / HOUR_MS) : null;
+
+  return {
+    asOf: asOf.toISOString(),
+    totals,
+    lastRestHours,
+    level: worstLevel(totals.map((total) => total.level)),
+  };
+}
+
+/**
+ * Check whether adding a duty to a pilot's record would breach a limit
+ * Every rolling window that contains part of the proposed duty is checked, including
+ * windows ending at duties already logged or planned after it, plus rest before and after.
+ */
+export function assessProposedDuty(
+  duties: FtlDuty[],
+  proposed: FtlDuty,
+  limits: FtlLimits
+): FtlAssessment {
+  const start = parseUtc(proposed.start);
+  const end = parseUtc(proposed.end);
+  const violations: string[] = [];
+  const warnings: string[] = [];
+
+  if (!(end > start)) {
+    return { allowed: false, violations: ['Duty end must be after duty start'], warnings, totals: [] };
+  }
+
+  const others = duties.filter((duty) => !proposed.id || duty.id !== proposed.id);
+  const overlapping = others.find(
+    (duty) => parseUtc(duty.start) < end && parseUtc(duty.end) > start
+  );
+  if (overlapping) {
+    violations.push(
+      `Overlaps an existing duty (${overlapping.start} to ${overlapping.end})`
+    );
+  }
+
+  const combined = [...others, proposed];
+  const totals = FTL_WINDOWS.map((window) => {
+    const horizon = start + window.days * DAY_MS;
+    const evaluationPoints = [
+      end,
+      ...others.map((duty) => parseUtc(duty.end)).filter((at) => at > end && at < horizon),
+    ];
+    const used = Math.max(...evaluationPoints.map((at) => usedInWindow(combined, window, at)));
+    return buildTotal(window, used, limits);
+  });
+
+  for (const total of totals) {
+    if (total.level === 'EXCEEDED') {
+      violations.push(`${total.label}: ${total.usedHours}h exceeds the ${total.limitHours}h limit`);
+    } else if (total.level === 'WARNING') {
+      warnings.push(`${total.label}: ${total.usedHours}h of ${total.limitHours}h`);
+    }
+  }
+
+  const previousEnd = Math.max(
+    -Infinity,
+    ...others.map((duty) => parseUtc(duty.end)).filter((at) => at <= start)
+  );
+  const nextStart = Math.min(
+    Infinity,
+    ...others.map((duty) => parseUtc(duty.start)).filter((at) => at >= end)
+  );
+  const restBefore = (start - previousEnd) / HOUR_MS;
+  const restAfter = (nextStart - end) / HOUR_MS;
+
+  if (restBefore < limits.minRestHours) {
+    violations.push(
+      `Only ${round1(restBefore)}h rest before the duty (minimum ${limits.minRestHours}h)`
+    );
+  }
+  if (restAfter < limits.minRestHours) {
+    violations.push(
+      `Only ${round1(restAfter)}h rest before the next duty (minimum ${limits.minRestHours}h)`
+    );
+  }
+
+  return { allowed: violations.length === 0, violations, warnings, totals };
+}
+
+/**
+ * Limits already reached at a point in time - any further flying would breach them
+ */
+export function limitsReached(status: FtlStatus): string[] {
+  return status.totals
+    .filter((total) => total.usedHours >= total.limitHours)
+    .map((total) => `${total.label}: ${total.usedHours}h already at the ${total.limitHours}h limit`);
+}
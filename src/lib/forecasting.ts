@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Forecasting Models
+ * Statistical models behind /api/analytics/forecasts:
+ * - certifications: deterministic projection of known expiry dates
+ * - leave: seasonal model of leave demand per roster period number, with a Student-t
+ *   prediction interval from the spread of past periods with the same number
+ * - compliance: projected share of valid certifications, bounded by "nothing renewed"
+ *   and "everything renewed on time", weighted by the observed renewal rate
+ * Every value is derived from the data; when there is not enough data the prediction
+ * is null rather than estimated. Pure functions - data loading lives in the route.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  addMonths,
+  differenceInDays,
+  endOfMonth,
+  format,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfMonth,
+} from 'date-fns';
+
+export type ForecastMetric = 'certifications' | 'leave' | 'compliance';
+
+export interface ForecastPoint {
+  label: string;
+  startDate: string;
+  endDate: string;
+  /** null when the data does not support a prediction */
+  predicted: number | null;
+  lower: number | null;
+  upper: number | null;
+  /** Number of historical observations behind the prediction */
+  observations: number;
+}
+
+export interface HistoryPoint {
+  label: string;
+  startDate: string;
+  endDate: string;
+  actual: number;
+}
+
+export interface ForecastResult {
+  metric: ForecastMetric;
+  method: string;
+  unit: string;
+  /** Coverage of the prediction intervals (null when the bounds are exact or scenario-based) */
+  confidenceLevel: number | null;
+  history: HistoryPoint[];
+  forecast: ForecastPoint[];
+  insufficientData: boolean;
+  notes: string[];
+}
+
+export interface ForecastBucket {
+  label: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface SeasonalBucket extends ForecastBucket {
+  /** Seasonal key, e.g. the roster period number */
+  season: number;
+}
+
+export interface LeaveDemandRecord {
+  startDate: string;
+  endDate: string;
+}
+
+export const CONFIDENCE_LEVEL = 0.95;
+
+/** Two-sided 95% Student-t critical values for 1-30 degrees of freedom */
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145,
+  2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048,
+  2.045, 2.042,
+];
+
+/**
+ * Two-sided 95% Student-t critical value
+ */
+export function tCritical(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) return Infinity;
+  return T_CRITICAL_95[Math.min(degreesOfFreedom, T_CRITICAL_95.length) - 1] ?? 1.96;
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Mean and sample standard deviation
+ */
+export function describe(values: number[]): { n: number; mean: number; sd: number } {
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((sum, value) => sum + value, 0) / n : 0;
+  const variance =
+    n > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1) : 0;
+  return { n, mean, sd: Math.sqrt(variance) };
+}
+
+/**
+ * Calendar months from the month after `today`
+ */
+export function monthlyBuckets(today: Date, months: number): ForecastBucket[] {
+  return Array.from({ length: months }, (_, index) => {
+    const start = startOfMonth(addMonths(today, index + 1));
+    return {
+      label: format(start, 'MMM yyyy'),
+      startDate: format(start, 'yyyy-MM-dd'),
+      endDate: format(endOfMonth(start), 'yyyy-MM-dd'),
+    };
+  });
+}
+
+/**
+ * Known expiries per bucket - exact, so the interval collapses onto the prediction
+ */
+export function projectKnownExpiries(
+  expiryDates: (string | null)[],
+  buckets: ForecastBucket[]
+): ForecastPoint[] {
+  return buckets.map((bucket) => {
+    const count = expiryDates.filter(
+      (date) => date !== null && date >= bucket.startDate && date <= bucket.endDate
+    ).length;
+    return { ...bucket, predicted: count, lower: count, upper: count, observations: count };
+  });
+}
+
+/**
+ * Requested leave days that fall inside a bucket (requests are clipped to the bucket)
+ */
+export function leaveDaysInBucket(requests: LeaveDemandRecord[], bucket: ForecastBucket): number {
+  const bucketStart = parseISO(bucket.startDate);
+  const bucketEnd = parseISO(bucket.endDate);
+
+  return requests.reduce((days, request) => {
+    const start = maxDate([parseISO(request.startDate), bucketStart]);
+    const end = minDate([parseISO(request.endDate), bucketEnd]);
+    return end < start ? days : days + differenceInDays(end, start) + 1;
+  }, 0);
+}
+
+/**
+ * Seasonal forecast: each target is predicted from past buckets with the same season.
+ * The interval is mean ± t · s · √(1 + 1/n). With a single past value the spread is
+ * taken from the pooled within-season variance; with none there is no prediction.
+ */
+export function forecastSeasonalDemand(
+  history: (HistoryPoint & { season: number })[],
+  targets: SeasonalBucket[]
+): ForecastPoint[] {
+  const bySeason = new Map<number, number[]>();
+  for (const point of history) {
+    bySeason.set(point.season, [...(bySeason.get(point.season) || []), point.actual]);
+  }
+
+  // Pooled within-season variance across seasons with at least two observations
+  let pooledSquares = 0;
+  let pooledDf = 0;
+  bySeason.forEach((values) => {
+    if (values.length < 2) return;
+    const { mean } = describe(values);
+    pooledSquares += values.reduce((sum, value) => sum + (value - mean) ** 2, 0);
+    pooledDf += values.length - 1;
+  });
+  const pooledSd = pooledDf > 0 ? Math.sqrt(pooledSquares / pooledDf) : null;
+
+  return targets.map(({ season, ...bucket }) => {
+    const values = bySeason.get(season) || [];
+    const { n, mean, sd } = describe(values);
+
+    if (n === 0) {
+      return { ...bucket, predicted: null, lower: null, upper: null, observations: 0 };
+    }
+
+    const spread = n >= 2 ? sd : pooledSd;
+    const df = n >= 2 ? n - 1 : pooledDf;
+    if (spread === null) {
+      return { ...bucket, predicted: round(mean), lower: null, upper: null, observations: n };
+    }
+
+    const margin = tCritical(df) * spread * Math.sqrt(1 + 1 / n);
+    return {
+      ...bucket,
+      predicted: round(mean),
+      lower: round(Math.max(0, mean - margin)),
+      upper: round(mean + margin),
+      observations: n,
+    };
+  });
+}
+
+/**
+ * Share of due certifications renewed rather than lapsed, or null without data
+ */
+export function estimateRenewalRate(renewed: number, lapsed: number): number | null {
+  return renewed + lapsed > 0 ? renewed / (renewed + lapsed) : null;
+}
+
+/**
+ * Compliance (% of certifications valid at the end of each bucket)
+ * lower = nothing is renewed, upper = everything due is renewed on time (today's rate),
+ * predicted = lower + renewalRate · (upper - lower).
+ */
+export function projectCompliance(
+  expiryDates: (string | null)[],
+  today: string,
+  buckets: ForecastBucket[],
+  renewalRate: number | null
+): ForecastPoint[] {
+  const total = expiryDates.length;
+  const validOn = (date: string) =>
+    expiryDates.filter((expiry) => expiry !== null && expiry >= date).length;
+  const current = total > 0 ? (validOn(today) / total) * 100 : null;
+
+  return buckets.map((bucket) => {
+    if (current === null) {
+      return { ...bucket, predicted: null, lower: null, upper: null, observations: 0 };
+    }
+
+    const lower = (validOn(bucket.endDate) / total) * 100;
+    return {
+      ...bucket,
+      predicted: renewalRate === null ? null : round(lower + renewalRate * (current - lower)),
+      lower: round(lower),
+      upper: round(current),
+      observations: total,
+    };
+  });
+}
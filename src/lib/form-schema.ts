@@ -0,0 +1,485 @@
+/**
+ * @fileoverview Digital Form Schemas
+ * Typed format for digital form definitions (fields, validation rules,
+ * conditional visibility and auto-fill from the associated pilot), the zod
+ * validation a submission is checked against, and the approval chain a
+ * submission moves through.
+ * Pure functions - data access lives in document-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { z } from 'zod';
+
+export const FORM_FIELD_TYPES = [
+  'text',
+  'textarea',
+  'number',
+  'email',
+  'date',
+  'datetime',
+  'select',
+  'radio',
+  'checkbox',
+] as const;
+
+export const CONDITION_OPERATORS = ['equals', 'not_equals', 'in', 'filled'] as const;
+
+export const APPROVER_ROLES = ['admin', 'manager'] as const;
+
+/** Pilot columns a field can be filled from, with their builder labels */
+export const PILOT_AUTOFILL_SOURCES = {
+  full_name: 'Full name',
+  first_name: 'First name',
+  last_name: 'Last name',
+  employee_id: 'Employee ID',
+  role: 'Rank',
+  seniority_number: 'Seniority number',
+  nationality: 'Nationality',
+  date_of_birth: 'Date of birth',
+  commencement_date: 'Commencement date',
+  contract_type: 'Contract type',
+} as const;
+
+export type FormFieldType = (typeof FORM_FIELD_TYPES)[number];
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+export type ApproverRole = (typeof APPROVER_ROLES)[number];
+export type PilotAutofillSource = keyof typeof PILOT_AUTOFILL_SOURCES;
+export type FormValues = Record<string, unknown>;
+
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  /** Compared value; a list for 'in', unused for 'filled' */
+  value?: string | string[];
+}
+
+export interface FieldValidation {
+  /** Smallest and largest value of a number field */
+  min?: number;
+  max?: number;
+  /** Length limits of a text field */
+  min_length?: number;
+  max_length?: number;
+  /** Regular expression a text field must match */
+  pattern?: string;
+  pattern_message?: string;
+}
+
+export interface FormField {
+  name: string;
+  type: FormFieldType;
+  label: string;
+  required: boolean;
+  /** Choices of a select or radio field */
+  options?: string[];
+  placeholder?: string;
+  help_text?: string;
+  validation?: FieldValidation;
+  /** Shown only when every condition holds; hidden fields are neither validated nor stored */
+  visible_when?: FieldCondition[];
+  /** Taken from the associated pilot's record instead of being entered */
+  autofill?: PilotAutofillSource;
+}
+
+export interface ApprovalStep {
+  name: string;
+  roles: ApproverRole[];
+}
+
+export interface FormSchema {
+  fields: FormField[];
+  /** Approvals in order; empty means a single approval by admin or manager */
+  approval_steps: ApprovalStep[];
+}
+
+export interface ApprovalRecord {
+  step: number;
+  name: string;
+  decision: 'approved' | 'rejected';
+  by: string;
+  at: string;
+  comment: string | null;
+}
+
+export type FormSubmissionStatus = 'pending' | 'approved' | 'rejected' | 'completed';
+
+/** Used when a form requires approval but defines no steps */
+export const DEFAULT_APPROVAL_STEP: ApprovalStep = {
+  name: 'Approval',
+  roles: ['admin', 'manager'],
+};
+
+const FIELD_NAME = /^[a-z][a-z0-9_]*$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?/;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const finite = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/** Properties of a stored object, or none when the value is not an object */
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  (values as readonly unknown[]).includes(value);
+
+const isAutofillSource = (value: unknown): value is PilotAutofillSource =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PILOT_AUTOFILL_SOURCES, value);
+
+const strings = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    : [];
+
+const compiles = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+function normalizeValidation(value: unknown): FieldValidation | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const stored = record(value);
+  const validation: FieldValidation = {
+    min: finite(stored.min),
+    max: finite(stored.max),
+    min_length: finite(stored.min_length),
+    max_length: finite(stored.max_length),
+    pattern:
+      typeof stored.pattern === 'string' && stored.pattern && compiles(stored.pattern)
+        ? stored.pattern
+        : undefined,
+    pattern_message:
+      typeof stored.pattern_message === 'string' && stored.pattern_message
+        ? stored.pattern_message
+        : undefined,
+  };
+  const defined = Object.entries(validation).filter(([, v]) => v !== undefined);
+  return defined.length > 0 ? (Object.fromEntries(defined) as FieldValidation) : undefined;
+}
+
+function normalizeConditions(value: unknown, earlier: Set<string>): FieldCondition[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const conditions = value
+    .filter(
+      (condition) =>
+        condition &&
+        earlier.has(condition.field) &&
+        (CONDITION_OPERATORS as readonly string[]).includes(condition.operator)
+    )
+    .map((condition) => ({
+      field: condition.field as string,
+      operator: condition.operator as ConditionOperator,
+      ...(condition.operator === 'filled'
+        ? {}
+        : {
+            value:
+              condition.operator === 'in'
+                ? strings(condition.value)
+                : String(condition.value ?? ''),
+          }),
+    }));
+  return conditions.length > 0 ? conditions : undefined;
+}
+
+/**
+ * Read a stored form schema, including the original `{ fields }` format, keeping
+ * only well-formed fields, conditions on fields above them and valid approval steps
+ */
+export function normalizeFormSchema(value: unknown): FormSchema {
+  const stored = record(value);
+  const fields: FormField[] = [];
+  const names = new Set<string>();
+
+  for (const field of (Array.isArray(stored.fields) ? stored.fields : []).map(record)) {
+    if (typeof field.name !== 'string' || !FIELD_NAME.test(field.name) || names.has(field.name)) {
+      continue;
+    }
+    if (!isOneOf(FORM_FIELD_TYPES, field.type)) continue;
+
+    const options = strings(field.options);
+    if ((field.type === 'select' || field.type === 'radio') && options.length === 0) continue;
+
+    const normalized: FormField = {
+      name: field.name,
+      type: field.type,
+      label: typeof field.label === 'string' && field.label.trim() ? field.label : field.name,
+      required: field.required === true,
+    };
+    if (field.type === 'select' || field.type === 'radio') normalized.options = options;
+    if (typeof field.placeholder === 'string' && field.placeholder) {
+      normalized.placeholder = field.placeholder;
+    }
+    if (typeof field.help_text === 'string' && field.help_text) {
+      normalized.help_text = field.help_text;
+    }
+    const validation = normalizeValidation(field.validation);
+    if (validation) normalized.validation = validation;
+    const conditions = normalizeConditions(field.visible_when, names);
+    if (conditions) normalized.visible_when = conditions;
+    if (isAutofillSource(field.autofill)) normalized.autofill = field.autofill;
+
+    fields.push(normalized);
+    names.add(field.name);
+  }
+
+  const approval_steps = (Array.isArray(stored.approval_steps) ? stored.approval_steps : [])
+    .map(record)
+    .map((step) => ({
+      name: typeof step.name === 'string' ? step.name.trim() : '',
+      roles: strings(step.roles).filter((role): role is ApproverRole =>
+        isOneOf(APPROVER_ROLES, role)
+      ),
+    }))
+    .filter((step: ApprovalStep) => step.name && step.roles.length > 0);
+
+  return { fields, approval_steps };
+}
+
+/**
+ * Problems with a form definition from the builder, or none when it can be saved
+ */
+export function validateFormDefinition(schema: FormSchema): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  if (schema.fields.length === 0) errors.push('A form needs at least one field');
+
+  for (const field of schema.fields) {
+    const label = field.label?.trim() || field.name;
+    if (!FIELD_NAME.test(field.name)) {
+      errors.push(
+        `Field name "${field.name}" must start with a letter and use only lowercase letters, numbers and underscores`
+      );
+    } else if (names.has(field.name)) {
+      errors.push(`Field name "${field.name}" is used more than once`);
+    }
+    if (!field.label?.trim()) errors.push(`Field "${field.name}" needs a label`);
+    if (
+      (field.type === 'select' || field.type === 'radio') &&
+      strings(field.options).length === 0
+    ) {
+      errors.push(`"${label}" needs at least one option`);
+    }
+    if (field.validation?.pattern && !compiles(field.validation.pattern)) {
+      errors.push(`"${label}" has an invalid pattern`);
+    }
+    if (field.visible_when?.some((condition) => !names.has(condition.field))) {
+      errors.push(`"${label}" can only depend on fields above it`);
+    }
+    names.add(field.name);
+  }
+
+  schema.approval_steps.forEach((step, index) => {
+    if (!step.name.trim()) errors.push(`Approval step ${index + 1} needs a name`);
+    if (step.roles.length === 0) errors.push(`Approval step ${index + 1} needs at least one role`);
+  });
+
+  return errors;
+}
+
+function conditionHolds(condition: FieldCondition, values: FormValues): boolean {
+  const value = values[condition.field];
+  const text = isEmpty(value) ? '' : String(value);
+
+  switch (condition.operator) {
+    case 'filled':
+      return text !== '' && value !== false;
+    case 'equals':
+      return text === condition.value;
+    case 'not_equals':
+      return text !== condition.value;
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.includes(text);
+  }
+}
+
+/**
+ * Fields shown for the entered values. A condition on a hidden field sees it as empty.
+ */
+export function visibleFields(schema: FormSchema, values: FormValues): FormField[] {
+  const shown: FormValues = {};
+
+  return schema.fields.filter((field) => {
+    const visible = (field.visible_when || []).every((condition) =>
+      conditionHolds(condition, shown)
+    );
+    if (visible) shown[field.name] = values[field.name];
+    return visible;
+  });
+}
+
+/**
+ * zod schema for a filled-in value of a field
+ */
+function fieldValueSchema(field: FormField): z.ZodType {
+  const { label, validation = {} } = field;
+
+  switch (field.type) {
+    case 'number': {
+      let number = z.coerce.number({ message: `${label} must be a number` });
+      if (validation.min !== undefined) {
+        number = number.min(validation.min, `${label} must be at least ${validation.min}`);
+      }
+      if (validation.max !== undefined) {
+        number = number.max(validation.max, `${label} must be at most ${validation.max}`);
+      }
+      return number;
+    }
+    case 'email':
+      return z.email(`${label} must be a valid email address`);
+    case 'date':
+      return z.string().regex(DATE, `${label} must be a date`);
+    case 'datetime':
+      return z.string().regex(DATETIME, `${label} must be a date and time`);
+    case 'select':
+    case 'radio':
+      return z.enum(field.options || [], `${label} must be one of: ${field.options?.join(', ')}`);
+    case 'checkbox':
+      return field.required
+        ? z.literal(true, `${label} must be checked`)
+        : z.boolean(`${label} must be checked or unchecked`);
+    default: {
+      let text = z.string(`${label} must be text`).trim();
+      if (validation.min_length !== undefined) {
+        text = text.min(
+          validation.min_length,
+          `${label} must be at least ${validation.min_length} characters`
+        );
+      }
+      if (validation.max_length !== undefined) {
+        text = text.max(
+          validation.max_length,
+          `${label} must be at most ${validation.max_length} characters`
+        );
+      }
+      if (validation.pattern) {
+        text = text.regex(
+          new RegExp(validation.pattern),
+          validation.pattern_message || `${label} is not in the expected format`
+        );
+      }
+      return text;
+    }
+  }
+}
+
+/**
+ * zod schema for the form data of a submission. Only visible fields are checked
+ * and kept, so the parsed data never carries answers to hidden questions.
+ */
+export function formDataSchema(schema: FormSchema) {
+  return z.record(z.string(), z.unknown()).transform((values, ctx) => {
+    const data: FormValues = {};
+
+    for (const field of visibleFields(schema, values)) {
+      const value = values[field.name];
+      if (isEmpty(value) || (field.type === 'checkbox' && value === false && !field.required)) {
+        if (field.required) {
+          ctx.addIssue({
+            code: 'custom',
+            path: [field.name],
+            message: `${field.label} is required`,
+          });
+        } else if (field.type === 'checkbox') {
+          data[field.name] = false;
+        }
+        continue;
+      }
+
+      const result = fieldValueSchema(field).safeParse(value);
+      if (result.success) {
+        data[field.name] = result.data;
+      } else {
+        ctx.addIssue({
+          code: 'custom',
+          path: [field.name],
+          message: result.error.issues[0]?.message || `${field.label} is invalid`,
+        });
+      }
+    }
+
+    return data;
+  });
+}
+
+/**
+ * First problem with each field of the entered values, keyed by field name
+ */
+export function formDataErrors(schema: FormSchema, values: FormValues): Record<string, string> {
+  const result = formDataSchema(schema).safeParse(values);
+  if (result.success) return {};
+
+  const errors: Record<string, string> = {};
+  for (const issue of result.error.issues) {
+    const name = String(issue.path[0]);
+    if (!errors[name]) errors[name] = issue.message;
+  }
+  return errors;
+}
+
+/**
+ * Values of the auto-filled fields from the associated pilot's record
+ */
+export function pilotAutofill(
+  schema: FormSchema,
+  pilot: Record<string, unknown> | null | undefined
+): FormValues {
+  if (!pilot) return {};
+  const values: FormValues = {};
+
+  for (const field of schema.fields) {
+    if (!field.autofill) continue;
+    const value =
+      field.autofill === 'full_name'
+        ? `${pilot.first_name ?? ''} ${pilot.last_name ?? ''}`.trim()
+        : pilot[field.autofill];
+    if (!isEmpty(value)) values[field.name] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Approval steps a submission of the form moves through, in order
+ */
+export function approvalChain(schema: FormSchema, requiresApproval: boolean): ApprovalStep[] {
+  if (!requiresApproval) return [];
+  return schema.approval_steps.length > 0 ? schema.approval_steps : [DEFAULT_APPROVAL_STEP];
+}
+
+/**
+ * Outcome of approving or rejecting the current step of a submission: its new
+ * status and step, or why the role cannot decide it
+ */
+export function approvalDecision(
+  chain: ApprovalStep[],
+  currentStep: number,
+  decision: ApprovalRecord['decision'],
+  role: string
+): { errors: string[]; status: FormSubmissionStatus; step: number } {
+  const step = chain[currentStep];
+  const unchanged = { status: 'pending' as const, step: currentStep };
+
+  if (chain.length === 0) return { ...unchanged, errors: ['This form does not need approval'] };
+  if (!step) return { ...unchanged, errors: ['All approval steps are complete'] };
+  if (!step.roles.includes(role as ApproverRole)) {
+    return {
+      ...unchanged,
+      errors: [`Only ${step.roles.join(' or ')} can decide the "${step.name}" step`],
+    };
+  }
+
+  if (decision === 'rejected') return { errors: [], status: 'rejected', step: currentStep };
+  const next = currentStep + 1;
+  return { errors: [], status: next >= chain.length ? 'approved' : 'pending', step: next };
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Global Search Service
+ * Ranked, highlighted search across pilots, check types, documents, tasks,
+ * disciplinary matters and feedback posts through the search_records() database
+ * function, limited to the record types the user's role may see and, for
+ * pilot-linked records, to the pilots in the user's data scope.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import type { RBACService } from '@/lib/rbac';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds } from '@/lib/data-scope-service';
+import {
+  normalizeSearchQuery,
+  searchFacets,
+  searchResultPath,
+  searchableTypes,
+  type SearchEntityType,
+  type SearchResponse,
+} from '@/lib/global-search';
+
+interface SearchRecordRow {
+  entity_type: SearchEntityType;
+  entity_id: string;
+  title: string;
+  subtitle: string | null;
+  headline: string | null;
+  rank: number;
+  type_total: number;
+}
+
+/**
+ * Search every record type the user may see (or the requested subset), returning
+ * up to `limit` results per type and a facet with the match count of each type.
+ * Pilots, disciplinary matters, and documents and tasks linked to a pilot are
+ * limited to the pilots in scope. Queries shorter than two characters return
+ * no results.
+ */
+export async function globalSearch(
+  query: string,
+  access: RBACService,
+  scope: DataScope,
+  options: { types?: string[]; limit?: number } = {}
+): Promise<SearchResponse> {
+  const normalized = normalizeSearchQuery(query);
+  const types = searchableTypes(access, options.types);
+
+  if (!normalized || types.length === 0) {
+    return { query: normalized || '', results: [], facets: [] };
+  }
+
+  const pilotIds = await getScopedPilotIds(scope);
+  const { data, error } = await getSupabaseAdmin().rpc('search_records', {
+    search_query: normalized,
+    entity_types: types,
+    result_limit: options.limit ?? 5,
+    pilot_ids: pilotIds,
+  });
+
+  if (error) {
+    logger.error('Error running global search:', error);
+    throw new Error('Search failed');
+  }
+
+  const rows = (data || []) as SearchRecordRow[];
+  const totals: Partial<Record<SearchEntityType, number>> = {};
+  for (const row of rows) totals[row.entity_type] = Number(row.type_total);
+
+  return {
+    query: normalized,
+    results: rows.map((row) => ({
+      type: row.entity_type,
+      id: row.entity_id,
+      title: row.title,
+      subtitle: row.subtitle,
+      headline: row.headline,
+      rank: Number(row.rank),
+      path: searchResultPath(row.entity_type, row.entity_id),
+    })),
+    facets: searchFacets(totals),
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Global Search Rules
+ * Which record types a user may search, the page each result opens, query
+ * normalisation and splitting of highlighted headlines returned by the
+ * search_records() database function.
+ * Pure functions - data access lives in global-search-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { Permission } from './rbac';
+
+export const SEARCH_ENTITY_TYPES = [
+  'pilot',
+  'check_type',
+  'document',
+  'task',
+  'disciplinary_matter',
+  'feedback_post',
+] as const;
+
+export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
+  pilot: 'Pilots',
+  check_type: 'Check Types',
+  document: 'Documents',
+  task: 'Tasks',
+  disciplinary_matter: 'Disciplinary Matters',
+  feedback_post: 'Feedback',
+};
+
+/** Permission needed to see results of each type */
+export const SEARCH_ENTITY_PERMISSIONS: Record<SearchEntityType, Permission> = {
+  pilot: 'pilot:read',
+  check_type: 'certification:read',
+  document: 'documents:read',
+  task: 'tasks:read',
+  disciplinary_matter: 'disciplinary:read',
+  feedback_post: 'feedback:moderate',
+};
+
+export const SEARCH_QUERY_MIN_LENGTH = 2;
+export const SEARCH_QUERY_MAX_LENGTH = 100;
+
+/** Start and end of a highlighted term in a headline (see search_records) */
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_END = '\u0002';
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  headline: string | null;
+  rank: number;
+  path: string;
+}
+
+export interface SearchFacet {
+  type: SearchEntityType;
+  label: string;
+  count: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+  facets: SearchFacet[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Trim and collapse whitespace; returns null when the query is too short to search.
+ * Long queries are cut at SEARCH_QUERY_MAX_LENGTH.
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string | null {
+  const normalized = (query || '').replace(/\s+/g, ' ').trim().slice(0, SEARCH_QUERY_MAX_LENGTH);
+  return normalized.length >= SEARCH_QUERY_MIN_LENGTH ? normalized : null;
+}
+
+/**
+ * Record types the user may search, narrowed to the requested types when given.
+ * Unknown requested types are ignored.
+ */
+export function searchableTypes(
+  access: { hasPermission(permission: Permission): boolean },
+  requested?: string[] | null
+): SearchEntityType[] {
+  return SEARCH_ENTITY_TYPES.filter((type) => {
+    if (requested && requested.length > 0 && !requested.includes(type)) return false;
+    return access.hasPermission(SEARCH_ENTITY_PERMISSIONS[type]);
+  });
+}
+
+/**
+ * Dashboard page a search result opens
+ */
+export function searchResultPath(type: SearchEntityType, id: string): string {
+  switch (type) {
+    case 'pilot':
+      return `/dashboard/pilots/${id}`;
+    case 'check_type':
+      return '/dashboard/certifications/calendar';
+    case 'document':
+      return '/dashboard/documents';
+    case 'task':
+      return `/dashboard/tasks/${id}`;
+    case 'disciplinary_matter':
+      return '/dashboard/disciplinary';
+    case 'feedback_post':
+      return '/dashboard/admin/feedback-moderation';
+  }
+}
+
+/**
+ * Split a headline into plain and highlighted segments for rendering.
+ * Empty segments are dropped and an unclosed highlight runs to the end.
+ */
+export function highlightSegments(headline: string | null | undefined): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of headline || '') {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (text) segments.push({ text, highlighted });
+      text = '';
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      text += char;
+    }
+  }
+  if (text) segments.push({ text, highlighted });
+
+  return segments;
+}
+
+/**
+ * One facet per type that had matches, in SEARCH_ENTITY_TYPES order
+ */
+export function searchFacets(totals: Partial<Record<SearchEntityType, number>>): SearchFacet[] {
+  return SEARCH_ENTITY_TYPES.filter((type) => (totals[type] || 0) > 0).map((type) => ({
+    type,
+    label: SEARCH_ENTITY_LABELS[type],
+    count: totals[type] || 0,
+  }));
+}
@@ -0,0 +1,249 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) Utilities
+ * Builds all-day VEVENT calendars with reminder alarms for subscription feeds and
+ * parses calendar files uploaded for import. Pure functions; no database access.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+export const ICS_PRODUCT_ID = '-//Air Niugini//B767 Pilot Management System//EN';
+
+export interface IcsAlarm {
+  /** Days before the event start the reminder fires */
+  daysBefore: number;
+  description: string;
+}
+
+export interface IcsEvent {
+  /** Stable across feed refreshes so calendar clients update rather than duplicate */
+  uid: string;
+  summary: string;
+  description?: string;
+  /** First day (yyyy-MM-dd); events are all-day */
+  start: string;
+  /** Last day inclusive (yyyy-MM-dd); defaults to start */
+  end?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  categories?: string[];
+  alarms?: IcsAlarm[];
+}
+
+export interface ParsedIcsEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  /** First day (yyyy-MM-dd) */
+  start: string;
+  /** Last day inclusive (yyyy-MM-dd) */
+  end: string;
+  categories: string[];
+}
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Splits a content line into 75-octet chunks; continuation lines start with a space
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+const toIcsDate = (date: string) => date.replace(/-/g, '');
+
+const toIcsTimestamp = (date: Date) => `${date.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+
+/**
+ * Serialises events as a VCALENDAR. DTEND is exclusive for all-day events, so it
+ * is the day after the inclusive end date.
+ */
+export function buildCalendar(
+  name: string,
+  events: IcsEvent[],
+  options: { now?: Date; refreshHours?: number } = {}
+): string {
+  const stamp = toIcsTimestamp(options.now || new Date());
+  const refreshHours = options.refreshHours ?? 6;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refreshHours}H`,
+    `X-PUBLISHED-TTL:PT${refreshHours}H`,
+  ];
+
+  for (const event of events) {
+    const end = format(addDays(parseISO(event.end || event.start), 1), 'yyyy-MM-dd');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.start)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+
+    for (const alarm of event.alarms || []) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:-P${alarm.daysBefore}D`,
+        `DESCRIPTION:${escapeText(alarm.description)}`,
+        'END:VALARM'
+      );
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * Reads the date part of a DATE or DATE-TIME value; date-times keep the wall-clock
+ * date they were written with
+ */
+function parseIcsDate(value: string): { date: string; hasTime: boolean; midnight: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    hasTime: hours !== undefined,
+    midnight: hours === '00' && minutes === '00' && seconds === '00',
+  };
+}
+
+/**
+ * Parses the VEVENTs of a calendar file into all-day date ranges. Events without a
+ * usable start date are reported as issues and skipped; recurrence rules are not
+ * expanded (only the first occurrence is imported).
+ */
+export function parseCalendar(content: string): { events: ParsedIcsEvent[]; issues: string[] } {
+  const events: ParsedIcsEvent[] = [];
+  const issues: string[] = [];
+
+  if (!/BEGIN:VCALENDAR/i.test(content)) {
+    return { events, issues: ['File is not an iCalendar (.ics) file'] };
+  }
+
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let current: Record<string, string> | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = {};
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    // Skip nested components such as VALARM
+    if (upper.startsWith('BEGIN:')) {
+      depth++;
+      continue;
+    }
+    if (upper.startsWith('END:') && depth > 0) {
+      depth--;
+      continue;
+    }
+    if (depth > 0) continue;
+
+    if (upper === 'END:VEVENT') {
+      const index = events.length + issues.length + 1;
+      const summary = unescapeText(current.SUMMARY || '').trim() || 'Untitled event';
+      const start = parseIcsDate(current.DTSTART || '');
+
+      if (!start) {
+        issues.push(`Event ${index} (${summary}) has no valid start date`);
+      } else {
+        const endValue = current.DTEND ? parseIcsDate(current.DTEND) : null;
+        let end = start.date;
+        if (endValue) {
+          // DATE ends and midnight DATE-TIME ends are exclusive
+          const exclusive = !endValue.hasTime || (endValue.midnight && endValue.date > start.date);
+          end = exclusive
+            ? format(addDays(parseISO(endValue.date), -1), 'yyyy-MM-dd')
+            : endValue.date;
+          if (end < start.date) end = start.date;
+        }
+
+        if (current.STATUS?.toUpperCase() === 'CANCELLED') {
+          issues.push(`Event ${index} (${summary}) is cancelled`);
+        } else {
+          events.push({
+            uid: current.UID || null,
+            summary,
+            description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION) : null,
+            start: start.date,
+            end,
+            categories: current.CATEGORIES
+              ? current.CATEGORIES.split(/(?<!\\),/).map((c) => unescapeText(c).trim())
+              : [],
+          });
+        }
+      }
+
+      current = null;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).split(';')[0]!.toUpperCase();
+    current[name] = line.slice(separator + 1);
+  }
+
+  return { events, issues };
+}
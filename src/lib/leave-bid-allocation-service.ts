@@ -0,0 +1,367 @@
+/**
+ * @fileoverview Leave Bid Allocation Service
+ * Loads the bids, pilots, crew requirements and approved leave of a roster period, runs
+ * the seniority-based allocation engine and, when committed, creates the awarded
+ * leave_requests, stores the per-bid outcome in leave_bid_awards and decides the bids.
+ * Locked awards are read back on every run so re-runs only reallocate unlocked bids.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { format, parseISO } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
+import { getCrewRequirements } from '@/lib/leave-eligibility-service';
+import { getRosterPeriodByCode, getRosterPeriodFromDate } from '@/lib/roster-utils';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { notifyLeaveBidStatus } from '@/lib/pilot-request-service';
+import {
+  allocateLeaveBids,
+  parseBidChoices,
+  type AllocationBid,
+  type BidPriority,
+  type ChoiceAttempt,
+  type LeaveBidAllocationResult,
+  type LockedAward,
+} from '@/lib/leave-bid-allocation';
+
+export interface LeaveBidAwardRecord {
+  id: string;
+  bid_id: string;
+  pilot_id: string;
+  roster_period_code: string;
+  outcome: 'AWARDED' | 'UNAWARDED';
+  awarded_choice: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  leave_request_id: string | null;
+  explanation: string;
+  attempts: ChoiceAttempt[];
+  locked: boolean;
+  allocated_by: string | null;
+  allocated_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LeaveBidAllocationOptions {
+  /** Persist the awards; otherwise the run is a preview */
+  commit?: boolean;
+  allocatedBy?: string | null;
+}
+
+export interface LeaveBidAllocationRun extends LeaveBidAllocationResult {
+  committed: boolean;
+  leaveRequestsCreated: number;
+}
+
+/**
+ * Stored awards of a roster period, limited to the pilots in scope when given
+ */
+export async function getLeaveBidAwards(
+  rosterPeriodCode: string,
+  scope?: DataScope
+): Promise<LeaveBidAwardRecord[]> {
+  const pilotIds = scope ? await getScopedPilotIds(scope) : null;
+  const { data, error } = await restrictToPilots(
+    getSupabaseAdmin()
+      .from('leave_bid_awards')
+      .select('*')
+      .eq('roster_period_code', rosterPeriodCode)
+      .order('allocated_at', { ascending: true }),
+    pilotIds
+  );
+
+  if (error) {
+    logger.error('Error fetching leave bid awards:', error);
+    throw new Error('Failed to fetch leave bid awards');
+  }
+
+  return (data || []) as LeaveBidAwardRecord[];
+}
+
+/**
+ * Lock or unlock a stored award
+ */
+export async function setLeaveBidAwardLock(
+  bidId: string,
+  locked: boolean
+): Promise<LeaveBidAwardRecord> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('leave_bid_awards')
+    .update({ locked })
+    .eq('bid_id', bidId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error updating leave bid award lock:', error);
+    throw new Error('Failed to update leave bid award');
+  }
+  if (!data) {
+    throw new Error('This bid has not been allocated yet');
+  }
+
+  return data as LeaveBidAwardRecord;
+}
+
+/**
+ * Run the allocation for a roster period
+ * Bids still PENDING and bids decided by an earlier allocation take part; withdrawn bids
+ * and bids rejected by hand do not. Leave requests created by unlocked awards are
+ * replaced, so committing the same run twice gives the same leave.
+ */
+export async function runLeaveBidAllocation(
+  rosterPeriodCode: string,
+  options: LeaveBidAllocationOptions = {}
+): Promise<LeaveBidAllocationRun> {
+  const supabase = getSupabaseAdmin();
+
+  await loadRosterCalendar();
+  const period = getRosterPeriodByCode(rosterPeriodCode);
+  if (!period) {
+    throw new Error(`Unknown roster period: ${rosterPeriodCode}`);
+  }
+
+  const [bidsResult, existingAwards, pilotsResult, requirements] = await Promise.all([
+    supabase
+      .from('leave_bids')
+      .select('*')
+      .eq('roster_period_code', rosterPeriodCode)
+      .neq('status', 'WITHDRAWN'),
+    getLeaveBidAwards(rosterPeriodCode),
+    supabase
+      .from('pilots')
+      .select('id, first_name, last_name, employee_id, role, seniority_number')
+      .eq('is_active', true),
+    getCrewRequirements(),
+  ]);
+
+  if (bidsResult.error) {
+    logger.error('Error fetching leave bids:', bidsResult.error);
+    throw new Error('Failed to fetch leave bids');
+  }
+  if (pilotsResult.error || !pilotsResult.data) {
+    throw new Error('Failed to fetch pilots data');
+  }
+
+  const awardsByBid = new Map(existingAwards.map((award) => [award.bid_id, award]));
+  const bidRows = (bidsResult.data || []).filter(
+    (bid) => bid.status === 'PENDING' || awardsByBid.has(bid.id)
+  );
+
+  const bids: AllocationBid[] = bidRows.map((bid) => ({
+    id: bid.id,
+    pilotId: bid.pilot_id,
+    priority: bid.priority as BidPriority,
+    submittedAt: bid.submitted_at,
+    choices: parseBidChoices(bid.preferred_dates, bid.alternative_dates),
+  }));
+
+  const lockedAwards: LockedAward[] = existingAwards
+    .filter((award) => award.locked)
+    .map((award) => ({
+      bidId: award.bid_id,
+      choice: award.awarded_choice,
+      startDate: award.start_date,
+      endDate: award.end_date,
+    }));
+
+  // Leave from unlocked awards is reallocated, so it must not count as already approved
+  const replacedLeaveIds = new Set(
+    existingAwards
+      .filter((award) => !award.locked && award.leave_request_id)
+      .map((award) => award.leave_request_id as string)
+  );
+
+  const allDates = [
+    format(period.startDate, 'yyyy-MM-dd'),
+    format(period.endDate, 'yyyy-MM-dd'),
+    ...bids.flatMap((bid) => bid.choices.flatMap((choice) => [choice.startDate, choice.endDate])),
+  ].filter((date): date is string => Boolean(date));
+  const rangeStart = allDates.reduce((min, date) => (date < min ? date : min));
+  const rangeEnd = allDates.reduce((max, date) => (date > max ? date : max));
+
+  const { data: leaveRows, error: leaveError } = await supabase
+    .from('leave_requests')
+    .select('id, pilot_id, start_date, end_date')
+    .eq('status', 'APPROVED')
+    .lte('start_date', rangeEnd)
+    .gte('end_date', rangeStart);
+
+  if (leaveError) {
+    throw new Error('Failed to fetch leave requests');
+  }
+
+  const result = allocateLeaveBids({
+    rosterPeriod: rosterPeriodCode,
+    requirements,
+    bids,
+    lockedAwards,
+    pilots: pilotsResult.data.map((pilot) => ({
+      id: pilot.id,
+      name: `${pilot.first_name} ${pilot.last_name}`,
+      employeeId: pilot.employee_id,
+      role: pilot.role,
+      seniorityNumber: pilot.seniority_number,
+    })),
+    approvedLeave: (leaveRows || [])
+      .filter((leave) => leave.pilot_id && !replacedLeaveIds.has(leave.id))
+      .map((leave) => ({
+        pilotId: leave.pilot_id as string,
+        startDate: leave.start_date,
+        endDate: leave.end_date,
+      })),
+  });
+
+  logger.info('Leave bid allocation run', {
+    rosterPeriodCode,
+    commit: Boolean(options.commit),
+    ...result.summary,
+  });
+
+  if (!options.commit) {
+    return { ...result, committed: false, leaveRequestsCreated: 0 };
+  }
+
+  const leaveRequestsCreated = await commitAllocation(
+    rosterPeriodCode,
+    result,
+    bidRows,
+    Array.from(replacedLeaveIds),
+    options.allocatedBy || null
+  );
+
+  return { ...result, committed: true, leaveRequestsCreated };
+}
+
+/**
+ * Replace the unlocked awards of a run: leave requests, award rows and bid decisions
+ */
+async function commitAllocation(
+  rosterPeriodCode: string,
+  result: LeaveBidAllocationResult,
+  bidRows: { id: string; reason: string; status: string }[],
+  replacedLeaveIds: string[],
+  allocatedBy: string | null
+): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+  const reasons = new Map(bidRows.map((bid) => [bid.id, bid.reason]));
+  const statuses = new Map(bidRows.map((bid) => [bid.id, bid.status]));
+  const awards = result.awards.filter((award) => !award.locked);
+
+  if (replacedLeaveIds.length > 0) {
+    const { error } = await supabase
+      .from('leave_requests')
+      .delete()
+      .in('id', replacedLeaveIds)
+      .eq('request_method', 'LEAVE_BIDS');
+
+    if (error) {
+      logger.error('Error removing previously allocated leave:', error);
+      throw new Error('Failed to replace previously allocated leave');
+    }
+  }
+
+  let leaveRequestsCreated = 0;
+
+  for (const award of awards) {
+    let leaveRequestId: string | null = null;
+
+    if (award.outcome === 'AWARDED' && award.startDate && award.endDate) {
+      const { data: leave, error: leaveError } = await supabase
+        .from('leave_requests')
+        .insert({
+          pilot_id: award.pilotId,
+          request_type: 'ANNUAL',
+          roster_period: getRosterPeriodFromDate(parseISO(award.startDate)).code,
+          start_date: award.startDate,
+          end_date: award.endDate,
+          days_count: award.daysCount,
+          reason: reasons.get(award.bidId) || null,
+          request_date: format(new Date(), 'yyyy-MM-dd'),
+          request_method: 'LEAVE_BIDS',
+          is_late_request: false,
+          status: 'APPROVED',
+          reviewed_by: allocatedBy,
+          reviewed_at: now,
+          review_comments: award.explanation,
+        })
+        .select('id')
+        .single();
+
+      if (leaveError || !leave) {
+        logger.error('Error creating leave request for award:', leaveError);
+        throw new Error('Failed to create leave request for awarded bid');
+      }
+
+      leaveRequestId = leave.id;
+      leaveRequestsCreated++;
+    }
+
+    const { error: awardError } = await supabase.from('leave_bid_awards').upsert(
+      {
+        bid_id: award.bidId,
+        pilot_id: award.pilotId,
+        roster_period_code: rosterPeriodCode,
+        outcome: award.outcome,
+        awarded_choice: award.awardedChoice,
+        start_date: award.startDate,
+        end_date: award.endDate,
+        leave_request_id: leaveRequestId,
+        explanation: award.explanation,
+        attempts: award.attempts,
+        locked: false,
+        allocated_by: allocatedBy,
+        allocated_at: now,
+      },
+      { onConflict: 'bid_id' }
+    );
+
+    if (awardError) {
+      logger.error('Error saving leave bid award:', awardError);
+      throw new Error('Failed to save leave bid award');
+    }
+
+    const status = award.outcome === 'AWARDED' ? 'APPROVED' : 'REJECTED';
+    const { error: bidError } = await supabase
+      .from('leave_bids')
+      .update({
+        status,
+        reviewed_by: allocatedBy,
+        reviewed_at: now,
+        review_comments: award.explanation,
+        updated_at: now,
+      })
+      .eq('id', award.bidId);
+
+    if (bidError) {
+      logger.error('Error updating leave bid status:', bidError);
+      throw new Error('Failed to update leave bid status');
+    }
+
+    // Re-runs that leave a decision as it was do not notify the pilot again
+    if (statuses.get(award.bidId) !== status) {
+      await notifyLeaveBidStatus({
+        id: award.bidId,
+        pilot_id: award.pilotId,
+        roster_period_code: rosterPeriodCode,
+        status,
+        review_comments: award.explanation,
+      });
+    }
+  }
+
+  logger.info('Leave bid allocation committed', {
+    rosterPeriodCode,
+    awards: awards.length,
+    leaveRequestsCreated,
+  });
+
+  return leaveRequestsCreated;
+}
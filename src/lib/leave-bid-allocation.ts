@@ -0,0 +1,467 @@
+/**
+ * @fileoverview Leave Bid Allocation Engine
+ * Allocates leave bids for a roster period in seniority order, separately for each rank
+ * (see the rank-separated rules in leave-eligibility-service). Each bid is awarded its
+ * preferred dates, or the first alternative that keeps minimumCaptains /
+ * minimumFirstOfficers on every day, and every decision is explained per choice.
+ * Pure functions - data loading and persistence live in leave-bid-allocation-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { differenceInDays, eachDayOfInterval, format, isValid, parse, parseISO } from 'date-fns';
+import type { CrewRequirements } from './leave-eligibility-service';
+import type { SimulationRank } from './leave-simulation';
+
+export type BidPriority = 'HIGH' | 'MEDIUM' | 'LOW';
+export type BidOutcome = 'AWARDED' | 'UNAWARDED';
+
+export interface BidChoice {
+  /** 1 = preferred dates, 2+ = alternatives in the order given */
+  choice: number;
+  text: string;
+  /** yyyy-MM-dd, null when the text could not be read as a date range */
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface AllocationPilot {
+  id: string;
+  name: string;
+  employeeId: string;
+  role: string;
+  seniorityNumber: number | null;
+}
+
+export interface AllocationBid {
+  id: string;
+  pilotId: string;
+  priority: BidPriority;
+  submittedAt: string | null;
+  choices: BidChoice[];
+}
+
+export interface AllocationLeave {
+  pilotId: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * An award fixed by a planner; it is kept as-is on every re-run
+ * (choice null = locked as unawarded)
+ */
+export interface LockedAward {
+  bidId: string;
+  choice: number | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface LeaveBidAllocationInput {
+  rosterPeriod: string;
+  pilots: AllocationPilot[];
+  bids: AllocationBid[];
+  /** Leave already approved outside this allocation */
+  approvedLeave: AllocationLeave[];
+  requirements: CrewRequirements;
+  lockedAwards?: LockedAward[];
+}
+
+export interface ChoiceAttempt {
+  choice: number;
+  startDate: string | null;
+  endDate: string | null;
+  feasible: boolean;
+  /** First day the rank would drop below its minimum */
+  blockingDate?: string;
+  availableOnBlockingDate?: number;
+  reason: string;
+}
+
+export interface BidAward {
+  bidId: string;
+  pilotId: string;
+  outcome: BidOutcome;
+  awardedChoice: number | null;
+  startDate: string | null;
+  endDate: string | null;
+  daysCount: number;
+  locked: boolean;
+  /** Position in the allocation order for the pilot's rank (1 = processed first) */
+  processingOrder: number;
+  attempts: ChoiceAttempt[];
+  explanation: string;
+}
+
+export interface PilotAwardReport {
+  pilotId: string;
+  name: string;
+  employeeId: string;
+  role: string;
+  seniorityNumber: number | null;
+  /** 1 = most senior pilot of this rank */
+  seniorityPosition: number | null;
+  awards: BidAward[];
+}
+
+export interface LeaveBidAllocationResult {
+  rosterPeriod: string;
+  requirements: CrewRequirements;
+  awards: BidAward[];
+  pilots: PilotAwardReport[];
+  summary: {
+    totalBids: number;
+    awarded: number;
+    awardedPreferred: number;
+    awardedAlternative: number;
+    unawarded: number;
+    locked: number;
+  };
+}
+
+const PRIORITY_ORDER: Record<BidPriority, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+const RANKS: SimulationRank[] = ['Captain', 'First Officer'];
+
+/**
+ * Read a single date range as entered on a bid
+ * Accepts "2026-03-02 - 2026-03-08", "Mar 2 - Mar 8, 2026" (LeaveBidModal format) and
+ * "Dec 28, 2026 - Jan 5, 2027". A range without a start year that would end before it
+ * starts is taken to cross the new year.
+ */
+export function parseBidDateRange(text: string): { startDate: string; endDate: string } | null {
+  const cleaned = text.replace(/^\s*choice\s*\d+\s*:\s*/i, '').trim();
+
+  const [, isoStart, isoEnd] =
+    cleaned.match(/^(\d{4}-\d{2}-\d{2})\s*(?:-|–|to)\s*(\d{4}-\d{2}-\d{2})$/i) || [];
+  if (isoStart && isoEnd) {
+    const [start, end] = [parseISO(isoStart), parseISO(isoEnd)];
+    if (!isValid(start) || !isValid(end) || start > end) return null;
+    return { startDate: isoStart, endDate: isoEnd };
+  }
+
+  const [startText, endText, ...rest] = cleaned.split(/\s+(?:-|–|to)\s+/i);
+  if (!startText || !endText || rest.length > 0) return null;
+
+  const reference = new Date();
+  const end = parse(endText, 'MMM d, yyyy', reference);
+  if (!isValid(end)) return null;
+
+  const hasStartYear = /\d{4}\s*$/.test(startText);
+  let start = hasStartYear
+    ? parse(startText, 'MMM d, yyyy', reference)
+    : parse(`${startText}, ${end.getFullYear()}`, 'MMM d, yyyy', reference);
+  if (!isValid(start)) return null;
+  if (start > end && !hasStartYear) {
+    start = parse(`${startText}, ${end.getFullYear() - 1}`, 'MMM d, yyyy', reference);
+  }
+  if (start > end) return null;
+
+  return { startDate: format(start, 'yyyy-MM-dd'), endDate: format(end, 'yyyy-MM-dd') };
+}
+
+/**
+ * Preferred and alternative choices of a bid, in order
+ * Alternatives are separated by "|" (e.g. "Choice 2: ... | Choice 3: ...").
+ */
+export function parseBidChoices(
+  preferredDates: string,
+  alternativeDates?: string | null
+): BidChoice[] {
+  const texts = [
+    preferredDates,
+    ...(alternativeDates || '')
+      .split('|')
+      .map((text) => text.trim())
+      .filter(Boolean),
+  ];
+
+  return texts.map((text, index) => {
+    const range = parseBidDateRange(text);
+    return {
+      choice: index + 1,
+      text,
+      startDate: range?.startDate || null,
+      endDate: range?.endDate || null,
+    };
+  });
+}
+
+function isLineRank(role: string): role is SimulationRank {
+  return role === 'Captain' || role === 'First Officer';
+}
+
+function bySeniority(a: AllocationPilot, b: AllocationPilot): number {
+  return (
+    (a.seniorityNumber ?? Infinity) - (b.seniorityNumber ?? Infinity) || a.id.localeCompare(b.id)
+  );
+}
+
+function choiceLabel(choice: number): string {
+  return choice === 1 ? 'preferred dates' : `alternative ${choice - 1} (choice ${choice})`;
+}
+
+function daysInRange(startDate: string, endDate: string): string[] {
+  return eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map((day) =>
+    format(day, 'yyyy-MM-dd')
+  );
+}
+
+/**
+ * Pilots of one rank on leave per day, counting each pilot once
+ */
+class RankLeaveLedger {
+  private readonly onLeave = new Map<string, Set<string>>();
+
+  add(pilotId: string, startDate: string, endDate: string): void {
+    for (const date of daysInRange(startDate, endDate)) {
+      const pilots = this.onLeave.get(date) || new Set<string>();
+      pilots.add(pilotId);
+      this.onLeave.set(date, pilots);
+    }
+  }
+
+  /** First day leave for this pilot would take the rank below its minimum */
+  firstBreach(
+    pilotId: string,
+    startDate: string,
+    endDate: string,
+    total: number,
+    minimum: number
+  ): { date: string; available: number } | null {
+    for (const date of daysInRange(startDate, endDate)) {
+      const pilots = this.onLeave.get(date);
+      if (pilots?.has(pilotId)) continue;
+      const available = total - (pilots?.size || 0);
+      if (available - 1 < minimum) {
+        return { date, available };
+      }
+    }
+    return null;
+  }
+}
+
+function explain(award: Omit<BidAward, 'explanation'>, pilot?: AllocationPilot): string {
+  if (award.locked) {
+    return award.outcome === 'AWARDED'
+      ? `Locked award kept: ${award.startDate} to ${award.endDate}`
+      : 'Locked as not awarded';
+  }
+
+  const blocked = award.attempts
+    .filter((attempt) => !attempt.feasible)
+    .map((attempt) => `${choiceLabel(attempt.choice)}: ${attempt.reason}`);
+
+  if (award.outcome === 'AWARDED' && award.awardedChoice !== null) {
+    const awarded = `Awarded ${choiceLabel(award.awardedChoice)} ${award.startDate} to ${award.endDate}`;
+    const order = pilot ? ` (${pilot.role} processed #${award.processingOrder} by seniority)` : '';
+    return blocked.length > 0 ? `${awarded}${order}. ${blocked.join('; ')}` : `${awarded}${order}`;
+  }
+
+  return blocked.length > 0 ? `Not awarded. ${blocked.join('; ')}` : 'Not awarded';
+}
+
+/**
+ * Allocate all bids of a roster period
+ * Locked awards are booked first; the remaining bids are processed per rank by seniority
+ * number, then priority, submission time and bid id, so a re-run with the same inputs
+ * always gives the same awards.
+ */
+export function allocateLeaveBids(input: LeaveBidAllocationInput): LeaveBidAllocationResult {
+  const { requirements } = input;
+  const pilotsById = new Map(input.pilots.map((pilot) => [pilot.id, pilot]));
+  const locked = new Map((input.lockedAwards || []).map((award) => [award.bidId, award]));
+
+  const totals: Record<SimulationRank, number> = { Captain: 0, 'First Officer': 0 };
+  const minimums: Record<SimulationRank, number> = {
+    Captain: requirements.minimumCaptains,
+    'First Officer': requirements.minimumFirstOfficers,
+  };
+  const ledgers: Record<SimulationRank, RankLeaveLedger> = {
+    Captain: new RankLeaveLedger(),
+    'First Officer': new RankLeaveLedger(),
+  };
+  const seniorityPositions = new Map<string, number>();
+
+  for (const rank of RANKS) {
+    const ranked = input.pilots.filter((pilot) => pilot.role === rank).sort(bySeniority);
+    totals[rank] = ranked.length;
+    ranked.forEach((pilot, index) => seniorityPositions.set(pilot.id, index + 1));
+  }
+
+  for (const leave of input.approvedLeave) {
+    const role = pilotsById.get(leave.pilotId)?.role;
+    if (role && isLineRank(role)) {
+      ledgers[role].add(leave.pilotId, leave.startDate, leave.endDate);
+    }
+  }
+
+  const ordered = [...input.bids].sort((a, b) => {
+    const pilotA = pilotsById.get(a.pilotId);
+    const pilotB = pilotsById.get(b.pilotId);
+    const rankA = pilotA && isLineRank(pilotA.role) ? RANKS.indexOf(pilotA.role) : RANKS.length;
+    const rankB = pilotB && isLineRank(pilotB.role) ? RANKS.indexOf(pilotB.role) : RANKS.length;
+    return (
+      rankA - rankB ||
+      (pilotA?.seniorityNumber ?? Infinity) - (pilotB?.seniorityNumber ?? Infinity) ||
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      (a.submittedAt || '').localeCompare(b.submittedAt || '') ||
+      a.id.localeCompare(b.id)
+    );
+  });
+
+  const processingOrder = new Map<string, number>();
+  const rankCounters: Record<string, number> = {};
+  for (const bid of ordered) {
+    const role = pilotsById.get(bid.pilotId)?.role || 'Unknown';
+    rankCounters[role] = (rankCounters[role] || 0) + 1;
+    processingOrder.set(bid.id, rankCounters[role]);
+  }
+
+  const awards = new Map<string, BidAward>();
+
+  // Locked awards are booked before anything else, even if they now breach a minimum
+  for (const bid of ordered.filter((b) => locked.has(b.id))) {
+    const lockedAward = locked.get(bid.id)!;
+    const pilot = pilotsById.get(bid.pilotId);
+    const isAwarded =
+      lockedAward.choice !== null && lockedAward.startDate !== null && lockedAward.endDate !== null;
+
+    if (isAwarded && pilot && isLineRank(pilot.role)) {
+      ledgers[pilot.role].add(bid.pilotId, lockedAward.startDate!, lockedAward.endDate!);
+    }
+
+    const award: Omit<BidAward, 'explanation'> = {
+      bidId: bid.id,
+      pilotId: bid.pilotId,
+      outcome: isAwarded ? 'AWARDED' : 'UNAWARDED',
+      awardedChoice: isAwarded ? lockedAward.choice : null,
+      startDate: isAwarded ? lockedAward.startDate : null,
+      endDate: isAwarded ? lockedAward.endDate : null,
+      daysCount: isAwarded
+        ? differenceInDays(parseISO(lockedAward.endDate!), parseISO(lockedAward.startDate!)) + 1
+        : 0,
+      locked: true,
+      processingOrder: processingOrder.get(bid.id)!,
+      attempts: [],
+    };
+    awards.set(bid.id, { ...award, explanation: explain(award, pilot) });
+  }
+
+  for (const bid of ordered.filter((b) => !locked.has(b.id))) {
+    const pilot = pilotsById.get(bid.pilotId);
+    const attempts: ChoiceAttempt[] = [];
+    let awarded: BidChoice | null = null;
+
+    if (!pilot || !isLineRank(pilot.role)) {
+      attempts.push(
+        ...bid.choices.map((choice) => ({
+          choice: choice.choice,
+          startDate: choice.startDate,
+          endDate: choice.endDate,
+          feasible: false,
+          reason: pilot ? `${pilot.role} is not a line rank` : 'Pilot is not active',
+        }))
+      );
+    } else {
+      const rank = pilot.role;
+      for (const choice of bid.choices) {
+        if (!choice.startDate || !choice.endDate) {
+          attempts.push({
+            choice: choice.choice,
+            startDate: null,
+            endDate: null,
+            feasible: false,
+            reason: `could not read dates "${choice.text}"`,
+          });
+          continue;
+        }
+
+        const breach = ledgers[rank].firstBreach(
+          pilot.id,
+          choice.startDate,
+          choice.endDate,
+          totals[rank],
+          minimums[rank]
+        );
+
+        if (breach) {
+          attempts.push({
+            choice: choice.choice,
+            startDate: choice.startDate,
+            endDate: choice.endDate,
+            feasible: false,
+            blockingDate: breach.date,
+            availableOnBlockingDate: breach.available,
+            reason: `only ${breach.available} ${rank}s available on ${breach.date} (minimum ${minimums[rank]})`,
+          });
+          continue;
+        }
+
+        attempts.push({
+          choice: choice.choice,
+          startDate: choice.startDate,
+          endDate: choice.endDate,
+          feasible: true,
+          reason: `${rank} minimum of ${minimums[rank]} maintained on every day`,
+        });
+        ledgers[rank].add(pilot.id, choice.startDate, choice.endDate);
+        awarded = choice;
+        break;
+      }
+    }
+
+    const award: Omit<BidAward, 'explanation'> = {
+      bidId: bid.id,
+      pilotId: bid.pilotId,
+      outcome: awarded ? 'AWARDED' : 'UNAWARDED',
+      awardedChoice: awarded?.choice ?? null,
+      startDate: awarded?.startDate ?? null,
+      endDate: awarded?.endDate ?? null,
+      daysCount: awarded
+        ? differenceInDays(parseISO(awarded.endDate!), parseISO(awarded.startDate!)) + 1
+        : 0,
+      locked: false,
+      processingOrder: processingOrder.get(bid.id)!,
+      attempts,
+    };
+    awards.set(bid.id, { ...award, explanation: explain(award, pilot) });
+  }
+
+  const orderedAwards = ordered.map((bid) => awards.get(bid.id)!);
+
+  const reports = new Map<string, PilotAwardReport>();
+  for (const award of orderedAwards) {
+    const pilot = pilotsById.get(award.pilotId);
+    const report = reports.get(award.pilotId) || {
+      pilotId: award.pilotId,
+      name: pilot?.name || 'Unknown pilot',
+      employeeId: pilot?.employeeId || '',
+      role: pilot?.role || 'Unknown',
+      seniorityNumber: pilot?.seniorityNumber ?? null,
+      seniorityPosition: seniorityPositions.get(award.pilotId) ?? null,
+      awards: [],
+    };
+    report.awards.push(award);
+    reports.set(award.pilotId, report);
+  }
+
+  const awardedList = orderedAwards.filter((award) => award.outcome === 'AWARDED');
+
+  return {
+    rosterPeriod: input.rosterPeriod,
+    requirements,
+    awards: orderedAwards,
+    pilots: Array.from(reports.values()),
+    summary: {
+      totalBids: orderedAwards.length,
+      awarded: awardedList.length,
+      awardedPreferred: awardedList.filter((award) => award.awardedChoice === 1).length,
+      awardedAlternative: awardedList.filter((award) => (award.awardedChoice ?? 0) > 1).length,
+      unawarded: orderedAwards.length - awardedList.length,
+      locked: orderedAwards.filter((award) => award.locked).length,
+    },
+  };
+}
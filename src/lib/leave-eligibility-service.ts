@@ -59,6 +59,14 @@
 
 import { getSupabaseAdmin } from './supabase';
 import { differenceInDays, parseISO, isWithinInterval, eachDayOfInterval, addDays } from 'date-fns';
+import { getRetirementAge } from './retirement-utils';
+import {
+  runLeaveSimulation,
+  type LeaveSimulationResult,
+  type LeaveSimulationScenario,
+  type SimulationLeaveRequest,
+  type SimulationRank,
+} from './leave-simulation';
 
 // ===================================
 // TYPES & INTERFACES
@@ -1140,3 +1148,92 @@ export async function checkBulkLeaveEligibility(rosterPeriod: string): Promise<{
     recommendations,
   };
 }
+
+// ===================================
+// WHAT-IF SIMULATION
+// ===================================
+
+export interface SimulationLeaveRequestDetail extends SimulationLeaveRequest {
+  pilotName: string;
+  employeeId: string;
+  role: SimulationRank;
+  seniorityNumber: number | null;
+  requestType: string;
+}
+
+/**
+ * Simulate crew availability for a date range under a hypothetical scenario
+ * (request approvals/denials, new hires, retirements, aircraft count). Nothing is saved.
+ */
+export async function simulateLeaveScenario(
+  startDate: string,
+  endDate: string,
+  scenario: LeaveSimulationScenario = {}
+): Promise<LeaveSimulationResult & { leaveRequests: SimulationLeaveRequestDetail[] }> {
+  const supabase = getSupabaseAdmin();
+
+  const [requirements, retirementAge, pilotsResult, leaveResult] = await Promise.all([
+    getCrewRequirements(),
+    getRetirementAge(),
+    supabase
+      .from('pilots')
+      .select('id, first_name, last_name, employee_id, role, seniority_number, date_of_birth')
+      .eq('is_active', true),
+    supabase
+      .from('leave_requests')
+      .select('id, pilot_id, start_date, end_date, status, request_type')
+      .in('status', ['APPROVED', 'PENDING', 'DENIED'])
+      .lte('start_date', endDate)
+      .gte('end_date', startDate)
+      .order('start_date', { ascending: true }),
+  ]);
+
+  if (pilotsResult.error || !pilotsResult.data) {
+    throw new Error('Failed to fetch pilots data');
+  }
+  if (leaveResult.error) {
+    throw new Error('Failed to fetch leave requests');
+  }
+
+  const pilots = pilotsResult.data.filter(
+    (p) => p.role === 'Captain' || p.role === 'First Officer'
+  );
+  const pilotsById = new Map(pilots.map((p) => [p.id, p]));
+
+  const leaveRequests: SimulationLeaveRequestDetail[] = (leaveResult.data || [])
+    .filter((lr) => pilotsById.has(lr.pilot_id))
+    .map((lr) => {
+      const pilot = pilotsById.get(lr.pilot_id)!;
+      return {
+        id: lr.id,
+        pilotId: lr.pilot_id,
+        startDate: lr.start_date,
+        endDate: lr.end_date,
+        status: lr.status as SimulationLeaveRequest['status'],
+        pilotName: `${pilot.first_name} ${pilot.last_name}`,
+        employeeId: pilot.employee_id,
+        role: pilot.role as SimulationRank,
+        seniorityNumber: pilot.seniority_number,
+        requestType: lr.request_type,
+      };
+    });
+
+  const result = runLeaveSimulation(
+    {
+      startDate,
+      endDate,
+      requirements,
+      retirementAge,
+      pilots: pilots.map((p) => ({
+        id: p.id,
+        name: `${p.first_name} ${p.last_name}`,
+        role: p.role as SimulationRank,
+        dateOfBirth: p.date_of_birth,
+      })),
+      leaveRequests,
+    },
+    scenario
+  );
+
+  return { ...result, leaveRequests };
+}
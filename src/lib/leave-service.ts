@@ -1,6 +1,10 @@
 import { supabase, getSupabaseAdmin, handleSupabaseError } from './supabase';
 import { getCurrentRosterPeriod, getRosterPeriodFromDate } from './roster-utils';
 import { logger } from '@/lib/logger';
+import { authenticatedFetch } from '@/lib/api-client';
+import { versionHeaders } from '@/lib/record-version';
+import type { DataScope } from '@/lib/data-scope';
+import { getScopedPilotIds, restrictToPilots } from '@/lib/data-scope-service';
 
 export interface LeaveRequest {
   id: string;
@@ -16,6 +20,7 @@ export interface LeaveRequest {
   request_method?: 'EMAIL' | 'ORACLE' | 'LEAVE_BIDS' | 'SYSTEM'; // How the request was submitted
   is_late_request?: boolean; // Flag for requests with less than 21 days advance notice
   created_at: string;
+  updated_at?: string;
   reviewed_by?: string;
   reviewed_at?: string;
   review_comments?: string;
@@ -66,7 +71,7 @@ function calculateDays(startDate: string, endDate: string): number {
 // Get all leave requests with pilot information
 export async function getAllLeaveRequests(): Promise<LeaveRequest[]> {
   try {
-    const response = await fetch('/api/leave-requests');
+    const response = await authenticatedFetch('/api/leave-requests');
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
@@ -163,7 +168,7 @@ export async function createLeaveRequest(requestData: LeaveRequestFormData): Pro
   try {
     logger.debug('Creating leave request via API', requestData);
 
-    const response = await fetch('/api/leave-requests', {
+    const response = await authenticatedFetch('/api/leave-requests', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -185,18 +190,21 @@ export async function createLeaveRequest(requestData: LeaveRequestFormData): Pro
   }
 }
 
-// Update leave request data (for editing)
+// Update leave request data (for editing); with a version (the request's updated_at
+// when it was loaded) the update is refused if it has changed since
 export async function updateLeaveRequest(
   requestId: string,
-  requestData: Partial<LeaveRequestFormData>
+  requestData: Partial<LeaveRequestFormData>,
+  version?: string | null
 ): Promise<LeaveRequest> {
   try {
     logger.debug('Updating leave request via API', { requestId, requestData });
 
-    const response = await fetch('/api/leave-requests', {
+    const response = await authenticatedFetch('/api/leave-requests', {
       method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
+        ...versionHeaders(version),
       },
       body: JSON.stringify({
         id: requestId,
@@ -228,7 +236,7 @@ export async function updateLeaveRequestStatus(
   try {
     logger.debug('Updating leave request status via API...', { requestId, status });
 
-    const response = await fetch('/api/leave-requests', {
+    const response = await authenticatedFetch('/api/leave-requests', {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
@@ -453,12 +461,14 @@ export async function getLeaveRequestsByRosterPeriod(
 
 // Get leave requests for a specific roster period (Admin version - bypasses RLS)
 export async function getLeaveRequestsByRosterPeriodAdmin(
-  rosterPeriod: string
+  rosterPeriod: string,
+  scope?: DataScope
 ): Promise<LeaveRequest[]> {
   try {
     logger.debug('Admin query: Fetching leave requests for ${rosterPeriod}...');
+    const pilotIds = scope ? await getScopedPilotIds(scope) : null;
 
-    const { data: requests, error } = await getSupabaseAdmin()
+    const periodQuery = getSupabaseAdmin()
       .from('leave_requests')
       .select(
         `
@@ -474,6 +484,7 @@ export async function getLeaveRequestsByRosterPeriodAdmin(
       )
       .eq('roster_period', rosterPeriod)
       .order('start_date', { ascending: true });
+    const { data: requests, error } = await restrictToPilots(periodQuery, pilotIds);
 
     if (error) {
       logger.error('Admin query error', error instanceof Error ? error : new Error(String(error)));
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview Leave "What-If" Simulation Engine
+ * Projects day-by-day crew availability per rank for a date range under a hypothetical
+ * scenario: approving or denying leave requests, new hires, retirements and a change in
+ * aircraft count. Pure functions - data loading lives in leave-eligibility-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { eachDayOfInterval, format, isWithinInterval, parseISO, startOfDay } from 'date-fns';
+import { calculateRetirementInfo } from './retirement-utils';
+import type { CrewAvailability, CrewRequirements } from './leave-eligibility-service';
+
+export type SimulationRank = 'Captain' | 'First Officer';
+export type SimulatedDecision = 'APPROVED' | 'DENIED';
+
+export interface SimulationPilot {
+  id: string;
+  name: string;
+  role: SimulationRank;
+  dateOfBirth: string | null;
+}
+
+export interface SimulationLeaveRequest {
+  id: string;
+  pilotId: string;
+  startDate: string;
+  endDate: string;
+  status: 'APPROVED' | 'PENDING' | 'DENIED';
+}
+
+export interface SimulatedHire {
+  role: SimulationRank;
+  /** First day the new pilot counts towards availability (yyyy-MM-dd) */
+  startDate: string;
+  count: number;
+}
+
+export interface SimulatedRetirement {
+  pilotId: string;
+  /** First day the pilot no longer counts towards availability (yyyy-MM-dd) */
+  date: string;
+}
+
+export interface LeaveSimulationScenario {
+  /** Hypothetical decision per leave request id; undecided requests keep their status */
+  decisions?: Record<string, SimulatedDecision>;
+  /** Count undecided PENDING requests as leave (matches calculateCrewAvailability) */
+  pendingCountsAsLeave?: boolean;
+  newHires?: SimulatedHire[];
+  /** Additional or brought-forward retirements */
+  retirements?: SimulatedRetirement[];
+  /** Apply retirements due by retirement age (default true) */
+  applyScheduledRetirements?: boolean;
+  numberOfAircraft?: number;
+}
+
+export interface LeaveSimulationInput {
+  startDate: string;
+  endDate: string;
+  pilots: SimulationPilot[];
+  leaveRequests: SimulationLeaveRequest[];
+  requirements: CrewRequirements;
+  retirementAge: number;
+}
+
+export interface LeaveSimulationSummary {
+  daysBelowMinimum: number;
+  lowestCaptains: number;
+  lowestFirstOfficers: number;
+  onLeaveRequestIds: string[];
+}
+
+export interface LeaveSimulationResult {
+  startDate: string;
+  endDate: string;
+  requirements: CrewRequirements;
+  availability: CrewAvailability[];
+  summary: LeaveSimulationSummary;
+  baseline: {
+    requirements: CrewRequirements;
+    availability: CrewAvailability[];
+    summary: LeaveSimulationSummary;
+  };
+  retirements: { pilotId: string; name: string; role: SimulationRank; date: string }[];
+}
+
+/**
+ * Minimum crew for a different number of aircraft (per-hull minimums are unchanged)
+ */
+export function applyAircraftCount(
+  requirements: CrewRequirements,
+  numberOfAircraft?: number
+): CrewRequirements {
+  if (numberOfAircraft === undefined || numberOfAircraft === requirements.numberOfAircraft) {
+    return requirements;
+  }
+
+  return {
+    ...requirements,
+    numberOfAircraft,
+    minimumCaptains: requirements.captainsPerHull * numberOfAircraft,
+    minimumFirstOfficers: requirements.firstOfficersPerHull * numberOfAircraft,
+  };
+}
+
+/**
+ * Date each pilot stops counting towards availability: scheduled retirement by age,
+ * overridden by any scenario retirement for the same pilot
+ */
+export function resolveRetirementDates(
+  pilots: SimulationPilot[],
+  retirementAge: number,
+  scenario: LeaveSimulationScenario = {}
+): Map<string, string> {
+  const dates = new Map<string, string>();
+
+  if (scenario.applyScheduledRetirements !== false) {
+    for (const pilot of pilots) {
+      const info = calculateRetirementInfo(pilot.dateOfBirth, retirementAge);
+      if (info) {
+        dates.set(pilot.id, format(info.retirementDate, 'yyyy-MM-dd'));
+      }
+    }
+  }
+
+  for (const retirement of scenario.retirements || []) {
+    dates.set(retirement.pilotId, retirement.date);
+  }
+
+  return dates;
+}
+
+/**
+ * Whether a leave request takes the pilot off the line in this scenario
+ */
+function isOnLeave(request: SimulationLeaveRequest, scenario: LeaveSimulationScenario): boolean {
+  const status = scenario.decisions?.[request.id] || request.status;
+  if (status === 'APPROVED') return true;
+  if (status === 'PENDING') return scenario.pendingCountsAsLeave !== false;
+  return false;
+}
+
+/**
+ * Day-by-day crew availability per rank under a scenario
+ */
+export function simulateCrewAvailability(
+  input: LeaveSimulationInput,
+  scenario: LeaveSimulationScenario = {}
+): {
+  requirements: CrewRequirements;
+  availability: CrewAvailability[];
+  summary: LeaveSimulationSummary;
+} {
+  const requirements = applyAircraftCount(input.requirements, scenario.numberOfAircraft);
+  const retirementDates = resolveRetirementDates(input.pilots, input.retirementAge, scenario);
+  const pilotsById = new Map(input.pilots.map((pilot) => [pilot.id, pilot]));
+  const leave = input.leaveRequests.filter((request) => isOnLeave(request, scenario));
+
+  const days = eachDayOfInterval({
+    start: parseISO(input.startDate),
+    end: parseISO(input.endDate),
+  });
+
+  const availability = days.map((day): CrewAvailability => {
+    const date = format(day, 'yyyy-MM-dd');
+    const isServing = (pilotId: string) => {
+      const retirementDate = retirementDates.get(pilotId);
+      return !retirementDate || date < retirementDate;
+    };
+
+    const serving = input.pilots.filter((pilot) => isServing(pilot.id));
+    const hired = (role: SimulationRank) =>
+      (scenario.newHires || [])
+        .filter((hire) => hire.role === role && hire.startDate <= date)
+        .reduce((sum, hire) => sum + hire.count, 0);
+
+    const totalCaptains = serving.filter((p) => p.role === 'Captain').length + hired('Captain');
+    const totalFirstOfficers =
+      serving.filter((p) => p.role === 'First Officer').length + hired('First Officer');
+
+    // A pilot with overlapping requests is only counted once
+    const onLeaveToday = new Set(
+      leave
+        .filter(
+          (request) =>
+            isServing(request.pilotId) &&
+            isWithinInterval(startOfDay(day), {
+              start: parseISO(request.startDate),
+              end: parseISO(request.endDate),
+            })
+        )
+        .map((request) => request.pilotId)
+    );
+
+    let onLeaveCaptains = 0;
+    let onLeaveFirstOfficers = 0;
+    onLeaveToday.forEach((pilotId) => {
+      const role = pilotsById.get(pilotId)?.role;
+      if (role === 'Captain') onLeaveCaptains++;
+      if (role === 'First Officer') onLeaveFirstOfficers++;
+    });
+
+    const availableCaptains = totalCaptains - onLeaveCaptains;
+    const availableFirstOfficers = totalFirstOfficers - onLeaveFirstOfficers;
+    const captainsShortfall = availableCaptains - requirements.minimumCaptains;
+    const firstOfficersShortfall = availableFirstOfficers - requirements.minimumFirstOfficers;
+
+    return {
+      date,
+      availableCaptains,
+      availableFirstOfficers,
+      onLeaveCaptains,
+      onLeaveFirstOfficers,
+      totalCaptains,
+      totalFirstOfficers,
+      meetsMinimum: captainsShortfall >= 0 && firstOfficersShortfall >= 0,
+      captainsShortfall,
+      firstOfficersShortfall,
+    };
+  });
+
+  return {
+    requirements,
+    availability,
+    summary: {
+      daysBelowMinimum: availability.filter((day) => !day.meetsMinimum).length,
+      lowestCaptains: Math.min(...availability.map((day) => day.availableCaptains)),
+      lowestFirstOfficers: Math.min(...availability.map((day) => day.availableFirstOfficers)),
+      onLeaveRequestIds: leave.map((request) => request.id),
+    },
+  };
+}
+
+/**
+ * Run a scenario alongside the baseline (current statuses, current fleet)
+ */
+export function runLeaveSimulation(
+  input: LeaveSimulationInput,
+  scenario: LeaveSimulationScenario = {}
+): LeaveSimulationResult {
+  const simulated = simulateCrewAvailability(input, scenario);
+  const baseline = simulateCrewAvailability(input, {
+    pendingCountsAsLeave: scenario.pendingCountsAsLeave,
+    applyScheduledRetirements: scenario.applyScheduledRetirements,
+  });
+
+  const retirementDates = resolveRetirementDates(input.pilots, input.retirementAge, scenario);
+  const retirements = input.pilots
+    .filter((pilot) => {
+      const date = retirementDates.get(pilot.id);
+      return date !== undefined && date <= input.endDate;
+    })
+    .map((pilot) => ({
+      pilotId: pilot.id,
+      name: pilot.name,
+      role: pilot.role,
+      date: retirementDates.get(pilot.id) as string,
+    }));
+
+  return {
+    startDate: input.startDate,
+    endDate: input.endDate,
+    ...simulated,
+    baseline,
+    retirements,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Manpower Planning Service
+ * Loads active pilots (with captain qualifications) and the pilot_requirements settings
+ * and runs the manpower projection for a plan of hires, upgrades and fleet changes.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import {
+  projectManpower,
+  type ManpowerPilot,
+  type ManpowerPlan,
+  type ManpowerProjection,
+  type ManpowerRequirements,
+} from '@/lib/manpower-planning';
+import type { PilotRequirements } from '@/lib/settings-service';
+
+/** Used when pilot_requirements has not been saved yet (matches the settings defaults) */
+const DEFAULT_REQUIREMENTS: PilotRequirements = {
+  pilot_retirement_age: 65,
+  number_of_aircraft: 2,
+  captains_per_hull: 7,
+  first_officers_per_hull: 7,
+  minimum_captains_per_hull: 10,
+  minimum_first_officers_per_hull: 10,
+  training_captains_per_pilots: 11,
+  examiners_per_pilots: 11,
+};
+
+/**
+ * Staffing ratios for the projection from the pilot_requirements setting
+ */
+export async function getManpowerRequirements(): Promise<ManpowerRequirements> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('settings')
+    .select('value')
+    .eq('key', 'pilot_requirements')
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching pilot requirements:', error);
+    throw new Error('Failed to fetch pilot requirements');
+  }
+
+  const reqs = { ...DEFAULT_REQUIREMENTS, ...((data?.value as Partial<PilotRequirements>) || {}) };
+  return {
+    numberOfAircraft: reqs.number_of_aircraft,
+    captainsPerHull: reqs.captains_per_hull,
+    firstOfficersPerHull: reqs.first_officers_per_hull,
+    pilotsPerTrainingCaptain: reqs.training_captains_per_pilots,
+    pilotsPerExaminer: reqs.examiners_per_pilots,
+    retirementAge: reqs.pilot_retirement_age,
+  };
+}
+
+/**
+ * Active line pilots in the shape used by the projection
+ */
+export async function getManpowerPilots(): Promise<ManpowerPilot[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilots')
+    .select(
+      'id, first_name, last_name, role, seniority_number, date_of_birth, captain_qualifications'
+    )
+    .eq('is_active', true);
+
+  if (error) {
+    logger.error('Error fetching pilots for manpower planning:', error);
+    throw new Error('Failed to fetch pilots data');
+  }
+
+  return (data || [])
+    .filter((pilot) => pilot.role === 'Captain' || pilot.role === 'First Officer')
+    .map((pilot) => ({
+      id: pilot.id,
+      name: `${pilot.first_name} ${pilot.last_name}`,
+      role: pilot.role as ManpowerPilot['role'],
+      seniorityNumber: pilot.seniority_number,
+      dateOfBirth: pilot.date_of_birth,
+      qualifications: Array.isArray(pilot.captain_qualifications)
+        ? pilot.captain_qualifications.filter((q): q is string => typeof q === 'string')
+        : [],
+    }));
+}
+
+/**
+ * Project manpower for a plan
+ */
+export async function getManpowerProjection(plan: ManpowerPlan): Promise<ManpowerProjection> {
+  const [pilots, requirements] = await Promise.all([
+    getManpowerPilots(),
+    getManpowerRequirements(),
+  ]);
+
+  const projection = projectManpower(pilots, requirements, plan);
+
+  logger.info('Manpower projection generated', {
+    startMonth: projection.startMonth,
+    endMonth: projection.endMonth,
+    shortfallWindows: projection.shortfalls.length,
+  });
+
+  return projection;
+}
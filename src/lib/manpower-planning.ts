@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Manpower Planning Engine
+ * Projects crew numbers month by month over a multi-year horizon: Captains, First
+ * Officers, training captains and examiners available against the numbers required by
+ * the fleet size and the ratios in pilot_requirements. Retirements come from each
+ * pilot's retirement date; planned hires, FO→Captain upgrades (most senior First
+ * Officers first) and fleet changes are applied in the month they are planned.
+ * Pure functions - data loading lives in manpower-planning-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { addMonths, endOfMonth, format, parseISO } from 'date-fns';
+import { resolveRetirementDates, type SimulationRank } from './leave-simulation';
+
+export type ManpowerCategory = 'captains' | 'firstOfficers' | 'trainingCaptains' | 'examiners';
+export type CaptainQualification = 'training_captain' | 'examiner';
+
+export interface ManpowerPilot {
+  id: string;
+  name: string;
+  role: SimulationRank;
+  seniorityNumber: number | null;
+  dateOfBirth: string | null;
+  /** captain_qualifications, e.g. training_captain, examiner */
+  qualifications: string[];
+}
+
+export interface ManpowerRequirements {
+  numberOfAircraft: number;
+  captainsPerHull: number;
+  firstOfficersPerHull: number;
+  /** One training captain is required per this many pilots */
+  pilotsPerTrainingCaptain: number;
+  /** One examiner is required per this many pilots */
+  pilotsPerExaminer: number;
+  retirementAge: number;
+}
+
+export interface PlannedHire {
+  /** yyyy-MM */
+  month: string;
+  role: SimulationRank;
+  count: number;
+  /** Captain hires that arrive already qualified */
+  qualifications?: CaptainQualification[];
+}
+
+export interface PlannedUpgrade {
+  /** yyyy-MM */
+  month: string;
+  count: number;
+  /** Explicit First Officers to upgrade; otherwise the most senior are taken */
+  pilotIds?: string[];
+}
+
+export interface PlannedFleetChange {
+  /** yyyy-MM */
+  month: string;
+  numberOfAircraft: number;
+}
+
+export interface ManpowerPlan {
+  /** First projected month (yyyy-MM) */
+  startMonth: string;
+  months: number;
+  hires?: PlannedHire[];
+  upgrades?: PlannedUpgrade[];
+  fleetChanges?: PlannedFleetChange[];
+}
+
+export interface ManpowerPosition {
+  available: number;
+  required: number;
+  /** Negative when short */
+  surplus: number;
+}
+
+export interface ManpowerEvent {
+  type: 'RETIREMENT' | 'UPGRADE' | 'UPGRADE_UNFILLED' | 'HIRE' | 'FLEET_CHANGE';
+  description: string;
+  pilotId?: string;
+}
+
+export interface ManpowerMonth {
+  /** yyyy-MM */
+  month: string;
+  numberOfAircraft: number;
+  captains: ManpowerPosition;
+  firstOfficers: ManpowerPosition;
+  trainingCaptains: ManpowerPosition;
+  examiners: ManpowerPosition;
+  events: ManpowerEvent[];
+}
+
+export interface ShortfallWindow {
+  category: ManpowerCategory;
+  /** yyyy-MM, inclusive */
+  from: string;
+  to: string;
+  months: number;
+  /** Largest shortfall in the window (positive number of pilots) */
+  worstShortfall: number;
+}
+
+export interface ManpowerProjection {
+  startMonth: string;
+  endMonth: string;
+  requirements: ManpowerRequirements;
+  months: ManpowerMonth[];
+  shortfalls: ShortfallWindow[];
+  summary: {
+    retirements: number;
+    hires: number;
+    upgrades: number;
+    unfilledUpgrades: number;
+    firstShortfall: Record<ManpowerCategory, string | null>;
+  };
+}
+
+export const MANPOWER_CATEGORY_LABELS: Record<ManpowerCategory, string> = {
+  captains: 'Captains',
+  firstOfficers: 'First Officers',
+  trainingCaptains: 'Training Captains',
+  examiners: 'Examiners',
+};
+
+const CATEGORIES = Object.keys(MANPOWER_CATEGORY_LABELS) as ManpowerCategory[];
+
+function position(available: number, required: number): ManpowerPosition {
+  return { available, required, surplus: available - required };
+}
+
+function bySeniority(a: ManpowerPilot, b: ManpowerPilot): number {
+  return (a.seniorityNumber ?? Infinity) - (b.seniorityNumber ?? Infinity);
+}
+
+/**
+ * Contiguous months with a shortfall, per category
+ */
+export function findShortfallWindows(months: ManpowerMonth[]): ShortfallWindow[] {
+  const windows: ShortfallWindow[] = [];
+
+  for (const category of CATEGORIES) {
+    let open: ShortfallWindow | null = null;
+
+    for (const month of months) {
+      const shortfall = -month[category].surplus;
+      if (shortfall > 0) {
+        if (open) {
+          open.to = month.month;
+          open.months++;
+          open.worstShortfall = Math.max(open.worstShortfall, shortfall);
+        } else {
+          open = {
+            category,
+            from: month.month,
+            to: month.month,
+            months: 1,
+            worstShortfall: shortfall,
+          };
+        }
+      } else if (open) {
+        windows.push(open);
+        open = null;
+      }
+    }
+
+    if (open) windows.push(open);
+  }
+
+  return windows.sort(
+    (a, b) => a.from.localeCompare(b.from) || a.category.localeCompare(b.category)
+  );
+}
+
+/**
+ * Month-by-month manpower projection
+ * Each month is the position at month end, after that month's fleet changes, hires,
+ * upgrades and retirements.
+ */
+export function projectManpower(
+  pilots: ManpowerPilot[],
+  requirements: ManpowerRequirements,
+  plan: ManpowerPlan
+): ManpowerProjection {
+  const retirementDates = resolveRetirementDates(pilots, requirements.retirementAge);
+  const roster = pilots.map((pilot) => ({ ...pilot, qualifications: [...pilot.qualifications] }));
+  const retired = new Set<string>();
+  const start = parseISO(`${plan.startMonth}-01`);
+  let numberOfAircraft = requirements.numberOfAircraft;
+  let hireCounter = 0;
+
+  const totals = { retirements: 0, hires: 0, upgrades: 0, unfilledUpgrades: 0 };
+  const months: ManpowerMonth[] = [];
+
+  for (let index = 0; index < plan.months; index++) {
+    const monthStart = addMonths(start, index);
+    const month = format(monthStart, 'yyyy-MM');
+    const monthEnd = format(endOfMonth(monthStart), 'yyyy-MM-dd');
+    const events: ManpowerEvent[] = [];
+
+    for (const change of (plan.fleetChanges || []).filter((c) => c.month === month)) {
+      events.push({
+        type: 'FLEET_CHANGE',
+        description: `Fleet changes from ${numberOfAircraft} to ${change.numberOfAircraft} aircraft`,
+      });
+      numberOfAircraft = change.numberOfAircraft;
+    }
+
+    for (const hire of (plan.hires || []).filter((h) => h.month === month)) {
+      for (let i = 0; i < hire.count; i++) {
+        hireCounter++;
+        roster.push({
+          id: `planned-hire-${hireCounter}`,
+          name: `Planned ${hire.role} hire ${hireCounter}`,
+          role: hire.role,
+          seniorityNumber: null,
+          dateOfBirth: null,
+          qualifications: hire.role === 'Captain' ? [...(hire.qualifications || [])] : [],
+        });
+      }
+      totals.hires += hire.count;
+      events.push({ type: 'HIRE', description: `${hire.count} ${hire.role} hire(s)` });
+    }
+
+    const isServing = (pilot: ManpowerPilot) => {
+      if (retired.has(pilot.id)) return false;
+      const retirementDate = retirementDates.get(pilot.id);
+      return !retirementDate || retirementDate > monthEnd;
+    };
+
+    for (const upgrade of (plan.upgrades || []).filter((u) => u.month === month)) {
+      const candidates = roster
+        .filter((pilot) => pilot.role === 'First Officer' && isServing(pilot))
+        .filter((pilot) => !upgrade.pilotIds || upgrade.pilotIds.includes(pilot.id))
+        .sort(bySeniority)
+        .slice(0, upgrade.count);
+
+      for (const pilot of candidates) {
+        pilot.role = 'Captain';
+        events.push({
+          type: 'UPGRADE',
+          description: `${pilot.name} upgrades to Captain`,
+          pilotId: pilot.id,
+        });
+      }
+      totals.upgrades += candidates.length;
+
+      if (candidates.length < upgrade.count) {
+        const unfilled = upgrade.count - candidates.length;
+        totals.unfilledUpgrades += unfilled;
+        events.push({
+          type: 'UPGRADE_UNFILLED',
+          description: `${unfilled} planned upgrade(s) without an eligible First Officer`,
+        });
+      }
+    }
+
+    for (const pilot of roster) {
+      if (retired.has(pilot.id) || isServing(pilot)) continue;
+      retired.add(pilot.id);
+      totals.retirements++;
+      events.push({
+        type: 'RETIREMENT',
+        description: `${pilot.name} (${pilot.role}) retires`,
+        pilotId: pilot.id,
+      });
+    }
+
+    const serving = roster.filter((pilot) => !retired.has(pilot.id));
+    const captains = serving.filter((pilot) => pilot.role === 'Captain');
+    const firstOfficers = serving.filter((pilot) => pilot.role === 'First Officer');
+    const totalPilots = captains.length + firstOfficers.length;
+
+    months.push({
+      month,
+      numberOfAircraft,
+      captains: position(captains.length, requirements.captainsPerHull * numberOfAircraft),
+      firstOfficers: position(
+        firstOfficers.length,
+        requirements.firstOfficersPerHull * numberOfAircraft
+      ),
+      trainingCaptains: position(
+        captains.filter((pilot) => pilot.qualifications.includes('training_captain')).length,
+        Math.ceil(totalPilots / requirements.pilotsPerTrainingCaptain)
+      ),
+      examiners: position(
+        captains.filter((pilot) => pilot.qualifications.includes('examiner')).length,
+        Math.ceil(totalPilots / requirements.pilotsPerExaminer)
+      ),
+      events,
+    });
+  }
+
+  const shortfalls = findShortfallWindows(months);
+  const firstShortfall = Object.fromEntries(
+    CATEGORIES.map((category) => [
+      category,
+      shortfalls.find((window) => window.category === category)?.from || null,
+    ])
+  ) as Record<ManpowerCategory, string | null>;
+
+  return {
+    startMonth: plan.startMonth,
+    endMonth: months[months.length - 1]?.month || plan.startMonth,
+    requirements,
+    months,
+    shortfalls,
+    summary: { ...totals, firstShortfall },
+  };
+}
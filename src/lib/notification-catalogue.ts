@@ -0,0 +1,518 @@
+/**
+ * @fileoverview Notification Catalogue
+ * Every notification the system sends, staff or pilot, with the channels it
+ * goes out on by default, and the rules that turn a recipient's
+ * notification_preferences into one delivery per channel: opted-out
+ * categories, quiet hours (Port Moresby time) and daily digests.
+ * Pure functions - data access lives in notification-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { EmailLocale } from '@/lib/email-templates';
+
+export type NotificationChannel = 'in_app' | 'email' | 'sms' | 'push';
+
+export type NotificationRecipientType = 'staff' | 'pilot';
+
+export type DeliveryStatus = 'pending' | 'digest' | 'sent' | 'failed' | 'skipped';
+
+export type NotificationCategory =
+  | 'certification'
+  | 'leave'
+  | 'requests'
+  | 'community'
+  | 'registration'
+  | 'disciplinary'
+  | 'system';
+
+/** Opt-out columns of notification_preferences a type is governed by */
+export type NotificationPreferenceKey =
+  | 'certification_expiry_alerts'
+  | 'leave_request_alerts'
+  | 'leave_approval_alerts'
+  | 'system_notifications';
+
+/**
+ * Email layouts in email-service, filled from the notification's metadata;
+ * other types use the system notification layout
+ */
+export type NotificationEmailTemplate = 'certification_expiry' | 'leave_request' | 'leave_approval';
+
+export interface NotificationTypeDefinition {
+  label: string;
+  category: NotificationCategory;
+  audience: NotificationRecipientType[];
+  /** Channels used unless the recipient overrides them for this type */
+  channels: NotificationChannel[];
+  preference?: NotificationPreferenceKey;
+  email?: NotificationEmailTemplate;
+  /** Delivered straight away, ignoring quiet hours and digests */
+  urgent?: boolean;
+  /** Account decisions that preferences cannot turn off */
+  transactional?: boolean;
+  /** lucide icon name and badge colour for inbox lists */
+  icon: string;
+  color: string;
+}
+
+const staff: NotificationRecipientType[] = ['staff'];
+const pilot: NotificationRecipientType[] = ['pilot'];
+const everyone: NotificationRecipientType[] = ['staff', 'pilot'];
+
+const inAppAndEmail: NotificationChannel[] = ['in_app', 'email'];
+
+export const NOTIFICATION_TYPES = {
+  certification_expiring: {
+    label: 'Certification expiring',
+    category: 'certification',
+    audience: everyone,
+    channels: ['in_app', 'email', 'sms', 'push'],
+    preference: 'certification_expiry_alerts',
+    email: 'certification_expiry',
+    icon: 'alert-triangle',
+    color: 'yellow',
+  },
+  leave_request_submitted: {
+    label: 'Leave request submitted',
+    category: 'leave',
+    audience: everyone,
+    channels: inAppAndEmail,
+    preference: 'leave_request_alerts',
+    email: 'leave_request',
+    icon: 'calendar-plus',
+    color: 'blue',
+  },
+  leave_request_approved: {
+    label: 'Leave request approved',
+    category: 'leave',
+    audience: pilot,
+    channels: inAppAndEmail,
+    preference: 'leave_approval_alerts',
+    email: 'leave_approval',
+    icon: 'check-circle',
+    color: 'green',
+  },
+  leave_request_rejected: {
+    label: 'Leave request rejected',
+    category: 'leave',
+    audience: pilot,
+    channels: inAppAndEmail,
+    preference: 'leave_approval_alerts',
+    email: 'leave_approval',
+    icon: 'x-circle',
+    color: 'red',
+  },
+  leave_request_withdrawn: {
+    label: 'Leave request withdrawn',
+    category: 'leave',
+    audience: staff,
+    channels: ['in_app'],
+    preference: 'leave_request_alerts',
+    icon: 'calendar-x',
+    color: 'gray',
+  },
+  leave_request_cancelled: {
+    label: 'Leave request cancelled',
+    category: 'leave',
+    audience: everyone,
+    channels: ['in_app'],
+    preference: 'leave_approval_alerts',
+    icon: 'calendar-x',
+    color: 'gray',
+  },
+  leave_bid_approved: {
+    label: 'Leave bid awarded',
+    category: 'leave',
+    audience: pilot,
+    channels: inAppAndEmail,
+    preference: 'leave_approval_alerts',
+    icon: 'check-circle',
+    color: 'green',
+  },
+  leave_bid_rejected: {
+    label: 'Leave bid not awarded',
+    category: 'leave',
+    audience: pilot,
+    channels: inAppAndEmail,
+    preference: 'leave_approval_alerts',
+    icon: 'x-circle',
+    color: 'red',
+  },
+  flight_request_under_review: {
+    label: 'Flight request under review',
+    category: 'requests',
+    audience: pilot,
+    channels: ['in_app'],
+    icon: 'eye',
+    color: 'blue',
+  },
+  flight_request_approved: {
+    label: 'Flight request approved',
+    category: 'requests',
+    audience: pilot,
+    channels: inAppAndEmail,
+    icon: 'check-circle',
+    color: 'green',
+  },
+  flight_request_rejected: {
+    label: 'Flight request rejected',
+    category: 'requests',
+    audience: pilot,
+    channels: inAppAndEmail,
+    icon: 'x-circle',
+    color: 'red',
+  },
+  flight_request_completed: {
+    label: 'Flight request completed',
+    category: 'requests',
+    audience: pilot,
+    channels: ['in_app'],
+    icon: 'check-circle',
+    color: 'green',
+  },
+  flight_request_cancelled: {
+    label: 'Flight request cancelled',
+    category: 'requests',
+    audience: pilot,
+    channels: inAppAndEmail,
+    icon: 'plane',
+    color: 'gray',
+  },
+  post_reply: {
+    label: 'Reply to your post',
+    category: 'community',
+    audience: pilot,
+    channels: ['in_app'],
+    icon: 'message-square',
+    color: 'purple',
+  },
+  post_liked: {
+    label: 'Post liked',
+    category: 'community',
+    audience: pilot,
+    channels: ['in_app'],
+    icon: 'heart',
+    color: 'pink',
+  },
+  comment_reply: {
+    label: 'Reply to your comment',
+    category: 'community',
+    audience: pilot,
+    channels: ['in_app'],
+    icon: 'message-square',
+    color: 'purple',
+  },
+  post_flagged: {
+    label: 'Post flagged',
+    category: 'community',
+    audience: staff,
+    channels: ['in_app'],
+    icon: 'flag',
+    color: 'orange',
+  },
+  comment_flagged: {
+    label: 'Comment flagged',
+    category: 'community',
+    audience: staff,
+    channels: ['in_app'],
+    icon: 'flag',
+    color: 'orange',
+  },
+  pilot_registration_pending: {
+    label: 'Pilot registration pending',
+    category: 'registration',
+    audience: staff,
+    channels: inAppAndEmail,
+    preference: 'system_notifications',
+    icon: 'user-plus',
+    color: 'blue',
+  },
+  pilot_registration_approved: {
+    label: 'Registration approved',
+    category: 'registration',
+    audience: pilot,
+    channels: inAppAndEmail,
+    transactional: true,
+    icon: 'check-circle',
+    color: 'green',
+  },
+  pilot_registration_rejected: {
+    label: 'Registration rejected',
+    category: 'registration',
+    audience: pilot,
+    channels: inAppAndEmail,
+    transactional: true,
+    icon: 'x-circle',
+    color: 'red',
+  },
+  disciplinary_deadline: {
+    label: 'Disciplinary deadline',
+    category: 'disciplinary',
+    audience: staff,
+    channels: inAppAndEmail,
+    icon: 'alert-triangle',
+    color: 'orange',
+  },
+  system_announcement: {
+    label: 'Announcement',
+    category: 'system',
+    audience: everyone,
+    channels: inAppAndEmail,
+    preference: 'system_notifications',
+    icon: 'megaphone',
+    color: 'orange',
+  },
+  system_alert: {
+    label: 'System alert',
+    category: 'system',
+    audience: staff,
+    channels: inAppAndEmail,
+    preference: 'system_notifications',
+    icon: 'info',
+    color: 'gray',
+  },
+} satisfies Record<string, NotificationTypeDefinition>;
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES;
+
+export const NOTIFICATION_TYPE_NAMES = Object.keys(NOTIFICATION_TYPES) as NotificationType[];
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  certification: 'Certifications',
+  leave: 'Leave',
+  requests: 'Flight Requests',
+  community: 'Community',
+  registration: 'Registrations',
+  disciplinary: 'Disciplinary',
+  system: 'System',
+};
+
+/** A recipient's notification_preferences, without the row's identity columns */
+export interface NotificationPreferences {
+  in_app_enabled: boolean;
+  email_enabled: boolean;
+  email_address: string | null;
+  sms_enabled: boolean;
+  phone_number: string | null;
+  push_enabled: boolean;
+  certification_expiry_alerts: boolean;
+  certification_expiry_days: number;
+  leave_request_alerts: boolean;
+  leave_approval_alerts: boolean;
+  system_notifications: boolean;
+  daily_digest: boolean;
+  /** HH:mm[:ss], Port Moresby time */
+  digest_time: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  /** Channels to use for a type instead of its defaults */
+  channel_overrides: Partial<Record<NotificationType, NotificationChannel[]>>;
+  /** Language emails are sent in, where the template has a translation */
+  language: EmailLocale;
+}
+
+/** What a recipient without a notification_preferences row gets */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  in_app_enabled: true,
+  email_enabled: true,
+  email_address: null,
+  sms_enabled: false,
+  phone_number: null,
+  push_enabled: false,
+  certification_expiry_alerts: true,
+  certification_expiry_days: 30,
+  leave_request_alerts: true,
+  leave_approval_alerts: true,
+  system_notifications: true,
+  daily_digest: false,
+  digest_time: '08:00:00',
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  channel_overrides: {},
+  language: 'en',
+};
+
+export interface DeliveryPlan {
+  channel: NotificationChannel;
+  status: Extract<DeliveryStatus, 'pending' | 'digest' | 'sent' | 'skipped'>;
+  scheduledFor: Date;
+  /** Why a channel was skipped or held back */
+  reason?: string;
+}
+
+/** Port Moresby is UTC+10 all year */
+const LOCAL_OFFSET_MINUTES = 10 * 60;
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Delays before each retry of a failed delivery */
+const RETRY_DELAY_MINUTES = [5, 15, 60];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAY_MINUTES.length + 1;
+
+export function isNotificationType(type: string): type is NotificationType {
+  return Object.prototype.hasOwnProperty.call(NOTIFICATION_TYPES, type);
+}
+
+export function getNotificationType(type: string): NotificationTypeDefinition | null {
+  return isNotificationType(type) ? NOTIFICATION_TYPES[type] : null;
+}
+
+/**
+ * Icon name for a notification type in inbox lists
+ */
+export function getNotificationIcon(type: string): string {
+  return getNotificationType(type)?.icon ?? 'bell';
+}
+
+/**
+ * Badge colour for a notification type in inbox lists
+ */
+export function getNotificationColor(type: string): string {
+  return getNotificationType(type)?.color ?? 'gray';
+}
+
+/** Minutes past local midnight of an HH:mm[:ss] time, or null when malformed */
+function parseLocalTime(time: string | null): number | null {
+  const match = time?.match(/^(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < MINUTES_PER_DAY ? minutes : null;
+}
+
+function localMinutes(now: Date): number {
+  return Math.floor((now.getTime() / 60000 + LOCAL_OFFSET_MINUTES) % MINUTES_PER_DAY);
+}
+
+/** The next time the clock shows the given local time; the current minute counts */
+function nextLocalTime(now: Date, minutes: number): Date {
+  const wait = (minutes - localMinutes(now) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return new Date(Math.floor(now.getTime() / 60000) * 60000 + wait * 60000);
+}
+
+/**
+ * When the recipient's quiet hours end, or null outside quiet hours. Windows
+ * may span midnight (22:00 - 06:00)
+ */
+export function quietHoursEnd(now: Date, preferences: NotificationPreferences): Date | null {
+  const start = parseLocalTime(preferences.quiet_hours_start);
+  const end = parseLocalTime(preferences.quiet_hours_end);
+  if (start === null || end === null || start === end) return null;
+
+  const current = localMinutes(now);
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+  return quiet ? nextLocalTime(now, end) : null;
+}
+
+/**
+ * When the recipient's next daily digest goes out
+ */
+export function nextDigestTime(now: Date, preferences: NotificationPreferences): Date {
+  const digest = parseLocalTime(preferences.digest_time) ?? parseLocalTime('08:00')!;
+  return nextLocalTime(now, digest);
+}
+
+function channelDisabledReason(
+  channel: NotificationChannel,
+  preferences: NotificationPreferences
+): string | null {
+  switch (channel) {
+    case 'in_app':
+      return preferences.in_app_enabled ? null : 'In-app notifications turned off';
+    case 'email':
+      return preferences.email_enabled ? null : 'Email turned off';
+    case 'sms':
+      if (!preferences.sms_enabled) return 'SMS turned off';
+      return preferences.phone_number ? null : 'No phone number';
+    case 'push':
+      return preferences.push_enabled ? null : 'Push notifications turned off';
+  }
+}
+
+/**
+ * One delivery per channel of a notification for a recipient. Transactional
+ * types ignore preferences; urgent ones (or an urgent event) ignore quiet
+ * hours and digests. In-app notifications are never held back, and only
+ * email is batched into the daily digest.
+ */
+export function planDeliveries(
+  type: NotificationType,
+  preferences: NotificationPreferences,
+  now: Date = new Date(),
+  options: { urgent?: boolean } = {}
+): DeliveryPlan[] {
+  const definition: NotificationTypeDefinition = NOTIFICATION_TYPES[type];
+  const channels = definition.transactional
+    ? definition.channels
+    : (preferences.channel_overrides[type] ?? definition.channels);
+  const urgent = options.urgent || definition.urgent || definition.transactional;
+  const optedOut =
+    !definition.transactional && definition.preference && !preferences[definition.preference];
+  const quietUntil = urgent ? null : quietHoursEnd(now, preferences);
+
+  return channels.map((channel): DeliveryPlan => {
+    if (optedOut) {
+      return { channel, status: 'skipped', scheduledFor: now, reason: 'Turned off in preferences' };
+    }
+
+    const disabled = definition.transactional ? null : channelDisabledReason(channel, preferences);
+    if (disabled) return { channel, status: 'skipped', scheduledFor: now, reason: disabled };
+
+    if (channel === 'in_app') return { channel, status: 'sent', scheduledFor: now };
+
+    if (channel === 'email' && preferences.daily_digest && !urgent) {
+      return { channel, status: 'digest', scheduledFor: nextDigestTime(now, preferences) };
+    }
+
+    if (quietUntil) {
+      return { channel, status: 'pending', scheduledFor: quietUntil, reason: 'Quiet hours' };
+    }
+
+    return { channel, status: 'pending', scheduledFor: now };
+  });
+}
+
+/**
+ * When to try a failed delivery again after the given number of attempts, or
+ * null once it has used all its attempts
+ */
+export function nextDeliveryAttempt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null;
+  const delay = RETRY_DELAY_MINUTES[Math.max(attempts - 1, 0)]!;
+  return new Date(now.getTime() + delay * 60000);
+}
+
+export interface DigestItem {
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  created_at: string;
+}
+
+export interface NotificationDigest {
+  date: string;
+  count: number;
+  sections: { label: string; items: DigestItem[] }[];
+}
+
+/**
+ * A daily digest email of held notifications, grouped by category in
+ * catalogue order, oldest first within a category
+ */
+export function buildDigest(items: DigestItem[], date: string): NotificationDigest {
+  const labels = Object.entries(NOTIFICATION_CATEGORY_LABELS) as [NotificationCategory, string][];
+  const categoryOf = (item: DigestItem) => getNotificationType(item.type)?.category ?? 'system';
+
+  const sections = labels
+    .map(([category, label]) => ({
+      label,
+      items: items
+        .filter((item) => categoryOf(item) === category)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+    .filter((section) => section.items.length > 0);
+
+  return { date, count: items.length, sections };
+}
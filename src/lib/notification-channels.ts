@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Notification Channels
+ * Adapters that deliver a notification on a channel other than in-app. Email
+ * goes through email-service (Resend). SMS and push are pluggable: register an
+ * adapter for a gateway, or set NOTIFICATION_SMS_WEBHOOK_URL /
+ * NOTIFICATION_PUSH_WEBHOOK_URL to post each message as JSON to a gateway
+ * that forwards it. Deliveries on a channel without an adapter are skipped.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  sendCertificationExpiryAlert,
+  sendLeaveApprovalNotification,
+  sendLeaveRequestNotification,
+  sendSystemNotification,
+} from '@/lib/email-service';
+import { getEmailTransport } from '@/lib/email-transport';
+import type { EmailLocale } from '@/lib/email-templates';
+import {
+  getNotificationType,
+  type NotificationChannel,
+  type NotificationRecipientType,
+} from '@/lib/notification-catalogue';
+
+export type ExternalChannel = Exclude<NotificationChannel, 'in_app'>;
+
+/** Metadata of certification expiry notifications, which fills the expiry alert email */
+export interface CertificationExpiryMetadata {
+  pilot_id: string;
+  pilot_name: string;
+  employee_id: string;
+  check_code: string;
+  check_description: string;
+  expiry_date: string;
+  days_remaining: number;
+  category: string;
+}
+
+/** Metadata of leave notifications, which fills the leave request and decision emails */
+export interface LeaveNotificationMetadata {
+  pilot_name: string;
+  leave_type: string;
+  start_date: string;
+  end_date: string;
+  roster_period: string;
+  status?: string;
+  comments?: string;
+  approver_name?: string;
+}
+
+type EmailMetadataFields = CertificationExpiryMetadata & LeaveNotificationMetadata;
+
+/**
+ * Context kept with a notification. The fields its email template needs are
+ * set by whoever raises a notification of that type
+ */
+export type NotificationMetadata = Partial<EmailMetadataFields> & Record<string, unknown>;
+
+/** A notification as handed to a channel adapter */
+export interface ChannelMessage {
+  deliveryId: string;
+  recipientId: string;
+  recipientType: NotificationRecipientType;
+  recipientName: string | null;
+  /** Email address or phone number; null for push, addressed by recipient */
+  address: string | null;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  metadata: NotificationMetadata;
+  urgent: boolean;
+  /** Language for the email, where its template has a translation */
+  locale: EmailLocale;
+}
+
+export interface ChannelSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface NotificationChannelAdapter {
+  channel: ExternalChannel;
+  /** Recorded on the delivery, e.g. 'resend' */
+  readonly provider: string;
+  send(message: ChannelMessage): Promise<ChannelSendResult>;
+}
+
+const GATEWAY_TIMEOUT_MS = 10000;
+
+/**
+ * Email from the template the notification type names, filled from its
+ * metadata, sent through the configured email transport
+ */
+const emailAdapter: NotificationChannelAdapter = {
+  channel: 'email',
+  get provider() {
+    return getEmailTransport().name;
+  },
+  async send(message) {
+    if (!message.address) return { success: false, error: 'No email address' };
+
+    const recipient = { email: message.address, name: message.recipientName || undefined };
+
+    switch (getNotificationType(message.type)?.email) {
+      case 'certification_expiry': {
+        const data = message.metadata as CertificationExpiryMetadata;
+        return sendCertificationExpiryAlert(
+          recipient,
+          {
+            pilotId: data.pilot_id,
+            pilotName: data.pilot_name,
+            employeeId: data.employee_id,
+            checkCode: data.check_code,
+            checkDescription: data.check_description,
+            expiryDate: new Date(data.expiry_date),
+            daysRemaining: data.days_remaining,
+            category: data.category,
+          },
+          message.locale
+        );
+      }
+
+      case 'leave_request': {
+        const data = message.metadata as LeaveNotificationMetadata;
+        return sendLeaveRequestNotification(
+          recipient,
+          {
+            pilotName: data.pilot_name,
+            leaveType: data.leave_type,
+            startDate: new Date(data.start_date),
+            endDate: new Date(data.end_date),
+            rosterPeriod: data.roster_period,
+            comments: data.comments,
+          },
+          message.locale
+        );
+      }
+
+      case 'leave_approval': {
+        const data = message.metadata as LeaveNotificationMetadata;
+        return sendLeaveApprovalNotification(
+          recipient,
+          {
+            pilotName: data.pilot_name,
+            leaveType: data.leave_type,
+            startDate: new Date(data.start_date),
+            endDate: new Date(data.end_date),
+            rosterPeriod: data.roster_period,
+            status: data.status,
+            comments: data.comments,
+            approverName: data.approver_name,
+          },
+          message.type === 'leave_request_approved',
+          message.locale
+        );
+      }
+
+      default:
+        return sendSystemNotification(
+          recipient,
+          {
+            title: message.title,
+            message: message.message,
+            actionUrl: message.link
+              ? `${process.env.NEXT_PUBLIC_APP_URL || ''}${message.link}`
+              : undefined,
+            priority: message.urgent ? 'high' : 'medium',
+          },
+          message.locale
+        );
+    }
+  },
+};
+
+/**
+ * Posts each message as JSON to an SMS or push gateway; a 2xx response counts
+ * as delivered and an "id" in the response body is kept as the message id
+ */
+export function createGatewayChannelAdapter(
+  channel: ExternalChannel,
+  url: string,
+  provider: string = 'gateway'
+): NotificationChannelAdapter {
+  return {
+    channel,
+    provider,
+    async send(message) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ channel, ...message }),
+          signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          return { success: false, error: `Gateway responded ${response.status}` };
+        }
+
+        const body = await response.json().catch(() => null);
+        return { success: true, messageId: body?.id ? String(body.id) : undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    },
+  };
+}
+
+const adapters = new Map<ExternalChannel, NotificationChannelAdapter>([['email', emailAdapter]]);
+
+if (process.env.NOTIFICATION_SMS_WEBHOOK_URL) {
+  adapters.set('sms', createGatewayChannelAdapter('sms', process.env.NOTIFICATION_SMS_WEBHOOK_URL));
+}
+if (process.env.NOTIFICATION_PUSH_WEBHOOK_URL) {
+  adapters.set(
+    'push',
+    createGatewayChannelAdapter('push', process.env.NOTIFICATION_PUSH_WEBHOOK_URL)
+  );
+}
+
+/**
+ * Delivers a channel through the given adapter from now on, replacing any
+ * adapter registered for it before
+ */
+export function registerNotificationChannel(adapter: NotificationChannelAdapter): void {
+  adapters.set(adapter.channel, adapter);
+}
+
+export function getNotificationChannel(
+  channel: ExternalChannel
+): NotificationChannelAdapter | null {
+  return adapters.get(channel) ?? null;
+}
@@ -0,0 +1,657 @@
+/**
+ * @fileoverview Notification Service
+ * The one pipeline every notification goes through, for staff and pilots
+ * alike. notify() records the notification (the notifications table is the
+ * inbox both NotificationCenter and the pilot portal read) and plans one
+ * delivery per channel from the recipient's notification_preferences
+ * (notification_deliveries). In-app delivery is immediate; email, SMS and
+ * push deliveries are sent by the process-queue cron job once due - after
+ * quiet hours, or batched into the recipient's daily digest - and retried
+ * with backoff.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { format } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { sendNotificationDigest } from '@/lib/email-service';
+import { getEmailTransport } from '@/lib/email-transport';
+import type { EmailLocale } from '@/lib/email-templates';
+import {
+  getNotificationChannel,
+  type ExternalChannel,
+  type NotificationMetadata,
+} from '@/lib/notification-channels';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  buildDigest,
+  nextDeliveryAttempt,
+  planDeliveries,
+  type DeliveryPlan,
+  type DigestItem,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationRecipientType,
+  type NotificationType,
+} from '@/lib/notification-catalogue';
+
+export interface NotificationRecipient {
+  /** an_users id for staff, pilot_users id for pilots */
+  id: string;
+  type: NotificationRecipientType;
+}
+
+export interface NotificationEvent {
+  type: NotificationType;
+  recipients: NotificationRecipient[];
+  title: string;
+  message: string;
+  /** App path the notification opens */
+  link?: string | null;
+  /** Context kept with the notification; email layouts are filled from it */
+  metadata?: Record<string, unknown>;
+  senderId?: string | null;
+  /** Deliver at once, regardless of quiet hours and digests */
+  urgent?: boolean;
+}
+
+export interface NotifyResult {
+  notificationIds: string[];
+  /** Recipients the notification could not be recorded for */
+  failed: number;
+}
+
+export interface InboxNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  link: string | null;
+  metadata: Record<string, unknown> | null;
+  is_read: boolean | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface InboxFilters {
+  unreadOnly?: boolean;
+  type?: string;
+  limit?: number;
+}
+
+export interface ProcessDeliveriesResult {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  skipped: number;
+  errors: string[];
+}
+
+export interface SendDigestsResult {
+  digests: number;
+  notifications: number;
+  errors: string[];
+}
+
+/** Preference fields recipients may change */
+export type NotificationPreferenceChanges = Partial<NotificationPreferences>;
+
+interface RecipientSettings {
+  name: string | null;
+  accountEmail: string | null;
+  preferences: NotificationPreferences;
+}
+
+/** notification_preferences row; unset columns are null */
+type NotificationPreferencesRow = {
+  [Field in keyof NotificationPreferences]?: NotificationPreferences[Field] | null;
+};
+
+interface RecipientAccount {
+  name: string | null;
+  email: string | null;
+}
+
+const PREFERENCE_FIELDS = Object.keys(
+  DEFAULT_NOTIFICATION_PREFERENCES
+) as (keyof NotificationPreferences)[];
+
+const INBOX_COLUMNS = 'id, type, title, message, link, metadata, is_read, read_at, created_at';
+
+const preferenceOwnerColumn = (type: NotificationRecipientType) =>
+  type === 'staff' ? 'user_id' : 'pilot_user_id';
+
+function toPreferences(row: NotificationPreferencesRow | null): NotificationPreferences {
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  if (!row) return preferences;
+
+  for (const field of PREFERENCE_FIELDS) {
+    const value = row[field];
+    if (value !== null && value !== undefined) {
+      Object.assign(preferences, { [field]: value });
+    }
+  }
+  return preferences;
+}
+
+/**
+ * The recipient's display name and account email, from an_users for staff and
+ * pilot_users for pilots
+ */
+async function loadRecipientAccount(recipient: NotificationRecipient): Promise<RecipientAccount> {
+  const supabase = getSupabaseAdmin();
+
+  if (recipient.type === 'staff') {
+    const { data, error } = await supabase
+      .from('an_users')
+      .select('name, email')
+      .eq('id', recipient.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    const user = data as { name: string | null; email: string | null } | null;
+    return { name: user?.name || null, email: user?.email || null };
+  }
+
+  const { data, error } = await supabase
+    .from('pilot_users')
+    .select('first_name, last_name, email')
+    .eq('id', recipient.id)
+    .maybeSingle();
+  if (error) throw error;
+
+  const user = data as { first_name: string; last_name: string; email: string | null } | null;
+  return {
+    name: user ? `${user.first_name} ${user.last_name}` : null,
+    email: user?.email || null,
+  };
+}
+
+/**
+ * The recipient's name, account email and preferences (defaults without a row)
+ */
+async function loadRecipientSettings(recipient: NotificationRecipient): Promise<RecipientSettings> {
+  const [account, { data: row, error: prefsError }] = await Promise.all([
+    loadRecipientAccount(recipient),
+    getSupabaseAdmin()
+      .from('notification_preferences')
+      .select('*')
+      .eq(preferenceOwnerColumn(recipient.type), recipient.id)
+      .maybeSingle(),
+  ]);
+
+  if (prefsError) throw prefsError;
+
+  return { name: account.name, accountEmail: account.email, preferences: toPreferences(row) };
+}
+
+function deliveryAddress(channel: NotificationChannel, settings: RecipientSettings): string | null {
+  switch (channel) {
+    case 'email':
+      return settings.preferences.email_address || settings.accountEmail;
+    case 'sms':
+      return settings.preferences.phone_number;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Record a notification for each recipient and plan its deliveries. Failures
+ * are logged per recipient and never thrown, so a notification cannot fail
+ * the action that caused it.
+ */
+export async function notify(event: NotificationEvent): Promise<NotifyResult> {
+  const supabase = getSupabaseAdmin();
+  const result: NotifyResult = { notificationIds: [], failed: 0 };
+  const now = new Date();
+
+  for (const recipient of event.recipients) {
+    try {
+      const settings = await loadRecipientSettings(recipient);
+      const plans = planDeliveries(event.type, settings.preferences, now, {
+        urgent: event.urgent,
+      }).map((plan): DeliveryPlan & { address: string | null } => {
+        const address = deliveryAddress(plan.channel, settings);
+        const unaddressed =
+          (plan.channel === 'email' || plan.channel === 'sms') &&
+          !address &&
+          plan.status !== 'skipped';
+        return unaddressed
+          ? { ...plan, status: 'skipped', reason: `No ${plan.channel} address`, address }
+          : { ...plan, address };
+      });
+
+      const { data: notification, error } = await supabase
+        .from('notifications')
+        .insert({
+          recipient_id: recipient.id,
+          recipient_type: recipient.type,
+          sender_id: event.senderId || null,
+          type: event.type,
+          title: event.title,
+          message: event.message,
+          link: event.link || null,
+          metadata: event.metadata || {},
+          in_app: plans.some((plan) => plan.channel === 'in_app' && plan.status === 'sent'),
+        })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      if (plans.length > 0) {
+        const { error: deliveriesError } = await supabase.from('notification_deliveries').insert(
+          plans.map((plan) => ({
+            notification_id: notification.id,
+            recipient_id: recipient.id,
+            recipient_type: recipient.type,
+            recipient_name: settings.name,
+            channel: plan.channel,
+            address: plan.address,
+            status: plan.status,
+            status_reason: plan.reason || null,
+            priority: event.urgent ? 1 : 5,
+            locale: settings.preferences.language,
+            scheduled_for: plan.scheduledFor.toISOString(),
+            sent_at: plan.status === 'sent' ? now.toISOString() : null,
+          }))
+        );
+        if (deliveriesError) throw deliveriesError;
+      }
+
+      result.notificationIds.push(notification.id);
+    } catch (error) {
+      result.failed++;
+      logger.error('Error sending notification', {
+        type: event.type,
+        recipientId: recipient.id,
+        error,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The approved portal user of a pilot, who receives the pilot's notifications
+ */
+export async function getPilotRecipient(pilotId: string): Promise<NotificationRecipient | null> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: pilot, error: pilotError } = await supabase
+    .from('pilots')
+    .select('employee_id')
+    .eq('id', pilotId)
+    .maybeSingle();
+  if (pilotError) throw pilotError;
+  if (!pilot?.employee_id) return null;
+
+  const { data: pilotUser, error: userError } = await supabase
+    .from('pilot_users')
+    .select('id')
+    .eq('employee_id', pilot.employee_id)
+    .eq('registration_approved', true)
+    .maybeSingle();
+  if (userError) throw userError;
+
+  return pilotUser ? { id: pilotUser.id, type: 'pilot' } : null;
+}
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+export async function getNotificationPreferences(
+  recipient: NotificationRecipient
+): Promise<NotificationPreferences & { email_address: string | null }> {
+  try {
+    const settings = await loadRecipientSettings(recipient);
+    return {
+      ...settings.preferences,
+      email_address: settings.preferences.email_address || settings.accountEmail,
+    };
+  } catch (error) {
+    logger.error('Error fetching notification preferences', { recipientId: recipient.id, error });
+    throw new Error('Failed to fetch notification preferences');
+  }
+}
+
+export async function updateNotificationPreferences(
+  recipient: NotificationRecipient,
+  changes: NotificationPreferenceChanges
+): Promise<NotificationPreferences> {
+  const supabase = getSupabaseAdmin();
+  const owner = preferenceOwnerColumn(recipient.type);
+  const update = Object.fromEntries(
+    Object.entries(changes).filter(
+      ([field, value]) =>
+        PREFERENCE_FIELDS.includes(field as keyof NotificationPreferences) && value !== undefined
+    )
+  );
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({ ...update, [owner]: recipient.id }, { onConflict: owner })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('Error updating notification preferences', { recipientId: recipient.id, error });
+    throw new Error('Failed to update notification preferences');
+  }
+
+  return toPreferences(data);
+}
+
+// ============================================================================
+// INBOX
+// ============================================================================
+
+/**
+ * The recipient's in-app notifications, newest first
+ */
+export async function getInboxNotifications(
+  recipientId: string,
+  filters: InboxFilters = {}
+): Promise<InboxNotification[]> {
+  const supabase = getSupabaseAdmin();
+
+  let query = supabase
+    .from('notifications')
+    .select(INBOX_COLUMNS)
+    .eq('recipient_id', recipientId)
+    .eq('in_app', true)
+    .order('created_at', { ascending: false })
+    .limit(filters.limit || 50);
+
+  if (filters.unreadOnly) query = query.eq('is_read', false);
+  if (filters.type) query = query.eq('type', filters.type);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Error fetching notifications', { recipientId, error });
+    throw new Error('Failed to fetch notifications');
+  }
+
+  return (data || []) as InboxNotification[];
+}
+
+export async function getUnreadNotificationCount(recipientId: string): Promise<number> {
+  const supabase = getSupabaseAdmin();
+
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', recipientId)
+    .eq('in_app', true)
+    .eq('is_read', false);
+
+  if (error) {
+    logger.error('Error counting unread notifications', { recipientId, error });
+    throw new Error('Failed to count unread notifications');
+  }
+
+  return count || 0;
+}
+
+/**
+ * Mark the given notifications, or all of them, as read
+ */
+export async function markNotificationsRead(recipientId: string, ids?: string[]): Promise<number> {
+  const supabase = getSupabaseAdmin();
+
+  let query = supabase
+    .from('notifications')
+    .update({ is_read: true, read_at: new Date().toISOString() })
+    .eq('recipient_id', recipientId)
+    .eq('is_read', false);
+
+  if (ids) query = query.in('id', ids);
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    logger.error('Error marking notifications as read', { recipientId, error });
+    throw new Error('Failed to mark notifications as read');
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Remove a notification from the recipient's inbox; its delivery record is kept
+ */
+export async function dismissNotification(recipientId: string, id: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from('notifications')
+    .update({ in_app: false })
+    .eq('id', id)
+    .eq('recipient_id', recipientId)
+    .select('id');
+
+  if (error) {
+    logger.error('Error dismissing notification', { recipientId, id, error });
+    throw new Error('Failed to dismiss notification');
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+interface DueDelivery {
+  id: string;
+  recipient_id: string;
+  recipient_type: NotificationRecipientType;
+  recipient_name: string | null;
+  channel: ExternalChannel;
+  address: string | null;
+  attempts: number;
+  priority: number;
+  locale: EmailLocale;
+  notification: {
+    type: string;
+    title: string;
+    message: string;
+    link: string | null;
+    metadata: NotificationMetadata | null;
+    created_at: string;
+  };
+}
+
+const DUE_DELIVERY_COLUMNS = `
+  id, recipient_id, recipient_type, recipient_name, channel, address, attempts, priority, locale,
+  notification:notifications!inner (type, title, message, link, metadata, created_at)
+`;
+
+async function updateDeliveries(ids: string[], update: Record<string, unknown>): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('notification_deliveries')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .in('id', ids);
+
+  if (error) {
+    logger.error('Error updating notification deliveries', { ids, error });
+  }
+}
+
+/**
+ * Send email, SMS and push deliveries that are due, most urgent first. Failed
+ * sends are retried with backoff until MAX_DELIVERY_ATTEMPTS
+ */
+export async function processNotificationDeliveries(
+  limit: number = 100,
+  now: Date = new Date()
+): Promise<ProcessDeliveriesResult> {
+  const supabase = getSupabaseAdmin();
+  const result: ProcessDeliveriesResult = {
+    processed: 0,
+    sent: 0,
+    retrying: 0,
+    failed: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .select(DUE_DELIVERY_COLUMNS)
+    .eq('status', 'pending')
+    .neq('channel', 'in_app')
+    .lte('scheduled_for', now.toISOString())
+    .order('priority', { ascending: true })
+    .order('scheduled_for', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Error fetching due notification deliveries', error);
+    throw new Error('Failed to fetch notification deliveries');
+  }
+
+  for (const delivery of (data || []) as unknown as DueDelivery[]) {
+    result.processed++;
+
+    const adapter = getNotificationChannel(delivery.channel);
+    if (!adapter) {
+      result.skipped++;
+      await updateDeliveries([delivery.id], {
+        status: 'skipped',
+        status_reason: `No ${delivery.channel} adapter configured`,
+      });
+      continue;
+    }
+
+    const { notification } = delivery;
+    const sent = await adapter
+      .send({
+        deliveryId: delivery.id,
+        recipientId: delivery.recipient_id,
+        recipientType: delivery.recipient_type,
+        recipientName: delivery.recipient_name,
+        address: delivery.address,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        link: notification.link,
+        metadata: notification.metadata || {},
+        urgent: delivery.priority === 1,
+        locale: delivery.locale,
+      })
+      .catch((sendError: unknown) => ({
+        success: false,
+        messageId: undefined,
+        error: sendError instanceof Error ? sendError.message : 'Unknown error',
+      }));
+
+    const attempts = delivery.attempts + 1;
+    if (sent.success) {
+      result.sent++;
+      await updateDeliveries([delivery.id], {
+        status: 'sent',
+        attempts,
+        provider: adapter.provider,
+        provider_message_id: sent.messageId || null,
+        sent_at: new Date().toISOString(),
+        error_message: null,
+      });
+      continue;
+    }
+
+    const retryAt = nextDeliveryAttempt(attempts, now);
+    result.errors.push(`${delivery.id}: ${sent.error}`);
+    if (retryAt) result.retrying++;
+    else result.failed++;
+
+    await updateDeliveries([delivery.id], {
+      status: retryAt ? 'pending' : 'failed',
+      attempts,
+      provider: adapter.provider,
+      scheduled_for: (retryAt || now).toISOString(),
+      error_message: sent.error || 'Unknown error',
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Send each recipient whose digest time has come one email with the
+ * notifications held for it
+ */
+export async function sendNotificationDigests(now: Date = new Date()): Promise<SendDigestsResult> {
+  const supabase = getSupabaseAdmin();
+  const result: SendDigestsResult = { digests: 0, notifications: 0, errors: [] };
+
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .select(DUE_DELIVERY_COLUMNS)
+    .eq('status', 'digest')
+    .lte('scheduled_for', now.toISOString())
+    .order('created_at', { ascending: true })
+    .limit(1000);
+
+  if (error) {
+    logger.error('Error fetching held digest deliveries', error);
+    throw new Error('Failed to fetch digest deliveries');
+  }
+
+  const batches = new Map<string, DueDelivery[]>();
+  for (const delivery of (data || []) as unknown as DueDelivery[]) {
+    const key = `${delivery.recipient_id}:${delivery.address}`;
+    batches.set(key, [...(batches.get(key) || []), delivery]);
+  }
+
+  for (const deliveries of batches.values()) {
+    const first = deliveries[0]!;
+    const ids = deliveries.map((delivery) => delivery.id);
+    const items: DigestItem[] = deliveries.map(({ notification }) => ({
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      link: notification.link,
+      created_at: notification.created_at,
+    }));
+
+    const sent = await sendNotificationDigest(
+      { email: first.address!, name: first.recipient_name || undefined },
+      buildDigest(items, format(now, 'dd MMM yyyy')),
+      first.locale
+    );
+    const attempts = Math.max(...deliveries.map((delivery) => delivery.attempts)) + 1;
+
+    if (sent.success) {
+      result.digests++;
+      result.notifications += deliveries.length;
+      await updateDeliveries(ids, {
+        status: 'sent',
+        attempts,
+        provider: getEmailTransport().name,
+        provider_message_id: sent.messageId || null,
+        sent_at: new Date().toISOString(),
+      });
+      continue;
+    }
+
+    const retryAt = nextDeliveryAttempt(attempts, now);
+    result.errors.push(`${first.recipient_id}: ${sent.error}`);
+    await updateDeliveries(ids, {
+      status: retryAt ? 'digest' : 'failed',
+      attempts,
+      provider: getEmailTransport().name,
+      scheduled_for: (retryAt || now).toISOString(),
+      error_message: sent.error || 'Unknown error',
+    });
+  }
+
+  return result;
+}
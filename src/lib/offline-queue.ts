@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Offline Mutation Queue
+ * IndexedDB store for changes made while offline, kept across reloads until
+ * they are replayed (see offline-sync for the rules). Every change to the
+ * store is announced with a 'sync-queue-updated' window event carrying the
+ * whole queue.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { SyncQueueItem } from '@/lib/offline-sync';
+
+const DB_NAME = 'an-pms-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request against the store and wait for its transaction to finish
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function announce(): Promise<void> {
+  const queue = await getQueuedMutations();
+  window.dispatchEvent(new CustomEvent('sync-queue-updated', { detail: { queue } }));
+}
+
+/**
+ * All queued changes, oldest first
+ */
+export async function getQueuedMutations(): Promise<SyncQueueItem[]> {
+  if (!isAvailable()) return [];
+  const items = await withStore<SyncQueueItem[]>('readonly', (store) => store.getAll());
+  return items.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Add a change to the queue or replace the queued change with the same id
+ */
+export async function putQueuedMutation(item: SyncQueueItem): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore('readwrite', (store) => store.put(item));
+  await announce();
+}
+
+/**
+ * Replace several queued changes in one transaction
+ */
+export async function putQueuedMutations(items: SyncQueueItem[]): Promise<void> {
+  if (!isAvailable() || items.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    items.forEach((item) => store.put(item));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  await announce();
+}
+
+export async function deleteQueuedMutation(id: string): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore('readwrite', (store) => store.delete(id));
+  await announce();
+}
+
+export async function clearQueuedMutations(): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore('readwrite', (store) => store.clear());
+  await announce();
+}
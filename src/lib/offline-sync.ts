@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Offline Sync Rules
+ * Changes made offline are queued (see offline-queue) and replayed against
+ * the pilot, certification and leave routes once the connection returns.
+ * Each change carries the version (updated_at) of the record it was made
+ * against; a route answering 409 means someone else changed the record in
+ * the meantime, and the change waits for the user to keep theirs, keep the
+ * server's, or merge the two field by field.
+ * Pure functions - storage lives in offline-queue, replay in optimistic-updates.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { versionHeaders } from '@/lib/record-version';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+export type SyncResource = 'pilot' | 'certification' | 'leave';
+
+export type SyncItemStatus = 'pending' | 'conflict' | 'failed';
+
+export type SyncRecord = Record<string, unknown>;
+
+export interface SyncQueueItem {
+  id: string;
+  timestamp: number;
+  operation: SyncOperation;
+  resource: SyncResource;
+  /** Pilot, pilot_checks or leave request id; absent for creates */
+  recordId?: string;
+  /** Pilot the certification belongs to */
+  pilotId?: string;
+  /** Changed fields, or the new record for creates */
+  data: SyncRecord;
+  /** updated_at of the record when the change was made */
+  baseVersion?: string | null;
+  /** The record as it was when the change was made */
+  base?: SyncRecord | null;
+  retryCount: number;
+  status: SyncItemStatus;
+  conflict?: { server: SyncRecord; detectedAt: number };
+  lastError?: string;
+}
+
+export interface SyncRequest {
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/** How a replayed change fared */
+export type SyncOutcome = 'synced' | 'conflict' | 'rejected' | 'retry';
+
+export type ConflictResolution = 'mine' | 'server' | 'merge';
+
+export type FieldChoice = 'mine' | 'server';
+
+/** Attempts before a change that keeps failing is set aside as failed */
+export const MAX_SYNC_RETRIES = 3;
+
+/** Bookkeeping fields that never count as a change */
+const VERSION_FIELDS = ['id', 'created_at', 'updated_at'];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** Whether the change leaves the field as it was when the change was made */
+function isUnchanged(item: SyncQueueItem, field: string): boolean {
+  return !!item.base && sameValue(item.data[field], item.base[field]);
+}
+
+function requireRecordId(item: SyncQueueItem): string {
+  if (!item.recordId) throw new Error(`Queued ${item.resource} ${item.operation} has no record id`);
+  return item.recordId;
+}
+
+/**
+ * The API request that replays a queued change
+ */
+export function buildSyncRequest(item: SyncQueueItem): SyncRequest {
+  const headers = versionHeaders(item.baseVersion);
+
+  switch (`${item.resource}:${item.operation}`) {
+    case 'pilot:create':
+      return { method: 'POST', url: '/api/pilots', headers, body: item.data };
+    case 'pilot:update':
+      return {
+        method: 'PUT',
+        url: `/api/pilots?id=${requireRecordId(item)}`,
+        headers,
+        body: item.data,
+      };
+    case 'pilot:delete':
+      return { method: 'DELETE', url: `/api/pilots/${requireRecordId(item)}`, headers };
+    case 'certification:update':
+      if (!item.pilotId) throw new Error('Queued certification update has no pilot id');
+      return {
+        method: 'PUT',
+        url: `/api/certifications?pilotId=${item.pilotId}`,
+        headers,
+        body: {
+          certifications: [
+            { checkTypeId: item.data.check_type_id, expiryDate: item.data.expiry_date ?? null },
+          ],
+        },
+      };
+    case 'leave:create':
+      return { method: 'POST', url: '/api/leave-requests', headers, body: item.data };
+    case 'leave:update':
+      return {
+        method: 'PATCH',
+        url: '/api/leave-requests',
+        headers,
+        body: { ...item.data, id: requireRecordId(item) },
+      };
+    default:
+      throw new Error(`Cannot sync ${item.operation} of ${item.resource}`);
+  }
+}
+
+/**
+ * Outcome of a replayed change from the response status; 0 stands for a
+ * network failure. Server errors are retried, other refusals are not.
+ */
+export function classifySyncResponse(status: number): SyncOutcome {
+  if (status >= 200 && status < 300) return 'synced';
+  if (status === 409) return 'conflict';
+  if (status === 0 || status === 408 || status === 429 || status >= 500) return 'retry';
+  return 'rejected';
+}
+
+/**
+ * The record a successful replay left on the server, from the response data
+ * (the certifications route answers with all the checks it touched)
+ */
+export function syncedRecord(item: SyncQueueItem, data: unknown): SyncRecord | null {
+  if (Array.isArray(data)) {
+    return (
+      (data as SyncRecord[]).find((record) => record.check_type_id === item.data.check_type_id) ??
+      null
+    );
+  }
+  return data && typeof data === 'object' ? (data as SyncRecord) : null;
+}
+
+/**
+ * Move later pending changes to the same record onto the version a replayed
+ * change produced, so they are not mistaken for conflicts with it
+ */
+export function rebaseQueuedItems(
+  queue: SyncQueueItem[],
+  synced: SyncQueueItem,
+  record: SyncRecord | null
+): SyncQueueItem[] {
+  if (!synced.recordId || !record) return queue;
+
+  return queue.map((item) =>
+    item.id !== synced.id &&
+    item.status === 'pending' &&
+    item.resource === synced.resource &&
+    item.recordId === synced.recordId
+      ? { ...item, baseVersion: (record.updated_at as string | undefined) ?? null, base: record }
+      : item
+  );
+}
+
+/**
+ * Fields on which the queued change and the server disagree. For an update
+ * these are the changed fields someone else also changed; for a delete, every
+ * field someone else changed.
+ */
+export function conflictingFields(item: SyncQueueItem): string[] {
+  const server = item.conflict?.server;
+  if (!server) return [];
+  const base = item.base ?? {};
+
+  if (item.operation === 'delete') {
+    return Object.keys(server).filter(
+      (field) => !VERSION_FIELDS.includes(field) && !sameValue(server[field], base[field])
+    );
+  }
+
+  return Object.keys(item.data).filter(
+    (field) =>
+      !VERSION_FIELDS.includes(field) &&
+      !isUnchanged(item, field) &&
+      !sameValue(item.data[field], server[field]) &&
+      (!item.base || !sameValue(base[field], server[field]))
+  );
+}
+
+/**
+ * Settle a conflicted change. 'server' discards it; 'mine' replays it against
+ * the server's version; 'merge' also takes the server's value for the fields
+ * chosen as 'server'. Fields the change left as they were take the server's
+ * value either way. Returns null when nothing is left to replay. A delete
+ * cannot be merged, so 'merge' keeps it like 'mine'.
+ */
+export function resolveConflict(
+  item: SyncQueueItem,
+  resolution: ConflictResolution,
+  choices: Record<string, FieldChoice> = {}
+): SyncQueueItem | null {
+  const server = item.conflict?.server;
+  if (!server || resolution === 'server') return null;
+
+  const rebased: SyncQueueItem = {
+    ...item,
+    baseVersion: (server.updated_at as string | undefined) ?? null,
+    base: server,
+    retryCount: 0,
+    status: 'pending',
+    conflict: undefined,
+    lastError: undefined,
+  };
+  if (item.operation === 'delete') return rebased;
+
+  const data = Object.fromEntries(
+    Object.entries(item.data).map(([field, value]) => {
+      const takeServer =
+        isUnchanged(item, field) || (resolution === 'merge' && choices[field] === 'server');
+      return [field, takeServer && field in server ? server[field] : value];
+    })
+  );
+
+  const changes = Object.keys(data).some(
+    (field) => !VERSION_FIELDS.includes(field) && !sameValue(data[field], server[field])
+  );
+  return changes ? { ...rebased, data } : null;
+}
@@ -1,70 +1,96 @@
 /**
  * Optimistic Updates Utility
  * Handles optimistic UI updates with automatic rollback on failure
- * Queues failed mutations for background sync when connection is restored
+ * Queues mutations made offline (in IndexedDB, see offline-queue) and replays
+ * them against the API when connection is restored; changes to records edited
+ * elsewhere in the meantime are held as conflicts for the user to resolve.
+ * The wrappers below resolve null when the change was queued instead of sent.
  */
 
 import { QueryClient } from '@tanstack/react-query';
 import toast from 'react-hot-toast';
 import { logger } from '@/lib/logger';
-
-// Types for sync queue
-export interface SyncQueueItem {
-  id: string;
-  timestamp: number;
-  operation: 'create' | 'update' | 'delete';
-  resource: string;
-  data: any;
-  retryCount: number;
+import { authenticatedFetch } from '@/lib/api-client';
+import {
+  buildSyncRequest,
+  classifySyncResponse,
+  MAX_SYNC_RETRIES,
+  rebaseQueuedItems,
+  resolveConflict,
+  syncedRecord,
+  type ConflictResolution,
+  type FieldChoice,
+  type SyncOutcome,
+  type SyncQueueItem,
+  type SyncRecord,
+  type SyncRequest,
+} from '@/lib/offline-sync';
+import {
+  clearQueuedMutations,
+  deleteQueuedMutation,
+  getQueuedMutations,
+  putQueuedMutation,
+  putQueuedMutations,
+} from '@/lib/offline-queue';
+
+export type { SyncQueueItem } from '@/lib/offline-sync';
+
+/** A change to queue; the queue fills in the bookkeeping fields */
+export type QueuedChange = Omit<SyncQueueItem, 'id' | 'timestamp' | 'retryCount' | 'status'>;
+
+/** Outcome counts of one pass over the sync queue */
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
 }
 
-// Sync queue storage key
-const SYNC_QUEUE_KEY = 'an-pms-sync-queue';
+let syncInProgress = false;
 
 /**
- * Get the current sync queue from localStorage
+ * Whether the browser reports no connection, so changes go to the sync queue
  */
-export function getSyncQueue(): SyncQueueItem[] {
-  if (typeof window === 'undefined') return [];
-
-  try {
-    const queue = localStorage.getItem(SYNC_QUEUE_KEY);
-    return queue ? JSON.parse(queue) : [];
-  } catch (error) {
-    logger.error('Error reading sync queue', error instanceof Error ? error : new Error(String(error)));
-    return [];
-  }
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
 }
 
 /**
- * Save the sync queue to localStorage
+ * Get the queued offline changes, oldest first
  */
-export function saveSyncQueue(queue: SyncQueueItem[]): void {
-  if (typeof window === 'undefined') return;
-
+export async function getSyncQueue(): Promise<SyncQueueItem[]> {
   try {
-    localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
-    // Dispatch event to notify sync indicator
-    window.dispatchEvent(new CustomEvent('sync-queue-updated', { detail: { queue } }));
+    return await getQueuedMutations();
   } catch (error) {
-    logger.error('Error saving sync queue', error instanceof Error ? error : new Error(String(error)));
+    logger.error(
+      'Error reading sync queue',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return [];
   }
 }
 
 /**
- * Add an item to the sync queue
+ * Add a change to the sync queue
  */
-export function addToSyncQueue(item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'retryCount'>): void {
-  const queue = getSyncQueue();
+export async function addToSyncQueue(item: QueuedChange): Promise<void> {
   const newItem: SyncQueueItem = {
     ...item,
     id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     timestamp: Date.now(),
     retryCount: 0,
+    status: 'pending',
   };
 
-  queue.push(newItem);
-  saveSyncQueue(queue);
+  try {
+    await putQueuedMutation(newItem);
+  } catch (error) {
+    logger.error(
+      'Error saving sync queue',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    toast.error('Could not save the change for later sync');
+    return;
+  }
 
   toast.error('Action queued for sync when online', {
     duration: 3000,
@@ -73,40 +99,96 @@ export function addToSyncQueue(item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'r
 }
 
 /**
- * Remove an item from the sync queue
+ * Remove an item from the sync queue, discarding the change
  */
-export function removeFromSyncQueue(id: string): void {
-  const queue = getSyncQueue();
-  const filteredQueue = queue.filter((item) => item.id !== id);
-  saveSyncQueue(filteredQueue);
+export async function removeFromSyncQueue(id: string): Promise<void> {
+  await deleteQueuedMutation(id);
 }
 
 /**
  * Clear the entire sync queue
  */
-export function clearSyncQueue(): void {
-  saveSyncQueue([]);
+export async function clearSyncQueue(): Promise<void> {
+  await clearQueuedMutations();
+}
+
+/**
+ * Queue a failed change for another round of attempts
+ */
+export async function retrySyncItem(id: string): Promise<void> {
+  const item = (await getSyncQueue()).find((queued) => queued.id === id);
+  if (!item) return;
+  await putQueuedMutation({ ...item, status: 'pending', retryCount: 0, lastError: undefined });
+}
+
+/**
+ * Settle a conflicted change (see resolveConflict) and replay what is left
+ */
+export async function resolveSyncConflict(
+  queryClient: QueryClient,
+  id: string,
+  resolution: ConflictResolution,
+  choices: Record<string, FieldChoice> = {}
+): Promise<void> {
+  const item = (await getSyncQueue()).find((queued) => queued.id === id);
+  if (!item) return;
+
+  const resolved = resolveConflict(item, resolution, choices);
+  if (resolved) {
+    await putQueuedMutation(resolved);
+    await processSyncQueue(queryClient);
+  } else {
+    await deleteQueuedMutation(id);
+    await queryClient.invalidateQueries();
+  }
+}
+
+/**
+ * The record as cached before an optimistic change, and its version
+ */
+function cachedVersion(
+  record: unknown,
+  list: unknown,
+  id: string
+): Pick<SyncQueueItem, 'base' | 'baseVersion'> {
+  const base = (record ??
+    (Array.isArray(list) ? list.find((item: any) => item.id === id) : null) ??
+    null) as SyncRecord | null;
+  return { base, baseVersion: (base?.updated_at as string | undefined) ?? null };
 }
 
 /**
  * Optimistic update wrapper for pilot operations
+ *
+ * @param base - The pilot as loaded for editing, when it is not in the query cache
  */
 export async function optimisticPilotUpdate<T>(
   queryClient: QueryClient,
   pilotId: string,
   updateFn: () => Promise<T>,
-  optimisticData: any
-): Promise<T> {
+  optimisticData: any,
+  base?: object | null
+): Promise<T | null> {
   // Cancel any outgoing refetches
   await queryClient.cancelQueries({ queryKey: ['pilot', pilotId] });
   await queryClient.cancelQueries({ queryKey: ['pilots'] });
 
   // Snapshot the previous values
-  const previousPilot = queryClient.getQueryData(['pilot', pilotId]);
+  const previousPilot = queryClient.getQueryData<Record<string, unknown>>(['pilot', pilotId]);
   const previousPilots = queryClient.getQueryData(['pilots']);
+  const change: QueuedChange = {
+    operation: 'update',
+    resource: 'pilot',
+    recordId: pilotId,
+    data: optimisticData,
+    ...cachedVersion(base ?? previousPilot, previousPilots, pilotId),
+  };
 
   // Optimistically update to the new value
-  queryClient.setQueryData(['pilot', pilotId], optimisticData);
+  queryClient.setQueryData(
+    ['pilot', pilotId],
+    previousPilot ? { ...previousPilot, ...optimisticData } : optimisticData
+  );
 
   // Update the pilots list if it exists
   if (previousPilots && Array.isArray(previousPilots)) {
@@ -116,6 +198,11 @@ export async function optimisticPilotUpdate<T>(
     queryClient.setQueryData(['pilots'], updatedPilots);
   }
 
+  if (isOffline()) {
+    await addToSyncQueue(change);
+    return null;
+  }
+
   // Show optimistic feedback
   const loadingToast = toast.loading('Updating pilot...');
 
@@ -128,6 +215,13 @@ export async function optimisticPilotUpdate<T>(
 
     return result;
   } catch (error) {
+    // Connection lost during the request: keep the change for sync
+    if (isOffline()) {
+      toast.dismiss(loadingToast);
+      await addToSyncQueue(change);
+      return null;
+    }
+
     // Rollback on error
     queryClient.setQueryData(['pilot', pilotId], previousPilot);
     queryClient.setQueryData(['pilots'], previousPilots);
@@ -135,29 +229,30 @@ export async function optimisticPilotUpdate<T>(
     // Error feedback
     toast.error('Failed to update pilot', { id: loadingToast });
 
-    // Check if offline
-    if (!navigator.onLine) {
-      addToSyncQueue({
-        operation: 'update',
-        resource: 'pilot',
-        data: { id: pilotId, ...optimisticData },
-      });
-    }
-
     throw error;
   }
 }
 
 /**
- * Optimistic update wrapper for certification operations
+ * A changed certification: its new expiry date, and the pilot_checks row it
+ * was made against (null when the pilot has none yet)
+ */
+export interface CertificationChange {
+  data: { check_type_id: string; expiry_date: string | null };
+  base: SyncRecord | null;
+}
+
+/**
+ * Optimistic update wrapper for certification operations; offline, each
+ * changed certification is queued on its own, since a versioned update
+ * changes a single certification
  */
 export async function optimisticCertificationUpdate<T>(
   queryClient: QueryClient,
-  certificationId: string,
   pilotId: string,
-  updateFn: () => Promise<T>,
-  optimisticData: any
-): Promise<T> {
+  changes: CertificationChange[],
+  updateFn: () => Promise<T>
+): Promise<T | null> {
   // Cancel any outgoing refetches
   await queryClient.cancelQueries({ queryKey: ['pilot-checks', pilotId] });
   await queryClient.cancelQueries({ queryKey: ['expiring-certifications'] });
@@ -165,15 +260,30 @@ export async function optimisticCertificationUpdate<T>(
   // Snapshot the previous values
   const previousChecks = queryClient.getQueryData(['pilot-checks', pilotId]);
   const previousExpiring = queryClient.getQueryData(['expiring-certifications']);
+  const queued: QueuedChange[] = changes.map(({ data, base }) => ({
+    operation: 'update',
+    resource: 'certification',
+    recordId: (base?.id as string | undefined) ?? undefined,
+    pilotId,
+    data,
+    base,
+    baseVersion: (base?.updated_at as string | undefined) ?? null,
+  }));
 
   // Optimistically update to the new value
   if (previousChecks && Array.isArray(previousChecks)) {
-    const updatedChecks = previousChecks.map((c: any) =>
-      c.id === certificationId ? { ...c, ...optimisticData } : c
-    );
+    const updatedChecks = previousChecks.map((c: any) => {
+      const change = changes.find(({ data }) => data.check_type_id === c.check_type_id);
+      return change ? { ...c, ...change.data } : c;
+    });
     queryClient.setQueryData(['pilot-checks', pilotId], updatedChecks);
   }
 
+  if (isOffline()) {
+    for (const change of queued) await addToSyncQueue(change);
+    return null;
+  }
+
   // Show optimistic feedback
   const loadingToast = toast.loading('Updating certification...');
 
@@ -190,6 +300,13 @@ export async function optimisticCertificationUpdate<T>(
 
     return result;
   } catch (error) {
+    // Connection lost during the request: keep the changes for sync
+    if (isOffline()) {
+      toast.dismiss(loadingToast);
+      for (const change of queued) await addToSyncQueue(change);
+      return null;
+    }
+
     // Rollback on error
     queryClient.setQueryData(['pilot-checks', pilotId], previousChecks);
     queryClient.setQueryData(['expiring-certifications'], previousExpiring);
@@ -197,15 +314,6 @@ export async function optimisticCertificationUpdate<T>(
     // Error feedback
     toast.error('Failed to update certification', { id: loadingToast });
 
-    // Check if offline
-    if (!navigator.onLine) {
-      addToSyncQueue({
-        operation: 'update',
-        resource: 'certification',
-        data: { id: certificationId, pilotId, ...optimisticData },
-      });
-    }
-
     throw error;
   }
 }
@@ -217,12 +325,13 @@ export async function optimisticPilotCreate<T>(
   queryClient: QueryClient,
   createFn: () => Promise<T>,
   optimisticData: any
-): Promise<T> {
+): Promise<T | null> {
   // Cancel any outgoing refetches
   await queryClient.cancelQueries({ queryKey: ['pilots'] });
 
   // Snapshot the previous value
   const previousPilots = queryClient.getQueryData(['pilots']);
+  const change: QueuedChange = { operation: 'create', resource: 'pilot', data: optimisticData };
 
   // Optimistically add to the list
   if (previousPilots && Array.isArray(previousPilots)) {
@@ -230,6 +339,11 @@ export async function optimisticPilotCreate<T>(
     queryClient.setQueryData(['pilots'], [...previousPilots, { ...optimisticData, id: tempId }]);
   }
 
+  if (isOffline()) {
+    await addToSyncQueue(change);
+    return null;
+  }
+
   // Show optimistic feedback
   const loadingToast = toast.loading('Creating pilot...');
 
@@ -245,33 +359,32 @@ export async function optimisticPilotCreate<T>(
 
     return result;
   } catch (error) {
+    // Connection lost during the request: keep the change for sync
+    if (isOffline()) {
+      toast.dismiss(loadingToast);
+      await addToSyncQueue(change);
+      return null;
+    }
+
     // Rollback on error
     queryClient.setQueryData(['pilots'], previousPilots);
 
     // Error feedback
     toast.error('Failed to create pilot', { id: loadingToast });
 
-    // Check if offline
-    if (!navigator.onLine) {
-      addToSyncQueue({
-        operation: 'create',
-        resource: 'pilot',
-        data: optimisticData,
-      });
-    }
-
     throw error;
   }
 }
 
 /**
- * Optimistic delete wrapper for pilots
+ * Optimistic delete wrapper for pilots; resolves false when the delete was
+ * queued instead of sent
  */
 export async function optimisticPilotDelete(
   queryClient: QueryClient,
   pilotId: string,
   deleteFn: () => Promise<void>
-): Promise<void> {
+): Promise<boolean> {
   // Cancel any outgoing refetches
   await queryClient.cancelQueries({ queryKey: ['pilots'] });
   await queryClient.cancelQueries({ queryKey: ['pilot', pilotId] });
@@ -279,6 +392,13 @@ export async function optimisticPilotDelete(
   // Snapshot the previous values
   const previousPilots = queryClient.getQueryData(['pilots']);
   const previousPilot = queryClient.getQueryData(['pilot', pilotId]);
+  const change: QueuedChange = {
+    operation: 'delete',
+    resource: 'pilot',
+    recordId: pilotId,
+    data: {},
+    ...cachedVersion(previousPilot, previousPilots, pilotId),
+  };
 
   // Optimistically remove from the list
   if (previousPilots && Array.isArray(previousPilots)) {
@@ -286,6 +406,11 @@ export async function optimisticPilotDelete(
     queryClient.setQueryData(['pilots'], filteredPilots);
   }
 
+  if (isOffline()) {
+    await addToSyncQueue(change);
+    return false;
+  }
+
   // Show optimistic feedback
   const loadingToast = toast.loading('Deleting pilot...');
 
@@ -298,7 +423,15 @@ export async function optimisticPilotDelete(
 
     // Remove from cache
     queryClient.removeQueries({ queryKey: ['pilot', pilotId] });
+    return true;
   } catch (error) {
+    // Connection lost during the request: keep the change for sync
+    if (isOffline()) {
+      toast.dismiss(loadingToast);
+      await addToSyncQueue(change);
+      return false;
+    }
+
     // Rollback on error
     queryClient.setQueryData(['pilots'], previousPilots);
     queryClient.setQueryData(['pilot', pilotId], previousPilot);
@@ -306,77 +439,260 @@ export async function optimisticPilotDelete(
     // Error feedback
     toast.error('Failed to delete pilot', { id: loadingToast });
 
-    // Check if offline
-    if (!navigator.onLine) {
-      addToSyncQueue({
-        operation: 'delete',
-        resource: 'pilot',
-        data: { id: pilotId },
-      });
+    throw error;
+  }
+}
+
+/**
+ * Optimistic create wrapper for leave requests
+ */
+export async function optimisticLeaveRequestCreate<T>(
+  queryClient: QueryClient,
+  createFn: () => Promise<T>,
+  optimisticData: any
+): Promise<T | null> {
+  // Cancel any outgoing refetches
+  await queryClient.cancelQueries({ queryKey: ['leave-requests'] });
+
+  // Snapshot the previous value
+  const previousRequests = queryClient.getQueryData(['leave-requests']);
+  const change: QueuedChange = { operation: 'create', resource: 'leave', data: optimisticData };
+
+  // Optimistically add to the list
+  if (previousRequests && Array.isArray(previousRequests)) {
+    const tempId = `temp-${Date.now()}`;
+    queryClient.setQueryData(
+      ['leave-requests'],
+      [...previousRequests, { ...optimisticData, id: tempId, status: 'PENDING' }]
+    );
+  }
+
+  if (isOffline()) {
+    await addToSyncQueue(change);
+    return null;
+  }
+
+  // Show optimistic feedback
+  const loadingToast = toast.loading('Submitting leave request...');
+
+  try {
+    // Perform the actual mutation
+    const result = await createFn();
+
+    // Success feedback
+    toast.success('Leave request submitted successfully', { id: loadingToast });
+
+    // Invalidate to get the real data
+    await queryClient.invalidateQueries({ queryKey: ['leave-requests'] });
+
+    return result;
+  } catch (error) {
+    // Connection lost during the request: keep the change for sync
+    if (isOffline()) {
+      toast.dismiss(loadingToast);
+      await addToSyncQueue(change);
+      return null;
     }
 
+    // Rollback on error
+    queryClient.setQueryData(['leave-requests'], previousRequests);
+
+    // Error feedback
+    toast.error('Failed to submit leave request', { id: loadingToast });
+
     throw error;
   }
 }
 
 /**
- * Process the sync queue when connection is restored
+ * Optimistic update wrapper for leave requests
+ *
+ * @param base - The request as loaded for editing, when it is not in the query cache
  */
-export async function processSyncQueue(queryClient: QueryClient): Promise<void> {
-  const queue = getSyncQueue();
+export async function optimisticLeaveRequestUpdate<T>(
+  queryClient: QueryClient,
+  leaveRequestId: string,
+  updateFn: () => Promise<T>,
+  optimisticData: any,
+  base?: object | null
+): Promise<T | null> {
+  // Cancel any outgoing refetches
+  await queryClient.cancelQueries({ queryKey: ['leave-requests'] });
 
-  if (queue.length === 0) {
-    return;
+  // Snapshot the previous value
+  const previousRequests = queryClient.getQueryData(['leave-requests']);
+  const change: QueuedChange = {
+    operation: 'update',
+    resource: 'leave',
+    recordId: leaveRequestId,
+    data: optimisticData,
+    ...cachedVersion(base, previousRequests, leaveRequestId),
+  };
+
+  // Optimistically update to the new value
+  if (previousRequests && Array.isArray(previousRequests)) {
+    const updatedRequests = previousRequests.map((r: any) =>
+      r.id === leaveRequestId ? { ...r, ...optimisticData } : r
+    );
+    queryClient.setQueryData(['leave-requests'], updatedRequests);
   }
 
-  toast.loading(`Syncing ${queue.length} pending changes...`, {
+  if (isOffline()) {
+    await addToSyncQueue(change);
+    return null;
+  }
+
+  // Show optimistic feedback
+  const loadingToast = toast.loading('Updating leave request...');
+
+  try {
+    // Perform the actual mutation
+    const result = await updateFn();
+
+    // Success feedback
+    toast.success('Leave request updated successfully', { id: loadingToast });
+
+    // Invalidate related queries
+    await queryClient.invalidateQueries({ queryKey: ['leave-requests'] });
+
+    return result;
+  } catch (error) {
+    // Connection lost during the request: keep the change for sync
+    if (isOffline()) {
+      toast.dismiss(loadingToast);
+      await addToSyncQueue(change);
+      return null;
+    }
+
+    // Rollback on error
+    queryClient.setQueryData(['leave-requests'], previousRequests);
+
+    // Error feedback
+    toast.error('Failed to update leave request', { id: loadingToast });
+
+    throw error;
+  }
+}
+
+/**
+ * Send one queued change to the API
+ */
+async function replaySyncItem(
+  item: SyncQueueItem
+): Promise<{ outcome: SyncOutcome; data?: unknown; error?: string }> {
+  let request: SyncRequest;
+  try {
+    request = buildSyncRequest(item);
+  } catch (error) {
+    return { outcome: 'rejected', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  try {
+    const response = await authenticatedFetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+    });
+    const payload = await response.json().catch(() => null);
+    return {
+      outcome: classifySyncResponse(response.status),
+      data: payload?.data,
+      error: payload?.error ?? `Request failed with status ${response.status}`,
+    };
+  } catch (error) {
+    // Network failure or no session yet; try again later
+    return { outcome: 'retry', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Process the sync queue when connection is restored: replays the pending
+ * changes oldest first. Changes to records edited elsewhere in the meantime
+ * are held as conflicts, and changes the server refuses (or that keep
+ * failing) are set aside as failed; both stay queued until the user resolves
+ * or discards them.
+ */
+export async function processSyncQueue(queryClient: QueryClient): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, failed: 0 };
+  if (syncInProgress) return result;
+
+  let queue = await getSyncQueue();
+  const pendingIds = queue.filter((item) => item.status === 'pending').map((item) => item.id);
+  if (pendingIds.length === 0) return result;
+
+  syncInProgress = true;
+  window.dispatchEvent(new CustomEvent('sync-started'));
+  toast.loading(`Syncing ${pendingIds.length} pending changes...`, {
     id: 'sync-processing',
     duration: Infinity,
   });
 
-  const failedItems: SyncQueueItem[] = [];
-  let successCount = 0;
-
-  for (const item of queue) {
-    try {
-      // Process each item based on operation and resource
-      // This would call the appropriate API endpoint
-      // For now, we'll just increment retry count
-
-      if (item.retryCount >= 3) {
-        failedItems.push(item);
+  try {
+    for (const id of pendingIds) {
+      // Earlier replays may have rebased the item onto a newer version
+      const item = queue.find((queued) => queued.id === id);
+      if (!item) continue;
+
+      const { outcome, data, error } = await replaySyncItem(item);
+      let updated: SyncQueueItem | null = null;
+
+      if (outcome === 'synced') {
+        result.synced++;
+        const rebased = rebaseQueuedItems(queue, item, syncedRecord(item, data));
+        await putQueuedMutations(rebased.filter((queued, index) => queued !== queue[index]));
+        await deleteQueuedMutation(item.id);
+        queue = rebased.filter((queued) => queued.id !== item.id);
         continue;
       }
 
-      // TODO: Implement actual API calls based on resource and operation
-      // await processQueueItem(item)
+      const server = outcome === 'conflict' ? syncedRecord(item, data) : null;
+      if (server) {
+        result.conflicts++;
+        updated = { ...item, status: 'conflict', conflict: { server, detectedAt: Date.now() } };
+      } else if (outcome === 'retry' && item.retryCount + 1 < MAX_SYNC_RETRIES) {
+        updated = { ...item, retryCount: item.retryCount + 1, lastError: error };
+      } else {
+        result.failed++;
+        updated = { ...item, status: 'failed', retryCount: item.retryCount + 1, lastError: error };
+      }
 
-      successCount++;
-      removeFromSyncQueue(item.id);
-    } catch (error) {
-      console.error(`Failed to sync item ${item.id}:`, error);
-      failedItems.push({
-        ...item,
-        retryCount: item.retryCount + 1,
+      logger.warn(`Sync of queued ${item.resource} ${item.operation} did not go through`, {
+        id: item.id,
+        outcome,
+        error,
       });
+      await putQueuedMutation(updated);
+      queue = queue.map((queued) => (queued.id === item.id ? (updated as SyncQueueItem) : queued));
     }
+  } finally {
+    syncInProgress = false;
+    toast.dismiss('sync-processing');
+    window.dispatchEvent(new CustomEvent('sync-completed', { detail: result }));
   }
 
-  // Update queue with failed items
-  saveSyncQueue(failedItems);
-
   // Show result
-  toast.dismiss('sync-processing');
-
-  if (successCount > 0) {
-    toast.success(`Successfully synced ${successCount} changes`);
+  if (result.synced > 0) {
+    toast.success(`Successfully synced ${result.synced} changes`);
     // Invalidate all queries to refresh data
     await queryClient.invalidateQueries();
   }
 
-  if (failedItems.length > 0) {
-    toast.error(`${failedItems.length} changes failed to sync`);
+  if (result.conflicts > 0) {
+    toast.error(`${result.conflicts} changes conflict with newer edits and need your review`, {
+      duration: 6000,
+    });
+  }
+
+  if (result.failed > 0) {
+    toast.error(`${result.failed} changes failed to sync`);
   }
+
+  const waiting = pendingIds.length - result.synced - result.conflicts - result.failed;
+  if (waiting > 0) {
+    toast(`${waiting} changes will be retried`, { icon: '⏳' });
+  }
+
+  return result;
 }
 
 /**
@@ -393,9 +709,6 @@ export function setupAutoSync(queryClient: QueryClient): void {
 
   // Check queue on page load
   if (navigator.onLine) {
-    const queue = getSyncQueue();
-    if (queue.length > 0) {
-      processSyncQueue(queryClient);
-    }
+    processSyncQueue(queryClient);
   }
 }
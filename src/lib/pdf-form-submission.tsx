@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Form Submission PDF Generator
+ * Renders a submitted digital form with its answers, in the order and with the
+ * labels of the form schema, and the decisions of its approval chain.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import React from 'react';
+import { Document, Page, Text } from '@react-pdf/renderer';
+import { format, parseISO } from 'date-fns';
+import { PDFHeader, PDFFooter, PDFTable, Section, AlertBox, pdfStyles } from './pdf-components';
+import { approvalChain, visibleFields, type ApprovalRecord } from './form-schema';
+import type { DigitalForm } from './document-service';
+import { PDFReportMetadata } from '@/types/pdf-reports';
+
+// =============================================================================
+// TYPES AND INTERFACES
+// =============================================================================
+
+export interface FormSubmissionPDFData {
+  form: DigitalForm;
+  submission: {
+    id: string;
+    form_data: Record<string, unknown>;
+    status: string;
+    approval_step: number;
+    approval_history: ApprovalRecord[];
+    rejection_reason: string | null;
+    created_at: string;
+  };
+  pilot: { first_name: string; last_name: string; employee_id: string } | null;
+  submittedBy: string | null;
+  /** Names of the users who made approval decisions, by user ID */
+  approvers: Record<string, string>;
+  generatedBy: string;
+  generatedAt: Date;
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+const formatDateTime = (value: string) => format(parseISO(value), 'dd MMM yyyy HH:mm');
+
+/**
+ * Display text of an answer
+ */
+function formatAnswer(type: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '-';
+  if (type === 'checkbox') return value ? 'Yes' : 'No';
+  if (type === 'date' && typeof value === 'string') {
+    return format(parseISO(value), 'dd MMM yyyy');
+  }
+  if (type === 'datetime' && typeof value === 'string') return formatDateTime(value);
+  return String(value);
+}
+
+// =============================================================================
+// MAIN PDF DOCUMENT
+// =============================================================================
+
+/**
+ * Form submission PDF document
+ */
+export function createFormSubmissionDocument(data: FormSubmissionPDFData) {
+  const { form, submission, pilot, submittedBy, approvers, generatedBy, generatedAt } = data;
+
+  const metadata: PDFReportMetadata = {
+    reportType: 'form-submission',
+    title: form.title,
+    subtitle: pilot ? `${pilot.first_name} ${pilot.last_name} (${pilot.employee_id})` : undefined,
+    companyName: 'Air Niugini',
+    fleetType: 'B767',
+    generatedAt: generatedAt.toISOString(),
+    generatedBy,
+    reportPeriod: `Submitted ${formatDateTime(submission.created_at)}`,
+  };
+
+  const answers = visibleFields(form.form_schema, submission.form_data).map((field) => [
+    field.label,
+    formatAnswer(field.type, submission.form_data[field.name]),
+  ]);
+
+  const chain = approvalChain(form.form_schema, form.requires_approval);
+  const decisions = chain.map((step, index) => {
+    const record = submission.approval_history.find((entry) => entry.step === index);
+    return [
+      step.name,
+      record ? (record.decision === 'approved' ? 'Approved' : 'Rejected') : 'Awaiting',
+      record ? approvers[record.by] || '-' : step.roles.join(' / '),
+      record ? formatDateTime(record.at) : '-',
+      record?.comment || '-',
+    ];
+  });
+
+  return (
+    <Document
+      title={`${form.title} - ${submission.id}`}
+      author="Air Niugini Pilot Management System"
+      subject={form.description || form.title}
+      creator="Air Niugini PMS"
+      producer="Air Niugini PMS"
+    >
+      <Page size="A4" style={pdfStyles.page}>
+        <PDFHeader metadata={metadata} />
+
+        <Section
+          title="Submission"
+          subtitle={`Status: ${submission.status}${submittedBy ? ` - submitted by ${submittedBy}` : ''}`}
+        >
+          <PDFTable headers={['Question', 'Answer']} data={answers} columnWidths={['35%', '65%']} />
+        </Section>
+
+        {chain.length > 0 && (
+          <Section title="Approvals">
+            <PDFTable
+              headers={['Step', 'Decision', 'By', 'Date', 'Comment']}
+              data={decisions}
+              columnWidths={['22%', '13%', '20%', '18%', '27%']}
+            />
+          </Section>
+        )}
+
+        {submission.status === 'rejected' && submission.rejection_reason && (
+          <AlertBox type="critical" title="Rejected">
+            <Text>{submission.rejection_reason}</Text>
+          </AlertBox>
+        )}
+
+        <PDFFooter pageNumber={1} totalPages={1} />
+      </Page>
+    </Document>
+  );
+}
+
+// =============================================================================
+// EXPORT UTILITIES
+// =============================================================================
+
+/**
+ * Generate PDF filename for a form submission
+ */
+export function generateFormSubmissionFilename(form: DigitalForm, submissionId: string): string {
+  return `Air_Niugini_${form.form_type}_${submissionId.slice(0, 8)}.pdf`;
+}
@@ -276,7 +276,8 @@ const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ rosterPeriod, stati
         style={[{ fontSize: airNiuginiStyles.fonts.sizes.body, marginBottom: 8, lineHeight: 1.4 }]}
       >
         Period Duration: {format(rosterPeriod.startDate, 'dd MMM yyyy')} -{' '}
-        {format(rosterPeriod.endDate, 'dd MMM yyyy')} (28 days)
+        {format(rosterPeriod.endDate, 'dd MMM yyyy')} ({rosterPeriod.lengthDays} days
+        {rosterPeriod.isStub ? ', stub period' : ''})
       </Text>
 
       <View style={rosterLeaveStyles.keyMetric}>
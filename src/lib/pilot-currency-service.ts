@@ -0,0 +1,415 @@
+/**
+ * @fileoverview Pilot Currency Service
+ * Recency rules (currency_rules) evaluated against the logged flight_sectors, route and
+ * aerodrome qualifications (pilot_qualifications), the fleet-wide list of lapsed and
+ * expiring items, and the required qualifications check run when a flight request is
+ * approved.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { subDays } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { parseUtc } from '@/lib/flight-time-limits';
+import {
+  checkRequiredQualifications,
+  computeCurrencyItem,
+  normalizeQualificationCode,
+  parseRequiredQualifications,
+  qualificationStatus,
+  ruleAppliesTo,
+  type CurrencyItem,
+  type CurrencyRule,
+  type CurrencySector,
+  type QualificationStatus,
+  type QualificationType,
+} from '@/lib/pilot-currency';
+
+export interface PilotQualification {
+  id: string;
+  pilot_id: string;
+  qualification_type: QualificationType;
+  code: string;
+  description: string | null;
+  qualified_date: string;
+  expiry_date: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  status: QualificationStatus;
+}
+
+export interface PilotCurrencyProfile {
+  currency: CurrencyItem[];
+  qualifications: PilotQualification[];
+}
+
+export interface CurrencyRuleInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  event: CurrencyRule['event'];
+  required_count: number;
+  period_days: number;
+  applies_to_role?: string | null;
+  is_active?: boolean;
+}
+
+export interface PilotQualificationInput {
+  pilot_id: string;
+  qualification_type: QualificationType;
+  code: string;
+  description?: string | null;
+  qualified_date: string;
+  expiry_date?: string | null;
+  notes?: string | null;
+}
+
+export interface CurrencyException {
+  pilotId: string;
+  name: string;
+  employeeId: string;
+  role: string;
+  kind: 'CURRENCY' | QualificationType;
+  code: string;
+  label: string;
+  status: 'EXPIRING' | 'LAPSED' | 'EXPIRED';
+  /** Lapse or expiry date (ISO) */
+  date: string | null;
+}
+
+export interface FlightRequestQualificationCheck {
+  checked: boolean;
+  allowed: boolean;
+  missing: string[];
+  unrecognised: string[];
+}
+
+interface RequiredQualificationsRequest {
+  pilot_id: string;
+  departure_date?: string | null;
+  planned_duty_start?: string | null;
+  required_qualifications?: unknown;
+}
+
+/**
+ * Recency rules, optionally including inactive ones
+ */
+export async function getCurrencyRules(includeInactive = false): Promise<CurrencyRule[]> {
+  let query = getSupabaseAdmin().from('currency_rules').select('*').order('code');
+  if (!includeInactive) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Error fetching currency rules:', error);
+    throw new Error('Failed to fetch currency rules');
+  }
+
+  return (data || []) as CurrencyRule[];
+}
+
+export async function createCurrencyRule(input: CurrencyRuleInput): Promise<CurrencyRule> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('currency_rules')
+    .insert({ ...input, code: input.code.trim().toUpperCase() })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating currency rule:', error);
+    throw new Error(
+      error.code === '23505' ? 'A rule with this code already exists' : 'Failed to create rule'
+    );
+  }
+
+  logger.info('Currency rule created', { code: data.code });
+  return data as CurrencyRule;
+}
+
+export async function updateCurrencyRule(
+  id: string,
+  input: Partial<Omit<CurrencyRuleInput, 'code'>>
+): Promise<CurrencyRule> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('currency_rules')
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating currency rule:', error);
+    throw new Error('Failed to update currency rule');
+  }
+
+  logger.info('Currency rule updated', { id });
+  return data as CurrencyRule;
+}
+
+/**
+ * Sectors flown since the start of the longest rule period, per pilot
+ */
+async function getSectorsByPilot(
+  rules: CurrencyRule[],
+  asOf: Date,
+  pilotId?: string
+): Promise<Map<string, CurrencySector[]>> {
+  const periodDays = Math.max(0, ...rules.map((rule) => rule.period_days));
+  let query = getSupabaseAdmin()
+    .from('flight_sectors')
+    .select('pilot_id, block_off, block_on, takeoffs, landings')
+    .gte('block_on', subDays(asOf, periodDays).toISOString())
+    .lte('block_off', asOf.toISOString());
+  if (pilotId) query = query.eq('pilot_id', pilotId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Error fetching sectors for currency:', error);
+    throw new Error('Failed to fetch flight sectors');
+  }
+
+  const sectors = new Map<string, CurrencySector[]>();
+  for (const row of data || []) {
+    const list = sectors.get(row.pilot_id) || [];
+    list.push({
+      blockOff: row.block_off,
+      blockOn: row.block_on,
+      takeoffs: row.takeoffs,
+      landings: row.landings,
+    });
+    sectors.set(row.pilot_id, list);
+  }
+
+  return sectors;
+}
+
+async function getPilot(pilotId: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilots')
+    .select('id, role')
+    .eq('id', pilotId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching pilot:', error);
+    throw new Error('Failed to fetch pilot');
+  }
+  if (!data) {
+    throw new Error('Pilot not found');
+  }
+
+  return data as { id: string; role: string };
+}
+
+/**
+ * Recency items for the rules that apply to the pilot's role
+ */
+export async function getPilotCurrency(
+  pilotId: string,
+  asOf: Date = new Date()
+): Promise<CurrencyItem[]> {
+  const [pilot, allRules] = await Promise.all([getPilot(pilotId), getCurrencyRules()]);
+  const rules = allRules.filter((rule) => ruleAppliesTo(rule, pilot.role));
+  const sectors = (await getSectorsByPilot(rules, asOf, pilotId)).get(pilotId) || [];
+
+  return rules.map((rule) => computeCurrencyItem(rule, sectors, asOf));
+}
+
+/**
+ * Route and aerodrome qualifications with their status today
+ */
+export async function getPilotQualifications(pilotId: string): Promise<PilotQualification[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilot_qualifications')
+    .select('*')
+    .eq('pilot_id', pilotId)
+    .order('qualification_type')
+    .order('code');
+
+  if (error) {
+    logger.error('Error fetching pilot qualifications:', error);
+    throw new Error('Failed to fetch pilot qualifications');
+  }
+
+  const today = new Date();
+  return (data || []).map((row) => ({
+    ...(row as Omit<PilotQualification, 'status'>),
+    status: qualificationStatus(row.expiry_date, today),
+  }));
+}
+
+export async function getPilotCurrencyProfile(pilotId: string): Promise<PilotCurrencyProfile> {
+  const [currency, qualifications] = await Promise.all([
+    getPilotCurrency(pilotId),
+    getPilotQualifications(pilotId),
+  ]);
+
+  return { currency, qualifications };
+}
+
+function qualificationRow(input: Partial<PilotQualificationInput>) {
+  return {
+    ...input,
+    ...(input.code !== undefined && { code: normalizeQualificationCode(input.code) }),
+    ...(input.expiry_date !== undefined && { expiry_date: input.expiry_date || null }),
+  };
+}
+
+export async function createPilotQualification(
+  input: PilotQualificationInput,
+  createdBy: string | null
+): Promise<PilotQualification> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilot_qualifications')
+    .insert({ ...qualificationRow(input), created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating pilot qualification:', error);
+    throw new Error(
+      error.code === '23505'
+        ? 'The pilot already holds this qualification - update its expiry instead'
+        : 'Failed to create qualification'
+    );
+  }
+
+  logger.info('Pilot qualification recorded', {
+    pilotId: input.pilot_id,
+    type: input.qualification_type,
+    code: data.code,
+  });
+  return { ...data, status: qualificationStatus(data.expiry_date, new Date()) };
+}
+
+export async function updatePilotQualification(
+  id: string,
+  input: Partial<Omit<PilotQualificationInput, 'pilot_id'>>
+): Promise<PilotQualification> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilot_qualifications')
+    .update({ ...qualificationRow(input), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating pilot qualification:', error);
+    throw new Error('Failed to update qualification');
+  }
+
+  return { ...data, status: qualificationStatus(data.expiry_date, new Date()) };
+}
+
+export async function deletePilotQualification(id: string): Promise<void> {
+  const { error } = await getSupabaseAdmin().from('pilot_qualifications').delete().eq('id', id);
+
+  if (error) {
+    logger.error('Error deleting pilot qualification:', error);
+    throw new Error('Failed to delete qualification');
+  }
+}
+
+/**
+ * Lapsed or expiring recency items and expired or expiring qualifications of active pilots
+ */
+export async function getCurrencyExceptions(): Promise<CurrencyException[]> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  const rules = await getCurrencyRules();
+  const [sectors, pilotsResult, qualificationsResult] = await Promise.all([
+    getSectorsByPilot(rules, now),
+    supabase
+      .from('pilots')
+      .select('id, first_name, last_name, employee_id, role')
+      .eq('is_active', true)
+      .order('last_name'),
+    supabase
+      .from('pilot_qualifications')
+      .select('pilot_id, qualification_type, code, expiry_date')
+      .not('expiry_date', 'is', null),
+  ]);
+
+  if (pilotsResult.error || qualificationsResult.error) {
+    logger.error('Error fetching currency exceptions:', {
+      pilots: pilotsResult.error,
+      qualifications: qualificationsResult.error,
+    });
+    throw new Error('Failed to fetch currency data');
+  }
+
+  const exceptions: CurrencyException[] = [];
+  const pilots = new Map((pilotsResult.data || []).map((pilot) => [pilot.id, pilot]));
+
+  for (const pilot of pilots.values()) {
+    const pilotSectors = sectors.get(pilot.id) || [];
+    for (const rule of rules.filter((r) => ruleAppliesTo(r, pilot.role))) {
+      const item = computeCurrencyItem(rule, pilotSectors, now);
+      if (item.status === 'CURRENT') continue;
+      exceptions.push({
+        pilotId: pilot.id,
+        name: `${pilot.first_name} ${pilot.last_name}`,
+        employeeId: pilot.employee_id,
+        role: pilot.role,
+        kind: 'CURRENCY',
+        code: item.code,
+        label: item.name,
+        status: item.status,
+        date: item.validUntil,
+      });
+    }
+  }
+
+  for (const row of qualificationsResult.data || []) {
+    const pilot = pilots.get(row.pilot_id);
+    const status = qualificationStatus(row.expiry_date, now);
+    if (!pilot || status === 'CURRENT') continue;
+    exceptions.push({
+      pilotId: pilot.id,
+      name: `${pilot.first_name} ${pilot.last_name}`,
+      employeeId: pilot.employee_id,
+      role: pilot.role,
+      kind: row.qualification_type,
+      code: row.code,
+      label: `${row.qualification_type === 'ROUTE' ? 'Route' : 'Aerodrome'} ${row.code}`,
+      status,
+      date: row.expiry_date,
+    });
+  }
+
+  return exceptions.sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+}
+
+/**
+ * Check that the pilot holds a flight request's required qualifications on its departure
+ * Entries in required_qualifications that are not { type, code } requirements are
+ * reported but do not block approval.
+ */
+export async function checkFlightRequestQualifications(
+  request: RequiredQualificationsRequest
+): Promise<FlightRequestQualificationCheck> {
+  const { requirements, unrecognised } = parseRequiredQualifications(
+    request.required_qualifications
+  );
+
+  if (requirements.length === 0) {
+    return { checked: false, allowed: true, missing: [], unrecognised };
+  }
+
+  const departure = request.planned_duty_start || request.departure_date;
+  const onDate = departure ? new Date(parseUtc(departure)) : new Date();
+
+  const [currency, qualifications] = await Promise.all([
+    getPilotCurrency(request.pilot_id),
+    getPilotQualifications(request.pilot_id),
+  ]);
+  const missing = checkRequiredQualifications(requirements, { qualifications, currency }, onDate);
+
+  return { checked: true, allowed: missing.length === 0, missing, unrecognised };
+}
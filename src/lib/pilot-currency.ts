@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Pilot Recency and Qualifications Engine
+ * Recency (currency) items derived from logged sectors - e.g. 3 landings in 90 days -
+ * which lapse on their own as sectors age out of the period, route and aerodrome
+ * qualification status, and the check of a flight request's required_qualifications
+ * against what the pilot holds on the departure date.
+ * Pure functions - data access lives in pilot-currency-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Items lapsing or expiring within this many days are reported as expiring */
+export const CURRENCY_WARNING_DAYS = 14;
+
+export const CURRENCY_EVENTS = ['TAKEOFF', 'LANDING', 'SECTOR'] as const;
+export type CurrencyEvent = (typeof CURRENCY_EVENTS)[number];
+
+export const QUALIFICATION_TYPES = ['ROUTE', 'AERODROME'] as const;
+export type QualificationType = (typeof QUALIFICATION_TYPES)[number];
+
+export const REQUIREMENT_TYPES = [...QUALIFICATION_TYPES, 'CURRENCY'] as const;
+export type RequirementType = (typeof REQUIREMENT_TYPES)[number];
+
+export type CurrencyStatus = 'CURRENT' | 'EXPIRING' | 'LAPSED';
+export type QualificationStatus = 'CURRENT' | 'EXPIRING' | 'EXPIRED';
+
+export interface CurrencyRule {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  event: CurrencyEvent;
+  required_count: number;
+  period_days: number;
+  applies_to_role: string | null;
+  is_active: boolean;
+}
+
+export interface CurrencySector {
+  blockOff: string;
+  blockOn: string;
+  takeoffs: number;
+  landings: number;
+}
+
+export interface CurrencyItem {
+  code: string;
+  name: string;
+  event: CurrencyEvent;
+  required: number;
+  periodDays: number;
+  /** Events in the period ending at the evaluation time */
+  count: number;
+  /** When the item lapses unless more events are logged; null if never current */
+  validUntil: string | null;
+  daysRemaining: number | null;
+  status: CurrencyStatus;
+}
+
+export interface HeldQualification {
+  qualification_type: QualificationType;
+  code: string;
+  expiry_date: string | null;
+}
+
+export interface RequiredQualification {
+  type: RequirementType;
+  code: string;
+}
+
+/**
+ * Whether a rule applies to a pilot of the given role
+ */
+export function ruleAppliesTo(rule: CurrencyRule, role: string): boolean {
+  return rule.is_active && (!rule.applies_to_role || rule.applies_to_role === role);
+}
+
+/**
+ * Evaluate one recency rule against a pilot's sectors
+ * The item stays current until the period has passed since the event that brought the
+ * count up to the requirement, counting back from the most recent event.
+ */
+export function computeCurrencyItem(
+  rule: CurrencyRule,
+  sectors: CurrencySector[],
+  asOf: Date
+): CurrencyItem {
+  const at = asOf.getTime();
+  const periodMs = rule.period_days * DAY_MS;
+
+  const eventCount: Record<CurrencyEvent, (sector: CurrencySector) => number> = {
+    TAKEOFF: (sector) => sector.takeoffs,
+    LANDING: (sector) => sector.landings,
+    SECTOR: () => 1,
+  };
+
+  const events = sectors
+    .map((sector) => ({
+      time: new Date(rule.event === 'TAKEOFF' ? sector.blockOff : sector.blockOn).getTime(),
+      count: eventCount[rule.event](sector),
+    }))
+    .filter((event) => event.count > 0 && event.time <= at)
+    .sort((a, b) => b.time - a.time);
+
+  let count = 0;
+  let cumulative = 0;
+  let qualifyingTime: number | null = null;
+
+  for (const event of events) {
+    if (event.time > at - periodMs) count += event.count;
+    cumulative += event.count;
+    if (qualifyingTime === null && cumulative >= rule.required_count) {
+      qualifyingTime = event.time;
+    }
+  }
+
+  const validUntil = qualifyingTime === null ? null : qualifyingTime + periodMs;
+  const daysRemaining = validUntil === null ? null : Math.floor((validUntil - at) / DAY_MS);
+
+  let status: CurrencyStatus = 'LAPSED';
+  if (validUntil !== null && validUntil > at) {
+    status = (daysRemaining ?? 0) <= CURRENCY_WARNING_DAYS ? 'EXPIRING' : 'CURRENT';
+  }
+
+  return {
+    code: rule.code,
+    name: rule.name,
+    event: rule.event,
+    required: rule.required_count,
+    periodDays: rule.period_days,
+    count,
+    validUntil: validUntil === null ? null : new Date(validUntil).toISOString(),
+    daysRemaining,
+    status,
+  };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Status of a qualification on a date; qualifications without an expiry never expire
+ */
+export function qualificationStatus(expiryDate: string | null, asOf: Date): QualificationStatus {
+  if (!expiryDate) return 'CURRENT';
+
+  const today = toDateString(asOf);
+  if (expiryDate < today) return 'EXPIRED';
+
+  const warningDate = toDateString(new Date(asOf.getTime() + CURRENCY_WARNING_DAYS * DAY_MS));
+  return expiryDate <= warningDate ? 'EXPIRING' : 'CURRENT';
+}
+
+/**
+ * Canonical qualification code: upper case, route legs joined with "-"
+ */
+export function normalizeQualificationCode(code: string): string {
+  return code
+    .trim()
+    .toUpperCase()
+    .replace(/\s*[-/>]\s*/g, '-');
+}
+
+function sameQualification(type: RequirementType, held: string, required: string): boolean {
+  const a = normalizeQualificationCode(held);
+  const b = normalizeQualificationCode(required);
+  if (a === b) return true;
+  // A route qualification covers the route in both directions
+  return type === 'ROUTE' && a.split('-').reverse().join('-') === b;
+}
+
+/**
+ * Read required_qualifications entries: { type, code } objects or "TYPE:CODE" strings
+ */
+export function parseRequiredQualifications(value: unknown): {
+  requirements: RequiredQualification[];
+  unrecognised: string[];
+} {
+  const requirements: RequiredQualification[] = [];
+  const unrecognised: string[] = [];
+
+  for (const entry of Array.isArray(value) ? value : []) {
+    let type: unknown;
+    let code: unknown;
+
+    if (typeof entry === 'string') {
+      [type, code] = entry.split(':').map((part) => part.trim());
+    } else if (entry && typeof entry === 'object') {
+      ({ type, code } = entry as Record<string, unknown>);
+    }
+
+    const normalizedType = typeof type === 'string' ? type.toUpperCase() : '';
+    if (
+      REQUIREMENT_TYPES.includes(normalizedType as RequirementType) &&
+      typeof code === 'string' &&
+      code.trim()
+    ) {
+      requirements.push({
+        type: normalizedType as RequirementType,
+        code: normalizeQualificationCode(code),
+      });
+    } else {
+      unrecognised.push(typeof entry === 'string' ? entry : JSON.stringify(entry));
+    }
+  }
+
+  return { requirements, unrecognised };
+}
+
+/**
+ * Requirements the pilot does not hold on the given date
+ * Currency must still be valid on that date on the strength of the sectors logged so far.
+ */
+export function checkRequiredQualifications(
+  requirements: RequiredQualification[],
+  held: { qualifications: HeldQualification[]; currency: CurrencyItem[] },
+  onDate: Date
+): string[] {
+  const missing: string[] = [];
+  const day = toDateString(onDate);
+
+  for (const requirement of requirements) {
+    const label = `${requirement.type} ${requirement.code}`;
+
+    if (requirement.type === 'CURRENCY') {
+      const item = held.currency.find((c) => c.code.toUpperCase() === requirement.code);
+      if (!item) {
+        missing.push(`${label}: no such currency requirement applies to the pilot`);
+      } else if (!item.validUntil || item.validUntil <= onDate.toISOString()) {
+        missing.push(
+          item.validUntil
+            ? `${label}: lapses ${item.validUntil.slice(0, 10)}`
+            : `${label}: not current (${item.count}/${item.required} in ${item.periodDays} days)`
+        );
+      }
+      continue;
+    }
+
+    const matches = held.qualifications.filter(
+      (q) =>
+        q.qualification_type === requirement.type &&
+        sameQualification(requirement.type, q.code, requirement.code)
+    );
+    if (matches.length === 0) {
+      missing.push(`${label}: not held`);
+    } else if (!matches.some((q) => !q.expiry_date || q.expiry_date >= day)) {
+      missing.push(`${label}: expired ${matches[0]?.expiry_date}`);
+    }
+  }
+
+  return missing;
+}
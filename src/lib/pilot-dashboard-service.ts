@@ -62,6 +62,7 @@ export async function getPilotDashboardStats(pilotUserId: string): Promise<Dashb
       .select('*', { count: 'exact', head: true })
       .eq('recipient_id', pilotUserId)
       .eq('recipient_type', 'pilot')
+      .eq('in_app', true)
       .eq('is_read', false);
 
     return {
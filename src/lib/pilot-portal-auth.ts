@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Pilot Portal Route Helpers
+ * Resolves the signed-in pilot portal user for the /api/pilot routes and
+ * builds the responses those routes return when the user is not signed in or
+ * has no linked pilot record.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { getPortalPilotId } from '@/lib/pilot-portal-service';
+
+/**
+ * The signed-in pilot portal user and their pilot record, or null when no
+ * one is signed in
+ */
+export async function getPortalPilot() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  if (error || !user) return null;
+
+  const pilotId = await getPortalPilotId(supabase);
+  return { supabase, pilotUserId: user.id, pilotId };
+}
+
+export const unauthorized = () =>
+  NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+
+export const noPilotRecord = () =>
+  NextResponse.json(
+    { success: false, error: 'No pilot record is linked to your account' },
+    { status: 403 }
+  );
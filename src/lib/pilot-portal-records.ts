@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Pilot Portal Records
+ * What a pilot sees of their own record in the pilot portal: their checks
+ * with expiry status, most urgent first, and the documents they may upload
+ * for the fleet office to verify.
+ * Pure functions - data access lives in pilot-portal-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { getCertificationStatus, type CertificationStatus } from '@/lib/certification-utils';
+import { getCheckTypeRules, type CheckTypeRules } from '@/lib/certification-rules';
+import type { DocumentMetadata, DocumentType } from '@/lib/document-storage';
+
+/** A pilot_checks row with its check type embedded */
+export interface PilotCheckRow {
+  id: string;
+  expiry_date: string | null;
+  check_types: {
+    id: string;
+    check_code: string;
+    check_description: string | null;
+    category: string | null;
+  } & Partial<Pick<CheckTypeRules, 'warning_days' | 'grace_period_days'>>;
+}
+
+export interface PilotCertification {
+  id: string;
+  checkTypeId: string;
+  checkCode: string;
+  checkDescription: string | null;
+  category: string | null;
+  expiryDate: string | null;
+  status: CertificationStatus;
+}
+
+export interface PilotCertificationSummary {
+  total: number;
+  expired: number;
+  expiringSoon: number;
+  current: number;
+}
+
+/** What a pilot sees of one of their documents */
+export type PilotDocument = Pick<
+  DocumentMetadata,
+  | 'pilot_id'
+  | 'document_type'
+  | 'document_name'
+  | 'file_size'
+  | 'file_type'
+  | 'document_number'
+  | 'issue_date'
+  | 'expiry_date'
+  | 'verification_status'
+  | 'verified_at'
+  | 'notes'
+> & { id: string; created_at: string };
+
+/** Document types pilots can upload themselves; contracts and the like come from the office */
+export const PILOT_UPLOAD_DOCUMENT_TYPES = [
+  'LICENSE',
+  'MEDICAL',
+  'PASSPORT',
+  'VISA',
+  'TRAINING',
+  'ID_CARD',
+  'OTHER',
+] as const satisfies readonly DocumentType[];
+
+export type PilotUploadDocumentType = (typeof PILOT_UPLOAD_DOCUMENT_TYPES)[number];
+
+export const PILOT_DOCUMENT_TYPE_LABELS: Record<PilotUploadDocumentType, string> = {
+  LICENSE: 'Licence',
+  MEDICAL: 'Medical certificate',
+  PASSPORT: 'Passport',
+  VISA: 'Visa',
+  TRAINING: 'Training record',
+  ID_CARD: 'ID card',
+  OTHER: 'Other',
+};
+
+/**
+ * A pilot's checks with status under each check type's own rules, most
+ * urgent first; checks without an expiry date go last
+ */
+export function toPilotCertifications(rows: PilotCheckRow[]): PilotCertification[] {
+  return rows
+    .map((row) => ({
+      id: row.id,
+      checkTypeId: row.check_types.id,
+      checkCode: row.check_types.check_code,
+      checkDescription: row.check_types.check_description,
+      category: row.check_types.category,
+      expiryDate: row.expiry_date,
+      status: getCertificationStatus(row.expiry_date, getCheckTypeRules(row.check_types)),
+    }))
+    .sort((a, b) => {
+      if (!a.expiryDate || !b.expiryDate) return a.expiryDate ? -1 : b.expiryDate ? 1 : 0;
+      return a.status.daysUntilExpiry - b.status.daysUntilExpiry;
+    });
+}
+
+/**
+ * Counts by status; checks in their grace period count as expired
+ */
+export function summarizePilotCertifications(
+  certifications: PilotCertification[]
+): PilotCertificationSummary {
+  const count = (labels: string[]) =>
+    certifications.filter((certification) => labels.includes(certification.status.label)).length;
+
+  return {
+    total: certifications.length,
+    expired: count(['Expired', 'Grace Period']),
+    expiringSoon: count(['Expiring Soon']),
+    current: count(['Current']),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Pilot Portal Service
+ * Reads a signed-in pilot's own certifications and documents. Queries run
+ * with the pilot's session client, so row level security (see
+ * migrations/20261019_pilot_self_service.sql) limits them to that pilot's
+ * records; uploads go through document-storage and land pending verification.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '@/lib/logger';
+import { uploadDocument, type DocumentMetadata } from '@/lib/document-storage';
+import {
+  toPilotCertifications,
+  type PilotCertification,
+  type PilotCheckRow,
+  type PilotDocument,
+  type PilotUploadDocumentType,
+} from '@/lib/pilot-portal-records';
+
+export interface PilotDocumentUpload {
+  documentType: PilotUploadDocumentType;
+  file: File;
+  document_number?: string;
+  issue_date?: string;
+  expiry_date?: string;
+  notes?: string;
+}
+
+/**
+ * Pilot record of the signed-in portal user, or null when they are not an
+ * approved pilot
+ */
+export async function getPortalPilotId(supabase: SupabaseClient): Promise<string | null> {
+  const { data, error } = await supabase.rpc('current_pilot_id');
+
+  if (error) {
+    logger.error('Error resolving portal pilot:', error);
+    throw new Error('Failed to resolve pilot record');
+  }
+
+  return (data as string | null) ?? null;
+}
+
+/**
+ * The pilot's checks with their status, most urgent first
+ */
+export async function getOwnCertifications(
+  supabase: SupabaseClient,
+  pilotId: string
+): Promise<PilotCertification[]> {
+  const { data, error } = await supabase
+    .from('pilot_checks')
+    .select(
+      'id, expiry_date, check_types!inner (id, check_code, check_description, category, warning_days, grace_period_days)'
+    )
+    .eq('pilot_id', pilotId);
+
+  if (error) {
+    logger.error('Error fetching own certifications:', error);
+    throw new Error('Failed to fetch certifications');
+  }
+
+  return toPilotCertifications((data || []) as unknown as PilotCheckRow[]);
+}
+
+/**
+ * The pilot's current documents and uploads awaiting verification, newest first
+ */
+export async function getOwnDocuments(
+  supabase: SupabaseClient,
+  pilotId: string
+): Promise<PilotDocument[]> {
+  const { data, error } = await supabase
+    .from('pilot_documents')
+    .select(
+      'id, pilot_id, document_type, document_name, file_size, file_type, document_number, issue_date, expiry_date, verification_status, verified_at, notes, created_at'
+    )
+    .eq('pilot_id', pilotId)
+    .or('is_current_version.eq.true,verification_status.eq.pending')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching own documents:', error);
+    throw new Error('Failed to fetch documents');
+  }
+
+  return (data || []) as PilotDocument[];
+}
+
+/**
+ * Whether the document is one of the signed-in pilot's own; row level
+ * security hides everyone else's
+ */
+export async function isOwnDocument(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('pilot_documents')
+    .select('id')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error checking document ownership:', error);
+    throw new Error('Failed to fetch document');
+  }
+
+  return !!data;
+}
+
+/**
+ * Upload a document for the pilot; it awaits verification by the fleet office
+ * and only then replaces the current version
+ */
+export async function uploadOwnDocument(
+  pilotId: string,
+  pilotUserId: string,
+  upload: PilotDocumentUpload
+): Promise<DocumentMetadata> {
+  const { documentType, file, ...metadata } = upload;
+  const result = await uploadDocument({
+    pilotId,
+    documentType,
+    file,
+    metadata,
+    uploadedByPilotUser: pilotUserId,
+  });
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to upload document');
+  }
+
+  return result.data;
+}
@@ -0,0 +1,326 @@
+/**
+ * @fileoverview Pilot Request Service
+ * Leave bids and flight requests submitted by pilots from the pilot portal,
+ * and the notifications that tell them how each was decided. The
+ * pilot is always the one linked to the signed-in portal user (see
+ * getPortalPilotId); bids are refused once the roster period's bid deadline
+ * has passed.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { parseISO } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { getPilotRecipient, notify } from '@/lib/notification-service';
+import { getRosterPeriodFromDate } from '@/lib/roster-utils';
+import type {
+  FlightRequest,
+  FlightRequestPriority,
+  FlightRequestType,
+} from '@/lib/flight-request-service';
+import {
+  bidDeadlineError,
+  flightRequestStatusNotification,
+  formatBidAlternatives,
+  formatBidDateRange,
+  leaveBidStatusNotification,
+  listOpenBidWindows,
+  type BidWindow,
+  type DateRange,
+  type FlightRequestDecision,
+  type LeaveBidDecision,
+  type LeaveBidStatus,
+  type PilotNotificationContent,
+} from '@/lib/pilot-requests';
+
+export interface PilotLeaveBid {
+  id: string;
+  pilot_id: string;
+  roster_period_code: string;
+  preferred_dates: string;
+  alternative_dates: string | null;
+  priority: 'HIGH' | 'MEDIUM' | 'LOW';
+  reason: string;
+  notes: string | null;
+  status: LeaveBidStatus;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  review_comments: string | null;
+  /** Outcome of the allocation, once run */
+  leave_bid_awards: {
+    outcome: 'AWARDED' | 'UNAWARDED';
+    awarded_choice: number | null;
+    start_date: string | null;
+    end_date: string | null;
+  } | null;
+}
+
+export interface PilotLeaveBidInput {
+  roster_period_code: string;
+  preferred: DateRange;
+  alternatives: DateRange[];
+  priority: 'HIGH' | 'MEDIUM' | 'LOW';
+  reason: string;
+  notes?: string;
+}
+
+export interface PilotFlightRequestInput {
+  request_type: FlightRequestType;
+  flight_number?: string;
+  route?: string;
+  departure_airport?: string;
+  arrival_airport?: string;
+  departure_date?: string;
+  return_date?: string;
+  priority?: FlightRequestPriority;
+  reason: string;
+  notes?: string;
+}
+
+export interface PilotSubmissionResult<T> {
+  success: boolean;
+  error?: string;
+  data?: T;
+}
+
+const LEAVE_BID_COLUMNS =
+  'id, pilot_id, roster_period_code, preferred_dates, alternative_dates, priority, reason, notes, status, submitted_at, reviewed_at, review_comments, leave_bid_awards (outcome, awarded_choice, start_date, end_date)';
+
+const FLIGHT_REQUEST_COLUMNS =
+  'id, pilot_id, request_type, flight_number, route, departure_airport, arrival_airport, departure_date, return_date, priority, status, reason, notes, review_notes, reviewed_at, cancellation_reason, created_at, updated_at';
+
+/**
+ * Roster periods currently taking bids, with their deadlines
+ */
+export async function getOpenBidWindows(): Promise<BidWindow[]> {
+  await loadRosterCalendar();
+  return listOpenBidWindows();
+}
+
+/**
+ * The pilot's leave bids, newest first
+ */
+export async function getOwnLeaveBids(pilotId: string): Promise<PilotLeaveBid[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('leave_bids')
+    .select(LEAVE_BID_COLUMNS)
+    .eq('pilot_id', pilotId)
+    .order('submitted_at', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching own leave bids:', error);
+    throw new Error('Failed to fetch leave bids');
+  }
+
+  return (data || []) as unknown as PilotLeaveBid[];
+}
+
+/**
+ * Submit a leave bid for an open roster period; a pilot has at most one bid
+ * per period that is not withdrawn
+ */
+export async function submitOwnLeaveBid(
+  pilotId: string,
+  pilotUserId: string,
+  input: PilotLeaveBidInput
+): Promise<PilotSubmissionResult<PilotLeaveBid>> {
+  await loadRosterCalendar();
+
+  const deadlineError = bidDeadlineError(input.roster_period_code);
+  if (deadlineError) {
+    return { success: false, error: deadlineError };
+  }
+
+  if (
+    getRosterPeriodFromDate(parseISO(input.preferred.startDate)).code !== input.roster_period_code
+  ) {
+    return {
+      success: false,
+      error: `Preferred dates must start in ${input.roster_period_code}`,
+    };
+  }
+
+  const supabase = getSupabaseAdmin();
+
+  const { data: existing, error: existingError } = await supabase
+    .from('leave_bids')
+    .select('id')
+    .eq('pilot_id', pilotId)
+    .eq('roster_period_code', input.roster_period_code)
+    .neq('status', 'WITHDRAWN')
+    .limit(1);
+
+  if (existingError) {
+    logger.error('Error checking existing leave bids:', existingError);
+    throw new Error('Failed to check existing leave bids');
+  }
+  if (existing && existing.length > 0) {
+    return {
+      success: false,
+      error: `You already have a bid for ${input.roster_period_code}; withdraw it to bid again`,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from('leave_bids')
+    .insert({
+      pilot_id: pilotId,
+      submitted_by_pilot_user_id: pilotUserId,
+      roster_period_code: input.roster_period_code,
+      preferred_dates: formatBidDateRange(input.preferred),
+      alternative_dates: formatBidAlternatives(input.alternatives),
+      priority: input.priority,
+      reason: input.reason,
+      notes: input.notes || null,
+      status: 'PENDING',
+      submitted_at: new Date().toISOString(),
+    })
+    .select(LEAVE_BID_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error('Error submitting leave bid:', error);
+    throw new Error('Failed to submit leave bid');
+  }
+
+  logger.info('Leave bid submitted from pilot portal', {
+    id: data.id,
+    pilotId,
+    rosterPeriod: input.roster_period_code,
+  });
+  return { success: true, data: data as unknown as PilotLeaveBid };
+}
+
+/**
+ * Withdraw one of the pilot's pending bids while its period still takes bids
+ */
+export async function withdrawOwnLeaveBid(
+  pilotId: string,
+  bidId: string
+): Promise<PilotSubmissionResult<PilotLeaveBid>> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: bid, error: fetchError } = await supabase
+    .from('leave_bids')
+    .select('id, pilot_id, roster_period_code, status')
+    .eq('id', bidId)
+    .eq('pilot_id', pilotId)
+    .maybeSingle();
+
+  if (fetchError) {
+    logger.error('Error fetching leave bid:', fetchError);
+    throw new Error('Failed to fetch leave bid');
+  }
+  if (!bid) {
+    return { success: false, error: 'Leave bid not found' };
+  }
+  if (bid.status !== 'PENDING') {
+    return { success: false, error: `Cannot withdraw a ${bid.status.toLowerCase()} bid` };
+  }
+
+  await loadRosterCalendar();
+  const deadlineError = bidDeadlineError(bid.roster_period_code);
+  if (deadlineError) {
+    return { success: false, error: deadlineError };
+  }
+
+  const { data, error } = await supabase
+    .from('leave_bids')
+    .update({ status: 'WITHDRAWN', updated_at: new Date().toISOString() })
+    .eq('id', bidId)
+    .select(LEAVE_BID_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error('Error withdrawing leave bid:', error);
+    throw new Error('Failed to withdraw leave bid');
+  }
+
+  logger.info('Leave bid withdrawn from pilot portal', { id: bidId, pilotId });
+  return { success: true, data: data as unknown as PilotLeaveBid };
+}
+
+/**
+ * The pilot's flight requests, newest first
+ */
+export async function getOwnFlightRequests(pilotId: string): Promise<FlightRequest[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('flight_requests')
+    .select(FLIGHT_REQUEST_COLUMNS)
+    .eq('pilot_id', pilotId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Error fetching own flight requests:', error);
+    throw new Error('Failed to fetch flight requests');
+  }
+
+  return (data || []) as FlightRequest[];
+}
+
+/**
+ * Submit a flight request for the pilot; it awaits review by the fleet office
+ */
+export async function submitOwnFlightRequest(
+  pilotId: string,
+  pilotUserId: string,
+  input: PilotFlightRequestInput
+): Promise<FlightRequest> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('flight_requests')
+    .insert({
+      ...input,
+      pilot_id: pilotId,
+      submitted_by_pilot_user_id: pilotUserId,
+      priority: input.priority || 'NORMAL',
+      status: 'PENDING',
+    })
+    .select(FLIGHT_REQUEST_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error('Error submitting flight request:', error);
+    throw new Error('Failed to submit flight request');
+  }
+
+  logger.info('Flight request submitted from pilot portal', { id: data.id, pilotId });
+  return data as FlightRequest;
+}
+
+/**
+ * Notify the pilot's portal account through the notification pipeline;
+ * pilots without an approved account are skipped. Failures are logged, never thrown, so they
+ * cannot undo the decision being announced.
+ */
+async function notifyPilot(pilotId: string, content: PilotNotificationContent): Promise<void> {
+  try {
+    const recipient = await getPilotRecipient(pilotId);
+    if (recipient) await notify({ ...content, recipients: [recipient] });
+  } catch (error) {
+    logger.error('Error notifying pilot', { pilotId, type: content.type, error });
+  }
+}
+
+/**
+ * Tell the pilot their leave bid was awarded or not
+ */
+export async function notifyLeaveBidStatus(
+  bid: LeaveBidDecision & { pilot_id: string }
+): Promise<void> {
+  const content = leaveBidStatusNotification(bid);
+  if (content) await notifyPilot(bid.pilot_id, content);
+}
+
+/**
+ * Tell the pilot their flight request moved on
+ */
+export async function notifyFlightRequestStatus(
+  request: FlightRequestDecision & { pilot_id: string }
+): Promise<void> {
+  const content = flightRequestStatusNotification(request);
+  if (content) await notifyPilot(request.pilot_id, content);
+}
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Pilot Requests
+ * Leave bids and flight requests pilots submit from the pilot portal. Bids are
+ * taken for each roster period until its bid deadline (see roster-utils), and
+ * decisions by the fleet office reach the pilot as notifications.
+ * Pure functions - data access lives in pilot-request-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import { getRosterPeriodByCode, listRosterPeriods, type RosterPeriod } from '@/lib/roster-utils';
+import type { FlightRequestStatus, FlightRequestType } from '@/lib/flight-request-service';
+import type { NotificationType } from '@/lib/notification-catalogue';
+
+export type LeaveBidStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'WITHDRAWN';
+
+/** Roster periods ahead that pilots can bid for (one roster year) */
+export const BID_HORIZON_PERIODS = 13;
+
+export interface BidWindow {
+  code: string;
+  /** yyyy-MM-dd */
+  startDate: string;
+  endDate: string;
+  bidDeadline: string;
+  open: boolean;
+  /** Days until the deadline; 0 on the last day and once closed */
+  daysLeft: number;
+}
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+/** A leave bid or flight request as needed to tell the pilot about its decision */
+export interface LeaveBidDecision {
+  id: string;
+  roster_period_code: string;
+  status: LeaveBidStatus;
+  review_comments?: string | null;
+}
+
+export interface FlightRequestDecision {
+  id: string;
+  request_type: FlightRequestType;
+  status: FlightRequestStatus;
+  review_notes?: string | null;
+  cancellation_reason?: string | null;
+}
+
+/** A notification for the pilot, without recipient */
+export interface PilotNotificationContent {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string;
+  metadata: Record<string, unknown>;
+}
+
+export const FLIGHT_REQUEST_TYPE_LABELS: Record<FlightRequestType, string> = {
+  FLIGHT_ASSIGNMENT: 'Flight Assignment',
+  ROUTE_QUALIFICATION: 'Route Qualification',
+  TYPE_RATING: 'Type Rating Training',
+  LINE_CHECK: 'Line Check',
+  SIM_TRAINING: 'Simulator Training',
+  STANDBY: 'Standby Duty',
+  POSITION_CHANGE: 'Position Change (FO to Captain)',
+  BASE_CHANGE: 'Base Change',
+  OTHER: 'Other',
+};
+
+const ymd = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Whether bids for a period are still taken; the deadline day itself is open
+ */
+export function getBidWindow(period: RosterPeriod, today: Date = new Date()): BidWindow {
+  const daysLeft = differenceInCalendarDays(period.bidDeadline, startOfDay(today));
+  const open = daysLeft >= 0 && period.startDate > today;
+
+  return {
+    code: period.code,
+    startDate: ymd(period.startDate),
+    endDate: ymd(period.endDate),
+    bidDeadline: ymd(period.bidDeadline),
+    open,
+    daysLeft: Math.max(0, daysLeft),
+  };
+}
+
+/**
+ * Upcoming roster periods still open for bids, soonest first
+ */
+export function listOpenBidWindows(
+  today: Date = new Date(),
+  count: number = BID_HORIZON_PERIODS
+): BidWindow[] {
+  return listRosterPeriods(today, count + 1)
+    .map((period) => getBidWindow(period, today))
+    .filter((window) => window.open);
+}
+
+/**
+ * Why a bid for the period cannot be taken, or null when it can
+ */
+export function bidDeadlineError(
+  rosterPeriodCode: string,
+  today: Date = new Date()
+): string | null {
+  const period = getRosterPeriodByCode(rosterPeriodCode);
+  if (!period) return `Unknown roster period: ${rosterPeriodCode}`;
+
+  const window = getBidWindow(period, today);
+  if (window.open) return null;
+  return period.startDate <= today
+    ? `${period.code} has already started`
+    : `Bids for ${period.code} closed on ${format(period.bidDeadline, 'd MMM yyyy')}`;
+}
+
+/**
+ * A date range as stored on leave bids ("Mar 2 - Mar 8, 2026", as entered in
+ * LeaveBidModal), which the allocation engine reads back
+ */
+export function formatBidDateRange(range: DateRange): string {
+  return `${format(parseISO(range.startDate), 'MMM d')} - ${format(parseISO(range.endDate), 'MMM d, yyyy')}`;
+}
+
+/**
+ * Alternative choices as stored on leave bids ("Choice 2: ... | Choice 3: ...")
+ */
+export function formatBidAlternatives(ranges: DateRange[]): string | null {
+  if (ranges.length === 0) return null;
+  return ranges
+    .map((range, index) => `Choice ${index + 2}: ${formatBidDateRange(range)}`)
+    .join(' | ');
+}
+
+/**
+ * Notification telling the pilot their bid was decided; null while undecided
+ * or when the pilot withdrew it themselves
+ */
+export function leaveBidStatusNotification(bid: LeaveBidDecision): PilotNotificationContent | null {
+  if (bid.status !== 'APPROVED' && bid.status !== 'REJECTED') return null;
+
+  const approved = bid.status === 'APPROVED';
+  const comments = bid.review_comments ? ` ${bid.review_comments}` : '';
+
+  return {
+    type: approved ? 'leave_bid_approved' : 'leave_bid_rejected',
+    title: approved ? 'Leave Bid Awarded' : 'Leave Bid Not Awarded',
+    message: `Your leave bid for ${bid.roster_period_code} was ${approved ? 'awarded' : 'not awarded'}.${comments}`,
+    link: '/pilot/leave-bids',
+    metadata: { leave_bid_id: bid.id, roster_period_code: bid.roster_period_code },
+  };
+}
+
+/**
+ * Notification telling the pilot their flight request moved on; null for a
+ * request still pending
+ */
+export function flightRequestStatusNotification(
+  request: FlightRequestDecision
+): PilotNotificationContent | null {
+  if (request.status === 'PENDING') return null;
+
+  const label = FLIGHT_REQUEST_TYPE_LABELS[request.request_type] || request.request_type;
+  const status = request.status.toLowerCase();
+  const detail =
+    request.status === 'CANCELLED' ? request.cancellation_reason : request.review_notes;
+  const statusText = status.replace('_', ' ');
+
+  return {
+    type: `flight_request_${status}` as NotificationType,
+    title: `${label} Request ${statusText.replace(/\b\w/g, (c) => c.toUpperCase())}`,
+    message: `Your ${label.toLowerCase()} request is now ${statusText}.${detail ? ` ${detail}` : ''}`,
+    link: '/pilot/flight-requests',
+    metadata: { flight_request_id: request.id, status: request.status },
+  };
+}
@@ -6,13 +6,22 @@ import {
   PilotCheck,
   CheckType,
 } from './supabase';
+import { authenticatedFetch } from './api-client';
+import { versionHeaders, VERSION_CONFLICT_MESSAGE } from './record-version';
 import { getCertificationStatus } from './certification-utils';
+import {
+  calculateNextExpiryDate,
+  getCheckTypeRules,
+  type NextExpiryProposal,
+} from './certification-rules';
 import {
   calculatePilotsRetirement,
   getPilotsNearingRetirement,
   type PilotWithRetirement,
 } from './retirement-utils';
 import { queryMonitor } from './query-monitor';
+import { UNRESTRICTED_SCOPE, type DataScope } from './data-scope';
+import { scopePilotsQuery } from './data-scope-service';
 import type { PaginationParams, PaginatedResponse } from './pagination-utils';
 import { applyOffsetPagination, buildPaginatedResponse, getTotalCount } from './pagination-utils';
 
@@ -75,6 +84,8 @@ export interface PilotFormData {
   last_name: string;
   role: 'Captain' | 'First Officer';
   contract_type?: string;
+  base?: string;
+  fleet?: string;
   nationality?: string;
   passport_number?: string;
   passport_expiry?: string;
@@ -91,7 +102,10 @@ export interface PilotFormData {
 }
 
 // Get all pilots with certification counts
-export async function getAllPilots(): Promise<PilotWithCertifications[]> {
+// Server-side callers pass the user's data scope; the API route applies it for client-side calls
+export async function getAllPilots(
+  scope: DataScope = UNRESTRICTED_SCOPE
+): Promise<PilotWithCertifications[]> {
   try {
     console.log('🔍 getAllPilots: Starting query for pilots...');
 
@@ -103,7 +117,7 @@ export async function getAllPilots(): Promise<PilotWithCertifications[]> {
       // CRITICAL FIX: Disable Next.js fetch caching to always get fresh data
       // Add timestamp to force cache busting
       const timestamp = new Date().getTime();
-      const response = await fetch(`/api/pilots?_t=${timestamp}`, {
+      const response = await authenticatedFetch(`/api/pilots?_t=${timestamp}`, {
         cache: 'no-store', // Disable Next.js fetch cache
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -145,18 +159,18 @@ export async function getAllPilots(): Promise<PilotWithCertifications[]> {
       const supabaseAdmin = getSupabaseAdmin();
 
       // Get all pilots with certifications in a single query to eliminate N+1 problem
-      const { data: pilotsWithChecks, error: pilotsError } = await supabaseAdmin
-        .from('pilots')
-        .select(
+      const { data: pilotsWithChecks, error: pilotsError } = await scopePilotsQuery(
+        supabaseAdmin.from('pilots').select(
           `
           *,
           pilot_checks (
             expiry_date,
-            check_types (check_code, check_description, category)
+            check_types (check_code, check_description, category, warning_days, grace_period_days)
           )
         `
-        )
-        .order('seniority_number', { ascending: true, nullsFirst: false });
+        ),
+        scope
+      ).order('seniority_number', { ascending: true, nullsFirst: false });
 
       if (pilotsError) {
         console.error('🚨 getAllPilots: Pilots query error:', pilotsError);
@@ -181,7 +195,8 @@ export async function getAllPilots(): Promise<PilotWithCertifications[]> {
         const certificationCounts = certifications.reduce(
           (acc: any, check: any) => {
             const status = getCertificationStatus(
-              check.expiry_date ? new Date(check.expiry_date) : null
+              check.expiry_date ? new Date(check.expiry_date) : null,
+              getCheckTypeRules(check.check_types)
             );
             if (status.color === 'green') acc.current++;
             else if (status.color === 'yellow') acc.expiring++;
@@ -217,7 +232,7 @@ export async function getPilotById(pilotId: string): Promise<PilotWithCertificat
       console.log('🔍 getPilotById: Client-side - using API route...');
 
       // CRITICAL FIX: Disable Next.js fetch caching to always get fresh data
-      const response = await fetch(`/api/pilots?id=${pilotId}`, {
+      const response = await authenticatedFetch(`/api/pilots?id=${pilotId}`, {
         cache: 'no-store', // Disable Next.js fetch cache
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -287,7 +302,9 @@ export async function getPilotById(pilotId: string): Promise<PilotWithCertificat
             id,
             check_code,
             check_description,
-            category
+            category,
+            warning_days,
+            grace_period_days
           )
         `
         )
@@ -302,7 +319,8 @@ export async function getPilotById(pilotId: string): Promise<PilotWithCertificat
       const certificationCounts = certifications.reduce(
         (acc: any, check: any) => {
           const status = getCertificationStatus(
-            check.expiry_date ? new Date(check.expiry_date) : null
+            check.expiry_date ? new Date(check.expiry_date) : null,
+            getCheckTypeRules(check.check_types)
           );
           if (status.color === 'green') acc.current++;
           else if (status.color === 'yellow') acc.expiring++;
@@ -343,7 +361,8 @@ export async function getPilotCertifications(pilotId: string) {
     console.log('🔍 getPilotCertifications: API URL:', apiUrl);
 
     // CRITICAL FIX: Disable Next.js fetch caching to always get fresh data
-    const response = await fetch(apiUrl, {
+    const request = typeof window !== 'undefined' ? authenticatedFetch : fetch;
+    const response = await request(apiUrl, {
       cache: 'no-store', // Disable Next.js fetch cache
       headers: {
         'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -416,6 +435,8 @@ export async function createPilot(pilotData: PilotFormData): Promise<Pilot> {
           last_name: pilotData.last_name,
           role: pilotData.role,
           contract_type: pilotData.contract_type,
+          base: pilotData.base,
+          fleet: pilotData.fleet,
           nationality: pilotData.nationality,
           passport_number: pilotData.passport_number,
           passport_expiry: pilotData.passport_expiry,
@@ -438,10 +459,46 @@ export async function createPilot(pilotData: PilotFormData): Promise<Pilot> {
   }
 }
 
-// Update a pilot
+// The pilot columns a form update changes; empty strings become null
+export function pilotUpdateFields(
+  pilotData: Partial<PilotFormData>,
+  seniorityNumber?: number
+): Record<string, unknown> {
+  // Only include fields that exist in the database
+  const updateData = {
+    employee_id: pilotData.employee_id,
+    first_name: pilotData.first_name,
+    middle_name: pilotData.middle_name,
+    last_name: pilotData.last_name,
+    role: pilotData.role,
+    contract_type: pilotData.contract_type,
+    base: pilotData.base,
+    fleet: pilotData.fleet,
+    nationality: pilotData.nationality,
+    passport_number: pilotData.passport_number,
+    passport_expiry: pilotData.passport_expiry,
+    date_of_birth: pilotData.date_of_birth,
+    commencement_date: pilotData.commencement_date,
+    seniority_number: seniorityNumber,
+    is_active: pilotData.is_active,
+    // Note: email, phone, address, emergency contact fields don't exist in the current schema
+    // They would need to be added to the database schema or stored in a separate table
+  };
+
+  // Remove undefined values and convert empty strings to null for database consistency
+  return Object.fromEntries(
+    Object.entries(updateData)
+      .filter(([key, value]) => value !== undefined)
+      .map(([key, value]) => [key, value === '' ? null : value])
+  );
+}
+
+// Update a pilot; with a version (the pilot's updated_at when it was loaded)
+// the update is refused if someone else has changed the pilot since
 export async function updatePilot(
   pilotId: string,
-  pilotData: Partial<PilotFormData>
+  pilotData: Partial<PilotFormData>,
+  version?: string | null
 ): Promise<Pilot> {
   console.log('🔧 updatePilot: Function called with:', { pilotId, pilotData });
 
@@ -454,31 +511,7 @@ export async function updatePilot(
       console.log('🔧 updatePilot: Seniority number calculated:', seniorityNumber);
     }
 
-    // Only include fields that exist in the database
-    const updateData = {
-      employee_id: pilotData.employee_id,
-      first_name: pilotData.first_name,
-      middle_name: pilotData.middle_name,
-      last_name: pilotData.last_name,
-      role: pilotData.role,
-      contract_type: pilotData.contract_type,
-      nationality: pilotData.nationality,
-      passport_number: pilotData.passport_number,
-      passport_expiry: pilotData.passport_expiry,
-      date_of_birth: pilotData.date_of_birth,
-      commencement_date: pilotData.commencement_date,
-      seniority_number: seniorityNumber,
-      is_active: pilotData.is_active,
-      // Note: email, phone, address, emergency contact fields don't exist in the current schema
-      // They would need to be added to the database schema or stored in a separate table
-    };
-
-    // Remove undefined values and convert empty strings to null for database consistency
-    const cleanedData = Object.fromEntries(
-      Object.entries(updateData)
-        .filter(([key, value]) => value !== undefined)
-        .map(([key, value]) => [key, value === '' ? null : value])
-    );
+    const cleanedData = pilotUpdateFields(pilotData, seniorityNumber);
 
     console.log('🔧 updatePilot: Cleaned data for update:', cleanedData);
 
@@ -488,17 +521,22 @@ export async function updatePilot(
       console.log('🔍 updatePilot: Client-side - using API route...');
       console.log('🔍 updatePilot: Making PUT request to:', `/api/pilots?id=${pilotId}`);
 
-      const response = await fetch(`/api/pilots?id=${pilotId}`, {
+      const response = await authenticatedFetch(`/api/pilots?id=${pilotId}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
           'Cache-Control': 'no-cache, no-store, must-revalidate',
           'Pragma': 'no-cache',
+          ...versionHeaders(version),
         },
         body: JSON.stringify(cleanedData),
         cache: 'no-store', // Disable Next.js fetch cache
       });
 
+      if (response.status === 409) {
+        throw new Error(`${VERSION_CONFLICT_MESSAGE} - reload the pilot to see the changes`);
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         console.error('🚨 updatePilot: API request failed:', {
@@ -738,13 +776,23 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
     const futureDate = new Date();
     futureDate.setDate(today.getDate() + daysAhead);
 
-    const { data: expiringChecks, error } = await supabase
-      .from('expiring_checks')
-      .select('*')
-      .lte('expiry_date', futureDate.toISOString().split('T')[0])
-      .order('expiry_date', { ascending: true });
+    // The expiring_checks view has no rule columns; read them off check_types by code
+    const [{ data: expiringChecks, error }, { data: checkTypes, error: checkTypesError }] =
+      await Promise.all([
+        supabase
+          .from('expiring_checks')
+          .select('*')
+          .lte('expiry_date', futureDate.toISOString().split('T')[0])
+          .order('expiry_date', { ascending: true }),
+        supabase.from('check_types').select('check_code, warning_days, grace_period_days'),
+      ]);
 
     if (error) throw error;
+    if (checkTypesError) throw checkTypesError;
+
+    const rulesByCode = new Map(
+      (checkTypes || []).map((checkType) => [checkType.check_code, getCheckTypeRules(checkType)])
+    );
 
     return (expiringChecks || []).map((check: any) => {
       const expiryDate = new Date(check.expiry_date);
@@ -757,7 +805,10 @@ export async function getExpiringCertifications(daysAhead: number = 60) {
         checkDescription: check.check_description,
         category: check.category,
         expiryDate,
-        status: getCertificationStatus(expiryDate),
+        status: getCertificationStatus(
+          expiryDate,
+          getCheckTypeRules(rulesByCode.get(check.check_code))
+        ),
       };
     });
   } catch (error) {
@@ -824,26 +875,67 @@ export async function getPilotsWithExpiredCertifications() {
   }
 }
 
+// Propose the next expiry date for a completed check using the check type's validity rules
+export async function proposeNextExpiryDate(
+  pilotId: string,
+  checkTypeId: string,
+  completedDate: string
+): Promise<NextExpiryProposal | null> {
+  try {
+    const client = typeof window !== 'undefined' ? supabase : getSupabaseAdmin();
+
+    const [checkTypeResult, currentResult] = await Promise.all([
+      client.from('check_types').select('*').eq('id', checkTypeId).single(),
+      client
+        .from('pilot_checks')
+        .select('expiry_date')
+        .eq('pilot_id', pilotId)
+        .eq('check_type_id', checkTypeId)
+        .maybeSingle(),
+    ]);
+
+    if (checkTypeResult.error) throw checkTypeResult.error;
+    if (currentResult.error) throw currentResult.error;
+
+    return calculateNextExpiryDate(
+      completedDate,
+      currentResult.data?.expiry_date,
+      getCheckTypeRules(checkTypeResult.data)
+    );
+  } catch (error) {
+    console.error('Error proposing next expiry date:', error);
+    throw new Error(handleSupabaseError(error));
+  }
+}
+
 // Update pilot certification
+// When only a completion date is given, the expiry date is computed from the check type rules
 export async function updatePilotCertification(
   pilotId: string,
   checkTypeId: string,
-  expiryDate: string | null
+  expiryDate: string | null,
+  completedDate?: string
 ) {
   try {
+    if (!expiryDate && completedDate) {
+      const proposal = await proposeNextExpiryDate(pilotId, checkTypeId, completedDate);
+      if (!proposal) {
+        throw new Error('This check type has no validity period - enter the expiry date manually');
+      }
+      expiryDate = proposal.expiryDate;
+    }
+
+    // Appended to the completion history; pilot_checks is derived from the latest passed event
     const { data, error } = await supabase
-      .from('pilot_checks')
-      .upsert(
-        {
-          pilot_id: pilotId,
-          check_type_id: checkTypeId,
-          expiry_date: expiryDate,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'pilot_id,check_type_id',
-        }
-      )
+      .from('check_events')
+      .insert({
+        pilot_id: pilotId,
+        check_type_id: checkTypeId,
+        completed_date: completedDate || null,
+        expiry_date: expiryDate,
+        result: 'pass',
+        source: completedDate ? 'recorded' : 'manual_update',
+      })
       .select();
 
     if (error) throw error;
@@ -860,19 +952,16 @@ export async function updatePilotCertifications(
   certifications: { checkTypeId: string; expiryDate: string | null }[]
 ) {
   try {
-    const updates = certifications.map((cert) => ({
+    const events = certifications.map((cert) => ({
       pilot_id: pilotId,
       check_type_id: cert.checkTypeId,
       expiry_date: cert.expiryDate,
-      updated_at: new Date().toISOString(),
+      result: 'pass',
+      source: 'manual_update',
+      notes: 'Expiry date updated manually',
     }));
 
-    const { data, error } = await supabase
-      .from('pilot_checks')
-      .upsert(updates, {
-        onConflict: 'pilot_id,check_type_id',
-      })
-      .select();
+    const { data, error } = await supabase.from('check_events').insert(events).select();
 
     if (error) throw error;
     return data;
@@ -902,7 +991,8 @@ export async function getPilotCertificationsWithAllTypes(pilotId: string) {
     console.log('🔍 getPilotCertificationsWithAllTypes: API URL:', apiUrl);
 
     // CRITICAL FIX: Disable Next.js fetch caching to always get fresh data
-    const response = await fetch(apiUrl, {
+    const request = typeof window !== 'undefined' ? authenticatedFetch : fetch;
+    const response = await request(apiUrl, {
       cache: 'no-store', // Disable Next.js fetch cache
       headers: {
         'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -1183,7 +1273,7 @@ export async function getPilotsPaginated(
         *,
         pilot_checks (
           expiry_date,
-          check_types (check_code, check_description, category)
+          check_types (check_code, check_description, category, warning_days, grace_period_days)
         )
       `
         )
@@ -1202,7 +1292,8 @@ export async function getPilotsPaginated(
         const certificationCounts = certifications.reduce(
           (acc: any, check: any) => {
             const status = getCertificationStatus(
-              check.expiry_date ? new Date(check.expiry_date) : null
+              check.expiry_date ? new Date(check.expiry_date) : null,
+              getCheckTypeRules(check.check_types)
             );
             if (status.color === 'green') acc.current++;
             else if (status.color === 'yellow') acc.expiring++;
@@ -1298,21 +1389,27 @@ export async function batchCreateCertifications(
     async () => {
       const adminClient = getSupabaseAdmin();
 
-      const certificationsToCreate = certifications.map((cert) => ({
+      const eventsToCreate = certifications.map((cert) => ({
         pilot_id: pilotId,
         check_type_id: cert.checkTypeId,
         expiry_date: cert.expiryDate,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+        result: 'pass',
+        source: 'manual_update',
+        notes: 'Initial certification',
       }));
 
+      // pilot_checks rows are created by the check_events trigger
+      const { error: eventsError } = await adminClient.from('check_events').insert(eventsToCreate);
+      if (eventsError) throw eventsError;
+
       const { data, error } = await adminClient
         .from('pilot_checks')
-        .upsert(certificationsToCreate, {
-          onConflict: 'pilot_id,check_type_id',
-          ignoreDuplicates: false,
-        })
-        .select();
+        .select()
+        .eq('pilot_id', pilotId)
+        .in(
+          'check_type_id',
+          certifications.map((cert) => cert.checkTypeId)
+        );
 
       if (error) throw error;
       return data || [];
@@ -1347,7 +1444,7 @@ export async function getPilotsByIds(pilotIds: string[]): Promise<PilotWithCerti
         *,
         pilot_checks (
           expiry_date,
-          check_types (check_code, check_description, category)
+          check_types (check_code, check_description, category, warning_days, grace_period_days)
         )
       `
         )
@@ -1361,7 +1458,8 @@ export async function getPilotsByIds(pilotIds: string[]): Promise<PilotWithCerti
         const certificationCounts = certifications.reduce(
           (acc: any, check: any) => {
             const status = getCertificationStatus(
-              check.expiry_date ? new Date(check.expiry_date) : null
+              check.expiry_date ? new Date(check.expiry_date) : null,
+              getCheckTypeRules(check.check_types)
             );
             if (status.color === 'green') acc.current++;
             else if (status.color === 'yellow') acc.expiring++;
@@ -4,6 +4,7 @@
  */
 
 import { QueryClient } from '@tanstack/react-query';
+import { authenticatedFetch } from '@/lib/api-client';
 
 // Query stale times (how long data is considered fresh)
 export const STALE_TIME = {
@@ -154,12 +155,12 @@ export const prefetchQueries = {
     await Promise.all([
       queryClient.prefetchQuery({
         queryKey: queryKeys.pilots.stats(),
-        queryFn: () => fetch('/api/pilots/stats').then((res) => res.json()),
+        queryFn: () => authenticatedFetch('/api/pilots/stats').then((res) => res.json()),
         ...queryOptions.dashboard,
       }),
       queryClient.prefetchQuery({
         queryKey: queryKeys.analytics.dashboard(),
-        queryFn: () => fetch('/api/analytics/dashboard').then((res) => res.json()),
+        queryFn: () => authenticatedFetch('/api/analytics/dashboard').then((res) => res.json()),
         ...queryOptions.dashboard,
       }),
     ]);
@@ -169,8 +170,8 @@ export const prefetchQueries = {
     await queryClient.prefetchQuery({
       queryKey: queryKeys.analytics.fleetCertifications(30, 'status'),
       queryFn: () =>
-        fetch('/api/analytics/fleet-certifications?timeframe=30&groupBy=status').then((res) =>
-          res.json()
+        authenticatedFetch('/api/analytics/fleet-certifications?timeframe=30&groupBy=status').then(
+          (res) => res.json()
         ),
       ...queryOptions.analytics,
     });
@@ -42,7 +42,31 @@ export type Permission =
   // Check Types Management
   | 'check_types:create'
   | 'check_types:update'
-  | 'check_types:delete';
+  | 'check_types:delete'
+  // Disciplinary Matters
+  | 'disciplinary:read'
+  | 'disciplinary:manage'
+  | 'disciplinary:delete'
+  // Tasks
+  | 'tasks:read'
+  | 'tasks:manage'
+  // Documents & Forms
+  | 'documents:read'
+  | 'documents:manage'
+  | 'documents:delete'
+  | 'forms:read'
+  | 'forms:submit'
+  | 'forms:approve'
+  | 'forms:manage'
+  // Flight Requests
+  | 'flight_requests:read'
+  | 'flight_requests:review'
+  | 'flight_requests:delete'
+  // Pilot Feedback
+  | 'feedback:moderate'
+  // Settings & Profile
+  | 'settings:view'
+  | 'profile:manage';
 
 export type Role = 'admin' | 'manager' | 'user' | 'readonly';
 
@@ -60,6 +84,22 @@ export interface RoleDefinition {
   inherits?: Role[];
 }
 
+/**
+ * Role replacing the permissions of a built-in role (see role_definitions)
+ */
+export interface CustomRoleDefinition {
+  displayName: string;
+  description: string;
+  permissions: Permission[];
+}
+
+export interface RBACOptions {
+  /** Permissions taken away from the user, even if the role or a grant includes them */
+  deniedPermissions?: Permission[];
+  /** Custom role whose permissions are used instead of the built-in role's */
+  customRole?: CustomRoleDefinition;
+}
+
 /**
  * Permission Groups for UI organization
  */
@@ -127,6 +167,44 @@ export const PERMISSION_GROUPS: PermissionGroup[] = [
     description: 'Manage certification check types',
     permissions: ['check_types:create', 'check_types:update', 'check_types:delete'],
   },
+  {
+    name: 'Disciplinary Matters',
+    description: 'Record and manage disciplinary matters',
+    permissions: ['disciplinary:read', 'disciplinary:manage', 'disciplinary:delete'],
+  },
+  {
+    name: 'Tasks',
+    description: 'View and manage tasks',
+    permissions: ['tasks:read', 'tasks:manage'],
+  },
+  {
+    name: 'Documents & Forms',
+    description: 'Manage documents, digital forms and form approvals',
+    permissions: [
+      'documents:read',
+      'documents:manage',
+      'documents:delete',
+      'forms:read',
+      'forms:submit',
+      'forms:approve',
+      'forms:manage',
+    ],
+  },
+  {
+    name: 'Flight Requests',
+    description: 'Review pilot flight requests',
+    permissions: ['flight_requests:read', 'flight_requests:review', 'flight_requests:delete'],
+  },
+  {
+    name: 'Pilot Feedback',
+    description: 'Moderate the pilot feedback board',
+    permissions: ['feedback:moderate'],
+  },
+  {
+    name: 'Settings & Profile',
+    description: 'View system settings and manage own preferences',
+    permissions: ['settings:view', 'profile:manage'],
+  },
 ];
 
 /**
@@ -170,6 +248,24 @@ export const ROLE_DEFINITIONS: Record<Role, RoleDefinition> = {
       'check_types:create',
       'check_types:update',
       'check_types:delete',
+      'disciplinary:read',
+      'disciplinary:manage',
+      'disciplinary:delete',
+      'tasks:read',
+      'tasks:manage',
+      'documents:read',
+      'documents:manage',
+      'documents:delete',
+      'forms:read',
+      'forms:submit',
+      'forms:approve',
+      'forms:manage',
+      'flight_requests:read',
+      'flight_requests:review',
+      'flight_requests:delete',
+      'feedback:moderate',
+      'settings:view',
+      'profile:manage',
     ],
   },
   manager: {
@@ -192,13 +288,38 @@ export const ROLE_DEFINITIONS: Record<Role, RoleDefinition> = {
       'reports:view',
       'reports:export',
       'analytics:view',
+      'disciplinary:read',
+      'disciplinary:manage',
+      'tasks:read',
+      'tasks:manage',
+      'documents:read',
+      'documents:manage',
+      'forms:read',
+      'forms:submit',
+      'forms:approve',
+      'flight_requests:read',
+      'flight_requests:review',
+      'feedback:moderate',
+      'settings:view',
+      'profile:manage',
     ],
   },
   user: {
     name: 'user',
     displayName: 'User',
     description: 'View access and create leave requests',
-    permissions: ['pilot:read', 'certification:read', 'leave:create', 'leave:read', 'reports:view'],
+    permissions: [
+      'pilot:read',
+      'certification:read',
+      'leave:create',
+      'leave:read',
+      'reports:view',
+      'documents:read',
+      'forms:read',
+      'forms:submit',
+      'settings:view',
+      'profile:manage',
+    ],
   },
   readonly: {
     name: 'readonly',
@@ -210,6 +331,12 @@ export const ROLE_DEFINITIONS: Record<Role, RoleDefinition> = {
       'leave:read',
       'reports:view',
       'analytics:view',
+      'tasks:read',
+      'documents:read',
+      'forms:read',
+      'flight_requests:read',
+      'settings:view',
+      'profile:manage',
     ],
   },
 };
@@ -220,24 +347,39 @@ export const ROLE_DEFINITIONS: Record<Role, RoleDefinition> = {
 export class RBACService {
   private userRole: Role;
   private customPermissions: Set<Permission>;
+  private deniedPermissions: Set<Permission>;
+  private customRole?: CustomRoleDefinition;
 
-  constructor(role: Role, customPermissions: Permission[] = []) {
+  constructor(role: Role, customPermissions: Permission[] = [], options: RBACOptions = {}) {
     this.userRole = role;
     this.customPermissions = new Set(customPermissions);
+    this.deniedPermissions = new Set(options.deniedPermissions || []);
+    this.customRole = options.customRole;
   }
 
   /**
    * Check if user has specific permission
    */
   hasPermission(permission: Permission): boolean {
+    // Denials win over the role and custom permissions
+    if (this.deniedPermissions.has(permission)) {
+      return false;
+    }
+
     // Custom permissions override role permissions
     if (this.customPermissions.has(permission)) {
       return true;
     }
 
     // Check role permissions
-    const roleDefinition = ROLE_DEFINITIONS[this.userRole];
-    return roleDefinition.permissions.includes(permission);
+    return this.getRolePermissions().includes(permission);
+  }
+
+  /**
+   * Permissions of the user's role, or of their custom role when assigned
+   */
+  getRolePermissions(): Permission[] {
+    return this.customRole?.permissions || ROLE_DEFINITIONS[this.userRole].permissions;
   }
 
   /**
@@ -258,9 +400,11 @@ export class RBACService {
    * Get all permissions for current user
    */
   getAllPermissions(): Permission[] {
-    const rolePermissions = ROLE_DEFINITIONS[this.userRole].permissions;
+    const rolePermissions = this.getRolePermissions();
     const customPermissionArray = Array.from(this.customPermissions);
-    return [...new Set([...rolePermissions, ...customPermissionArray])];
+    return [...new Set([...rolePermissions, ...customPermissionArray])].filter(
+      (permission) => !this.deniedPermissions.has(permission)
+    );
   }
 
   /**
@@ -288,14 +432,14 @@ export class RBACService {
    * Get role display name
    */
   getRoleDisplayName(): string {
-    return ROLE_DEFINITIONS[this.userRole].displayName;
+    return this.customRole?.displayName || ROLE_DEFINITIONS[this.userRole].displayName;
   }
 
   /**
    * Get role description
    */
   getRoleDescription(): string {
-    return ROLE_DEFINITIONS[this.userRole].description;
+    return this.customRole?.description || ROLE_DEFINITIONS[this.userRole].description;
   }
 }
 
@@ -306,8 +450,12 @@ export class RBACService {
 /**
  * Create RBAC instance for user
  */
-export function createRBAC(role: Role, customPermissions: Permission[] = []): RBACService {
-  return new RBACService(role, customPermissions);
+export function createRBAC(
+  role: Role,
+  customPermissions: Permission[] = [],
+  options: RBACOptions = {}
+): RBACService {
+  return new RBACService(role, customPermissions, options);
 }
 
 /**
@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Record Versions
+ * A record's updated_at serves as its version. Changes replayed by the
+ * offline queue send the version they were made against in If-Match; routes
+ * answer 409 with the current record when it has changed since, instead of
+ * overwriting someone else's edit.
+ * Pure functions - the checks live in the pilot, certification and leave routes.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+export const VERSION_HEADER = 'If-Match';
+
+export const VERSION_CONFLICT_MESSAGE = 'This record was changed by someone else';
+
+/**
+ * Request headers carrying the version a change was made against
+ */
+export function versionHeaders(version: string | null | undefined): Record<string, string> {
+  return version ? { [VERSION_HEADER]: `"${version}"` } : {};
+}
+
+/**
+ * Version a request was made against, or null when it has none (a normal
+ * edit, applied unconditionally). Accepts quoted and weak ETag forms.
+ */
+export function requestVersion(request: { headers: Headers }): string | null {
+  const value = request.headers.get(VERSION_HEADER)?.trim();
+  if (!value || value === '*') return null;
+  return value.replace(/^W\//, '').replace(/^"(.*)"$/, '$1') || null;
+}
+
+/**
+ * Whether the record has changed since the expected version. Timestamps are
+ * compared as instants, since the database and the client may format them
+ * differently; a record without a version cannot be checked and is not stale.
+ */
+export function isStaleVersion(expected: string, current: string | null | undefined): boolean {
+  if (!current) return false;
+
+  const expectedTime = Date.parse(expected);
+  const currentTime = Date.parse(current);
+  if (Number.isNaN(expectedTime) || Number.isNaN(currentTime)) return expected !== current;
+  return expectedTime !== currentTime;
+}
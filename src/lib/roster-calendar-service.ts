@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Roster Calendar Service
+ * Loads the roster calendar (anchor, period length, periods per year, stub periods and
+ * publication/lock dates) from the settings table and applies it to roster-utils, so
+ * operations can correct calendar drift without a deploy.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { format } from 'date-fns';
+import { logger } from '@/lib/logger';
+import {
+  DEFAULT_ROSTER_CALENDAR,
+  getRosterCalendarConfig,
+  getRosterPeriodFromDate,
+  listRosterPeriods,
+  normalizeRosterCalendarConfig,
+  setRosterCalendarConfig,
+  validateRosterCalendarConfig,
+  type RosterAnchor,
+  type RosterCalendarConfig,
+  type RosterPeriod,
+} from '@/lib/roster-utils';
+import { authenticatedFetch } from '@/lib/api-client';
+
+export const ROSTER_CALENDAR_SETTING_KEY = 'roster_calendar';
+
+const ROSTER_CALENDAR_DESCRIPTION =
+  'Roster calendar: anchor period, period length, periods per year, stub periods and publication/lock dates';
+
+// Reload the stored calendar at most every 5 minutes
+const CALENDAR_CACHE_TTL_MS = 5 * 60 * 1000;
+
+let lastLoadedAt = 0;
+let pendingLoad: Promise<RosterCalendarConfig> | null = null;
+
+export interface RosterPeriodChange {
+  date: string;
+  current: Pick<RosterPeriod, 'code' | 'startDate' | 'endDate'>;
+  proposed: Pick<RosterPeriod, 'code' | 'startDate' | 'endDate'>;
+}
+
+export interface RosterCalendarPreview {
+  config: RosterCalendarConfig;
+  periods: RosterPeriod[];
+  changes: RosterPeriodChange[];
+  errors: string[];
+}
+
+/**
+ * Read the stored roster calendar without applying it
+ * Server-side reads the settings table directly, browser calls the API route
+ */
+export async function fetchRosterCalendarConfig(): Promise<RosterCalendarConfig> {
+  if (typeof window === 'undefined') {
+    const { getSupabaseAdmin } = await import('@/lib/supabase-admin');
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from('settings')
+      .select('value')
+      .eq('key', ROSTER_CALENDAR_SETTING_KEY)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching roster calendar:', error);
+      throw new Error('Failed to fetch roster calendar');
+    }
+
+    return normalizeRosterCalendarConfig(data?.value);
+  }
+
+  const response = await authenticatedFetch('/api/roster-calendar?view=config', {
+    headers: { 'Cache-Control': 'no-cache' },
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch roster calendar from API');
+  }
+
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to fetch roster calendar');
+  }
+
+  return normalizeRosterCalendarConfig(result.data.config);
+}
+
+/**
+ * Load the stored roster calendar and make it the active calendar for roster-utils
+ * Falls back to the current calendar if the settings cannot be read.
+ */
+export async function loadRosterCalendar(
+  options: { force?: boolean } = {}
+): Promise<RosterCalendarConfig> {
+  const isFresh = Date.now() - lastLoadedAt < CALENDAR_CACHE_TTL_MS;
+  if (!options.force && isFresh) {
+    return getRosterCalendarConfig();
+  }
+
+  if (!pendingLoad) {
+    pendingLoad = fetchRosterCalendarConfig()
+      .then((config) => {
+        setRosterCalendarConfig(config);
+        lastLoadedAt = Date.now();
+        return config;
+      })
+      .catch((error) => {
+        logger.warn('Using fallback roster calendar', { error });
+        return getRosterCalendarConfig();
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+
+  return pendingLoad;
+}
+
+/**
+ * Compute periods for a candidate calendar and list the dates whose period changes
+ */
+export function previewRosterCalendar(
+  candidate: Partial<RosterCalendarConfig>,
+  options: { from?: Date; count?: number } = {}
+): RosterCalendarPreview {
+  const config = normalizeRosterCalendarConfig({ ...getRosterCalendarConfig(), ...candidate });
+  const errors = validateRosterCalendarConfig(config);
+  const from = options.from || new Date();
+  const count = options.count || config.periodsPerYear;
+
+  if (errors.length > 0) {
+    return { config, periods: [], changes: [], errors };
+  }
+
+  const periods = listRosterPeriods(from, count, config);
+  const changes: RosterPeriodChange[] = [];
+
+  for (const proposed of periods) {
+    const current = getRosterPeriodFromDate(proposed.startDate);
+    if (
+      current.code !== proposed.code ||
+      current.startDate.getTime() !== proposed.startDate.getTime() ||
+      current.endDate.getTime() !== proposed.endDate.getTime()
+    ) {
+      changes.push({
+        date: format(proposed.startDate, 'yyyy-MM-dd'),
+        current: { code: current.code, startDate: current.startDate, endDate: current.endDate },
+        proposed: { code: proposed.code, startDate: proposed.startDate, endDate: proposed.endDate },
+      });
+    }
+  }
+
+  return { config, periods, changes, errors };
+}
+
+/**
+ * Persist a roster calendar to the settings table and apply it (server-side only)
+ */
+export async function saveRosterCalendarConfig(
+  config: RosterCalendarConfig
+): Promise<RosterCalendarConfig> {
+  const normalized = normalizeRosterCalendarConfig(config);
+  const errors = validateRosterCalendarConfig(normalized);
+  if (errors.length > 0) {
+    throw new Error(`Invalid roster calendar: ${errors.join('; ')}`);
+  }
+
+  const { getSupabaseAdmin } = await import('@/lib/supabase-admin');
+  const supabase = getSupabaseAdmin();
+
+  const { error } = await supabase.from('settings').upsert(
+    {
+      key: ROSTER_CALENDAR_SETTING_KEY,
+      value: normalized,
+      description: ROSTER_CALENDAR_DESCRIPTION,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'key' }
+  );
+
+  if (error) {
+    logger.error('Error saving roster calendar:', error);
+    throw new Error('Failed to save roster calendar');
+  }
+
+  setRosterCalendarConfig(normalized);
+  lastLoadedAt = Date.now();
+  logger.info('Roster calendar updated', {
+    anchors: normalized.anchors.length,
+    stubPeriods: normalized.stubPeriods.length,
+  });
+
+  return normalized;
+}
+
+/**
+ * Re-anchor the calendar from a date onwards, keeping earlier periods unchanged
+ * An anchor on the same start date is replaced.
+ */
+export async function reanchorRosterCalendar(anchor: RosterAnchor): Promise<RosterCalendarPreview> {
+  const current = await loadRosterCalendar({ force: true });
+  const anchors = [...current.anchors.filter((a) => a.startDate !== anchor.startDate), anchor].sort(
+    (a, b) => a.startDate.localeCompare(b.startDate)
+  );
+
+  const preview = previewRosterCalendar({ anchors });
+  if (preview.errors.length > 0) {
+    return preview;
+  }
+
+  await saveRosterCalendarConfig(preview.config);
+  return preview;
+}
+
+/**
+ * Restore the default calendar (RP12/2025 = 2025-10-11, 13 × 28-day periods)
+ */
+export async function resetRosterCalendar(): Promise<RosterCalendarConfig> {
+  return saveRosterCalendarConfig(DEFAULT_ROSTER_CALENDAR);
+}
@@ -1,121 +1,403 @@
 import {
   differenceInDays,
+  differenceInCalendarDays,
   addDays,
   format,
   differenceInHours,
   differenceInMinutes,
   differenceInSeconds,
+  parseISO,
   startOfDay,
 } from 'date-fns';
 
-// Constants for simple RP1-RP13 annual cycle
-const ROSTER_DURATION = 28;
-const PERIODS_PER_YEAR = 13; // 13 periods × 28 days = 364 days
+// =============================================================================
+// ROSTER CALENDAR CONFIGURATION
+// =============================================================================
 
-// Known roster: RP12/2025 starts October 11, 2025
-const KNOWN_ROSTER = {
-  number: 12,
-  year: 2025,
-  startDate: new Date('2025-10-11'),
-};
+/**
+ * Fixes a period number/year to a calendar date. Regular periods are counted
+ * forwards and backwards from the most recent anchor that applies to a date.
+ */
+export interface RosterAnchor {
+  number: number;
+  year: number;
+  /** Start date of the anchored period (yyyy-MM-dd) */
+  startDate: string;
+  note?: string;
+}
 
-export interface RosterPeriod {
-  code: string;
+/**
+ * Irregular period inserted when the 364-day cycle drifts against the
+ * calendar year. Regular numbering resumes with the following period.
+ */
+export interface RosterStubPeriod {
   number: number;
   year: number;
-  startDate: Date;
-  endDate: Date;
-  daysRemaining: number;
+  /** Start date of the stub (yyyy-MM-dd) */
+  startDate: string;
+  lengthDays: number;
+  note?: string;
 }
 
 /**
- * Calculate the current roster period based on RP12/2025 starting Oct 11, 2025
+ * Explicit publication/lock dates for a single period, keyed by code
+ */
+export interface RosterPeriodDateOverride {
+  publicationDate?: string;
+  lockDate?: string;
+  bidDeadline?: string;
+}
+
+export interface RosterCalendarConfig {
+  periodLengthDays: number;
+  periodsPerYear: number;
+  /** Days before period start that the roster is published */
+  publicationLeadDays: number;
+  /** Days before period start that leave changes for the period lock */
+  lockLeadDays: number;
+  /** Days before period start that leave bids for the period close */
+  bidLeadDays: number;
+  anchors: RosterAnchor[];
+  stubPeriods: RosterStubPeriod[];
+  periodOverrides: Record<string, RosterPeriodDateOverride>;
+}
+
+/**
+ * Default calendar: RP12/2025 starts October 11, 2025
  * Simple annual cycle: RP1-RP13 (13 periods × 28 days = 364 days)
- * After RP13/YYYY, next period is RP1/(YYYY+1)
  */
-export function getCurrentRosterPeriod(): RosterPeriod {
-  // Normalize to midnight local time to avoid timezone issues
-  const today = startOfDay(new Date());
+export const DEFAULT_ROSTER_CALENDAR: RosterCalendarConfig = {
+  periodLengthDays: 28,
+  periodsPerYear: 13,
+  publicationLeadDays: 10,
+  lockLeadDays: 22,
+  bidLeadDays: 42,
+  anchors: [{ number: 12, year: 2025, startDate: '2025-10-11' }],
+  stubPeriods: [],
+  periodOverrides: {},
+};
 
-  // Calculate days since known roster start
-  const daysSinceKnown = differenceInDays(today, KNOWN_ROSTER.startDate);
+// Active calendar - replaced by roster-calendar-service once loaded from settings
+let activeCalendar: RosterCalendarConfig = DEFAULT_ROSTER_CALENDAR;
 
-  // Calculate how many complete periods have passed
-  const periodsPassed = Math.floor(daysSinceKnown / ROSTER_DURATION);
+/**
+ * Get the roster calendar currently used by all period calculations
+ */
+export function getRosterCalendarConfig(): RosterCalendarConfig {
+  return activeCalendar;
+}
 
-  // Calculate roster number (wraps at 13)
-  let rosterNumber = KNOWN_ROSTER.number + periodsPassed;
-  let year = KNOWN_ROSTER.year;
+/**
+ * Replace the active roster calendar (missing fields fall back to defaults)
+ */
+export function setRosterCalendarConfig(config: Partial<RosterCalendarConfig>): void {
+  activeCalendar = normalizeRosterCalendarConfig(config);
+}
 
-  // Handle year rollover: after RP13, go to RP1 of next year
-  while (rosterNumber > PERIODS_PER_YEAR) {
-    rosterNumber -= PERIODS_PER_YEAR;
-    year += 1;
+/**
+ * Merge a partial (e.g. stored) calendar with the defaults
+ */
+export function normalizeRosterCalendarConfig(
+  config: Partial<RosterCalendarConfig> | null | undefined
+): RosterCalendarConfig {
+  return {
+    ...DEFAULT_ROSTER_CALENDAR,
+    ...(config || {}),
+    anchors: config?.anchors?.length ? config.anchors : DEFAULT_ROSTER_CALENDAR.anchors,
+    stubPeriods: config?.stubPeriods || [],
+    periodOverrides: config?.periodOverrides || {},
+  };
+}
+
+/**
+ * Validate a roster calendar, returning a list of problems (empty when valid)
+ */
+export function validateRosterCalendarConfig(config: RosterCalendarConfig): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(config.periodLengthDays) || config.periodLengthDays < 1) {
+    errors.push('Period length must be a positive whole number of days');
+  }
+  if (!Number.isInteger(config.periodsPerYear) || config.periodsPerYear < 1) {
+    errors.push('Periods per year must be a positive whole number');
+  }
+  if (!Number.isInteger(config.bidLeadDays) || config.bidLeadDays < 0) {
+    errors.push('Bid lead days must be a whole number of days');
+  }
+  if (config.anchors.length === 0) {
+    errors.push('At least one anchor period is required');
   }
 
-  // Handle past dates (before known roster)
-  while (rosterNumber <= 0) {
-    rosterNumber += PERIODS_PER_YEAR;
-    year -= 1;
+  for (const anchor of config.anchors) {
+    if (anchor.number < 1 || anchor.number > config.periodsPerYear) {
+      errors.push(
+        `Anchor RP${anchor.number}/${anchor.year} is outside RP1-RP${config.periodsPerYear}`
+      );
+    }
+    if (isNaN(parseISO(anchor.startDate).getTime())) {
+      errors.push(`Anchor RP${anchor.number}/${anchor.year} has an invalid start date`);
+    }
   }
 
-  // Calculate start and end dates
-  const startDate = addDays(KNOWN_ROSTER.startDate, periodsPassed * ROSTER_DURATION);
-  const endDate = addDays(startDate, ROSTER_DURATION - 1);
-  const daysRemaining = Math.max(0, differenceInDays(endDate, today));
+  const stubs = [...config.stubPeriods].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  stubs.forEach((stub, index) => {
+    if (!Number.isInteger(stub.lengthDays) || stub.lengthDays < 1) {
+      errors.push(`Stub RP${stub.number}/${stub.year} must be at least one day long`);
+    }
+    const next = stubs[index + 1];
+    if (next && addDays(parseISO(stub.startDate), stub.lengthDays) > parseISO(next.startDate)) {
+      errors.push(`Stub RP${stub.number}/${stub.year} overlaps RP${next.number}/${next.year}`);
+    }
+  });
+
+  return errors;
+}
+
+// =============================================================================
+// PERIOD RESOLUTION
+// =============================================================================
+
+export interface RosterPeriod {
+  code: string;
+  number: number;
+  year: number;
+  startDate: Date;
+  endDate: Date;
+  daysRemaining: number;
+  lengthDays: number;
+  /** True for stub periods and periods shortened by a re-anchor */
+  isStub: boolean;
+  publicationDate: Date;
+  lockDate: Date;
+  /** Last day leave bids for the period are accepted */
+  bidDeadline: Date;
+}
+
+interface CalendarBoundary {
+  start: Date;
+  number: number;
+  year: number;
+  /** Set for stub periods; regular cycles continue until the next boundary */
+  stubLengthDays?: number;
+}
+
+/**
+ * Anchors and stubs sorted by start date. Each stub is followed by an
+ * implicit anchor for the next regular period unless one is configured.
+ */
+function getCalendarBoundaries(config: RosterCalendarConfig): CalendarBoundary[] {
+  const explicit: CalendarBoundary[] = [
+    ...config.anchors.map((anchor) => ({
+      start: parseISO(anchor.startDate),
+      number: anchor.number,
+      year: anchor.year,
+    })),
+    ...config.stubPeriods.map((stub) => ({
+      start: parseISO(stub.startDate),
+      number: stub.number,
+      year: stub.year,
+      stubLengthDays: stub.lengthDays,
+    })),
+  ];
+
+  const implicit: CalendarBoundary[] = config.stubPeriods
+    .map((stub) => {
+      const resumesNextYear = stub.number >= config.periodsPerYear;
+      return {
+        start: addDays(parseISO(stub.startDate), stub.lengthDays),
+        number: resumesNextYear ? 1 : stub.number + 1,
+        year: resumesNextYear ? stub.year + 1 : stub.year,
+      };
+    })
+    .filter((boundary) => !explicit.some((b) => b.start.getTime() === boundary.start.getTime()));
+
+  return [...explicit, ...implicit].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function buildRosterPeriod(
+  number: number,
+  year: number,
+  startDate: Date,
+  lengthDays: number,
+  isStub: boolean,
+  config: RosterCalendarConfig
+): RosterPeriod {
+  const code = `RP${number}/${year}`;
+  const endDate = addDays(startDate, lengthDays - 1);
+  const override = config.periodOverrides[code];
 
   return {
-    code: `RP${rosterNumber}/${year}`,
-    number: rosterNumber,
+    code,
+    number,
     year,
     startDate,
     endDate,
-    daysRemaining,
+    daysRemaining: Math.max(0, differenceInDays(endDate, startOfDay(new Date()))),
+    lengthDays,
+    isStub,
+    publicationDate: override?.publicationDate
+      ? parseISO(override.publicationDate)
+      : addDays(startDate, -config.publicationLeadDays),
+    lockDate: override?.lockDate
+      ? parseISO(override.lockDate)
+      : addDays(startDate, -config.lockLeadDays),
+    bidDeadline: override?.bidDeadline
+      ? parseISO(override.bidDeadline)
+      : addDays(startDate, -config.bidLeadDays),
   };
 }
 
 /**
- * Get roster period from a specific date
+ * Resolve the roster period containing a date for the given calendar
  */
-export function getRosterPeriodFromDate(date: Date): RosterPeriod {
-  // Use date as-is without timezone normalization to avoid date shifting
-  const targetDate = new Date(date);
-
-  // Calculate days since known roster start (using normalized comparison)
-  const daysSinceKnown = differenceInDays(targetDate, KNOWN_ROSTER.startDate);
+function resolveRosterPeriod(date: Date, config: RosterCalendarConfig): RosterPeriod {
+  const boundaries = getCalendarBoundaries(config);
+  const target = new Date(date);
+
+  // Latest boundary on or before the date; earlier dates extrapolate backwards from the first
+  let index = -1;
+  boundaries.forEach((boundary, i) => {
+    if (boundary.start <= target) index = i;
+  });
+
+  const boundary = boundaries[Math.max(index, 0)]!;
+  const nextBoundary = index === -1 ? boundary : boundaries[index + 1];
+
+  if (index !== -1 && boundary.stubLengthDays) {
+    return buildRosterPeriod(
+      boundary.number,
+      boundary.year,
+      boundary.start,
+      boundary.stubLengthDays,
+      true,
+      config
+    );
+  }
 
-  // Calculate how many complete periods have passed (can be negative for past dates)
-  const periodsPassed = Math.floor(daysSinceKnown / ROSTER_DURATION);
+  const length = config.periodLengthDays;
+  const periodsPassed = Math.floor(differenceInCalendarDays(target, boundary.start) / length);
 
-  // Calculate roster number
-  let rosterNumber = KNOWN_ROSTER.number + periodsPassed;
-  let year = KNOWN_ROSTER.year;
+  // Calculate roster number, wrapping at the end of each roster year
+  let rosterNumber = boundary.number + periodsPassed;
+  let year = boundary.year;
 
-  // Handle year rollover
-  while (rosterNumber > PERIODS_PER_YEAR) {
-    rosterNumber -= PERIODS_PER_YEAR;
+  while (rosterNumber > config.periodsPerYear) {
+    rosterNumber -= config.periodsPerYear;
     year += 1;
   }
 
-  // Handle past dates
   while (rosterNumber <= 0) {
-    rosterNumber += PERIODS_PER_YEAR;
+    rosterNumber += config.periodsPerYear;
     year -= 1;
   }
 
-  // Calculate start and end dates
-  const startDate = addDays(KNOWN_ROSTER.startDate, periodsPassed * ROSTER_DURATION);
-  const endDate = addDays(startDate, ROSTER_DURATION - 1);
-  const daysRemaining = Math.max(0, differenceInDays(endDate, new Date()));
+  const startDate = addDays(boundary.start, periodsPassed * length);
+  let lengthDays = length;
 
-  return {
-    code: `RP${rosterNumber}/${year}`,
-    number: rosterNumber,
+  // A period running into the next anchor or stub is cut short
+  if (nextBoundary && nextBoundary.start > startDate) {
+    lengthDays = Math.min(length, differenceInCalendarDays(nextBoundary.start, startDate));
+  }
+
+  return buildRosterPeriod(
+    rosterNumber,
     year,
     startDate,
-    endDate,
-    daysRemaining,
-  };
+    lengthDays,
+    lengthDays !== length,
+    config
+  );
+}
+
+/**
+ * Calculate the current roster period from the active roster calendar
+ * After RP13/YYYY (or the last period of the configured cycle), next period is RP1/(YYYY+1)
+ */
+export function getCurrentRosterPeriod(
+  config: RosterCalendarConfig = activeCalendar
+): RosterPeriod {
+  // Normalize to midnight local time to avoid timezone issues
+  return resolveRosterPeriod(startOfDay(new Date()), config);
+}
+
+/**
+ * Get roster period from a specific date
+ */
+export function getRosterPeriodFromDate(
+  date: Date,
+  config: RosterCalendarConfig = activeCalendar
+): RosterPeriod {
+  return resolveRosterPeriod(date, config);
+}
+
+/**
+ * Parse a roster period code such as "RP12/2025"
+ */
+export function parseRosterPeriodCode(code: string): { number: number; year: number } | null {
+  const match = /^RP(\d{1,2})\/(\d{4})$/.exec(code.trim().toUpperCase());
+  if (!match) return null;
+  return { number: parseInt(match[1]!, 10), year: parseInt(match[2]!, 10) };
+}
+
+/**
+ * Find a roster period by its code, or null if the calendar has no such period
+ */
+export function getRosterPeriodByCode(
+  code: string,
+  config: RosterCalendarConfig = activeCalendar
+): RosterPeriod | null {
+  const parsed = parseRosterPeriodCode(code);
+  if (!parsed) return null;
+
+  const stub = config.stubPeriods.find((s) => s.number === parsed.number && s.year === parsed.year);
+  if (stub) return resolveRosterPeriod(parseISO(stub.startDate), config);
+
+  // Estimate from the first anchor, then walk towards the requested period
+  const anchor = config.anchors[0];
+  if (!anchor) return null;
+
+  const offset =
+    (parsed.year - anchor.year) * config.periodsPerYear + (parsed.number - anchor.number);
+  let period = resolveRosterPeriod(
+    addDays(parseISO(anchor.startDate), offset * config.periodLengthDays),
+    config
+  );
+
+  const target = parsed.year * 100 + parsed.number;
+  const periodKey = (p: RosterPeriod) => p.year * 100 + p.number;
+  const direction = periodKey(period) < target ? 1 : -1;
+
+  for (let step = 0; step <= config.periodsPerYear * 2; step++) {
+    const key = periodKey(period);
+    if (key === target) return period;
+    // Stepped past the requested code - it does not exist in this calendar
+    if ((key < target ? 1 : -1) !== direction) return null;
+    period =
+      direction > 0
+        ? resolveRosterPeriod(addDays(period.endDate, 1), config)
+        : resolveRosterPeriod(addDays(period.startDate, -1), config);
+  }
+
+  return null;
+}
+
+/**
+ * List consecutive roster periods starting with the period containing `from`
+ */
+export function listRosterPeriods(
+  from: Date,
+  count: number,
+  config: RosterCalendarConfig = activeCalendar
+): RosterPeriod[] {
+  const periods: RosterPeriod[] = [];
+  let period = resolveRosterPeriod(from, config);
+
+  for (let i = 0; i < count; i++) {
+    periods.push(period);
+    period = resolveRosterPeriod(addDays(period.endDate, 1), config);
+  }
+
+  return periods;
 }
 
 /**
@@ -125,7 +407,6 @@ export function getNextRosterPeriod(current: RosterPeriod): RosterPeriod {
   const nextStartDate = addDays(current.endDate, 1);
   return getRosterPeriodFromDate(nextStartDate);
 }
-
 /**
  * Get the previous roster period
  */
@@ -213,8 +494,8 @@ export function getFutureRosterPeriods(monthsAhead: number = 12): RosterPeriod[]
   let currentPeriod = current;
 
   // Calculate approximately how many periods we need for the given months
-  // 13 periods per year × (months / 12)
-  const periodsNeeded = Math.ceil((monthsAhead / 12) * PERIODS_PER_YEAR);
+  // periods per year × (months / 12)
+  const periodsNeeded = Math.ceil((monthsAhead / 12) * activeCalendar.periodsPerYear);
 
   for (let i = 0; i < periodsNeeded; i++) {
     periods.push(currentPeriod);
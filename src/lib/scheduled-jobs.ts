@@ -4,20 +4,27 @@
  *
  * Handles automated scheduled tasks:
  * - Daily certification expiry checks
- * - Batch notification sending
+ * - Notification delivery (email, SMS, push) and daily digests
+ * - Webhook delivery retries
+ * - Tasks generated ahead of check expiries
+ * - Disciplinary deadline escalation and reminders
  * - Notification cleanup
- * - Daily digest emails
  */
 
-import { differenceInDays, format } from 'date-fns';
+import { differenceInDays, format, subDays } from 'date-fns';
 import { getSupabaseAdmin } from '@/lib/supabase-admin';
 import {
-  queueNotification,
-  processNotificationQueue,
-  cleanupOldQueueItems,
-  type QueuedNotification,
-} from '@/lib/notification-queue';
+  getPilotRecipient,
+  notify,
+  processNotificationDeliveries,
+  sendNotificationDigests,
+  type NotificationRecipient,
+} from '@/lib/notification-service';
 import { sendBatchCertificationAlerts } from '@/lib/email-service';
+import { processWebhookDeliveries, triggerWebhookEvent } from '@/lib/webhook-service';
+import { runScheduledBackup } from '@/lib/backup-service';
+import { generateExpiryTasks } from '@/lib/task-generation-service';
+import { runDisciplinaryEscalation } from '@/lib/disciplinary-service';
 
 // ============================================================================
 // TYPES
@@ -35,6 +42,31 @@ export interface JobResult {
 // DAILY CERTIFICATION EXPIRY CHECK
 // ============================================================================
 
+/** pilot_checks row with its pilot and check type (many-to-one joins, returned as objects) */
+interface CertificationEventSource {
+  id: string;
+  expiry_date: string | null;
+  pilots: { id: string; first_name: string; last_name: string; employee_id: string };
+  check_types: { id: string; check_code: string; check_description: string; category: string };
+}
+
+/**
+ * Webhook payload for certification.expiring / certification.expired
+ */
+function certificationEventData(cert: CertificationEventSource) {
+  return {
+    pilot_check_id: cert.id,
+    pilot_id: cert.pilots.id,
+    pilot_name: `${cert.pilots.first_name} ${cert.pilots.last_name}`,
+    employee_id: cert.pilots.employee_id,
+    check_type_id: cert.check_types.id,
+    check_code: cert.check_types.check_code,
+    check_description: cert.check_types.check_description,
+    category: cert.check_types.category,
+    expiry_date: cert.expiry_date,
+  };
+}
+
 export async function runDailyCertificationCheck(): Promise<JobResult> {
   const startTime = Date.now();
   const jobName = 'daily_certification_check';
@@ -47,7 +79,32 @@ export async function runDailyCertificationCheck(): Promise<JobResult> {
 
     // Define notification thresholds (days before expiry to notify)
     const notificationThresholds = [30, 14, 7, 3, 1]; // Standard thresholds
-    const queued: QueuedNotification[] = [];
+    let notificationsSent = 0;
+
+    // Certifications that expired yesterday are emitted once as certification.expired
+    const { data: expiredCerts, error: expiredError } = await supabaseAdmin
+      .from('pilot_checks')
+      .select(
+        `
+                id,
+                expiry_date,
+                pilots!inner (id, first_name, last_name, employee_id, is_active),
+                check_types!inner (id, check_code, check_description, category)
+            `
+      )
+      .eq('pilots.is_active', true)
+      .eq('expiry_date', format(subDays(today, 1), 'yyyy-MM-dd'));
+
+    if (expiredError) {
+      throw expiredError;
+    }
+
+    for (const cert of expiredCerts || []) {
+      await triggerWebhookEvent(
+        'certification.expired',
+        certificationEventData(cert as unknown as CertificationEventSource)
+      );
+    }
 
     // Get all active pilots with certifications
     const { data: expiringCerts, error: certsError } = await supabaseAdmin
@@ -86,7 +143,11 @@ export async function runDailyCertificationCheck(): Promise<JobResult> {
         jobName,
         success: true,
         duration: Date.now() - startTime,
-        details: { certificationsChecked: 0, notificationsQueued: 0 },
+        details: {
+          certificationsChecked: 0,
+          notificationsSent: 0,
+          expiredEmitted: expiredCerts?.length || 0,
+        },
       };
     }
 
@@ -102,18 +163,9 @@ export async function runDailyCertificationCheck(): Promise<JobResult> {
       throw adminsError;
     }
 
-    // Get notification preferences
-    const { data: preferences, error: prefsError } = await supabaseAdmin
-      .from('notification_preferences')
-      .select('*')
-      .eq('email_enabled', true)
-      .eq('certification_expiry_alerts', true);
-
-    if (prefsError) {
-      console.warn('[Job] Could not load notification preferences:', prefsError);
-    }
-
-    const enabledUserIds = new Set(preferences?.map((p) => p.user_id) || []);
+    const staffRecipients = (admins || []).map(
+      (admin): NotificationRecipient => ({ id: admin.id, type: 'staff' })
+    );
 
     // Check each certification against thresholds
     for (const cert of expiringCerts) {
@@ -125,58 +177,43 @@ export async function runDailyCertificationCheck(): Promise<JobResult> {
         continue;
       }
 
-      // Check if we already sent a notification today for this cert
-      const { data: existingLog } = await supabaseAdmin
-        .from('notification_log')
+      const source = cert as unknown as CertificationEventSource;
+      const eventData = { ...certificationEventData(source), days_remaining: daysRemaining };
+
+      await triggerWebhookEvent('certification.expiring', eventData);
+
+      // Check if we already notified about this cert today
+      const { data: existing } = await supabaseAdmin
+        .from('notifications')
         .select('id')
-        .eq('notification_type', 'certification_expiry')
-        .gte('sent_at', today.toISOString().split('T')[0])
+        .eq('type', 'certification_expiring')
+        .contains('metadata', { pilot_check_id: cert.id, days_remaining: daysRemaining })
+        .gte('created_at', today.toISOString().split('T')[0])
         .limit(1);
 
-      if (existingLog && existingLog.length > 0) {
+      if (existing && existing.length > 0) {
         continue; // Already notified today
       }
 
-      // Queue notifications for admins/managers
-      for (const admin of admins || []) {
-        if (!enabledUserIds.has(admin.id)) {
-          continue; // Skip if notifications disabled
-        }
-
-        const notification: QueuedNotification = {
-          user_id: admin.id,
-          email_address: admin.email,
-          notification_type: 'certification_expiry',
-          subject: `${daysRemaining <= 7 ? 'URGENT: ' : ''}Certification Expiry Alert - ${cert.pilots.first_name} ${cert.pilots.last_name}`,
-          template_name: 'certification_expiry_alert',
-          template_data: {
-            recipient_name: admin.name || 'Fleet Manager',
-            pilot_id: cert.pilots.id,
-            pilot_name: `${cert.pilots.first_name} ${cert.pilots.last_name}`,
-            employee_id: cert.pilots.employee_id,
-            check_code: cert.check_types.check_code,
-            check_description: cert.check_types.check_description,
-            category: cert.check_types.category,
-            expiry_date: cert.expiry_date,
-            days_remaining: daysRemaining,
-          },
-          priority: daysRemaining <= 7 ? 1 : daysRemaining <= 14 ? 2 : 3,
-        };
-
-        queued.push(notification);
-      }
-    }
-
-    // Queue all notifications
-    if (queued.length > 0) {
-      const { queueBatchNotifications } = await import('@/lib/notification-queue');
-      const result = await queueBatchNotifications(queued);
-      console.log(`[Job] Queued ${result.queuedCount} certification expiry notifications`);
+      // Admins/managers, and the pilot when they have a portal account
+      const { pilots: pilot, check_types: checkType } = source;
+      const pilotRecipient = await getPilotRecipient(pilot.id);
+
+      const result = await notify({
+        type: 'certification_expiring',
+        recipients: pilotRecipient ? [...staffRecipients, pilotRecipient] : staffRecipients,
+        title: `${daysRemaining <= 7 ? 'URGENT: ' : ''}${checkType.check_code} expiring - ${eventData.pilot_name}`,
+        message: `${checkType.check_description} for ${eventData.pilot_name} (${pilot.employee_id}) expires on ${format(expiryDate, 'dd MMM yyyy')}, in ${daysRemaining} day${daysRemaining === 1 ? '' : 's'}.`,
+        link: `/dashboard/certifications?pilot=${pilot.id}`,
+        metadata: eventData,
+        urgent: daysRemaining <= 7,
+      });
+      notificationsSent += result.notificationIds.length;
     }
 
     const duration = Date.now() - startTime;
     console.log(
-      `[Job] Daily certification check complete: ${expiringCerts.length} checked, ${queued.length} queued (${duration}ms)`
+      `[Job] Daily certification check complete: ${expiringCerts.length} checked, ${notificationsSent} notifications sent (${duration}ms)`
     );
 
     return {
@@ -185,7 +222,8 @@ export async function runDailyCertificationCheck(): Promise<JobResult> {
       duration,
       details: {
         certificationsChecked: expiringCerts.length,
-        notificationsQueued: queued.length,
+        notificationsSent,
+        expiredEmitted: expiredCerts?.length || 0,
       },
     };
   } catch (error) {
@@ -209,20 +247,21 @@ export async function runProcessNotificationQueue(): Promise<JobResult> {
   const jobName = 'process_notification_queue';
 
   try {
-    console.log('[Job] Processing notification queue...');
+    console.log('[Job] Processing notification deliveries...');
 
-    const result = await processNotificationQueue(100); // Process up to 100 notifications
+    const result = await processNotificationDeliveries(100); // Send up to 100 deliveries
+    const digests = await sendNotificationDigests();
 
     const duration = Date.now() - startTime;
     console.log(
-      `[Job] Notification queue processed: ${result.successful} sent, ${result.failed} failed (${duration}ms)`
+      `[Job] Notification deliveries processed: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed, ${digests.digests} digests (${duration}ms)`
     );
 
     return {
       jobName,
       success: true,
       duration,
-      details: result,
+      details: { ...result, digests },
     };
   } catch (error) {
     console.error('[Job] Process notification queue failed:', error);
@@ -237,39 +276,63 @@ export async function runProcessNotificationQueue(): Promise<JobResult> {
 }
 
 // ============================================================================
-// CLEANUP OLD NOTIFICATIONS JOB
+// PROCESS WEBHOOK DELIVERIES JOB
 // ============================================================================
 
-export async function runCleanupNotifications(): Promise<JobResult> {
+export async function runProcessWebhookDeliveries(): Promise<JobResult> {
   const startTime = Date.now();
-  const jobName = 'cleanup_notifications';
+  const jobName = 'process_webhook_deliveries';
 
   try {
-    console.log('[Job] Cleaning up old notifications...');
+    const result = await processWebhookDeliveries(50);
 
-    const supabaseAdmin = getSupabaseAdmin();
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Job] Webhook deliveries processed: ${result.succeeded} delivered, ${result.failed} failed (${duration}ms)`
+    );
 
-    // Call database cleanup function
-    const { error } = await supabaseAdmin.rpc('cleanup_old_notifications');
+    return {
+      jobName,
+      success: true,
+      duration,
+      details: result,
+    };
+  } catch (error) {
+    console.error('[Job] Process webhook deliveries failed:', error);
+    return {
+      jobName,
+      success: false,
+      duration: Date.now() - startTime,
+      details: {},
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
 
-    if (error) {
-      throw error;
-    }
+// ============================================================================
+// SCHEDULED BACKUP JOB
+// ============================================================================
 
-    // Also cleanup old queue items
-    await cleanupOldQueueItems();
+export async function runScheduledBackups(): Promise<JobResult> {
+  const startTime = Date.now();
+  const jobName = 'scheduled_backup';
+
+  try {
+    const result = await runScheduledBackup();
 
     const duration = Date.now() - startTime;
-    console.log(`[Job] Cleanup complete (${duration}ms)`);
+    console.log(
+      `[Job] Scheduled backup: ${result.backupId ? `created ${result.backupId}` : 'not due'}, ${result.pruned} pruned (${duration}ms)`
+    );
 
     return {
       jobName,
       success: true,
       duration,
-      details: { message: 'Cleanup completed successfully' },
+      details: result,
     };
   } catch (error) {
-    console.error('[Job] Cleanup notifications failed:', error);
+    console.error('[Job] Scheduled backup failed:', error);
     return {
       jobName,
       success: false,
@@ -281,112 +344,104 @@ export async function runCleanupNotifications(): Promise<JobResult> {
 }
 
 // ============================================================================
-// DAILY DIGEST JOB
+// EXPIRY TASK GENERATION JOB
 // ============================================================================
 
-export async function runDailyDigest(): Promise<JobResult> {
+export async function runGenerateExpiryTasks(): Promise<JobResult> {
   const startTime = Date.now();
-  const jobName = 'daily_digest';
+  const jobName = 'generate_expiry_tasks';
 
   try {
-    console.log('[Job] Generating daily digest emails...');
+    const result = await generateExpiryTasks();
 
-    const supabaseAdmin = getSupabaseAdmin();
-    const today = new Date();
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Job] Expiry tasks: ${result.created.length} created, ${result.existing} already existed across ${result.rules} rules (${duration}ms)`
+    );
 
-    // Get users who want daily digest
-    const { data: digestUsers, error: usersError } = await supabaseAdmin
-      .from('notification_preferences')
-      .select(
-        `
-                *,
-                an_users!inner (id, email, name, role)
-            `
-      )
-      .eq('email_enabled', true)
-      .eq('daily_digest', true);
+    return {
+      jobName,
+      success: true,
+      duration,
+      details: result,
+    };
+  } catch (error) {
+    console.error('[Job] Generate expiry tasks failed:', error);
+    return {
+      jobName,
+      success: false,
+      duration: Date.now() - startTime,
+      details: {},
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
 
-    if (usersError) {
-      throw usersError;
-    }
+// ============================================================================
+// DISCIPLINARY DEADLINE ESCALATION JOB
+// ============================================================================
 
-    if (!digestUsers || digestUsers.length === 0) {
-      console.log('[Job] No users subscribed to daily digest');
-      return {
-        jobName,
-        success: true,
-        duration: Date.now() - startTime,
-        details: { digestsSent: 0 },
-      };
-    }
+export async function runDisciplinaryDeadlineEscalation(): Promise<JobResult> {
+  const startTime = Date.now();
+  const jobName = 'disciplinary_escalation';
 
-    let digestsSent = 0;
+  try {
+    const result = await runDisciplinaryEscalation();
 
-    for (const user of digestUsers) {
-      try {
-        // Get summary data for this user
-        const { data: expiringCerts } = await supabaseAdmin
-          .from('pilot_checks')
-          .select(
-            `
-                        id,
-                        expiry_date,
-                        pilots!inner (first_name, last_name, employee_id),
-                        check_types!inner (check_code, check_description)
-                    `
-          )
-          .not('expiry_date', 'is', null)
-          .lte('expiry_date', new Date(today.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString())
-          .limit(10);
-
-        const { data: pendingLeave } = await supabaseAdmin
-          .from('leave_requests')
-          .select(
-            `
-                        id,
-                        leave_type,
-                        start_date,
-                        end_date,
-                        status,
-                        pilots!inner (first_name, last_name)
-                    `
-          )
-          .eq('status', 'pending')
-          .limit(10);
-
-        // Queue digest notification
-        await queueNotification({
-          user_id: user.an_users.id,
-          email_address: user.an_users.email,
-          notification_type: 'system',
-          subject: `Daily Digest - ${format(today, 'dd MMM yyyy')}`,
-          template_name: 'daily_digest',
-          template_data: {
-            recipient_name: user.an_users.name,
-            date: format(today, 'dd MMMM yyyy'),
-            expiring_certifications: expiringCerts || [],
-            pending_leave_requests: pendingLeave || [],
-          },
-          priority: 5,
-        });
-
-        digestsSent++;
-      } catch (error) {
-        console.error(`[Job] Failed to queue digest for user ${user.an_users.id}:`, error);
-      }
+    const duration = Date.now() - startTime;
+    console.log(
+      `[Job] Disciplinary escalation: ${result.escalated.length} tasks created, ${result.reminders} reminders sent across ${result.matters} matters (${duration}ms)`
+    );
+
+    return {
+      jobName,
+      success: true,
+      duration,
+      details: result,
+    };
+  } catch (error) {
+    console.error('[Job] Disciplinary escalation failed:', error);
+    return {
+      jobName,
+      success: false,
+      duration: Date.now() - startTime,
+      details: {},
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// ============================================================================
+// CLEANUP OLD NOTIFICATIONS JOB
+// ============================================================================
+
+export async function runCleanupNotifications(): Promise<JobResult> {
+  const startTime = Date.now();
+  const jobName = 'cleanup_notifications';
+
+  try {
+    console.log('[Job] Cleaning up old notifications...');
+
+    const supabaseAdmin = getSupabaseAdmin();
+
+    // Call database cleanup function
+    const { error } = await supabaseAdmin.rpc('cleanup_old_notifications');
+
+    if (error) {
+      throw error;
     }
 
     const duration = Date.now() - startTime;
-    console.log(`[Job] Daily digest complete: ${digestsSent} queued (${duration}ms)`);
+    console.log(`[Job] Cleanup complete (${duration}ms)`);
 
     return {
       jobName,
       success: true,
       duration,
-      details: { digestsSent },
+      details: { message: 'Cleanup completed successfully' },
     };
   } catch (error) {
-    console.error('[Job] Daily digest failed:', error);
+    console.error('[Job] Cleanup notifications failed:', error);
     return {
       jobName,
       success: false,
@@ -407,8 +462,11 @@ export async function runAllScheduledJobs(): Promise<JobResult[]> {
   const results = await Promise.allSettled([
     runDailyCertificationCheck(),
     runProcessNotificationQueue(),
+    runProcessWebhookDeliveries(),
+    runScheduledBackups(),
+    runGenerateExpiryTasks(),
+    runDisciplinaryDeadlineEscalation(),
     runCleanupNotifications(),
-    runDailyDigest(),
   ]);
 
   const jobResults: JobResult[] = results.map((result) => {
@@ -443,13 +501,19 @@ export async function runAllScheduledJobs(): Promise<JobResult[]> {
  * Daily Certification Check:
  *   - Run daily at 8:00 AM: "0 8 * * *"
  *
- * Process Notification Queue:
+ * Process Notification Queue (deliveries, and digests at each recipient's digest time):
  *   - Run every 5 minutes: "*//*5 * * * *"
  *   - Run every 15 minutes: "*//*15 * * * *"
  *
- * Cleanup Notifications:
- *   - Run daily at 2:00 AM: "0 2 * * *"
+ * Scheduled Backups (the backup_policy setting decides when a backup is due):
+ *   - Run hourly: "0 * * * *"
  *
- * Daily Digest:
+ * Expiry Task Generation:
+ *   - Run daily at 6:00 AM: "0 6 * * *"
+ *
+ * Disciplinary Deadline Escalation:
  *   - Run daily at 7:00 AM: "0 7 * * *"
+ *
+ * Cleanup Notifications:
+ *   - Run daily at 2:00 AM: "0 2 * * *"
  */
@@ -1,3 +1,5 @@
+import { authenticatedFetch } from '@/lib/api-client';
+
 export interface SystemSetting {
   id: string;
   key: string;
@@ -92,7 +94,7 @@ export const settingsService = {
       }
 
       // CLIENT-SIDE: Call API route (this is fine for browser)
-      const response = await fetch('/api/settings', {
+      const response = await authenticatedFetch('/api/settings', {
         method: 'GET',
         headers: {
           'Cache-Control': 'no-cache',
@@ -121,7 +123,7 @@ export const settingsService = {
    */
   async updateSetting(key: string, value: any, description?: string): Promise<void> {
     try {
-      const response = await fetch('/api/settings', {
+      const response = await authenticatedFetch('/api/settings', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
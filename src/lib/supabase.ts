@@ -11,6 +11,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { createBrowserClient } from '@supabase/ssr';
 import { logger } from '@/lib/logger';
+import type { CustomRole, PermissionOverride } from '@/lib/access-control';
+import type { DataScopeRule } from '@/lib/data-scope';
 
 /**
  * Safely retrieves and validates Supabase configuration from environment variables
@@ -151,6 +153,9 @@ export const supabaseAdmin = {
  * @property {string} email - User's email address (must be unique)
  * @property {string} name - Display name for the user
  * @property {'admin' | 'manager'} role - User's permission level
+ * @property {string} custom_role_id - Custom role replacing the permissions of the role
+ * @property {object} custom_role - The custom role, when loaded with the user
+ * @property {object[]} permission_overrides - Per-user grants and denials, when loaded with the user
  * @property {string} created_at - ISO timestamp of account creation
  */
 export interface User {
@@ -158,6 +163,10 @@ export interface User {
   email: string;
   name: string;
   role: 'admin' | 'manager';
+  custom_role_id?: string | null;
+  custom_role?: Pick<CustomRole, 'name' | 'description' | 'permissions'> | null;
+  permission_overrides?: PermissionOverride[] | null;
+  data_scopes?: DataScopeRule[] | null;
   created_at: string;
 }
 
@@ -173,6 +182,8 @@ export interface User {
  * @property {string} last_name - Pilot's last name
  * @property {'Captain' | 'First Officer'} role - Flight deck position
  * @property {string} [contract_type] - Employment type (Fulltime, Contract, Casual)
+ * @property {string} [base] - Home base (e.g., "POM")
+ * @property {string} [fleet] - Aircraft fleet (e.g., "B767")
  * @property {string} [nationality] - Pilot's nationality
  * @property {string} [passport_number] - Passport identification
  * @property {string} [passport_expiry] - Passport expiry date (YYYY-MM-DD)
@@ -194,6 +205,8 @@ export interface Pilot {
   last_name: string;
   role: 'Captain' | 'First Officer';
   contract_type?: string;
+  base?: string;
+  fleet?: string;
   nationality?: string;
   passport_number?: string;
   passport_expiry?: string;
@@ -217,6 +230,12 @@ export interface Pilot {
  * @property {string} check_code - Short code for the certification (e.g., "PC", "LPC")
  * @property {string} check_description - Full description of the certification
  * @property {string} [category] - Certification category for grouping
+ * @property {number | null} [validity_months] - Months a completed check remains valid
+ * @property {number} [renewal_window_months] - Months before expiry a renewal keeps the anniversary
+ * @property {number} [grace_period_days] - Days after expiry a renewal keeps the anniversary
+ * @property {number} [warning_days] - Days before expiry the check is "Expiring Soon"
+ * @property {'none' | 'end_of_month'} [expiry_rounding] - Rounding applied to computed expiry
+ * @property {boolean} [preserve_anniversary] - Keep the anniversary date on in-window renewals
  * @property {string} created_at - Record creation timestamp
  */
 export interface CheckType {
@@ -224,6 +243,12 @@ export interface CheckType {
   check_code: string;
   check_description: string;
   category?: string;
+  validity_months?: number | null;
+  renewal_window_months?: number;
+  grace_period_days?: number;
+  warning_days?: number;
+  expiry_rounding?: 'none' | 'end_of_month';
+  preserve_anniversary?: boolean;
   created_at: string;
 }
 
@@ -0,0 +1,298 @@
+/**
+ * @fileoverview Expiry Task Generation Service
+ * Rules that create a task ahead of every pilot check expiry of a check type, so
+ * the fleet office gets e.g. "Book SIM for Capt X" with time to arrange it.
+ * Generated tasks carry a generation key per rule, check and expiry date: a
+ * renewed check (new expiry) gets a new task, and re-running never duplicates.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { createTask, type Task } from './task-service';
+import { DEFAULT_TASK_TITLE_TEMPLATE, renderTaskTemplate } from './task-recurrence';
+
+export interface TaskGenerationRule {
+  id: string;
+  name: string;
+  check_type_id: string;
+  /** Days before the expiry the task is created */
+  days_before: number;
+  /** Days before the expiry the task is due */
+  due_days_before: number;
+  title_template: string;
+  description_template: string | null;
+  category_id: string | null;
+  priority: Task['priority'];
+  assigned_to: string | null;
+  is_active: boolean;
+  last_run_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskGenerationRuleInput {
+  name: string;
+  check_type_id: string;
+  days_before: number;
+  due_days_before?: number;
+  title_template?: string;
+  description_template?: string | null;
+  category_id?: string | null;
+  priority?: Task['priority'];
+  assigned_to?: string | null;
+  is_active?: boolean;
+}
+
+export interface GeneratedTask {
+  rule_id: string;
+  pilot_check_id: string;
+  task_id: string;
+  title: string;
+  due_date: string;
+}
+
+export interface ExpiryTaskGenerationResult {
+  rules: number;
+  created: GeneratedTask[];
+  /** Expiries in the window that already had a task */
+  existing: number;
+}
+
+/** pilot_checks row with its pilot and check type (many-to-one joins, returned as objects) */
+interface ExpiringCheck {
+  id: string;
+  expiry_date: string;
+  pilots: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    employee_id: string;
+    role: string;
+    is_active: boolean;
+  };
+  check_types: { check_code: string; check_description: string };
+}
+
+const RANK_ABBREVIATIONS: Record<string, string> = {
+  Captain: 'Capt',
+  'First Officer': 'FO',
+};
+
+const generationKey = (ruleId: string, check: ExpiringCheck) =>
+  `${ruleId}:${check.id}:${check.expiry_date}`;
+
+// =============================================================================
+// RULES
+// =============================================================================
+
+export async function listGenerationRules(): Promise<TaskGenerationRule[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('task_generation_rules')
+    .select(
+      `
+      *,
+      check_type:check_types (id, check_code, check_description),
+      assignee:an_users!task_generation_rules_assigned_to_fkey (id, name, email)
+    `
+    )
+    .order('name');
+
+  if (error) {
+    logger.error('Error fetching task generation rules', error);
+    throw new Error('Failed to fetch task generation rules');
+  }
+
+  return data || [];
+}
+
+export async function createGenerationRule(
+  input: TaskGenerationRuleInput,
+  createdBy: string
+): Promise<TaskGenerationRule> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('task_generation_rules')
+    .insert({
+      ...input,
+      title_template: input.title_template || DEFAULT_TASK_TITLE_TEMPLATE,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error creating task generation rule', error);
+    throw new Error('Failed to create task generation rule');
+  }
+
+  return data;
+}
+
+export async function updateGenerationRule(
+  id: string,
+  input: Partial<TaskGenerationRuleInput>
+): Promise<TaskGenerationRule> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('task_generation_rules')
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating task generation rule', error);
+    throw new Error('Failed to update task generation rule');
+  }
+
+  return data;
+}
+
+/**
+ * Deletes a rule; tasks it generated are kept
+ */
+export async function deleteGenerationRule(id: string): Promise<void> {
+  const { error } = await getSupabaseAdmin().from('task_generation_rules').delete().eq('id', id);
+
+  if (error) {
+    logger.error('Error deleting task generation rule', error);
+    throw new Error('Failed to delete task generation rule');
+  }
+}
+
+// =============================================================================
+// GENERATION
+// =============================================================================
+
+async function fetchExpiringChecks(
+  rule: TaskGenerationRule,
+  today: string,
+  horizon: string
+): Promise<ExpiringCheck[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilot_checks')
+    .select(
+      `
+      id,
+      expiry_date,
+      pilots!inner (id, first_name, last_name, employee_id, role, is_active),
+      check_types!inner (check_code, check_description)
+    `
+    )
+    .eq('check_type_id', rule.check_type_id)
+    .gte('expiry_date', today)
+    .lte('expiry_date', horizon);
+
+  if (error) {
+    logger.error('Error fetching expiring checks for task generation', error);
+    throw new Error('Failed to fetch expiring checks');
+  }
+
+  return ((data || []) as unknown as ExpiringCheck[]).filter((check) => check.pilots.is_active);
+}
+
+async function fetchExistingKeys(keys: string[]): Promise<Set<string>> {
+  if (keys.length === 0) return new Set();
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('tasks')
+    .select('generation_key')
+    .in('generation_key', keys);
+
+  if (error) {
+    logger.error('Error fetching generated tasks', error);
+    throw new Error('Failed to fetch generated tasks');
+  }
+
+  return new Set((data || []).map((task: { generation_key: string }) => task.generation_key));
+}
+
+/**
+ * Creates a task for each active pilot whose check of a rule's type expires
+ * within the rule's days_before window and has no task yet. The task is due
+ * due_days_before the expiry, or today when that has already passed.
+ */
+export async function generateExpiryTasks(
+  now: Date = new Date(),
+  ruleId?: string
+): Promise<ExpiryTaskGenerationResult> {
+  const supabase = getSupabaseAdmin();
+
+  let query = supabase.from('task_generation_rules').select('*').eq('is_active', true);
+  if (ruleId) query = query.eq('id', ruleId);
+
+  const { data: rules, error } = await query;
+  if (error) {
+    logger.error('Error fetching task generation rules', error);
+    throw new Error('Failed to fetch task generation rules');
+  }
+
+  const today = format(now, 'yyyy-MM-dd');
+  const result: ExpiryTaskGenerationResult = {
+    rules: rules?.length || 0,
+    created: [],
+    existing: 0,
+  };
+
+  for (const rule of (rules || []) as TaskGenerationRule[]) {
+    const horizon = format(addDays(now, rule.days_before), 'yyyy-MM-dd');
+    const checks = await fetchExpiringChecks(rule, today, horizon);
+    const existing = await fetchExistingKeys(checks.map((check) => generationKey(rule.id, check)));
+
+    for (const check of checks) {
+      const key = generationKey(rule.id, check);
+      if (existing.has(key)) {
+        result.existing++;
+        continue;
+      }
+
+      const values = {
+        rank: RANK_ABBREVIATIONS[check.pilots.role] || check.pilots.role,
+        pilot_name: `${check.pilots.first_name} ${check.pilots.last_name}`,
+        employee_id: check.pilots.employee_id,
+        check_code: check.check_types.check_code,
+        check_description: check.check_types.check_description,
+        expiry_date: format(parseISO(check.expiry_date), 'dd MMM yyyy'),
+      };
+      const due = format(addDays(parseISO(check.expiry_date), -rule.due_days_before), 'yyyy-MM-dd');
+      const dueDate = `${due < today ? today : due}T00:00:00Z`;
+
+      const task = await createTask(
+        {
+          title: renderTaskTemplate(rule.title_template, values).slice(0, 200),
+          description: rule.description_template
+            ? renderTaskTemplate(rule.description_template, values)
+            : `${values.check_description} expires ${values.expiry_date}`,
+          category_id: rule.category_id || undefined,
+          priority: rule.priority,
+          assigned_to: rule.assigned_to || undefined,
+          related_pilot_id: check.pilots.id,
+          due_date: dueDate,
+          generation_rule_id: rule.id,
+          generation_key: key,
+          tags: ['expiry', values.check_code],
+        },
+        rule.created_by
+      );
+
+      result.created.push({
+        rule_id: rule.id,
+        pilot_check_id: check.id,
+        task_id: task.id,
+        title: task.title,
+        due_date: dueDate,
+      });
+    }
+
+    await supabase
+      .from('task_generation_rules')
+      .update({ last_run_at: now.toISOString() })
+      .eq('id', rule.id);
+  }
+
+  return result;
+}
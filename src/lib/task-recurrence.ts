@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Task Recurrence Engine
+ * RRULE-style schedules for recurring tasks: every N days, weeks (on chosen
+ * weekdays), months (on chosen days of the month), years or roster periods.
+ * Occurrences are generated one at a time as each one is completed or skipped,
+ * so only the next occurrence is ever computed. Pure functions; no database access.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import {
+  addDays,
+  addMonths,
+  addYears,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  format,
+  getDaysInMonth,
+  getISODay,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+} from 'date-fns';
+import { listRosterPeriods, type RosterCalendarConfig } from './roster-utils';
+
+export const RECURRENCE_FREQUENCIES = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+  'ROSTER_PERIOD',
+] as const;
+
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export interface RecurrencePattern {
+  frequency: RecurrenceFrequency;
+  /** Repeat every N days, weeks, months, years or roster periods */
+  interval: number;
+  /** WEEKLY: ISO weekdays, 1 (Monday) to 7 (Sunday); defaults to the weekday of the first occurrence */
+  by_weekday?: number[];
+  /** MONTHLY: days of the month, -1 for the last day; months without the day are skipped */
+  by_month_day?: number[];
+  /** ROSTER_PERIOD: days after each period starts (negative for before); defaults to 0 */
+  roster_offset_days?: number;
+  /** Last date (yyyy-MM-dd) an occurrence may fall on */
+  end_date?: string;
+  /** Total number of occurrences, including the first */
+  count?: number;
+}
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Upper bound on periods scanned, so a malformed pattern cannot loop forever
+const MAX_STEPS = 1000;
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** Aligns a whole number of elapsed units down to the interval grid, never below zero */
+const alignToInterval = (elapsed: number, interval: number) =>
+  Math.max(0, elapsed - (elapsed % interval));
+
+function nextDaily(pattern: RecurrencePattern, start: Date, after: Date): Date {
+  const elapsed = differenceInCalendarDays(after, start);
+  return addDays(start, alignToInterval(elapsed, pattern.interval) + pattern.interval);
+}
+
+function nextWeekly(pattern: RecurrencePattern, start: Date, after: Date): Date | null {
+  const weekdays = [
+    ...new Set(pattern.by_weekday?.length ? pattern.by_weekday : [getISODay(start)]),
+  ]
+    .filter((day) => day >= 1 && day <= 7)
+    .sort((a, b) => a - b);
+  const anchor = startOfISOWeek(start);
+  const elapsedWeeks = Math.floor(differenceInCalendarDays(startOfISOWeek(after), anchor) / 7);
+
+  for (
+    let week = alignToInterval(elapsedWeeks, pattern.interval), step = 0;
+    step < MAX_STEPS;
+    week += pattern.interval, step++
+  ) {
+    for (const day of weekdays) {
+      const candidate = addDays(anchor, week * 7 + day - 1);
+      if (candidate > after && candidate >= start) return candidate;
+    }
+  }
+  return null;
+}
+
+function nextMonthly(pattern: RecurrencePattern, start: Date, after: Date): Date | null {
+  const anchor = startOfMonth(start);
+  const elapsedMonths = differenceInCalendarMonths(after, anchor);
+
+  for (
+    let month = alignToInterval(elapsedMonths, pattern.interval), step = 0;
+    step < MAX_STEPS;
+    month += pattern.interval, step++
+  ) {
+    const first = addMonths(anchor, month);
+    const length = getDaysInMonth(first);
+
+    // An explicit day the month does not have (e.g. the 31st) skips the month;
+    // the default day of the first occurrence is clamped to the month end instead
+    const days = pattern.by_month_day?.length
+      ? pattern.by_month_day
+          .map((day) => (day === -1 ? length : day))
+          .filter((day) => day >= 1 && day <= length)
+      : [Math.min(start.getDate(), length)];
+
+    for (const day of [...new Set(days)].sort((a, b) => a - b)) {
+      const candidate = addDays(first, day - 1);
+      if (candidate > after && candidate >= start) return candidate;
+    }
+  }
+  return null;
+}
+
+function nextYearly(pattern: RecurrencePattern, start: Date, after: Date): Date {
+  let years = alignToInterval(differenceInCalendarYears(after, start), pattern.interval);
+  let candidate = addYears(start, years);
+  while (candidate <= after) {
+    years += pattern.interval;
+    candidate = addYears(start, years);
+  }
+  return candidate;
+}
+
+function nextRosterPeriod(
+  pattern: RecurrencePattern,
+  start: Date,
+  after: Date,
+  config?: RosterCalendarConfig
+): Date | null {
+  const offset = pattern.roster_offset_days || 0;
+  // The period whose (offset) occurrence is the first one anchors the interval
+  let [period] = listRosterPeriods(addDays(start, -offset), 1, config);
+
+  for (let index = 0; period && index < MAX_STEPS; index++) {
+    const candidate = addDays(period.startDate, offset);
+    if (index % pattern.interval === 0 && candidate > after && candidate >= start) {
+      return candidate;
+    }
+    [period] = listRosterPeriods(addDays(period.endDate, 1), 1, config);
+  }
+  return null;
+}
+
+/**
+ * Date (yyyy-MM-dd) of the first occurrence after `after` in a series whose
+ * first occurrence is `seriesStart`, or null when the series has ended by date.
+ * The occurrence count is left to the caller, which knows how many exist.
+ */
+export function nextOccurrence(
+  pattern: RecurrencePattern,
+  seriesStart: string,
+  after: string,
+  rosterConfig?: RosterCalendarConfig
+): string | null {
+  const start = parseISO(seriesStart);
+  const from = parseISO(after);
+  const normalized = { ...pattern, interval: Math.max(1, Math.floor(pattern.interval || 1)) };
+
+  let next: Date | null;
+  if (from < start) {
+    // The series has not started yet: its first occurrence is next
+    next = start;
+  } else {
+    switch (pattern.frequency) {
+      case 'DAILY':
+        next = nextDaily(normalized, start, from);
+        break;
+      case 'WEEKLY':
+        next = nextWeekly(normalized, start, from);
+        break;
+      case 'MONTHLY':
+        next = nextMonthly(normalized, start, from);
+        break;
+      case 'YEARLY':
+        next = nextYearly(normalized, start, from);
+        break;
+      case 'ROSTER_PERIOD':
+        next = nextRosterPeriod(normalized, start, from, rosterConfig);
+        break;
+      default:
+        next = null;
+    }
+  }
+
+  if (!next) return null;
+  const date = toDateString(next);
+  return pattern.end_date && date > pattern.end_date ? null : date;
+}
+
+/**
+ * The first `limit` occurrence dates of a series (including the first), honouring
+ * count and end_date; used to preview a pattern before saving it
+ */
+export function upcomingOccurrences(
+  pattern: RecurrencePattern,
+  seriesStart: string,
+  limit: number,
+  rosterConfig?: RosterCalendarConfig
+): string[] {
+  const total = Math.min(limit, pattern.count || limit);
+  const dates = [seriesStart];
+
+  while (dates.length < total) {
+    const next = nextOccurrence(pattern, seriesStart, dates[dates.length - 1]!, rosterConfig);
+    if (!next) break;
+    dates.push(next);
+  }
+
+  return dates;
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(pattern: RecurrencePattern): string {
+  const every = (unit: string) =>
+    pattern.interval > 1 ? `Every ${pattern.interval} ${unit}s` : `Every ${unit}`;
+
+  let text: string;
+  switch (pattern.frequency) {
+    case 'DAILY':
+      text = every('day');
+      break;
+    case 'WEEKLY':
+      text = every('week');
+      if (pattern.by_weekday?.length) {
+        text += ` on ${[...pattern.by_weekday]
+          .sort((a, b) => a - b)
+          .map((day) => WEEKDAY_NAMES[day - 1])
+          .join(', ')}`;
+      }
+      break;
+    case 'MONTHLY':
+      text = every('month');
+      if (pattern.by_month_day?.length) {
+        text += ` on day ${pattern.by_month_day.map((day) => (day === -1 ? 'last' : day)).join(', ')}`;
+      }
+      break;
+    case 'YEARLY':
+      text = every('year');
+      break;
+    case 'ROSTER_PERIOD': {
+      text = every('roster period');
+      const offset = pattern.roster_offset_days || 0;
+      if (offset !== 0) {
+        text += `, ${Math.abs(offset)} day${Math.abs(offset) === 1 ? '' : 's'} ${offset > 0 ? 'after' : 'before'} it starts`;
+      }
+      break;
+    }
+    default:
+      text = 'Custom';
+  }
+
+  if (pattern.count) text += `, ${pattern.count} times`;
+  if (pattern.end_date) text += `, until ${pattern.end_date}`;
+  return text;
+}
+
+/** Title of tasks generated ahead of check expiries, e.g. "Book SIM for Capt John Kila" */
+export const DEFAULT_TASK_TITLE_TEMPLATE = 'Book {check_code} for {rank} {pilot_name}';
+
+/**
+ * Fills {placeholders} in a generated task title or description; unknown
+ * placeholders are left as written
+ */
+export function renderTaskTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
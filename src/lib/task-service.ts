@@ -8,8 +8,11 @@
  */
 
 import { getSupabaseAdmin } from './supabase';
-import { addDays, addWeeks, addMonths, parseISO } from 'date-fns';
 import { logger } from '@/lib/logger';
+import { loadRosterCalendar } from '@/lib/roster-calendar-service';
+import { nextOccurrence, type RecurrencePattern } from './task-recurrence';
+
+export type { RecurrencePattern } from './task-recurrence';
 
 // Get admin client instance for server-side operations
 const supabase = getSupabaseAdmin();
@@ -47,6 +50,11 @@ export interface Task {
   is_recurring: boolean;
   recurrence_pattern?: RecurrencePattern;
   parent_task_id?: string;
+  /** Scheduled date of a recurring occurrence (kept when the occurrence is rescheduled) */
+  occurrence_date?: string;
+  occurrence_index?: number;
+  generation_rule_id?: string;
+  generation_key?: string;
   tags: string[];
   attachments: any[];
   checklist_items: ChecklistItem[];
@@ -55,13 +63,6 @@ export interface Task {
   updated_at: string;
 }
 
-export interface RecurrencePattern {
-  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
-  interval: number;
-  end_date?: string;
-  count?: number;
-}
-
 export interface ChecklistItem {
   id: string;
   text: string;
@@ -94,6 +95,8 @@ export interface CreateTaskInput {
   is_recurring?: boolean;
   recurrence_pattern?: RecurrencePattern;
   parent_task_id?: string;
+  generation_rule_id?: string;
+  generation_key?: string;
   tags?: string[];
   checklist_items?: ChecklistItem[];
 }
@@ -239,7 +242,7 @@ export async function getTaskById(id: string) {
       assignee:an_users!tasks_assigned_to_fkey (id, name, email),
       pilot:pilots (id, first_name, last_name, employee_id, role),
       matter:disciplinary_matters (id, title, status, severity),
-      parent:tasks!tasks_parent_task_id_fkey (id, title, status),
+      parent:tasks!tasks_parent_task_id_fkey (id, title, status, occurrence_date),
       subtasks:tasks!tasks_parent_task_id_fkey (id, title, status, progress_percentage)
     `
     )
@@ -265,6 +268,11 @@ export async function createTask(input: CreateTaskInput, createdBy: string) {
   if (!createdBy) {
     throw new Error('Authorization required: createdBy user ID must be provided');
   }
+
+  // A recurring task is the first occurrence of its series; later occurrences are
+  // generated one at a time as each is completed or skipped
+  const recurring = Boolean(input.is_recurring && input.recurrence_pattern && input.due_date);
+
   const { data, error } = await supabase
     .from('tasks')
     .insert({
@@ -277,6 +285,10 @@ export async function createTask(input: CreateTaskInput, createdBy: string) {
       attachments: [],
       checklist_items: input.checklist_items || [],
       progress_percentage: 0,
+      ...(recurring && {
+        occurrence_date: occurrenceDate(input.due_date!),
+        occurrence_index: 1,
+      }),
     })
     .select()
     .single();
@@ -289,11 +301,6 @@ export async function createTask(input: CreateTaskInput, createdBy: string) {
   // Log audit trail
   await logTaskAudit(data.id, createdBy, 'CREATE', null, null, null);
 
-  // Handle recurring tasks
-  if (input.is_recurring && input.recurrence_pattern) {
-    await createRecurringTaskInstances(data.id, input.recurrence_pattern, createdBy);
-  }
-
   return data;
 }
 
@@ -353,6 +360,11 @@ export async function updateTask(id: string, input: UpdateTaskInput, userId: str
     }
   }
 
+  // Completing an occurrence of a recurring series schedules the next one
+  if (input.status === 'COMPLETED' && current.status !== 'COMPLETED') {
+    await createNextOccurrence(current, userId);
+  }
+
   return data;
 }
 
@@ -448,67 +460,167 @@ export async function createTaskComment(
 // RECURRING TASKS
 // =============================================================================
 
+/** Date part (yyyy-MM-dd) of a task due date */
+const occurrenceDate = (dueDate: string) => dueDate.slice(0, 10);
+
+const isOpen = (task: { status: string }) =>
+  task.status !== 'COMPLETED' && task.status !== 'CANCELLED';
+
 /**
- * Creates recurring task instances based on pattern
+ * Creates the occurrence after `task` in its recurring series, if the series has
+ * not reached its count or end date. The first task of the series is the parent
+ * of every later occurrence; the generation key makes this safe to repeat when an
+ * occurrence is reopened and completed again.
  */
-async function createRecurringTaskInstances(
-  parentTaskId: string,
-  pattern: RecurrencePattern,
-  createdBy: string
-) {
-  const parentTask = await getTaskById(parentTaskId);
-  if (!parentTask.due_date) return;
-
-  const instances: any[] = [];
-  let currentDate = parseISO(parentTask.due_date);
-  const endDate = pattern.end_date ? parseISO(pattern.end_date) : null;
-  const maxCount = pattern.count || 10;
-
-  for (let i = 0; i < maxCount; i++) {
-    // Calculate next occurrence
-    switch (pattern.frequency) {
-      case 'DAILY':
-        currentDate = addDays(currentDate, pattern.interval);
-        break;
-      case 'WEEKLY':
-        currentDate = addWeeks(currentDate, pattern.interval);
-        break;
-      case 'MONTHLY':
-        currentDate = addMonths(currentDate, pattern.interval);
-        break;
-      case 'YEARLY':
-        currentDate = addMonths(currentDate, pattern.interval * 12);
-        break;
-    }
+async function createNextOccurrence(task: any, userId: string) {
+  const pattern: RecurrencePattern | undefined = task.recurrence_pattern;
+  if (!task.is_recurring || !pattern || !task.occurrence_date) return null;
 
-    // Check if we've reached the end date
-    if (endDate && currentDate > endDate) break;
+  const index = (task.occurrence_index || 1) + 1;
+  if (pattern.count && index > pattern.count) return null;
 
-    instances.push({
-      title: parentTask.title,
-      description: parentTask.description,
-      category_id: parentTask.category_id,
-      priority: parentTask.priority,
-      created_by: createdBy,
-      assigned_to: parentTask.assigned_to,
-      related_pilot_id: parentTask.related_pilot_id,
-      related_matter_id: parentTask.related_matter_id,
-      due_date: currentDate.toISOString(),
-      estimated_hours: parentTask.estimated_hours,
-      parent_task_id: parentTaskId,
-      is_recurring: false,
-      tags: parentTask.tags,
-      checklist_items: parentTask.checklist_items,
-    });
-  }
-
-  if (instances.length > 0) {
-    const { error } = await supabase.from('tasks').insert(instances);
-
-    if (error) {
-      logger.error('Error creating recurring task instances', error instanceof Error ? error : new Error(String(error)));
+  if (pattern.frequency === 'ROSTER_PERIOD') {
+    await loadRosterCalendar();
+  }
+
+  const rootId = task.parent_task_id || task.id;
+  const seriesStart = task.parent?.occurrence_date || task.occurrence_date;
+  const date = nextOccurrence(pattern, seriesStart, task.occurrence_date);
+  if (!date) return null;
+
+  // Keep the time of day the series is due at
+  const dueTime = task.due_date ? task.due_date.slice(10) : 'T00:00:00Z';
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert({
+      title: task.title,
+      description: task.description,
+      category_id: task.category_id,
+      priority: task.priority,
+      status: 'TODO',
+      created_by: task.created_by,
+      assigned_to: task.assigned_to,
+      related_pilot_id: task.related_pilot_id,
+      related_matter_id: task.related_matter_id,
+      due_date: `${date}${dueTime}`,
+      estimated_hours: task.estimated_hours,
+      is_recurring: true,
+      recurrence_pattern: pattern,
+      parent_task_id: rootId,
+      occurrence_date: date,
+      occurrence_index: index,
+      generation_key: `${rootId}:${index}`,
+      tags: task.tags || [],
+      attachments: [],
+      checklist_items: (task.checklist_items || []).map((item: ChecklistItem) => ({
+        id: item.id,
+        text: item.text,
+        completed: false,
+      })),
+      progress_percentage: 0,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique violation: this occurrence was generated already
+    if (error.code !== '23505') {
+      logger.error('Error creating next task occurrence', error instanceof Error ? error : new Error(String(error)));
     }
+    return null;
+  }
+
+  await logTaskAudit(data.id, userId, 'CREATE', 'occurrence_index', null, String(index));
+
+  return data;
+}
+
+/**
+ * Skips one occurrence of a recurring task: it is cancelled and the next
+ * occurrence is generated as if it had been completed. Cancelling a task through
+ * updateTask instead ends the series.
+ * @security Must be called from authenticated API route with user context
+ */
+export async function skipTaskOccurrence(id: string, userId: string) {
+  if (!userId) {
+    throw new Error('Authorization required: userId must be provided');
+  }
+
+  const current = await getTaskById(id);
+  if (!current.is_recurring || !current.occurrence_date) {
+    throw new Error('Only occurrences of a recurring task can be skipped');
+  }
+  if (!isOpen(current)) {
+    throw new Error('Only open occurrences can be skipped');
   }
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ status: 'CANCELLED' })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error skipping task occurrence', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to skip task occurrence');
+  }
+
+  await logTaskAudit(
+    id,
+    userId,
+    'SKIP',
+    'status',
+    JSON.stringify(current.status),
+    JSON.stringify('CANCELLED')
+  );
+
+  const next = await createNextOccurrence(current, userId);
+
+  return { skipped: data, next };
+}
+
+/**
+ * Moves one occurrence of a recurring task to a new due date. Its scheduled
+ * occurrence date is kept, so later occurrences stay on the series schedule.
+ * @security Must be called from authenticated API route with user context
+ */
+export async function rescheduleTaskOccurrence(id: string, dueDate: string, userId: string) {
+  if (!userId) {
+    throw new Error('Authorization required: userId must be provided');
+  }
+
+  const current = await getTaskById(id);
+  if (!current.is_recurring || !current.occurrence_date) {
+    throw new Error('Only occurrences of a recurring task can be rescheduled');
+  }
+  if (!isOpen(current)) {
+    throw new Error('Only open occurrences can be rescheduled');
+  }
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ due_date: dueDate })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error rescheduling task occurrence', error instanceof Error ? error : new Error(String(error)));
+    throw new Error('Failed to reschedule task occurrence');
+  }
+
+  await logTaskAudit(
+    id,
+    userId,
+    'RESCHEDULE',
+    'due_date',
+    JSON.stringify(current.due_date || ''),
+    JSON.stringify(dueDate)
+  );
+
+  return data;
 }
 
 // =============================================================================
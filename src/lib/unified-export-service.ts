@@ -7,6 +7,11 @@
 import { format } from 'date-fns';
 import type { PilotWithCertifications } from './pilot-service-client';
 import type { LeaveRequest } from './leave-service';
+import {
+  MANPOWER_CATEGORY_LABELS,
+  type ManpowerMonth,
+  type ShortfallWindow,
+} from './manpower-planning';
 
 // Export formats
 export type ExportFormat = 'csv' | 'pdf' | 'excel';
@@ -202,6 +207,77 @@ export class UnifiedExportService {
     });
   }
 
+  /**
+   * Export manpower shortfall windows to CSV
+   */
+  exportManpowerShortfalls(
+    shortfalls: ShortfallWindow[],
+    options: Partial<ExportOptions> = {}
+  ): void {
+    const headers = [
+      { key: 'category' as const, label: 'Category' },
+      { key: 'from' as const, label: 'From' },
+      { key: 'to' as const, label: 'To' },
+      { key: 'months' as const, label: 'Months' },
+      { key: 'worst_shortfall' as const, label: 'Worst Shortfall' },
+    ];
+
+    const formattedData = shortfalls.map((window) => ({
+      category: MANPOWER_CATEGORY_LABELS[window.category],
+      from: window.from,
+      to: window.to,
+      months: window.months,
+      worst_shortfall: window.worstShortfall,
+    }));
+
+    this.csvExporter.export(formattedData, headers, {
+      format: 'csv',
+      filename: options.filename || 'manpower_shortfalls',
+      includeTimestamp: options.includeTimestamp ?? true,
+      includeHeaders: options.includeHeaders ?? true,
+    });
+  }
+
+  /**
+   * Export the month-by-month manpower projection to CSV
+   */
+  exportManpowerProjection(months: ManpowerMonth[], options: Partial<ExportOptions> = {}): void {
+    const headers = [
+      { key: 'month' as const, label: 'Month' },
+      { key: 'aircraft' as const, label: 'Aircraft' },
+      { key: 'captains' as const, label: 'Captains' },
+      { key: 'captains_required' as const, label: 'Captains Required' },
+      { key: 'first_officers' as const, label: 'First Officers' },
+      { key: 'first_officers_required' as const, label: 'First Officers Required' },
+      { key: 'training_captains' as const, label: 'Training Captains' },
+      { key: 'training_captains_required' as const, label: 'Training Captains Required' },
+      { key: 'examiners' as const, label: 'Examiners' },
+      { key: 'examiners_required' as const, label: 'Examiners Required' },
+      { key: 'events' as const, label: 'Events' },
+    ];
+
+    const formattedData = months.map((month) => ({
+      month: month.month,
+      aircraft: month.numberOfAircraft,
+      captains: month.captains.available,
+      captains_required: month.captains.required,
+      first_officers: month.firstOfficers.available,
+      first_officers_required: month.firstOfficers.required,
+      training_captains: month.trainingCaptains.available,
+      training_captains_required: month.trainingCaptains.required,
+      examiners: month.examiners.available,
+      examiners_required: month.examiners.required,
+      events: month.events.map((event) => event.description).join('; '),
+    }));
+
+    this.csvExporter.export(formattedData, headers, {
+      format: 'csv',
+      filename: options.filename || 'manpower_projection',
+      includeTimestamp: options.includeTimestamp ?? true,
+      includeHeaders: options.includeHeaders ?? true,
+    });
+  }
+
   /**
    * Export generic data to CSV
    */
@@ -0,0 +1,520 @@
+/**
+ * @fileoverview Upgrade Pipeline Service
+ * Tracks First Officers through the upgrade to Captain: seniority-ordered eligibility per
+ * rank, nomination, stage progression, withdrawal and promotion. Every action is appended
+ * to upgrade_pipeline_events; promotion changes the pilot's role, recomputes the seniority
+ * number and records the before/after values.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { format } from 'date-fns';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import { calculateSeniorityNumber } from '@/lib/pilot-service';
+import { setAuditUserContext } from '@/lib/audit-integration';
+import {
+  UPGRADE_PATHS,
+  UPGRADE_STAGE_LABELS,
+  assessUpgradeEligibility,
+  canPromote,
+  compareSeniority,
+  nextUpgradeStage,
+  normalizeUpgradeCriteria,
+  type PilotRank,
+  type UpgradeCheck,
+  type UpgradeCriteria,
+  type UpgradeEligibility,
+  type UpgradeEventType,
+  type UpgradeStage,
+  type UpgradeStatus,
+} from '@/lib/upgrade-pipeline';
+import type { Json } from '@/lib/database.types';
+
+export const UPGRADE_CRITERIA_SETTING_KEY = 'upgrade_criteria';
+
+export interface UpgradeCandidate {
+  id: string;
+  pilot_id: string;
+  from_role: PilotRank;
+  to_role: PilotRank;
+  stage: UpgradeStage;
+  status: UpgradeStatus;
+  flight_hours: number | null;
+  notes: string | null;
+  nominated_by: string | null;
+  nominated_at: string;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpgradePipelineEvent {
+  id: string;
+  candidate_id: string;
+  pilot_id: string;
+  event_type: UpgradeEventType;
+  from_stage: string | null;
+  to_stage: string | null;
+  details: Record<string, unknown>;
+  notes: string | null;
+  performed_by: string | null;
+  created_at: string;
+  performed_by_user?: { name: string; email: string } | null;
+}
+
+export interface UpgradePipelineEntry {
+  pilot: {
+    id: string;
+    name: string;
+    employeeId: string;
+    role: PilotRank;
+    seniorityNumber: number | null;
+    commencementDate: string | null;
+  };
+  eligibility: UpgradeEligibility;
+  /** Active pipeline entry, if the pilot has been nominated */
+  candidate: UpgradeCandidate | null;
+}
+
+export interface UpgradePipelineRank {
+  rank: PilotRank;
+  targetRank: PilotRank;
+  pilots: UpgradePipelineEntry[];
+}
+
+export interface UpgradePipeline {
+  criteria: UpgradeCriteria;
+  asOf: string;
+  ranks: UpgradePipelineRank[];
+}
+
+interface ActionContext {
+  performedBy: string;
+  performedByEmail?: string;
+  notes?: string;
+}
+
+/**
+ * Eligibility criteria from the upgrade_criteria setting
+ */
+export async function getUpgradeCriteria(): Promise<UpgradeCriteria> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('settings')
+    .select('value')
+    .eq('key', UPGRADE_CRITERIA_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching upgrade criteria:', error);
+    throw new Error('Failed to fetch upgrade criteria');
+  }
+
+  return normalizeUpgradeCriteria(data?.value);
+}
+
+/**
+ * Current checks per pilot as { checkCode, expiryDate }
+ */
+async function getChecksByPilot(pilotIds: string[]): Promise<Map<string, UpgradeCheck[]>> {
+  const checks = new Map<string, UpgradeCheck[]>();
+  if (pilotIds.length === 0) return checks;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('pilot_checks')
+    .select('pilot_id, expiry_date, check_types (check_code)')
+    .in('pilot_id', pilotIds);
+
+  if (error) {
+    logger.error('Error fetching pilot checks for upgrade eligibility:', error);
+    throw new Error('Failed to fetch pilot checks');
+  }
+
+  for (const row of data || []) {
+    const checkType = row.check_types as unknown as { check_code: string } | null;
+    if (!checkType) continue;
+    const list = checks.get(row.pilot_id) || [];
+    list.push({ checkCode: checkType.check_code, expiryDate: row.expiry_date });
+    checks.set(row.pilot_id, list);
+  }
+
+  return checks;
+}
+
+async function getCandidate(candidateId: string): Promise<UpgradeCandidate> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('upgrade_candidates')
+    .select('*')
+    .eq('id', candidateId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching upgrade candidate:', error);
+    throw new Error('Failed to fetch upgrade candidate');
+  }
+  if (!data) {
+    throw new Error('Upgrade candidate not found');
+  }
+
+  return data as UpgradeCandidate;
+}
+
+async function updateCandidate(
+  candidateId: string,
+  changes: Partial<Pick<UpgradeCandidate, 'stage' | 'status' | 'flight_hours' | 'closed_at'>>
+): Promise<UpgradeCandidate> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('upgrade_candidates')
+    .update(changes)
+    .eq('id', candidateId)
+    .eq('status', 'ACTIVE')
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating upgrade candidate:', error);
+    throw new Error('Failed to update upgrade candidate');
+  }
+
+  return data as UpgradeCandidate;
+}
+
+async function recordEvent(
+  candidate: Pick<UpgradeCandidate, 'id' | 'pilot_id'>,
+  eventType: UpgradeEventType,
+  context: ActionContext,
+  event: { fromStage?: string | null; toStage?: string | null; details?: Record<string, unknown> }
+): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .from('upgrade_pipeline_events')
+    .insert({
+      candidate_id: candidate.id,
+      pilot_id: candidate.pilot_id,
+      event_type: eventType,
+      from_stage: event.fromStage ?? null,
+      to_stage: event.toStage ?? null,
+      details: (event.details || {}) as Json,
+      notes: context.notes || null,
+      performed_by: context.performedBy,
+    });
+
+  if (error) {
+    logger.error('Error recording upgrade pipeline event:', error);
+    throw new Error('Failed to record upgrade pipeline event');
+  }
+}
+
+function assertActive(candidate: UpgradeCandidate): void {
+  if (candidate.status !== 'ACTIVE') {
+    throw new Error(`This candidate has already been ${candidate.status.toLowerCase()}`);
+  }
+}
+
+/**
+ * Pilots of each upgradeable rank in seniority order, with eligibility and pipeline status
+ */
+export async function getUpgradePipeline(): Promise<UpgradePipeline> {
+  const supabase = getSupabaseAdmin();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const ranks = Object.keys(UPGRADE_PATHS) as PilotRank[];
+
+  const [criteria, pilotsResult, candidatesResult] = await Promise.all([
+    getUpgradeCriteria(),
+    supabase
+      .from('pilots')
+      .select('id, first_name, last_name, employee_id, role, seniority_number, commencement_date')
+      .eq('is_active', true)
+      .in('role', ranks),
+    supabase.from('upgrade_candidates').select('*').eq('status', 'ACTIVE'),
+  ]);
+
+  if (pilotsResult.error) {
+    logger.error('Error fetching pilots for upgrade pipeline:', pilotsResult.error);
+    throw new Error('Failed to fetch pilots data');
+  }
+  if (candidatesResult.error) {
+    logger.error('Error fetching upgrade candidates:', candidatesResult.error);
+    throw new Error('Failed to fetch upgrade candidates');
+  }
+
+  const pilots = pilotsResult.data || [];
+  const candidates = new Map(
+    ((candidatesResult.data || []) as UpgradeCandidate[]).map((c) => [c.pilot_id, c])
+  );
+  const checks = await getChecksByPilot(pilots.map((pilot) => pilot.id));
+
+  const entries: UpgradePipelineEntry[] = pilots.map((pilot) => {
+    const candidate = candidates.get(pilot.id) || null;
+    return {
+      pilot: {
+        id: pilot.id,
+        name: `${pilot.first_name} ${pilot.last_name}`,
+        employeeId: pilot.employee_id,
+        role: pilot.role as PilotRank,
+        seniorityNumber: pilot.seniority_number,
+        commencementDate: pilot.commencement_date,
+      },
+      eligibility: assessUpgradeEligibility(
+        {
+          commencementDate: pilot.commencement_date,
+          flightHours: candidate?.flight_hours ?? null,
+          checks: checks.get(pilot.id) || [],
+        },
+        criteria,
+        today
+      ),
+      candidate,
+    };
+  });
+
+  return {
+    criteria,
+    asOf: today,
+    ranks: ranks.map((rank) => ({
+      rank,
+      targetRank: UPGRADE_PATHS[rank] as PilotRank,
+      pilots: entries
+        .filter((entry) => entry.pilot.role === rank)
+        .sort((a, b) => compareSeniority(a.pilot, b.pilot)),
+    })),
+  };
+}
+
+/**
+ * Audit trail of one pipeline entry, oldest first
+ */
+export async function getUpgradePipelineEvents(
+  candidateId: string
+): Promise<UpgradePipelineEvent[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('upgrade_pipeline_events')
+    .select('*, performed_by_user:an_users!upgrade_pipeline_events_performed_by_fkey (name, email)')
+    .eq('candidate_id', candidateId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Error fetching upgrade pipeline events:', error);
+    throw new Error('Failed to fetch upgrade pipeline events');
+  }
+
+  return (data || []) as UpgradePipelineEvent[];
+}
+
+/**
+ * Nominate an eligible pilot for upgrade
+ * Flight hours are recorded on the candidate as they are not held elsewhere.
+ */
+export async function nominateUpgradeCandidate(
+  input: { pilotId: string; flightHours: number },
+  context: ActionContext
+): Promise<UpgradeCandidate> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: pilot, error: pilotError } = await supabase
+    .from('pilots')
+    .select('id, first_name, last_name, role, is_active, commencement_date')
+    .eq('id', input.pilotId)
+    .maybeSingle();
+
+  if (pilotError) {
+    logger.error('Error fetching pilot for nomination:', pilotError);
+    throw new Error('Failed to fetch pilot');
+  }
+  if (!pilot || !pilot.is_active) {
+    throw new Error('Pilot not found or inactive');
+  }
+
+  const targetRank = UPGRADE_PATHS[pilot.role as PilotRank];
+  if (!targetRank) {
+    throw new Error(`No upgrade path for ${pilot.role}`);
+  }
+
+  const [criteria, checks] = await Promise.all([
+    getUpgradeCriteria(),
+    getChecksByPilot([pilot.id]),
+  ]);
+  const eligibility = assessUpgradeEligibility(
+    {
+      commencementDate: pilot.commencement_date,
+      flightHours: input.flightHours,
+      checks: checks.get(pilot.id) || [],
+    },
+    criteria,
+    format(new Date(), 'yyyy-MM-dd')
+  );
+
+  if (!eligibility.eligible) {
+    const unmet = eligibility.criteria.filter((c) => !c.met).map((c) => `${c.label} (${c.detail})`);
+    throw new Error(`Pilot does not meet the upgrade criteria: ${unmet.join('; ')}`);
+  }
+
+  const { data, error } = await supabase
+    .from('upgrade_candidates')
+    .insert({
+      pilot_id: pilot.id,
+      from_role: pilot.role,
+      to_role: targetRank,
+      flight_hours: input.flightHours,
+      notes: context.notes || null,
+      nominated_by: context.performedBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('Pilot is already in the upgrade pipeline');
+    }
+    logger.error('Error nominating upgrade candidate:', error);
+    throw new Error('Failed to nominate upgrade candidate');
+  }
+
+  const candidate = data as UpgradeCandidate;
+  await recordEvent(candidate, 'NOMINATED', context, {
+    toStage: candidate.stage,
+    details: { criteria: { ...criteria }, eligibility: eligibility.criteria },
+  });
+
+  logger.info('Upgrade candidate nominated', { candidateId: candidate.id, pilotId: pilot.id });
+  return candidate;
+}
+
+/**
+ * Move a candidate to the next training stage
+ */
+export async function advanceUpgradeStage(
+  candidateId: string,
+  context: ActionContext
+): Promise<UpgradeCandidate> {
+  const candidate = await getCandidate(candidateId);
+  assertActive(candidate);
+
+  const next = nextUpgradeStage(candidate.stage);
+  if (!next) {
+    throw new Error(
+      `${UPGRADE_STAGE_LABELS[candidate.stage]} is the last stage - promote the candidate instead`
+    );
+  }
+
+  const updated = await updateCandidate(candidateId, { stage: next });
+  await recordEvent(candidate, 'STAGE_ADVANCED', context, {
+    fromStage: candidate.stage,
+    toStage: next,
+  });
+
+  logger.info('Upgrade candidate advanced', { candidateId, stage: next });
+  return updated;
+}
+
+/**
+ * Record a candidate's latest total flight hours
+ */
+export async function updateUpgradeCandidateHours(
+  candidateId: string,
+  flightHours: number,
+  context: ActionContext
+): Promise<UpgradeCandidate> {
+  const candidate = await getCandidate(candidateId);
+  assertActive(candidate);
+
+  const updated = await updateCandidate(candidateId, { flight_hours: flightHours });
+  await recordEvent(candidate, 'HOURS_UPDATED', context, {
+    details: { before: candidate.flight_hours, after: flightHours },
+  });
+
+  return updated;
+}
+
+/**
+ * Take a candidate out of the pipeline
+ */
+export async function withdrawUpgradeCandidate(
+  candidateId: string,
+  context: ActionContext
+): Promise<UpgradeCandidate> {
+  const candidate = await getCandidate(candidateId);
+  assertActive(candidate);
+
+  const updated = await updateCandidate(candidateId, {
+    status: 'WITHDRAWN',
+    closed_at: new Date().toISOString(),
+  });
+  await recordEvent(candidate, 'WITHDRAWN', context, { fromStage: candidate.stage });
+
+  logger.info('Upgrade candidate withdrawn', { candidateId });
+  return updated;
+}
+
+/**
+ * Promote a candidate who has passed the check to line
+ * Changes the pilot's role and recomputes the seniority number from the commencement date.
+ */
+export async function promoteUpgradeCandidate(
+  candidateId: string,
+  context: ActionContext
+): Promise<{ candidate: UpgradeCandidate; seniorityNumber: number | null }> {
+  const supabase = getSupabaseAdmin();
+  const candidate = await getCandidate(candidateId);
+
+  if (!canPromote(candidate)) {
+    assertActive(candidate);
+    throw new Error(
+      `Only candidates at ${UPGRADE_STAGE_LABELS.CHECK_TO_LINE} can be promoted (currently ${UPGRADE_STAGE_LABELS[candidate.stage]})`
+    );
+  }
+
+  const { data: pilot, error: pilotError } = await supabase
+    .from('pilots')
+    .select('id, role, seniority_number, commencement_date')
+    .eq('id', candidate.pilot_id)
+    .single();
+
+  if (pilotError || !pilot) {
+    logger.error('Error fetching pilot for promotion:', pilotError);
+    throw new Error('Failed to fetch pilot');
+  }
+  if (pilot.role !== candidate.from_role) {
+    throw new Error(`Pilot is no longer a ${candidate.from_role}`);
+  }
+
+  const seniorityNumber = pilot.commencement_date
+    ? await calculateSeniorityNumber(pilot.commencement_date, pilot.id)
+    : pilot.seniority_number;
+
+  if (context.performedByEmail) {
+    await setAuditUserContext(context.performedByEmail);
+  }
+
+  const { error: updateError } = await supabase
+    .from('pilots')
+    .update({ role: candidate.to_role, seniority_number: seniorityNumber })
+    .eq('id', pilot.id);
+
+  if (updateError) {
+    logger.error('Error promoting pilot:', updateError);
+    throw new Error('Failed to update pilot role');
+  }
+
+  const updated = await updateCandidate(candidateId, {
+    status: 'PROMOTED',
+    closed_at: new Date().toISOString(),
+  });
+  await recordEvent(candidate, 'PROMOTED', context, {
+    fromStage: candidate.stage,
+    details: {
+      role: { before: pilot.role, after: candidate.to_role },
+      seniorityNumber: { before: pilot.seniority_number, after: seniorityNumber },
+    },
+  });
+
+  logger.info('Pilot promoted through upgrade pipeline', {
+    candidateId,
+    pilotId: pilot.id,
+    role: candidate.to_role,
+    seniorityNumber,
+  });
+
+  return { candidate: updated, seniorityNumber };
+}
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Upgrade Pipeline Rules
+ * Eligibility criteria (years in service from commencement date, total flight hours and
+ * required checks current), the ordered training stages a candidate moves through
+ * (nominated, ground school, simulator, line training, check to line) and the
+ * seniority ordering of candidates per rank.
+ * Pure functions - data access lives in upgrade-pipeline-service.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { differenceInMonths, parseISO } from 'date-fns';
+
+export type PilotRank = 'Captain' | 'First Officer';
+
+export const UPGRADE_STAGES = [
+  'NOMINATED',
+  'GROUND_SCHOOL',
+  'SIMULATOR',
+  'LINE_TRAINING',
+  'CHECK_TO_LINE',
+] as const;
+
+export type UpgradeStage = (typeof UPGRADE_STAGES)[number];
+export type UpgradeStatus = 'ACTIVE' | 'PROMOTED' | 'WITHDRAWN';
+export type UpgradeEventType =
+  | 'NOMINATED'
+  | 'STAGE_ADVANCED'
+  | 'HOURS_UPDATED'
+  | 'WITHDRAWN'
+  | 'PROMOTED';
+
+export const UPGRADE_STAGE_LABELS: Record<UpgradeStage, string> = {
+  NOMINATED: 'Nominated',
+  GROUND_SCHOOL: 'Ground School',
+  SIMULATOR: 'Simulator',
+  LINE_TRAINING: 'Line Training',
+  CHECK_TO_LINE: 'Check to Line',
+};
+
+/** Rank each rank upgrades to */
+export const UPGRADE_PATHS: Partial<Record<PilotRank, PilotRank>> = {
+  'First Officer': 'Captain',
+};
+
+export interface UpgradeCriteria {
+  minYearsInService: number;
+  minFlightHours: number;
+  /** Check codes that must be current; empty means every recorded check must be current */
+  requiredCheckCodes: string[];
+}
+
+export const DEFAULT_UPGRADE_CRITERIA: UpgradeCriteria = {
+  minYearsInService: 5,
+  minFlightHours: 3000,
+  requiredCheckCodes: [],
+};
+
+export interface UpgradeCheck {
+  checkCode: string;
+  expiryDate: string | null;
+}
+
+export interface UpgradeCriterionResult {
+  key: 'years_in_service' | 'flight_hours' | 'checks_current';
+  label: string;
+  met: boolean;
+  detail: string;
+}
+
+export interface UpgradeEligibility {
+  eligible: boolean;
+  yearsInService: number | null;
+  criteria: UpgradeCriterionResult[];
+}
+
+/**
+ * Fill in missing or invalid criteria values from the defaults
+ */
+export function normalizeUpgradeCriteria(value: unknown): UpgradeCriteria {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<UpgradeCriteria>;
+  const nonNegative = (n: unknown, fallback: number) =>
+    typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : fallback;
+
+  return {
+    minYearsInService: nonNegative(
+      stored.minYearsInService,
+      DEFAULT_UPGRADE_CRITERIA.minYearsInService
+    ),
+    minFlightHours: nonNegative(stored.minFlightHours, DEFAULT_UPGRADE_CRITERIA.minFlightHours),
+    requiredCheckCodes: Array.isArray(stored.requiredCheckCodes)
+      ? stored.requiredCheckCodes.filter((code): code is string => typeof code === 'string')
+      : DEFAULT_UPGRADE_CRITERIA.requiredCheckCodes,
+  };
+}
+
+/**
+ * Completed years of service on a date (one decimal place)
+ */
+export function yearsInService(commencementDate: string | null, today: string): number | null {
+  if (!commencementDate) return null;
+  const months = differenceInMonths(parseISO(today), parseISO(commencementDate));
+  return Math.max(0, Math.floor((months / 12) * 10) / 10);
+}
+
+/**
+ * Assess a pilot against the upgrade criteria on a date (yyyy-MM-dd)
+ */
+export function assessUpgradeEligibility(
+  pilot: { commencementDate: string | null; flightHours: number | null; checks: UpgradeCheck[] },
+  criteria: UpgradeCriteria,
+  today: string
+): UpgradeEligibility {
+  const years = yearsInService(pilot.commencementDate, today);
+
+  const serviceResult: UpgradeCriterionResult = {
+    key: 'years_in_service',
+    label: `${criteria.minYearsInService}+ years in service`,
+    met: years !== null && years >= criteria.minYearsInService,
+    detail: years === null ? 'No commencement date recorded' : `${years} years`,
+  };
+
+  const hoursResult: UpgradeCriterionResult = {
+    key: 'flight_hours',
+    label: `${criteria.minFlightHours}+ flight hours`,
+    met: pilot.flightHours !== null && pilot.flightHours >= criteria.minFlightHours,
+    detail: pilot.flightHours === null ? 'No flight hours recorded' : `${pilot.flightHours} hours`,
+  };
+
+  const isCurrent = (check: UpgradeCheck) => check.expiryDate !== null && check.expiryDate >= today;
+  let checksResult: UpgradeCriterionResult;
+
+  if (criteria.requiredCheckCodes.length === 0) {
+    const lapsed = pilot.checks.filter((check) => !isCurrent(check)).map((c) => c.checkCode);
+    checksResult = {
+      key: 'checks_current',
+      label: 'All checks current',
+      met: lapsed.length === 0,
+      detail: lapsed.length === 0 ? 'All checks current' : `Not current: ${lapsed.join(', ')}`,
+    };
+  } else {
+    const missing = criteria.requiredCheckCodes.filter(
+      (code) => !pilot.checks.some((check) => check.checkCode === code && isCurrent(check))
+    );
+    checksResult = {
+      key: 'checks_current',
+      label: `Current: ${criteria.requiredCheckCodes.join(', ')}`,
+      met: missing.length === 0,
+      detail:
+        missing.length === 0
+          ? 'Required checks current'
+          : `Missing or expired: ${missing.join(', ')}`,
+    };
+  }
+
+  const results = [serviceResult, hoursResult, checksResult];
+  return {
+    eligible: results.every((result) => result.met),
+    yearsInService: years,
+    criteria: results,
+  };
+}
+
+/**
+ * Stage after the given one, or null at the last stage
+ */
+export function nextUpgradeStage(stage: UpgradeStage): UpgradeStage | null {
+  return UPGRADE_STAGES[UPGRADE_STAGES.indexOf(stage) + 1] ?? null;
+}
+
+/**
+ * A candidate can be promoted once they are active at the check-to-line stage
+ */
+export function canPromote(candidate: { status: UpgradeStatus; stage: UpgradeStage }): boolean {
+  return candidate.status === 'ACTIVE' && candidate.stage === 'CHECK_TO_LINE';
+}
+
+/**
+ * Seniority order: lower seniority number first (pilots without one last), then name
+ */
+export function compareSeniority(
+  a: { seniorityNumber: number | null; name: string },
+  b: { seniorityNumber: number | null; name: string }
+): number {
+  return (
+    (a.seniorityNumber ?? Infinity) - (b.seniorityNumber ?? Infinity) ||
+    a.name.localeCompare(b.name)
+  );
+}
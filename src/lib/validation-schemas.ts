@@ -8,6 +8,9 @@
  */
 
 import { z } from 'zod';
+import { RECURRENCE_FREQUENCIES } from './task-recurrence';
+import { NOTIFICATION_TYPE_NAMES, type NotificationType } from './notification-catalogue';
+import { EMAIL_TEMPLATE_KEYS, type EmailTemplateKey } from './email-templates';
 
 // =============================================================================
 // PILOT VALIDATION SCHEMAS
@@ -254,6 +257,120 @@ export const settingsSchema = z.object({
   description: z.string().max(500, 'Description must be 500 characters or less').optional(),
 });
 
+// =============================================================================
+// TASK VALIDATION SCHEMAS
+// =============================================================================
+
+/**
+ * Recurring task schedule (see task-recurrence)
+ */
+export const recurrencePatternSchema = z.object({
+  frequency: z.enum(RECURRENCE_FREQUENCIES),
+  interval: z.number().int().min(1).max(365),
+  by_weekday: z.array(z.number().int().min(1).max(7)).max(7).optional(),
+  by_month_day: z
+    .array(
+      z
+        .number()
+        .int()
+        .min(-1, 'Use -1 for the last day of the month')
+        .max(31)
+        .refine((day) => day !== 0, 'Use -1 for the last day of the month')
+    )
+    .max(31)
+    .optional(),
+  roster_offset_days: z.number().int().min(-27).max(27).optional(),
+  end_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'End date must be in YYYY-MM-DD format')
+    .optional(),
+  count: z.number().int().min(1).max(1000).optional(),
+});
+
+// =============================================================================
+// NOTIFICATION PREFERENCE SCHEMAS
+// =============================================================================
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, 'Time must be in HH:mm format');
+
+/**
+ * Notification preference update schema (staff and pilot portal)
+ */
+export const notificationPreferencesSchema = z
+  .object({
+    in_app_enabled: z.boolean(),
+    email_enabled: z.boolean(),
+    email_address: z.string().email('Invalid email address').nullable(),
+    sms_enabled: z.boolean(),
+    phone_number: z
+      .string()
+      .regex(/^\+?[\d\s-]{6,20}$/, 'Invalid phone number')
+      .nullable(),
+    push_enabled: z.boolean(),
+    certification_expiry_alerts: z.boolean(),
+    certification_expiry_days: z.number().int().min(1).max(365),
+    leave_request_alerts: z.boolean(),
+    leave_approval_alerts: z.boolean(),
+    system_notifications: z.boolean(),
+    daily_digest: z.boolean(),
+    digest_time: timeOfDay,
+    quiet_hours_start: timeOfDay.nullable(),
+    quiet_hours_end: timeOfDay.nullable(),
+    channel_overrides: z.partialRecord(
+      z.enum(NOTIFICATION_TYPE_NAMES as [NotificationType, ...NotificationType[]]),
+      z.array(z.enum(['in_app', 'email', 'sms', 'push']))
+    ),
+    language: z.enum(['en', 'tpi']),
+  })
+  .partial()
+  .refine((prefs) => !prefs.quiet_hours_start === !prefs.quiet_hours_end, {
+    message: 'Quiet hours need both a start and an end time',
+    path: ['quiet_hours_end'],
+  });
+
+const emailTemplateKey = z.enum(EMAIL_TEMPLATE_KEYS as [EmailTemplateKey, ...EmailTemplateKey[]]);
+const emailLocale = z.enum(['en', 'tpi']);
+
+const emailTemplateContent = {
+  subject: z.string().max(300),
+  html: z.string().max(100000),
+  text: z.string().max(50000),
+};
+
+const emailTemplateDraft = z.object({
+  ...emailTemplateContent,
+  translations: z.object({ tpi: z.object(emailTemplateContent).partial().optional() }).default({}),
+});
+
+/**
+ * Email template edit schema (admin template editor)
+ */
+export const emailTemplateEditSchema = emailTemplateDraft.extend({ key: emailTemplateKey });
+
+/**
+ * Email template preview schema; draft is the unsaved content in the editor
+ */
+export const emailTemplatePreviewSchema = z.object({
+  key: emailTemplateKey,
+  locale: emailLocale.default('en'),
+  draft: emailTemplateDraft.optional(),
+  variables: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()]))
+    .optional(),
+});
+
+/**
+ * Email template test send schema
+ */
+export const emailTemplateTestSendSchema = z.object({
+  key: emailTemplateKey,
+  locale: emailLocale.default('en'),
+  to: z.string().email('Invalid email address'),
+  draft: emailTemplateDraft.optional(),
+});
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -1,531 +1,587 @@
 /**
- * Webhook Service
- * Air Niugini Pilot Management System
+ * @fileoverview Webhook Service
+ * Webhook subscriptions (webhooks), deliveries of emitted domain events
+ * (webhook_deliveries) and the HTTP attempts made for them (webhook_delivery_attempts).
+ * Emitting an event only queues one delivery per subscribed webhook, so a slow subscriber
+ * never holds up the request that emitted it. The process-queue cron job sends queued
+ * deliveries and retries failures with exponential backoff until the webhook's
+ * max_attempts, after which they can be replayed. Payloads are signed as
+ * documented in webhook-signature.
  *
- * Event-driven webhook system for external integrations
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
  */
 
-import { getSupabaseAdmin } from './supabase';
-import { nanoid } from 'nanoid';
-
-export type WebhookEvent =
-  | 'pilot.created'
-  | 'pilot.updated'
-  | 'pilot.deleted'
-  | 'certification.created'
-  | 'certification.updated'
-  | 'certification.expiring'
-  | 'certification.expired'
-  | 'leave.created'
-  | 'leave.updated'
-  | 'leave.approved'
-  | 'leave.rejected'
-  | 'system.alert'
-  | 'backup.completed'
-  | 'backup.failed';
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import type { Json } from '@/lib/database.types';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+  retryDelayMs,
+  signWebhookPayload,
+} from '@/lib/webhook-signature';
+
+export const WEBHOOK_EVENTS = [
+  'pilot.created',
+  'pilot.updated',
+  'pilot.deleted',
+  'certification.created',
+  'certification.updated',
+  'certification.expiring',
+  'certification.expired',
+  'leave.created',
+  'leave.updated',
+  'leave.approved',
+  'leave.rejected',
+  'leave.cancelled',
+  'system.alert',
+  'backup.completed',
+  'backup.failed',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'success' | 'failed';
+
+/** Response bodies are stored up to this length */
+const MAX_RESPONSE_BODY = 2000;
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/** Columns returned for webhooks everywhere except creation and secret rotation */
+const WEBHOOK_COLUMNS =
+  'id, url, events, active, description, headers, max_attempts, last_triggered_at, created_by, created_at, updated_at';
 
 export interface Webhook {
   id: string;
   url: string;
   events: WebhookEvent[];
-  secret: string;
   active: boolean;
-  description?: string;
-  headers?: Record<string, string>;
-  retryCount: number;
-  lastTriggered?: Date;
-  createdAt: Date;
-  updatedAt: Date;
-  createdBy: string;
+  description: string | null;
+  headers: Record<string, string>;
+  max_attempts: number;
+  last_triggered_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
 }
 
 export interface WebhookPayload {
   id: string;
   event: WebhookEvent;
-  timestamp: Date;
-  data: any;
-  signature: string;
+  created_at: string;
+  data: Record<string, unknown>;
 }
 
 export interface WebhookDelivery {
   id: string;
-  webhookId: string;
+  webhook_id: string;
+  event_id: string;
   event: WebhookEvent;
   payload: WebhookPayload;
-  status: 'pending' | 'success' | 'failed' | 'retrying';
+  status: WebhookDeliveryStatus;
   attempts: number;
-  lastAttempt?: Date;
-  nextRetry?: Date;
-  responseCode?: number;
-  responseBody?: string;
-  error?: string;
-  createdAt: Date;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_code: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
-export interface WebhookLog {
+export interface WebhookDeliveryAttempt {
   id: string;
-  webhookId: string;
-  deliveryId: string;
-  event: WebhookEvent;
-  status: 'success' | 'failed';
-  duration: number; // ms
-  statusCode?: number;
-  error?: string;
-  timestamp: Date;
+  delivery_id: string;
+  webhook_id: string;
+  success: boolean;
+  response_code: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number;
+  attempted_at: string;
 }
 
-/**
- * Webhook Service Class
- */
-export class WebhookService {
-  private static instance: WebhookService;
-  private webhooks: Map<string, Webhook> = new Map();
-  private deliveryQueue: WebhookDelivery[] = [];
-  private logs: WebhookLog[] = [];
-  private maxLogSize = 1000;
-  private processingInterval?: NodeJS.Timeout;
-
-  private constructor() {
-    // Start processing queue
-    this.startQueueProcessor();
-  }
+export interface WebhookInput {
+  url: string;
+  events: WebhookEvent[];
+  description?: string | null;
+  headers?: Record<string, string>;
+  max_attempts?: number;
+  active?: boolean;
+}
 
-  /**
-   * Get singleton instance
-   */
-  static getInstance(): WebhookService {
-    if (!WebhookService.instance) {
-      WebhookService.instance = new WebhookService();
-    }
-    return WebhookService.instance;
-  }
+export interface WebhookDeliveryFilters {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEvent;
+  limit?: number;
+}
 
-  /**
-   * Register a new webhook
-   */
-  async registerWebhook(config: {
-    url: string;
-    events: WebhookEvent[];
-    description?: string;
-    headers?: Record<string, string>;
-    createdBy: string;
-  }): Promise<Webhook> {
-    const webhook: Webhook = {
-      id: nanoid(),
-      url: config.url,
-      events: config.events,
-      secret: this.generateSecret(),
-      active: true,
-      description: config.description,
-      headers: config.headers,
-      retryCount: 3,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      createdBy: config.createdBy,
-    };
+export interface WebhookStats {
+  totalDeliveries: number;
+  successfulDeliveries: number;
+  failedDeliveries: number;
+  pendingDeliveries: number;
+  averageResponseTime: number;
+  successRate: number;
+}
 
-    this.webhooks.set(webhook.id, webhook);
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
 
-    // Persist to database (in production)
-    // await this.saveWebhookToDatabase(webhook);
+export async function listWebhooks(): Promise<Webhook[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .order('created_at', { ascending: false });
 
-    return webhook;
+  if (error) {
+    logger.error('Error fetching webhooks:', error);
+    throw new Error('Failed to fetch webhooks');
   }
 
-  /**
-   * Update webhook configuration
-   */
-  async updateWebhook(
-    id: string,
-    updates: Partial<Pick<Webhook, 'url' | 'events' | 'active' | 'description' | 'headers'>>
-  ): Promise<Webhook> {
-    const webhook = this.webhooks.get(id);
-    if (!webhook) {
-      throw new Error('Webhook not found');
-    }
-
-    const updated: Webhook = {
-      ...webhook,
-      ...updates,
-      updatedAt: new Date(),
-    };
+  return (data || []) as Webhook[];
+}
 
-    this.webhooks.set(id, updated);
-    return updated;
-  }
+export async function getWebhook(id: string): Promise<Webhook | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhooks')
+    .select(WEBHOOK_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
 
-  /**
-   * Delete webhook
-   */
-  async deleteWebhook(id: string): Promise<void> {
-    this.webhooks.delete(id);
+  if (error) {
+    logger.error('Error fetching webhook:', error);
+    throw new Error('Failed to fetch webhook');
   }
 
-  /**
-   * Get webhook by ID
-   */
-  getWebhook(id: string): Webhook | undefined {
-    return this.webhooks.get(id);
-  }
+  return data as Webhook | null;
+}
 
-  /**
-   * List all webhooks
-   */
-  listWebhooks(): Webhook[] {
-    return Array.from(this.webhooks.values());
+/**
+ * Registers a webhook; the returned secret is not retrievable afterwards
+ */
+export async function registerWebhook(
+  input: WebhookInput,
+  createdBy: string
+): Promise<WebhookWithSecret> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhooks')
+    .insert({
+      ...input,
+      secret: generateWebhookSecret(),
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error registering webhook:', error);
+    throw new Error(`Failed to register webhook: ${error.message}`);
   }
 
-  /**
-   * Trigger webhook event
-   */
-  async triggerEvent(event: WebhookEvent, data: any): Promise<void> {
-    // Find all webhooks subscribed to this event
-    const subscribedWebhooks = Array.from(this.webhooks.values()).filter(
-      (webhook) => webhook.active && webhook.events.includes(event)
-    );
-
-    if (subscribedWebhooks.length === 0) {
-      return;
-    }
-
-    // Create payload
-    const payload: WebhookPayload = {
-      id: nanoid(),
-      event,
-      timestamp: new Date(),
-      data,
-      signature: '', // Will be set per webhook
-    };
-
-    // Queue deliveries for each webhook
-    for (const webhook of subscribedWebhooks) {
-      const delivery: WebhookDelivery = {
-        id: nanoid(),
-        webhookId: webhook.id,
-        event,
-        payload: {
-          ...payload,
-          signature: this.generateSignature(payload, webhook.secret),
-        },
-        status: 'pending',
-        attempts: 0,
-        createdAt: new Date(),
-      };
-
-      this.deliveryQueue.push(delivery);
-    }
+  return data as WebhookWithSecret;
+}
 
-    // Process queue immediately
-    this.processQueue();
+/**
+ * Updates a webhook; with rotateSecret a new secret is issued and returned
+ */
+export async function updateWebhook(
+  id: string,
+  updates: Partial<WebhookInput>,
+  rotateSecret = false
+): Promise<Webhook | WebhookWithSecret> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhooks')
+    .update({
+      ...updates,
+      ...(rotateSecret && { secret: generateWebhookSecret() }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select(rotateSecret ? '*' : WEBHOOK_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error('Error updating webhook:', error);
+    throw new Error(`Failed to update webhook: ${error.message}`);
   }
 
-  /**
-   * Start queue processor
-   */
-  private startQueueProcessor(): void {
-    // Process queue every 10 seconds
-    this.processingInterval = setInterval(() => {
-      this.processQueue();
-    }, 10000);
-  }
+  return data as unknown as Webhook | WebhookWithSecret;
+}
 
-  /**
-   * Process delivery queue
-   */
-  private async processQueue(): Promise<void> {
-    const pendingDeliveries = this.deliveryQueue.filter(
-      (d) => d.status === 'pending' || d.status === 'retrying'
-    );
+export async function deleteWebhook(id: string): Promise<void> {
+  const { error } = await getSupabaseAdmin().from('webhooks').delete().eq('id', id);
 
-    for (const delivery of pendingDeliveries) {
-      await this.deliverWebhook(delivery);
-    }
+  if (error) {
+    logger.error('Error deleting webhook:', error);
+    throw new Error('Failed to delete webhook');
   }
+}
 
-  /**
-   * Deliver webhook to endpoint
-   */
-  private async deliverWebhook(delivery: WebhookDelivery): Promise<void> {
-    const webhook = this.webhooks.get(delivery.webhookId);
-    if (!webhook || !webhook.active) {
-      delivery.status = 'failed';
-      delivery.error = 'Webhook not found or inactive';
-      return;
-    }
+/**
+ * Delivery outcomes and average response time over the last 30 days
+ */
+export async function getWebhookStats(webhookId: string): Promise<WebhookStats> {
+  const supabase = getSupabaseAdmin();
+  const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+  const [deliveriesResult, attemptsResult] = await Promise.all([
+    supabase
+      .from('webhook_deliveries')
+      .select('status')
+      .eq('webhook_id', webhookId)
+      .gte('created_at', since),
+    supabase
+      .from('webhook_delivery_attempts')
+      .select('duration_ms')
+      .eq('webhook_id', webhookId)
+      .eq('success', true)
+      .gte('attempted_at', since),
+  ]);
+
+  if (deliveriesResult.error || attemptsResult.error) {
+    logger.error('Error fetching webhook stats:', deliveriesResult.error || attemptsResult.error);
+    throw new Error('Failed to fetch webhook stats');
+  }
 
-    delivery.attempts++;
-    delivery.lastAttempt = new Date();
+  const statuses = (deliveriesResult.data || []).map((delivery) => delivery.status);
+  const count = (status: WebhookDeliveryStatus) => statuses.filter((s) => s === status).length;
+  const successful = count('success');
+  const failed = count('failed');
+  const durations = (attemptsResult.data || []).map((attempt) => attempt.duration_ms);
+
+  return {
+    totalDeliveries: statuses.length,
+    successfulDeliveries: successful,
+    failedDeliveries: failed,
+    pendingDeliveries: statuses.length - successful - failed,
+    averageResponseTime:
+      durations.length > 0
+        ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
+        : 0,
+    successRate: successful + failed > 0 ? (successful / (successful + failed)) * 100 : 0,
+  };
+}
 
-    const startTime = Date.now();
+// ============================================================================
+// DELIVERY
+// ============================================================================
 
+/**
+ * POSTs a delivery to its webhook and records the attempt. A failure schedules
+ * a retry until max_attempts is reached, then marks the delivery failed.
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: WebhookWithSecret
+): Promise<WebhookDelivery> {
+  const supabase = getSupabaseAdmin();
+  const body = JSON.stringify(delivery.payload);
+  const startTime = Date.now();
+
+  let responseCode: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  if (!webhook.active) {
+    errorMessage = 'Webhook is inactive';
+  } else {
     try {
       const response = await fetch(webhook.url, {
         method: 'POST',
         headers: {
+          ...webhook.headers,
           'Content-Type': 'application/json',
-          'X-Webhook-Signature': delivery.payload.signature,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            webhook.secret,
+            body,
+            Math.floor(Date.now() / 1000)
+          ),
           'X-Webhook-Event': delivery.event,
-          'X-Webhook-ID': delivery.id,
-          ...webhook.headers,
+          'X-Webhook-Delivery': delivery.id,
         },
-        body: JSON.stringify(delivery.payload),
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
       });
 
-      const duration = Date.now() - startTime;
-      delivery.responseCode = response.status;
-
-      if (response.ok) {
-        delivery.status = 'success';
-        delivery.responseBody = await response.text();
+      responseCode = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+      if (!response.ok) {
+        errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Delivery failed';
+    }
+  }
 
-        // Update webhook last triggered
-        webhook.lastTriggered = new Date();
-        this.webhooks.set(webhook.id, webhook);
+  const durationMs = Date.now() - startTime;
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
 
-        // Log success
-        this.logDelivery(delivery, duration, 'success');
-      } else {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-    } catch (error: any) {
-      delivery.error = error.message;
-
-      // Retry logic
-      if (delivery.attempts < webhook.retryCount) {
-        delivery.status = 'retrying';
-        delivery.nextRetry = new Date(Date.now() + this.getRetryDelay(delivery.attempts));
-      } else {
-        delivery.status = 'failed';
-      }
+  let status: WebhookDeliveryStatus = 'success';
+  if (errorMessage) {
+    status = webhook.active && attempts < webhook.max_attempts ? 'retrying' : 'failed';
+  }
 
-      // Log failure
-      this.logDelivery(delivery, Date.now() - startTime, 'failed');
-    }
+  const { error: attemptError } = await supabase.from('webhook_delivery_attempts').insert({
+    delivery_id: delivery.id,
+    webhook_id: webhook.id,
+    success: !errorMessage,
+    response_code: responseCode,
+    response_body: responseBody,
+    error: errorMessage,
+    duration_ms: durationMs,
+    attempted_at: now.toISOString(),
+  });
+
+  if (attemptError) {
+    logger.error('Error recording webhook delivery attempt:', attemptError);
   }
 
-  /**
-   * Get retry delay (exponential backoff)
-   */
-  private getRetryDelay(attempt: number): number {
-    return Math.min(1000 * Math.pow(2, attempt), 60000); // Max 1 minute
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at:
+        status === 'retrying'
+          ? new Date(now.getTime() + retryDelayMs(attempts)).toISOString()
+          : null,
+      response_code: responseCode,
+      error: errorMessage,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Error updating webhook delivery:', error);
+    throw new Error('Failed to update webhook delivery');
   }
 
-  /**
-   * Log delivery attempt
-   */
-  private logDelivery(
-    delivery: WebhookDelivery,
-    duration: number,
-    status: 'success' | 'failed'
-  ): void {
-    const log: WebhookLog = {
-      id: nanoid(),
-      webhookId: delivery.webhookId,
+  if (status === 'success') {
+    await supabase
+      .from('webhooks')
+      .update({ last_triggered_at: now.toISOString() })
+      .eq('id', webhook.id);
+  } else {
+    logger.warn('Webhook delivery attempt failed', {
       deliveryId: delivery.id,
+      webhookId: webhook.id,
       event: delivery.event,
+      attempts,
       status,
-      duration,
-      statusCode: delivery.responseCode,
-      error: delivery.error,
-      timestamp: new Date(),
-    };
+      error: errorMessage,
+    });
+  }
 
-    this.logs.push(log);
+  return data as unknown as WebhookDelivery;
+}
 
-    // Trim logs if needed
-    if (this.logs.length > this.maxLogSize) {
-      this.logs = this.logs.slice(-this.maxLogSize);
-    }
-  }
+/**
+ * Emits a domain event by queueing a delivery for every active webhook subscribed to it;
+ * the process-queue cron job sends them.
+ * Never throws: a failing integration must not fail the mutation that emitted the event.
+ */
+export async function triggerWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data: webhooks, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('active', true)
+      .contains('events', [event]);
+
+    if (error) throw error;
+    if (!webhooks || webhooks.length === 0) return;
 
-  /**
-   * Get webhook logs
-   */
-  getWebhookLogs(webhookId: string, limit: number = 50): WebhookLog[] {
-    return this.logs
-      .filter((log) => log.webhookId === webhookId)
-      .slice(-limit)
-      .reverse();
-  }
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      event,
+      created_at: new Date().toISOString(),
+      data,
+    };
 
-  /**
-   * Get all logs
-   */
-  getAllLogs(limit: number = 100): WebhookLog[] {
-    return this.logs.slice(-limit).reverse();
-  }
+    const { error: insertError } = await supabase.from('webhook_deliveries').insert(
+      webhooks.map((webhook) => ({
+        webhook_id: webhook.id,
+        event_id: payload.id,
+        event,
+        payload: payload as unknown as Json,
+        status: 'pending',
+        next_attempt_at: payload.created_at,
+      }))
+    );
 
-  /**
-   * Get delivery status
-   */
-  getDeliveryStatus(deliveryId: string): WebhookDelivery | undefined {
-    return this.deliveryQueue.find((d) => d.id === deliveryId);
+    if (insertError) throw insertError;
+  } catch (error) {
+    logger.error('Error emitting webhook event', { event, error });
   }
+}
 
-  /**
-   * Get webhook statistics
-   */
-  getWebhookStats(webhookId: string): {
-    totalDeliveries: number;
-    successfulDeliveries: number;
-    failedDeliveries: number;
-    averageResponseTime: number;
-    successRate: number;
-  } {
-    const logs = this.logs.filter((log) => log.webhookId === webhookId);
-
-    const successful = logs.filter((log) => log.status === 'success');
-    const failed = logs.filter((log) => log.status === 'failed');
-
-    const averageResponseTime =
-      successful.length > 0
-        ? successful.reduce((sum, log) => sum + log.duration, 0) / successful.length
-        : 0;
-
-    return {
-      totalDeliveries: logs.length,
-      successfulDeliveries: successful.length,
-      failedDeliveries: failed.length,
-      averageResponseTime,
-      successRate: logs.length > 0 ? (successful.length / logs.length) * 100 : 0,
-    };
+/**
+ * Attempts queued deliveries and retries that are due; run by the process-queue cron job
+ */
+export async function processWebhookDeliveries(
+  limit: number = 50
+): Promise<{ attempted: number; succeeded: number; failed: number }> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhook_deliveries')
+    .select('*, webhook:webhooks(*)')
+    .in('status', ['pending', 'retrying'])
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Error fetching due webhook deliveries:', error);
+    throw new Error('Failed to fetch due webhook deliveries');
   }
 
-  /**
-   * Generate webhook secret
-   */
-  private generateSecret(): string {
-    return nanoid(32);
+  const result = { attempted: 0, succeeded: 0, failed: 0 };
+
+  for (const row of data || []) {
+    const { webhook, ...delivery } = row as unknown as WebhookDelivery & {
+      webhook: WebhookWithSecret;
+    };
+    const updated = await attemptDelivery(delivery, webhook);
+    result.attempted++;
+    if (updated.status === 'success') result.succeeded++;
+    if (updated.status === 'failed') result.failed++;
   }
 
-  /**
-   * Generate HMAC signature for payload
-   */
-  private generateSignature(payload: WebhookPayload, secret: string): string {
-    // In production, use proper HMAC-SHA256
-    // For now, simple hash
-    const data = JSON.stringify({
-      id: payload.id,
-      event: payload.event,
-      timestamp: payload.timestamp,
-      data: payload.data,
-    });
+  return result;
+}
 
-    // Simplified signature (use crypto.createHmac in production)
-    return Buffer.from(`${secret}:${data}`).toString('base64');
-  }
+export async function getWebhookDeliveries(
+  filters: WebhookDeliveryFilters = {}
+): Promise<WebhookDelivery[]> {
+  let query = getSupabaseAdmin()
+    .from('webhook_deliveries')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit || 100);
 
-  /**
-   * Verify webhook signature
-   */
-  verifySignature(payload: WebhookPayload, signature: string, secret: string): boolean {
-    const expectedSignature = this.generateSignature(payload, secret);
-    return signature === expectedSignature;
-  }
+  if (filters.webhookId) query = query.eq('webhook_id', filters.webhookId);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.event) query = query.eq('event', filters.event);
 
-  /**
-   * Test webhook endpoint
-   */
-  async testWebhook(webhookId: string): Promise<{
-    success: boolean;
-    responseTime: number;
-    statusCode?: number;
-    error?: string;
-  }> {
-    const webhook = this.webhooks.get(webhookId);
-    if (!webhook) {
-      return {
-        success: false,
-        responseTime: 0,
-        error: 'Webhook not found',
-      };
-    }
+  const { data, error } = await query;
 
-    const testPayload: WebhookPayload = {
-      id: nanoid(),
-      event: 'system.alert',
-      timestamp: new Date(),
-      data: {
-        message: 'This is a test webhook delivery',
-      },
-      signature: this.generateSignature(
-        {
-          id: 'test',
-          event: 'system.alert',
-          timestamp: new Date(),
-          data: { message: 'test' },
-        } as WebhookPayload,
-        webhook.secret
-      ),
-    };
+  if (error) {
+    logger.error('Error fetching webhook deliveries:', error);
+    throw new Error('Failed to fetch webhook deliveries');
+  }
 
-    const startTime = Date.now();
+  return (data || []) as unknown as WebhookDelivery[];
+}
 
-    try {
-      const response = await fetch(webhook.url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Webhook-Signature': testPayload.signature,
-          'X-Webhook-Event': 'system.alert',
-          'X-Webhook-ID': 'test',
-          ...webhook.headers,
-        },
-        body: JSON.stringify(testPayload),
-      });
+export async function getDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhook_delivery_attempts')
+    .select('*')
+    .eq('delivery_id', deliveryId)
+    .order('attempted_at', { ascending: false });
 
-      const responseTime = Date.now() - startTime;
-
-      return {
-        success: response.ok,
-        responseTime,
-        statusCode: response.status,
-        error: response.ok ? undefined : `HTTP ${response.status}`,
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        responseTime: Date.now() - startTime,
-        error: error.message,
-      };
-    }
+  if (error) {
+    logger.error('Error fetching webhook delivery attempts:', error);
+    throw new Error('Failed to fetch webhook delivery attempts');
   }
 
-  /**
-   * Clean up
-   */
-  destroy(): void {
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-    }
-  }
+  return data || [];
 }
 
 /**
- * Singleton instance
+ * Re-sends a finished delivery with a fresh signature and a new attempt budget
  */
-export const webhookService = WebhookService.getInstance();
+export async function replayWebhookDelivery(deliveryId: string): Promise<WebhookDelivery> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('webhook_deliveries')
+    .select('*, webhook:webhooks(*)')
+    .eq('id', deliveryId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching webhook delivery:', error);
+    throw new Error('Failed to fetch webhook delivery');
+  }
+  if (!data) {
+    throw new Error('Webhook delivery not found');
+  }
 
-/**
- * Helper functions
- */
+  const { webhook, ...delivery } = data as unknown as WebhookDelivery & {
+    webhook: WebhookWithSecret;
+  };
 
-export async function registerWebhook(config: {
-  url: string;
-  events: WebhookEvent[];
-  description?: string;
-  headers?: Record<string, string>;
-  createdBy: string;
-}): Promise<Webhook> {
-  return webhookService.registerWebhook(config);
-}
+  if (delivery.status === 'pending' || delivery.status === 'retrying') {
+    throw new Error('Delivery is still being retried');
+  }
+  if (!webhook.active) {
+    throw new Error('Webhook is inactive');
+  }
 
-export async function triggerWebhookEvent(event: WebhookEvent, data: any): Promise<void> {
-  return webhookService.triggerEvent(event, data);
+  return attemptDelivery({ ...delivery, attempts: 0 }, webhook);
 }
 
-export function getWebhookStats(webhookId: string) {
-  return webhookService.getWebhookStats(webhookId);
-}
+/**
+ * Sends a system.alert test event to a single webhook
+ */
+export async function sendTestWebhook(webhookId: string): Promise<WebhookDelivery> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: webhook, error } = await supabase
+    .from('webhooks')
+    .select('*')
+    .eq('id', webhookId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error fetching webhook:', error);
+    throw new Error('Failed to fetch webhook');
+  }
+  if (!webhook) {
+    throw new Error('Webhook not found');
+  }
 
-export default webhookService;
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    event: 'system.alert',
+    created_at: new Date().toISOString(),
+    data: { test: true, message: 'This is a test webhook delivery' },
+  };
+
+  const { data: delivery, error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      webhook_id: webhookId,
+      event_id: payload.id,
+      event: payload.event,
+      payload: payload as unknown as Json,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    logger.error('Error queuing test webhook delivery:', insertError);
+    throw new Error('Failed to queue test delivery');
+  }
+
+  return attemptDelivery(delivery as unknown as WebhookDelivery, {
+    ...(webhook as unknown as WebhookWithSecret),
+    max_attempts: 1,
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Webhook Payload Signing
+ * HMAC-SHA256 signatures for outgoing webhook deliveries and the retry schedule.
+ * Pure functions - persistence and delivery live in webhook-service.
+ *
+ * Verification scheme for receivers:
+ * 1. Read the raw request body (before any JSON parsing) and the
+ *    `X-Webhook-Signature` header, which has the form `t=<unix seconds>,v1=<hex>`.
+ * 2. Compute HMAC-SHA256 over `${t}.${rawBody}` keyed with the webhook secret and
+ *    hex-encode it.
+ * 3. Compare it with `v1` in constant time, and reject the request if `t` is more
+ *    than five minutes from the receiver's clock (replay protection).
+ * Each attempt is signed afresh, so a retried or replayed delivery carries a new `t`.
+ * `X-Webhook-Delivery` identifies the delivery and the body's `id` the event, which
+ * is shared by every delivery of that event and can be used to de-duplicate.
+ *
+ * @author Air Niugini Development Team
+ * @version 1.0.0
+ * @since 2026-10-19
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/** Maximum age of a signature timestamp accepted by verifyWebhookSignature */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * New signing secret, shown to the administrator once
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Value of the X-Webhook-Signature header for a request body
+ * @param timestamp - Unix time in seconds
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Verifies an X-Webhook-Signature header against the raw body; the reference
+ * implementation of the scheme receivers follow
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  options: { now?: Date; toleranceSeconds?: number } = {}
+): boolean {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key = '', ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    })
+  );
+
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature) return false;
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? SIGNATURE_TOLERANCE_SECONDS)) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones:
+ * 1 min, 4 min, 16 min, ... capped at 6 hours
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 4 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
@@ -1,6 +1,8 @@
 /**
  * @fileoverview Authentication middleware for API routes
- * Validates user sessions and enforces role-based access control
+ * Validates user sessions and enforces the permission model in @/lib/rbac.
+ * Every route handler is wrapped in withPermission, or in withExternalAccess
+ * when it is reached without a staff session (see route-permissions test).
  *
  * @author Air Niugini Development Team
  * @version 1.0.0
@@ -10,6 +12,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { User } from '@/lib/supabase';
+import { ApiErrors, type ApiError } from '@/lib/api-error';
+import type { Permission, RBACService } from '@/lib/rbac';
+import { resolveUserAccess } from '@/lib/access-control';
+import { resolveDataScope, type DataScope } from '@/lib/data-scope';
+import { logSecurityEvent, SecurityEventType } from '@/lib/security-audit';
+import { getClientIdentifier } from '@/lib/rate-limit';
 
 /**
  * Authentication result interface
@@ -20,6 +28,12 @@ export interface AuthResult {
   error?: string;
 }
 
+/** an_users row with the custom role and permission overrides the user's access is resolved from */
+const USER_ACCESS_SELECT = `*,
+  custom_role:role_definitions!an_users_custom_role_id_fkey (name, description, permissions),
+  permission_overrides:user_permission_overrides!user_permission_overrides_user_id_fkey (permission, effect, expires_at),
+  data_scopes:user_data_scopes!user_data_scopes_user_id_fkey (scope_type, scope_value)`;
+
 /**
  * Validates the current user session from request
  *
@@ -56,10 +70,10 @@ export async function validateSession(request: NextRequest): Promise<AuthResult>
       };
     }
 
-    // Fetch user details from an_users table (using admin client)
+    // Fetch user details, custom role and permission overrides (using admin client)
     const { data: userData, error: userError } = await supabaseAdmin
       .from('an_users')
-      .select('*')
+      .select(USER_ACCESS_SELECT)
       .eq('email', authUser.email)
       .single();
 
@@ -94,9 +108,143 @@ export function hasRole(user: User, requiredRoles: ('admin' | 'manager')[]): boo
   return requiredRoles.includes(user.role);
 }
 
+/**
+ * Permissions of a user: those of their custom or built-in role plus active
+ * grants, minus active denials (see access-control). Unknown permissions are ignored.
+ *
+ * @param user - Authenticated user, as loaded by validateSession
+ * @returns RBAC service for the user
+ */
+export function createUserRBAC(user: User): RBACService {
+  return resolveUserAccess(user);
+}
+
+/**
+ * Pilots a user may see: those in their assigned groups (see data-scope).
+ * Admins and users without scopes are unrestricted.
+ *
+ * @param user - Authenticated user, as loaded by validateSession
+ * @returns Data scope to pass to services
+ */
+export function createUserDataScope(user: User): DataScope {
+  return resolveDataScope(user);
+}
+
+/**
+ * Records a refused request in the security audit log and returns the error response
+ */
+async function denyRequest(
+  request: NextRequest,
+  error: ApiError,
+  details: { permission: Permission; reason?: string; user?: User }
+): Promise<NextResponse> {
+  await logSecurityEvent({
+    eventType: SecurityEventType.UNAUTHORIZED_ACCESS,
+    severity: error.statusCode === 403 ? 'medium' : 'low',
+    identifier: getClientIdentifier(request, details.user?.id),
+    userId: details.user?.id,
+    url: request.nextUrl.pathname,
+    method: request.method,
+    details: {
+      permission: details.permission,
+      role: details.user?.role,
+      reason: details.reason,
+    },
+  });
+
+  return NextResponse.json(error.toResponse(), { status: error.statusCode });
+}
+
+/**
+ * Context passed to a withPermission handler: the signed-in user and the
+ * dynamic route params (e.g. PermissionContext<{ id: string }> for [id] routes)
+ */
+export interface PermissionContext<P = Record<string, string>> {
+  user: User;
+  params: P;
+}
+
+/**
+ * Permission-checked wrapper for staff API routes
+ *
+ * Resolves the signed-in user's role and permission overrides from the database,
+ * returns 401 without a valid session and 403 without the permission (both
+ * recorded in the security audit log), then calls the handler with the user
+ * and the dynamic route params.
+ *
+ * @param handler - API route handler function
+ * @param options - Permission the handler requires
+ * @returns Wrapped handler
+ *
+ * @example
+ * export const GET = withPermission(
+ *   async (request, { user, params }) => {
+ *     return NextResponse.json({ success: true, data: await getTaskById(params.id) });
+ *   },
+ *   { permission: 'tasks:read' }
+ * );
+ */
+export function withPermission<P = Record<string, string>>(
+  handler: (request: NextRequest, context: PermissionContext<P>) => Promise<Response>,
+  options: { permission: Permission }
+) {
+  const { permission } = options;
+
+  return async (request: NextRequest, routeContext?: { params?: P }): Promise<Response> => {
+    const authResult = await validateSession(request);
+
+    if (!authResult.success || !authResult.user) {
+      return denyRequest(request, ApiErrors.unauthorized(authResult.error), {
+        permission,
+        reason: authResult.error,
+      });
+    }
+
+    if (!createUserRBAC(authResult.user).hasPermission(permission)) {
+      return denyRequest(
+        request,
+        ApiErrors.forbidden(`You do not have the '${permission}' permission`),
+        { permission, user: authResult.user }
+      );
+    }
+
+    return handler(request, {
+      user: authResult.user,
+      params: routeContext?.params || ({} as P),
+    });
+  };
+}
+
+/**
+ * How a route is reached when it does not use a staff session
+ * - public: anyone (health checks, CSRF token, pilot self-registration)
+ * - pilot-session: the pilot portal's cookie session, checked by the handler
+ * - cron-secret: scheduled jobs presenting CRON_SECRET
+ * - feed-token: unguessable token in the URL (calendar subscriptions)
+ */
+export type ExternalAccess = 'public' | 'pilot-session' | 'cron-secret' | 'feed-token';
+
+/**
+ * Declares a route handler that is not protected by staff permissions.
+ * The handler is returned unchanged and must authenticate the caller itself;
+ * the declaration keeps the route in the permissions matrix.
+ *
+ * @param handler - API route handler function
+ * @param _options - How callers of the route are authenticated
+ * @returns The handler
+ */
+export function withExternalAccess<H extends (...args: any[]) => Promise<Response>>(
+  handler: H,
+  _options: { access: ExternalAccess }
+): H {
+  return handler;
+}
+
 /**
  * Authentication middleware wrapper for API routes
  *
+ * @deprecated Use withPermission, which checks the RBAC permission model
+ *
  * @param handler - API route handler function
  * @param options - Middleware options
  * @returns Wrapped handler with authentication